@@ -11,6 +11,7 @@ import CallSchedule from "./pages/CallSchedule";
 import Statistics from "./pages/Statistics";
 import Settings from "./pages/Settings";
 import SavedSchedules from "./pages/SavedSchedules";
+import ShiftTrades from "./pages/ShiftTrades";
 import AppLayout from "./components/layout/AppLayout";
 
 const queryClient = new QueryClient();
@@ -30,6 +31,7 @@ const App = () => (
             <Route path="stats" element={<Statistics />} />
             <Route path="settings" element={<Settings />} />
             <Route path="saved" element={<SavedSchedules />} />
+            <Route path="trades" element={<ShiftTrades />} />
             {/* ADD ALL CUSTOM ROUTES ABOVE THE CATCH-ALL "*" ROUTE */}
             <Route path="*" element={<NotFound />} />
           </Route>
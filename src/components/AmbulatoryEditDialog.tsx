@@ -10,11 +10,12 @@ import {
   getEligibleAmbulatoryFellows, 
   getIneligibleAmbulatoryReasons,
   applyAmbulatoryAssignment,
-  getBlockKeyForDate,
   getFellowRotationOnDate,
   type ClinicSchedule 
 } from "@/lib/clinic-engine";
 import { getPrimaryRotation } from "@/lib/rotation-engine";
+import { loadSettings } from "@/lib/settings-engine";
+import { blockKeyForDate } from "@/lib/block-utils";
 
 type AmbulatoryEditDialogProps = {
   iso: string | null;
@@ -32,7 +33,7 @@ export default function AmbulatoryEditDialog({ iso, schedule, open, onClose, onA
   const fellowById = setup ? Object.fromEntries(setup.fellows.map(f => [f.id, f])) : {};
 
   // Get block key and calculate ambulatory stats
-  const blockKey = iso && setup ? getBlockKeyForDate(iso, setup.yearStart) : null;
+  const blockKey = iso && setup ? blockKeyForDate(iso, setup.yearStart, loadSettings().blockCalendar, setup.yearEnd) : null;
   
   const ambulatoryStats = useMemo(() => {
     if (!schedule || !setup) return {};
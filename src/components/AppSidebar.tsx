@@ -1,5 +1,5 @@
 import { NavLink, useLocation } from "react-router-dom";
-import { CalendarClock, HeartPulse, PhoneCall, BarChart3, Settings, Archive } from "lucide-react";
+import { CalendarClock, HeartPulse, PhoneCall, BarChart3, Settings, Archive, ArrowLeftRight } from "lucide-react";
 import {
   Sidebar,
   SidebarContent,
@@ -15,6 +15,7 @@ const items = [
   { title: "Vacation Preferences", url: "/setup", icon: HeartPulse },
   { title: "Block Schedule", url: "/blocks", icon: CalendarClock },
   { title: "Call Schedule", url: "/calls", icon: PhoneCall },
+  { title: "Shift Trades", url: "/trades", icon: ArrowLeftRight },
   { title: "Statistics", url: "/stats", icon: BarChart3 },
   { title: "Saved Schedules", url: "/saved", icon: Archive },
   { title: "Settings", url: "/settings", icon: Settings },
@@ -3,6 +3,8 @@ import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, D
 import { Button } from "@/components/ui/button";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import type { Rotation } from "@/lib/rotation-engine";
+import { getRotationDisplayName } from "@/lib/rotation-utils";
+import { PinButton } from "@/components/PinButton";
 
 export type BlockEditDialogProps = {
   open: boolean;
@@ -12,10 +14,12 @@ export type BlockEditDialogProps = {
   blockLabel: string;
   currentLabel?: string;
   options: Rotation[];
+  pinned?: boolean;
+  onTogglePin?: () => void;
   onApply: (value: { type: "set"; rotation: Rotation } | { type: "clear" }) => void;
 };
 
-export function BlockEditDialog({ open, onOpenChange, fellowName, blockKey, blockLabel, currentLabel, options, onApply }: BlockEditDialogProps) {
+export function BlockEditDialog({ open, onOpenChange, fellowName, blockKey, blockLabel, currentLabel, options, pinned = false, onTogglePin, onApply }: BlockEditDialogProps) {
   const [value, setValue] = React.useState<string>(currentLabel || "");
   React.useEffect(() => {
     setValue(currentLabel || "");
@@ -42,7 +46,7 @@ export function BlockEditDialog({ open, onOpenChange, fellowName, blockKey, bloc
                 <SelectItem key={opt} value={opt}>
                   {opt === "VAC" ? "Vacation" : 
                    opt.startsWith("ELECTIVE (") ? `Elective ${opt.match(/\((.*)\)/)?.[1] || ""}` :
-                   opt}
+                   getRotationDisplayName(opt)}
                 </SelectItem>
               ))}
             </SelectContent>
@@ -51,6 +55,7 @@ export function BlockEditDialog({ open, onOpenChange, fellowName, blockKey, bloc
 
         <DialogFooter className="flex items-center gap-2">
           <Button variant="secondary" onClick={() => onOpenChange(false)}>Cancel</Button>
+          {onTogglePin && <PinButton pinned={pinned} onToggle={onTogglePin} disabled={!currentLabel} />}
           <Button variant="outline" onClick={() => onApply({ type: "clear" })}>Clear assignment</Button>
           <Button onClick={() => value && onApply({ type: "set", rotation: value as Rotation })} disabled={!value}>
             Save
@@ -0,0 +1,121 @@
+import { useMemo, useState } from "react";
+import { format, parseISO } from "date-fns";
+import { RefreshCcw } from "lucide-react";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Button } from "@/components/ui/button";
+import { BURDEN_DUTIES, BURDEN_DUTY_LABELS, computeBurden, type BurdenReport, type FellowBurden } from "@/lib/burden-engine";
+import type { Fellow } from "@/lib/schedule-engine";
+import { cn } from "@/lib/utils";
+
+interface Props {
+  fellows: Fellow[];
+}
+
+const fmt = (n: number) => (Number.isInteger(n) ? String(n) : n.toFixed(1));
+
+export default function BurdenStatsTable({ fellows }: Props) {
+  const [report, setReport] = useState<BurdenReport>(() => computeBurden());
+
+  const rows = useMemo(() => {
+    const byId = new Map(report.fellows.map((r) => [r.fellowId, r] as const));
+    return fellows
+      .map((fellow) => ({ fellow, burden: byId.get(fellow.id) }))
+      .filter((r): r is { fellow: Fellow; burden: FellowBurden } => !!r.burden)
+      .sort((a, b) => (a.fellow.pgy !== b.fellow.pgy ? a.fellow.pgy.localeCompare(b.fellow.pgy) : a.fellow.name.localeCompare(b.fellow.name)));
+  }, [fellows, report]);
+
+  // The heaviest year in each PGY is highlighted
+  const heaviest = useMemo(() => {
+    const max = new Map<string, number>();
+    for (const { fellow, burden } of rows) max.set(fellow.pgy, Math.max(max.get(fellow.pgy) ?? 0, burden.total));
+    return new Set(rows.filter((r) => r.burden.total > 0 && r.burden.total === max.get(r.fellow.pgy)).map((r) => r.fellow.id));
+  }, [rows]);
+
+  // Month cells are shaded against the busiest month of any fellow
+  const busiestMonth = useMemo(
+    () => Math.max(0, ...rows.flatMap((r) => Object.values(r.burden.byMonth))),
+    [rows]
+  );
+
+  if (rows.length === 0) {
+    return <div className="text-muted-foreground">Please complete Setup first.</div>;
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-end">
+        <Button variant="outline" size="sm" onClick={() => setReport(computeBurden())}>
+          <RefreshCcw className="h-4 w-4" /> Recalculate
+        </Button>
+      </div>
+
+      <Table>
+        <TableHeader>
+          <TableRow>
+            <TableHead>Fellow</TableHead>
+            <TableHead>PGY</TableHead>
+            {BURDEN_DUTIES.map((duty) => (
+              <TableHead key={duty} className="text-right">
+                {BURDEN_DUTY_LABELS[duty]}
+              </TableHead>
+            ))}
+            <TableHead className="text-right">Total</TableHead>
+          </TableRow>
+        </TableHeader>
+        <TableBody>
+          {rows.map(({ fellow, burden }) => (
+            <TableRow key={fellow.id}>
+              <TableCell className="font-medium">{fellow.name || fellow.id}</TableCell>
+              <TableCell>{fellow.pgy}</TableCell>
+              {BURDEN_DUTIES.map((duty) => (
+                <TableCell key={duty} className="text-right tabular-nums">
+                  {fmt(burden.byDuty[duty])}
+                </TableCell>
+              ))}
+              <TableCell className={cn("text-right tabular-nums", heaviest.has(fellow.id) && "font-semibold text-destructive")}>
+                {fmt(burden.total)}
+              </TableCell>
+            </TableRow>
+          ))}
+        </TableBody>
+      </Table>
+
+      <div className="space-y-2">
+        <h3 className="text-sm font-medium">By month</h3>
+        <Table containerClassName="overflow-x-auto">
+          <TableHeader>
+            <TableRow>
+              <TableHead className="sticky left-0 z-[1] bg-background">Fellow</TableHead>
+              {report.months.map((month) => (
+                <TableHead key={month} className="text-right">
+                  {format(parseISO(`${month}-01`), "MMM")}
+                </TableHead>
+              ))}
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {rows.map(({ fellow, burden }) => (
+              <TableRow key={fellow.id}>
+                <TableCell className="sticky left-0 z-[1] bg-background font-medium whitespace-nowrap">
+                  {fellow.name || fellow.id}
+                </TableCell>
+                {report.months.map((month) => {
+                  const value = burden.byMonth[month] ?? 0;
+                  return (
+                    <TableCell
+                      key={month}
+                      className="text-right tabular-nums"
+                      style={busiestMonth > 0 && value > 0 ? { backgroundColor: `hsl(var(--primary) / ${(0.35 * value) / busiestMonth})` } : undefined}
+                    >
+                      {value ? fmt(value) : "—"}
+                    </TableCell>
+                  );
+                })}
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      </div>
+    </div>
+  );
+}
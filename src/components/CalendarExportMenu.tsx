@@ -0,0 +1,84 @@
+import * as React from "react";
+import { CalendarDays, Loader2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { useToast } from "@/hooks/use-toast";
+import { type Fellow } from "@/lib/schedule-engine";
+import { buildCalendarZip, buildFellowCalendar, calendarFileName } from "@/lib/ical-export";
+
+export type CalendarExportMenuProps = {
+  fellows: Fellow[];
+  disabled?: boolean;
+};
+
+function download(blob: Blob, fileName: string) {
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement("a");
+  a.href = url;
+  a.download = fileName;
+  a.click();
+  URL.revokeObjectURL(url);
+}
+
+// Every assignment as an .ics file: one fellow, or all of them zipped
+export function CalendarExportMenu({ fellows, disabled }: CalendarExportMenuProps) {
+  const { toast } = useToast();
+  const [exporting, setExporting] = React.useState(false);
+
+  const reportFailure = (e: unknown) =>
+    toast({
+      title: "Export Error",
+      description: e instanceof Error ? e.message : "Could not build the calendar files.",
+      variant: "destructive",
+    });
+
+  const exportFellow = (fellow: Fellow) => {
+    try {
+      const ics = buildFellowCalendar(fellow);
+      download(new Blob([ics], { type: "text/calendar;charset=utf-8" }), calendarFileName(fellow));
+    } catch (e) {
+      reportFailure(e);
+    }
+  };
+
+  const exportAll = async () => {
+    setExporting(true);
+    try {
+      download(await buildCalendarZip(fellows), "fellow_calendars.zip");
+    } catch (e) {
+      reportFailure(e);
+    } finally {
+      setExporting(false);
+    }
+  };
+
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <Button variant="outline" disabled={disabled || exporting || fellows.length === 0}>
+          {exporting ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <CalendarDays className="mr-2 h-4 w-4" />}
+          Export Calendar
+        </Button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="end" className="max-h-80 overflow-y-auto">
+        <DropdownMenuItem onClick={exportAll}>All fellows (.zip)</DropdownMenuItem>
+        <DropdownMenuSeparator />
+        <DropdownMenuLabel>One fellow (.ics)</DropdownMenuLabel>
+        {fellows.map((f) => (
+          <DropdownMenuItem key={f.id} onClick={() => exportFellow(f)}>
+            {f.name || f.id} <span className="ml-auto pl-4 text-xs text-muted-foreground">{f.pgy}</span>
+          </DropdownMenuItem>
+        ))}
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+}
+
+export default CalendarExportMenu;
@@ -1,4 +1,4 @@
-import { useState, useMemo } from "react";
+import { useState, useMemo, useEffect } from "react";
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogFooter } from "@/components/ui/dialog";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
@@ -19,6 +19,8 @@ import {
 } from "@/lib/clinic-engine";
 import { getPrimaryRotation } from "@/lib/rotation-engine";
 import type { CallSchedule } from "@/lib/call-engine";
+import { isClinicPinned, loadPins, setClinicPin, type PinnedAssignments } from "@/lib/pin-engine";
+import { PinButton } from "@/components/PinButton";
 
 type ClinicEditDialogProps = {
   iso: string | null;
@@ -28,6 +30,7 @@ type ClinicEditDialogProps = {
   open: boolean;
   onClose: () => void;
   onApply: (newSchedule: ClinicSchedule) => void;
+  onPinsChange?: (pins: PinnedAssignments) => void;
   mode: 'edit' | 'add';
 };
 
@@ -39,6 +42,7 @@ export default function ClinicEditDialog({
   open, 
   onClose, 
   onApply,
+  onPinsChange,
   mode 
 }: ClinicEditDialogProps) {
   const [showIneligible, setShowIneligible] = useState(false);
@@ -56,6 +60,22 @@ export default function ClinicEditDialog({
   const currentFellow = currentAssignment ? fellowById[currentAssignment.fellowId] : null;
   const currentClinicType = currentAssignment?.clinicType || null;
 
+  const [pins, setPins] = useState<PinnedAssignments>(loadPins);
+  useEffect(() => {
+    if (open) setPins(loadPins());
+  }, [open, iso]);
+  const pinned = !!iso && !!currentAssignment && isClinicPinned(pins, iso, currentAssignment);
+
+  const updatePins = (next: PinnedAssignments) => {
+    setPins(next);
+    onPinsChange?.(next);
+  };
+
+  const handleTogglePin = () => {
+    if (!iso || !currentAssignment) return;
+    updatePins(setClinicPin(iso, currentAssignment, !pinned));
+  };
+
   // Calculate clinic stats
   const clinicStats = useMemo(() => {
     if (!schedule || !setup) return {};
@@ -74,6 +94,7 @@ export default function ClinicEditDialog({
     
     const result = applyClinicAssignmentChange(schedule, iso, 'remove', assignmentIndex, null);
     if (result.success && result.schedule) {
+      if (pinned && currentAssignment) updatePins(setClinicPin(iso, currentAssignment, false));
       onApply(result.schedule);
       toast({
         title: "Clinic assignment removed",
@@ -147,6 +168,8 @@ export default function ClinicEditDialog({
       
       const result = applyClinicAssignmentChange(schedule, iso, 'edit', assignmentIndex, newAssignment);
       if (result.success && result.schedule) {
+        const changed = currentAssignment?.fellowId !== targetFellowId || currentAssignment?.clinicType !== targetClinicType;
+        if (pinned && changed && currentAssignment) updatePins(setClinicPin(iso, currentAssignment, false));
         onApply(result.schedule);
         toast({
           title: "Clinic assignment updated",
@@ -206,6 +229,7 @@ export default function ClinicEditDialog({
                 <span className="text-xs text-muted-foreground">
                   {clinicStats[currentFellow.id]?.[currentClinicType] || 0} total
                 </span>
+                <PinButton pinned={pinned} onToggle={handleTogglePin} />
                 <Button
                   variant="outline"
                   size="sm"
@@ -1,9 +1,10 @@
 import React from "react";
-import { parseISO, addDays, isAfter, format } from "date-fns";
+import { parseISO, addDays, format } from "date-fns";
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
 import { loadClinicSchedule, type ClinicSchedule, type ClinicType } from "@/lib/clinic-engine";
 import { loadSetup, type Fellow } from "@/lib/schedule-engine";
 import { computeAcademicYearHolidays } from "@/lib/holidays";
+import { academicYearWindow } from "@/lib/block-utils";
 import type { CallSchedule } from "@/lib/call-engine";
 
 type Props = {
@@ -30,20 +31,8 @@ function toISODate(d: Date): string {
   return format(d, "yyyy-MM-dd");
 }
 
-function july1ToJune30Window(yearStartISO: string): { start: Date; end: Date; days: Date[] } {
-  const start = parseISO(yearStartISO);
-  const end = addDays(new Date(start.getFullYear() + 1, 5, 30), 0); // June 30 of next year
-  const days: Date[] = [];
-  let cur = start;
-  while (!isAfter(cur, end)) {
-    days.push(cur);
-    cur = addDays(cur, 1);
-  }
-  return { start, end, days };
-}
-
 function isHoliday(dateISO: string, setup: any): boolean {
-  const holidays = setup.holidays?.length ? setup.holidays : computeAcademicYearHolidays(setup.yearStart);
+  const holidays = setup.holidays?.length ? setup.holidays : computeAcademicYearHolidays(setup.yearStart, setup.yearEnd);
   return holidays.some((h: any) => h.date === dateISO);
 }
 
@@ -95,7 +84,7 @@ export default function ClinicStatsTable({ fellows, callSchedule }: Props) {
         const preferredDayOfWeek = dayOfWeekMap[fellow.clinicDay];
 
         if (preferredDayOfWeek !== undefined) {
-          const { days } = july1ToJune30Window(clinicSchedule.yearStart);
+          const { days } = academicYearWindow(clinicSchedule.yearStart, setup.yearEnd);
           
           for (const date of days) {
             const dayOfWeek = date.getDay();
@@ -5,12 +5,13 @@ import { GripVertical } from "lucide-react";
 interface DraggableBadgeProps {
   id: string;
   variant: string;
+  style?: React.CSSProperties;
   children: React.ReactNode;
   onClick?: () => void;
   disabled?: boolean;
 }
 
-export function DraggableBadge({ id, variant, children, onClick, disabled }: DraggableBadgeProps) {
+export function DraggableBadge({ id, variant, style, children, onClick, disabled }: DraggableBadgeProps) {
   const {
     attributes,
     listeners,
@@ -28,6 +29,7 @@ export function DraggableBadge({ id, variant, children, onClick, disabled }: Dra
     >
       <Badge 
         variant={variant as any} 
+        style={style}
         className="cursor-pointer flex items-center gap-1"
         onClick={onClick}
       >
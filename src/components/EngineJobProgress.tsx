@@ -0,0 +1,35 @@
+import { Button } from "@/components/ui/button";
+import { Progress } from "@/components/ui/progress";
+import type { EngineProgress } from "@/lib/engine-progress";
+
+export type EngineJobProgressProps = {
+  running: boolean;
+  progress: EngineProgress | null;
+  onCancel: () => void;
+};
+
+export function EngineJobProgress({ running, progress, onCancel }: EngineJobProgressProps) {
+  if (!running) return null;
+  const counted = progress?.total ? Math.min(100, Math.round(((progress.attempt ?? 0) / progress.total) * 100)) : null;
+
+  return (
+    <div className="flex items-center gap-3 rounded-md border p-3 text-sm" role="status">
+      <div className="flex-1 space-y-1">
+        <div className="flex justify-between text-muted-foreground">
+          <span>{progress?.phase ?? "Working"}…</span>
+          {progress?.total ? (
+            <span>
+              {progress.attempt ?? 0} / {progress.total}
+            </span>
+          ) : null}
+        </div>
+        <Progress value={counted ?? undefined} className={counted === null ? "h-2 animate-pulse" : "h-2"} />
+      </div>
+      <Button size="sm" variant="outline" onClick={onCancel}>
+        Cancel
+      </Button>
+    </div>
+  );
+}
+
+export default EngineJobProgress;
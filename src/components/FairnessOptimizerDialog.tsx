@@ -0,0 +1,129 @@
+import * as React from "react";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Button } from "@/components/ui/button";
+import { EngineJobProgress } from "@/components/EngineJobProgress";
+import { SeedField } from "@/components/SeedField";
+import { useEngineJob } from "@/hooks/use-engine-job";
+import { toast } from "@/hooks/use-toast";
+import { type CallSchedule } from "@/lib/call-engine";
+import { FAIRNESS_DIMENSION_LABELS, type FairnessResult } from "@/lib/fairness-engine";
+import { cn } from "@/lib/utils";
+
+export type FairnessOptimizerDialogProps = {
+  open: boolean;
+  onOpenChange: (v: boolean) => void;
+  schedule: CallSchedule;
+  onAccept: (schedule: CallSchedule) => void;
+};
+
+const fmt = (n: number) => (Number.isInteger(n) ? String(n) : n.toFixed(1));
+
+export function FairnessOptimizerDialog({ open, onOpenChange, schedule, onAccept }: FairnessOptimizerDialogProps) {
+  const { run, cancel, progress, running } = useEngineJob();
+  const [seed, setSeed] = React.useState("");
+  const [result, setResult] = React.useState<FairnessResult | null>(null);
+
+  React.useEffect(() => {
+    if (open) return;
+    cancel();
+    setResult(null);
+  }, [open, cancel]);
+
+  const handleRun = async () => {
+    setResult(null);
+    try {
+      const outcome = await run({ kind: "fairness", schedule, seed: seed ? Number(seed) : undefined });
+      if (outcome.status === "done") setResult(outcome.result);
+    } catch (e) {
+      toast({ variant: "destructive", title: "Optimization failed", description: e instanceof Error ? e.message : String(e) });
+    }
+  };
+
+  const rows = result
+    ? result.before.spreads.map((b, i) => ({ before: b, after: result.after.spreads[i] }))
+    : [];
+  const changes = result ? result.moves + result.swaps : 0;
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-3xl">
+        <DialogHeader>
+          <DialogTitle>Optimize call fairness</DialogTitle>
+          <DialogDescription>
+            Moves and swaps primary calls between fellows of the same PGY to even out the spread weighted in
+            Settings → Primary Call. Every change passes the usual call rules, and pinned days are left alone.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="flex items-center gap-2">
+          <SeedField value={seed} onChange={setSeed} disabled={running} />
+          <Button onClick={handleRun} disabled={running}>
+            {result ? "Run again" : "Run"}
+          </Button>
+        </div>
+        <EngineJobProgress running={running} progress={progress} onCancel={cancel} />
+
+        {result && (
+          <div className="space-y-3">
+            <div className="text-sm text-muted-foreground">
+              {changes === 0
+                ? "No improving change was found; the schedule is unchanged."
+                : `${result.moves} move${result.moves === 1 ? "" : "s"} and ${result.swaps} swap${result.swaps === 1 ? "" : "s"} change ${result.changedDates.length} day${result.changedDates.length === 1 ? "" : "s"}. `}
+              Objective {fmt(result.before.objective)} → {fmt(result.after.objective)} (seed {result.seed}).
+            </div>
+            <Table containerClassName="max-h-[50vh] overflow-auto">
+              <TableHeader>
+                <TableRow>
+                  <TableHead className="sticky top-0 z-[1] bg-background">Measure</TableHead>
+                  <TableHead className="sticky top-0 z-[1] bg-background">PGY</TableHead>
+                  <TableHead className="sticky top-0 z-[1] bg-background text-right">Before (min–max)</TableHead>
+                  <TableHead className="sticky top-0 z-[1] bg-background text-right">After (min–max)</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {rows.map(({ before, after }) => {
+                  const gap = before.max - before.min;
+                  const nextGap = after.max - after.min;
+                  return (
+                    <TableRow key={`${before.dimension}-${before.pgy}`}>
+                      <TableCell>{FAIRNESS_DIMENSION_LABELS[before.dimension]}</TableCell>
+                      <TableCell>{before.pgy}</TableCell>
+                      <TableCell className="text-right tabular-nums">
+                        {fmt(before.min)}–{fmt(before.max)}
+                      </TableCell>
+                      <TableCell
+                        className={cn(
+                          "text-right tabular-nums",
+                          nextGap < gap - 1e-6 && "text-primary font-medium",
+                          nextGap > gap + 1e-6 && "text-destructive"
+                        )}
+                      >
+                        {fmt(after.min)}–{fmt(after.max)}
+                      </TableCell>
+                    </TableRow>
+                  );
+                })}
+              </TableBody>
+            </Table>
+            <p className="text-xs text-muted-foreground">
+              Counts are scaled up for fellows whose call cap is prorated for leave. Heavy-rotation calls are per 30
+              days on those rotations.
+            </p>
+          </div>
+        )}
+
+        <DialogFooter className="flex items-center gap-2">
+          <Button variant="secondary" onClick={() => onOpenChange(false)}>
+            {result ? "Reject" : "Cancel"}
+          </Button>
+          <Button onClick={() => result && onAccept(result.schedule)} disabled={!result || changes === 0 || running}>
+            Accept
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+export default FairnessOptimizerDialog;
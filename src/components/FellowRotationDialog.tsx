@@ -0,0 +1,180 @@
+import * as React from "react";
+import { Plus, Trash2 } from "lucide-react";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { type BlockInfo } from "@/lib/block-utils";
+import { type PGY, type RotationRequest } from "@/lib/schedule-engine";
+import { loadSettings } from "@/lib/settings-engine";
+import { findRotation, getRotationOptionsForPGY } from "@/lib/rotation-catalog";
+import { maxBlocksPerYear } from "@/lib/requirements-engine";
+import { cn } from "@/lib/utils";
+
+// Vacation and elective fill whatever the other rotations leave
+const NOT_SCHEDULED = ["VAC", "ELECTIVE"];
+
+export type FellowRotations = {
+  rotationQuotas?: Partial<Record<string, number>>;
+  rotationRequests?: RotationRequest[];
+};
+
+export type FellowRotationDialogProps = {
+  open: boolean;
+  onOpenChange: (v: boolean) => void;
+  fellowName: string;
+  pgy: PGY;
+  blocks: BlockInfo[];
+  value: FellowRotations;
+  onSave: (value: FellowRotations) => void;
+};
+
+export function FellowRotationDialog({ open, onOpenChange, fellowName, pgy, blocks, value, onSave }: FellowRotationDialogProps) {
+  const [settings, setSettings] = React.useState(loadSettings);
+  const rotations = getRotationOptionsForPGY(settings.rotationCatalog, pgy).filter((r) => !NOT_SCHEDULED.includes(r));
+  const nameOf = (id: string) => findRotation(settings.rotationCatalog, id)?.name ?? id;
+
+  const [quotas, setQuotas] = React.useState<Partial<Record<string, number>>>({});
+  const [requests, setRequests] = React.useState<RotationRequest[]>([]);
+  const [newRotation, setNewRotation] = React.useState("");
+  // Settings may have changed since the dialog was last open
+  React.useEffect(() => {
+    setSettings(loadSettings());
+    setQuotas(value.rotationQuotas ?? {});
+    setRequests(value.rotationRequests ?? []);
+    setNewRotation("");
+  }, [value, open]);
+
+  const setQuota = (rotation: string, raw: string) => {
+    const next = { ...quotas };
+    if (raw === "") delete next[rotation];
+    else next[rotation] = Math.max(0, parseInt(raw) || 0);
+    setQuotas(next);
+  };
+
+  const toggleBlock = (index: number, key: string) => {
+    setRequests(
+      requests.map((r, i) =>
+        i !== index ? r : { ...r, blocks: r.blocks.includes(key) ? r.blocks.filter((b) => b !== key) : [...r.blocks, key] }
+      )
+    );
+  };
+
+  const scheduled = rotations.reduce(
+    (sum, rot) => sum + (quotas[rot] ?? maxBlocksPerYear(settings, pgy, rot)),
+    0
+  );
+  const electives = blocks.length - settings.vacation.maxVacationsPerYear - scheduled;
+
+  const handleSave = () => {
+    const rotationQuotas = Object.keys(quotas).length > 0 ? quotas : undefined;
+    const kept = requests.filter((r) => r.blocks.length > 0);
+    onSave({ rotationQuotas, rotationRequests: kept.length > 0 ? kept : undefined });
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-2xl max-h-[85vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Rotations for {fellowName || "Unnamed"}</DialogTitle>
+          <DialogDescription>
+            Blocks this fellow gets of each rotation this year. Leave a field blank to use the {pgy} class default.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="grid grid-cols-2 gap-x-6 gap-y-2 sm:grid-cols-3">
+          {rotations.map((rot) => (
+            <label key={rot} className="flex items-center justify-between gap-2 text-sm">
+              <span>{nameOf(rot)}</span>
+              <Input
+                type="number"
+                min="0"
+                max={blocks.length}
+                aria-label={`${nameOf(rot)} blocks`}
+                value={quotas[rot] ?? ""}
+                placeholder={String(maxBlocksPerYear(settings, pgy, rot))}
+                onChange={(e) => setQuota(rot, e.target.value)}
+                className="h-8 w-16 text-center"
+              />
+            </label>
+          ))}
+        </div>
+        <p className={cn("text-xs", electives < 0 ? "text-destructive" : "text-muted-foreground")}>
+          About {electives} elective block{electives === 1 ? "" : "s"} left after {settings.vacation.maxVacationsPerYear} vacations.
+          Shares that vary within the class are counted at their larger size.
+        </p>
+
+        <div className="space-y-3">
+          <div className="text-sm font-medium">Requested blocks</div>
+          <p className="text-xs text-muted-foreground">
+            The solvers try these blocks first for the rotation, but may place it elsewhere when the rules require.
+          </p>
+          {requests.map((request, index) => (
+            <div key={`${request.rotation}-${index}`} className="space-y-2 rounded-md border p-2">
+              <div className="flex items-center justify-between">
+                <span className="text-sm font-medium">{nameOf(request.rotation)}</span>
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  aria-label={`Remove ${nameOf(request.rotation)} request`}
+                  onClick={() => setRequests(requests.filter((_, i) => i !== index))}
+                >
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              </div>
+              <div className="flex flex-wrap gap-1">
+                {blocks.map((b) => (
+                  <button
+                    key={b.key}
+                    type="button"
+                    title={b.label}
+                    onClick={() => toggleBlock(index, b.key)}
+                    className={cn(
+                      "px-2 py-1 rounded-md text-xs font-medium transition-colors",
+                      "border border-input hover:bg-accent hover:text-accent-foreground",
+                      request.blocks.includes(b.key) && "bg-primary text-primary-foreground hover:bg-primary/90"
+                    )}
+                  >
+                    {b.key}
+                  </button>
+                ))}
+              </div>
+            </div>
+          ))}
+          <div className="flex items-center gap-2">
+            <Select value={newRotation} onValueChange={setNewRotation}>
+              <SelectTrigger className="w-56" aria-label="Rotation to request">
+                <SelectValue placeholder="Rotation" />
+              </SelectTrigger>
+              <SelectContent>
+                {rotations.map((rot) => (
+                  <SelectItem key={rot} value={rot}>
+                    {nameOf(rot)}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Button
+              variant="outline"
+              disabled={!newRotation}
+              onClick={() => {
+                setRequests([...requests, { rotation: newRotation, blocks: [] }]);
+                setNewRotation("");
+              }}
+            >
+              <Plus className="h-4 w-4 mr-2" />
+              Add request
+            </Button>
+          </div>
+        </div>
+
+        <DialogFooter className="flex items-center gap-2">
+          <Button variant="secondary" onClick={() => onOpenChange(false)}>Cancel</Button>
+          <Button onClick={handleSave}>Save</Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+export default FellowRotationDialog;
@@ -0,0 +1,183 @@
+import * as React from "react";
+import { format, parseISO } from "date-fns";
+import { academicYearEnd } from "@/lib/block-utils";
+import type { DateRange } from "react-day-picker";
+import { Trash2 } from "lucide-react";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Calendar } from "@/components/ui/calendar";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { type Unavailability, type UnavailabilityKind } from "@/lib/schedule-engine";
+import { UNAVAILABILITY_KINDS, unavailabilityName } from "@/lib/unavailability";
+
+export type FellowUnavailabilityDialogProps = {
+  open: boolean;
+  onOpenChange: (v: boolean) => void;
+  fellowName: string;
+  yearStart: string; // ISO date
+  yearEnd?: string; // ISO date of the last day of the academic year
+  value?: Unavailability[];
+  onSave: (value: Unavailability[]) => void;
+};
+
+const toISO = (d: Date) => format(d, "yyyy-MM-dd");
+
+// Kinds that can be an extended leave of absence
+const LEAVE_KINDS: UnavailabilityKind[] = ["parental", "sick"];
+
+function rangeLabel(startISO: string, endISO: string): string {
+  const start = format(parseISO(startISO), "MMM d");
+  return startISO === endISO ? start : `${start} – ${format(parseISO(endISO), "MMM d")}`;
+}
+
+export function FellowUnavailabilityDialog({ open, onOpenChange, fellowName, yearStart, yearEnd, value, onSave }: FellowUnavailabilityDialogProps) {
+  const [entries, setEntries] = React.useState<Unavailability[]>([]);
+  const [range, setRange] = React.useState<DateRange | undefined>();
+  const [kind, setKind] = React.useState<UnavailabilityKind>("conference");
+  const [label, setLabel] = React.useState("");
+  const [hard, setHard] = React.useState(true);
+  const [leave, setLeave] = React.useState(false);
+  React.useEffect(() => {
+    setEntries(value ?? []);
+    setRange(undefined);
+    setLabel("");
+    setLeave(false);
+  }, [value, open]);
+
+  const canBeLeave = LEAVE_KINDS.includes(kind);
+
+  const yearFrom = parseISO(yearStart);
+  const yearTo = parseISO(academicYearEnd(yearStart, yearEnd));
+
+  const addEntry = () => {
+    if (!range?.from) return;
+    const entry: Unavailability = {
+      id: crypto.randomUUID(),
+      kind,
+      start: toISO(range.from),
+      end: toISO(range.to ?? range.from),
+      label: label.trim() || undefined,
+      hard: hard || (canBeLeave && leave),
+      leaveOfAbsence: canBeLeave && leave ? true : undefined,
+    };
+    setEntries([...entries, entry].sort((a, b) => a.start.localeCompare(b.start)));
+    setRange(undefined);
+    setLabel("");
+    setLeave(false);
+  };
+
+  const booked = entries.map((e) => ({ from: parseISO(e.start), to: parseISO(e.end) }));
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-3xl max-h-[85vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Unavailability for {fellowName || "Unnamed"}</DialogTitle>
+          <DialogDescription>
+            Days this fellow cannot take primary call, HF, jeopardy or clinic. Hard entries are never scheduled; soft
+            entries are avoided by the generators but can still be assigned by hand.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="flex flex-col gap-4 md:flex-row">
+          <Calendar
+            mode="range"
+            selected={range}
+            onSelect={setRange}
+            defaultMonth={yearFrom}
+            fromDate={yearFrom}
+            toDate={yearTo}
+            modifiers={{ booked }}
+            modifiersClassNames={{ booked: "bg-destructive/15 text-destructive" }}
+            className="rounded-md border"
+          />
+          <div className="flex-1 space-y-3">
+            <div className="space-y-1">
+              <Label>Type</Label>
+              <Select value={kind} onValueChange={(v) => setKind(v as UnavailabilityKind)}>
+                <SelectTrigger aria-label="Unavailability type">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {UNAVAILABILITY_KINDS.map((k) => (
+                    <SelectItem key={k.value} value={k.value}>
+                      {k.label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="unavailability-label">Label</Label>
+              <Input
+                id="unavailability-label"
+                value={label}
+                placeholder="e.g. ACC conference"
+                onChange={(e) => setLabel(e.target.value)}
+              />
+            </div>
+            <div className="flex items-center gap-2">
+              <Switch
+                id="unavailability-hard"
+                checked={hard || (canBeLeave && leave)}
+                disabled={canBeLeave && leave}
+                onCheckedChange={setHard}
+              />
+              <Label htmlFor="unavailability-hard">Hard (never schedule)</Label>
+            </div>
+            {canBeLeave && (
+              <div className="space-y-1">
+                <div className="flex items-center gap-2">
+                  <Switch id="unavailability-leave" checked={leave} onCheckedChange={setLeave} />
+                  <Label htmlFor="unavailability-leave">Leave of absence</Label>
+                </div>
+                <p className="text-xs text-muted-foreground">
+                  Prorates call, HF and jeopardy quotas for the year and counts toward extending training.
+                </p>
+              </div>
+            )}
+            <Button variant="outline" onClick={addEntry} disabled={!range?.from}>
+              Add {range?.from ? rangeLabel(toISO(range.from), toISO(range.to ?? range.from)) : "dates"}
+            </Button>
+          </div>
+        </div>
+
+        <div className="space-y-2">
+          {entries.length === 0 ? (
+            <p className="text-sm text-muted-foreground">No unavailability entered.</p>
+          ) : (
+            entries.map((entry) => (
+              <div key={entry.id} className="flex items-center justify-between rounded-md border px-3 py-1">
+                <div className="flex items-center gap-2 text-sm">
+                  <span className="font-medium">{rangeLabel(entry.start, entry.end)}</span>
+                  <span>{unavailabilityName(entry)}</span>
+                  <Badge variant={entry.hard ? "destructive" : "secondary"}>{entry.hard ? "Hard" : "Soft"}</Badge>
+                  {entry.leaveOfAbsence && <Badge variant="outline">Leave of absence</Badge>}
+                </div>
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  aria-label={`Remove ${unavailabilityName(entry)}`}
+                  onClick={() => setEntries(entries.filter((e) => e.id !== entry.id))}
+                >
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              </div>
+            ))
+          )}
+        </div>
+
+        <DialogFooter className="flex items-center gap-2">
+          <Button variant="secondary" onClick={() => onOpenChange(false)}>Cancel</Button>
+          <Button onClick={() => onSave(entries)}>Save</Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+export default FellowUnavailabilityDialog;
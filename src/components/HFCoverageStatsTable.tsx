@@ -67,8 +67,7 @@ export default function HFCoverageStatsTable({ fellows }: Props) {
     try {
       const result = buildHFSchedule({ 
         randomize: true, 
-        attempts: 3,
-        seed: Date.now() 
+        attempts: 3
       });
       
       if (result.success) {
@@ -4,7 +4,7 @@ import { Button } from "@/components/ui/button";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Badge } from "@/components/ui/badge";
 import { Trash2, UserPlus } from "lucide-react";
-import { format, parseISO } from "date-fns";
+import { addDays, format, parseISO } from "date-fns";
 import { 
   getEffectiveHFAssignment, 
   getBlockDatesForDate, 
@@ -16,6 +16,10 @@ import {
 } from "@/lib/hf-engine";
 import { loadSetup, loadSchedule, type Fellow, type SetupState, type PGY } from "@/lib/schedule-engine";
 import { loadCallSchedule } from "@/lib/call-engine";
+import { loadSettings } from "@/lib/settings-engine";
+import { blockKeyForDate } from "@/lib/block-utils";
+import { loadPins, releaseChangedDayPins, setDayPin, type PinnedAssignments } from "@/lib/pin-engine";
+import { PinButton } from "@/components/PinButton";
 import { useToast } from "@/hooks/use-toast";
 
 interface Props {
@@ -25,6 +29,7 @@ interface Props {
   fellows: Fellow[];
   schedule: HFSchedule | null;
   onUpdate: (newSchedule: HFSchedule) => void;
+  onPinsChange?: (pins: PinnedAssignments) => void;
 }
 
 export default function HFEditDialog({ 
@@ -33,10 +38,12 @@ export default function HFEditDialog({
   dateISO, 
   fellows, 
   schedule, 
-  onUpdate 
+  onUpdate,
+  onPinsChange
 }: Props) {
   const [selectedFellowId, setSelectedFellowId] = useState<string>("");
   const [actionScope, setActionScope] = useState<'day' | 'block'>('block');
+  const [pins, setPins] = useState<PinnedAssignments>(loadPins);
   
   const setup = loadSetup();
   const callSchedule = loadCallSchedule();
@@ -59,6 +66,21 @@ export default function HFEditDialog({
   const currentFellow = currentAssignment 
     ? fellows.find(f => f.id === currentAssignment)
     : null;
+
+  // Weekend pins are keyed by the Saturday; holiday-only days cannot be pinned
+  const weekendISO = date.getDay() === 6 ? dateISO : date.getDay() === 0 ? format(addDays(date, -1), "yyyy-MM-dd") : null;
+  const weekendFellowId = weekendISO ? schedule.weekends[weekendISO] : undefined;
+  const pinned = !!weekendFellowId && pins.hf[weekendISO!] === weekendFellowId;
+
+  const updatePins = (next: PinnedAssignments) => {
+    setPins(next);
+    onPinsChange?.(next);
+  };
+
+  const handleTogglePin = () => {
+    if (!weekendISO || !weekendFellowId) return;
+    updatePins(setDayPin("hf", weekendISO, pinned ? null : weekendFellowId));
+  };
   
   const fellowStats = useMemo(() => {
     const analysis = analyzeHFSchedule(schedule, fellows, setup);
@@ -75,18 +97,11 @@ export default function HFEditDialog({
 
   // Helper to get fellow's rotation on the selected date
   const getRotationOnDate = (fellow: Fellow, date: Date) => {
-    const dateToBlockKey = (d: Date): string => {
-      const monthNames = ["Jan", "Feb", "Mar", "Apr", "May", "Jun", "Jul", "Aug", "Sep", "Oct", "Nov", "Dec"];
-      const abbr = monthNames[d.getMonth()];
-      const half = d.getDate() <= 15 ? 1 : 2;
-      return `${abbr.toUpperCase()}${half}`;
-    };
-
     const sched = schedByPGY[fellow.pgy];
-    if (!sched || !sched.byFellow) return undefined;
+    if (!sched || !sched.byFellow || !setup) return undefined;
     const row = sched.byFellow[fellow.id] || {};
-    const key = dateToBlockKey(date);
-    return row[key];
+    const key = blockKeyForDate(format(date, "yyyy-MM-dd"), setup.yearStart, loadSettings().blockCalendar, setup.yearEnd);
+    return key ? row[key] : undefined;
   };
   
   const handleAssign = () => {
@@ -120,6 +135,7 @@ export default function HFEditDialog({
       schedule, 
       setup
     );
+    if (weekendISO) updatePins(releaseChangedDayPins("hf", newSchedule.weekends, [weekendISO]));
     onUpdate(newSchedule);
     onOpenChange(false);
   };
@@ -131,6 +147,7 @@ export default function HFEditDialog({
       schedule,
       setup
     );
+    if (weekendISO) updatePins(releaseChangedDayPins("hf", newSchedule.weekends, [weekendISO]));
     onUpdate(newSchedule);
     onOpenChange(false);
   };
@@ -166,9 +183,12 @@ export default function HFEditDialog({
           {currentAssignment && (
             <div>
               <h4 className="font-medium mb-2">Current Assignment</h4>
-              <Badge variant="secondary">
-                {currentFellow?.name || "Unknown Fellow"}
-              </Badge>
+              <div className="flex items-center gap-2">
+                <Badge variant="secondary">
+                  {currentFellow?.name || "Unknown Fellow"}
+                </Badge>
+                {weekendFellowId && <PinButton pinned={pinned} onToggle={handleTogglePin} />}
+              </div>
             </div>
           )}
           
@@ -0,0 +1,193 @@
+import { useMemo, useState } from "react";
+import { useNavigate } from "react-router-dom";
+import { format, parseISO } from "date-fns";
+import { AlertTriangle, CheckCircle2, RefreshCcw, XCircle } from "lucide-react";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import {
+  HEALTH_AREA_LABELS,
+  HEALTH_RULE_LABELS,
+  runHealthCheck,
+  type HealthArea,
+  type HealthReport,
+  type HealthRule,
+  type HealthViolation,
+} from "@/lib/health-engine";
+import type { Fellow } from "@/lib/schedule-engine";
+
+interface Props {
+  fellows: Fellow[];
+}
+
+function formatDates(dates: string[]): string {
+  const first = format(parseISO(dates[0]), "MMM d, yyyy");
+  if (dates.length === 1) return first;
+  return `${first} +${dates.length - 1} more`;
+}
+
+export default function HealthPanel({ fellows }: Props) {
+  const navigate = useNavigate();
+  const [report, setReport] = useState<HealthReport>(() => runHealthCheck());
+  const [severity, setSeverity] = useState<string>("all");
+  const [area, setArea] = useState<string>("all");
+  const [rule, setRule] = useState<string>("all");
+  const [fellowId, setFellowId] = useState<string>("all");
+
+  const fellowById = useMemo(() => new Map(fellows.map((f) => [f.id, f] as const)), [fellows]);
+  const rules = useMemo(
+    () => [...new Set(report.violations.map((v) => v.rule))].sort((a, b) => HEALTH_RULE_LABELS[a].localeCompare(HEALTH_RULE_LABELS[b])),
+    [report]
+  );
+  const visible = useMemo(
+    () =>
+      report.violations.filter(
+        (v) =>
+          (severity === "all" || v.severity === severity) &&
+          (area === "all" || v.area === area) &&
+          (rule === "all" || v.rule === rule) &&
+          (fellowId === "all" || v.fellowId === fellowId)
+      ),
+    [report, severity, area, rule, fellowId]
+  );
+
+  // Block rules open the block schedule; everything else opens the offending day on the call schedule
+  const open = (v: HealthViolation) => {
+    if (v.area === "block") navigate("/blocks");
+    else navigate(`/calls?date=${v.dates[0]}`);
+  };
+
+  if (report.checked.length === 0) {
+    return <div className="text-muted-foreground">Please complete Setup first.</div>;
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap items-center justify-between gap-4">
+        <div className="flex items-center gap-4 text-sm">
+          {report.violations.length === 0 ? (
+            <span className="flex items-center gap-1 text-primary">
+              <CheckCircle2 className="h-4 w-4" /> No rule violations found
+            </span>
+          ) : (
+            <>
+              <span className={`flex items-center gap-1 ${report.errors ? "text-destructive" : ""}`}>
+                <XCircle className="h-4 w-4" /> {report.errors} error{report.errors === 1 ? "" : "s"}
+              </span>
+              <span className="flex items-center gap-1 text-muted-foreground">
+                <AlertTriangle className="h-4 w-4" /> {report.warnings} warning{report.warnings === 1 ? "" : "s"}
+              </span>
+            </>
+          )}
+          <span className="text-muted-foreground">
+            Checked {report.checked.map((a) => HEALTH_AREA_LABELS[a]).join(", ")} at {format(new Date(report.checkedAt), "h:mm a")}
+          </span>
+        </div>
+        <Button variant="outline" size="sm" onClick={() => setReport(runHealthCheck())}>
+          <RefreshCcw className="h-4 w-4" /> Run again
+        </Button>
+      </div>
+
+      {report.violations.length > 0 && (
+        <>
+          <div className="flex flex-wrap gap-2">
+            <Select value={severity} onValueChange={setSeverity}>
+              <SelectTrigger className="w-[150px]">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">All severities</SelectItem>
+                <SelectItem value="error">Errors</SelectItem>
+                <SelectItem value="warning">Warnings</SelectItem>
+              </SelectContent>
+            </Select>
+            <Select value={area} onValueChange={setArea}>
+              <SelectTrigger className="w-[180px]">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">All schedules</SelectItem>
+                {report.checked.map((a: HealthArea) => (
+                  <SelectItem key={a} value={a}>
+                    {HEALTH_AREA_LABELS[a]}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Select value={rule} onValueChange={setRule}>
+              <SelectTrigger className="w-[220px]">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">All rules</SelectItem>
+                {rules.map((r: HealthRule) => (
+                  <SelectItem key={r} value={r}>
+                    {HEALTH_RULE_LABELS[r]}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Select value={fellowId} onValueChange={setFellowId}>
+              <SelectTrigger className="w-[200px]">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">All fellows</SelectItem>
+                {fellows.map((f) => (
+                  <SelectItem key={f.id} value={f.id}>
+                    {f.name || f.id} ({f.pgy})
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          <Table containerClassName="max-h-[70vh] overflow-auto">
+            <TableHeader>
+              <TableRow>
+                <TableHead className="sticky top-0 z-[1] bg-background">Severity</TableHead>
+                <TableHead className="sticky top-0 z-[1] bg-background">Date</TableHead>
+                <TableHead className="sticky top-0 z-[1] bg-background">Schedule</TableHead>
+                <TableHead className="sticky top-0 z-[1] bg-background">Rule</TableHead>
+                <TableHead className="sticky top-0 z-[1] bg-background">Fellow</TableHead>
+                <TableHead className="sticky top-0 z-[1] bg-background">Problem</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {visible.map((v) => {
+                const fellow = v.fellowId ? fellowById.get(v.fellowId) : undefined;
+                return (
+                  <TableRow key={v.id} className="cursor-pointer" onClick={() => open(v)}>
+                    <TableCell>
+                      <Badge variant={v.severity === "error" ? "destructive" : "secondary"}>
+                        {v.severity === "error" ? "Error" : "Warning"}
+                      </Badge>
+                    </TableCell>
+                    <TableCell className="whitespace-nowrap" title={v.dates.join("\n")}>
+                      {formatDates(v.dates)}
+                    </TableCell>
+                    <TableCell>{HEALTH_AREA_LABELS[v.area]}</TableCell>
+                    <TableCell>{HEALTH_RULE_LABELS[v.rule]}</TableCell>
+                    <TableCell>{fellow ? fellow.name || fellow.id : "—"}</TableCell>
+                    <TableCell>
+                      <div>{v.message}</div>
+                      <div className="text-xs text-muted-foreground">{v.suggestion}</div>
+                    </TableCell>
+                  </TableRow>
+                );
+              })}
+              {visible.length === 0 && (
+                <TableRow>
+                  <TableCell colSpan={6} className="text-center text-muted-foreground">
+                    No violations match these filters.
+                  </TableCell>
+                </TableRow>
+              )}
+            </TableBody>
+          </Table>
+        </>
+      )}
+    </div>
+  );
+}
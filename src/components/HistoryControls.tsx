@@ -0,0 +1,148 @@
+import * as React from "react";
+import { formatDistanceToNow } from "date-fns";
+import { History, Redo2, Undo2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { useToast } from "@/hooks/use-toast";
+import { clearHistory, loadHistory, redo, subscribeHistory, undo, undoTo, type EditHistory } from "@/lib/history-engine";
+
+// Text fields keep their own Ctrl+Z
+function isTextInput(target: EventTarget | null): boolean {
+  if (!(target instanceof HTMLElement)) return false;
+  return target.isContentEditable || ["INPUT", "TEXTAREA", "SELECT"].includes(target.tagName);
+}
+
+// Undo, redo and the list of recent schedule edits; Ctrl+Z and Ctrl+Shift+Z (or Ctrl+Y) anywhere in the app
+export function HistoryControls() {
+  const { toast } = useToast();
+  const [history, setHistory] = React.useState<EditHistory>(() => loadHistory());
+  const [open, setOpen] = React.useState(false);
+
+  React.useEffect(() => subscribeHistory(() => setHistory(loadHistory())), []);
+
+  // Undo and redo throw when storage refuses a write; history is left as it was
+  const reportFailure = React.useCallback(
+    (title: string, error: unknown) =>
+      toast({ title, description: error instanceof Error ? error.message : String(error), variant: "destructive" }),
+    [toast]
+  );
+
+  const handleUndo = React.useCallback(() => {
+    try {
+      const entry = undo();
+      if (entry) toast({ title: "Undone", description: entry.label });
+    } catch (error) {
+      reportFailure("Undo failed", error);
+    }
+  }, [toast, reportFailure]);
+
+  const handleRedo = React.useCallback(() => {
+    try {
+      const entry = redo();
+      if (entry) toast({ title: "Redone", description: entry.label });
+    } catch (error) {
+      reportFailure("Redo failed", error);
+    }
+  }, [toast, reportFailure]);
+
+  React.useEffect(() => {
+    const onKeyDown = (e: KeyboardEvent) => {
+      if (!(e.ctrlKey || e.metaKey) || e.altKey || isTextInput(e.target)) return;
+      const key = e.key.toLowerCase();
+      if (key === "z" && !e.shiftKey) {
+        e.preventDefault();
+        handleUndo();
+      } else if ((key === "z" && e.shiftKey) || key === "y") {
+        e.preventDefault();
+        handleRedo();
+      }
+    };
+    window.addEventListener("keydown", onKeyDown);
+    return () => window.removeEventListener("keydown", onKeyDown);
+  }, [handleUndo, handleRedo]);
+
+  const handleUndoTo = (id: string, label: string) => {
+    try {
+      const count = undoTo(id);
+      if (count) toast({ title: `Undid ${count} edit${count === 1 ? "" : "s"}`, description: `Back to “${label}”.` });
+    } catch (error) {
+      reportFailure("Undo failed", error);
+    }
+  };
+
+  const past = history.past.slice().reverse();
+  const future = history.future.slice().reverse();
+  const lastPast = history.past[history.past.length - 1];
+  const nextFuture = history.future[0];
+
+  return (
+    <div className="ml-auto flex items-center gap-1">
+      <Button
+        variant="ghost"
+        size="icon"
+        className="h-8 w-8"
+        onClick={handleUndo}
+        disabled={!lastPast}
+        title={lastPast ? `Undo ${lastPast.label} (Ctrl+Z)` : "Nothing to undo"}
+      >
+        <Undo2 className="h-4 w-4" />
+      </Button>
+      <Button
+        variant="ghost"
+        size="icon"
+        className="h-8 w-8"
+        onClick={handleRedo}
+        disabled={!nextFuture}
+        title={nextFuture ? `Redo ${nextFuture.label} (Ctrl+Shift+Z)` : "Nothing to redo"}
+      >
+        <Redo2 className="h-4 w-4" />
+      </Button>
+      <Popover open={open} onOpenChange={setOpen}>
+        <PopoverTrigger asChild>
+          <Button variant="ghost" size="icon" className="h-8 w-8" title="Edit history">
+            <History className="h-4 w-4" />
+          </Button>
+        </PopoverTrigger>
+        <PopoverContent align="end" className="w-80 p-0">
+          <div className="flex items-center justify-between border-b px-3 py-2">
+            <div className="text-sm font-medium">Edit history</div>
+            <Button variant="ghost" size="sm" onClick={clearHistory} disabled={!past.length && !future.length}>
+              Clear
+            </Button>
+          </div>
+          {past.length === 0 && future.length === 0 ? (
+            <div className="px-3 py-6 text-center text-sm text-muted-foreground">No schedule edits yet.</div>
+          ) : (
+            <ScrollArea className="max-h-80">
+              <div className="py-1">
+                {future.map((e) => (
+                  <div key={e.id} className="px-3 py-1.5 text-sm text-muted-foreground line-through" title="Undone; redo to restore">
+                    {e.label}
+                  </div>
+                ))}
+                {past.map((e, i) => (
+                  <button
+                    key={e.id}
+                    type="button"
+                    className="flex w-full items-baseline justify-between gap-2 px-3 py-1.5 text-left text-sm hover:bg-muted disabled:cursor-default disabled:hover:bg-transparent"
+                    onClick={() => handleUndoTo(e.id, e.label)}
+                    disabled={i === 0}
+                    title={i === 0 ? "Latest edit" : "Undo every edit after this one"}
+                  >
+                    <span className={i === 0 ? "font-medium" : ""}>{e.label}</span>
+                    <span className="shrink-0 text-xs text-muted-foreground">
+                      {formatDistanceToNow(new Date(e.at), { addSuffix: true })}
+                    </span>
+                  </button>
+                ))}
+              </div>
+            </ScrollArea>
+          )}
+        </PopoverContent>
+      </Popover>
+    </div>
+  );
+}
+
+export default HistoryControls;
@@ -0,0 +1,71 @@
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import type { ConflictEntry, InfeasibilityReport } from "@/lib/infeasibility-analyzer";
+
+export type InfeasibilityDialogProps = {
+  open: boolean;
+  onOpenChange: (v: boolean) => void;
+  report: InfeasibilityReport | null;
+  // Rules relaxed for the constraint solver by earlier reports (rotation reports only)
+  relaxedRules: string[];
+  onRelax: (entry: ConflictEntry) => void;
+  onRestoreRelaxed: () => void;
+  onRetry: () => void;
+};
+
+export function InfeasibilityDialog({
+  open,
+  onOpenChange,
+  report,
+  relaxedRules,
+  onRelax,
+  onRestoreRelaxed,
+  onRetry,
+}: InfeasibilityDialogProps) {
+  if (!report) return null;
+  const title = report.kind === "vacations" ? `Why ${report.pgy} vacations failed` : `Why ${report.pgy} rotations failed`;
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-2xl">
+        <DialogHeader>
+          <DialogTitle>{title}</DialogTitle>
+          <DialogDescription>{report.summary}</DialogDescription>
+        </DialogHeader>
+
+        {report.conflicts.length > 0 && (
+          <ul className="space-y-2">
+            {report.conflicts.map((entry) => (
+              <li key={entry.id} className="flex items-start justify-between gap-3 rounded-md border p-3 text-sm">
+                <span>{entry.description}</span>
+                {entry.relax ? (
+                  <Button size="sm" variant="outline" className="shrink-0" onClick={() => onRelax(entry)}>
+                    {entry.relax.label}
+                  </Button>
+                ) : (
+                  <span className="shrink-0 text-xs text-muted-foreground">Edit by hand</span>
+                )}
+              </li>
+            ))}
+          </ul>
+        )}
+
+        {report.kind === "rotations" && relaxedRules.length > 0 && (
+          <div className="flex items-center justify-between gap-3 rounded-md bg-muted/50 p-3 text-xs text-muted-foreground">
+            <span>Already relaxed in the constraint solver: {relaxedRules.join(", ")}</span>
+            <Button size="sm" variant="ghost" onClick={onRestoreRelaxed}>
+              Restore
+            </Button>
+          </div>
+        )}
+
+        <DialogFooter className="flex items-center gap-2">
+          <Button variant="secondary" onClick={() => onOpenChange(false)}>Close</Button>
+          <Button onClick={onRetry}>Try again</Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+export default InfeasibilityDialog;
@@ -8,6 +8,8 @@ import { Label } from "@/components/ui/label";
 import { ChevronDown, ChevronRight } from "lucide-react";
 import { useToast } from "@/hooks/use-toast";
 import { loadSetup, loadSchedule, type PGY, type StoredSchedule } from "@/lib/schedule-engine";
+import { loadSettings } from "@/lib/settings-engine";
+import { blockKeyForDate } from "@/lib/block-utils";
 import { 
   applyJeopardyAssignmentScoped, 
   getEligibleJeopardyFellows, 
@@ -17,6 +19,8 @@ import {
   getJeopardyBlockForDate,
   type JeopardySchedule 
 } from "@/lib/jeopardy-engine";
+import { loadPins, releaseChangedDayPins, setDayPin, type PinnedAssignments } from "@/lib/pin-engine";
+import { PinButton } from "@/components/PinButton";
 
 type JeopardyEditDialogProps = {
   iso: string | null;
@@ -24,9 +28,10 @@ type JeopardyEditDialogProps = {
   open: boolean;
   onClose: () => void;
   onApply: (newSchedule: JeopardySchedule) => void;
+  onPinsChange?: (pins: PinnedAssignments) => void;
 };
 
-export default function JeopardyEditDialog({ iso, schedule, open, onClose, onApply }: JeopardyEditDialogProps) {
+export default function JeopardyEditDialog({ iso, schedule, open, onClose, onApply, onPinsChange }: JeopardyEditDialogProps) {
   const [showIneligible, setShowIneligible] = useState(false);
   const [actionScope, setActionScope] = useState<"single" | "block">("single");
   const { toast } = useToast();
@@ -69,19 +74,11 @@ export default function JeopardyEditDialog({ iso, schedule, open, onClose, onApp
     const fellow = fellowById[fellowId];
     if (!fellow) return undefined;
 
-    const dateToBlockKey = (d: Date): string => {
-      const monthNames = ["Jan", "Feb", "Mar", "Apr", "May", "Jun", "Jul", "Aug", "Sep", "Oct", "Nov", "Dec"];
-      const abbr = monthNames[d.getMonth()];
-      const half = d.getDate() <= 15 ? 1 : 2;
-      return `${abbr.toUpperCase()}${half}`;
-    };
-
-    const date = new Date(dateISO + "T00:00:00");
     const sched = schedByPGY[fellow.pgy];
-    if (!sched || !sched.byFellow) return undefined;
+    if (!sched || !sched.byFellow || !setup) return undefined;
     const row = sched.byFellow[fellow.id] || {};
-    const key = dateToBlockKey(date);
-    return row[key];
+    const key = blockKeyForDate(dateISO, setup.yearStart, loadSettings().blockCalendar, setup.yearEnd);
+    return key ? row[key] : undefined;
   };
   
   const jeopardyBlock = iso ? getJeopardyBlockForDate(iso) : null;
@@ -97,12 +94,15 @@ export default function JeopardyEditDialog({ iso, schedule, open, onClose, onApp
   
   const currentAssignment = iso && schedule ? schedule.days[iso] : null;
   const currentFellow = currentAssignment ? fellowById[currentAssignment] : null;
+  const [pinned, setPinned] = useState(() => !!iso && !!currentAssignment && loadPins().jeopardy[iso] === currentAssignment);
   
   const handleAssign = (fid: string | null) => {
     if (!iso || !schedule) return;
     
     const result = applyJeopardyAssignmentScoped(schedule, iso, fid, actionScope);
     if (result.success && result.schedule) {
+      const touched = actionScope === "block" && jeopardyBlock ? jeopardyBlock.dates : [iso];
+      onPinsChange?.(releaseChangedDayPins("jeopardy", result.schedule.days, touched));
       onApply(result.schedule);
       const scopeText = actionScope === "block" && jeopardyBlock ? ` (${blockLabel})` : "";
       toast({
@@ -120,6 +120,12 @@ export default function JeopardyEditDialog({ iso, schedule, open, onClose, onApp
     }
   };
 
+  const handleTogglePin = () => {
+    if (!iso || !currentAssignment) return;
+    onPinsChange?.(setDayPin("jeopardy", iso, pinned ? null : currentAssignment));
+    setPinned(!pinned);
+  };
+
   const formatDate = (iso: string) => {
     const date = new Date(iso + "T00:00:00");
     return date.toLocaleDateString(undefined, { 
@@ -174,6 +180,7 @@ export default function JeopardyEditDialog({ iso, schedule, open, onClose, onApp
                     return rotation ? <span className="text-xs text-muted-foreground mt-1">On: {rotation}</span> : null;
                   })()}
                 </div>
+                <PinButton pinned={pinned} onToggle={handleTogglePin} />
                 <Button
                   variant="outline"
                   size="sm"
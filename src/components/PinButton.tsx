@@ -0,0 +1,26 @@
+import { Pin, PinOff } from "lucide-react";
+import { Button } from "@/components/ui/button";
+
+export type PinButtonProps = {
+  pinned: boolean;
+  onToggle: () => void;
+  disabled?: boolean;
+};
+
+// Pinned assignments are kept as they are whenever the schedule is generated again
+export function PinButton({ pinned, onToggle, disabled }: PinButtonProps) {
+  return (
+    <Button
+      variant="outline"
+      size="sm"
+      onClick={onToggle}
+      disabled={disabled}
+      title={pinned ? "Let the generator change this assignment" : "Keep this assignment when regenerating"}
+    >
+      {pinned ? <PinOff className="h-4 w-4 mr-2" /> : <Pin className="h-4 w-4 mr-2" />}
+      {pinned ? "Unpin" : "Pin"}
+    </Button>
+  );
+}
+
+export default PinButton;
@@ -6,7 +6,10 @@ import { Badge } from "@/components/ui/badge";
 import { Skeleton } from "@/components/ui/skeleton";
 import { Collapsible, CollapsibleTrigger, CollapsibleContent } from "@/components/ui/collapsible";
 import { listAllPrimaryFellowsWithEligibility, applyManualPrimaryAssignment, listPrimarySwapSuggestions, applyPrimarySwap, type CallSchedule, type SwapSuggestion } from "@/lib/call-engine";
-import { loadSetup, type PGY, type StoredSchedule } from "@/lib/schedule-engine";
+import { loadSetup, type PGY } from "@/lib/schedule-engine";
+import type { ScheduleContext } from "@/lib/schedule-context";
+import { loadPins, releaseChangedDayPins, setDayPin, type PinnedAssignments } from "@/lib/pin-engine";
+import { PinButton } from "@/components/PinButton";
 import { useToast } from "@/hooks/use-toast";
 import { parseISO, format } from "date-fns";
 
@@ -16,14 +19,16 @@ export function PrimaryCallEditDialog({
   open = true,
   onClose,
   onApply,
-  cachedSchedules,
+  onPinsChange,
+  context,
 }: {
   iso: string;
   schedule: CallSchedule;
   open?: boolean;
   onClose: () => void;
   onApply: (s: CallSchedule) => void;
-  cachedSchedules?: Record<PGY, StoredSchedule | null>;
+  onPinsChange?: (pins: PinnedAssignments) => void;
+  context?: ScheduleContext;
 }) {
   const { toast } = useToast();
   const setup = loadSetup();
@@ -31,6 +36,7 @@ export function PrimaryCallEditDialog({
   const fellowById = React.useMemo(() => Object.fromEntries(fellows.map((f) => [f.id, f] as const)), [fellows]);
   const currentId = schedule.days[iso];
   const currentName = currentId ? fellowById[currentId]?.name ?? currentId : undefined;
+  const [pinned, setPinned] = React.useState(() => !!currentId && loadPins().primary[iso] === currentId);
 
   // State for async loading
   const [eligible, setEligible] = React.useState<{ id: string; name: string; pgy: PGY }[] | null>(null);
@@ -50,7 +56,7 @@ export function PrimaryCallEditDialog({
       
       if (cancelled) return;
       
-      const result = listAllPrimaryFellowsWithEligibility(iso, schedule, cachedSchedules);
+      const result = listAllPrimaryFellowsWithEligibility(iso, schedule, context);
       
       if (!cancelled) {
         setEligible(result.eligible);
@@ -63,7 +69,7 @@ export function PrimaryCallEditDialog({
     loadEligibility();
     
     return () => { cancelled = true; };
-  }, [iso, schedule, cachedSchedules]);
+  }, [iso, schedule, context]);
 
   // Track if swaps have been loaded to prevent double-loading
   const swapsLoadedRef = React.useRef(false);
@@ -90,7 +96,7 @@ export function PrimaryCallEditDialog({
       
       if (cancelled) return;
       
-      const swaps = listPrimarySwapSuggestions(schedule, iso, 10);
+      const swaps = listPrimarySwapSuggestions(schedule, iso, 10, context);
       
       if (!cancelled) {
         setSwapSuggestions(swaps);
@@ -101,9 +107,9 @@ export function PrimaryCallEditDialog({
     loadSwaps();
     
     return () => { cancelled = true; };
-  }, [swapOpen, currentId, iso, schedule]);
+  }, [swapOpen, currentId, iso, schedule, context]);
   const handleAssign = (fid: string | null) => {
-    const res = applyManualPrimaryAssignment(schedule, iso, fid);
+    const res = applyManualPrimaryAssignment(schedule, iso, fid, context);
     if (!res.ok || !res.schedule) {
       toast({
         title: "Assignment failed",
@@ -112,12 +118,19 @@ export function PrimaryCallEditDialog({
       });
       return;
     }
+    onPinsChange?.(releaseChangedDayPins("primary", res.schedule.days, [iso]));
     onApply(res.schedule);
     toast({ title: fid ? "Primary call updated" : "Assignment cleared", description: iso });
   };
 
+  const handleTogglePin = () => {
+    if (!currentId) return;
+    onPinsChange?.(setDayPin("primary", iso, pinned ? null : currentId));
+    setPinned(!pinned);
+  };
+
   const handleSwap = (otherISO: string) => {
-    const res = applyPrimarySwap(schedule, iso, otherISO);
+    const res = applyPrimarySwap(schedule, iso, otherISO, context);
     if (!res.ok || !res.schedule) {
       toast({
         title: "Swap failed",
@@ -126,6 +139,7 @@ export function PrimaryCallEditDialog({
       });
       return;
     }
+    onPinsChange?.(releaseChangedDayPins("primary", res.schedule.days, [iso, otherISO]));
     onApply(res.schedule);
     toast({ title: "Swap applied", description: `${iso} ↔ ${otherISO}` });
   };
@@ -240,7 +254,10 @@ export function PrimaryCallEditDialog({
 
           <div className="pt-2 border-t">
             <div className="text-sm font-medium mb-2">Other actions</div>
-            <Button variant="destructive" onClick={() => handleAssign(null)}>Clear assignment</Button>
+            <div className="flex items-center gap-2">
+              <PinButton pinned={pinned} onToggle={handleTogglePin} disabled={!currentId} />
+              <Button variant="destructive" onClick={() => handleAssign(null)}>Clear assignment</Button>
+            </div>
           </div>
         </div>
         <DialogFooter>
@@ -2,8 +2,9 @@ import React from "react";
 import type { CallSchedule } from "@/lib/call-engine";
 import { computeAcademicYearHolidays } from "@/lib/holidays";
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
-import { loadSchedule, type PGY, type StoredSchedule } from "@/lib/schedule-engine";
-import { monthAbbrForIndex } from "@/lib/block-utils";
+import { loadSchedule, loadSetup, type PGY, type StoredSchedule } from "@/lib/schedule-engine";
+import { blockKeyForDate } from "@/lib/block-utils";
+import { loadSettings } from "@/lib/settings-engine";
 
 // Minimal Fellow type for our needs
 type Fellow = { id: string; name: string; pgy: any };
@@ -25,14 +26,15 @@ export default function PrimaryCallStatsTable({ fellows, schedule }: Props) {
 
   const fellowById = Object.fromEntries(fellows.map((f) => [f.id, f] as const));
 
-  const holidays = computeAcademicYearHolidays(schedule.yearStart);
+  const yearEnd = loadSetup()?.yearEnd;
+  const holidays = computeAcademicYearHolidays(schedule.yearStart, yearEnd);
   const holidaySet = new Set(holidays.map((h) => h.date));
 
   const order = ["M", "T", "W", "Th", "F", "Sa", "Su"] as const;
 
-  const blockKeyForDate = (d: Date) => `${monthAbbrForIndex(d.getUTCMonth())}${d.getUTCDate() <= 15 ? 1 : 2}`;
   const monthLabel = (m: number) => new Date(Date.UTC(2000, m, 1)).toLocaleString(undefined, { month: "long" });
-  const blockKeyForISO = (iso: string) => blockKeyForDate(new Date(iso + "T00:00:00Z"));
+  const blockCalendar = loadSettings().blockCalendar;
+  const blockKeyForISO = (iso: string) => blockKeyForDate(iso, schedule.yearStart, blockCalendar, yearEnd);
   const schedByPGY: Record<PGY, StoredSchedule | null> = {
     "PGY-4": loadSchedule("PGY-4"),
     "PGY-5": loadSchedule("PGY-5"),
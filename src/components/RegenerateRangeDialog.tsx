@@ -0,0 +1,117 @@
+import * as React from "react";
+import { format, parseISO } from "date-fns";
+import { academicYearEnd } from "@/lib/block-utils";
+import type { DateRange } from "react-day-picker";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Calendar } from "@/components/ui/calendar";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Label } from "@/components/ui/label";
+import { type RegenerationRange } from "@/lib/regeneration-range";
+
+export type RegenerationParts = { primary: boolean; hf: boolean; jeopardy: boolean; clinics: boolean };
+
+export type RegenerateRangeDialogProps = {
+  open: boolean;
+  onOpenChange: (v: boolean) => void;
+  yearStart: string; // ISO date
+  yearEnd?: string; // ISO date of the last day of the academic year
+  // Schedules that exist and can be rebuilt over the range
+  available: RegenerationParts;
+  onRegenerate: (range: RegenerationRange, parts: RegenerationParts) => void;
+};
+
+const toISO = (d: Date) => format(d, "yyyy-MM-dd");
+
+const PARTS: { key: keyof RegenerationParts; label: string }[] = [
+  { key: "primary", label: "Primary call" },
+  { key: "hf", label: "HF coverage" },
+  { key: "jeopardy", label: "Jeopardy" },
+  { key: "clinics", label: "Clinics" },
+];
+
+export function RegenerateRangeDialog({ open, onOpenChange, yearStart, yearEnd, available, onRegenerate }: RegenerateRangeDialogProps) {
+  const yearFrom = parseISO(yearStart);
+  const yearTo = parseISO(academicYearEnd(yearStart, yearEnd));
+
+  const [range, setRange] = React.useState<DateRange | undefined>();
+  const [parts, setParts] = React.useState<RegenerationParts>(available);
+  // Start from today (within the year) to the year end, with every available part, each time the dialog opens
+  const [wasOpen, setWasOpen] = React.useState(false);
+  if (open !== wasOpen) {
+    setWasOpen(open);
+    if (open) {
+      const today = new Date();
+      setRange({ from: today > yearFrom && today < yearTo ? today : yearFrom, to: yearTo });
+      setParts(available);
+    }
+  }
+
+  const anyPart = PARTS.some((p) => parts[p.key] && available[p.key]);
+  const handleRegenerate = () => {
+    if (!range?.from) return;
+    onRegenerate(
+      { start: toISO(range.from), end: toISO(range.to ?? range.from) },
+      {
+        primary: parts.primary && available.primary,
+        hf: parts.hf && available.hf,
+        jeopardy: parts.jeopardy && available.jeopardy,
+        clinics: parts.clinics && available.clinics,
+      }
+    );
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-2xl">
+        <DialogHeader>
+          <DialogTitle>Regenerate range</DialogTitle>
+          <DialogDescription>
+            Rebuild the selected schedules between two dates. Assignments outside the range stay as they are and
+            count toward spacing and quotas inside it.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="flex flex-col gap-4 md:flex-row">
+          <Calendar
+            mode="range"
+            selected={range}
+            onSelect={setRange}
+            defaultMonth={range?.from ?? yearFrom}
+            fromDate={yearFrom}
+            toDate={yearTo}
+            className="rounded-md border"
+          />
+          <div className="flex-1 space-y-3">
+            <div className="text-sm font-medium">
+              {range?.from
+                ? `${format(range.from, "MMM d, yyyy")} – ${format(range.to ?? range.from, "MMM d, yyyy")}`
+                : "Pick a start and end date"}
+            </div>
+            {PARTS.map((p) => (
+              <div key={p.key} className="flex items-center gap-2">
+                <Checkbox
+                  id={`regenerate-${p.key}`}
+                  checked={parts[p.key] && available[p.key]}
+                  disabled={!available[p.key]}
+                  onCheckedChange={(v) => setParts({ ...parts, [p.key]: v === true })}
+                />
+                <Label htmlFor={`regenerate-${p.key}`}>{p.label}</Label>
+              </div>
+            ))}
+            <p className="text-xs text-muted-foreground">
+              Schedules are rebuilt in this order, so HF, jeopardy and clinics see the new primary call.
+            </p>
+          </div>
+        </div>
+
+        <DialogFooter className="flex items-center gap-2">
+          <Button variant="secondary" onClick={() => onOpenChange(false)}>Cancel</Button>
+          <Button onClick={handleRegenerate} disabled={!range?.from || !anyPart}>Regenerate</Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+export default RegenerateRangeDialog;
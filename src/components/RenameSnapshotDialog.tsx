@@ -11,12 +11,12 @@ import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Textarea } from "@/components/ui/textarea";
 import { Label } from "@/components/ui/label";
-import { ScheduleSnapshot } from "@/lib/snapshot-engine";
+import { SnapshotInfo } from "@/lib/snapshot-engine";
 
 interface RenameSnapshotDialogProps {
   open: boolean;
   onOpenChange: (open: boolean) => void;
-  snapshot: ScheduleSnapshot | null;
+  snapshot: SnapshotInfo | null;
   onRename: (name: string, description?: string) => void;
 }
 
@@ -8,13 +8,13 @@ import {
   AlertDialogHeader,
   AlertDialogTitle,
 } from "@/components/ui/alert-dialog";
-import { ScheduleSnapshot } from "@/lib/snapshot-engine";
+import { SnapshotInfo } from "@/lib/snapshot-engine";
 import { format } from "date-fns";
 
 interface RestoreSnapshotDialogProps {
   open: boolean;
   onOpenChange: (open: boolean) => void;
-  snapshot: ScheduleSnapshot | null;
+  snapshot: SnapshotInfo | null;
   onConfirm: () => void;
 }
 
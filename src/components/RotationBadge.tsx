@@ -1,5 +1,5 @@
 import { Badge } from "@/components/ui/badge";
-import { getRotationDisplayName, getRotationBadgeVariant, isElectiveSpecialization } from "@/lib/rotation-utils";
+import { getRotationDisplayName, getRotationBadgeVariant, getRotationBadgeStyle, isElectiveSpecialization } from "@/lib/rotation-utils";
 import type { Rotation } from "@/lib/rotation-engine";
 
 interface RotationBadgeProps {
@@ -15,6 +15,7 @@ export function RotationBadge({ rotation, className }: RotationBadgeProps) {
     <Badge 
       variant={variant as any}
       className={className}
+      style={getRotationBadgeStyle(rotation)}
       title={isElectiveSpecialization(rotation) ? `Elective specialization in ${rotation.match(/\((.+)\)/)?.[1]}` : undefined}
     >
       {displayName}
@@ -0,0 +1,25 @@
+import { Input } from "@/components/ui/input";
+
+export type SeedFieldProps = {
+  value: string;
+  onChange: (value: string) => void;
+  disabled?: boolean;
+};
+
+// Seed for the next generator run; blank means a random seed is picked and stored with the result
+export function SeedField({ value, onChange, disabled }: SeedFieldProps) {
+  return (
+    <Input
+      value={value}
+      onChange={(e) => onChange(e.target.value.replace(/\D/g, ""))}
+      inputMode="numeric"
+      placeholder="Random seed"
+      aria-label="Generator seed"
+      title="Leave blank for a random run. Enter a seed from an earlier schedule to reproduce it."
+      className="w-[140px]"
+      disabled={disabled}
+    />
+  );
+}
+
+export default SeedField;
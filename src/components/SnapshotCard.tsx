@@ -1,5 +1,5 @@
 import { format } from "date-fns";
-import { ScheduleSnapshot } from "@/lib/snapshot-engine";
+import { SnapshotInfo } from "@/lib/snapshot-engine";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
@@ -13,12 +13,12 @@ import {
 import { MoreHorizontal, RotateCcw, Pencil, Download, Trash2, GitCompare } from "lucide-react";
 
 interface SnapshotCardProps {
-  snapshot: ScheduleSnapshot;
-  onRestore: (snapshot: ScheduleSnapshot) => void;
-  onRename: (snapshot: ScheduleSnapshot) => void;
-  onExport: (snapshot: ScheduleSnapshot) => void;
-  onDelete: (snapshot: ScheduleSnapshot) => void;
-  onCompare?: (snapshot: ScheduleSnapshot) => void;
+  snapshot: SnapshotInfo;
+  onRestore: (snapshot: SnapshotInfo) => void;
+  onRename: (snapshot: SnapshotInfo) => void;
+  onExport: (snapshot: SnapshotInfo) => void;
+  onDelete: (snapshot: SnapshotInfo) => void;
+  onCompare?: (snapshot: SnapshotInfo) => void;
   compareMode?: boolean;
   selected?: boolean;
 }
@@ -0,0 +1,339 @@
+import * as React from "react";
+import { addDays, format, getDay, parseISO } from "date-fns";
+import { Download, Loader2 } from "lucide-react";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { useToast } from "@/hooks/use-toast";
+import { type ScheduleSnapshot } from "@/lib/snapshot-engine";
+import {
+  buildChangeSummaryZip,
+  changeSummaryFileName,
+  DIFF_AREA_LABELS,
+  diffFellowsByPGY,
+  diffSnapshotData,
+  fellowChanges,
+  fellowChangeSummary,
+  formatDateRange,
+  type AssignmentChange,
+  type DiffArea,
+} from "@/lib/snapshot-diff";
+
+// One side of the comparison: a saved snapshot or the schedule as it is now
+export type DiffSide = { name: string; data: ScheduleSnapshot["data"] };
+
+export type SnapshotDiffDialogProps = {
+  before: DiffSide | null;
+  after: DiffSide | null;
+  onOpenChange: (v: boolean) => void;
+};
+
+// A change with its before and after spelled out for display
+type DiffRow = AssignmentChange & { beforeName: string; afterName: string; who: string | null };
+
+const AREA_COLORS: Record<DiffArea, string> = {
+  rotation: "bg-slate-500",
+  primary: "bg-blue-500",
+  jeopardy: "bg-amber-500",
+  hf: "bg-rose-500",
+  clinic: "bg-emerald-500",
+  ambulatory: "bg-violet-500",
+};
+
+function download(blob: Blob, fileName: string) {
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement("a");
+  a.href = url;
+  a.download = fileName;
+  a.click();
+  URL.revokeObjectURL(url);
+}
+
+const formatValue = (value: unknown) => (value === undefined ? "—" : JSON.stringify(value));
+
+// Changed days of one month, each marked with a dot per area that changed
+function MonthOverlay({ month, byDay }: { month: Date; byDay: Map<string, DiffRow[]> }) {
+  const first = new Date(month.getFullYear(), month.getMonth(), 1);
+  const days: Date[] = [];
+  for (let d = first; d.getMonth() === first.getMonth(); d = addDays(d, 1)) days.push(d);
+  return (
+    <div className="rounded-md border p-2">
+      <div className="mb-1 text-sm font-medium">{format(first, "MMMM yyyy")}</div>
+      <div className="grid grid-cols-7 gap-0.5 text-center text-[10px] text-muted-foreground">
+        {["S", "M", "T", "W", "T", "F", "S"].map((d, i) => (
+          <div key={i}>{d}</div>
+        ))}
+        {Array.from({ length: getDay(first) }, (_, i) => (
+          <div key={`pad-${i}`} />
+        ))}
+        {days.map((d) => {
+          const iso = format(d, "yyyy-MM-dd");
+          const changes = byDay.get(iso) ?? [];
+          const areas = [...new Set(changes.map((c) => c.area))];
+          return (
+            <div
+              key={iso}
+              className={`rounded px-0.5 py-1 ${changes.length ? "bg-muted font-medium text-foreground" : ""}`}
+              title={changes.map((c) => `${c.label}: ${c.beforeName} → ${c.afterName}`).join("\n") || undefined}
+            >
+              <div>{d.getDate()}</div>
+              <div className="flex h-1.5 justify-center gap-0.5">
+                {areas.map((a) => (
+                  <span key={a} className={`h-1.5 w-1.5 rounded-full ${AREA_COLORS[a]}`} />
+                ))}
+              </div>
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
+
+// What changed between two versions of the schedule, as a list and as a calendar overlay
+export function SnapshotDiffDialog({ before, after, onOpenChange }: SnapshotDiffDialogProps) {
+  const { toast } = useToast();
+  const [fellowId, setFellowId] = React.useState("all");
+  const [area, setArea] = React.useState<DiffArea | "all">("all");
+  const [exporting, setExporting] = React.useState(false);
+
+  const diff = React.useMemo(() => (before && after ? diffSnapshotData(before.data, after.data) : null), [before, after]);
+  React.useEffect(() => {
+    setFellowId("all");
+    setArea("all");
+  }, [diff]);
+
+  const fellows = React.useMemo(() => (diff ? diffFellowsByPGY(diff) : []), [diff]);
+  const name = React.useCallback((id: string | null) => {
+    if (!id) return "—";
+    return diff?.fellows.find((f) => f.id === id)?.name || id;
+  }, [diff]);
+
+  // Rotation slots hold rotation names rather than fellow ids
+  const rows = React.useMemo((): DiffRow[] => {
+    if (!diff) return [];
+    const changes = fellowId === "all" ? diff.changes : fellowChanges(diff, fellowId);
+    return changes
+      .filter((c) => area === "all" || c.area === area)
+      .map((c) => ({
+        ...c,
+        beforeName: c.area === "rotation" ? c.before ?? "—" : name(c.before),
+        afterName: c.area === "rotation" ? c.after ?? "—" : name(c.after),
+        who: c.area === "rotation" ? name(c.fellowIds[0]) : null,
+      }));
+  }, [diff, fellowId, area, name]);
+
+  const byDay = React.useMemo(() => {
+    const map = new Map<string, DiffRow[]>();
+    for (const row of rows) {
+      for (let d = parseISO(row.start); d <= parseISO(row.end); d = addDays(d, 1)) {
+        const iso = format(d, "yyyy-MM-dd");
+        map.set(iso, [...(map.get(iso) ?? []), row]);
+      }
+    }
+    return map;
+  }, [rows]);
+
+  const months = React.useMemo(() => {
+    const setup = (after?.data.setup ?? before?.data.setup) as { yearStart?: string } | null;
+    if (!setup?.yearStart) return [];
+    const start = parseISO(setup.yearStart);
+    return Array.from({ length: 12 }, (_, i) => new Date(start.getFullYear(), start.getMonth() + i, 1));
+  }, [before, after]);
+
+  if (!before || !after || !diff) return null;
+  const titles = { before: before.name, after: after.name };
+  const affected = fellows.filter((f) => fellowChanges(diff, f.id).length > 0);
+
+  const exportFellow = (id: string) => {
+    const fellow = diff.fellows.find((f) => f.id === id);
+    if (!fellow) return;
+    const text = fellowChangeSummary(diff, id, titles);
+    download(new Blob([text], { type: "text/plain;charset=utf-8" }), changeSummaryFileName(fellow));
+  };
+
+  const exportAll = async () => {
+    setExporting(true);
+    try {
+      download(await buildChangeSummaryZip(diff, titles), "schedule-changes.zip");
+      toast({ title: "Changes exported", description: `${affected.length} fellow${affected.length === 1 ? "" : "s"} affected.` });
+    } catch (e) {
+      toast({ title: "Export failed", description: e instanceof Error ? e.message : String(e), variant: "destructive" });
+    } finally {
+      setExporting(false);
+    }
+  };
+
+  return (
+    <Dialog open onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-5xl">
+        <DialogHeader>
+          <DialogTitle>Compare schedules</DialogTitle>
+          <DialogDescription>
+            From “{before.name}” to “{after.name}” · {diff.changes.length} assignment change{diff.changes.length === 1 ? "" : "s"},{" "}
+            {diff.settings.length} setting change{diff.settings.length === 1 ? "" : "s"}
+          </DialogDescription>
+        </DialogHeader>
+
+        {(diff.addedFellows.length > 0 || diff.removedFellows.length > 0) && (
+          <div className="flex flex-wrap gap-2 text-sm">
+            {diff.addedFellows.map((id) => (
+              <Badge key={id} variant="secondary">Added {name(id)}</Badge>
+            ))}
+            {diff.removedFellows.map((id) => (
+              <Badge key={id} variant="outline">Removed {name(id)}</Badge>
+            ))}
+          </div>
+        )}
+
+        <div className="flex flex-wrap items-center gap-2">
+          <Select value={fellowId} onValueChange={setFellowId}>
+            <SelectTrigger className="w-[200px]">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="all">All fellows</SelectItem>
+              {fellows.map((f) => (
+                <SelectItem key={f.id} value={f.id}>
+                  {f.name || f.id} ({f.pgy})
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Select value={area} onValueChange={(v) => setArea(v as DiffArea | "all")}>
+            <SelectTrigger className="w-[160px]">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="all">All assignments</SelectItem>
+              {(Object.keys(DIFF_AREA_LABELS) as DiffArea[]).map((a) => (
+                <SelectItem key={a} value={a}>{DIFF_AREA_LABELS[a]}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <DropdownMenu>
+            <DropdownMenuTrigger asChild>
+              <Button variant="outline" className="ml-auto" disabled={exporting || affected.length === 0}>
+                {exporting ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Download className="mr-2 h-4 w-4" />}
+                Changes affecting you
+              </Button>
+            </DropdownMenuTrigger>
+            <DropdownMenuContent align="end" className="max-h-80 overflow-y-auto">
+              <DropdownMenuItem onClick={exportAll}>All affected fellows (.zip)</DropdownMenuItem>
+              <DropdownMenuSeparator />
+              <DropdownMenuLabel>One fellow (.txt)</DropdownMenuLabel>
+              {affected.map((f) => (
+                <DropdownMenuItem key={f.id} onClick={() => exportFellow(f.id)}>
+                  {f.name || f.id}
+                </DropdownMenuItem>
+              ))}
+            </DropdownMenuContent>
+          </DropdownMenu>
+        </div>
+
+        <Tabs defaultValue="list">
+          <TabsList>
+            <TabsTrigger value="list">List ({rows.length})</TabsTrigger>
+            <TabsTrigger value="calendar">Calendar</TabsTrigger>
+            <TabsTrigger value="settings">Settings ({diff.settings.length})</TabsTrigger>
+          </TabsList>
+
+          <TabsContent value="list">
+            {rows.length === 0 ? (
+              <div className="py-8 text-center text-sm text-muted-foreground">No assignment changes.</div>
+            ) : (
+              <ScrollArea className="h-[55vh]">
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Dates</TableHead>
+                      <TableHead>Assignment</TableHead>
+                      <TableHead>Before</TableHead>
+                      <TableHead>After</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {rows.map((r, i) => (
+                      <TableRow key={i}>
+                        <TableCell className="whitespace-nowrap">{formatDateRange(r.start, r.end)}</TableCell>
+                        <TableCell>
+                          <span className={`mr-2 inline-block h-2 w-2 rounded-full ${AREA_COLORS[r.area]}`} />
+                          {r.who ? `${r.who} · ${r.label}` : r.label}
+                        </TableCell>
+                        <TableCell className="text-muted-foreground">{r.beforeName}</TableCell>
+                        <TableCell className="font-medium">{r.afterName}</TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </ScrollArea>
+            )}
+          </TabsContent>
+
+          <TabsContent value="calendar">
+            <div className="mb-2 flex flex-wrap gap-3 text-xs text-muted-foreground">
+              {(Object.keys(DIFF_AREA_LABELS) as DiffArea[]).map((a) => (
+                <span key={a} className="flex items-center gap-1">
+                  <span className={`h-2 w-2 rounded-full ${AREA_COLORS[a]}`} />
+                  {DIFF_AREA_LABELS[a]}
+                </span>
+              ))}
+            </div>
+            <ScrollArea className="h-[55vh]">
+              <div className="grid gap-3 sm:grid-cols-2 lg:grid-cols-4">
+                {months.map((m) => (
+                  <MonthOverlay key={m.toISOString()} month={m} byDay={byDay} />
+                ))}
+              </div>
+            </ScrollArea>
+          </TabsContent>
+
+          <TabsContent value="settings">
+            {diff.settings.length === 0 ? (
+              <div className="py-8 text-center text-sm text-muted-foreground">Settings are the same.</div>
+            ) : (
+              <ScrollArea className="h-[55vh]">
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Setting</TableHead>
+                      <TableHead>Before</TableHead>
+                      <TableHead>After</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {diff.settings.map((s) => (
+                      <TableRow key={s.path}>
+                        <TableCell className="font-mono text-xs">{s.path}</TableCell>
+                        <TableCell className="max-w-xs truncate text-muted-foreground" title={formatValue(s.before)}>
+                          {formatValue(s.before)}
+                        </TableCell>
+                        <TableCell className="max-w-xs truncate font-medium" title={formatValue(s.after)}>
+                          {formatValue(s.after)}
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </ScrollArea>
+            )}
+          </TabsContent>
+        </Tabs>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+export default SnapshotDiffDialog;
@@ -0,0 +1,129 @@
+import * as React from "react";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { type Fellow } from "@/lib/schedule-engine";
+import {
+  describeShift,
+  giveawayCandidates,
+  planTrade,
+  swapCandidates,
+  TRADE_DUTY_LABELS,
+  TRADE_KIND_LABELS,
+  type TradeRequest,
+} from "@/lib/trade-engine";
+
+export type TradeApproveDialogProps = {
+  request: TradeRequest | null;
+  fellows: Fellow[];
+  onOpenChange: (v: boolean) => void;
+  onApprove: (resolution: Pick<TradeRequest, "counterpartId" | "counterpartDate">, note?: string) => void;
+};
+
+// Approve a pending trade, choosing the recipient or swap partner when the fellow left it open
+export function TradeApproveDialog({ request, fellows, onOpenChange, onApprove }: TradeApproveDialogProps) {
+  const [choice, setChoice] = React.useState("");
+  const [note, setNote] = React.useState("");
+  React.useEffect(() => {
+    setChoice("");
+    setNote("");
+  }, [request?.id]);
+
+  const name = (id: string) => fellows.find((f) => f.id === id)?.name ?? id;
+  const needsRecipient = !!request && request.kind === "giveaway" && !request.counterpartId;
+  const needsPartner = !!request && request.kind === "open-swap" && !request.counterpartDate;
+
+  // Candidates are only worked out for open requests; fixed ones show their own check
+  const recipients = React.useMemo(() => (needsRecipient ? giveawayCandidates(request) : []), [request, needsRecipient]);
+  const partners = React.useMemo(() => (needsPartner ? swapCandidates(request) : []), [request, needsPartner]);
+  const check = React.useMemo(() => (request && !needsRecipient && !needsPartner ? planTrade(request) : null), [request, needsRecipient, needsPartner]);
+
+  const resolution = (): Pick<TradeRequest, "counterpartId" | "counterpartDate"> => {
+    if (needsRecipient) return { counterpartId: choice };
+    if (needsPartner) {
+      const [counterpartId, counterpartDate] = choice.split("|");
+      return { counterpartId, counterpartDate };
+    }
+    return {};
+  };
+
+  const ready = (needsRecipient || needsPartner) ? !!choice : !!check?.ok;
+
+  return (
+    <Dialog open={!!request} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle>Approve trade</DialogTitle>
+          {request && (
+            <DialogDescription>
+              {name(request.requesterId)} · {TRADE_DUTY_LABELS[request.duty]} · {describeShift(request.duty, request.date)} ·{" "}
+              {TRADE_KIND_LABELS[request.kind]}
+            </DialogDescription>
+          )}
+        </DialogHeader>
+
+        <div className="space-y-4">
+          {needsRecipient && (
+            <div className="space-y-2">
+              <Label>Who takes the shift</Label>
+              <Select value={choice} onValueChange={setChoice}>
+                <SelectTrigger>
+                  <SelectValue placeholder={recipients.length ? "Choose a fellow" : "No eligible fellows"} />
+                </SelectTrigger>
+                <SelectContent>
+                  {recipients.map((f) => (
+                    <SelectItem key={f.id} value={f.id}>
+                      {f.name} ({f.pgy})
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          )}
+
+          {needsPartner && (
+            <div className="space-y-2">
+              <Label>Swap with</Label>
+              <Select value={choice} onValueChange={setChoice}>
+                <SelectTrigger>
+                  <SelectValue placeholder={partners.length ? "Choose a shift" : "No valid swaps within 60 days"} />
+                </SelectTrigger>
+                <SelectContent>
+                  {partners.map((p) => (
+                    <SelectItem key={`${p.fellowId}|${p.shift.date}`} value={`${p.fellowId}|${p.shift.date}`}>
+                      {name(p.fellowId)} · {describeShift(request.duty, p.shift.date)}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          )}
+
+          {check && !check.ok && (
+            <div className="rounded-md border border-destructive/50 p-3 text-sm text-destructive">
+              {(check.reasons ?? ["This trade breaks a scheduling rule"]).map((r) => (
+                <div key={r}>{r}</div>
+              ))}
+            </div>
+          )}
+
+          <div className="space-y-2">
+            <Label htmlFor="trade-decision-note">Note (optional)</Label>
+            <Textarea id="trade-decision-note" value={note} onChange={(e) => setNote(e.target.value)} rows={2} />
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="secondary" onClick={() => onOpenChange(false)}>Cancel</Button>
+          <Button onClick={() => onApprove(resolution(), note.trim() || undefined)} disabled={!ready}>
+            Approve and apply
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+export default TradeApproveDialog;
@@ -0,0 +1,97 @@
+import { AlertTriangle } from "lucide-react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { type FellowTrainingProgress, type RequirementProgress } from "@/lib/requirements-engine";
+import { cn } from "@/lib/utils";
+
+export type TrainingRequirementsCardProps = {
+  progress: FellowTrainingProgress[];
+};
+
+function cellTitle(p: RequirementProgress): string {
+  const parts = [`${p.completed} completed`, `${p.scheduled} scheduled this year`, `up to ${p.remaining} still possible`];
+  return `${p.requirement.name}: ${parts.join(", ")} of ${p.requirement.blocks} required`;
+}
+
+// Fellowship-total progress per fellow; completed + scheduled blocks against each requirement
+export function TrainingRequirementsCard({ progress }: TrainingRequirementsCardProps) {
+  const requirements = progress[0]?.progress.map((p) => p.requirement) ?? [];
+  if (requirements.length === 0) return null;
+  const atRisk = progress.filter((f) => f.atRisk);
+  const extended = progress.filter((f) => f.extensionDays > 0);
+
+  return (
+    <Card className="mb-6">
+      <CardHeader>
+        <CardTitle className="font-display flex items-center gap-2">
+          Training requirements
+          {atRisk.length > 0 && (
+            <Badge variant="destructive" className="gap-1">
+              <AlertTriangle className="h-3 w-3" /> {atRisk.length} at risk
+            </Badge>
+          )}
+          {extended.length > 0 && <Badge variant="secondary">{extended.length} extended</Badge>}
+        </CardTitle>
+        <CardDescription>
+          Blocks completed in archived years plus blocks on this year's schedule, against fellowship totals.
+          At risk means the largest shares left in the fellowship cannot close the gap. Leave of absence beyond the
+          allowance in settings extends training by the days shown.
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        <div className="rounded-md border overflow-x-auto">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead className="min-w-[180px]">Fellow</TableHead>
+                {requirements.map((r) => (
+                  <TableHead key={r.id} className="text-center">
+                    {r.name}
+                  </TableHead>
+                ))}
+                <TableHead className="text-center">Leave</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {progress.map(({ fellow, progress: rows, atRisk: fellowAtRisk, leaveDays, extensionDays }) => (
+                <TableRow key={fellow.id}>
+                  <TableCell className={cn("font-medium", fellowAtRisk && "text-destructive")}>
+                    {fellow.name || "Unnamed"} <span className="text-xs text-muted-foreground">{fellow.pgy}</span>
+                  </TableCell>
+                  {rows.map((p) => (
+                    <TableCell
+                      key={p.requirement.id}
+                      title={cellTitle(p)}
+                      className={cn(
+                        "text-center font-mono text-xs",
+                        p.status === "met" && "text-muted-foreground",
+                        p.status === "at-risk" && "bg-destructive/10 text-destructive font-semibold"
+                      )}
+                    >
+                      {p.completed + p.scheduled}/{p.requirement.blocks}
+                    </TableCell>
+                  ))}
+                  <TableCell
+                    title={`${leaveDays} days of leave of absence`}
+                    className={cn("text-center text-xs", leaveDays === 0 && "text-muted-foreground")}
+                  >
+                    {extensionDays > 0 ? (
+                      <Badge variant="secondary">+{extensionDays} days</Badge>
+                    ) : leaveDays > 0 ? (
+                      `${leaveDays} days`
+                    ) : (
+                      "—"
+                    )}
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
+
+export default TrainingRequirementsCard;
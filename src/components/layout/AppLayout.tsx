@@ -1,9 +1,35 @@
+import { useEffect, useState } from "react";
 import { Outlet } from "react-router-dom";
 import { AppSidebar } from "@/components/AppSidebar";
+import { HistoryControls } from "@/components/HistoryControls";
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
 import { SidebarInset, SidebarProvider, SidebarTrigger } from "@/components/ui/sidebar";
+import { useToast } from "@/hooks/use-toast";
+import { subscribeHistory } from "@/lib/history-engine";
+import { readOnlyReasons, subscribeReadOnly, subscribeStorageErrors } from "@/lib/storage-engine";
 
 export default function AppLayout() {
-  
+  // Pages read the schedules once on mount, so remount the page after an undo or redo rewrites them
+  const [restores, setRestores] = useState(0);
+  useEffect(() => subscribeHistory((restored) => restored && setRestores((n) => n + 1)), []);
+
+  // A save that did not reach the browser's storage would otherwise be lost on reload
+  const { toast } = useToast();
+  useEffect(
+    () =>
+      subscribeStorageErrors((error) =>
+        toast({ title: "Changes not saved", description: error.message, variant: "destructive" })
+      ),
+    [toast]
+  );
+
+  // Data saved by a newer version of the app cannot be loaded or overwritten here
+  const [readOnly, setReadOnly] = useState(readOnlyReasons);
+  useEffect(() => {
+    setReadOnly(readOnlyReasons());
+    return subscribeReadOnly(() => setReadOnly(readOnlyReasons()));
+  }, []);
+
   return (
     <SidebarProvider>
       <AppSidebar />
@@ -11,9 +37,18 @@ export default function AppLayout() {
         <header className="h-12 flex items-center gap-2 border-b px-3">
           <SidebarTrigger className="" />
           <div className="font-display text-sm">Cardiology Scheduler</div>
+          <HistoryControls />
         </header>
         <div className="flex-1">
-          <Outlet />
+          {readOnly.length > 0 && (
+            <Alert variant="destructive" className="m-4 w-auto">
+              <AlertTitle>Saved data is read-only</AlertTitle>
+              <AlertDescription>
+                {readOnly.join(" ")} Changes to it will not be saved.
+              </AlertDescription>
+            </Alert>
+          )}
+          <Outlet key={restores} />
         </div>
       </SidebarInset>
     </SidebarProvider>
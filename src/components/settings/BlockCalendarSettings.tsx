@@ -0,0 +1,94 @@
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { SchedulerSettings } from "@/lib/settings-engine";
+import { BLOCK_CALENDAR_KINDS, generateAcademicYearBlocks, type BlockCalendarKind } from "@/lib/block-utils";
+
+interface BlockCalendarSettingsProps {
+  settings: SchedulerSettings["blockCalendar"];
+  onUpdate: (data: Partial<SchedulerSettings["blockCalendar"]>) => void;
+}
+
+export function BlockCalendarSettings({ settings, onUpdate }: BlockCalendarSettingsProps) {
+  const kind = BLOCK_CALENDAR_KINDS.find((k) => k.value === settings.kind);
+  // The preview uses this year's July; the validator reports bad week counts or dates
+  const valid = settings.kind !== "weeks" || (Number.isInteger(settings.weeks) && settings.weeks >= 1 && settings.weeks <= 8 && /^\d{2}-\d{2}$/.test(settings.startDate));
+  const preview = valid ? generateAcademicYearBlocks(`${new Date().getFullYear()}-07-01`, settings) : [];
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Block Calendar</CardTitle>
+        <CardDescription>
+          How the academic year is cut into blocks for rotations and vacations. Schedules already built on another
+          calendar are not converted; regenerate them after a change.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="flex items-center justify-between">
+          <div className="space-y-0.5">
+            <Label>Calendar</Label>
+            <p className="text-sm text-muted-foreground">{kind?.description}</p>
+          </div>
+          <Select value={settings.kind} onValueChange={(v) => onUpdate({ kind: v as BlockCalendarKind })}>
+            <SelectTrigger aria-label="Block calendar" className="w-40">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {BLOCK_CALENDAR_KINDS.map((k) => (
+                <SelectItem key={k.value} value={k.value}>
+                  {k.label}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+
+        {settings.kind === "weeks" && (
+          <>
+            <div className="flex items-center justify-between">
+              <div className="space-y-0.5">
+                <Label htmlFor="blockWeeks">Block Length (weeks)</Label>
+                <p className="text-sm text-muted-foreground">
+                  The first and last blocks stretch or shrink to fit the academic year
+                </p>
+              </div>
+              <Input
+                id="blockWeeks"
+                type="number"
+                min="1"
+                max="8"
+                value={settings.weeks}
+                onChange={(e) => onUpdate({ weeks: parseInt(e.target.value) })}
+                className="w-20"
+              />
+            </div>
+            <div className="flex items-center justify-between">
+              <div className="space-y-0.5">
+                <Label htmlFor="blockStart">Block Start Date (MM-DD)</Label>
+                <p className="text-sm text-muted-foreground">
+                  A day blocks turn over on, e.g. the Monday nearest July 1
+                </p>
+              </div>
+              <Input
+                id="blockStart"
+                type="text"
+                placeholder="07-01"
+                value={settings.startDate}
+                onChange={(e) => onUpdate({ startDate: e.target.value })}
+                className="w-24"
+              />
+            </div>
+          </>
+        )}
+
+        {preview.length > 0 && (
+          <p className="text-sm text-muted-foreground">
+            {preview.length} blocks: {preview.slice(0, 3).map((b) => b.label).join(", ")}, … {preview[preview.length - 1].label}
+          </p>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
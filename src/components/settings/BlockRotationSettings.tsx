@@ -1,12 +1,18 @@
-import { SchedulerSettings } from "@/lib/settings-engine";
+import { SchedulerSettings, type PGY } from "@/lib/settings-engine";
+import type { RotationDefinition } from "@/lib/rotation-catalog";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
 
 interface BlockRotationSettingsProps {
   settings: SchedulerSettings["blockRotations"];
+  catalog: RotationDefinition[];
 }
 
-export function BlockRotationSettings({ settings }: BlockRotationSettingsProps) {
+export function BlockRotationSettings({ settings, catalog }: BlockRotationSettingsProps) {
+  const customRotations = catalog.filter((r) => !r.builtIn && r.pgys.length > 0);
+  const customBlocks = (pgy: PGY) =>
+    customRotations.reduce((sum, r) => sum + (r.pgys.includes(pgy) ? r.blocksPerYear[pgy] || 0 : 0), 0);
+
   const rotationLabels: Record<string, string> = {
     lacCathBlocks: "LAC Cath",
     ccuBlocks: "CCU",
@@ -44,7 +50,7 @@ export function BlockRotationSettings({ settings }: BlockRotationSettingsProps)
       <CardHeader>
         <CardTitle>Block Rotation Requirements</CardTitle>
         <CardDescription>
-          Number of blocks assigned to each rotation per PGY year (excludes 2 vacation blocks)
+          Number of half-month blocks assigned to each rotation per PGY year (excludes 2 vacation blocks); on other block calendars the counts are scaled to the calendar
         </CardDescription>
       </CardHeader>
       <CardContent>
@@ -66,6 +72,16 @@ export function BlockRotationSettings({ settings }: BlockRotationSettingsProps)
                 <TableCell className="text-center">{settings.pgy6[rotation as keyof typeof settings.pgy6]}</TableCell>
               </TableRow>
             ))}
+            {customRotations.map((rotation) => (
+              <TableRow key={rotation.id}>
+                <TableCell className="font-medium">{rotation.name} (from elective)</TableCell>
+                {(["PGY-4", "PGY-5", "PGY-6"] as PGY[]).map((pgy) => (
+                  <TableCell key={pgy} className="text-center">
+                    {rotation.pgys.includes(pgy) ? rotation.blocksPerYear[pgy] || 0 : 0}
+                  </TableCell>
+                ))}
+              </TableRow>
+            ))}
             <TableRow className="font-bold bg-muted/50">
               <TableCell>Total Rotation Blocks</TableCell>
               <TableCell className="text-center">{calculateTotal(settings.pgy4)}</TableCell>
@@ -87,21 +103,29 @@ export function BlockRotationSettings({ settings }: BlockRotationSettingsProps)
           </TableBody>
         </Table>
         <div className="mt-4 text-sm text-muted-foreground space-y-1">
+          {customRotations.length > 0 && (
+            <p className="mb-3">
+              Custom rotation blocks are taken out of elective time, so the total is unchanged
+              (PGY-4: {customBlocks("PGY-4")}, PGY-5: {customBlocks("PGY-5")}, PGY-6: {customBlocks("PGY-6")} per fellow).
+            </p>
+          )}
+
           <p className="font-semibold">* PGY-5 Special Rules:</p>
           <ul className="list-disc list-inside ml-2 space-y-1">
-            <li>CCU: Only 4 of 5 fellows receive 1 block each</li>
-            <li>LAC Consult: Only 4 of 5 fellows receive 1 block (the non-CCU fellow + 3 CCU fellows)</li>
+            <li>CCU: 4 fellows receive 1 block each (4 of 5 in a 5-fellow class)</li>
+            <li>LAC Consult: Every non-CCU fellow receives 1 block, topped up to 4 with CCU fellows</li>
             <li>Elective: Variable (3-4 blocks) depending on CCU/LAC Consult assignment</li>
           </ul>
           
           <p className="font-semibold mt-3">* PGY-6 Special Rules:</p>
+          <p className="ml-2">Class totals are spread as evenly as possible across the PGY-6 cohort; shown for a 5-fellow class.</p>
           <ul className="list-disc list-inside ml-2 space-y-1">
             <li>CCU, LAC Consult, ECHO1: PGY-6 fellows do not perform these rotations</li>
-            <li>LAC Cath: Variable distribution [2,2,2,1,1] blocks per fellow</li>
-            <li>HF & Keck Consult: 4 of 5 fellows receive 1 block each</li>
-            <li>ECHO2: Variable distribution [2,2,2,2,1] blocks per fellow</li>
-            <li>Nuclear & Noninvasive: Variable distribution [3,3,3,3,2] blocks per fellow each</li>
-            <li>EP: All 5 fellows receive 2 blocks each</li>
+            <li>LAC Cath: 8 blocks per class [2,2,2,1,1]; fellows without HF take the larger share</li>
+            <li>HF & Keck Consult: 4 blocks per class each (4 of 5 fellows receive 1 block)</li>
+            <li>ECHO2: 9 blocks per class [2,2,2,2,1]</li>
+            <li>Nuclear & Noninvasive: 14 blocks per class each [3,3,3,3,2]; the smaller shares go to different fellows</li>
+            <li>EP: Every fellow receives 2 blocks</li>
             <li>Elective: Fills all remaining blocks (~8 blocks per fellow on average)</li>
           </ul>
         </div>
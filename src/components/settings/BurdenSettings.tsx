@@ -0,0 +1,137 @@
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { SchedulerSettings } from "@/lib/settings-engine";
+
+type Burden = SchedulerSettings["burden"];
+type PointsSection = "primary" | "jeopardy" | "hf" | "clinic";
+
+const SECTIONS: { key: PointsSection; title: string; description: string; fields: { key: string; label: string }[] }[] = [
+  {
+    key: "primary",
+    title: "Primary Call",
+    description: "Points for one primary call; a holiday takes precedence over the day of the week",
+    fields: [
+      { key: "weekday", label: "Monday–Thursday" },
+      { key: "friday", label: "Friday" },
+      { key: "saturday", label: "Saturday" },
+      { key: "sunday", label: "Sunday" },
+      { key: "holiday", label: "Holiday" },
+    ],
+  },
+  {
+    key: "jeopardy",
+    title: "Jeopardy",
+    description: "Points for a jeopardy day if it is activated",
+    fields: [
+      { key: "weekday", label: "Weekday" },
+      { key: "weekend", label: "Weekend" },
+      { key: "holiday", label: "Holiday" },
+    ],
+  },
+  {
+    key: "hf",
+    title: "HF Coverage",
+    description: "Points for a full HF weekend, and for each day of a holiday block",
+    fields: [
+      { key: "weekend", label: "Weekend" },
+      { key: "holiday", label: "Holiday day" },
+    ],
+  },
+  {
+    key: "clinic",
+    title: "Clinics",
+    description: "Points for one clinic session",
+    fields: [
+      { key: "general", label: "General clinic" },
+      { key: "special", label: "Special clinic" },
+    ],
+  },
+];
+
+interface BurdenSettingsProps {
+  settings: Burden;
+  onUpdate: (data: Partial<Burden>) => void;
+}
+
+export function BurdenSettings({ settings, onUpdate }: BurdenSettingsProps) {
+  return (
+    <div className="space-y-6">
+      <Card>
+        <CardHeader>
+          <CardTitle>Balancing</CardTitle>
+          <CardDescription>
+            Points put every duty on one scale. The Burden tab on the Statistics page totals them per fellow and per month.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="flex items-center justify-between">
+            <div className="space-y-0.5">
+              <Label htmlFor="balanceAcrossDuties">Balance Total Points Across Duties</Label>
+              <p className="text-sm text-muted-foreground">
+                Primary call and jeopardy generation favor the fellow with the fewest points from all duties, rather than
+                the fewest calls of that kind
+              </p>
+            </div>
+            <Switch
+              id="balanceAcrossDuties"
+              checked={settings.balanceAcrossDuties}
+              onCheckedChange={(checked) => onUpdate({ balanceAcrossDuties: checked })}
+            />
+          </div>
+          <div className="flex items-center justify-between">
+            <div className="space-y-0.5">
+              <Label htmlFor="activationRisk">Jeopardy Activation Risk</Label>
+              <p className="text-sm text-muted-foreground">
+                Share of jeopardy days expected to be activated (0–1); jeopardy points are scaled by it
+              </p>
+            </div>
+            <Input
+              id="activationRisk"
+              type="number"
+              min="0"
+              max="1"
+              step="0.05"
+              value={settings.jeopardy.activationRisk}
+              onChange={(e) =>
+                onUpdate({ jeopardy: { ...settings.jeopardy, activationRisk: parseFloat(e.target.value) || 0 } })
+              }
+              className="w-24"
+            />
+          </div>
+        </CardContent>
+      </Card>
+
+      {SECTIONS.map((section) => {
+        const values = settings[section.key] as Record<string, number>;
+        return (
+          <Card key={section.key}>
+            <CardHeader>
+              <CardTitle>{section.title}</CardTitle>
+              <CardDescription>{section.description}</CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              {section.fields.map((field) => (
+                <div key={field.key} className="flex items-center justify-between">
+                  <Label htmlFor={`burden-${section.key}-${field.key}`}>{field.label}</Label>
+                  <Input
+                    id={`burden-${section.key}-${field.key}`}
+                    type="number"
+                    min="0"
+                    step="0.5"
+                    value={values[field.key]}
+                    onChange={(e) =>
+                      onUpdate({ [section.key]: { ...values, [field.key]: parseFloat(e.target.value) || 0 } } as Partial<Burden>)
+                    }
+                    className="w-24"
+                  />
+                </div>
+              ))}
+            </CardContent>
+          </Card>
+        );
+      })}
+    </div>
+  );
+}
@@ -3,6 +3,7 @@ import { Label } from "@/components/ui/label";
 import { Switch } from "@/components/ui/switch";
 import { Button } from "@/components/ui/button";
 import { SchedulerSettings, type PGY } from "@/lib/settings-engine";
+import type { RotationDefinition } from "@/lib/rotation-catalog";
 
 // Helper component for day selection buttons (single select)
 interface DayButtonsProps {
@@ -76,24 +77,20 @@ const WeekButtons = ({ selectedWeeks, onChange }: WeekButtonsProps) => {
 
 // Helper component for rotation selection buttons (multi-select)
 interface RotationButtonsProps {
+  rotations: RotationDefinition[];
   selectedRotations: string[];
   onChange: (rotations: string[]) => void;
+  allowEmpty?: boolean;
 }
 
-const RotationButtons = ({ selectedRotations, onChange }: RotationButtonsProps) => {
-  const rotations = [
-    "VAC", "LAC_CATH", "CCU", "LAC_CONSULT", "HF", 
-    "KECK_CONSULT", "ECHO1", "ECHO2", "EP", 
-    "NUCLEAR", "NONINVASIVE", "ELECTIVE"
-  ];
-
+const RotationButtons = ({ rotations, selectedRotations, onChange, allowEmpty }: RotationButtonsProps) => {
   const toggleRotation = (rotation: string) => {
     const newRotations = selectedRotations.includes(rotation)
       ? selectedRotations.filter(r => r !== rotation)
       : [...selectedRotations, rotation];
     
     // Prevent deselecting all rotations
-    if (newRotations.length === 0) return;
+    if (newRotations.length === 0 && !allowEmpty) return;
     
     onChange(newRotations);
   };
@@ -102,13 +99,14 @@ const RotationButtons = ({ selectedRotations, onChange }: RotationButtonsProps)
     <div className="flex gap-2 flex-wrap">
       {rotations.map(rotation => (
         <Button
-          key={rotation}
-          variant={selectedRotations.includes(rotation) ? "default" : "outline"}
+          key={rotation.id}
+          variant={selectedRotations.includes(rotation.id) ? "default" : "outline"}
           size="sm"
-          onClick={() => toggleRotation(rotation)}
+          onClick={() => toggleRotation(rotation.id)}
           className="text-xs"
+          title={rotation.name}
         >
-          {rotation}
+          {rotation.id}
         </Button>
       ))}
     </div>
@@ -155,10 +153,11 @@ const PGYButtons = ({ selectedPGYs, onChange }: PGYButtonsProps) => {
 
 interface ClinicSettingsProps {
   settings: SchedulerSettings["clinics"];
+  rotations: RotationDefinition[];
   onUpdate: (data: Partial<SchedulerSettings["clinics"]>) => void;
 }
 
-export function ClinicSettings({ settings, onUpdate }: ClinicSettingsProps) {
+export function ClinicSettings({ settings, rotations, onUpdate }: ClinicSettingsProps) {
   const dayNames = ["Sunday", "Monday", "Tuesday", "Wednesday", "Thursday", "Friday", "Saturday"];
 
   return (
@@ -281,6 +280,7 @@ export function ClinicSettings({ settings, onUpdate }: ClinicSettingsProps) {
             <div className="space-y-2">
               <Label className="text-sm font-medium">Eligible Rotations</Label>
               <RotationButtons
+                rotations={rotations}
                 selectedRotations={settings.specialClinics.heartFailure.eligibleRotations}
                 onChange={(rotations) =>
                   onUpdate({
@@ -346,6 +346,7 @@ export function ClinicSettings({ settings, onUpdate }: ClinicSettingsProps) {
             <div className="space-y-2">
               <Label className="text-sm font-medium">Eligible Rotations</Label>
               <RotationButtons
+                rotations={rotations}
                 selectedRotations={settings.specialClinics.achd.eligibleRotations}
                 onChange={(rotations) =>
                   onUpdate({
@@ -411,6 +412,7 @@ export function ClinicSettings({ settings, onUpdate }: ClinicSettingsProps) {
             <div className="space-y-2">
               <Label className="text-sm font-medium">Eligible Rotations</Label>
               <RotationButtons
+                rotations={rotations}
                 selectedRotations={settings.specialClinics.device.eligibleRotations}
                 onChange={(rotations) =>
                   onUpdate({
@@ -479,6 +481,7 @@ export function ClinicSettings({ settings, onUpdate }: ClinicSettingsProps) {
             <div className="space-y-2">
               <Label className="text-sm font-medium">Eligible Rotations</Label>
               <RotationButtons
+                rotations={rotations}
                 selectedRotations={settings.specialClinics.ep.eligibleRotations}
                 onChange={(rotations) =>
                   onUpdate({
@@ -520,16 +523,26 @@ export function ClinicSettings({ settings, onUpdate }: ClinicSettingsProps) {
         <CardContent className="space-y-4">
           <div className="space-y-2">
             <Label>General Clinic Exclusions</Label>
-            <p className="text-sm text-muted-foreground">
-              {settings.excludeRotations.general.join(", ")}
-            </p>
+            <RotationButtons
+              rotations={rotations}
+              selectedRotations={settings.excludeRotations.general}
+              onChange={(general) =>
+                onUpdate({ excludeRotations: { ...settings.excludeRotations, general } })
+              }
+              allowEmpty
+            />
           </div>
 
           <div className="space-y-2">
             <Label>Special Clinic Exclusions</Label>
-            <p className="text-sm text-muted-foreground">
-              {settings.excludeRotations.special.join(", ")}
-            </p>
+            <RotationButtons
+              rotations={rotations}
+              selectedRotations={settings.excludeRotations.special}
+              onChange={(special) =>
+                onUpdate({ excludeRotations: { ...settings.excludeRotations, special } })
+              }
+              allowEmpty
+            />
           </div>
         </CardContent>
       </Card>
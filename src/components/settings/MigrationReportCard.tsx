@@ -0,0 +1,57 @@
+import { useState } from "react";
+import { format } from "date-fns";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import {
+  clearMigrationReports,
+  describeMigration,
+  loadMigrationReports,
+  type MigrationReport,
+} from "@/lib/migration-engine";
+
+// Saved data and imports brought up to the current format, most recent first
+export function MigrationReportCard() {
+  const [reports, setReports] = useState<MigrationReport[]>(() => loadMigrationReports().reverse());
+
+  if (reports.length === 0) return null;
+
+  const handleClear = () => {
+    clearMigrationReports();
+    setReports([]);
+  };
+
+  return (
+    <Card className="mt-8">
+      <CardHeader className="flex flex-row items-start justify-between space-y-0">
+        <div className="space-y-1.5">
+          <CardTitle>Data Migrations</CardTitle>
+          <CardDescription>
+            Older saved data and imported files upgraded to the current format
+          </CardDescription>
+        </div>
+        <Button variant="ghost" size="sm" onClick={handleClear}>
+          Clear
+        </Button>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        {reports.map((r, i) => (
+          <div key={i} className="text-sm">
+            <div className="flex justify-between gap-4">
+              <span className="font-medium">{describeMigration(r)}</span>
+              <span className="shrink-0 text-muted-foreground">{format(new Date(r.at), "MMM d, yyyy h:mm a")}</span>
+            </div>
+            <div className="text-muted-foreground">
+              {r.source}
+              {r.filled.length > 0 && (
+                <span title={r.filled.join("\n")}>
+                  {" "}· defaults for {r.filled.slice(0, 3).join(", ")}
+                  {r.filled.length > 3 ? ` and ${r.filled.length - 3} more` : ""}
+                </span>
+              )}
+            </div>
+          </div>
+        ))}
+      </CardContent>
+    </Card>
+  );
+}
@@ -3,23 +3,11 @@ import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Switch } from "@/components/ui/switch";
 import { SchedulerSettings } from "@/lib/settings-engine";
+import type { RotationDefinition } from "@/lib/rotation-catalog";
+import { FAIRNESS_DIMENSIONS, FAIRNESS_DIMENSION_LABELS } from "@/lib/fairness-engine";
+import { computeAcademicYearHolidays } from "@/lib/holidays";
 import { cn } from "@/lib/utils";
 
-const ALL_ROTATIONS = [
-  { value: "VAC", label: "Vacation" },
-  { value: "LAC_CATH", label: "LAC Cath" },
-  { value: "CCU", label: "CCU" },
-  { value: "LAC_CONSULT", label: "LAC Consult" },
-  { value: "HF", label: "Heart Failure" },
-  { value: "KECK_CONSULT", label: "Keck Consult" },
-  { value: "ECHO1", label: "Echo 1" },
-  { value: "ECHO2", label: "Echo 2" },
-  { value: "EP", label: "EP" },
-  { value: "NUCLEAR", label: "Nuclear" },
-  { value: "NONINVASIVE", label: "Non-Invasive" },
-  { value: "ELECTIVE", label: "Elective" },
-] as const;
-
 const WEEKDAYS = [
   { value: 0, label: "Sun" },
   { value: 1, label: "Mon" },
@@ -30,12 +18,20 @@ const WEEKDAYS = [
   { value: 6, label: "Sat" },
 ] as const;
 
+// Holiday ids and names are the same every year; the dates are not needed here
+const HOLIDAYS = computeAcademicYearHolidays(`${new Date().getFullYear()}-07-01`);
+
 interface PrimaryCallSettingsProps {
   settings: SchedulerSettings["primaryCall"];
+  rotations: RotationDefinition[];
   onUpdate: (data: Partial<SchedulerSettings["primaryCall"]>) => void;
 }
 
-export function PrimaryCallSettings({ settings, onUpdate }: PrimaryCallSettingsProps) {
+export function PrimaryCallSettings({ settings, rotations, onUpdate }: PrimaryCallSettingsProps) {
+  const { fairness } = settings;
+  const updateFairness = (data: Partial<SchedulerSettings["primaryCall"]["fairness"]>) =>
+    onUpdate({ fairness: { ...fairness, ...data } });
+
   return (
     <div className="space-y-6">
       <Card>
@@ -190,16 +186,16 @@ export function PrimaryCallSettings({ settings, onUpdate }: PrimaryCallSettingsP
               Fellows on these rotations will not be eligible for primary call
             </p>
             <div className="grid grid-cols-2 sm:grid-cols-3 gap-2">
-              {ALL_ROTATIONS.map((rotation) => {
-                const isExcluded = settings.excludeRotations.includes(rotation.value);
+              {rotations.map((rotation) => {
+                const isExcluded = settings.excludeRotations.includes(rotation.id);
                 return (
                   <button
-                    key={rotation.value}
+                    key={rotation.id}
                     type="button"
                     onClick={() => {
                       const newExcluded = isExcluded
-                        ? settings.excludeRotations.filter((r) => r !== rotation.value)
-                        : [...settings.excludeRotations, rotation.value];
+                        ? settings.excludeRotations.filter((r) => r !== rotation.id)
+                        : [...settings.excludeRotations, rotation.id];
                       onUpdate({ excludeRotations: newExcluded });
                     }}
                     className={cn(
@@ -208,7 +204,7 @@ export function PrimaryCallSettings({ settings, onUpdate }: PrimaryCallSettingsP
                       isExcluded && "bg-primary text-primary-foreground hover:bg-primary/90"
                     )}
                   >
-                    {rotation.label}
+                    {rotation.name}
                   </button>
                 );
               })}
@@ -247,6 +243,95 @@ export function PrimaryCallSettings({ settings, onUpdate }: PrimaryCallSettingsP
           </div>
         </CardContent>
       </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Fairness Objective</CardTitle>
+          <CardDescription>
+            Weights used by Optimize fairness on the Statistics page. A higher weight makes an uneven spread of
+            that kind of call within a PGY more costly; 0 ignores it.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-6">
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+            {FAIRNESS_DIMENSIONS.map((dim) => (
+              <div key={dim} className="flex items-center justify-between gap-2">
+                <Label htmlFor={`fairness-${dim}`}>{FAIRNESS_DIMENSION_LABELS[dim]}</Label>
+                <Input
+                  id={`fairness-${dim}`}
+                  type="number"
+                  min="0"
+                  step="0.5"
+                  value={fairness.weights[dim]}
+                  onChange={(e) =>
+                    updateFairness({ weights: { ...fairness.weights, [dim]: parseFloat(e.target.value) || 0 } })
+                  }
+                  className="w-20"
+                />
+              </div>
+            ))}
+          </div>
+
+          <div className="pt-4 border-t space-y-3">
+            <Label>Holiday Weights</Label>
+            <p className="text-sm text-muted-foreground">
+              What one call on each holiday counts toward holiday burden
+            </p>
+            <div className="grid grid-cols-1 sm:grid-cols-2 gap-2">
+              {HOLIDAYS.map((h) => (
+                <div key={h.id} className="flex items-center justify-between gap-2">
+                  <Label htmlFor={`holiday-weight-${h.id}`} className="font-normal">{h.name}</Label>
+                  <Input
+                    id={`holiday-weight-${h.id}`}
+                    type="number"
+                    min="0"
+                    step="0.5"
+                    value={fairness.holidayWeights[h.id] ?? 1}
+                    onChange={(e) =>
+                      updateFairness({
+                        holidayWeights: { ...fairness.holidayWeights, [h.id]: parseFloat(e.target.value) || 0 },
+                      })
+                    }
+                    className="w-20"
+                  />
+                </div>
+              ))}
+            </div>
+          </div>
+
+          <div className="pt-4 border-t space-y-3">
+            <Label>Heavy Rotations</Label>
+            <p className="text-sm text-muted-foreground">
+              Calls per month while on these rotations are balanced within each PGY
+            </p>
+            <div className="grid grid-cols-2 sm:grid-cols-3 gap-2">
+              {rotations.map((rotation) => {
+                const isHeavy = fairness.heavyRotations.includes(rotation.id);
+                return (
+                  <button
+                    key={rotation.id}
+                    type="button"
+                    onClick={() =>
+                      updateFairness({
+                        heavyRotations: isHeavy
+                          ? fairness.heavyRotations.filter((r) => r !== rotation.id)
+                          : [...fairness.heavyRotations, rotation.id],
+                      })
+                    }
+                    className={cn(
+                      "px-3 py-2 rounded-md text-sm font-medium transition-colors",
+                      "border border-input hover:bg-accent hover:text-accent-foreground",
+                      isHeavy && "bg-primary text-primary-foreground hover:bg-primary/90"
+                    )}
+                  >
+                    {rotation.name}
+                  </button>
+                );
+              })}
+            </div>
+          </div>
+        </CardContent>
+      </Card>
     </div>
   );
 }
@@ -0,0 +1,264 @@
+import { useState } from "react";
+import { Plus, Trash2 } from "lucide-react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Input } from "@/components/ui/input";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { SchedulerSettings, type PGY } from "@/lib/settings-engine";
+import { makeRotationId, type RotationDefinition } from "@/lib/rotation-catalog";
+import { cn } from "@/lib/utils";
+
+const PGYS: PGY[] = ["PGY-4", "PGY-5", "PGY-6"];
+
+type ExclusionKey = "primary" | "jeopardy" | "generalClinic" | "specialClinic";
+
+const EXCLUSIONS: { key: ExclusionKey; label: string }[] = [
+  { key: "primary", label: "Primary" },
+  { key: "jeopardy", label: "Jeopardy" },
+  { key: "generalClinic", label: "Clinic" },
+  { key: "specialClinic", label: "Special clinic" },
+];
+
+interface RotationCatalogSettingsProps {
+  settings: SchedulerSettings;
+  onUpdate: (data: Partial<SchedulerSettings>) => void;
+}
+
+export function RotationCatalogSettings({ settings, onUpdate }: RotationCatalogSettingsProps) {
+  const [newName, setNewName] = useState("");
+  const catalog = settings.rotationCatalog;
+
+  const exclusionList = (key: ExclusionKey): string[] => {
+    switch (key) {
+      case "primary":
+        return settings.primaryCall.excludeRotations;
+      case "jeopardy":
+        return settings.jeopardyCall.excludeRotations;
+      case "generalClinic":
+        return settings.clinics.excludeRotations.general;
+      case "specialClinic":
+        return settings.clinics.excludeRotations.special;
+    }
+  };
+
+  // The exclusion lists in each section stay the source the engines read from
+  const exclusionUpdate = (key: ExclusionKey, list: string[]): Partial<SchedulerSettings> => {
+    switch (key) {
+      case "primary":
+        return { primaryCall: { ...settings.primaryCall, excludeRotations: list } };
+      case "jeopardy":
+        return { jeopardyCall: { ...settings.jeopardyCall, excludeRotations: list } };
+      case "generalClinic":
+        return { clinics: { ...settings.clinics, excludeRotations: { ...settings.clinics.excludeRotations, general: list } } };
+      case "specialClinic":
+        return { clinics: { ...settings.clinics, excludeRotations: { ...settings.clinics.excludeRotations, special: list } } };
+    }
+  };
+
+  const toggleExclusion = (key: ExclusionKey, id: string, excluded: boolean) => {
+    const list = exclusionList(key).filter((r) => r !== id);
+    onUpdate(exclusionUpdate(key, excluded ? [...list, id] : list));
+  };
+
+  const updateRotation = (id: string, patch: Partial<RotationDefinition>) => {
+    onUpdate({ rotationCatalog: catalog.map((r) => (r.id === id ? { ...r, ...patch } : r)) });
+  };
+
+  const addRotation = () => {
+    const name = newName.trim();
+    if (!name) return;
+    const rotation: RotationDefinition = {
+      id: makeRotationId(name, catalog),
+      name,
+      color: "#CBD5E1",
+      capacityPerBlock: 1,
+      pgys: [],
+      blocksPerYear: {},
+      builtIn: false,
+    };
+    onUpdate({ rotationCatalog: [...catalog, rotation] });
+    setNewName("");
+  };
+
+  const removeRotation = (id: string) => {
+    onUpdate({
+      rotationCatalog: catalog.filter((r) => r.id !== id),
+      primaryCall: {
+        ...settings.primaryCall,
+        excludeRotations: settings.primaryCall.excludeRotations.filter((r) => r !== id),
+        fairness: { ...settings.primaryCall.fairness, heavyRotations: settings.primaryCall.fairness.heavyRotations.filter((r) => r !== id) },
+      },
+      jeopardyCall: { ...settings.jeopardyCall, excludeRotations: settings.jeopardyCall.excludeRotations.filter((r) => r !== id) },
+      clinics: {
+        ...settings.clinics,
+        excludeRotations: {
+          general: settings.clinics.excludeRotations.general.filter((r) => r !== id),
+          special: settings.clinics.excludeRotations.special.filter((r) => r !== id),
+        },
+      },
+    });
+  };
+
+  const togglePGY = (rotation: RotationDefinition, pgy: PGY) => {
+    const enabled = rotation.pgys.includes(pgy);
+    const blocksPerYear = { ...rotation.blocksPerYear };
+    if (enabled) delete blocksPerYear[pgy];
+    else blocksPerYear[pgy] = 1;
+    updateRotation(rotation.id, {
+      pgys: enabled ? rotation.pgys.filter((p) => p !== pgy) : [...rotation.pgys, pgy],
+      blocksPerYear,
+    });
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Rotation Catalog</CardTitle>
+        <CardDescription>
+          Names, colors and call/clinic exclusions for every rotation. Custom rotations are placed by the
+          block solvers out of each fellow's elective blocks; built-in rotations keep their fixed solver rules.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="overflow-x-auto">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Color</TableHead>
+                <TableHead>Name</TableHead>
+                <TableHead>ID</TableHead>
+                <TableHead>Blocks per fellow</TableHead>
+                <TableHead className="text-center">Capacity / block</TableHead>
+                <TableHead>Excluded from</TableHead>
+                <TableHead />
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {catalog.map((rotation) => (
+                <TableRow key={rotation.id}>
+                  <TableCell>
+                    <input
+                      type="color"
+                      aria-label={`${rotation.name} color`}
+                      value={rotation.color}
+                      onChange={(e) => updateRotation(rotation.id, { color: e.target.value.toUpperCase() })}
+                      className="h-8 w-10 cursor-pointer rounded border border-input bg-transparent"
+                    />
+                  </TableCell>
+                  <TableCell>
+                    <Input
+                      value={rotation.name}
+                      onChange={(e) => updateRotation(rotation.id, { name: e.target.value })}
+                      className="h-8 w-40"
+                    />
+                  </TableCell>
+                  <TableCell className="font-mono text-xs text-muted-foreground">{rotation.id}</TableCell>
+                  <TableCell>
+                    {rotation.builtIn ? (
+                      <span className="text-xs text-muted-foreground">{rotation.pgys.join(", ")} (fixed)</span>
+                    ) : (
+                      <div className="flex gap-2">
+                        {PGYS.map((pgy) => {
+                          const enabled = rotation.pgys.includes(pgy);
+                          return (
+                            <div key={pgy} className="flex flex-col items-center gap-1">
+                              <button
+                                type="button"
+                                onClick={() => togglePGY(rotation, pgy)}
+                                className={cn(
+                                  "px-2 py-1 rounded-md text-xs font-medium transition-colors",
+                                  "border border-input hover:bg-accent hover:text-accent-foreground",
+                                  enabled && "bg-primary text-primary-foreground hover:bg-primary/90"
+                                )}
+                              >
+                                {pgy}
+                              </button>
+                              {enabled && (
+                                <Input
+                                  type="number"
+                                  min="0"
+                                  max="24"
+                                  aria-label={`${rotation.name} ${pgy} blocks`}
+                                  value={rotation.blocksPerYear[pgy] ?? 0}
+                                  onChange={(e) =>
+                                    updateRotation(rotation.id, {
+                                      blocksPerYear: { ...rotation.blocksPerYear, [pgy]: Math.max(0, parseInt(e.target.value) || 0) },
+                                    })
+                                  }
+                                  className="h-7 w-14 text-center"
+                                />
+                              )}
+                            </div>
+                          );
+                        })}
+                      </div>
+                    )}
+                  </TableCell>
+                  <TableCell className="text-center">
+                    {rotation.builtIn ? (
+                      <span className="text-xs text-muted-foreground">
+                        {rotation.capacityPerBlock === 0 ? "Unlimited" : rotation.capacityPerBlock}
+                      </span>
+                    ) : (
+                      <Input
+                        type="number"
+                        min="0"
+                        aria-label={`${rotation.name} capacity per block`}
+                        title="0 = unlimited"
+                        value={rotation.capacityPerBlock}
+                        onChange={(e) =>
+                          updateRotation(rotation.id, { capacityPerBlock: Math.max(0, parseInt(e.target.value) || 0) })
+                        }
+                        className="mx-auto h-8 w-16 text-center"
+                      />
+                    )}
+                  </TableCell>
+                  <TableCell>
+                    <div className="flex flex-wrap gap-3">
+                      {EXCLUSIONS.map(({ key, label }) => (
+                        <label key={key} className="flex items-center gap-1 text-xs">
+                          <Checkbox
+                            checked={exclusionList(key).includes(rotation.id)}
+                            onCheckedChange={(checked) => toggleExclusion(key, rotation.id, checked === true)}
+                          />
+                          {label}
+                        </label>
+                      ))}
+                    </div>
+                  </TableCell>
+                  <TableCell>
+                    {!rotation.builtIn && (
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        aria-label={`Remove ${rotation.name}`}
+                        onClick={() => removeRotation(rotation.id)}
+                      >
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    )}
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </div>
+
+        <div className="flex items-center gap-2">
+          <Input
+            placeholder="New rotation name"
+            value={newName}
+            onChange={(e) => setNewName(e.target.value)}
+            onKeyDown={(e) => e.key === "Enter" && addRotation()}
+            className="max-w-xs"
+          />
+          <Button variant="outline" onClick={addRotation} disabled={!newName.trim()}>
+            <Plus className="h-4 w-4 mr-2" />
+            Add rotation
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,150 @@
+import { useState } from "react";
+import { Plus, Trash2 } from "lucide-react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Button } from "@/components/ui/button";
+import { SchedulerSettings } from "@/lib/settings-engine";
+import { type TrainingRequirement } from "@/lib/rotation-catalog";
+import { cn } from "@/lib/utils";
+
+// Rotations that never count toward training
+const NON_TRAINING = ["VAC", "ELECTIVE"];
+
+interface TrainingRequirementSettingsProps {
+  settings: SchedulerSettings;
+  onUpdate: (data: Partial<SchedulerSettings>) => void;
+}
+
+export function TrainingRequirementSettings({ settings, onUpdate }: TrainingRequirementSettingsProps) {
+  const [newName, setNewName] = useState("");
+  const requirements = settings.trainingRequirements;
+  const rotations = settings.rotationCatalog.filter((r) => !NON_TRAINING.includes(r.id));
+
+  const updateRequirement = (id: string, patch: Partial<TrainingRequirement>) => {
+    onUpdate({ trainingRequirements: requirements.map((r) => (r.id === id ? { ...r, ...patch } : r)) });
+  };
+
+  const toggleRotation = (requirement: TrainingRequirement, rotationId: string) => {
+    const included = requirement.rotations.includes(rotationId);
+    updateRequirement(requirement.id, {
+      rotations: included ? requirement.rotations.filter((r) => r !== rotationId) : [...requirement.rotations, rotationId],
+    });
+  };
+
+  const addRequirement = () => {
+    const name = newName.trim();
+    if (!name) return;
+    onUpdate({ trainingRequirements: [...requirements, { id: crypto.randomUUID(), name, rotations: [], blocks: 1 }] });
+    setNewName("");
+  };
+
+  const removeRequirement = (id: string) => {
+    onUpdate({ trainingRequirements: requirements.filter((r) => r.id !== id) });
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Training Requirements</CardTitle>
+        <CardDescription>
+          Fellowship-total blocks each fellow needs across PGY-4 to PGY-6, counted over archived and current
+          years. The PGY-5 and PGY-6 solvers give the larger shares to fellows furthest behind.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="overflow-x-auto">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Name</TableHead>
+                <TableHead>Counts blocks on</TableHead>
+                <TableHead className="text-center">Total blocks</TableHead>
+                <TableHead />
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {requirements.map((requirement) => (
+                <TableRow key={requirement.id}>
+                  <TableCell>
+                    <Input
+                      value={requirement.name}
+                      onChange={(e) => updateRequirement(requirement.id, { name: e.target.value })}
+                      className="h-8 w-48"
+                    />
+                  </TableCell>
+                  <TableCell>
+                    <div className="flex flex-wrap gap-1">
+                      {rotations.map((rotation) => (
+                        <button
+                          key={rotation.id}
+                          type="button"
+                          onClick={() => toggleRotation(requirement, rotation.id)}
+                          className={cn(
+                            "px-2 py-1 rounded-md text-xs font-medium transition-colors",
+                            "border border-input hover:bg-accent hover:text-accent-foreground",
+                            requirement.rotations.includes(rotation.id) && "bg-primary text-primary-foreground hover:bg-primary/90"
+                          )}
+                        >
+                          {rotation.name}
+                        </button>
+                      ))}
+                    </div>
+                  </TableCell>
+                  <TableCell className="text-center">
+                    <Input
+                      type="number"
+                      min="0"
+                      max="72"
+                      aria-label={`${requirement.name} total blocks`}
+                      value={requirement.blocks}
+                      onChange={(e) => updateRequirement(requirement.id, { blocks: Math.max(0, parseInt(e.target.value) || 0) })}
+                      className="mx-auto h-8 w-16 text-center"
+                    />
+                  </TableCell>
+                  <TableCell>
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      aria-label={`Remove ${requirement.name}`}
+                      onClick={() => removeRequirement(requirement.id)}
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </div>
+
+        <div className="flex items-center gap-2">
+          <Input
+            placeholder="New requirement name"
+            value={newName}
+            onChange={(e) => setNewName(e.target.value)}
+            onKeyDown={(e) => e.key === "Enter" && addRequirement()}
+            className="max-w-xs"
+          />
+          <Button variant="outline" onClick={addRequirement} disabled={!newName.trim()}>
+            <Plus className="h-4 w-4 mr-2" />
+            Add requirement
+          </Button>
+        </div>
+
+        <div className="flex items-center gap-2">
+          <Label htmlFor="leave-allowance">Leave of absence allowed without extending training (days)</Label>
+          <Input
+            id="leave-allowance"
+            type="number"
+            min="0"
+            value={settings.leaveAllowanceDays}
+            onChange={(e) => onUpdate({ leaveAllowanceDays: Math.max(0, parseInt(e.target.value) || 0) })}
+            className="h-8 w-20 text-center"
+          />
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
@@ -45,7 +45,7 @@ export function VacationSettings({ settings, onUpdate }: VacationSettingsProps)
               <div className="space-y-0.5">
                 <Label htmlFor="minSpacing">Minimum Spacing (blocks)</Label>
                 <p className="text-sm text-muted-foreground">
-                  Vacations must be at least this many blocks apart (1 block = 2 weeks)
+                  Vacations must be at least this many blocks apart on the block calendar
                 </p>
               </div>
               <Input
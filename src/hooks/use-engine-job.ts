@@ -0,0 +1,36 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { startEngineJob, type EngineJob, type EngineJobOutcome, type EngineJobResult } from '@/lib/engine-jobs';
+import type { EngineProgress } from '@/lib/engine-progress';
+
+// Runs one schedule generator at a time off the main thread and tracks its progress
+export function useEngineJob() {
+  const [progress, setProgress] = useState<EngineProgress | null>(null);
+  const [running, setRunning] = useState(false);
+  const cancelRef = useRef<(() => void) | null>(null);
+
+  const run = useCallback(async <J extends EngineJob>(job: J): Promise<EngineJobOutcome<EngineJobResult<J>>> => {
+    cancelRef.current?.();
+    const handle = startEngineJob(job, setProgress);
+    cancelRef.current = handle.cancel;
+    setProgress({ phase: 'Starting' });
+    setRunning(true);
+    try {
+      return await handle.outcome;
+    } finally {
+      if (cancelRef.current === handle.cancel) {
+        cancelRef.current = null;
+        setRunning(false);
+        setProgress(null);
+      }
+    }
+  }, []);
+
+  const cancel = useCallback(() => {
+    cancelRef.current?.();
+  }, []);
+
+  // Leaving the page stops the job
+  useEffect(() => () => cancelRef.current?.(), []);
+
+  return { run, cancel, progress, running };
+}
@@ -1,9 +1,10 @@
 import { useEffect } from "react";
+import { storage } from "@/lib/storage-engine";
 
 export function useLocalStorage<T>(key: string, initialValue: T) {
   const getStored = (): T => {
     try {
-      const item = localStorage.getItem(key);
+      const item = storage.getItem(key);
       return item ? (JSON.parse(item) as T) : initialValue;
     } catch {
       return initialValue;
@@ -16,7 +17,7 @@ export function useLocalStorage<T>(key: string, initialValue: T) {
     const next = value instanceof Function ? value(state) : value;
     state = next;
     try {
-      localStorage.setItem(key, JSON.stringify(next));
+      storage.setItem(key, JSON.stringify(next));
       window.dispatchEvent(new StorageEvent("storage", { key }));
     } catch {}
     return next;
@@ -63,10 +63,10 @@ export function useSettings() {
 
   const importSettings = useCallback(async (file: File) => {
     try {
-      const imported = await importSettingsEngine(file);
+      const { settings: imported, report } = await importSettingsEngine(file);
       setSettings(imported);
       setHasUnsavedChanges(true);
-      return { success: true };
+      return { success: true, report };
     } catch (error) {
       return { success: false, error: error instanceof Error ? error.message : "Import failed" };
     }
@@ -0,0 +1,192 @@
+import { addYears, format, parseISO } from "date-fns";
+import { computeAcademicYearHolidays } from "@/lib/holidays";
+import {
+  clearSchedules,
+  saveSetup,
+  SETUP_STORAGE_KEY,
+  type Fellow,
+  type PGY,
+  type SetupState,
+  type StoredSchedule,
+} from "@/lib/schedule-engine";
+import { clearCallSchedule, clearCoverageMetadata, type CallSchedule } from "@/lib/call-engine";
+import { clearHFSchedule, type HFSchedule } from "@/lib/hf-engine";
+import { clearJeopardySchedule, type JeopardySchedule } from "@/lib/jeopardy-engine";
+import { clearClinicSchedule, type ClinicSchedule } from "@/lib/clinic-engine";
+import { storageContext, type ScheduleContext } from "@/lib/schedule-context";
+import { clearPins } from "@/lib/pin-engine";
+import { labelEdit, recordWrite } from "@/lib/history-engine";
+import { storage } from "@/lib/storage-engine";
+
+// A finished academic year, kept so engines can apply rules that span years
+export type ArchivedYear = {
+  yearStart: string; // ISO date
+  archivedAt: string; // ISO timestamp
+  setup: SetupState;
+  schedules: Record<PGY, StoredSchedule | null>;
+  callSchedule: CallSchedule | null;
+  hfSchedule: HFSchedule | null;
+  jeopardySchedule: JeopardySchedule | null;
+  clinicSchedule: ClinicSchedule | null;
+};
+
+export const ACADEMIC_YEARS_STORAGE_KEY = "cfsa_years_v1";
+
+// PGY-4 through PGY-6
+export const FELLOWSHIP_YEARS = 3;
+
+const PGYS: PGY[] = ["PGY-4", "PGY-5", "PGY-6"];
+
+// Oldest first
+export function loadArchivedYears(): ArchivedYear[] {
+  try {
+    const raw = storage.getItem(ACADEMIC_YEARS_STORAGE_KEY);
+    if (!raw) return [];
+    const parsed = JSON.parse(raw) as ArchivedYear[];
+    return Array.isArray(parsed) ? parsed.sort((a, b) => a.yearStart.localeCompare(b.yearStart)) : [];
+  } catch {
+    return [];
+  }
+}
+
+export function saveArchivedYears(years: ArchivedYear[]): void {
+  storage.setItem(ACADEMIC_YEARS_STORAGE_KEY, JSON.stringify(years));
+}
+
+// Calendar year in which an academic year starts, e.g. 2025 for 2025-07-01
+export function academicYearOf(yearStartISO: string): number {
+  return parseISO(yearStartISO).getFullYear();
+}
+
+// Display label like "2025–26"
+export function academicYearLabel(yearStartISO: string): string {
+  const year = academicYearOf(yearStartISO);
+  return `${year}–${String(year + 1).slice(-2)}`;
+}
+
+// Fellows created before the roster had start years are placed by their current PGY
+export function fellowStartYear(fellow: Fellow, yearStartISO: string): number {
+  if (fellow.startYear !== undefined) return fellow.startYear;
+  return academicYearOf(yearStartISO) - PGYS.indexOf(fellow.pgy);
+}
+
+// The fellow's PGY in a given academic year, or null before they start / after they graduate
+export function pgyInYear(startYear: number, academicYear: number): PGY | null {
+  return PGYS[academicYear - startYear] ?? null;
+}
+
+// Archived years before the current one, most recent first, limited to one fellowship's span
+export function priorYears(ctx: ScheduleContext, span = FELLOWSHIP_YEARS - 1): ArchivedYear[] {
+  const yearStart = ctx.setup?.yearStart;
+  if (!yearStart) return [];
+  return ctx.archivedYears
+    .filter((y) => y.yearStart < yearStart)
+    .sort((a, b) => b.yearStart.localeCompare(a.yearStart))
+    .slice(0, span);
+}
+
+// Primary call days of the year just before the current one; lets spacing rules see across the change of year
+export function priorPrimaryCallDays(ctx: ScheduleContext): Record<string, string> {
+  return priorYears(ctx, 1)[0]?.callSchedule?.days ?? {};
+}
+
+// HF weekends (weekend start ISO -> fellowId) of the year just before the current one
+export function priorHFWeekends(ctx: ScheduleContext): Record<string, string> {
+  return priorYears(ctx, 1)[0]?.hfSchedule?.weekends ?? {};
+}
+
+// Holiday days each fellow covered in prior years of their fellowship, per duty
+export function priorHolidayCounts(ctx: ScheduleContext, duty: "primary" | "hf"): Record<string, number> {
+  const counts: Record<string, number> = {};
+  for (const year of priorYears(ctx)) {
+    if (duty === "hf") {
+      for (const [fid, n] of Object.entries(year.hfSchedule?.holidayCountsByFellow ?? {})) {
+        counts[fid] = (counts[fid] ?? 0) + n;
+      }
+      continue;
+    }
+    const days = year.callSchedule?.days ?? {};
+    for (const holiday of year.setup.holidays ?? []) {
+      const fid = days[holiday.date];
+      if (fid) counts[fid] = (counts[fid] ?? 0) + 1;
+    }
+  }
+  return counts;
+}
+
+export type NextAcademicYear = {
+  setup: SetupState;
+  archive: ArchivedYear;
+  promoted: Fellow[];
+  graduated: Fellow[];
+};
+
+// Archive the current year and build next year's setup: everyone moves up one PGY, PGY-6s
+// graduate, and per-year choices (vacation preferences, rotation quotas and requests) are cleared.
+export function buildNextAcademicYear(ctx: ScheduleContext = storageContext()): NextAcademicYear | null {
+  const { setup } = ctx;
+  if (!setup) return null;
+
+  const year = academicYearOf(setup.yearStart);
+  const nextYearStart = `${year + 1}${setup.yearStart.slice(4)}`;
+  // A set last day moves with the start, so an off-cycle or partial year repeats its shape
+  const nextYearEnd = setup.yearEnd ? format(addYears(parseISO(setup.yearEnd), 1), "yyyy-MM-dd") : undefined;
+  const rostered = setup.fellows.map((f) => ({ ...f, startYear: fellowStartYear(f, setup.yearStart) }));
+
+  const promoted: Fellow[] = [];
+  const graduated: Fellow[] = [];
+  for (const fellow of rostered) {
+    const pgy = pgyInYear(fellow.startYear, year + 1);
+    if (!pgy) {
+      graduated.push(fellow);
+      continue;
+    }
+    const { rotationQuotas: _quotas, rotationRequests: _requests, ...rest } = fellow;
+    promoted.push({ ...rest, pgy, vacationPrefs: [undefined, undefined, undefined, undefined] });
+  }
+
+  return {
+    setup: {
+      ...setup,
+      yearStart: nextYearStart,
+      yearEnd: nextYearEnd,
+      fellows: promoted,
+      holidays: computeAcademicYearHolidays(nextYearStart, nextYearEnd),
+    },
+    archive: {
+      yearStart: setup.yearStart,
+      archivedAt: new Date().toISOString(),
+      setup: { ...setup, fellows: rostered },
+      schedules: { "PGY-4": ctx.schedules["PGY-4"], "PGY-5": ctx.schedules["PGY-5"], "PGY-6": ctx.schedules["PGY-6"] },
+      callSchedule: ctx.callSchedule,
+      hfSchedule: ctx.hfSchedule,
+      jeopardySchedule: ctx.jeopardySchedule,
+      clinicSchedule: ctx.clinicSchedule,
+    },
+    promoted,
+    graduated,
+  };
+}
+
+// Persist the rollover: store the archive, save the promoted setup and clear this year's schedules and pins.
+// The setup and archive go into the same history entry as the cleared schedules, so undo brings back
+// the old year as a whole rather than its schedules on the new year's setup.
+export function startNextAcademicYear(): NextAcademicYear | null {
+  const next = buildNextAcademicYear();
+  if (!next) return null;
+
+  labelEdit(`Start academic year ${academicYearLabel(next.setup.yearStart)}`);
+  recordWrite(ACADEMIC_YEARS_STORAGE_KEY, null);
+  recordWrite(SETUP_STORAGE_KEY, null);
+  const archived = loadArchivedYears().filter((y) => y.yearStart !== next.archive.yearStart);
+  saveArchivedYears([...archived, next.archive]);
+  saveSetup(next.setup);
+  clearSchedules();
+  clearCallSchedule();
+  clearCoverageMetadata();
+  clearHFSchedule();
+  clearJeopardySchedule();
+  clearClinicSchedule();
+  clearPins();
+  return next;
+}
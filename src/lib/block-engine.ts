@@ -1,8 +1,8 @@
 import type { BlockInfo } from "@/lib/block-utils";
 import type { Fellow, StoredSchedule } from "@/lib/schedule-engine";
 import type { Rotation } from "@/lib/rotation-engine";
-import { loadSchedule, getAllPGYVacationCounts } from "@/lib/schedule-engine";
-import { loadSettings } from "@/lib/settings-engine";
+import { getAllPGYVacationCounts } from "@/lib/schedule-engine";
+import { storageContext, type ScheduleContext } from "@/lib/schedule-context";
 
 export type BlockSwapResult = {
   success: boolean;
@@ -44,9 +44,10 @@ export function validateBlockScheduleChange(
   changes: BlockChange[],
   blocks: BlockInfo[],
   fellows: Fellow[],
-  allowVacationConflicts: boolean = false
+  allowVacationConflicts: boolean = false,
+  ctx: ScheduleContext = storageContext()
 ): { success: boolean; error?: string; vacationConflict?: { fellowId: string; blockKey: string; conflictingFellow: string } } {
-  const settings = loadSettings();
+  const { settings } = ctx;
   const previewByFellow = previewBlockScheduleChange(currentSchedule, changes);
   const pgy = currentSchedule.pgy;
   
@@ -97,7 +98,7 @@ export function validateBlockScheduleChange(
         }
         
         // Check cross-PGY limits
-        const allPGYCounts = getAllPGYVacationCounts();
+        const allPGYCounts = getAllPGYVacationCounts(ctx);
         const crossPGYCount = allPGYCounts[vacKey] || 0;
         
         if (samePGYCount + crossPGYCount >= settings.vacation.maxTotalPerBlock) {
@@ -237,7 +238,7 @@ export function validateBlockScheduleChange(
       }
       
       // Cross-PGY overlap validation
-      const p4 = loadSchedule("PGY-4");
+      const p4 = ctx.schedules["PGY-4"];
       if (p4?.byFellow) {
         const cross = new Set<Rotation>(["CCU", "KECK_CONSULT", "LAC_CONSULT", "HF", "EP"]);
         for (const [k, v] of Object.entries(row)) {
@@ -263,7 +264,8 @@ export function applyBlockDragAndDrop(
   dropBlockKey: string,
   blocks: BlockInfo[],
   fellows: Fellow[],
-  allowVacationConflicts: boolean = false
+  allowVacationConflicts: boolean = false,
+  ctx: ScheduleContext = storageContext()
 ): BlockSwapResult {
   console.log("🔧 Block Engine - applyBlockDragAndDrop called", {
     dragFellowId,
@@ -294,7 +296,7 @@ export function applyBlockDragAndDrop(
     
     console.log("📝 Move changes:", changes);
     
-    const validation = validateBlockScheduleChange(currentSchedule, changes, blocks, fellows, allowVacationConflicts);
+    const validation = validateBlockScheduleChange(currentSchedule, changes, blocks, fellows, allowVacationConflicts, ctx);
     console.log("✅ Move validation result:", validation);
     
     if (!validation.success) {
@@ -323,7 +325,7 @@ export function applyBlockDragAndDrop(
   
   console.log("📝 Swap changes:", changes);
   
-  const validation = validateBlockScheduleChange(currentSchedule, changes, blocks, fellows, allowVacationConflicts);
+  const validation = validateBlockScheduleChange(currentSchedule, changes, blocks, fellows, allowVacationConflicts, ctx);
   console.log("✅ Swap validation result:", validation);
   
   if (!validation.success) {
@@ -1,10 +1,33 @@
+import { addDays, addMonths, addYears, differenceInCalendarDays, format } from "date-fns";
+
 export type BlockInfo = {
-  key: string; // e.g., JUL1
-  monthIndex: number; // 0-11 relative to academic year start
-  half: 1 | 2;
+  key: string; // e.g., JUL1 (half-month), JUL (monthly), B1 (N-week)
+  monthIndex: number; // 0-11, month of the block's first day relative to academic year start
+  half: number; // 1-based position among the blocks starting in that month
   label: string; // e.g., Jul 1–15
+  start: string; // ISO date of the first day
+  end: string; // ISO date of the last day
+};
+
+export type BlockCalendarKind = "half-month" | "month" | "weeks";
+
+// How the academic year is cut into blocks. A weeks calendar turns blocks over every `weeks` weeks in step
+// with startDate (MM-DD); block 1 runs from the year start until the turnover after the nearest one,
+// and the last block runs to the year end.
+export type BlockCalendar = {
+  kind: BlockCalendarKind;
+  weeks: number;
+  startDate: string;
 };
 
+export const DEFAULT_BLOCK_CALENDAR: BlockCalendar = { kind: "half-month", weeks: 4, startDate: "07-01" };
+
+export const BLOCK_CALENDAR_KINDS: { value: BlockCalendarKind; label: string; description: string }[] = [
+  { value: "half-month", label: "Half-month", description: "24 blocks: two per month, counted from the year start (the 1st–15th and 16th–end for a July 1 start)" },
+  { value: "month", label: "Monthly", description: "12 blocks, one per month from the year start" },
+  { value: "weeks", label: "N-week", description: "Fixed-length blocks from a start date, e.g. 13 four-week blocks" },
+];
+
 const MONTH_ABBR = [
   "JAN",
   "FEB",
@@ -24,30 +47,146 @@ export function monthAbbrForIndex(index: number) {
   return MONTH_ABBR[(index + 12) % 12];
 }
 
-function lastDayOfMonth(date: Date) {
-  return new Date(date.getFullYear(), date.getMonth() + 1, 0).getDate();
+const toISO = (d: Date) => format(d, "yyyy-MM-dd");
+const fromISO = (iso: string) => new Date(`${iso.slice(0, 10)}T00:00:00`);
+
+// Last day of the academic year. An explicit end (SetupState.yearEnd) is kept when it falls within a year
+// of the start; otherwise the year runs to the day before the start's anniversary, e.g. July 1 to June 30
+// or July 15 to July 14.
+export function academicYearEnd(yearStartISO: string, yearEndISO?: string): string {
+  const start = fromISO(yearStartISO);
+  const latest = toISO(addDays(addYears(start, 1), -1));
+  if (!yearEndISO || isNaN(fromISO(yearEndISO).getTime())) return latest;
+  if (yearEndISO < yearStartISO.slice(0, 10) || yearEndISO > latest) return latest;
+  return yearEndISO.slice(0, 10);
+}
+
+// Every day of the academic year, first to last
+export function academicYearWindow(yearStartISO: string, yearEndISO?: string): { start: Date; end: Date; days: Date[] } {
+  const start = fromISO(yearStartISO);
+  const end = fromISO(academicYearEnd(yearStartISO, yearEndISO));
+  const days: Date[] = [];
+  for (let d = start; d <= end; d = addDays(d, 1)) days.push(d);
+  return { start, end, days };
 }
 
-export function generateAcademicYearBlocks(startIsoDate: string): BlockInfo[] {
-  const start = new Date(startIsoDate);
+// Blocks of the academic year on the given calendar. Monthly and half-month blocks count from the year
+// start itself, so a July 15 start gives Jul 15–29 and Jul 30–Aug 14 rather than calendar-month halves;
+// a July 1 start gives the familiar 1st–15th and 16th–end. A year that ends early trims the block it ends
+// in and leaves out the rest.
+export function generateAcademicYearBlocks(
+  startIsoDate: string,
+  calendar: BlockCalendar = DEFAULT_BLOCK_CALENDAR,
+  endIsoDate?: string
+): BlockInfo[] {
+  const start = fromISO(startIsoDate);
   if (isNaN(start.getTime())) {
     // Default to July 1 of current year
     const y = new Date().getFullYear();
-    return generateAcademicYearBlocks(`${y}-07-01`);
+    return generateAcademicYearBlocks(`${y}-07-01`, calendar);
   }
+  const end = fromISO(academicYearEnd(startIsoDate, endIsoDate));
+  if (calendar.kind === "weeks") return weekBlocks(start, end, calendar);
   const blocks: BlockInfo[] = [];
+  const push = (key: string, monthIndex: number, half: number, from: Date, last: Date) => {
+    if (from > end) return;
+    const to = last > end ? end : last;
+    blocks.push({ key, monthIndex, half, label: rangeLabel(from, to), start: toISO(from), end: toISO(to) });
+  };
   for (let i = 0; i < 12; i++) {
-    const d = new Date(start.getFullYear(), start.getMonth() + i, 1);
-    const monthName = MONTH_ABBR[d.getMonth()];
-    const lastDay = lastDayOfMonth(d);
-    const firstLabel = `${d.toLocaleString(undefined, { month: "short" })} 1–15`;
-    const secondLabel = `${d.toLocaleString(undefined, { month: "short" })} 16–${lastDay}`;
-    blocks.push({ key: `${monthName}1`, monthIndex: i, half: 1, label: firstLabel });
-    blocks.push({ key: `${monthName}2`, monthIndex: i, half: 2, label: secondLabel });
+    // Each month runs from the start's day-of-month to the day before the next one (clamped in short months)
+    const first = addMonths(start, i);
+    const last = addDays(addMonths(start, i + 1), -1);
+    const monthName = MONTH_ABBR[first.getMonth()];
+    if (calendar.kind === "month") {
+      push(monthName, i, 1, first, last);
+      continue;
+    }
+    const second = addDays(first, 15);
+    push(`${monthName}1`, i, 1, first, addDays(second, -1));
+    push(`${monthName}2`, i, 2, second, last);
   }
   return blocks;
 }
 
+function rangeLabel(from: Date, to: Date) {
+  if (toISO(from) === toISO(to)) return format(from, "MMM d");
+  return `${format(from, "MMM d")}–${format(to, from.getMonth() === to.getMonth() ? "d" : "MMM d")}`;
+}
+
+function weekBlocks(yearStart: Date, yearEnd: Date, calendar: BlockCalendar): BlockInfo[] {
+  const length = Math.max(1, Math.round(calendar.weeks) || 1) * 7;
+  // Blocks turn over in step with the start date; the turnover nearest the academic year start anchors them
+  const [mm, dd] = calendar.startDate.split("-").map(Number);
+  let anchor = new Date(yearStart.getFullYear(), (mm || 1) - 1, dd || 1);
+  if (isNaN(anchor.getTime())) anchor = yearStart;
+  anchor = addDays(anchor, -Math.round(differenceInCalendarDays(anchor, yearStart) / length) * length);
+  const count = Math.max(1, Math.floor((differenceInCalendarDays(yearEnd, anchor) + 1) / length));
+
+  const blocks: BlockInfo[] = [];
+  const perMonth = new Map<number, number>();
+  for (let i = 0; i < count; i++) {
+    const first = i === 0 ? yearStart : addDays(anchor, i * length);
+    const last = i === count - 1 ? yearEnd : addDays(anchor, (i + 1) * length - 1);
+    const monthIndex = (first.getFullYear() - yearStart.getFullYear()) * 12 + first.getMonth() - yearStart.getMonth();
+    const half = (perMonth.get(monthIndex) ?? 0) + 1;
+    perMonth.set(monthIndex, half);
+    blocks.push({ key: `B${i + 1}`, monthIndex, half, label: rangeLabel(first, last), start: toISO(first), end: toISO(last) });
+  }
+  return blocks;
+}
+
+const resolvers = new Map<string, Map<string, string | undefined>>();
+
+// The block holding a date on the given calendar, or undefined outside the academic year. Every engine
+// and page resolves dates through here, so block keys always agree with generateAcademicYearBlocks.
+export function blockKeyForDate(
+  dateISO: string,
+  yearStartISO: string,
+  calendar: BlockCalendar = DEFAULT_BLOCK_CALENDAR,
+  yearEndISO?: string
+): string | undefined {
+  const id = `${yearStartISO}|${yearEndISO ?? ""}|${calendar.kind}|${calendar.weeks}|${calendar.startDate}`;
+  let byDate = resolvers.get(id);
+  if (!byDate) {
+    byDate = new Map();
+    for (const b of generateAcademicYearBlocks(yearStartISO, calendar, yearEndISO)) {
+      for (let d = fromISO(b.start); toISO(d) <= b.end; d = addDays(d, 1)) byDate.set(toISO(d), b.key);
+    }
+    resolvers.set(id, byDate);
+  }
+  return byDate.get(dateISO.slice(0, 10));
+}
+
+// Blocks in a typical month: 2 on the half-month calendar, 1 on monthly and 4-week calendars. Rules
+// written as "a full month" take this many consecutive blocks.
+export function blocksPerMonth(blocks: BlockInfo[]): number {
+  const counts = new Map<number, number>();
+  for (const b of blocks) counts.set(b.monthIndex, (counts.get(b.monthIndex) ?? 0) + 1);
+  const tally = new Map<number, number>();
+  for (const n of counts.values()) tally.set(n, (tally.get(n) ?? 0) + 1);
+  let best = 1;
+  for (const [n, months] of tally) if (months > (tally.get(best) ?? 0)) best = n;
+  return best;
+}
+
+// A full year of true half-month blocks, the shape the heuristic rotation solver is written for. A year
+// cut short leaves a trimmed last block and does not count.
+export function isHalfMonthCalendar(blocks: BlockInfo[]): boolean {
+  if (blocks.length !== 24 || blocksPerMonth(blocks) !== 2) return false;
+  return blocks.every((b) => {
+    const days = differenceInCalendarDays(fromISO(b.end), fromISO(b.start)) + 1;
+    return days >= 13 && days <= 16;
+  });
+}
+
+// The built-in rotation rules count half-month blocks; this converts such a count to the nearest whole
+// number of blocks on the given calendar, never rounding a non-zero count down to zero
+export function fromHalfMonthBlocks(count: number, blocks: BlockInfo[]): number {
+  if (count <= 0) return 0;
+  return Math.max(1, Math.round((count * blocks.length) / 24));
+}
+
 export function indexOfBlock(blocks: BlockInfo[], key?: string | null) {
   if (!key) return -1;
   return blocks.findIndex((b) => b.key === key);
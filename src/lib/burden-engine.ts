@@ -0,0 +1,110 @@
+import { format, parseISO } from "date-fns";
+import { academicYearWindow } from "@/lib/block-utils";
+import { computeAcademicYearHolidays } from "@/lib/holidays";
+import { type SetupState } from "@/lib/schedule-engine";
+import { type SchedulerSettings } from "@/lib/settings-engine";
+import { getEffectiveHFAssignment } from "@/lib/hf-engine";
+import { snapshotContext, storageContext, type ScheduleContext } from "@/lib/schedule-context";
+
+// Call burden: every duty scored on the points scale in settings, so "who has the heaviest year" can
+// be answered across primary call, jeopardy, HF and clinics, and generators can balance the total.
+
+export type BurdenDuty = "primary" | "jeopardy" | "hf" | "clinic";
+
+export const BURDEN_DUTIES: BurdenDuty[] = ["primary", "jeopardy", "hf", "clinic"];
+
+export const BURDEN_DUTY_LABELS: Record<BurdenDuty, string> = {
+  primary: "Primary call",
+  jeopardy: "Jeopardy",
+  hf: "HF coverage",
+  clinic: "Clinics",
+};
+
+export type FellowBurden = {
+  fellowId: string;
+  total: number;
+  byDuty: Record<BurdenDuty, number>;
+  byMonth: Record<string, number>; // "yyyy-MM" -> points
+};
+
+export type BurdenReport = {
+  months: string[]; // "yyyy-MM", in academic-year order
+  fellows: FellowBurden[];
+};
+
+export type BurdenPoints = {
+  primary: (dateISO: string) => number;
+  jeopardy: (dateISO: string) => number;
+  hf: (dateISO: string) => number;
+  clinic: (clinicType: string) => number;
+};
+
+function toISODate(d: Date): string {
+  return format(d, "yyyy-MM-dd");
+}
+
+// Points one fellow earns for a single duty on a date
+export function burdenPoints(setup: SetupState, settings: SchedulerSettings): BurdenPoints {
+  const { burden } = settings;
+  const holidays = new Set(
+    (setup.holidays?.length ? setup.holidays : computeAcademicYearHolidays(setup.yearStart, setup.yearEnd)).map((h) => h.date)
+  );
+  const dow = (iso: string) => parseISO(iso).getDay();
+  return {
+    primary: (iso) => {
+      if (holidays.has(iso)) return burden.primary.holiday;
+      const day = dow(iso);
+      if (day === 6) return burden.primary.saturday;
+      if (day === 0) return burden.primary.sunday;
+      if (day === 5) return burden.primary.friday;
+      return burden.primary.weekday;
+    },
+    jeopardy: (iso) => {
+      const day = dow(iso);
+      const base = holidays.has(iso) ? burden.jeopardy.holiday : day === 0 || day === 6 ? burden.jeopardy.weekend : burden.jeopardy.weekday;
+      return base * burden.jeopardy.activationRisk;
+    },
+    // Weekdays only carry HF coverage inside a holiday block
+    hf: (iso) => {
+      const day = dow(iso);
+      return !holidays.has(iso) && (day === 0 || day === 6) ? burden.hf.weekend / 2 : burden.hf.holiday;
+    },
+    clinic: (clinicType) => (clinicType === "GENERAL" ? burden.clinic.general : burden.clinic.special),
+  };
+}
+
+export function computeBurden(source: ScheduleContext = storageContext()): BurdenReport {
+  const ctx = snapshotContext(source);
+  const { setup, settings, callSchedule, jeopardySchedule, hfSchedule, clinicSchedule } = ctx;
+  if (!setup) return { months: [], fellows: [] };
+
+  const points = burdenPoints(setup, settings);
+  const dates = academicYearWindow(setup.yearStart, setup.yearEnd).days.map(toISODate);
+  const months = [...new Set(dates.map((iso) => iso.slice(0, 7)))];
+  const rows = new Map<string, FellowBurden>(
+    setup.fellows.map((f) => [f.id, { fellowId: f.id, total: 0, byDuty: { primary: 0, jeopardy: 0, hf: 0, clinic: 0 }, byMonth: {} }] as const)
+  );
+  const add = (fellowId: string | null | undefined, duty: BurdenDuty, iso: string, value: number) => {
+    const row = fellowId ? rows.get(fellowId) : undefined;
+    if (!row || !value) return;
+    row.total += value;
+    row.byDuty[duty] += value;
+    row.byMonth[iso.slice(0, 7)] = (row.byMonth[iso.slice(0, 7)] ?? 0) + value;
+  };
+
+  for (const iso of dates) {
+    add(callSchedule?.days[iso], "primary", iso, points.primary(iso));
+    add(jeopardySchedule?.days[iso], "jeopardy", iso, points.jeopardy(iso));
+    add(getEffectiveHFAssignment(iso, hfSchedule), "hf", iso, points.hf(iso));
+    for (const assignment of clinicSchedule?.days[iso] ?? []) add(assignment.fellowId, "clinic", iso, points.clinic(assignment.clinicType));
+  }
+  return { months, fellows: [...rows.values()] };
+}
+
+// Each fellow's points from every duty except one, the starting totals when a generator balances
+// its own duty against the rest
+export function burdenOutside(duty: BurdenDuty, ctx: ScheduleContext = storageContext()): Record<string, number> {
+  const out: Record<string, number> = {};
+  for (const row of computeBurden(ctx).fellows) out[row.fellowId] = row.total - row.byDuty[duty];
+  return out;
+}
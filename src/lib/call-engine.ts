@@ -1,15 +1,27 @@
 import { differenceInCalendarDays, addDays, isBefore, isAfter, isEqual, parseISO, format } from "date-fns";
-import { monthAbbrForIndex } from "@/lib/block-utils";
+import { academicYearWindow, blockKeyForDate, type BlockCalendar } from "@/lib/block-utils";
 import { computeAcademicYearHolidays } from "@/lib/holidays";
-import { loadSchedule, loadSetup, type Fellow, type PGY, type StoredSchedule, type SetupState } from "@/lib/schedule-engine";
-import { loadSettings, type SchedulerSettings } from "./settings-engine";
+import { type Fellow, type PGY, type StoredSchedule, type SetupState } from "@/lib/schedule-engine";
+import { type SchedulerSettings } from "./settings-engine";
+import { snapshotContext, storageContext, type ScheduleContext } from "@/lib/schedule-context";
 import { getPrimaryRotation } from "@/lib/rotation-engine";
+import { reportProgress } from "@/lib/engine-progress";
+import { createRng, randomSeed, type Rng } from "@/lib/seeded-random";
+import { priorHolidayCounts, priorPrimaryCallDays } from "@/lib/academic-year-engine";
+import { findUnavailability, unavailabilityReason } from "@/lib/unavailability";
+import { proratedQuotas } from "@/lib/leave-engine";
+import { fixedAssignments, inRange, type RegenerationRange } from "@/lib/regeneration-range";
+import { recordWrite } from "@/lib/history-engine";
+import { storage } from "@/lib/storage-engine";
+import { migrateStored, type Schema } from "@/lib/migration-engine";
+import { burdenOutside, burdenPoints } from "@/lib/burden-engine";
 
 type CallSchedule = {
   version: 1;
   yearStart: string; // ISO date (YYYY-MM-DD)
   days: Record<string, string>; // date ISO -> fellowId
   countsByFellow: Record<string, number>;
+  seed?: number; // seed the generator ran with; regenerating with it reproduces the schedule
 };
 
 type CallCoverageMetadata = {
@@ -24,21 +36,8 @@ function toISODate(d: Date) {
   return format(d, "yyyy-MM-dd");
 }
 
-function july1ToJune30Window(yearStartISO: string): { start: Date; end: Date; days: Date[] } {
-  const start = parseISO(yearStartISO);
-  const end = addDays(new Date(start.getFullYear() + 1, 5, 30), 0); // June 30 of next year
-  // Ensure end date is exactly June 30 of next year
-  const days: Date[] = [];
-  let cur = start;
-  while (!isAfter(cur, end)) {
-    days.push(cur);
-    cur = addDays(cur, 1);
-  }
-  return { start, end, days };
-}
-
 function isHoliday(dateISO: string, setup: SetupState): boolean {
-  const holidays = setup.holidays?.length ? setup.holidays : computeAcademicYearHolidays(setup.yearStart);
+  const holidays = setup.holidays?.length ? setup.holidays : computeAcademicYearHolidays(setup.yearStart, setup.yearEnd);
   return holidays.some((h) => h.date === dateISO);
 }
 
@@ -48,43 +47,46 @@ function isWeekendDate(d: Date): boolean {
 }
 
 // Check if a date is on or after the PGY-4 primary call start date (from settings)
-function afterPGY4StartDate(d: Date, yearStartISO: string): boolean {
-  const settings = loadSettings();
+function afterPGY4StartDate(d: Date, yearStartISO: string, settings: SchedulerSettings): boolean {
   const start = parseISO(yearStartISO);
   
   // Parse MM-DD format from settings (e.g., "08-15")
   const [month, day] = settings.primaryCall.pgy4StartDate.split('-').map(Number);
-  const pgy4Start = new Date(start.getFullYear(), month - 1, day); // month is 0-indexed
+  // A month before the start month falls in the year's second calendar year
+  const year = month - 1 < start.getMonth() ? start.getFullYear() + 1 : start.getFullYear();
+  const pgy4Start = new Date(year, month - 1, day); // month is 0-indexed
   
   return isAfter(d, addDays(pgy4Start, -1)); // on or after the start date
 }
 
-function dateToBlockKey(d: Date, yearStartISO: string): string {
-  // Use actual calendar month for block key so it matches generateAcademicYearBlocks
-  const abbr = monthAbbrForIndex(d.getMonth());
-  const half = d.getDate() <= 15 ? 1 : 2;
-  return `${abbr}${half}`;
-}
-
-function getRotationOnDate(fellow: Fellow, date: Date, schedByPGY: Record<PGY, StoredSchedule | null>, yearStartISO: string): string | undefined {
+function getRotationOnDate(
+  fellow: Fellow,
+  date: Date,
+  schedByPGY: Record<PGY, StoredSchedule | null>,
+  setup: SetupState,
+  calendar: BlockCalendar
+): string | undefined {
   const sched = schedByPGY[fellow.pgy];
   if (!sched || !sched.byFellow) return undefined;
   const row = sched.byFellow[fellow.id] || {};
-  const key = dateToBlockKey(date, yearStartISO);
-  return row[key];
+  const key = blockKeyForDate(toISODate(date), setup.yearStart, calendar, setup.yearEnd);
+  return key ? row[key] : undefined;
 }
 
-function withinCallLimit(fellow: Fellow, counts: Record<string, number>, cachedSettings?: SchedulerSettings): boolean {
-  const settings = cachedSettings || loadSettings();
-  const max = settings.primaryCall.maxCalls[fellow.pgy];
-  return (counts[fellow.id] ?? 0) < max;  // Use < to prevent exceeding limit
+// Annual call cap per fellow: the PGY cap, prorated for leave of absence with the difference
+// spread over the rest of the class
+function callCaps(setup: SetupState, settings: SchedulerSettings): Record<string, number> {
+  return proratedQuotas(setup.fellows, setup.yearStart, (pgy) => settings.primaryCall.maxCalls[pgy], setup.yearEnd);
 }
 
-function hasSpacingOK(fellow: Fellow, lastAssigned: Record<string, string | undefined>, date: Date, cachedSettings?: SchedulerSettings): boolean {
+function withinCallLimit(fellow: Fellow, counts: Record<string, number>, caps: Record<string, number>): boolean {
+  return (counts[fellow.id] ?? 0) < caps[fellow.id];  // Use < to prevent exceeding limit
+}
+
+function hasSpacingOK(fellow: Fellow, lastAssigned: Record<string, string | undefined>, date: Date, settings: SchedulerSettings): boolean {
   const lastISO = lastAssigned[fellow.id];
   if (!lastISO) return true;
   const lastDate = parseISO(lastISO);
-  const settings = cachedSettings || loadSettings();
   return differenceInCalendarDays(date, lastDate) >= settings.primaryCall.minSpacingDays;
 }
 
@@ -109,10 +111,8 @@ function okNoConsecutiveSaturday(
   fellow: Fellow,
   date: Date,
   lastSaturday: Record<string, string | undefined>,
-  cachedSettings?: SchedulerSettings
+  settings: SchedulerSettings
 ): boolean {
-  const settings = cachedSettings || loadSettings();
-  
   // If the rule is disabled, allow consecutive Saturdays
   if (!settings.primaryCall.noConsecutiveSaturdays) {
     return true;
@@ -146,9 +146,8 @@ function hasSpecialtyClinicNextDay(
   currentDate: Date,
   setup: SetupState,
   schedByPGY: Record<PGY, StoredSchedule | null>,
-  cachedSettings?: SchedulerSettings
+  settings: SchedulerSettings
 ): boolean {
-  const settings = cachedSettings || loadSettings();
   const nextDate = addDays(currentDate, 1);
   const nextDayOfWeek = nextDate.getDay(); // 0=Sun, 1=Mon, ..., 6=Sat
   const nextDateISO = toISODate(nextDate);
@@ -159,7 +158,7 @@ function hasSpecialtyClinicNextDay(
   }
   
   // Get fellow's rotation on the next day
-  const rotation = getRotationOnDate(fellow, nextDate, schedByPGY, setup.yearStart);
+  const rotation = getRotationOnDate(fellow, nextDate, schedByPGY, setup, settings.blockCalendar);
   if (!rotation) return false;
   
   const primaryRotation = getPrimaryRotation(rotation as any);
@@ -192,17 +191,25 @@ function hasSpecialtyClinicNextDay(
   return false;
 }
 
-function eligiblePoolByPGY(date: Date, setup: SetupState, schedByPGY: Record<PGY, StoredSchedule | null>, cachedSettings?: SchedulerSettings) {
-  const afterPGY4Start = afterPGY4StartDate(date, setup.yearStart);
+function eligiblePoolByPGY(
+  date: Date,
+  setup: SetupState,
+  schedByPGY: Record<PGY, StoredSchedule | null>,
+  settings: SchedulerSettings,
+  includeSoftUnavailability = true
+) {
+  const afterPGY4Start = afterPGY4StartDate(date, setup.yearStart, settings);
   const isWeekend = isWeekendDate(date);
   const iso = toISODate(date);
   const holiday = isHoliday(iso, setup);
-  const settings = cachedSettings || loadSettings();
 
   const pools: Record<PGY, Fellow[]> = { "PGY-4": [], "PGY-5": [], "PGY-6": [] };
   for (const f of setup.fellows) {
     // Time period eligibility
     if (f.pgy === "PGY-4" && !afterPGY4Start) continue; // PGY-4 completely ineligible before start date
+
+    // Conferences, leave and interviews
+    if (findUnavailability(f, [iso], includeSoftUnavailability)) continue;
     
     // NEW RULE: Exclude PGY-6 from Christmas Eve and New Year's Eve if setting enabled
     if (f.pgy === "PGY-6" && settings.primaryCall.noPGY6OnHolidayEves && isChristmasEveOrNewYearsEve(date)) {
@@ -215,7 +222,7 @@ function eligiblePoolByPGY(date: Date, setup: SetupState, schedByPGY: Record<PGY
     }
     
     // Rotation exclusions from settings
-    const rot = getRotationOnDate(f, date, schedByPGY, setup.yearStart);
+    const rot = getRotationOnDate(f, date, schedByPGY, setup, settings.blockCalendar);
     if (settings.primaryCall.excludeRotations.includes(rot)) continue;
     // Exclude EP rotation on specific days if configured
     const dow = date.getDay(); // 0=Sun ... 6=Sat
@@ -263,11 +270,11 @@ function eligiblePoolByPGY(date: Date, setup: SetupState, schedByPGY: Record<PGY
   return { pools, priority, isWeekend: isWeekend || holiday };
 }
 
-function pickWeighted<T>(items: T[], getWeight: (t: T) => number): T | undefined {
+function pickWeighted<T>(items: T[], getWeight: (t: T) => number, rng: Rng): T | undefined {
   const weights = items.map(getWeight);
   const sum = weights.reduce((a, b) => a + b, 0);
   if (sum <= 0) return undefined;
-  let r = Math.random() * sum;
+  let r = rng() * sum;
   for (let i = 0; i < items.length; i++) {
     r -= weights[i];
     if (r <= 0) return items[i];
@@ -281,8 +288,14 @@ type BuildCallResult = {
   uncovered?: string[];
 };
 
-function buildPrimaryCallSchedule(opts?: { priorPrimarySeeds?: Record<string, string> }): BuildCallResult {
-  const setup = loadSetup();
+function buildPrimaryCallSchedule(
+  // With a range, only days inside it are (re)assigned and the rest of the current schedule is kept
+  opts?: { priorPrimarySeeds?: Record<string, string>; seed?: number; range?: RegenerationRange },
+  ctx: ScheduleContext = storageContext()
+): BuildCallResult {
+  const { setup, settings } = ctx;
+  const seed = opts?.seed ?? randomSeed();
+  const rng = createRng(seed);
   if (!setup) {
     return {
       schedule: { version: 1, yearStart: toISODate(new Date()), days: {}, countsByFellow: {} },
@@ -291,58 +304,107 @@ function buildPrimaryCallSchedule(opts?: { priorPrimarySeeds?: Record<string, st
     };
   }
 
-  const schedByPGY: Record<PGY, StoredSchedule | null> = {
-    "PGY-4": loadSchedule("PGY-4"),
-    "PGY-5": loadSchedule("PGY-5"),
-    "PGY-6": loadSchedule("PGY-6"),
-  };
+  const schedByPGY: Record<PGY, StoredSchedule | null> = { ...ctx.schedules };
+  const caps = callCaps(setup, settings);
 
-  const { days } = july1ToJune30Window(setup.yearStart);
+  const { days } = academicYearWindow(setup.yearStart, setup.yearEnd);
   const assignments: Record<string, string> = {};
   const lastByFellow: Record<string, string | undefined> = {};
   const counts: Record<string, number> = {};
   const weekdayCatCounts: Record<string, number> = {};
   const wkndHolCatCounts: Record<string, number> = {};
   const lastSaturdayByFellow: Record<string, string | undefined> = {};
-  // Seed last assignment dates from priorPrimarySeeds (do not count toward totals)
-  const seeds = opts?.priorPrimarySeeds || {};
+  // Seed last assignment dates from the archived prior year and priorPrimarySeeds (do not count
+  // toward totals), so spacing and Saturday rules hold across the change of academic year
+  const seeds = { ...priorPrimaryCallDays(ctx), ...(opts?.priorPrimarySeeds || {}) };
   for (const [isoSeed, fid] of Object.entries(seeds)) {
     // Only consider seeds strictly before the academic year start
     if (isoSeed < setup.yearStart && fid) {
       const prev = lastByFellow[fid];
       if (!prev || prev < isoSeed) lastByFellow[fid] = isoSeed;
+      const prevSat = lastSaturdayByFellow[fid];
+      if (parseISO(isoSeed).getDay() === 6 && (!prevSat || prevSat < isoSeed)) lastSaturdayByFellow[fid] = isoSeed;
     }
   }
+  // Holidays worked in earlier fellowship years weigh against being picked for another
+  const pastHolidays = priorHolidayCounts(ctx, "primary");
+  // Balancing across duties starts each fellow at their jeopardy, HF and clinic points
+  const burden = settings.burden.balanceAcrossDuties ? burdenOutside("primary", ctx) : null;
+  const points = burdenPoints(setup, settings);
+  const addBurden = (fid: string, iso: string) => {
+    if (burden) burden[fid] = (burden[fid] ?? 0) + points.primary(iso);
+  };
+
+  // Pinned days, and in a range run every assigned day outside the range, are fixed before anything
+  // else: they count toward caps and equity from the start, and later picks keep their spacing from them
+  const range = opts?.range;
+  const fellowIds = new Set(setup.fellows.map((f) => f.id));
+  const yearISOs = new Set(days.map(toISODate));
+  const pinned: Record<string, string> = {};
+  const pinnedByFellow: Record<string, string[]> = {};
+  for (const [iso, fid] of Object.entries(fixedAssignments(ctx, range).primary)) {
+    if (!yearISOs.has(iso) || !fellowIds.has(fid)) continue;
+    pinned[iso] = fid;
+    pinnedByFellow[fid] = [...(pinnedByFellow[fid] ?? []), iso];
+    assignments[iso] = fid;
+    counts[fid] = (counts[fid] ?? 0) + 1;
+    addBurden(fid, iso);
+    const catCounts = getEquityCategory(parseISO(iso), setup) === "wkndHol" ? wkndHolCatCounts : weekdayCatCounts;
+    catCounts[fid] = (catCounts[fid] ?? 0) + 1;
+  }
+  // Spacing and the Saturday rule checked forward against the fellow's pinned days
+  const clearOfPins = (f: Fellow, date: Date): boolean =>
+    (pinnedByFellow[f.id] ?? []).every((iso) => {
+      const gap = differenceInCalendarDays(parseISO(iso), date);
+      if (gap > 0 && gap < settings.primaryCall.minSpacingDays) return false;
+      return !(settings.primaryCall.noConsecutiveSaturdays && date.getDay() === 6 && gap === 7);
+    });
+  const placePinned = (date: Date) => {
+    const iso = toISODate(date);
+    const fid = pinned[iso];
+    lastByFellow[fid] = iso;
+    if (date.getDay() === 6) lastSaturdayByFellow[fid] = iso;
+  };
 
   function tryAssign(date: Date): boolean {
     const iso = toISODate(date);
-    const { pools, priority } = eligiblePoolByPGY(date, setup, schedByPGY);
+    const { pools, priority } = eligiblePoolByPGY(date, setup, schedByPGY, settings);
     const cat = getEquityCategory(date, setup);
+    const holidayHistory = (f: Fellow) => (isHoliday(iso, setup) ? pastHolidays[f.id] ?? 0 : 0);
+    // Fewer calls of this kind so far weighs toward being picked. With burden balancing, each point a
+    // fellow carries across all duties above the lightest candidate weighs against them like one call.
+    const fairWeight = (candidates: Fellow[]) => {
+      const catCounts = cat === "wkndHol" ? wkndHolCatCounts : weekdayCatCounts;
+      const lightest = burden ? Math.min(...candidates.map((f) => burden[f.id] ?? 0)) : 0;
+      const extra = (f: Fellow) => (burden ? (burden[f.id] ?? 0) - lightest : 0);
+      return (f: Fellow) => 1 / ((catCounts[f.id] ?? 0) + holidayHistory(f) + extra(f) + 1);
+    };
 
     // Iterate PGY preference order
     for (const pgy of priority) {
       const candidates = pools[pgy]
-        .filter((f) => withinCallLimit(f, counts))
-        .filter((f) => hasSpacingOK(f, lastByFellow, date))
-        .filter((f) => okNoConsecutiveSaturday(f, date, lastSaturdayByFellow));
+        .filter((f) => withinCallLimit(f, counts, caps))
+        .filter((f) => hasSpacingOK(f, lastByFellow, date, settings))
+        .filter((f) => okNoConsecutiveSaturday(f, date, lastSaturdayByFellow, settings))
+        .filter((f) => clearOfPins(f, date));
 
       if (candidates.length === 0) continue;
 
+      const weigh = fairWeight(candidates);
       const picked = pickWeighted(candidates, (f) => {
         // Special PGY-4 weekend/holiday equity optimization after start date
-        if (pgy === "PGY-4" && cat === "wkndHol" && afterPGY4StartDate(date, setup.yearStart)) {
+        if (pgy === "PGY-4" && cat === "wkndHol" && afterPGY4StartDate(date, setup.yearStart, settings)) {
           const wkndHolCount = wkndHolCatCounts[f.id] ?? 0;
           // Strongly prefer fellows with lowest weekend/holiday count
           return 1 / (wkndHolCount * 10 + 1);
         }
-        
-        const catCounts = cat === "wkndHol" ? wkndHolCatCounts : weekdayCatCounts;
-        return 1 / ((catCounts[f.id] ?? 0) + 1);
-      });
+        return weigh(f);
+      }, rng);
       if (picked) {
         assignments[iso] = picked.id;
         lastByFellow[picked.id] = iso;
         counts[picked.id] = (counts[picked.id] ?? 0) + 1;
+        addBurden(picked.id, iso);
         if (date.getDay() === 6) lastSaturdayByFellow[picked.id] = iso;
         if (cat === "wkndHol") {
           wkndHolCatCounts[picked.id] = (wkndHolCatCounts[picked.id] ?? 0) + 1;
@@ -356,7 +418,7 @@ function buildPrimaryCallSchedule(opts?: { priorPrimarySeeds?: Record<string, st
     // As a secondary attempt, pool across all eligible fellows ignoring PGY preference (but keeping all rules)
     // CRITICAL: Skip fallback for weekends/holidays after PGY-4 start - these MUST be PGY-4 only
     const isWeekendOrHoliday = cat === "wkndHol";
-    const afterPGY4Start = afterPGY4StartDate(date, setup.yearStart);
+    const afterPGY4Start = afterPGY4StartDate(date, setup.yearStart, settings);
     
     if (isWeekendOrHoliday && afterPGY4Start) {
       // No fallback allowed - weekend/holiday must be PGY-4 exclusive after start date
@@ -364,25 +426,26 @@ function buildPrimaryCallSchedule(opts?: { priorPrimarySeeds?: Record<string, st
     }
 
     const allCandidates = [...pools["PGY-4"], ...pools["PGY-5"], ...pools["PGY-6"]]
-      .filter((f) => withinCallLimit(f, counts))
-      .filter((f) => hasSpacingOK(f, lastByFellow, date))
-      .filter((f) => okNoConsecutiveSaturday(f, date, lastSaturdayByFellow));
+      .filter((f) => withinCallLimit(f, counts, caps))
+      .filter((f) => hasSpacingOK(f, lastByFellow, date, settings))
+      .filter((f) => okNoConsecutiveSaturday(f, date, lastSaturdayByFellow, settings))
+      .filter((f) => clearOfPins(f, date));
 
     if (allCandidates.length) {
+      const weigh = fairWeight(allCandidates);
       const picked = pickWeighted(allCandidates, (f) => {
         // Apply PGY-4 weekend/holiday equity optimization in fallback too
-        if (f.pgy === "PGY-4" && cat === "wkndHol" && afterPGY4StartDate(date, setup.yearStart)) {
+        if (f.pgy === "PGY-4" && cat === "wkndHol" && afterPGY4StartDate(date, setup.yearStart, settings)) {
           const wkndHolCount = wkndHolCatCounts[f.id] ?? 0;
           return 1 / (wkndHolCount * 10 + 1);
         }
-        
-        const catCounts = cat === "wkndHol" ? wkndHolCatCounts : weekdayCatCounts;
-        return 1 / ((catCounts[f.id] ?? 0) + 1);
-      });
+        return weigh(f);
+      }, rng);
       if (picked) {
         assignments[iso] = picked.id;
         lastByFellow[picked.id] = iso;
         counts[picked.id] = (counts[picked.id] ?? 0) + 1;
+        addBurden(picked.id, iso);
         if (date.getDay() === 6) lastSaturdayByFellow[picked.id] = iso;
         if (cat === "wkndHol") {
           wkndHolCatCounts[picked.id] = (wkndHolCatCounts[picked.id] ?? 0) + 1;
@@ -398,18 +461,25 @@ function buildPrimaryCallSchedule(opts?: { priorPrimarySeeds?: Record<string, st
 
   // Build schedule greedily first
   const failures: string[] = [];
-  for (const d of days) {
+  for (const [i, d] of days.entries()) {
+    reportProgress("Assigning primary call", i + 1, days.length);
+    if (pinned[toISODate(d)]) {
+      placePinned(d);
+      continue;
+    }
+    if (!inRange(toISODate(d), range)) continue;
     const ok = tryAssign(d);
     if (!ok) failures.push(toISODate(d));
   }
 
   // If failures exist, attempt a small sliding-window repair keeping strict constraints
   if (failures.length) {
+    reportProgress(`Repairing ${failures.length} uncovered days`);
     const idxByISO = new Map<string, number>(days.map((d, i) => [toISODate(d), i] as const));
 
     function windowRepair(startIdx: number, endIdx: number): boolean {
-      // Backtracking over [startIdx, endIdx]
-      const isos = days.slice(startIdx, endIdx + 1).map(toISODate);
+      // Backtracking over [startIdx, endIdx]; pinned days and days outside the range stay put
+      const isos = days.slice(startIdx, endIdx + 1).map(toISODate).filter((iso) => !pinned[iso] && inRange(iso, range));
       // Snapshot current state to rollback if needed
       const snapshotAssignments = { ...assignments };
       const snapshotLast = { ...lastByFellow };
@@ -428,15 +498,16 @@ function buildPrimaryCallSchedule(opts?: { priorPrimarySeeds?: Record<string, st
         if (i >= isos.length) return true;
         const iso = isos[i];
         const date = parseISO(iso);
-        const { pools, priority } = eligiblePoolByPGY(date, setup, schedByPGY);
+        const { pools, priority } = eligiblePoolByPGY(date, setup, schedByPGY, settings);
         const groups: Fellow[] = [
           ...priority.flatMap((p) => pools[p]),
         ];
         const cat = getEquityCategory(date, setup);
         const candidates = groups
-          .filter((f) => withinCallLimit(f, counts))
-          .filter((f) => hasSpacingOK(f, lastByFellow, date))
-          .filter((f) => okNoConsecutiveSaturday(f, date, lastSaturdayByFellow))
+          .filter((f) => withinCallLimit(f, counts, caps))
+          .filter((f) => hasSpacingOK(f, lastByFellow, date, settings))
+          .filter((f) => okNoConsecutiveSaturday(f, date, lastSaturdayByFellow, settings))
+          .filter((f) => clearOfPins(f, date))
           .sort((a, b) => {
             const ac = cat === "wkndHol" ? (wkndHolCatCounts[a.id] ?? 0) : (weekdayCatCounts[a.id] ?? 0);
             const bc = cat === "wkndHol" ? (wkndHolCatCounts[b.id] ?? 0) : (weekdayCatCounts[b.id] ?? 0);
@@ -506,6 +577,7 @@ function buildPrimaryCallSchedule(opts?: { priorPrimarySeeds?: Record<string, st
     yearStart: setup.yearStart,
     days: assignments,
     countsByFellow: counts,
+    seed,
   };
 
   return { schedule, success: uncovered.length === 0, uncovered };
@@ -585,11 +657,11 @@ function isValidEquitySwap(
   if (fellowA.pgy !== "PGY-4" || fellowB.pgy !== "PGY-4") return false;
 
   // CRITICAL: Check if Fellow A would be on vacation/excluded rotation on dateB
-  const rotationAOnDateB = getRotationOnDate(fellowA, dateB, schedByPGY, setup.yearStart);
+  const rotationAOnDateB = getRotationOnDate(fellowA, dateB, schedByPGY, setup, settings.blockCalendar);
   if (settings.primaryCall.excludeRotations.includes(rotationAOnDateB)) return false;
 
   // CRITICAL: Check if Fellow B would be on vacation/excluded rotation on dateA
-  const rotationBOnDateA = getRotationOnDate(fellowB, dateA, schedByPGY, setup.yearStart);
+  const rotationBOnDateA = getRotationOnDate(fellowB, dateA, schedByPGY, setup, settings.blockCalendar);
   if (settings.primaryCall.excludeRotations.includes(rotationBOnDateA)) return false;
 
   // Create a temporary schedule with the swap applied for validation
@@ -623,9 +695,8 @@ function isValidEquitySwap(
  */
 function detectConsecutiveSaturdayViolations(
   schedule: CallSchedule,
-  setup: SetupState
+  settings: SchedulerSettings
 ): Array<{ fellowId: string; dates: [string, string] }> {
-  const settings = loadSettings();
   if (!settings.primaryCall.noConsecutiveSaturdays) return [];
   
   const violations: Array<{ fellowId: string; dates: [string, string] }> = [];
@@ -657,9 +728,8 @@ function detectConsecutiveSaturdayViolations(
  */
 function detectSpacingViolations(
   schedule: CallSchedule,
-  setup: SetupState
+  settings: SchedulerSettings
 ): Array<{ fellowId: string; dates: [string, string]; daysBetween: number }> {
-  const settings = loadSettings();
   const minSpacing = settings.primaryCall.minSpacingDays;
   
   const violations: Array<{ fellowId: string; dates: [string, string]; daysBetween: number }> = [];
@@ -712,25 +782,21 @@ function applyEquitySwap(
  * Optimize PGY-4 weekend/holiday equity by performing rule-compliant swaps
  * OPTIMIZED: Caches all data at start and uses lightweight validation
  */
-function optimizePGY4WkndHolEquity(schedule: CallSchedule): { 
+function optimizePGY4WkndHolEquity(schedule: CallSchedule, ctx: ScheduleContext = storageContext()): { 
   schedule: CallSchedule; 
   swapsApplied: number; 
   pgy4Stats: Array<{ id: string; name: string; wkndHolCount: number }> 
 } {
   // === STEP 1: Cache all data at start ===
-  const setup = loadSetup();
+  const { setup, settings } = ctx;
   if (!setup) return { schedule, swapsApplied: 0, pgy4Stats: [] };
   
-  const settings = loadSettings();
   const minSpacingDays = settings.primaryCall.minSpacingDays;
   const noConsecutiveSaturdays = settings.primaryCall.noConsecutiveSaturdays;
+  const pinnedDays = ctx.pins.primary;
 
-  // Load block schedules for vacation checking
-  const schedByPGY: Record<PGY, StoredSchedule | null> = {
-    "PGY-4": loadSchedule("PGY-4"),
-    "PGY-5": loadSchedule("PGY-5"),
-    "PGY-6": loadSchedule("PGY-6"),
-  };
+  // Block schedules for vacation checking
+  const schedByPGY: Record<PGY, StoredSchedule | null> = { ...ctx.schedules };
 
   const pgy4Fellows = setup.fellows.filter(f => f.pgy === "PGY-4");
   const pgy4FellowIds = new Set(pgy4Fellows.map(f => f.id));
@@ -791,7 +857,7 @@ function optimizePGY4WkndHolEquity(schedule: CallSchedule): {
     }
 
     for (const [dateISO, fellowId] of Object.entries(workingSchedule.days)) {
-      if (!fellowId || !pgy4FellowIds.has(fellowId)) continue;
+      if (!fellowId || !pgy4FellowIds.has(fellowId) || pinnedDays[dateISO]) continue;
       const cat = equityCache.get(dateISO);
       if (cat === "wkndHol") {
         fellowWkndHolDates.get(fellowId)!.push(dateISO);
@@ -837,11 +903,11 @@ function optimizePGY4WkndHolEquity(schedule: CallSchedule): {
 
   // Enforce call limits after optimization to clean up any pre-existing violations
   const recalculated = recalculateCallCounts(workingSchedule);
-  const { schedule: enforcedSchedule } = enforceCallLimits(recalculated);
+  const { schedule: enforcedSchedule } = enforceCallLimits(recalculated, ctx);
 
   // Validate that no rules were violated after optimization
-  const consecutiveViolations = detectConsecutiveSaturdayViolations(enforcedSchedule, setup);
-  const spacingViolations = detectSpacingViolations(enforcedSchedule, setup);
+  const consecutiveViolations = detectConsecutiveSaturdayViolations(enforcedSchedule, settings);
+  const spacingViolations = detectSpacingViolations(enforcedSchedule, settings);
 
   // If violations exist after optimization, revert to original schedule
   if (consecutiveViolations.length > 0 || spacingViolations.length > 0) {
@@ -869,33 +935,51 @@ function optimizePGY4WkndHolEquity(schedule: CallSchedule): {
   return { schedule: enforcedSchedule, swapsApplied, pgy4Stats };
 }
 
+const CALL_SCHEDULE_SCHEMA: Schema<CallSchedule> = {
+  name: "Primary call schedule",
+  version: 1,
+  migrations: [],
+  defaults: () => ({ days: {}, countsByFellow: {} }),
+};
+
 function loadCallSchedule(): CallSchedule | null {
   try {
-    const raw = localStorage.getItem(CALL_SCHEDULE_STORAGE_KEY);
+    const raw = storage.getItem(CALL_SCHEDULE_STORAGE_KEY);
     if (!raw) return null;
-    return JSON.parse(raw) as CallSchedule;
+    return migrateStored(CALL_SCHEDULE_SCHEMA, CALL_SCHEDULE_STORAGE_KEY, JSON.parse(raw));
   } catch {
     return null;
   }
 }
 
 function saveCallSchedule(schedule: CallSchedule) {
+  recordWrite(CALL_SCHEDULE_STORAGE_KEY, "primary call");
+  try {
+    storage.setItem(CALL_SCHEDULE_STORAGE_KEY, JSON.stringify(schedule));
+  } catch {
+    // ignore
+  }
+}
+
+function clearCallSchedule() {
+  recordWrite(CALL_SCHEDULE_STORAGE_KEY, "primary call");
   try {
-    localStorage.setItem(CALL_SCHEDULE_STORAGE_KEY, JSON.stringify(schedule));
+    storage.removeItem(CALL_SCHEDULE_STORAGE_KEY);
   } catch {
     // ignore
   }
 }
 
 function saveCoverageMetadata(metadata: CallCoverageMetadata) {
+  recordWrite(CALL_COVERAGE_METADATA_KEY, null);
   try {
-    localStorage.setItem(CALL_COVERAGE_METADATA_KEY, JSON.stringify(metadata));
+    storage.setItem(CALL_COVERAGE_METADATA_KEY, JSON.stringify(metadata));
   } catch {}
 }
 
 function loadCoverageMetadata(): CallCoverageMetadata | null {
   try {
-    const raw = localStorage.getItem(CALL_COVERAGE_METADATA_KEY);
+    const raw = storage.getItem(CALL_COVERAGE_METADATA_KEY);
     if (!raw) return null;
     return JSON.parse(raw) as CallCoverageMetadata;
   } catch {
@@ -904,8 +988,9 @@ function loadCoverageMetadata(): CallCoverageMetadata | null {
 }
 
 function clearCoverageMetadata() {
+  recordWrite(CALL_COVERAGE_METADATA_KEY, null);
   try {
-    localStorage.removeItem(CALL_COVERAGE_METADATA_KEY);
+    storage.removeItem(CALL_COVERAGE_METADATA_KEY);
   } catch {}
 }
 
@@ -933,39 +1018,38 @@ function validatePrimaryAssignment(
   schedule: CallSchedule, 
   dateISO: string, 
   fellowId: string,
-  cachedSetup?: SetupState,
-  cachedSchedByPGY?: Record<PGY, StoredSchedule | null>,
-  cachedSettings?: SchedulerSettings
+  ctx: ScheduleContext = storageContext()
 ): { ok: boolean; reasons?: string[] } {
-  const setup = cachedSetup || loadSetup();
+  const { setup, settings } = ctx;
   if (!setup) return { ok: false, reasons: ["Setup not completed"] };
-  const schedByPGY = cachedSchedByPGY || {
-    "PGY-4": loadSchedule("PGY-4"),
-    "PGY-5": loadSchedule("PGY-5"),
-    "PGY-6": loadSchedule("PGY-6"),
-  };
-  const settings = cachedSettings || loadSettings();
+  const schedByPGY = ctx.schedules;
   
   const date = parseISO(dateISO);
   const fellow = setup.fellows.find((f) => f.id === fellowId);
   if (!fellow) return { ok: false, reasons: ["Unknown fellow"] };
 
-  const { pools } = eligiblePoolByPGY(date, setup, schedByPGY, settings);
+  // Soft unavailability is only avoided by the generator; a manual assignment may override it
+  const { pools } = eligiblePoolByPGY(date, setup, schedByPGY, settings, false);
   const eligibleBase = pools[fellow.pgy].some((f) => f.id === fellowId);
   const reasons: string[] = [];
-  if (!eligibleBase) reasons.push("Rotation or time-window ineligible for this date");
+  const unavailable = findUnavailability(fellow, [dateISO], false);
+  if (unavailable) reasons.push(unavailabilityReason(unavailable));
+  else if (!eligibleBase) reasons.push("Rotation or time-window ineligible for this date");
 
-  const { counts, lastByFellow, lastSaturdayByFellow } = computeStateForDate(schedule, dateISO);
+  // Include the prior year's calls so spacing is checked across the change of academic year
+  const days = { ...priorPrimaryCallDays(ctx), ...schedule.days };
+  const { counts, lastByFellow, lastSaturdayByFellow } = computeStateForDate({ ...schedule, days }, dateISO);
   
-  if (!withinCallLimit(fellow, counts, settings)) {
-    reasons.push(`Exceeds annual call cap for ${fellow.pgy} (${settings.primaryCall.maxCalls[fellow.pgy]} calls)`);
+  const caps = callCaps(setup, settings);
+  if (!withinCallLimit(fellow, counts, caps)) {
+    reasons.push(`Exceeds annual call cap for ${fellow.name || fellow.pgy} (${caps[fellow.id]} calls)`);
   }
 
   // Spacing validation
   const minSpacing = settings.primaryCall.minSpacingDays;
 
   // Enforce bidirectional spacing (both previous and next assignments for this fellow)
-  const entries = Object.entries(schedule.days)
+  const entries = Object.entries(days)
     .filter(([_, fid]) => fid === fellowId)
     .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0));
 
@@ -1029,28 +1113,22 @@ function validatePrimaryAssignment(
 function listAllPrimaryFellowsWithEligibility(
   dateISO: string, 
   schedule: CallSchedule,
-  cachedSchedules?: Record<PGY, StoredSchedule | null>
+  ctx: ScheduleContext = storageContext()
 ): {
   eligible: { id: string; name: string; pgy: PGY }[];
   ineligible: { id: string; name: string; pgy: PGY; reasons: string[] }[];
 } {
-  const setup = loadSetup();
+  // Read the context once for all validation calls
+  const cached = snapshotContext(ctx);
+  const { setup } = cached;
   if (!setup) return { eligible: [], ineligible: [] };
-  
-  // Cache settings and schedules for all validation calls
-  const settings = loadSettings();
-  const schedByPGY = cachedSchedules || {
-    "PGY-4": loadSchedule("PGY-4"),
-    "PGY-5": loadSchedule("PGY-5"),
-    "PGY-6": loadSchedule("PGY-6"),
-  };
 
   const eligible: { id: string; name: string; pgy: PGY }[] = [];
   const ineligible: { id: string; name: string; pgy: PGY; reasons: string[] }[] = [];
 
   // Single pass through all fellows with cached data
   for (const fellow of setup.fellows) {
-    const validation = validatePrimaryAssignment(schedule, dateISO, fellow.id, setup, schedByPGY, settings);
+    const validation = validatePrimaryAssignment(schedule, dateISO, fellow.id, cached);
     
     if (validation.ok) {
       eligible.push({ id: fellow.id, name: fellow.name, pgy: fellow.pgy });
@@ -1073,17 +1151,17 @@ function listAllPrimaryFellowsWithEligibility(
 function listEligiblePrimaryFellows(
   dateISO: string, 
   schedule: CallSchedule,
-  cachedSchedules?: Record<PGY, StoredSchedule | null>
+  ctx: ScheduleContext = storageContext()
 ): { id: string; name: string; pgy: PGY }[] {
-  return listAllPrimaryFellowsWithEligibility(dateISO, schedule, cachedSchedules).eligible;
+  return listAllPrimaryFellowsWithEligibility(dateISO, schedule, ctx).eligible;
 }
 
 function listIneligiblePrimaryFellows(
   dateISO: string, 
   schedule: CallSchedule,
-  cachedSchedules?: Record<PGY, StoredSchedule | null>
+  ctx: ScheduleContext = storageContext()
 ): { id: string; name: string; pgy: PGY; reasons: string[] }[] {
-  return listAllPrimaryFellowsWithEligibility(dateISO, schedule, cachedSchedules).ineligible;
+  return listAllPrimaryFellowsWithEligibility(dateISO, schedule, ctx).ineligible;
 }
 
 /**
@@ -1131,11 +1209,10 @@ function previewScheduleChange(
 function validateScheduleChange(
   schedule: CallSchedule,
   changes: Array<{ dateISO: string; fellowId: string | null }>,
-  cachedSetup?: SetupState,
-  cachedSchedByPGY?: Record<PGY, StoredSchedule | null>,
-  cachedSettings?: SchedulerSettings,
-  swapOnly?: boolean
+  swapOnly?: boolean,
+  ctx: ScheduleContext = storageContext()
 ): { ok: boolean; reasons?: string[] } {
+  const cached = snapshotContext(ctx);
   const preview = previewScheduleChange(schedule, changes);
   const reasons: string[] = [];
 
@@ -1143,7 +1220,7 @@ function validateScheduleChange(
     // For swaps: only validate the specific dates being changed
     for (const { dateISO, fellowId } of changes) {
       if (!fellowId) continue;
-      const validation = validatePrimaryAssignment(preview, dateISO, fellowId, cachedSetup, cachedSchedByPGY, cachedSettings);
+      const validation = validatePrimaryAssignment(preview, dateISO, fellowId, cached);
       if (!validation.ok && validation.reasons) {
         reasons.push(...validation.reasons.map(r => `${dateISO}: ${r}`));
       }
@@ -1162,7 +1239,7 @@ function validateScheduleChange(
         .sort();
 
       for (const dateISO of fellowAssignments) {
-        const validation = validatePrimaryAssignment(preview, dateISO, fellowId, cachedSetup, cachedSchedByPGY, cachedSettings);
+        const validation = validatePrimaryAssignment(preview, dateISO, fellowId, cached);
         if (!validation.ok && validation.reasons) {
           reasons.push(...validation.reasons.map(r => `${dateISO}: ${r}`));
         }
@@ -1176,7 +1253,8 @@ function validateScheduleChange(
 function applyManualPrimaryAssignment(
   schedule: CallSchedule,
   dateISO: string,
-  fellowId: string | null
+  fellowId: string | null,
+  ctx: ScheduleContext = storageContext()
 ): { ok: boolean; schedule?: CallSchedule; reasons?: string[] } {
   // Clearing is always allowed
   if (fellowId === null) {
@@ -1195,7 +1273,7 @@ function applyManualPrimaryAssignment(
     return { ok: true, schedule: next };
   }
 
-  const val = validatePrimaryAssignment(schedule, dateISO, fellowId);
+  const val = validatePrimaryAssignment(schedule, dateISO, fellowId, ctx);
   if (!val.ok) return { ok: false, reasons: val.reasons };
 
   const prev = schedule.days[dateISO];
@@ -1222,9 +1300,7 @@ function isValidPrimarySwap(
   schedule: CallSchedule,
   dateAISO: string,
   dateBISO: string,
-  cachedSetup?: SetupState,
-  cachedSchedByPGY?: Record<PGY, StoredSchedule | null>,
-  cachedSettings?: SchedulerSettings
+  ctx: ScheduleContext = storageContext()
 ): { ok: boolean; reasons?: string[] } {
   const fidA = schedule.days[dateAISO];
   const fidB = schedule.days[dateBISO];
@@ -1238,15 +1314,16 @@ function isValidPrimarySwap(
     { dateISO: dateBISO, fellowId: fidA }
   ];
 
-  return validateScheduleChange(schedule, changes, cachedSetup, cachedSchedByPGY, cachedSettings, true);
+  return validateScheduleChange(schedule, changes, true, ctx);
 }
 
 function applyPrimarySwap(
   schedule: CallSchedule,
   dateAISO: string,
-  dateBISO: string
+  dateBISO: string,
+  ctx: ScheduleContext = storageContext()
 ): { ok: boolean; schedule?: CallSchedule; reasons?: string[] } {
-  const val = isValidPrimarySwap(schedule, dateAISO, dateBISO);
+  const val = isValidPrimarySwap(schedule, dateAISO, dateBISO, ctx);
   if (!val.ok) return val;
   
   const fidA = schedule.days[dateAISO]!;
@@ -1275,20 +1352,16 @@ function getCallCategory(date: Date, setup: SetupState): "weekday" | "weekend" |
 function listPrimarySwapSuggestions(
   schedule: CallSchedule,
   dateISO: string,
-  limit = 10
+  limit = 10,
+  ctx: ScheduleContext = storageContext()
 ): SwapSuggestion[] {
   const fidA = schedule.days[dateISO];
   if (!fidA) return [];
   
-  // Load all data ONCE at the start for performance
-  const setup = loadSetup();
+  // Read the context ONCE at the start for performance
+  const cached = snapshotContext(ctx);
+  const { setup } = cached;
   if (!setup) return [];
-  const settings = loadSettings();
-  const schedByPGY: Record<PGY, StoredSchedule | null> = {
-    "PGY-4": loadSchedule("PGY-4"),
-    "PGY-5": loadSchedule("PGY-5"),
-    "PGY-6": loadSchedule("PGY-6"),
-  };
   
   const dateA = parseISO(dateISO);
   const categoryA = getCallCategory(dateA, setup);
@@ -1320,7 +1393,7 @@ function listPrimarySwapSuggestions(
   // Now validate only the filtered candidates
   const res: SwapSuggestion[] = [];
   for (const { isoB, fidB, dateB } of candidateDates) {
-    const check = isValidPrimarySwap(schedule, dateISO, isoB, setup, schedByPGY, settings);
+    const check = isValidPrimarySwap(schedule, dateISO, isoB, cached);
     if (!check.ok) continue;
 
     // Score: prioritize same-PGY swaps, then by proximity
@@ -1342,7 +1415,8 @@ function listPrimarySwapSuggestions(
 function applyDragAndDrop(
   schedule: CallSchedule,
   sourceISO: string,
-  targetISO: string
+  targetISO: string,
+  ctx: ScheduleContext = storageContext()
 ): { success: boolean; schedule?: CallSchedule; error?: string } {
   const sourceFellowId = schedule.days[sourceISO];
   const targetFellowId = schedule.days[targetISO];
@@ -1358,7 +1432,7 @@ function applyDragAndDrop(
       { dateISO: targetISO, fellowId: sourceFellowId }
     ];
 
-    const validation = validateScheduleChange(schedule, changes);
+    const validation = validateScheduleChange(schedule, changes, false, ctx);
     if (!validation.ok) {
       return { success: false, error: validation.reasons?.join(", ") || "Move failed validation" };
     }
@@ -1367,7 +1441,7 @@ function applyDragAndDrop(
     return { success: true, schedule: finalSchedule };
   } else {
     // Swap operation
-    const swapResult = applyPrimarySwap(schedule, sourceISO, targetISO);
+    const swapResult = applyPrimarySwap(schedule, sourceISO, targetISO, ctx);
     if (!swapResult.ok) {
       return { success: false, error: swapResult.reasons?.join(", ") || "Swap failed" };
     }
@@ -1378,7 +1452,7 @@ function applyDragAndDrop(
 /**
  * Audit the call schedule to detect discrepancies and limit violations
  */
-function auditCallSchedule(schedule: CallSchedule | null): {
+function auditCallSchedule(schedule: CallSchedule | null, ctx: ScheduleContext = storageContext()): {
   fellows: Array<{
     id: string;
     name: string;
@@ -1392,8 +1466,7 @@ function auditCallSchedule(schedule: CallSchedule | null): {
   totalDiscrepancies: number;
   totalViolations: number;
 } {
-  const setup = loadSetup();
-  const settings = loadSettings();
+  const { setup, settings } = ctx;
   
   if (!schedule || !setup) {
     return { fellows: [], totalDiscrepancies: 0, totalViolations: 0 };
@@ -1408,10 +1481,11 @@ function auditCallSchedule(schedule: CallSchedule | null): {
   }
 
   // Build audit report for each fellow
+  const caps = callCaps(setup, settings);
   const fellows = setup.fellows.map((fellow) => {
     const actualCalls = actualCounts[fellow.id] ?? 0;
     const recordedCalls = schedule.countsByFellow[fellow.id] ?? 0;
-    const maxCalls = settings.primaryCall.maxCalls[fellow.pgy];
+    const maxCalls = caps[fellow.id];
     const discrepancy = actualCalls - recordedCalls;
     const exceedsLimit = actualCalls > maxCalls;
 
@@ -1455,18 +1529,18 @@ function recalculateCallCounts(schedule: CallSchedule): CallSchedule {
  * Enforce call limits by removing assignments that exceed maximums
  * Returns a fixed schedule and list of changes made
  */
-function enforceCallLimits(schedule: CallSchedule): {
+function enforceCallLimits(schedule: CallSchedule, ctx: ScheduleContext = storageContext()): {
   schedule: CallSchedule;
   removedAssignments: Array<{ dateISO: string; fellowId: string; reason: string }>;
 } {
-  const setup = loadSetup();
-  const settings = loadSettings();
+  const { setup, settings } = ctx;
   
   if (!setup) {
     return { schedule, removedAssignments: [] };
   }
 
-  const audit = auditCallSchedule(schedule);
+  const audit = auditCallSchedule(schedule, ctx);
+  const pinnedDays = ctx.pins.primary;
   const removedAssignments: Array<{ dateISO: string; fellowId: string; reason: string }> = [];
   
   // If no violations, return as-is
@@ -1489,9 +1563,9 @@ function enforceCallLimits(schedule: CallSchedule): {
 
     const excess = fellowAudit.actualCalls - fellowAudit.maxCalls;
     
-    // Find all assignments for this fellow, sorted by date (most recent first)
+    // Find all assignments for this fellow, sorted by date (most recent first); pinned days stay
     const assignments = Object.entries(fixedSchedule.days)
-      .filter(([_, fid]) => fid === fellowAudit.id)
+      .filter(([dateISO, fid]) => fid === fellowAudit.id && pinnedDays[dateISO] !== fid)
       .sort((a, b) => b[0].localeCompare(a[0])); // Reverse chronological
 
     // Remove the most recent excess assignments
@@ -1520,6 +1594,7 @@ function enforceCallLimits(schedule: CallSchedule): {
 
 export {
   type CallSchedule,
+  CALL_SCHEDULE_SCHEMA,
   type CallCoverageMetadata,
   type BuildCallResult,
   type SwapSuggestion,
@@ -1527,6 +1602,7 @@ export {
   buildPrimaryCallSchedule,
   loadCallSchedule,
   saveCallSchedule,
+  clearCallSchedule,
   saveCoverageMetadata,
   loadCoverageMetadata,
   clearCoverageMetadata,
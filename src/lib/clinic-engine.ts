@@ -1,9 +1,16 @@
-import { format, parseISO, addDays, isAfter, isBefore, isEqual } from "date-fns";
+import { format, parseISO, addDays, isBefore, isEqual } from "date-fns";
 import { computeAcademicYearHolidays } from "@/lib/holidays";
-import { loadSchedule, loadSetup, type Fellow, type PGY, type SetupState } from "@/lib/schedule-engine";
+import { academicYearWindow, blockKeyForDate, type BlockCalendar } from "@/lib/block-utils";
+import { type Fellow, type PGY, type SetupState } from "@/lib/schedule-engine";
 import { type Rotation, getPrimaryRotation } from "@/lib/rotation-engine";
 import type { CallSchedule } from "@/lib/call-engine";
-import { loadSettings } from "@/lib/settings-engine";
+import { storageContext, type ScheduleContext } from "@/lib/schedule-context";
+import { reportProgress } from "@/lib/engine-progress";
+import { findUnavailability, unavailabilityReason } from "@/lib/unavailability";
+import { fixedAssignments, inRange, type RegenerationRange } from "@/lib/regeneration-range";
+import { recordWrite } from "@/lib/history-engine";
+import { storage } from "@/lib/storage-engine";
+import { migrateStored, type Schema } from "@/lib/migration-engine";
 
 export type ClinicType = "GENERAL" | "HEART_FAILURE" | "ACHD" | "DEVICE" | "EP";
 
@@ -36,58 +43,28 @@ function toISODate(d: Date): string {
   return format(d, "yyyy-MM-dd");
 }
 
-function july1ToJune30Window(yearStartISO: string): { start: Date; end: Date; days: Date[] } {
-  const start = parseISO(yearStartISO);
-  const end = addDays(new Date(start.getFullYear() + 1, 5, 30), 0); // June 30 of next year
-  const days: Date[] = [];
-  let cur = start;
-  while (!isAfter(cur, end)) {
-    days.push(cur);
-    cur = addDays(cur, 1);
-  }
-  return { start, end, days };
-}
-
 function isHoliday(dateISO: string, setup: SetupState): boolean {
-  const holidays = setup.holidays?.length ? setup.holidays : computeAcademicYearHolidays(setup.yearStart);
+  const holidays = setup.holidays?.length ? setup.holidays : computeAcademicYearHolidays(setup.yearStart, setup.yearEnd);
   return holidays.some((h) => h.date === dateISO);
 }
 
-function dateToBlockKey(dateISO: string, yearStartISO: string): string | undefined {
-  const date = parseISO(dateISO);
-  const yearStart = parseISO(yearStartISO);
-  
-  if (isBefore(date, yearStart)) return undefined;
-  
-  // Check if date is beyond the academic year (after June 30 of next year)
-  const yearEnd = new Date(yearStart.getFullYear() + 1, 5, 30); // June 30 of next year
-  if (isAfter(date, yearEnd)) return undefined;
-  
-  const dayOfMonth = date.getDate();
-  const monthIndex = (date.getMonth() - yearStart.getMonth() + 12) % 12;
-  
-  const monthNames = ["JUL", "AUG", "SEP", "OCT", "NOV", "DEC", "JAN", "FEB", "MAR", "APR", "MAY", "JUN"];
-  const monthAbbr = monthNames[monthIndex];
-  
-  // First half (1-15) or second half (16-end)
-  const half = dayOfMonth <= 15 ? "1" : "2";
-  
-  return `${monthAbbr}${half}`;
-}
-
-export function getFellowRotationOnDate(fellowId: string, dateISO: string): Rotation | undefined {
+export function getFellowRotationOnDate(
+  fellowId: string,
+  dateISO: string,
+  ctx: ScheduleContext = storageContext()
+): Rotation | undefined {
   // Get setup to determine year start
-  const setup = loadSetup();
+  const setup = ctx.setup;
   if (!setup) return undefined;
   
   // Convert date to block key
-  const blockKey = dateToBlockKey(dateISO, setup.yearStart);
+  const blockKey = blockKeyForDate(dateISO, setup.yearStart, ctx.settings.blockCalendar, setup.yearEnd);
   if (!blockKey) return undefined;
   
   // Get the fellow's rotation schedule for the date
-  const pgy4Schedule = loadSchedule("PGY-4");
-  const pgy5Schedule = loadSchedule("PGY-5");
-  const pgy6Schedule = loadSchedule("PGY-6");
+  const pgy4Schedule = ctx.schedules["PGY-4"];
+  const pgy5Schedule = ctx.schedules["PGY-5"];
+  const pgy6Schedule = ctx.schedules["PGY-6"];
   
   // Find which schedule contains this fellow
   const fellowRotations = 
@@ -119,13 +96,18 @@ function isExcludedFromSpecialClinic(
   dateISO: string,
   rotation: Rotation | undefined,
   callSchedule: CallSchedule | null,
-  setup: SetupState
+  setup: SetupState,
+  excludeRotations: string[],
+  includeSoftUnavailability = true
 ): boolean {
   // Rule: No clinics on holidays
   if (isHoliday(dateISO, setup)) return true;
+
+  // Rule: Exclude during conferences, leave and interviews (manual edits may override soft entries)
+  if (findUnavailability(fellow, [dateISO], includeSoftUnavailability)) return true;
   
-  // Rule: Exclude if on vacation
-  if (rotation === "VAC") return true;
+  // Rule: Exclude if on a rotation excluded from special clinics (vacation by default)
+  if (rotation && excludeRotations.includes(rotation)) return true;
   
   // Rule: Exclude if post-call (day after primary call)
   if (isPostCallDay(fellow.id, dateISO, callSchedule)) return true;
@@ -139,19 +121,18 @@ function isExcludedFromGeneralClinic(
   dateISO: string,
   rotation: Rotation | undefined,
   callSchedule: CallSchedule | null,
-  setup: SetupState
+  setup: SetupState,
+  excludeRotations: string[],
+  includeSoftUnavailability = true
 ): boolean {
   // Rule: No clinics on holidays
   if (isHoliday(dateISO, setup)) return true;
+
+  // Rule: Exclude during conferences, leave and interviews (manual edits may override soft entries)
+  if (findUnavailability(fellow, [dateISO], includeSoftUnavailability)) return true;
   
-  // Rule: Exclude if on vacation
-  if (rotation === "VAC") return true;
-  
-  // Rule: Exclude if on CCU rotation
-  if (rotation === "CCU") return true;
-  
-  // Rule: Exclude if on HF rotation  
-  if (rotation === "HF") return true;
+  // Rule: Exclude if on a rotation excluded from general clinic (vacation, CCU and HF by default)
+  if (rotation && excludeRotations.includes(rotation)) return true;
   
   // Rule: Exclude if post-call (day after primary call)
   if (isPostCallDay(fellow.id, dateISO, callSchedule)) return true;
@@ -247,15 +228,17 @@ function selectBestCandidateForSpecialtyClinic(
 
 export function buildClinicSchedule(
   callSchedule: CallSchedule | null,
-  setup: SetupState | null
+  setup: SetupState | null,
+  // With a range, only days inside it are (re)assigned and the rest of the current schedule is kept
+  options: { range?: RegenerationRange } = {},
+  ctx: ScheduleContext = storageContext()
 ): ClinicSchedule | null {
   if (!setup) return null;
   
-  // Load settings
-  const settings = loadSettings();
+  const settings = ctx.settings;
   const clinicSettings = settings.clinics;
   
-  const { days } = july1ToJune30Window(setup.yearStart);
+  const { days } = academicYearWindow(setup.yearStart, setup.yearEnd);
   const schedule: ClinicSchedule = {
     version: 1,
     yearStart: setup.yearStart,
@@ -276,14 +259,28 @@ export function buildClinicSchedule(
     };
     schedule.ambulatoryCountsByFellow![fellow.id] = 0;
   }
+
+  // Pinned clinics, and in a range run every clinic outside the range, are laid down first so counts
+  // and the same-week rule already see them
+  const { range } = options;
+  const pinned: Record<string, ClinicAssignment[]> = {};
+  for (const [dateISO, pins] of Object.entries(fixedAssignments(ctx, range).clinics)) {
+    const kept = pins.filter((a) => schedule.countsByFellow[a.fellowId]);
+    if (kept.length === 0 || !blockKeyForDate(dateISO, setup.yearStart, ctx.settings.blockCalendar, setup.yearEnd)) continue;
+    pinned[dateISO] = kept;
+    schedule.days[dateISO] = [...kept];
+    for (const a of kept) schedule.countsByFellow[a.fellowId][a.clinicType]++;
+  }
   
-  for (const date of days) {
+  for (const [i, date] of days.entries()) {
+    reportProgress("Assigning clinics", i + 1, days.length);
     const dateISO = toISODate(date);
     const dayOfWeek = date.getDay(); // 0=Sunday, 1=Monday, etc.
-    const assignments: ClinicAssignment[] = [];
+    const pinnedToday = pinned[dateISO] ?? [];
+    const assignments: ClinicAssignment[] = [...pinnedToday];
     
-    // Skip holidays - no clinics
-    if (isHoliday(dateISO, setup)) {
+    // Skip holidays - no clinics - and days a range run keeps as they are
+    if (isHoliday(dateISO, setup) || !inRange(dateISO, range)) {
       schedule.days[dateISO] = assignments;
       continue;
     }
@@ -292,7 +289,9 @@ export function buildClinicSchedule(
     const dayNames = ["Sunday", "Monday", "Tuesday", "Wednesday", "Thursday", "Friday", "Saturday"];
     
     // Track which fellows have been assigned a specialty clinic today
-    const fellowsWithSpecialtyClinicToday = new Set<string>();
+    const fellowsWithSpecialtyClinicToday = new Set<string>(
+      pinnedToday.filter((a) => a.clinicType !== "GENERAL").map((a) => a.fellowId)
+    );
     
     // ==================== PASS 1: SPECIALTY CLINIC ASSIGNMENTS ====================
     
@@ -310,17 +309,20 @@ export function buildClinicSchedule(
       if (dayOfWeek !== clinicConfig.dayOfWeek || !clinicConfig.weekOfMonth.includes(effectiveWeekOfMonth)) {
         return;
       }
+
+      // Already covered by a pin
+      if (pinnedToday.some((a) => a.clinicType === clinicType)) return;
       
       // Find all eligible fellows
       const eligibleFellows = setup.fellows.filter(fellow => {
-        const rotation = getFellowRotationOnDate(fellow.id, dateISO);
+        const rotation = getFellowRotationOnDate(fellow.id, dateISO, ctx);
         const primaryRotation = rotation ? getPrimaryRotation(rotation) : undefined;
         
         // Check all eligibility criteria
         return (
           clinicConfig.eligibleRotations.includes(primaryRotation || "") &&
           clinicConfig.eligiblePGYs.includes(fellow.pgy) &&
-          !isExcludedFromSpecialClinic(fellow, dateISO, rotation, callSchedule, setup) &&
+          !isExcludedFromSpecialClinic(fellow, dateISO, rotation, callSchedule, setup, clinicSettings.excludeRotations.special) &&
           !fellowsWithSpecialtyClinicToday.has(fellow.id) // Not already assigned today
         );
       });
@@ -357,15 +359,15 @@ export function buildClinicSchedule(
     // Only assign general clinics on configured general clinic days
     if (clinicSettings.generalClinicDays.includes(dayOfWeek)) {
       for (const fellow of setup.fellows) {
-        // Skip if already assigned a specialty clinic today
-        if (fellowsWithSpecialtyClinicToday.has(fellow.id)) {
+        // Skip if already assigned a specialty clinic today, or pinned to a clinic
+        if (fellowsWithSpecialtyClinicToday.has(fellow.id) || pinnedToday.some((a) => a.fellowId === fellow.id)) {
           continue;
         }
         
-        const rotation = getFellowRotationOnDate(fellow.id, dateISO);
+        const rotation = getFellowRotationOnDate(fellow.id, dateISO, ctx);
         
         // Check general exclusion conditions
-        if (isExcludedFromGeneralClinic(fellow, dateISO, rotation, callSchedule, setup)) {
+        if (isExcludedFromGeneralClinic(fellow, dateISO, rotation, callSchedule, setup, clinicSettings.excludeRotations.general)) {
           continue;
         }
         
@@ -393,19 +395,14 @@ export function buildClinicSchedule(
   }
   
   // Assign Ambulatory Fellows after all clinic assignments are done
-  assignAmbulatoryFellows(schedule, setup);
+  assignAmbulatoryFellows(schedule, setup, ctx, range);
   
   return schedule;
 }
 
-// Helper to get the 2-week block key for a date
-export function getBlockKeyForDate(dateISO: string, yearStartISO: string): string | undefined {
-  return dateToBlockKey(dateISO, yearStartISO);
-}
-
 // Assign Ambulatory Fellows according to the rules
-function assignAmbulatoryFellows(schedule: ClinicSchedule, setup: SetupState): void {
-  const { days } = july1ToJune30Window(setup.yearStart);
+function assignAmbulatoryFellows(schedule: ClinicSchedule, setup: SetupState, ctx: ScheduleContext, range?: RegenerationRange): void {
+  const { days } = academicYearWindow(setup.yearStart, setup.yearEnd);
   
   // Priority order for rotations
   const rotationPriority: Array<Rotation | string> = ['NUCLEAR', 'NONINVASIVE', 'ELECTIVE', 'EP'];
@@ -417,7 +414,7 @@ function assignAmbulatoryFellows(schedule: ClinicSchedule, setup: SetupState): v
   
   for (const date of days) {
     const dateISO = toISODate(date);
-    const blockKey = getBlockKeyForDate(dateISO, setup.yearStart);
+    const blockKey = blockKeyForDate(dateISO, setup.yearStart, ctx.settings.blockCalendar, setup.yearEnd);
     
     // Check if we're starting a new 2-week block
     if (blockKey !== currentBlockKey) {
@@ -426,10 +423,15 @@ function assignAmbulatoryFellows(schedule: ClinicSchedule, setup: SetupState): v
       
       // Try to assign an ambulatory fellow for this block
       let assignedFellow: string | null = null;
+
+      // A block starting outside the range of a range run keeps the fellow it had
+      const kept = !inRange(dateISO, range);
+      const keptFellow = kept ? ctx.clinicSchedule?.ambulatoryAssignments?.[dateISO] : undefined;
+      if (keptFellow && schedule.ambulatoryCountsByFellow?.[keptFellow] !== undefined) assignedFellow = keptFellow;
       
       // Try each rotation in priority order
       for (const targetRotation of rotationPriority) {
-        if (assignedFellow) break;
+        if (assignedFellow || kept) break;
         
         // Find PGY-5 or PGY-6 fellows on this rotation during this block
         const eligibleFellows = setup.fellows.filter(fellow => {
@@ -443,7 +445,7 @@ function assignAmbulatoryFellows(schedule: ClinicSchedule, setup: SetupState): v
           if (fellow.id === previousBlockFellow) return false;
           
           // Check if fellow is on the target rotation during this block
-          const rotation = getFellowRotationOnDate(fellow.id, dateISO);
+          const rotation = getFellowRotationOnDate(fellow.id, dateISO, ctx);
           const primaryRotation = rotation ? getPrimaryRotation(rotation) : undefined;
           
           return primaryRotation === targetRotation;
@@ -468,7 +470,7 @@ function assignAmbulatoryFellows(schedule: ClinicSchedule, setup: SetupState): v
         // Assign to all days in this block
         for (const blockDate of days) {
           const blockDateISO = toISODate(blockDate);
-          const blockDateKey = getBlockKeyForDate(blockDateISO, setup.yearStart);
+          const blockDateKey = blockKeyForDate(blockDateISO, setup.yearStart, ctx.settings.blockCalendar, setup.yearEnd);
           
           if (blockDateKey === blockKey && schedule.ambulatoryAssignments) {
             schedule.ambulatoryAssignments[blockDateISO] = assignedFellow;
@@ -482,27 +484,36 @@ function assignAmbulatoryFellows(schedule: ClinicSchedule, setup: SetupState): v
   }
 }
 
+export const CLINIC_SCHEDULE_SCHEMA: Schema<ClinicSchedule> = {
+  name: "Clinic schedule",
+  version: 1,
+  migrations: [],
+  defaults: () => ({ days: {}, countsByFellow: {} }),
+};
+
 export function loadClinicSchedule(): ClinicSchedule | null {
   try {
-    const raw = localStorage.getItem(CLINIC_SCHEDULE_STORAGE_KEY);
+    const raw = storage.getItem(CLINIC_SCHEDULE_STORAGE_KEY);
     if (!raw) return null;
-    return JSON.parse(raw) as ClinicSchedule;
+    return migrateStored(CLINIC_SCHEDULE_SCHEMA, CLINIC_SCHEDULE_STORAGE_KEY, JSON.parse(raw));
   } catch {
     return null;
   }
 }
 
 export function saveClinicSchedule(schedule: ClinicSchedule): void {
+  recordWrite(CLINIC_SCHEDULE_STORAGE_KEY, "clinics");
   try {
-    localStorage.setItem(CLINIC_SCHEDULE_STORAGE_KEY, JSON.stringify(schedule));
+    storage.setItem(CLINIC_SCHEDULE_STORAGE_KEY, JSON.stringify(schedule));
   } catch {
     // ignore storage errors
   }
 }
 
 export function clearClinicSchedule(): void {
+  recordWrite(CLINIC_SCHEDULE_STORAGE_KEY, "clinics");
   try {
-    localStorage.removeItem(CLINIC_SCHEDULE_STORAGE_KEY);
+    storage.removeItem(CLINIC_SCHEDULE_STORAGE_KEY);
   } catch {
     // ignore storage errors
   }
@@ -632,9 +643,10 @@ export function getEligibleFellowsForClinic(
   clinicType: ClinicType,
   schedule: ClinicSchedule,
   callSchedule: CallSchedule | null,
-  setup: SetupState
+  setup: SetupState,
+  ctx: ScheduleContext = storageContext()
 ): Fellow[] {
-  const settings = loadSettings();
+  const settings = ctx.settings;
   const clinicSettings = settings?.clinics;
   if (!clinicSettings) return [];
   
@@ -644,7 +656,7 @@ export function getEligibleFellowsForClinic(
   if (isHoliday(dateISO, setup)) return [];
   
   const eligible = setup.fellows.filter(fellow => {
-    const rotation = getFellowRotationOnDate(fellow.id, dateISO);
+    const rotation = getFellowRotationOnDate(fellow.id, dateISO, ctx);
     const primaryRotation = rotation ? getPrimaryRotation(rotation) : undefined;
     
     // Check for specialty clinic eligibility
@@ -668,12 +680,12 @@ export function getEligibleFellowsForClinic(
       if (!config.eligiblePGYs.includes(fellow.pgy)) return false;
       
       // Check exclusions for specialty clinics
-      if (isExcludedFromSpecialClinic(fellow, dateISO, rotation, callSchedule, setup)) {
+      if (isExcludedFromSpecialClinic(fellow, dateISO, rotation, callSchedule, setup, clinicSettings.excludeRotations.special, false)) {
         return false;
       }
     } else {
       // General clinic eligibility
-      if (isExcludedFromGeneralClinic(fellow, dateISO, rotation, callSchedule, setup)) {
+      if (isExcludedFromGeneralClinic(fellow, dateISO, rotation, callSchedule, setup, clinicSettings.excludeRotations.general, false)) {
         return false;
       }
     }
@@ -701,9 +713,10 @@ export function getIneligibleClinicReasons(
   clinicType: ClinicType,
   schedule: ClinicSchedule,
   callSchedule: CallSchedule | null,
-  setup: SetupState
+  setup: SetupState,
+  ctx: ScheduleContext = storageContext()
 ): Array<{ fellow: Fellow; reasons: string[] }> {
-  const settings = loadSettings();
+  const settings = ctx.settings;
   const clinicSettings = settings?.clinics;
   if (!clinicSettings) return [];
   
@@ -713,7 +726,7 @@ export function getIneligibleClinicReasons(
   const ineligible: Array<{ fellow: Fellow; reasons: string[] }> = [];
   
   for (const fellow of setup.fellows) {
-    const rotation = getFellowRotationOnDate(fellow.id, dateISO);
+    const rotation = getFellowRotationOnDate(fellow.id, dateISO, ctx);
     const primaryRotation = rotation ? getPrimaryRotation(rotation) : undefined;
     const reasons: string[] = [];
     
@@ -730,6 +743,12 @@ export function getIneligibleClinicReasons(
       reasons.push('On vacation');
       isEligible = false;
     }
+
+    const unavailable = findUnavailability(fellow, [dateISO], false);
+    if (unavailable) {
+      reasons.push(unavailabilityReason(unavailable));
+      isEligible = false;
+    }
     
     // Check specialty clinic specific criteria
     if (clinicType !== 'GENERAL') {
@@ -766,13 +785,13 @@ export function getIneligibleClinicReasons(
       }
     } else {
       // General clinic specific checks
-      if (isExcludedFromGeneralClinic(fellow, dateISO, rotation, callSchedule, setup)) {
+      if (isExcludedFromGeneralClinic(fellow, dateISO, rotation, callSchedule, setup, clinicSettings.excludeRotations.general, false)) {
         // Add specific reasons
         if (isPostCallDay(fellow.id, dateISO, callSchedule)) {
           reasons.push('Post-call');
         }
-        if (!primaryRotation || ['VACATION', 'RESEARCH', 'ELECTIVE'].includes(primaryRotation)) {
-          reasons.push(`On ${primaryRotation || 'unknown rotation'}`);
+        if (rotation && rotation !== 'VAC' && clinicSettings.excludeRotations.general.includes(rotation)) {
+          reasons.push(`On ${rotation}`);
         }
         isEligible = false;
       }
@@ -820,7 +839,8 @@ export function getClinicNotesForDate(
   fellows: Array<{ id: string; name: string; pgy: string; preferredClinicDay: string }>,
   callSchedule: CallSchedule | null,
   clinicSchedule: ClinicSchedule | null,
-  setup: SetupState | null
+  setup: SetupState | null,
+  ctx: ScheduleContext = storageContext()
 ): ClinicNote[] {
   if (!setup || !fellows.length || !clinicSchedule) return [];
 
@@ -835,7 +855,7 @@ export function getClinicNotesForDate(
   const fellowsWithClinics = new Set(clinicAssignments.map(a => a.fellowId));
 
   for (const fellow of fellows) {
-    const fellowRotation = getFellowRotationOnDate(fellow.id, dateISO);
+    const fellowRotation = getFellowRotationOnDate(fellow.id, dateISO, ctx);
     
     // Check if fellow should have general clinic on this day
     const shouldHaveGeneralClinic = fellow.preferredClinicDay === currentDay && 
@@ -907,9 +927,9 @@ export interface ClinicCoverageGap {
 }
 
 // Helper function to check if any fellow is on EP rotation for a given date
-function anyFellowOnEPRotation(dateISO: string, setup: SetupState): boolean {
+function anyFellowOnEPRotation(dateISO: string, setup: SetupState, ctx: ScheduleContext): boolean {
   for (const fellow of setup.fellows) {
-    const rotation = getFellowRotationOnDate(fellow.id, dateISO);
+    const rotation = getFellowRotationOnDate(fellow.id, dateISO, ctx);
     if (rotation && getPrimaryRotation(rotation) === "EP") {
       return true;
     }
@@ -919,18 +939,18 @@ function anyFellowOnEPRotation(dateISO: string, setup: SetupState): boolean {
 
 export function checkSpecialtyClinicCoverage(
   clinicSchedule: ClinicSchedule | null,
-  setup: SetupState | null
+  setup: SetupState | null,
+  ctx: ScheduleContext = storageContext()
 ): { success: boolean; gaps: ClinicCoverageGap[] } {
   if (!clinicSchedule || !setup) {
     return { success: false, gaps: [] };
   }
 
-  const { days } = july1ToJune30Window(setup.yearStart);
+  const { days } = academicYearWindow(setup.yearStart, setup.yearEnd);
   const gaps: ClinicCoverageGap[] = [];
   const dayNames = ["Sunday", "Monday", "Tuesday", "Wednesday", "Thursday", "Friday", "Saturday"];
 
-  // Load settings for all specialty clinics
-  const settings = loadSettings();
+  const settings = ctx.settings;
   const achdClinic = settings.clinics.specialClinics.achd;
   const hfClinic = settings.clinics.specialClinics.heartFailure;
   const deviceClinic = settings.clinics.specialClinics.device;
@@ -945,7 +965,7 @@ export function checkSpecialtyClinicCoverage(
     const dayName = dayNames[dayOfWeek];
     
     // Track ambulatory fellow assignments by block
-    const blockKey = getBlockKeyForDate(dateISO, setup.yearStart);
+    const blockKey = blockKeyForDate(dateISO, setup.yearStart, ctx.settings.blockCalendar, setup.yearEnd);
     if (blockKey && clinicSchedule.ambulatoryAssignments?.[dateISO]) {
       blocksWithAmbulatoryFellow.add(blockKey);
     }
@@ -1000,7 +1020,7 @@ export function checkSpecialtyClinicCoverage(
       : weekOfMonth;
     
     if (dayOfWeek === deviceClinic.dayOfWeek && deviceClinic.weekOfMonth.includes(effectiveWeekOfMonthDevice)) {
-      const hasEPFellow = anyFellowOnEPRotation(dateISO, setup);
+      const hasEPFellow = anyFellowOnEPRotation(dateISO, setup, ctx);
       if (hasEPFellow) {
         const deviceCount = assignments.filter(a => a.clinicType === "DEVICE").length;
         if (deviceCount === 0) {
@@ -1021,7 +1041,7 @@ export function checkSpecialtyClinicCoverage(
       : weekOfMonth;
     
     if (dayOfWeek === epClinic.dayOfWeek && epClinic.weekOfMonth.includes(effectiveWeekOfMonthEP)) {
-      const hasEPFellow = anyFellowOnEPRotation(dateISO, setup);
+      const hasEPFellow = anyFellowOnEPRotation(dateISO, setup, ctx);
       if (hasEPFellow) {
         const epCount = assignments.filter(a => a.clinicType === "EP").length;
         if (epCount === 0) {
@@ -1042,7 +1062,7 @@ export function checkSpecialtyClinicCoverage(
   const allBlockKeys = new Set<string>();
   for (const date of days) {
     const dateISO = toISODate(date);
-    const blockKey = getBlockKeyForDate(dateISO, setup.yearStart);
+    const blockKey = blockKeyForDate(dateISO, setup.yearStart, ctx.settings.blockCalendar, setup.yearEnd);
     if (blockKey) {
       allBlockKeys.add(blockKey);
     }
@@ -1054,7 +1074,7 @@ export function checkSpecialtyClinicCoverage(
       // Find the first date in this block to report the gap
       const firstDateInBlock = days.find(date => {
         const dateISO = toISODate(date);
-        return getBlockKeyForDate(dateISO, setup.yearStart) === blockKey;
+        return blockKeyForDate(dateISO, setup.yearStart, ctx.settings.blockCalendar, setup.yearEnd) === blockKey;
       });
       
       if (firstDateInBlock) {
@@ -1080,21 +1100,26 @@ export function checkSpecialtyClinicCoverage(
 }
 
 // Get eligible ambulatory fellows for a specific block
-export function getEligibleAmbulatoryFellows(blockKey: string, schedule: ClinicSchedule, setup: SetupState): Fellow[] {
+export function getEligibleAmbulatoryFellows(
+  blockKey: string,
+  schedule: ClinicSchedule,
+  setup: SetupState,
+  ctx: ScheduleContext = storageContext()
+): Fellow[] {
   const rotationPriority: Array<string> = ['NUCLEAR', 'NONINVASIVE', 'ELECTIVE', 'EP'];
   
   // Find the first date in this block to check rotations
-  const { days } = july1ToJune30Window(setup.yearStart);
+  const { days } = academicYearWindow(setup.yearStart, setup.yearEnd);
   const firstDateInBlock = days.find(date => {
     const dateISO = toISODate(date);
-    return getBlockKeyForDate(dateISO, setup.yearStart) === blockKey;
+    return blockKeyForDate(dateISO, setup.yearStart, ctx.settings.blockCalendar, setup.yearEnd) === blockKey;
   });
   
   if (!firstDateInBlock) return [];
   const dateISO = toISODate(firstDateInBlock);
   
   // Get the fellow assigned to the previous block (to prevent consecutive assignments)
-  const prevBlockFellow = getPreviousBlockFellow(blockKey, schedule, setup);
+  const prevBlockFellow = getPreviousBlockFellow(blockKey, schedule, setup, ctx.settings.blockCalendar);
   
   const eligible: Fellow[] = [];
   
@@ -1110,7 +1135,7 @@ export function getEligibleAmbulatoryFellows(blockKey: string, schedule: ClinicS
       if (fellow.id === prevBlockFellow) return false;
       
       // Check if fellow is on the target rotation during this block
-      const rotation = getFellowRotationOnDate(fellow.id, dateISO);
+      const rotation = getFellowRotationOnDate(fellow.id, dateISO, ctx);
       const primaryRotation = rotation ? getPrimaryRotation(rotation) : undefined;
       
       return primaryRotation === targetRotation;
@@ -1130,18 +1155,23 @@ export function getEligibleAmbulatoryFellows(blockKey: string, schedule: ClinicS
 }
 
 // Get ineligible ambulatory fellows with reasons
-export function getIneligibleAmbulatoryReasons(blockKey: string, schedule: ClinicSchedule, setup: SetupState): Array<{ fellow: Fellow; reasons: string[] }> {
-  const { days } = july1ToJune30Window(setup.yearStart);
+export function getIneligibleAmbulatoryReasons(
+  blockKey: string,
+  schedule: ClinicSchedule,
+  setup: SetupState,
+  ctx: ScheduleContext = storageContext()
+): Array<{ fellow: Fellow; reasons: string[] }> {
+  const { days } = academicYearWindow(setup.yearStart, setup.yearEnd);
   const firstDateInBlock = days.find(date => {
     const dateISO = toISODate(date);
-    return getBlockKeyForDate(dateISO, setup.yearStart) === blockKey;
+    return blockKeyForDate(dateISO, setup.yearStart, ctx.settings.blockCalendar, setup.yearEnd) === blockKey;
   });
   
   if (!firstDateInBlock) return [];
   const dateISO = toISODate(firstDateInBlock);
   
-  const prevBlockFellow = getPreviousBlockFellow(blockKey, schedule, setup);
-  const eligibleIds = new Set(getEligibleAmbulatoryFellows(blockKey, schedule, setup).map(f => f.id));
+  const prevBlockFellow = getPreviousBlockFellow(blockKey, schedule, setup, ctx.settings.blockCalendar);
+  const eligibleIds = new Set(getEligibleAmbulatoryFellows(blockKey, schedule, setup, ctx).map(f => f.id));
   
   const ineligible: Array<{ fellow: Fellow; reasons: string[] }> = [];
   
@@ -1167,7 +1197,7 @@ export function getIneligibleAmbulatoryReasons(blockKey: string, schedule: Clini
     }
     
     // Check rotation
-    const rotation = getFellowRotationOnDate(fellow.id, dateISO);
+    const rotation = getFellowRotationOnDate(fellow.id, dateISO, ctx);
     const primaryRotation = rotation ? getPrimaryRotation(rotation) : undefined;
     const eligibleRotations = ['NUCLEAR', 'NONINVASIVE', 'ELECTIVE', 'EP'];
     if (primaryRotation && !eligibleRotations.includes(primaryRotation)) {
@@ -1189,7 +1219,8 @@ export function applyAmbulatoryAssignment(
   schedule: ClinicSchedule, 
   blockKey: string, 
   fellowId: string | null, 
-  setup: SetupState
+  setup: SetupState,
+  ctx: ScheduleContext = storageContext()
 ): { success: boolean; schedule?: ClinicSchedule; error?: string } {
   const newSchedule = JSON.parse(JSON.stringify(schedule)) as ClinicSchedule;
   
@@ -1200,12 +1231,12 @@ export function applyAmbulatoryAssignment(
     newSchedule.ambulatoryCountsByFellow = {};
   }
   
-  const { days } = july1ToJune30Window(setup.yearStart);
+  const { days } = academicYearWindow(setup.yearStart, setup.yearEnd);
   
   // Get all dates in this block
   const blockDates = days.filter(date => {
     const dateISO = toISODate(date);
-    return getBlockKeyForDate(dateISO, setup.yearStart) === blockKey;
+    return blockKeyForDate(dateISO, setup.yearStart, ctx.settings.blockCalendar, setup.yearEnd) === blockKey;
   }).map(d => toISODate(d));
   
   if (blockDates.length === 0) {
@@ -1246,13 +1277,18 @@ export function applyAmbulatoryAssignment(
 }
 
 // Helper to get the fellow assigned to the previous block
-function getPreviousBlockFellow(blockKey: string, schedule: ClinicSchedule, setup: SetupState): string | undefined {
-  const { days } = july1ToJune30Window(setup.yearStart);
+function getPreviousBlockFellow(
+  blockKey: string,
+  schedule: ClinicSchedule,
+  setup: SetupState,
+  calendar: BlockCalendar
+): string | undefined {
+  const { days } = academicYearWindow(setup.yearStart, setup.yearEnd);
   
   // Find the first date in the current block
   const firstDateInBlock = days.find(date => {
     const dateISO = toISODate(date);
-    return getBlockKeyForDate(dateISO, setup.yearStart) === blockKey;
+    return blockKeyForDate(dateISO, setup.yearStart, calendar, setup.yearEnd) === blockKey;
   });
   
   if (!firstDateInBlock) return undefined;
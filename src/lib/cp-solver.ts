@@ -0,0 +1,411 @@
+// Small branch-and-bound solver for placement problems: each item (e.g. "fellow A's second CCU
+// month") picks one candidate set of block indices, subject to per-owner occupancy, per-label
+// capacity, adjacency rules, class-total groups and custom checks. Soft rules and candidate scores
+// form the objective, which is maximised.
+
+import { reportProgress } from "@/lib/engine-progress";
+
+export type CPItem = {
+  id: string;
+  owner: string;
+  label: string;
+  // Each candidate is the list of block indices the item occupies if chosen
+  candidates: number[][];
+  // Static preference per candidate (defaults to 0)
+  scores?: number[];
+  // Optional items may be left unplaced; their placed count is fixed per group
+  optional?: boolean;
+  group?: string;
+  // Interchangeable items share a chain and are placed in increasing block order
+  chain?: string;
+};
+
+export type CPSeparation = {
+  a: string;
+  b: string;
+  unit: "block" | "month";
+  // Soft separations cost `weight` per adjacent pair instead of forbidding it
+  weight?: number;
+};
+
+// Custom rules over which optional items are placed; checked once every item in scope is decided
+export type CPCustomConstraint = {
+  scope: string[];
+  description: string;
+  check: (present: (itemId: string) => boolean) => boolean;
+};
+
+export type CPModel = {
+  blockCount: number;
+  monthOf: number[];
+  owners: string[];
+  items: CPItem[];
+  // owner -> block indices already occupied (vacations and other locked cells)
+  occupied: Record<string, number[]>;
+  // label -> remaining capacity per block; labels without an entry are unlimited
+  capacity: Record<string, number[]>;
+  separations: CPSeparation[];
+  groups: Record<string, number>;
+  custom: CPCustomConstraint[];
+};
+
+export type CPStatus = "optimal" | "feasible" | "infeasible" | "unknown";
+
+export type CPResult = {
+  status: CPStatus;
+  // itemId -> chosen block indices (empty for unplaced optional items)
+  assignment?: Record<string, number[]>;
+  objective?: number;
+  // Upper bound on the objective proven by the search (equals objective when optimal)
+  bound?: number;
+  nodes: number;
+  elapsedMs: number;
+};
+
+export type CPOptions = {
+  timeout?: number;
+  nodeLimit?: number;
+  // Stop at the first solution instead of proving optimality
+  firstSolution?: boolean;
+};
+
+const NONE = -1;
+
+export function solveCP(model: CPModel, opts?: CPOptions): CPResult {
+  const timeout = opts?.timeout ?? 20000;
+  const nodeLimit = opts?.nodeLimit ?? 250000;
+  const start = Date.now();
+
+  const { items, blockCount, monthOf } = model;
+  const monthCount = Math.max(0, ...monthOf) + 1;
+  const itemIndex = new Map(items.map((it, i) => [it.id, i] as const));
+  const ownerIndex = new Map(model.owners.map((o, i) => [o, i] as const));
+  const labels = [...new Set(items.map((it) => it.label))];
+  const labelIndex = new Map(labels.map((l, i) => [l, i] as const));
+
+  // Occupancy per owner and block, and per owner/label by block and by month
+  const busy = model.owners.map(() => new Uint8Array(blockCount));
+  for (const [owner, blocks] of Object.entries(model.occupied)) {
+    const oi = ownerIndex.get(owner);
+    if (oi == null) continue;
+    for (const b of blocks) busy[oi][b] = 1;
+  }
+  const blockOcc = model.owners.map(() => labels.map(() => new Int16Array(blockCount)));
+  const monthOcc = model.owners.map(() => labels.map(() => new Int16Array(monthCount)));
+  const capLeft = labels.map((l) => (model.capacity[l] ? Int16Array.from(model.capacity[l]) : null));
+
+  type Sep = { other: number; unit: "block" | "month"; weight: number };
+  const hardSeps = new Map<number, Sep[]>();
+  const softSeps = new Map<number, Sep[]>();
+  for (const s of model.separations) {
+    const a = labelIndex.get(s.a);
+    const b = labelIndex.get(s.b);
+    if (a == null || b == null) continue;
+    const target = s.weight ? softSeps : hardSeps;
+    const add = (x: number, y: number) => {
+      const list = target.get(x) ?? [];
+      list.push({ other: y, unit: s.unit, weight: s.weight ?? 0 });
+      target.set(x, list);
+    };
+    add(a, b);
+    if (a !== b) add(b, a);
+  }
+
+  const groupTarget = new Map(Object.entries(model.groups));
+
+  const chainPrev = new Map<number, number>();
+  const chainNext = new Map<number, number>();
+  const lastInChain = new Map<string, number>();
+  items.forEach((it, i) => {
+    if (!it.chain) return;
+    const prev = lastInChain.get(it.chain);
+    if (prev != null) {
+      chainPrev.set(i, prev);
+      chainNext.set(prev, i);
+    }
+    lastInChain.set(it.chain, i);
+  });
+
+  const customByItem = new Map<number, CPCustomConstraint[]>();
+  for (const c of model.custom) {
+    for (const id of c.scope) {
+      const i = itemIndex.get(id);
+      if (i == null) continue;
+      const list = customByItem.get(i) ?? [];
+      list.push(c);
+      customByItem.set(i, list);
+    }
+  }
+
+  const itemOwner = items.map((it) => ownerIndex.get(it.owner) ?? -1);
+  const itemLabel = items.map((it) => labelIndex.get(it.label)!);
+  const maxScore = items.map((it) => (it.scores && it.scores.length ? Math.max(0, ...it.scores) : 0));
+  const value = new Int32Array(items.length).fill(-2); // -2 = unassigned
+  // 1 = placed, 0 = left out, -1 = not decided yet; only optional items start undecided
+  const presence = Int8Array.from(items, (it) => (it.optional ? -1 : 1));
+  // Decide the items of each custom rule together so a violated rule is caught early, then the rest
+  const optionalOrder: number[] = [];
+  const queued = new Set<number>();
+  const enqueue = (i: number | undefined) => {
+    if (i == null || !items[i].optional || queued.has(i)) return;
+    queued.add(i);
+    optionalOrder.push(i);
+  };
+  for (const c of model.custom) c.scope.forEach((id) => enqueue(itemIndex.get(id)));
+  items.forEach((_, i) => enqueue(i));
+  const groupMembers = new Map<string, number[]>();
+  optionalOrder.forEach((i) => {
+    const g = items[i].group;
+    if (!g) return;
+    const list = groupMembers.get(g) ?? [];
+    list.push(i);
+    groupMembers.set(g, list);
+  });
+
+  const cellsOf = (i: number, v: number) => (v === NONE ? [] : items[i].candidates[v]);
+  const presentView = (id: string) => {
+    const i = itemIndex.get(id);
+    return i != null && presence[i] === 1;
+  };
+
+  const adjacentCount = (oi: number, li: number, cells: number[], unit: "block" | "month") => {
+    let n = 0;
+    if (unit === "block") {
+      const occ = blockOcc[oi][li];
+      for (const c of cells) {
+        for (const d of [c - 1, c + 1]) {
+          if (d < 0 || d >= blockCount || cells.includes(d)) continue;
+          n += occ[d];
+        }
+      }
+    } else {
+      const occ = monthOcc[oi][li];
+      const months = new Set(cells.map((c) => monthOf[c]));
+      for (const m of months) {
+        for (const d of [m - 1, m + 1]) {
+          if (d < 0 || d >= monthCount || months.has(d)) continue;
+          n += occ[d];
+        }
+      }
+    }
+    return n;
+  };
+
+  const firstCell = (i: number, v: number) => items[i].candidates[v][0];
+
+  const feasibleValue = (i: number, v: number): boolean => {
+    const it = items[i];
+    const oi = itemOwner[i];
+    const li = itemLabel[i];
+    const cells = it.candidates[v];
+    for (const c of cells) {
+      if (busy[oi][c]) return false;
+      const cap = capLeft[li];
+      if (cap && cap[c] <= 0) return false;
+    }
+    for (const s of hardSeps.get(li) ?? []) {
+      if (adjacentCount(oi, s.other, cells, s.unit) > 0) return false;
+    }
+    const p = chainPrev.get(i);
+    if (p != null && value[p] >= 0 && firstCell(p, value[p]) >= firstCell(i, v)) return false;
+    const n = chainNext.get(i);
+    if (n != null && value[n] >= 0 && firstCell(i, v) >= firstCell(n, value[n])) return false;
+    return true;
+  };
+
+  const softCost = (i: number, cells: number[]) => {
+    let cost = 0;
+    for (const s of softSeps.get(itemLabel[i]) ?? []) {
+      cost += s.weight * adjacentCount(itemOwner[i], s.other, cells, s.unit);
+    }
+    return cost;
+  };
+
+  const apply = (i: number, v: number, sign: 1 | -1) => {
+    const it = items[i];
+    const oi = itemOwner[i];
+    const li = itemLabel[i];
+    const cap = capLeft[li];
+    const months = new Set<number>();
+    for (const c of it.candidates[v]) {
+      busy[oi][c] = sign > 0 ? 1 : 0;
+      blockOcc[oi][li][c] += sign;
+      if (cap) cap[c] -= sign;
+      months.add(monthOf[c]);
+    }
+    for (const m of months) monthOcc[oi][li][m] += sign;
+  };
+
+  // Group totals must stay reachable, chains are filled front to back, and custom rules hold
+  const presenceOk = (i: number) => {
+    const g = items[i].group;
+    if (g && groupTarget.has(g)) {
+      const members = groupMembers.get(g) ?? [];
+      const placed = members.filter((j) => presence[j] === 1).length;
+      const open = members.filter((j) => presence[j] === -1).length;
+      const target = groupTarget.get(g)!;
+      if (placed > target || placed + open < target) return false;
+    }
+    const p = chainPrev.get(i);
+    if (p != null && presence[p] === 0 && presence[i] === 1) return false;
+    const n = chainNext.get(i);
+    if (n != null && presence[n] === 1 && presence[i] === 0) return false;
+    for (const c of customByItem.get(i) ?? []) {
+      const complete = c.scope.every((id) => {
+        const j = itemIndex.get(id);
+        return j == null || presence[j] !== -1;
+      });
+      if (complete && !c.check(presentView)) return false;
+    }
+    return true;
+  };
+
+  let nodes = 0;
+  let aborted = false;
+  let best: Int32Array | null = null;
+  let bestScore = -Infinity;
+  let score = 0;
+  let remainingMax = maxScore.reduce((a, b) => a + b, 0);
+  const rootBound = remainingMax;
+  const unassigned = new Set<number>();
+
+  const tick = () => {
+    nodes++;
+    if (nodes % 256 === 0) reportProgress("Constraint search", nodes, nodeLimit);
+    if (nodes > nodeLimit || (nodes % 256 === 0 && Date.now() - start > timeout)) aborted = true;
+    return !aborted;
+  };
+
+  const liveValues = (i: number): number[] => {
+    const out: number[] = [];
+    for (let v = 0; v < items[i].candidates.length; v++) if (feasibleValue(i, v)) out.push(v);
+    return out;
+  };
+
+  // Phase two: place every present item, most constrained first, with forward checking
+  const place = (): void => {
+    if (!tick()) return;
+    if (unassigned.size === 0) {
+      if (score > bestScore) {
+        bestScore = score;
+        best = Int32Array.from(value);
+      }
+      return;
+    }
+    if (score + remainingMax <= bestScore) return;
+
+    let pick = -1;
+    let pickValues: number[] = [];
+    for (const i of unassigned) {
+      const vals = liveValues(i);
+      if (vals.length === 0) return;
+      if (pick === -1 || vals.length < pickValues.length) {
+        pick = i;
+        pickValues = vals;
+        if (vals.length === 1) break;
+      }
+    }
+
+    const it = items[pick];
+    const ordered = pickValues
+      .map((v) => ({ v, s: it.scores?.[v] ?? 0 }))
+      .sort((a, b) => b.s - a.s || a.v - b.v);
+
+    unassigned.delete(pick);
+    remainingMax -= maxScore[pick];
+    for (const { v, s } of ordered) {
+      const cost = softCost(pick, it.candidates[v]);
+      value[pick] = v;
+      apply(pick, v, 1);
+      score += s - cost;
+      place();
+      score -= s - cost;
+      apply(pick, v, -1);
+      value[pick] = -2;
+      if (aborted || (opts?.firstSolution && best)) break;
+    }
+    remainingMax += maxScore[pick];
+    unassigned.add(pick);
+  };
+
+  // Phase one: decide which optional items are placed, so group totals and custom rules are
+  // settled before any block is chosen
+  const decide = (k: number): void => {
+    if (aborted || (opts?.firstSolution && best)) return;
+    if (k === optionalOrder.length) {
+      items.forEach((_, i) => {
+        if (presence[i] === 1) unassigned.add(i);
+        else value[i] = NONE;
+      });
+      const skipped = items.reduce((sum, _, i) => sum + (presence[i] === 0 ? maxScore[i] : 0), 0);
+      remainingMax -= skipped;
+      place();
+      remainingMax += skipped;
+      unassigned.clear();
+      value.fill(-2);
+      return;
+    }
+    if (!tick()) return;
+    const i = optionalOrder[k];
+    for (const choice of [1, 0]) {
+      presence[i] = choice;
+      if (presenceOk(i)) decide(k + 1);
+      if (aborted || (opts?.firstSolution && best)) break;
+    }
+    presence[i] = -1;
+  };
+
+  // Cheap counting proof: an owner whose mandatory items need more blocks than are free
+  const overbooked = model.owners.some((_, oi) => {
+    const free = busy[oi].reduce((n, b) => n + (b ? 0 : 1), 0);
+    const needed = items.reduce((n, it, i) => n + (itemOwner[i] === oi && !it.optional ? it.candidates[0]?.length ?? 1 : 0), 0);
+    return needed > free;
+  });
+  if (!overbooked) decide(0);
+
+  const elapsedMs = Date.now() - start;
+  if (!best) {
+    return { status: aborted ? "unknown" : "infeasible", nodes, elapsedMs };
+  }
+  const finalValues: Int32Array = best;
+  const assignment: Record<string, number[]> = {};
+  items.forEach((it, i) => {
+    assignment[it.id] = cellsOf(i, finalValues[i]);
+  });
+  const proven = !aborted && !opts?.firstSolution;
+  return {
+    status: proven ? "optimal" : "feasible",
+    assignment,
+    objective: bestScore,
+    bound: proven ? bestScore : rootBound,
+    nodes,
+    elapsedMs,
+  };
+}
+
+// Deletion filter over relaxable rules: relax each rule in turn and keep it relaxed while the model
+// stays infeasible. The rules left cannot all hold together; checks that run out of budget keep
+// their rule, so the set may be larger than minimal but never misses a culprit.
+export function findInfeasibleCore<R extends { id: string }>(
+  rules: R[],
+  build: (relaxed: Set<string>) => CPModel,
+  opts: { deadline: number; initiallyRelaxed?: Set<string> }
+): R[] {
+  const relaxed = new Set(opts.initiallyRelaxed ?? []);
+  const core: R[] = [];
+  for (const rule of rules) {
+    if (relaxed.has(rule.id)) continue;
+    const remaining = opts.deadline - Date.now();
+    if (remaining <= 0) {
+      core.push(rule);
+      continue;
+    }
+    relaxed.add(rule.id);
+    const res = solveCP(build(relaxed), { firstSolution: true, nodeLimit: 20000, timeout: Math.min(remaining, 4000) });
+    if (res.status !== "infeasible") {
+      relaxed.delete(rule.id);
+      core.push(rule);
+    }
+  }
+  return core;
+}
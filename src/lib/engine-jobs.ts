@@ -0,0 +1,169 @@
+import { isHalfMonthCalendar, type BlockInfo } from "@/lib/block-utils";
+import {
+  buildVacationScheduleForPGY,
+  type Fellow,
+  type FellowSchedule,
+  type PGY,
+  type VacationSolveOptions,
+  type VacationSolveResult,
+} from "@/lib/schedule-engine";
+import { placePGY4Rotations, placePGY5Rotations, placePGY6Rotations } from "@/lib/rotation-engine";
+import { solveRotationsCP, type CPSolveRotationsResult, type RotationSolverEngine } from "@/lib/rotation-cp-engine";
+import { buildPrimaryCallSchedule, type BuildCallResult, type CallSchedule } from "@/lib/call-engine";
+import { buildHFSchedule } from "@/lib/hf-engine";
+import { buildJeopardySchedule } from "@/lib/jeopardy-engine";
+import { buildClinicSchedule, type ClinicSchedule } from "@/lib/clinic-engine";
+import { optimizeCallFairness, type FairnessResult } from "@/lib/fairness-engine";
+import { withEngineProgress, type EngineProgress } from "@/lib/engine-progress";
+import { snapshotContext, type ScheduleContext } from "@/lib/schedule-context";
+import { randomSeed } from "@/lib/seeded-random";
+import { restorePinnedRotations, withPinnedRotations } from "@/lib/pin-engine";
+import { type RegenerationRange } from "@/lib/regeneration-range";
+
+type SearchOptions = { randomize?: boolean; maxTries?: number; timeout?: number };
+
+// One generator run. Everything else the generator needs comes from the ScheduleContext it runs against.
+export type EngineJob =
+  | { kind: "vacations"; fellows: Fellow[]; blocks: BlockInfo[]; seed?: number; options: VacationSolveOptions }
+  | {
+      kind: "rotations";
+      pgy: PGY;
+      engine: RotationSolverEngine;
+      fellows: Fellow[];
+      blocks: BlockInfo[];
+      base: FellowSchedule | undefined;
+      // Search limits for the heuristic solver; the constraint solver uses its own timeout
+      options: SearchOptions;
+      // The constraint solver is deterministic and ignores the seed
+      seed?: number;
+    }
+  // The call, HF, jeopardy and clinic generators can rebuild just a range, keeping the rest of the year
+  | { kind: "primary-call"; priorPrimarySeeds: Record<string, string>; seed?: number; range?: RegenerationRange }
+  | { kind: "hf"; seed?: number; randomize: boolean; attempts: number; range?: RegenerationRange }
+  | { kind: "jeopardy"; seed?: number; range?: RegenerationRange }
+  | { kind: "clinic"; callSchedule: CallSchedule | null; range?: RegenerationRange }
+  | { kind: "fairness"; schedule: CallSchedule; seed?: number; iterations?: number };
+
+export type EngineJobResults = {
+  vacations: VacationSolveResult;
+  // seed is set when the heuristic solver ran, so the page can store it with the schedule
+  rotations: CPSolveRotationsResult & { seed?: number };
+  "primary-call": BuildCallResult;
+  hf: ReturnType<typeof buildHFSchedule>;
+  jeopardy: ReturnType<typeof buildJeopardySchedule>;
+  clinic: ClinicSchedule | null;
+  fairness: FairnessResult;
+};
+
+export type EngineJobResult<J extends EngineJob> = EngineJobResults[J["kind"]];
+
+export type EngineJobOutcome<R> = { status: "done"; result: R } | { status: "cancelled" };
+
+export type EngineJobHandle<R> = {
+  outcome: Promise<EngineJobOutcome<R>>;
+  cancel: () => void;
+};
+
+// Messages exchanged with engine-worker.ts
+export type EngineWorkerRequest = { job: EngineJob; ctx: ScheduleContext };
+export type EngineWorkerMessage =
+  | { type: "progress"; progress: EngineProgress }
+  | { type: "result"; result: unknown }
+  | { type: "error"; message: string };
+
+const CP_TIMEOUT_MS = 60000;
+
+// Pinned cells join the base rows like vacations, and are put back if a solver moved one
+function runRotations(job: Extract<EngineJob, { kind: "rotations" }>, ctx: ScheduleContext): EngineJobResults["rotations"] {
+  const result = solveRotations(job, ctx);
+  return { ...result, byFellow: restorePinnedRotations(result.byFellow, ctx.pins) };
+}
+
+function solveRotations(job: Extract<EngineJob, { kind: "rotations" }>, ctx: ScheduleContext): EngineJobResults["rotations"] {
+  const { pgy, fellows, blocks } = job;
+  const base = withPinnedRotations(job.base, fellows.map((f) => f.id), ctx.pins);
+  // The heuristic placer works in half-month pairs over a full year; other block calendars and partial
+  // years always use the constraint solver
+  if (job.engine === "cp" || !isHalfMonthCalendar(blocks)) return solveRotationsCP(pgy, fellows, blocks, base, { timeout: CP_TIMEOUT_MS }, ctx);
+  const seed = job.seed ?? randomSeed();
+  const options = { ...job.options, seed };
+  if (pgy === "PGY-4") return { ...placePGY4Rotations(fellows, blocks, base, options, ctx), seed };
+  if (pgy === "PGY-5") return { ...placePGY5Rotations(fellows, blocks, base, options, ctx), seed };
+  return { ...placePGY6Rotations(fellows, blocks, base, options, ctx), seed };
+}
+
+// Dispatch a job to its generator. Runs synchronously against the given context.
+export function runEngineJob<J extends EngineJob>(job: J, ctx: ScheduleContext): EngineJobResult<J> {
+  switch (job.kind) {
+    case "vacations":
+      return buildVacationScheduleForPGY(job.fellows, job.blocks, { ...job.options, seed: job.seed }, undefined, ctx) as EngineJobResult<J>;
+    case "rotations":
+      return runRotations(job, ctx) as EngineJobResult<J>;
+    case "primary-call":
+      return buildPrimaryCallSchedule({ priorPrimarySeeds: job.priorPrimarySeeds, seed: job.seed, range: job.range }, ctx) as EngineJobResult<J>;
+    case "hf":
+      return buildHFSchedule({ seed: job.seed, randomize: job.randomize, attempts: job.attempts, range: job.range }, ctx) as EngineJobResult<J>;
+    case "jeopardy":
+      return buildJeopardySchedule({ seed: job.seed, range: job.range }, ctx) as EngineJobResult<J>;
+    case "clinic":
+      return buildClinicSchedule(job.callSchedule, ctx.setup, { range: job.range }, ctx) as EngineJobResult<J>;
+    case "fairness":
+      return optimizeCallFairness(job.schedule, { seed: job.seed, iterations: job.iterations }, ctx) as EngineJobResult<J>;
+  }
+}
+
+// Start a job in a dedicated worker. Cancelling terminates the worker, so a generator stuck in a
+// long search stops immediately. Without worker support the job runs on the main thread instead.
+export function startEngineJob<J extends EngineJob>(
+  job: J,
+  onProgress?: (progress: EngineProgress) => void,
+  ctx: ScheduleContext = snapshotContext()
+): EngineJobHandle<EngineJobResult<J>> {
+
+  if (typeof Worker === "undefined") {
+    let cancelled = false;
+    const outcome = new Promise<EngineJobOutcome<EngineJobResult<J>>>((resolve, reject) => {
+      // Yield once so the caller can render its progress state before the UI blocks
+      setTimeout(() => {
+        if (cancelled) return resolve({ status: "cancelled" });
+        try {
+          resolve({ status: "done", result: withEngineProgress(onProgress, () => runEngineJob(job, ctx)) });
+        } catch (e) {
+          reject(e);
+        }
+      }, 0);
+    });
+    return { outcome, cancel: () => { cancelled = true; } };
+  }
+
+  const worker = new Worker(new URL("./engine-worker.ts", import.meta.url), { type: "module" });
+  let settle: (value: EngineJobOutcome<EngineJobResult<J>>) => void = () => {};
+  const outcome = new Promise<EngineJobOutcome<EngineJobResult<J>>>((resolve, reject) => {
+    settle = resolve;
+    worker.onmessage = (e: MessageEvent<EngineWorkerMessage>) => {
+      const msg = e.data;
+      if (msg.type === "progress") {
+        onProgress?.(msg.progress);
+        return;
+      }
+      worker.terminate();
+      if (msg.type === "result") resolve({ status: "done", result: msg.result as EngineJobResult<J> });
+      else reject(new Error(msg.message));
+    };
+    worker.onerror = (e) => {
+      worker.terminate();
+      reject(new Error(e.message || "Schedule worker failed"));
+    };
+  });
+  // Always post a plain copy; a live storage context cannot cross to the worker
+  const request: EngineWorkerRequest = { job, ctx: snapshotContext(ctx) };
+  worker.postMessage(request);
+
+  return {
+    outcome,
+    cancel: () => {
+      worker.terminate();
+      settle({ status: "cancelled" });
+    },
+  };
+}
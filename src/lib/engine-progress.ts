@@ -0,0 +1,31 @@
+export type EngineProgress = {
+  phase: string;
+  attempt?: number;
+  total?: number;
+};
+
+let progressListener: ((progress: EngineProgress) => void) | null = null;
+let lastReport = { phase: "", at: 0 };
+
+const PROGRESS_INTERVAL_MS = 100;
+
+// Run a synchronous generator, forwarding the progress it reports to the listener
+export function withEngineProgress<T>(onProgress: ((progress: EngineProgress) => void) | undefined, fn: () => T): T {
+  const previous = progressListener;
+  progressListener = onProgress ?? null;
+  lastReport = { phase: "", at: 0 };
+  try {
+    return fn();
+  } finally {
+    progressListener = previous;
+  }
+}
+
+// Called from generator loops; throttled so tight loops do not flood the listener
+export function reportProgress(phase: string, attempt?: number, total?: number) {
+  if (!progressListener) return;
+  const now = Date.now();
+  if (phase === lastReport.phase && now - lastReport.at < PROGRESS_INTERVAL_MS) return;
+  lastReport = { phase, at: now };
+  progressListener({ phase, attempt, total });
+}
@@ -0,0 +1,15 @@
+import { runEngineJob, type EngineWorkerMessage, type EngineWorkerRequest } from "@/lib/engine-jobs";
+import { withEngineProgress } from "@/lib/engine-progress";
+
+// Runs one generator job per worker; the page terminates the worker to cancel
+const post = (msg: EngineWorkerMessage) => self.postMessage(msg);
+
+self.onmessage = (e: MessageEvent<EngineWorkerRequest>) => {
+  const { job, ctx } = e.data;
+  try {
+    const result = withEngineProgress((progress) => post({ type: "progress", progress }), () => runEngineJob(job, ctx));
+    post({ type: "result", result });
+  } catch (err) {
+    post({ type: "error", message: err instanceof Error ? err.message : String(err) });
+  }
+};
@@ -0,0 +1,312 @@
+import { addDays, format, parseISO } from "date-fns";
+import { computeAcademicYearHolidays } from "@/lib/holidays";
+import { academicYearWindow, blockKeyForDate } from "@/lib/block-utils";
+import { type Fellow, type PGY } from "@/lib/schedule-engine";
+import { type SchedulerSettings } from "@/lib/settings-engine";
+import {
+  isValidPrimarySwap,
+  recalculateCallCounts,
+  validatePrimaryAssignment,
+  type CallSchedule,
+} from "@/lib/call-engine";
+import { proratedQuotas } from "@/lib/leave-engine";
+import { getEffectiveHFAssignment } from "@/lib/hf-engine";
+import { getPrimaryRotation } from "@/lib/rotation-engine";
+import { reportProgress } from "@/lib/engine-progress";
+import { createRng, randomSeed } from "@/lib/seeded-random";
+import { snapshotContext, storageContext, type ScheduleContext } from "@/lib/schedule-context";
+
+// Local search over the primary call schedule for a fairer spread of calls within each PGY. Each
+// step either moves one call to a classmate or swaps two calls between classmates, is kept only when
+// it lowers the weighted objective, and must pass the same validation as a manual edit.
+
+export type FairnessDimension = keyof SchedulerSettings["primaryCall"]["fairness"]["weights"];
+
+export const FAIRNESS_DIMENSIONS: FairnessDimension[] = ["total", "weekendHoliday", "friday", "sunday", "holiday", "heavyRotation"];
+
+export const FAIRNESS_DIMENSION_LABELS: Record<FairnessDimension, string> = {
+  total: "All calls",
+  weekendHoliday: "Weekend & holiday calls",
+  friday: "Friday calls",
+  sunday: "Sunday calls",
+  holiday: "Holiday burden (weighted)",
+  heavyRotation: "Calls per month on heavy rotations",
+};
+
+export type FairnessSpread = {
+  dimension: FairnessDimension;
+  pgy: PGY;
+  min: number;
+  max: number;
+  mean: number;
+};
+
+export type FairnessMetrics = {
+  objective: number;
+  spreads: FairnessSpread[];
+  values: Record<string, Record<FairnessDimension, number>>; // fellowId -> dimension -> value
+};
+
+export type FairnessResult = {
+  schedule: CallSchedule;
+  before: FairnessMetrics;
+  after: FairnessMetrics;
+  moves: number;
+  swaps: number;
+  changedDates: string[];
+  seed: number;
+};
+
+type Vector = Record<FairnessDimension, number>;
+
+const PGYS: PGY[] = ["PGY-4", "PGY-5", "PGY-6"];
+const DEFAULT_ITERATIONS = 20000;
+
+const zero = (): Vector => ({ total: 0, weekendHoliday: 0, friday: 0, sunday: 0, holiday: 0, heavyRotation: 0 });
+
+// What one call on a date adds to a fellow's values. Counts are scaled up for fellows whose call cap
+// is prorated for leave, so a fellow out for a month is compared on the same footing as the class.
+function buildScorer(ctx: ScheduleContext) {
+  const { setup, settings } = ctx;
+  const { fairness, maxCalls } = settings.primaryCall;
+  const holidays = new Map(
+    (setup.holidays?.length ? setup.holidays : computeAcademicYearHolidays(setup.yearStart, setup.yearEnd)).map((h) => [h.date, h.id] as const)
+  );
+  const caps = proratedQuotas(setup.fellows, setup.yearStart, (pgy) => maxCalls[pgy], setup.yearEnd);
+  const heavy = new Set(fairness.heavyRotations);
+  const isHeavy = (rot: string | undefined) => !!rot && (heavy.has(rot) || heavy.has(getPrimaryRotation(rot)));
+  const rotationOn = (fellow: Fellow, iso: string) =>
+    ctx.schedules[fellow.pgy]?.byFellow?.[fellow.id]?.[blockKeyForDate(iso, setup.yearStart, settings.blockCalendar, setup.yearEnd)];
+
+  // Heavy-rotation calls are a rate: calls per 30 days on those rotations
+  const heavyDays: Record<string, number> = {};
+  const yearDays = academicYearWindow(setup.yearStart, setup.yearEnd).days.map((d) => format(d, "yyyy-MM-dd"));
+  for (const fellow of setup.fellows) {
+    let days = 0;
+    for (const iso of yearDays) {
+      if (isHeavy(rotationOn(fellow, iso))) days++;
+    }
+    heavyDays[fellow.id] = days;
+  }
+
+  const cache = new Map<string, Vector>();
+  return (iso: string, fellow: Fellow): Vector => {
+    const key = `${iso}|${fellow.id}`;
+    const cached = cache.get(key);
+    if (cached) return cached;
+    const dow = parseISO(iso).getDay();
+    const holidayId = holidays.get(iso);
+    const scale = caps[fellow.id] > 0 ? maxCalls[fellow.pgy] / caps[fellow.id] : 1;
+    const v: Vector = {
+      total: scale,
+      weekendHoliday: dow === 0 || dow === 6 || holidayId ? scale : 0,
+      friday: dow === 5 && !holidayId ? scale : 0,
+      sunday: dow === 0 ? scale : 0,
+      holiday: holidayId ? (fairness.holidayWeights[holidayId] ?? 1) * scale : 0,
+      heavyRotation: isHeavy(rotationOn(fellow, iso)) && heavyDays[fellow.id] > 0 ? 30 / heavyDays[fellow.id] : 0,
+    };
+    cache.set(key, v);
+    return v;
+  };
+}
+
+// Days each fellow must not take primary call because of jeopardy, HF or clinic already scheduled.
+// The call validators only see primary call, so without this a move could leave a fellow on jeopardy
+// or in clinic the day after their call.
+function buildDutyConflicts(dates: string[], ctx: ScheduleContext): Set<string> {
+  const { settings, jeopardySchedule, hfSchedule, clinicSchedule } = ctx;
+  const blocked = new Set<string>();
+  const block = (iso: string, back: number, fellowId: string) => {
+    for (let i = 0; i <= back; i++) blocked.add(`${format(addDays(parseISO(iso), -i), "yyyy-MM-dd")}|${fellowId}`);
+  };
+  for (const iso of dates) {
+    const jeopardy = jeopardySchedule?.days[iso];
+    if (jeopardy) block(iso, settings.jeopardyCall.minSpacingDays, jeopardy);
+    const hf = hfSchedule ? getEffectiveHFAssignment(iso, hfSchedule) : undefined;
+    if (hf) block(iso, 1, hf);
+    if (settings.clinics.excludePostCall) {
+      for (const assignment of clinicSchedule?.days[iso] ?? []) {
+        blocked.add(`${format(addDays(parseISO(iso), -1), "yyyy-MM-dd")}|${assignment.fellowId}`);
+      }
+    }
+  }
+  return blocked;
+}
+
+// Sum of squared deviations from the class mean, per dimension, weighted
+function objectiveOf(values: Record<string, Vector>, groups: Fellow[][], weights: Vector): number {
+  let total = 0;
+  for (const group of groups) {
+    for (const dim of FAIRNESS_DIMENSIONS) {
+      if (!weights[dim]) continue;
+      const xs = group.map((f) => values[f.id][dim]);
+      const mean = xs.reduce((a, b) => a + b, 0) / xs.length;
+      total += weights[dim] * xs.reduce((a, x) => a + (x - mean) ** 2, 0);
+    }
+  }
+  return total;
+}
+
+function measure(schedule: CallSchedule, ctx: ScheduleContext, score: (iso: string, fellow: Fellow) => Vector): FairnessMetrics {
+  const fellows = ctx.setup.fellows;
+  const byId = new Map(fellows.map((f) => [f.id, f] as const));
+  const values: Record<string, Vector> = {};
+  for (const f of fellows) values[f.id] = zero();
+  for (const [iso, fid] of Object.entries(schedule.days)) {
+    const fellow = fid ? byId.get(fid) : undefined;
+    if (!fellow) continue;
+    const v = score(iso, fellow);
+    for (const dim of FAIRNESS_DIMENSIONS) values[fid][dim] += v[dim];
+  }
+
+  const groups = PGYS.map((pgy) => fellows.filter((f) => f.pgy === pgy)).filter((g) => g.length > 1);
+  const spreads: FairnessSpread[] = [];
+  for (const group of groups) {
+    for (const dim of FAIRNESS_DIMENSIONS) {
+      const xs = group.map((f) => values[f.id][dim]);
+      spreads.push({
+        dimension: dim,
+        pgy: group[0].pgy,
+        min: Math.min(...xs),
+        max: Math.max(...xs),
+        mean: xs.reduce((a, b) => a + b, 0) / xs.length,
+      });
+    }
+  }
+  return { objective: objectiveOf(values, groups, ctx.settings.primaryCall.fairness.weights), spreads, values };
+}
+
+export function measureCallFairness(schedule: CallSchedule, ctx: ScheduleContext = storageContext()): FairnessMetrics {
+  const cached = snapshotContext(ctx);
+  if (!cached.setup) return { objective: 0, spreads: [], values: {} };
+  return measure(schedule, cached, buildScorer(cached));
+}
+
+export function optimizeCallFairness(
+  schedule: CallSchedule,
+  options: { seed?: number; iterations?: number } = {},
+  ctx: ScheduleContext = storageContext()
+): FairnessResult {
+  const cached = snapshotContext(ctx);
+  const seed = options.seed ?? randomSeed();
+  const { setup } = cached;
+  if (!setup) {
+    const empty = { objective: 0, spreads: [], values: {} };
+    return { schedule, before: empty, after: empty, moves: 0, swaps: 0, changedDates: [], seed };
+  }
+
+  const score = buildScorer(cached);
+  const before = measure(schedule, cached, score);
+  const weights = cached.settings.primaryCall.fairness.weights;
+  const rng = createRng(seed);
+  const pick = <T,>(items: T[]): T => items[Math.floor(rng() * items.length)];
+  const byId = new Map(setup.fellows.map((f) => [f.id, f] as const));
+  const classmates = (f: Fellow) => setup.fellows.filter((o) => o.pgy === f.pgy && o.id !== f.id);
+
+  // Running sums per class let each candidate be scored from the two fellows it touches
+  const values: Record<string, Vector> = {};
+  for (const [fid, v] of Object.entries(before.values)) values[fid] = { ...v };
+  const sums: Record<string, Vector> = {};
+  const sizes: Record<string, number> = {};
+  for (const f of setup.fellows) {
+    sums[f.pgy] = sums[f.pgy] ?? zero();
+    sizes[f.pgy] = (sizes[f.pgy] ?? 0) + 1;
+    for (const dim of FAIRNESS_DIMENSIONS) sums[f.pgy][dim] += values[f.id][dim];
+  }
+
+  // Change in the objective when classmates a and b take on new values. Prorated scaling means a move
+  // can shift the class total, so the mean term is taken from the running sums rather than assumed fixed.
+  const delta = (a: Fellow, b: Fellow, nextA: Vector, nextB: Vector): number => {
+    let d = 0;
+    const n = sizes[a.pgy];
+    for (const dim of FAIRNESS_DIMENSIONS) {
+      if (!weights[dim]) continue;
+      const sum = sums[a.pgy][dim];
+      const nextSum = sum - values[a.id][dim] - values[b.id][dim] + nextA[dim] + nextB[dim];
+      const sq = (x: number) => x * x;
+      const before = sq(values[a.id][dim]) + sq(values[b.id][dim]) - sq(sum) / n;
+      const after = sq(nextA[dim]) + sq(nextB[dim]) - sq(nextSum) / n;
+      d += weights[dim] * (after - before);
+    }
+    return d;
+  };
+  const shifted = (base: Vector, add: Vector[], remove: Vector[]): Vector => {
+    const v = { ...base };
+    for (const dim of FAIRNESS_DIMENSIONS) {
+      for (const x of add) v[dim] += x[dim];
+      for (const x of remove) v[dim] -= x[dim];
+    }
+    return v;
+  };
+  const commit = (a: Fellow, b: Fellow, nextA: Vector, nextB: Vector) => {
+    for (const dim of FAIRNESS_DIMENSIONS) {
+      sums[a.pgy][dim] += nextA[dim] - values[a.id][dim] + nextB[dim] - values[b.id][dim];
+    }
+    values[a.id] = nextA;
+    values[b.id] = nextB;
+  };
+
+  // Pinned days stay where they are
+  const movable = (iso: string) => !!schedule.days[iso] && !cached.pins.primary[iso];
+  const datesByFellow = new Map<string, string[]>();
+  for (const [iso, fid] of Object.entries(schedule.days)) {
+    if (!fid || !movable(iso) || !byId.has(fid)) continue;
+    datesByFellow.set(fid, [...(datesByFellow.get(fid) ?? []), iso]);
+  }
+  const dates = [...datesByFellow.values()].flat();
+  const conflicts = buildDutyConflicts(Object.keys(schedule.days), cached);
+  const free = (iso: string, fellowId: string) => !conflicts.has(`${iso}|${fellowId}`);
+
+  let working: CallSchedule = { ...schedule, days: { ...schedule.days } };
+  const changed = new Set<string>();
+  let moves = 0;
+  let swaps = 0;
+  const iterations = options.iterations ?? DEFAULT_ITERATIONS;
+  const EPSILON = 1e-9;
+
+  for (let i = 0; i < iterations && dates.length > 0; i++) {
+    reportProgress("Balancing call fairness", i, iterations);
+    const d1 = pick(dates);
+    const a = byId.get(working.days[d1]!)!;
+    const others = classmates(a);
+    if (others.length === 0) continue;
+    const b = pick(others);
+    const c1a = score(d1, a);
+    const c1b = score(d1, b);
+
+    if (rng() < 0.5) {
+      // Move: b takes a's call
+      const nextA = shifted(values[a.id], [], [c1a]);
+      const nextB = shifted(values[b.id], [c1b], []);
+      if (delta(a, b, nextA, nextB) >= -EPSILON || !free(d1, b.id)) continue;
+      const preview: CallSchedule = { ...working, days: { ...working.days, [d1]: b.id } };
+      if (!validatePrimaryAssignment(preview, d1, b.id, cached).ok) continue;
+      working = preview;
+      commit(a, b, nextA, nextB);
+      datesByFellow.set(a.id, (datesByFellow.get(a.id) ?? []).filter((d) => d !== d1));
+      datesByFellow.set(b.id, [...(datesByFellow.get(b.id) ?? []), d1]);
+      changed.add(d1);
+      moves++;
+    } else {
+      // Swap: a and b trade one call each
+      const bDates = datesByFellow.get(b.id) ?? [];
+      if (bDates.length === 0) continue;
+      const d2 = pick(bDates);
+      const nextA = shifted(values[a.id], [score(d2, a)], [c1a]);
+      const nextB = shifted(values[b.id], [c1b], [score(d2, b)]);
+      if (delta(a, b, nextA, nextB) >= -EPSILON || !free(d1, b.id) || !free(d2, a.id)) continue;
+      if (!isValidPrimarySwap(working, d1, d2, cached).ok) continue;
+      working = { ...working, days: { ...working.days, [d1]: b.id, [d2]: a.id } };
+      commit(a, b, nextA, nextB);
+      datesByFellow.set(a.id, [...(datesByFellow.get(a.id) ?? []).filter((d) => d !== d1), d2]);
+      datesByFellow.set(b.id, [...bDates.filter((d) => d !== d2), d1]);
+      changed.add(d1);
+      changed.add(d2);
+      swaps++;
+    }
+  }
+
+  const result = recalculateCallCounts(working);
+  const changedDates = [...changed].filter((iso) => result.days[iso] !== schedule.days[iso]).sort();
+  return { schedule: result, before, after: measure(result, cached, score), moves, swaps, changedDates, seed };
+}
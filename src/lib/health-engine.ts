@@ -0,0 +1,746 @@
+import { addDays, differenceInCalendarDays, format, parseISO } from "date-fns";
+import { computeAcademicYearHolidays } from "@/lib/holidays";
+import { academicYearWindow, blockKeyForDate, generateAcademicYearBlocks } from "@/lib/block-utils";
+import { type Fellow, type PGY, type SetupState } from "@/lib/schedule-engine";
+import { getPrimaryRotation, type Rotation } from "@/lib/rotation-engine";
+import { getEffectiveHFAssignment } from "@/lib/hf-engine";
+import { getJeopardyHolidayBlocks } from "@/lib/jeopardy-engine";
+import { checkSpecialtyClinicCoverage, type ClinicType } from "@/lib/clinic-engine";
+import { findUnavailability, unavailabilityReason } from "@/lib/unavailability";
+import { proratedQuotas } from "@/lib/leave-engine";
+import { snapshotContext, storageContext, type ScheduleContext } from "@/lib/schedule-context";
+
+// One pass over every saved schedule against the rules in SchedulerSettings. The generators avoid
+// these conflicts, but manual edits, trades, restored snapshots and settings changed after generating
+// can all leave the saved schedules breaking a rule; this finds them in one place.
+
+export type HealthSeverity = "error" | "warning";
+
+export type HealthArea = "block" | "primary" | "jeopardy" | "hf" | "clinic" | "ambulatory";
+
+export type HealthRule =
+  | "uncovered"
+  | "on-vacation"
+  | "unavailable"
+  | "excluded-rotation"
+  | "hf-rotation"
+  | "eligibility"
+  | "pgy4-start"
+  | "call-cap"
+  | "quota"
+  | "spacing"
+  | "consecutive"
+  | "same-day"
+  | "post-call"
+  | "vacation-count"
+  | "vacation-timing"
+  | "vacation-spacing"
+  | "vacation-overlap";
+
+export type HealthViolation = {
+  id: string;
+  severity: HealthSeverity;
+  rule: HealthRule;
+  area: HealthArea;
+  fellowId: string | null; // null for coverage gaps and block-wide limits
+  dates: string[]; // ISO dates involved; the first is the offending day, opened on click
+  message: string;
+  suggestion: string;
+};
+
+export type HealthReport = {
+  checkedAt: string; // ISO timestamp
+  checked: HealthArea[]; // areas with a saved schedule to check
+  violations: HealthViolation[];
+  errors: number;
+  warnings: number;
+};
+
+export const HEALTH_RULE_LABELS: Record<HealthRule, string> = {
+  uncovered: "Uncovered",
+  "on-vacation": "Scheduled on vacation",
+  unavailable: "Scheduled while unavailable",
+  "excluded-rotation": "Excluded rotation",
+  "hf-rotation": "HF coverage off HF rotation",
+  eligibility: "Ineligible PGY",
+  "pgy4-start": "Before PGY-4 start date",
+  "call-cap": "Over annual cap",
+  quota: "Over quota",
+  spacing: "Too closely spaced",
+  consecutive: "Back-to-back",
+  "same-day": "Double-booked",
+  "post-call": "Post-call conflict",
+  "vacation-count": "Too many vacations",
+  "vacation-timing": "Vacation in restricted month",
+  "vacation-spacing": "Vacations too close",
+  "vacation-overlap": "Too many on vacation",
+};
+
+export const HEALTH_AREA_LABELS: Record<HealthArea, string> = {
+  block: "Block schedule",
+  primary: "Primary call",
+  jeopardy: "Jeopardy",
+  hf: "HF coverage",
+  clinic: "Clinic",
+  ambulatory: "Ambulatory fellow",
+};
+
+const CLINIC_LABELS: Record<ClinicType, string> = {
+  GENERAL: "General clinic",
+  HEART_FAILURE: "Heart failure clinic",
+  ACHD: "ACHD clinic",
+  DEVICE: "Device clinic",
+  EP: "EP clinic",
+};
+
+const SPECIAL_CLINIC_SETTINGS = {
+  HEART_FAILURE: "heartFailure",
+  ACHD: "achd",
+  DEVICE: "device",
+  EP: "ep",
+} as const;
+
+type Finding = Omit<HealthViolation, "id">;
+
+function toISODate(d: Date): string {
+  return format(d, "yyyy-MM-dd");
+}
+
+// Settings dates are MM-DD within the academic year that starts at yearStartISO
+function settingsDate(mmdd: string, yearStartISO: string): string {
+  const start = parseISO(yearStartISO);
+  const [month, day] = mmdd.split("-").map(Number);
+  const year = month - 1 < start.getMonth() ? start.getFullYear() + 1 : start.getFullYear();
+  return toISODate(new Date(year, month - 1, day));
+}
+
+function isChristmasEveOrNewYearsEve(d: Date): boolean {
+  return d.getMonth() === 11 && (d.getDate() === 24 || d.getDate() === 31);
+}
+
+// Join findings for the same fellow and problem on consecutive days, e.g. both days of an HF weekend
+function mergeFindings(findings: Finding[]): Finding[] {
+  const sorted = [...findings].sort((a, b) => (a.dates[0] < b.dates[0] ? -1 : a.dates[0] > b.dates[0] ? 1 : 0));
+  const open = new Map<string, Finding>();
+  const merged: Finding[] = [];
+  for (const f of sorted) {
+    const key = `${f.area}|${f.rule}|${f.fellowId ?? ""}|${f.message}`;
+    const prev = open.get(key);
+    if (prev && f.dates.length === 1 && differenceInCalendarDays(parseISO(f.dates[0]), parseISO(prev.dates[prev.dates.length - 1])) <= 1) {
+      prev.dates.push(f.dates[0]);
+      continue;
+    }
+    const copy = { ...f, dates: [...f.dates] };
+    merged.push(copy);
+    open.set(key, copy);
+  }
+  return merged;
+}
+
+function checkBlocks(ctx: ScheduleContext, setup: SetupState, out: Finding[]): void {
+  const { vacation } = ctx.settings;
+  const blocks = generateAcademicYearBlocks(setup.yearStart, ctx.settings.blockCalendar, setup.yearEnd);
+  const blockIndex = new Map(blocks.map((b, i) => [b.key, i] as const));
+  const blockStart = new Map(blocks.map((b) => [b.key, b.start] as const));
+  const julyKeys = new Set(blocks.filter((b) => b.monthIndex === 0).map((b) => b.key));
+  const augustKeys = new Set(blocks.filter((b) => b.monthIndex === 1).map((b) => b.key));
+  const onVacation: Record<string, Fellow[]> = {};
+
+  for (const fellow of setup.fellows) {
+    const row = ctx.schedules[fellow.pgy]?.byFellow?.[fellow.id] ?? {};
+    const vacKeys = blocks.filter((b) => row[b.key] === "VAC").map((b) => b.key);
+    const dates = vacKeys.map((k) => blockStart.get(k)!);
+    for (const key of vacKeys) (onVacation[key] = onVacation[key] ?? []).push(fellow);
+
+    if (vacKeys.length > vacation.maxVacationsPerYear) {
+      out.push({
+        severity: "error",
+        rule: "vacation-count",
+        area: "block",
+        fellowId: fellow.id,
+        dates,
+        message: `${vacKeys.length} vacation blocks (limit ${vacation.maxVacationsPerYear})`,
+        suggestion: "Change one of the vacation blocks to a rotation.",
+      });
+    }
+    vacKeys.forEach((key, i) => {
+      if (vacation.julyRestriction && julyKeys.has(key)) {
+        out.push({
+          severity: "error",
+          rule: "vacation-timing",
+          area: "block",
+          fellowId: fellow.id,
+          dates: [dates[i]],
+          message: "Vacation in July",
+          suggestion: "Move the vacation to a block after July.",
+        });
+      } else if (vacation.pgy4AugustRestriction && fellow.pgy === "PGY-4" && augustKeys.has(key)) {
+        out.push({
+          severity: "error",
+          rule: "vacation-timing",
+          area: "block",
+          fellowId: fellow.id,
+          dates: [dates[i]],
+          message: "PGY-4 vacation in August",
+          suggestion: "Move the vacation to a block after August.",
+        });
+      }
+      if (i > 0 && blockIndex.get(key)! - blockIndex.get(vacKeys[i - 1])! < vacation.minSpacingBlocks) {
+        out.push({
+          severity: "error",
+          rule: "vacation-spacing",
+          area: "block",
+          fellowId: fellow.id,
+          dates: [dates[i - 1], dates[i]],
+          message: `Vacations less than ${vacation.minSpacingBlocks} blocks apart`,
+          suggestion: `Move one vacation so the two are at least ${vacation.minSpacingBlocks} blocks apart.`,
+        });
+      }
+    });
+  }
+
+  for (const [key, fellows] of Object.entries(onVacation)) {
+    const date = blockStart.get(key)!;
+    const byPGY: Partial<Record<PGY, number>> = {};
+    for (const f of fellows) byPGY[f.pgy] = (byPGY[f.pgy] ?? 0) + 1;
+    for (const [pgy, count] of Object.entries(byPGY)) {
+      if (count > vacation.maxFellowsPerBlock) {
+        out.push({
+          severity: "error",
+          rule: "vacation-overlap",
+          area: "block",
+          fellowId: null,
+          dates: [date],
+          message: `${count} ${pgy} fellows on vacation in ${key} (limit ${vacation.maxFellowsPerBlock})`,
+          suggestion: "Move one of the vacations to another block.",
+        });
+      }
+    }
+    if (fellows.length > vacation.maxTotalPerBlock) {
+      out.push({
+        severity: "error",
+        rule: "vacation-overlap",
+        area: "block",
+        fellowId: null,
+        dates: [date],
+        message: `${fellows.length} fellows on vacation in ${key} (limit ${vacation.maxTotalPerBlock} across all PGYs)`,
+        suggestion: "Move one of the vacations to another block.",
+      });
+    }
+  }
+}
+
+export function runHealthCheck(source: ScheduleContext = storageContext()): HealthReport {
+  // Read each schedule from storage once rather than on every lookup
+  const ctx = snapshotContext(source);
+  const { setup, settings, callSchedule, jeopardySchedule, hfSchedule, clinicSchedule } = ctx;
+  const out: Finding[] = [];
+  const checked: HealthArea[] = [];
+
+  if (!setup) {
+    return { checkedAt: new Date().toISOString(), checked, violations: [], errors: 0, warnings: 0 };
+  }
+
+  const fellowById = new Map(setup.fellows.map((f) => [f.id, f] as const));
+  const dates = academicYearWindow(setup.yearStart, setup.yearEnd).days.map(toISODate);
+  const holidays = new Set(
+    (setup.holidays?.length ? setup.holidays : computeAcademicYearHolidays(setup.yearStart, setup.yearEnd)).map((h) => h.date)
+  );
+  const rotationOn = (fellow: Fellow, iso: string): string | undefined =>
+    ctx.schedules[fellow.pgy]?.byFellow?.[fellow.id]?.[blockKeyForDate(iso, setup.yearStart, settings.blockCalendar, setup.yearEnd)];
+  const primaryOn = (iso: string): string | undefined => callSchedule?.days[iso];
+  const pgy4Start = settingsDate(settings.primaryCall.pgy4StartDate, setup.yearStart);
+  const jeopardyPGY4Start = settingsDate(settings.jeopardyCall.pgy4StartDate, setup.yearStart);
+
+  // Rules every duty shares: nobody works on a VAC block or during hard unavailability
+  const checkAvailable = (area: HealthArea, duty: string, fellow: Fellow, iso: string): boolean => {
+    if (rotationOn(fellow, iso) === "VAC") {
+      out.push({
+        severity: "error",
+        rule: "on-vacation",
+        area,
+        fellowId: fellow.id,
+        dates: [iso],
+        message: `${duty} during a VAC block`,
+        suggestion: `Reassign the ${duty.toLowerCase()} or move the vacation block.`,
+      });
+      return false;
+    }
+    const unavailable = findUnavailability(fellow, [iso], false);
+    if (unavailable) {
+      out.push({
+        severity: "error",
+        rule: "unavailable",
+        area,
+        fellowId: fellow.id,
+        dates: [iso],
+        message: `${duty} while ${unavailabilityReason(unavailable)}`,
+        suggestion: `Reassign the ${duty.toLowerCase()} to an available fellow.`,
+      });
+      return false;
+    }
+    return true;
+  };
+
+  if (setup.fellows.length > 0) {
+    checked.push("block");
+    checkBlocks(ctx, setup, out);
+  }
+
+  if (callSchedule) {
+    checked.push("primary");
+    const { primaryCall } = settings;
+    const callsByFellow: Record<string, string[]> = {};
+
+    for (const iso of dates) {
+      const fid = primaryOn(iso);
+      const fellow = fid ? fellowById.get(fid) : undefined;
+      if (!fellow) {
+        out.push({
+          severity: "error",
+          rule: "uncovered",
+          area: "primary",
+          fellowId: null,
+          dates: [iso],
+          message: fid ? "Primary call assigned to a fellow no longer in setup" : "No primary call assigned",
+          suggestion: "Assign an eligible fellow, or regenerate primary call for this range.",
+        });
+        continue;
+      }
+      (callsByFellow[fellow.id] = callsByFellow[fellow.id] ?? []).push(iso);
+      if (!checkAvailable("primary", "Primary call", fellow, iso)) continue;
+
+      const date = parseISO(iso);
+      const rot = rotationOn(fellow, iso);
+      if (rot && primaryCall.excludeRotations.includes(rot)) {
+        out.push({
+          severity: "error",
+          rule: "excluded-rotation",
+          area: "primary",
+          fellowId: fellow.id,
+          dates: [iso],
+          message: `Primary call while on ${rot}, which is excluded from primary call`,
+          suggestion: "Swap the call with a fellow on an eligible rotation.",
+        });
+      } else if (rot === "EP" && primaryCall.excludeEPOnDays.includes(date.getDay())) {
+        out.push({
+          severity: "error",
+          rule: "excluded-rotation",
+          area: "primary",
+          fellowId: fellow.id,
+          dates: [iso],
+          message: `Primary call on a ${format(date, "EEEE")} while on EP`,
+          suggestion: "Swap the call with a fellow not on EP, or to another weekday.",
+        });
+      }
+      if (fellow.pgy === "PGY-4" && iso < pgy4Start) {
+        out.push({
+          severity: "error",
+          rule: "pgy4-start",
+          area: "primary",
+          fellowId: fellow.id,
+          dates: [iso],
+          message: `PGY-4 primary call before ${format(parseISO(pgy4Start), "MMM d")}`,
+          suggestion: "Reassign the call to a PGY-5 or PGY-6.",
+        });
+      }
+      if (fellow.pgy === "PGY-6" && primaryCall.noPGY6OnHolidayEves && isChristmasEveOrNewYearsEve(date)) {
+        out.push({
+          severity: "error",
+          rule: "eligibility",
+          area: "primary",
+          fellowId: fellow.id,
+          dates: [iso],
+          message: "PGY-6 on primary call on a holiday eve",
+          suggestion: "Reassign the call to a PGY-4 or PGY-5.",
+        });
+      }
+    }
+
+    const caps = proratedQuotas(setup.fellows, setup.yearStart, (pgy) => primaryCall.maxCalls[pgy], setup.yearEnd);
+    for (const [fid, calls] of Object.entries(callsByFellow)) {
+      if (calls.length > caps[fid]) {
+        out.push({
+          severity: "error",
+          rule: "call-cap",
+          area: "primary",
+          fellowId: fid,
+          dates: calls.slice(caps[fid]),
+          message: `${calls.length} primary calls (cap ${caps[fid]})`,
+          suggestion: `Move ${calls.length - caps[fid]} of these calls to fellows under their cap.`,
+        });
+      }
+      calls.forEach((iso, i) => {
+        if (i === 0) return;
+        const prev = calls[i - 1];
+        const gap = differenceInCalendarDays(parseISO(iso), parseISO(prev));
+        if (gap < primaryCall.minSpacingDays) {
+          out.push({
+            severity: "error",
+            rule: "spacing",
+            area: "primary",
+            fellowId: fid,
+            dates: [prev, iso],
+            message: `Primary calls ${gap} day${gap === 1 ? "" : "s"} apart (minimum ${primaryCall.minSpacingDays})`,
+            suggestion: "Swap one of the two calls with another fellow.",
+          });
+        } else if (primaryCall.noConsecutiveSaturdays && gap === 7 && parseISO(iso).getDay() === 6) {
+          out.push({
+            severity: "error",
+            rule: "consecutive",
+            area: "primary",
+            fellowId: fid,
+            dates: [prev, iso],
+            message: "Primary call on consecutive Saturdays",
+            suggestion: "Swap one of the Saturdays with another fellow.",
+          });
+        }
+      });
+    }
+  }
+
+  if (jeopardySchedule) {
+    checked.push("jeopardy");
+    const { jeopardyCall } = settings;
+    const holidayJeopardy = new Set(getJeopardyHolidayBlocks(setup).flatMap((b) => b.dates));
+    for (const iso of dates) {
+      const fid = jeopardySchedule.days[iso];
+      const fellow = fid ? fellowById.get(fid) : undefined;
+      if (!fellow) {
+        out.push({
+          severity: "warning",
+          rule: "uncovered",
+          area: "jeopardy",
+          fellowId: null,
+          dates: [iso],
+          message: "No jeopardy assigned",
+          suggestion: "Assign an eligible fellow, or regenerate jeopardy for this range.",
+        });
+        continue;
+      }
+      if (!checkAvailable("jeopardy", "Jeopardy", fellow, iso)) continue;
+
+      const rot = rotationOn(fellow, iso);
+      if (rot && jeopardyCall.excludeRotations.includes(rot)) {
+        out.push({
+          severity: "error",
+          rule: "excluded-rotation",
+          area: "jeopardy",
+          fellowId: fellow.id,
+          dates: [iso],
+          message: `Jeopardy while on ${rot}, which is excluded from jeopardy`,
+          suggestion: "Reassign jeopardy to a fellow on an eligible rotation.",
+        });
+      }
+      if (fellow.pgy === "PGY-4" && iso < jeopardyPGY4Start) {
+        out.push({
+          severity: "error",
+          rule: "pgy4-start",
+          area: "jeopardy",
+          fellowId: fellow.id,
+          dates: [iso],
+          message: `PGY-4 jeopardy before ${format(parseISO(jeopardyPGY4Start), "MMM d")}`,
+          suggestion: "Reassign jeopardy to a PGY-5 or PGY-6.",
+        });
+      }
+      if (holidayJeopardy.has(iso) && !jeopardyCall.holidayEligibility.includes(fellow.pgy)) {
+        out.push({
+          severity: "error",
+          rule: "eligibility",
+          area: "jeopardy",
+          fellowId: fellow.id,
+          dates: [iso],
+          message: `Holiday jeopardy by a ${fellow.pgy}`,
+          suggestion: `Reassign holiday jeopardy to a ${jeopardyCall.holidayEligibility.join(" or ") || "eligible"} fellow.`,
+        });
+      }
+      if (primaryOn(iso) === fellow.id) {
+        out.push({
+          severity: "error",
+          rule: "same-day",
+          area: "jeopardy",
+          fellowId: fellow.id,
+          dates: [iso],
+          message: "Jeopardy on the same day as primary call",
+          suggestion: "Reassign jeopardy to another fellow.",
+        });
+      } else {
+        for (let i = 1; i <= jeopardyCall.minSpacingDays; i++) {
+          const callISO = toISODate(addDays(parseISO(iso), -i));
+          if (primaryOn(callISO) !== fellow.id) continue;
+          out.push({
+            severity: "error",
+            rule: "post-call",
+            area: "jeopardy",
+            fellowId: fellow.id,
+            dates: [iso, callISO],
+            message: `Jeopardy ${i} day${i === 1 ? "" : "s"} after primary call (minimum ${jeopardyCall.minSpacingDays})`,
+            suggestion: "Reassign jeopardy to a fellow who was not on call recently.",
+          });
+          break;
+        }
+      }
+    }
+  }
+
+  if (hfSchedule) {
+    checked.push("hf");
+    const { hfCoverage } = settings;
+    const holidayDates = new Set(Object.values(hfSchedule.holidays).flatMap((entry) => entry.slice(1)));
+    const weekendsByFellow: Record<string, string[]> = {};
+
+    for (const iso of dates) {
+      const date = parseISO(iso);
+      const isWeekend = date.getDay() === 0 || date.getDay() === 6;
+      const isHoliday = holidayDates.has(iso);
+      if (!isWeekend && !isHoliday) continue;
+      const fid = getEffectiveHFAssignment(iso, hfSchedule);
+      const fellow = fid ? fellowById.get(fid) : undefined;
+      if (!fellow) {
+        out.push({
+          severity: "warning",
+          rule: "uncovered",
+          area: "hf",
+          fellowId: null,
+          dates: [iso],
+          message: isHoliday ? "No HF holiday coverage assigned" : "No HF weekend coverage assigned",
+          suggestion: "Assign an HF fellow, or regenerate HF coverage for this range.",
+        });
+        continue;
+      }
+      if (date.getDay() === 6 && !isHoliday) (weekendsByFellow[fellow.id] = weekendsByFellow[fellow.id] ?? []).push(iso);
+      if (!checkAvailable("hf", "HF coverage", fellow, iso)) continue;
+
+      // The HF rotation rule looks at the block the weekend starts in, as the generator does
+      const rot = rotationOn(fellow, date.getDay() === 0 ? toISODate(addDays(date, -1)) : iso);
+      if (isHoliday) {
+        if (!hfCoverage.holidayEligibility.includes(fellow.pgy)) {
+          out.push({
+            severity: "error",
+            rule: "eligibility",
+            area: "hf",
+            fellowId: fellow.id,
+            dates: [iso],
+            message: `HF holiday coverage by a ${fellow.pgy}`,
+            suggestion: `Reassign the holiday to a ${hfCoverage.holidayEligibility.join(" or ") || "eligible"} fellow.`,
+          });
+        }
+      } else if (
+        rot !== "HF" &&
+        ((fellow.pgy === "PGY-4" && hfCoverage.pgy4OnlyDuringRotation) ||
+          (fellow.pgy === "PGY-6" && hfCoverage.pgy6OnlyDuringRotation))
+      ) {
+        out.push({
+          severity: "error",
+          rule: "hf-rotation",
+          area: "hf",
+          fellowId: fellow.id,
+          dates: [iso],
+          message: `HF coverage by a ${fellow.pgy} not on HF rotation${rot ? ` (on ${rot})` : ""}`,
+          suggestion: `Reassign the weekend to the ${fellow.pgy} on HF rotation, or to a PGY-5.`,
+        });
+      }
+      // As in the generator: no primary call on any day of the weekend or holiday block, or on the Friday
+      // before a Saturday. A midweek holiday does not look back at the day before it.
+      const dayBefore = toISODate(addDays(date, -1));
+      const dayBeforeCounts = isWeekend || holidayDates.has(dayBefore);
+      if (primaryOn(iso) === fellow.id || (dayBeforeCounts && primaryOn(dayBefore) === fellow.id)) {
+        out.push({
+          severity: "error",
+          rule: primaryOn(iso) === fellow.id ? "same-day" : "post-call",
+          area: "hf",
+          fellowId: fellow.id,
+          dates: primaryOn(iso) === fellow.id ? [iso] : [iso, dayBefore],
+          message: primaryOn(iso) === fellow.id ? "HF coverage on the same day as primary call" : "HF coverage on a post-call day",
+          suggestion: "Reassign the HF day, or swap the primary call.",
+        });
+      }
+    }
+
+    const quotas = proratedQuotas(setup.fellows, setup.yearStart, (pgy) => hfCoverage.weekendQuotas[pgy], setup.yearEnd);
+    for (const [fid, weekends] of Object.entries(weekendsByFellow)) {
+      // The generator never takes a PGY-5 over quota, but lets PGY-4s and PGY-6s go over when no one
+      // else can cover a weekend
+      if (weekends.length > quotas[fid]) {
+        const hardCap = fellowById.get(fid)?.pgy === "PGY-5";
+        out.push({
+          severity: hardCap ? "error" : "warning",
+          rule: "quota",
+          area: "hf",
+          fellowId: fid,
+          dates: weekends.slice(quotas[fid]),
+          message: hardCap
+            ? `${weekends.length} HF weekends, over the PGY-5 cap of ${quotas[fid]}`
+            : `${weekends.length} HF weekends (quota ${quotas[fid]}); allowed when no one else can cover`,
+          suggestion: hardCap
+            ? "Move the extra weekends to fellows under quota."
+            : "Move the extra weekends to fellows under quota if anyone has become eligible.",
+        });
+      }
+      weekends.forEach((iso, i) => {
+        if (i === 0) return;
+        const prev = weekends[i - 1];
+        const gap = differenceInCalendarDays(parseISO(iso), parseISO(prev));
+        if (hfCoverage.noConsecutiveWeekends && gap === 7) {
+          out.push({
+            severity: "error",
+            rule: "consecutive",
+            area: "hf",
+            fellowId: fid,
+            dates: [prev, iso],
+            message: "HF coverage on consecutive weekends",
+            suggestion: "Reassign one of the two weekends.",
+          });
+        } else if (gap < hfCoverage.minSpacingDays) {
+          out.push({
+            severity: "error",
+            rule: "spacing",
+            area: "hf",
+            fellowId: fid,
+            dates: [prev, iso],
+            message: `HF weekends ${gap} days apart (minimum ${hfCoverage.minSpacingDays})`,
+            suggestion: "Reassign one of the two weekends.",
+          });
+        }
+      });
+    }
+  }
+
+  if (clinicSchedule) {
+    checked.push("clinic");
+    const { clinics } = settings;
+    for (const iso of dates) {
+      for (const assignment of clinicSchedule.days[iso] ?? []) {
+        const fellow = fellowById.get(assignment.fellowId);
+        if (!fellow) continue;
+        const label = CLINIC_LABELS[assignment.clinicType] ?? assignment.clinicType;
+        if (!checkAvailable("clinic", label, fellow, iso)) continue;
+
+        const special = assignment.clinicType !== "GENERAL";
+        const rot = rotationOn(fellow, iso);
+        const excluded = special ? clinics.excludeRotations.special : clinics.excludeRotations.general;
+        if (holidays.has(iso)) {
+          out.push({
+            severity: "error",
+            rule: "eligibility",
+            area: "clinic",
+            fellowId: fellow.id,
+            dates: [iso],
+            message: `${label} on a holiday`,
+            suggestion: "Remove the clinic or move it to a working day.",
+          });
+        }
+        if (rot && excluded.includes(rot)) {
+          out.push({
+            severity: "error",
+            rule: "excluded-rotation",
+            area: "clinic",
+            fellowId: fellow.id,
+            dates: [iso],
+            message: `${label} while on ${rot}, which is excluded from ${special ? "specialty" : "general"} clinic`,
+            suggestion: "Reassign the clinic to a fellow on an eligible rotation.",
+          });
+        }
+        if (special) {
+          const config = clinics.specialClinics[SPECIAL_CLINIC_SETTINGS[assignment.clinicType]];
+          const primaryRotation = rot ? getPrimaryRotation(rot as Rotation) : undefined;
+          if (config && (!config.eligiblePGYs.includes(fellow.pgy) || !config.eligibleRotations.includes(primaryRotation ?? ""))) {
+            out.push({
+              severity: "error",
+              rule: "eligibility",
+              area: "clinic",
+              fellowId: fellow.id,
+              dates: [iso],
+              message: !config.eligiblePGYs.includes(fellow.pgy)
+                ? `${label} by a ${fellow.pgy}`
+                : `${label} while on ${rot ?? "no rotation"}`,
+              suggestion: "Reassign the clinic to an eligible fellow.",
+            });
+          }
+        }
+        const dayBefore = toISODate(addDays(parseISO(iso), -1));
+        if (clinics.excludePostCall && primaryOn(dayBefore) === fellow.id) {
+          out.push({
+            severity: "error",
+            rule: "post-call",
+            area: "clinic",
+            fellowId: fellow.id,
+            dates: [iso, dayBefore],
+            message: `${label} on a post-call day`,
+            suggestion: "Reassign the clinic, or swap the primary call the day before.",
+          });
+        }
+      }
+    }
+
+    for (const gap of checkSpecialtyClinicCoverage(clinicSchedule, setup, ctx).gaps) {
+      const ambulatory = gap.clinicType === "AMBULATORY_FELLOW";
+      out.push({
+        severity: "warning",
+        rule: "uncovered",
+        area: ambulatory ? "ambulatory" : "clinic",
+        fellowId: null,
+        dates: [gap.date],
+        message: ambulatory
+          ? "No ambulatory fellow assigned"
+          : `${CLINIC_LABELS[gap.clinicType as ClinicType]}: ${gap.assigned} of ${gap.required} fellows assigned`,
+        suggestion: "Assign an eligible fellow from the clinic calendar.",
+      });
+    }
+
+    if (clinicSchedule.ambulatoryAssignments) {
+      checked.push("ambulatory");
+      const { ambulatoryFellow } = settings;
+      const blocksByFellow: Record<string, string[]> = {};
+      let previous: { blockKey: string | undefined; fellowId: string | undefined; start: string } | null = null;
+      for (const iso of dates) {
+        const blockKey = blockKeyForDate(iso, setup.yearStart, settings.blockCalendar, setup.yearEnd);
+        if (previous && previous.blockKey === blockKey) continue;
+        const fellow = fellowById.get(clinicSchedule.ambulatoryAssignments[iso] ?? "");
+        if (fellow) {
+          (blocksByFellow[fellow.id] = blocksByFellow[fellow.id] ?? []).push(iso);
+          if (!ambulatoryFellow.eligiblePGYs.includes(fellow.pgy)) {
+            out.push({
+              severity: "error",
+              rule: "eligibility",
+              area: "ambulatory",
+              fellowId: fellow.id,
+              dates: [iso],
+              message: `Ambulatory fellow block by a ${fellow.pgy}`,
+              suggestion: `Reassign the block to a ${ambulatoryFellow.eligiblePGYs.join(" or ")} fellow.`,
+            });
+          }
+          if (ambulatoryFellow.noConsecutiveBlocks && previous?.fellowId === fellow.id) {
+            out.push({
+              severity: "error",
+              rule: "consecutive",
+              area: "ambulatory",
+              fellowId: fellow.id,
+              dates: [previous.start, iso],
+              message: "Ambulatory fellow for consecutive blocks",
+              suggestion: "Reassign one of the two blocks to another eligible fellow.",
+            });
+          }
+        }
+        previous = { blockKey, fellowId: fellow?.id, start: iso };
+      }
+      for (const [fid, starts] of Object.entries(blocksByFellow)) {
+        if (starts.length > ambulatoryFellow.maxAssignmentsPerFellow) {
+          out.push({
+            severity: "warning",
+            rule: "quota",
+            area: "ambulatory",
+            fellowId: fid,
+            dates: starts.slice(ambulatoryFellow.maxAssignmentsPerFellow),
+            message: `${starts.length} ambulatory fellow blocks (maximum ${ambulatoryFellow.maxAssignmentsPerFellow})`,
+            suggestion: "Move the extra blocks to other eligible fellows.",
+          });
+        }
+      }
+    }
+  }
+
+  const violations = mergeFindings(out).map((f, i) => ({ ...f, id: `${f.area}-${f.rule}-${i}` }));
+  const errors = violations.filter((v) => v.severity === "error").length;
+  return { checkedAt: new Date().toISOString(), checked, violations, errors, warnings: violations.length - errors };
+}
@@ -1,8 +1,19 @@
 import { differenceInCalendarDays, addDays, parseISO, format, isAfter } from "date-fns";
 import { computeAcademicYearHolidays } from "@/lib/holidays";
-import { loadSchedule, loadSetup, type Fellow, type PGY, type StoredSchedule, type SetupState } from "@/lib/schedule-engine";
-import { loadCallSchedule, type CallSchedule } from "@/lib/call-engine";
-import { loadSettings, type SchedulerSettings } from "@/lib/settings-engine";
+import { academicYearEnd, blockKeyForDate, generateAcademicYearBlocks, type BlockCalendar } from "@/lib/block-utils";
+import { type Fellow, type PGY, type StoredSchedule, type SetupState } from "@/lib/schedule-engine";
+import { type CallSchedule } from "@/lib/call-engine";
+import { type SchedulerSettings } from "@/lib/settings-engine";
+import { storageContext, type ScheduleContext } from "@/lib/schedule-context";
+import { reportProgress } from "@/lib/engine-progress";
+import { createRng, randomSeed, shuffle as shuffleWith } from "@/lib/seeded-random";
+import { priorHFWeekends, priorHolidayCounts } from "@/lib/academic-year-engine";
+import { findUnavailability, unavailabilityReason } from "@/lib/unavailability";
+import { proratedQuotas } from "@/lib/leave-engine";
+import { fixedAssignments, inRange, weekendInRange, type RegenerationRange } from "@/lib/regeneration-range";
+import { recordWrite } from "@/lib/history-engine";
+import { storage } from "@/lib/storage-engine";
+import { migrateStored, type Schema } from "@/lib/migration-engine";
 
 export type HFSchedule = {
   version: 2;
@@ -12,6 +23,7 @@ export type HFSchedule = {
   countsByFellow: Record<string, number>; // weekend counts
   holidayCountsByFellow: Record<string, number>; // holiday day counts
   dayOverrides?: Record<string, string | null>; // individual day ISO -> fellowId (null = clear assignment)
+  seed?: number; // seed of a randomized run; absent when weekends were filled in calendar order
 };
 
 const HF_SCHEDULE_STORAGE_KEY = "cfsa_hf_v2" as const;
@@ -41,108 +53,6 @@ function getWeekendStart(d: Date): Date {
   return addDays(d, 6 - day);
 }
 
-function dateToBlockKey(d: Date): string {
-  const months = ["JAN", "FEB", "MAR", "APR", "MAY", "JUN", "JUL", "AUG", "SEP", "OCT", "NOV", "DEC"];
-  const abbr = months[d.getMonth()];
-  const half = d.getDate() <= 15 ? 1 : 2;
-  return `${abbr}${half}`;
-}
-
-function getHFRotationWeekends(fellow: Fellow, schedByPGY: Record<PGY, StoredSchedule | null>, yearStartISO: string): Date[] {
-  const sched = schedByPGY[fellow.pgy];
-  if (!sched?.byFellow?.[fellow.id]) return [];
-  
-  const fellowBlocks = sched.byFellow[fellow.id];
-  const hfBlocks = Object.entries(fellowBlocks).filter(([_, rotation]) => rotation === "HF");
-  
-  if (hfBlocks.length === 0) return [];
-  
-  // Parse academic year start to get proper year calculation
-  const academicYearStart = parseISO(yearStartISO);
-  const rotationWeekends: Date[] = [];
-  
-  for (const [blockKey, _] of hfBlocks) {
-    // Parse block key like "JUL1" or "JUL2"
-    const monthName = blockKey.slice(0, 3);
-    const half = parseInt(blockKey.slice(3));
-    const monthIndex = ["JAN", "FEB", "MAR", "APR", "MAY", "JUN", "JUL", "AUG", "SEP", "OCT", "NOV", "DEC"].indexOf(monthName);
-    
-    if (monthIndex === -1) continue;
-    
-    // Calculate proper year for this block based on academic year start
-    const academicYearStartMonth = academicYearStart.getMonth();
-    const academicYearStartYear = academicYearStart.getFullYear();
-    
-    let blockYear: number;
-    if (monthIndex >= academicYearStartMonth) {
-      // Same academic year
-      blockYear = academicYearStartYear;
-    } else {
-      // Next calendar year
-      blockYear = academicYearStartYear + 1;
-    }
-    
-    if (half === 1) {
-      // First half: 1st to 15th
-      const start = new Date(blockYear, monthIndex, 1);
-      const end = new Date(blockYear, monthIndex, 15);
-      
-      // Find weekends in this range
-      let current = start;
-      while (current <= end) {
-        if (isWeekendDate(current)) {
-          const weekendStart = getWeekendStart(current);
-          if (weekendStart >= start && weekendStart <= end) {
-            rotationWeekends.push(new Date(weekendStart));
-          }
-        }
-        current = addDays(current, 1);
-      }
-    } else {
-      // Second half: 16th to end of month
-      const start = new Date(blockYear, monthIndex, 16);
-      const end = new Date(blockYear, monthIndex + 1, 0); // Last day of month
-      
-      // Find weekends in this range
-      let current = start;
-      while (current <= end) {
-        if (isWeekendDate(current)) {
-          const weekendStart = getWeekendStart(current);
-          if (weekendStart >= start && weekendStart <= end) {
-            rotationWeekends.push(new Date(weekendStart));
-          }
-        }
-        current = addDays(current, 1);
-      }
-    }
-  }
-  
-  return rotationWeekends.sort((a, b) => a.getTime() - b.getTime());
-}
-
-/**
- * Get the first day of an HF block based on the block key (e.g., "JAN1", "FEB2")
- */
-function getHFBlockStartDate(blockKey: string, yearStartISO: string): Date {
-  const monthName = blockKey.slice(0, 3);
-  const half = parseInt(blockKey.slice(3));
-  const monthIndex = ["JAN", "FEB", "MAR", "APR", "MAY", "JUN", "JUL", "AUG", "SEP", "OCT", "NOV", "DEC"].indexOf(monthName);
-  
-  const academicYearStart = parseISO(yearStartISO);
-  const academicYearStartMonth = academicYearStart.getMonth();
-  const academicYearStartYear = academicYearStart.getFullYear();
-  
-  let blockYear: number;
-  if (monthIndex >= academicYearStartMonth) {
-    blockYear = academicYearStartYear;
-  } else {
-    blockYear = academicYearStartYear + 1;
-  }
-  
-  const dayOfMonth = half === 1 ? 1 : 16;
-  return new Date(blockYear, monthIndex, dayOfMonth);
-}
-
 /**
  * Determine the weekend to assign based on rotation start day:
  * - Monday: prior weekend (Saturday 2 days before)
@@ -168,16 +78,22 @@ function getRotationStartWeekend(rotationStartDate: Date): Date {
   }
 }
 
-function getRotationOnDate(fellow: Fellow, date: Date, schedByPGY: Record<PGY, StoredSchedule | null>): string | undefined {
+function getRotationOnDate(
+  fellow: Fellow,
+  date: Date,
+  schedByPGY: Record<PGY, StoredSchedule | null>,
+  setup: SetupState,
+  calendar: BlockCalendar
+): string | undefined {
   const sched = schedByPGY[fellow.pgy];
   if (!sched || !sched.byFellow) return undefined;
   const row = sched.byFellow[fellow.id] || {};
-  const key = dateToBlockKey(date);
-  return row[key];
+  const key = blockKeyForDate(toISODate(date), setup.yearStart, calendar, setup.yearEnd);
+  return key ? row[key] : undefined;
 }
 
 function isHoliday(dateISO: string, setup: SetupState): boolean {
-  const holidays = setup.holidays?.length ? setup.holidays : computeAcademicYearHolidays(setup.yearStart);
+  const holidays = setup.holidays?.length ? setup.holidays : computeAcademicYearHolidays(setup.yearStart, setup.yearEnd);
   return holidays.some((h) => h.date === dateISO);
 }
 
@@ -193,7 +109,7 @@ function getHolidayBlock(startDate: Date, setup: SetupState): Date[] {
     return [startDate];
   }
 
-  const holidays = setup.holidays?.length ? setup.holidays : computeAcademicYearHolidays(setup.yearStart);
+  const holidays = setup.holidays?.length ? setup.holidays : computeAcademicYearHolidays(setup.yearStart, setup.yearEnd);
   const holiday = holidays.find(h => h.date === startISO);
   
   // Handle special holiday blocks
@@ -288,6 +204,7 @@ function isEligibleForHF(
   weekendStart: Date,
   setup: SetupState,
   schedByPGY: Record<PGY, StoredSchedule | null>,
+  calendar: BlockCalendar,
   primarySchedule: CallSchedule | null,
   hfCounts: Record<string, number>,
   lastWeekendAssignment: Record<string, string | undefined>,
@@ -302,6 +219,8 @@ function isEligibleForHF(
     ignoreSpacingAgainstHoliday?: boolean;
     relaxQuota?: boolean;
     relaxSpacing?: boolean;
+    weekendQuotas?: Record<string, number>; // per fellow, prorated for leave of absence
+    fixedWeekends?: string[]; // this fellow's pinned or kept weekends, which may fall after this one
   } = {}
 ): { eligible: boolean; reason?: string } {
   
@@ -326,7 +245,7 @@ function isEligibleForHF(
       }
     } else if (hfSettings.pgy6OnlyDuringRotation) {
       // For non-holiday weekends, check if restriction is enabled
-      const rotation = getRotationOnDate(fellow, weekendStart, schedByPGY);
+      const rotation = getRotationOnDate(fellow, weekendStart, schedByPGY, setup, calendar);
       if (rotation !== "HF") {
         return { eligible: false, reason: "PGY-6 not on HF rotation" };
       }
@@ -335,22 +254,27 @@ function isEligibleForHF(
   
   // PGY-4 rotation restriction (configurable)
   if (fellow.pgy === "PGY-4" && hfSettings.pgy4OnlyDuringRotation) {
-    const rotation = getRotationOnDate(fellow, weekendStart, schedByPGY);
+    const rotation = getRotationOnDate(fellow, weekendStart, schedByPGY, setup, calendar);
     if (rotation !== "HF") {
       return { eligible: false, reason: "PGY-4 only eligible during HF rotation" };
     }
   }
   
   // HARDCODED RULE: No fellow on vacation can work HF coverage (applies to all PGYs)
-  const rotation = getRotationOnDate(fellow, weekendStart, schedByPGY);
+  const rotation = getRotationOnDate(fellow, weekendStart, schedByPGY, setup, calendar);
   if (rotation === "VAC") {
     return { eligible: false, reason: "Cannot assign during vacation" };
   }
+
+  const unavailable = findUnavailability(fellow, [toISODate(weekendStart), toISODate(addDays(weekendStart, 1))]);
+  if (unavailable) {
+    return { eligible: false, reason: unavailabilityReason(unavailable) };
+  }
   
   // Check if at quota limit (use settings quotas)
   if (!isMandatory) {
     const currentCount = hfCounts[fellow.id] || 0;
-    const quota = hfSettings.weekendQuotas[fellow.pgy];
+    const quota = options.weekendQuotas?.[fellow.id] ?? hfSettings.weekendQuotas[fellow.pgy];
     
     // Hard cap for PGY-5 - never allow more than their configured quota
     if (fellow.pgy === "PGY-5" && currentCount >= quota) {
@@ -403,6 +327,13 @@ function isEligibleForHF(
         return { eligible: false, reason: `Too soon after last HF assignment (${daysBetween} days, need ${hfSettings.minSpacingDays})` };
       }
     }
+    const nearFixed = (options.fixedWeekends ?? []).find((iso) => {
+      const gap = Math.abs(differenceInCalendarDays(weekendStart, parseISO(iso)));
+      return gap > 0 && gap < hfSettings.minSpacingDays;
+    });
+    if (nearFixed) {
+      return { eligible: false, reason: `Too close to fixed HF weekend ${nearFixed} (need ${hfSettings.minSpacingDays} days)` };
+    }
   }
   
   return { eligible: true };
@@ -413,6 +344,7 @@ function isEligibleForHolidayHF(
   holidayBlock: { startDate: Date; dates: Date[]; isJuly4Weekend: boolean },
   setup: SetupState,
   schedByPGY: Record<PGY, StoredSchedule | null>,
+  calendar: BlockCalendar,
   primarySchedule: CallSchedule | null,
   lastHFAssignment: Record<string, string | undefined>,
   hfSettings: SchedulerSettings["hfCoverage"],
@@ -425,10 +357,15 @@ function isEligibleForHolidayHF(
   }
   
   // HARDCODED RULE: No fellow on vacation can work holiday coverage
-  const rotation = getRotationOnDate(fellow, holidayBlock.startDate, schedByPGY);
+  const rotation = getRotationOnDate(fellow, holidayBlock.startDate, schedByPGY, setup, calendar);
   if (rotation === "VAC") {
     return { eligible: false, reason: "Cannot assign during vacation" };
   }
+
+  const unavailable = findUnavailability(fellow, holidayBlock.dates.map(toISODate));
+  if (unavailable) {
+    return { eligible: false, reason: unavailabilityReason(unavailable) };
+  }
   
   // Check for primary call conflicts on any day in the holiday block
   if (primarySchedule) {
@@ -468,9 +405,9 @@ function isEligibleForHolidayHF(
   return { eligible: true };
 }
 
-function getAllWeekends(yearStartISO: string): Date[] {
+function getAllWeekends(yearStartISO: string, yearEndISO?: string): Date[] {
   const start = parseISO(yearStartISO);
-  const end = new Date(start.getFullYear() + 1, 5, 30); // June 30 next year
+  const end = parseISO(academicYearEnd(yearStartISO, yearEndISO));
   const weekends: Date[] = [];
   
   let current = start;
@@ -491,7 +428,7 @@ function getAllWeekends(yearStartISO: string): Date[] {
 }
 
 function getAllHolidayBlocks(setup: SetupState): { startDate: Date; dates: Date[]; isJuly4Weekend: boolean }[] {
-  const holidays = setup.holidays?.length ? setup.holidays : computeAcademicYearHolidays(setup.yearStart);
+  const holidays = setup.holidays?.length ? setup.holidays : computeAcademicYearHolidays(setup.yearStart, setup.yearEnd);
   const holidayBlocks: { startDate: Date; dates: Date[]; isJuly4Weekend: boolean }[] = [];
   const processedHolidays = new Set<string>();
   
@@ -524,37 +461,24 @@ export function buildHFSchedule(options: {
   seed?: number;
   randomize?: boolean;
   attempts?: number;
-} = {}): { 
+  // With a range, only weekends and holiday blocks inside it are (re)assigned; the rest is kept
+  range?: RegenerationRange;
+} = {}, ctx: ScheduleContext = storageContext()): { 
   schedule: HFSchedule; 
   uncovered: string[]; 
   uncoveredHolidays: string[];
   success: boolean;
   mandatoryMissed: string[];
 } {
-  const { seed = Date.now(), randomize = false, attempts = 1 } = options;
+  const { seed = randomSeed(), randomize = false, attempts = 1, range } = options;
   
-  // Load user settings
-  const settings = loadSettings();
+  const settings = ctx.settings;
   const hfSettings = settings.hfCoverage;
   
-  // Simple seeded random number generator
-  let rngSeed = seed;
-  const rng = () => {
-    rngSeed = (rngSeed * 9301 + 49297) % 233280;
-    return rngSeed / 233280;
-  };
-
-  const shuffle = <T>(array: T[]): T[] => {
-    if (!randomize) return array;
-    const result = [...array];
-    for (let i = result.length - 1; i > 0; i--) {
-      const j = Math.floor(rng() * (i + 1));
-      [result[i], result[j]] = [result[j], result[i]];
-    }
-    return result;
-  };
+  const rng = createRng(seed);
+  const shuffle = <T>(array: T[]): T[] => (randomize ? shuffleWith(array, rng) : array);
 
-  const setup = loadSetup();
+  const setup = ctx.setup;
   if (!setup) {
     return { 
       schedule: { 
@@ -573,14 +497,10 @@ export function buildHFSchedule(options: {
   }
 
   const fellows = setup.fellows || [];
-  const primarySchedule = loadCallSchedule();
+  const primarySchedule = ctx.callSchedule;
   
-  // Load existing block schedules
-  const schedByPGY: Record<PGY, StoredSchedule | null> = {
-    "PGY-4": loadSchedule("PGY-4"),
-    "PGY-5": loadSchedule("PGY-5"), 
-    "PGY-6": loadSchedule("PGY-6"),
-  };
+  // Existing block schedules
+  const schedByPGY: Record<PGY, StoredSchedule | null> = { ...ctx.schedules };
 
   const schedule: HFSchedule = {
     version: 2,
@@ -589,6 +509,7 @@ export function buildHFSchedule(options: {
     holidays: {},
     countsByFellow: {},
     holidayCountsByFellow: {},
+    seed: randomize ? seed : undefined,
   };
 
   // Initialize counts
@@ -597,12 +518,41 @@ export function buildHFSchedule(options: {
     schedule.holidayCountsByFellow[fellow.id] = 0;
   }
 
-  const allWeekends = getAllWeekends(setup.yearStart);
+  const weekendQuotas = proratedQuotas(fellows, setup.yearStart, (pgy) => hfSettings.weekendQuotas[pgy], setup.yearEnd);
+  const allWeekends = getAllWeekends(setup.yearStart, setup.yearEnd);
   const allHolidayBlocks = getAllHolidayBlocks(setup);
   const uncovered: string[] = [];
   const uncoveredHolidays: string[] = [];
   const mandatoryMissed: string[] = [];
   const lastWeekendAssignment: Record<string, string | undefined> = {};
+  // Start from the prior year's weekends so spacing holds across the change of academic year
+  for (const [weekendISO, fid] of Object.entries(priorHFWeekends(ctx))) {
+    const prev = lastWeekendAssignment[fid];
+    if (weekendISO < setup.yearStart && (!prev || prev < weekendISO)) lastWeekendAssignment[fid] = weekendISO;
+  }
+  const pastHolidays = priorHolidayCounts(ctx, "hf");
+
+  // Pinned weekends, and in a range run every weekend outside the range, go in first, ahead of the
+  // mandatory rotation-start weekends. They count toward quotas, and spacing is checked against them
+  // on both sides since they can fall after the weekend being filled.
+  const weekendISOs = new Set(allWeekends.map(toISODate));
+  const fixedByFellow: Record<string, string[]> = {};
+  for (const [weekendISO, fid] of Object.entries(fixedAssignments(ctx, range).hf)) {
+    if (!weekendISOs.has(weekendISO) || schedule.countsByFellow[fid] === undefined) continue;
+    schedule.weekends[weekendISO] = fid;
+    schedule.countsByFellow[fid]++;
+    fixedByFellow[fid] = [...(fixedByFellow[fid] ?? []), weekendISO];
+  }
+
+  // A range run also keeps the holiday blocks and day overrides outside the range
+  const current = range ? ctx.hfSchedule : null;
+  for (const [blockStartISO, [fid, ...dates]] of Object.entries(current?.holidays ?? {})) {
+    if (inRange(blockStartISO, range) || schedule.holidayCountsByFellow[fid] === undefined) continue;
+    schedule.holidays[blockStartISO] = [fid, ...dates];
+    schedule.holidayCountsByFellow[fid] += dates.length;
+  }
+  const keptOverrides = Object.entries(current?.dayOverrides ?? {}).filter(([iso]) => !inRange(iso, range));
+  if (keptOverrides.length > 0) schedule.dayOverrides = Object.fromEntries(keptOverrides);
 
   // Phase 1: Mandatory HF rotation assignments for PGY-5 and PGY-6 based on rotation start day
   // This runs FIRST to ensure rotation-start weekends are reserved before holiday distribution
@@ -613,6 +563,9 @@ export function buildHFSchedule(options: {
   // - PGY-5: can cover holiday or non-holiday weekends
   // - PGY-6: can only cover non-holiday weekends
   
+  const blockStarts = new Map(
+    generateAcademicYearBlocks(setup.yearStart, settings.blockCalendar, setup.yearEnd).map((b) => [b.key, parseISO(b.start)] as const)
+  );
   for (const fellow of fellows) {
     // Only apply rotation-start logic to PGY-5 and PGY-6
     if (fellow.pgy !== "PGY-5" && fellow.pgy !== "PGY-6") continue;
@@ -625,11 +578,13 @@ export function buildHFSchedule(options: {
     
     for (const [blockKey, _] of hfBlocks) {
       // Get the first day of this HF block
-      const rotationStartDate = getHFBlockStartDate(blockKey, setup.yearStart);
+      const rotationStartDate = blockStarts.get(blockKey);
+      if (!rotationStartDate) continue;
       
       // Determine which weekend to assign based on rotation start day of week
       const targetWeekend = getRotationStartWeekend(rotationStartDate);
       const weekendISO = toISODate(targetWeekend);
+      if (!weekendInRange(weekendISO, range)) continue;
       
       // Check if this is a holiday weekend
       const isHoliday = isHolidayWeekend(targetWeekend, allHolidayBlocks);
@@ -640,7 +595,10 @@ export function buildHFSchedule(options: {
         continue;
       }
       
-      // Skip if already assigned (another fellow's rotation start on same weekend)
+      // Pinned or kept for this fellow already
+      if (schedule.weekends[weekendISO] === fellow.id) continue;
+
+      // Skip if already assigned (pinned, or another fellow's rotation start on same weekend)
       if (schedule.weekends[weekendISO]) {
         mandatoryMissed.push(`${fellow.name} (${fellow.pgy}): Rotation start weekend ${weekendISO} already assigned`);
         continue;
@@ -652,6 +610,7 @@ export function buildHFSchedule(options: {
         targetWeekend, 
         setup, 
         schedByPGY, 
+        settings.blockCalendar,
         primarySchedule, 
         schedule.countsByFellow, 
         lastWeekendAssignment,
@@ -661,7 +620,9 @@ export function buildHFSchedule(options: {
         hfSettings,
         { 
           isMandatory: true, 
-          isHolidayWeekendOption: isHoliday
+          isHolidayWeekendOption: isHoliday,
+          weekendQuotas,
+          fixedWeekends: fixedByFellow[fellow.id]
         }
       );
       
@@ -676,7 +637,9 @@ export function buildHFSchedule(options: {
   }
 
   // Phase 0: Assign holiday blocks using fair distribution (runs after mandatory rotation assignments)
+  reportProgress("HF holiday blocks");
   for (const holidayBlock of shuffle([...allHolidayBlocks])) {
+    if (!inRange(toISODate(holidayBlock.startDate), range)) continue;
     const blockDates = getHolidayBlock(holidayBlock.startDate, setup);
     
     // Find eligible fellows for this holiday block
@@ -687,6 +650,7 @@ export function buildHFSchedule(options: {
         holidayBlock,
         setup,
         schedByPGY,
+        settings.blockCalendar,
         primarySchedule,
         lastWeekendAssignment,
         hfSettings
@@ -703,10 +667,10 @@ export function buildHFSchedule(options: {
       continue;
     }
     
-    // Fair distribution: prioritize lowest holiday count, then overall count
+    // Fair distribution: prioritize lowest holiday count (including earlier fellowship years), then overall count
     eligible.sort((a, b) => {
-      const aHolidayCount = schedule.holidayCountsByFellow[a.id] || 0;
-      const bHolidayCount = schedule.holidayCountsByFellow[b.id] || 0;
+      const aHolidayCount = (schedule.holidayCountsByFellow[a.id] || 0) + (pastHolidays[a.id] || 0);
+      const bHolidayCount = (schedule.holidayCountsByFellow[b.id] || 0) + (pastHolidays[b.id] || 0);
       
       // Primary sort: lowest holiday count
       if (aHolidayCount !== bHolidayCount) {
@@ -751,6 +715,7 @@ export function buildHFSchedule(options: {
   const remainingWeekends = allWeekends.filter(weekend => {
     const weekendISO = toISODate(weekend);
     if (schedule.weekends[weekendISO]) return false; // Already assigned
+    if (!weekendInRange(weekendISO, range)) return false; // Kept as it is
     
     // Only include non-holiday weekends (holiday weekends left unassigned)
     return !isHolidayWeekend(weekend, allHolidayBlocks);
@@ -763,6 +728,7 @@ export function buildHFSchedule(options: {
   const maxPasses = 4;
   
   while (passCount < maxPasses) {
+    reportProgress("HF weekend coverage pass", passCount + 1, maxPasses);
     let assignedInPass = 0;
     
     for (const weekend of remainingWeekends) {
@@ -778,6 +744,7 @@ export function buildHFSchedule(options: {
           weekend, 
           setup, 
           schedByPGY, 
+          settings.blockCalendar,
           primarySchedule, 
           schedule.countsByFellow, 
           lastWeekendAssignment, // Always use actual assignments for consecutive check
@@ -789,7 +756,9 @@ export function buildHFSchedule(options: {
             isMandatory: false,
             isHolidayWeekendOption: false,
             relaxQuota: relaxQuota && fellow.pgy !== "PGY-5", // Never relax quota for PGY-5
-            relaxSpacing: relaxSpacing
+            relaxSpacing: relaxSpacing,
+            weekendQuotas,
+            fixedWeekends: fixedByFellow[fellow.id]
           }
         );
         if (check.eligible) {
@@ -880,6 +849,7 @@ export function buildHFSchedule(options: {
         weekend, 
         setup, 
         schedByPGY, 
+        settings.blockCalendar,
         primarySchedule, 
         schedule.countsByFellow, 
         lastWeekendAssignment,
@@ -891,7 +861,9 @@ export function buildHFSchedule(options: {
           isMandatory: false,
           isHolidayWeekendOption: false,
           relaxQuota: fellow.pgy !== "PGY-5", // Allow quota relaxation except for PGY-5
-          relaxSpacing: true
+          relaxSpacing: true,
+          weekendQuotas,
+          fixedWeekends: fixedByFellow[fellow.id]
         }
       );
       
@@ -925,40 +897,41 @@ export function buildHFSchedule(options: {
   };
 }
 
+export const HF_SCHEDULE_SCHEMA: Schema<HFSchedule> = {
+  name: "HF schedule",
+  version: 2,
+  migrations: [
+    {
+      to: 2,
+      description: "Add holiday blocks to HF coverage",
+      // Version 1 only had weekends; its other fields are dropped
+      up: (v1) => ({ yearStart: v1.yearStart, weekends: v1.weekends || {}, countsByFellow: v1.countsByFellow || {} }),
+    },
+  ],
+  defaults: () => ({ weekends: {}, holidays: {}, countsByFellow: {}, holidayCountsByFellow: {} }),
+};
+
 export function loadHFSchedule(): HFSchedule | null {
   try {
-    const raw = localStorage.getItem(HF_SCHEDULE_STORAGE_KEY);
+    const raw = storage.getItem(HF_SCHEDULE_STORAGE_KEY);
     if (!raw) return null;
-    
-    const parsed = JSON.parse(raw);
-    
-    // Handle backwards compatibility for v1 schedules
-    if (parsed.version === 1) {
-      return {
-        version: 2,
-        yearStart: parsed.yearStart,
-        weekends: parsed.weekends || {},
-        holidays: {},
-        countsByFellow: parsed.countsByFellow || {},
-        holidayCountsByFellow: {},
-      };
-    }
-    
-    return parsed;
+    return migrateStored(HF_SCHEDULE_SCHEMA, HF_SCHEDULE_STORAGE_KEY, JSON.parse(raw));
   } catch {
     return null;
   }
 }
 
 export function saveHFSchedule(schedule: HFSchedule): void {
+  recordWrite(HF_SCHEDULE_STORAGE_KEY, "HF coverage");
   try {
-    localStorage.setItem(HF_SCHEDULE_STORAGE_KEY, JSON.stringify(schedule));
+    storage.setItem(HF_SCHEDULE_STORAGE_KEY, JSON.stringify(schedule));
   } catch {}
 }
 
 export function clearHFSchedule(): void {
+  recordWrite(HF_SCHEDULE_STORAGE_KEY, "HF coverage");
   try {
-    localStorage.removeItem(HF_SCHEDULE_STORAGE_KEY);
+    storage.removeItem(HF_SCHEDULE_STORAGE_KEY);
   } catch {}
 }
 
@@ -1053,16 +1026,15 @@ export function validateManualHFAssignment(
   callSchedule: any, // CallSchedule from call-engine
   schedByPGY: Record<PGY, StoredSchedule | null>,
   fellows: Fellow[],
-  hfSchedule?: HFSchedule | null
+  hfSchedule?: HFSchedule | null,
+  ctx: ScheduleContext = storageContext()
 ): { isValid: boolean; reason?: string } {
   const fellow = fellows.find(f => f.id === fellowId);
   if (!fellow) {
     return { isValid: false, reason: "Fellow not found" };
   }
 
-  // Load settings for validation
-  const settings = loadSettings();
-  const hfSettings = settings.hfCoverage;
+  const hfSettings = ctx.settings.hfCoverage;
 
   if (!callSchedule) {
     return { isValid: true }; // If no call schedule, allow assignment
@@ -1084,12 +1056,18 @@ export function validateManualHFAssignment(
   });
 
 
+  // Hard unavailability only; soft entries can be overridden by hand
+  const unavailable = findUnavailability(fellow, targetDates, false);
+  if (unavailable) {
+    return { isValid: false, reason: unavailabilityReason(unavailable) };
+  }
+
   // Check all dates in the assignment block
   for (const targetDateISO of targetDates) {
     const targetDate = parseISO(targetDateISO);
     
     // HARDCODED RULE: Check if fellow is on vacation during this date
-    const rotation = getRotationOnDate(fellow, targetDate, schedByPGY);
+    const rotation = getRotationOnDate(fellow, targetDate, schedByPGY, setup, ctx.settings.blockCalendar);
     if (rotation === "VAC") {
       return { 
         isValid: false, 
@@ -1169,12 +1147,12 @@ export function analyzeHFSchedule(schedule: HFSchedule, fellows: Fellow[], setup
   const weekendTracker: Record<string, Set<string>> = {}; // weekendStartISO -> Set of fellowIds assigned to days
   const uncoveredWeekends: string[] = [];
   const uncoveredHolidays: string[] = [];
-  const allWeekends = getAllWeekends(setup.yearStart);
+  const allWeekends = getAllWeekends(setup.yearStart, setup.yearEnd);
   const allHolidayBlocks = getAllHolidayBlocks(setup);
   
   // Analyze all dates in the academic year
   const start = parseISO(setup.yearStart);
-  const end = new Date(start.getFullYear() + 1, 5, 30); // June 30 next year
+  const end = parseISO(academicYearEnd(setup.yearStart, setup.yearEnd));
   let current = start;
   
   while (current <= end) {
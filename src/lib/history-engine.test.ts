@@ -0,0 +1,97 @@
+import { describe, expect, it } from "vitest";
+import {
+  HistoryReplayError,
+  beginEdit,
+  endEdit,
+  labelEdit,
+  loadHistory,
+  recordWrite,
+  redo,
+  undo,
+  undoTo,
+} from "@/lib/history-engine";
+import { markReadOnly, storage } from "@/lib/storage-engine";
+
+// Entries are committed once the task that wrote them ends
+const settle = () => new Promise((resolve) => setTimeout(resolve, 0));
+
+function save(key: string, value: string, area = "schedule") {
+  recordWrite(key, area);
+  storage.setItem(key, value);
+}
+
+describe("undo and redo", () => {
+  it("groups the writes of one task into one entry and puts them back", async () => {
+    storage.setItem("cfsa_a", "a0");
+    labelEdit("Edit both");
+    save("cfsa_a", "a1");
+    save("cfsa_b", "b1");
+    await settle();
+
+    expect(loadHistory().past.map((e) => e.label)).toEqual(["Edit both"]);
+
+    expect(undo()?.label).toBe("Edit both");
+    expect(storage.getItem("cfsa_a")).toBe("a0");
+    expect(storage.getItem("cfsa_b")).toBeNull();
+    expect(loadHistory()).toMatchObject({ past: [], future: [{ label: "Edit both" }] });
+
+    expect(redo()?.label).toBe("Edit both");
+    expect(storage.getItem("cfsa_a")).toBe("a1");
+    expect(storage.getItem("cfsa_b")).toBe("b1");
+    expect(loadHistory().future).toEqual([]);
+  });
+
+  it("does not record writes that left the value as it was", async () => {
+    storage.setItem("cfsa_a", "same");
+    save("cfsa_a", "same");
+    await settle();
+    expect(loadHistory().past).toEqual([]);
+  });
+
+  it("drops the redo side when a new edit is made", async () => {
+    save("cfsa_a", "1");
+    await settle();
+    undo();
+    save("cfsa_a", "2");
+    await settle();
+    expect(loadHistory().future).toEqual([]);
+    expect(redo()).toBeNull();
+  });
+
+  it("holds an edit open across awaits until endEdit", async () => {
+    beginEdit("Long edit");
+    save("cfsa_a", "1");
+    await settle();
+    save("cfsa_b", "1");
+    endEdit();
+    expect(loadHistory().past).toHaveLength(1);
+    expect(Object.keys(loadHistory().past[0].changes).sort()).toEqual(["cfsa_a", "cfsa_b"]);
+  });
+
+  it("undoes back to a chosen entry", async () => {
+    for (const value of ["1", "2", "3"]) {
+      labelEdit(`Set ${value}`);
+      save("cfsa_a", value);
+      await settle();
+    }
+    const first = loadHistory().past[0];
+    expect(undoTo(first.id)).toBe(2);
+    expect(storage.getItem("cfsa_a")).toBe("1");
+    expect(loadHistory().future.map((e) => e.label)).toEqual(["Set 2", "Set 3"]);
+  });
+});
+
+describe("a replay storage refuses", () => {
+  it("changes neither storage nor history", async () => {
+    labelEdit("Edit both");
+    save("cfsa_ok", "new");
+    save("cfsa_locked", "new");
+    await settle();
+    markReadOnly("cfsa_locked", "Saved by a newer version.");
+
+    expect(() => undo()).toThrow(HistoryReplayError);
+    expect(storage.getItem("cfsa_ok")).toBe("new");
+    expect(storage.getItem("cfsa_locked")).toBe("new");
+    expect(loadHistory()).toMatchObject({ past: [{ label: "Edit both" }], future: [] });
+  });
+});
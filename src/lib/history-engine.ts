@@ -0,0 +1,225 @@
+// Undo/redo for schedule edits. Every save and clear of a schedule reports the storage key it is about
+// to write; writes made in the same task are grouped into one history entry holding the raw stored
+// value of each key before and after, so undo and redo just put those values back.
+
+import { storage } from "@/lib/storage-engine";
+
+export type HistoryChange = { before: string | null; after: string | null };
+
+export type HistoryEntry = {
+  id: string;
+  label: string;
+  at: string; // ISO timestamp
+  changes: Record<string, HistoryChange>; // storage key -> stored JSON before and after
+};
+
+export type EditHistory = { past: HistoryEntry[]; future: HistoryEntry[] };
+
+export const HISTORY_STORAGE_KEY = "cfsa_history_v1";
+
+// Each entry holds whole stored schedules, so only the most recent edits are kept, on either side
+const MAX_ENTRIES = 30;
+
+export class HistoryReplayError extends Error {
+  constructor(action: "undo" | "redo", entry: HistoryEntry, keys: string[]) {
+    super(`Could not ${action} "${entry.label}": ${keys.join(", ")} could not be written. Nothing was changed.`);
+    this.name = "HistoryReplayError";
+  }
+}
+
+// Held entries stay open across awaits until endEdit, so a multi-step edit undoes as one
+type OpenEntry = { label?: string; before: Record<string, string | null>; areas: Set<string>; held?: boolean };
+
+let open: OpenEntry | null = null;
+let replaying = false;
+const listeners = new Set<(restored: boolean) => void>();
+const replayListeners = new Set<(entry: HistoryEntry, side: keyof HistoryChange) => void>();
+
+export function loadHistory(): EditHistory {
+  try {
+    const raw = storage.getItem(HISTORY_STORAGE_KEY);
+    if (!raw) return { past: [], future: [] };
+    const parsed = JSON.parse(raw) as Partial<EditHistory>;
+    return { past: parsed.past ?? [], future: parsed.future ?? [] };
+  } catch {
+    return { past: [], future: [] };
+  }
+}
+
+function saveHistory(history: EditHistory): void {
+  storage.setItem(
+    HISTORY_STORAGE_KEY,
+    JSON.stringify({ past: history.past.slice(-MAX_ENTRIES), future: history.future.slice(0, MAX_ENTRIES) })
+  );
+}
+
+function readRaw(key: string): string | null {
+  try {
+    return storage.getItem(key);
+  } catch {
+    return null;
+  }
+}
+
+// Failed writes are reported by the storage layer
+function writeRaw(key: string, value: string | null): void {
+  if (value === null) storage.removeItem(key);
+  else storage.setItem(key, value);
+}
+
+function notify(restored: boolean): void {
+  for (const fn of listeners) fn(restored);
+}
+
+export function subscribeHistory(fn: (restored: boolean) => void): () => void {
+  listeners.add(fn);
+  return () => {
+    listeners.delete(fn);
+  };
+}
+
+// Called for each entry undo or redo puts back; `side` is the value each key now holds. Lets data kept
+// out of the history, such as the trade log, note what the replay changed.
+export function subscribeReplay(fn: (entry: HistoryEntry, side: keyof HistoryChange) => void): () => void {
+  replayListeners.add(fn);
+  return () => {
+    replayListeners.delete(fn);
+  };
+}
+
+function openEntry(): OpenEntry {
+  if (!open) {
+    open = { before: {}, areas: new Set() };
+    queueMicrotask(() => {
+      if (!open?.held) commit();
+    });
+  }
+  return open;
+}
+
+function commit(): void {
+  const entry = open;
+  open = null;
+  if (!entry) return;
+  const changes: Record<string, HistoryChange> = {};
+  for (const [key, before] of Object.entries(entry.before)) {
+    const after = readRaw(key);
+    if (after !== before) changes[key] = { before, after };
+  }
+  // Writes that only touched companion data (coverage metadata, say) are not an edit of their own
+  if (entry.areas.size === 0 || Object.keys(changes).length === 0) return;
+  const areas = [...entry.areas];
+  const history = loadHistory();
+  history.past.push({
+    id: crypto.randomUUID(),
+    label: entry.label ?? `Edit ${areas.join(", ")}`,
+    at: new Date().toISOString(),
+    changes,
+  });
+  saveHistory({ past: history.past, future: [] });
+  notify(false);
+}
+
+// Called by every schedule save and clear just before it writes. `area` names what the key holds for
+// the default label; companion keys that are only ever written alongside another pass null.
+export function recordWrite(key: string, area: string | null): void {
+  if (replaying) return;
+  const entry = openEntry();
+  if (!(key in entry.before)) entry.before[key] = readRaw(key);
+  if (area) entry.areas.add(area);
+}
+
+// Name the edit that the schedule writes in this task belong to, e.g. "Generate HF coverage"
+export function labelEdit(label: string): void {
+  if (replaying) return;
+  openEntry().label = label;
+}
+
+// Start an edit that waits on engine jobs; every schedule write until endEdit belongs to it
+export function beginEdit(label: string): void {
+  if (replaying) return;
+  const entry = openEntry();
+  entry.label = label;
+  entry.held = true;
+}
+
+export function endEdit(): void {
+  if (open?.held) commit();
+}
+
+// Put back one side of an entry. A key storage refuses (read-only data from a newer version, a full
+// quota) fails the whole replay: the keys already written go back and the failed ones are returned.
+function replay(entry: HistoryEntry, side: keyof HistoryChange): string[] {
+  const other: keyof HistoryChange = side === "before" ? "after" : "before";
+  const written: string[] = [];
+  const failed: string[] = [];
+  replaying = true;
+  try {
+    for (const [key, change] of Object.entries(entry.changes)) {
+      writeRaw(key, change[side]);
+      if (readRaw(key) === change[side]) written.push(key);
+      else failed.push(key);
+    }
+    if (failed.length) for (const key of written) writeRaw(key, entry.changes[key][other]);
+  } finally {
+    replaying = false;
+  }
+  if (failed.length) return failed;
+  for (const fn of replayListeners) fn(entry, side);
+  return [];
+}
+
+// Throws HistoryReplayError, leaving storage and history as they were, when a write is refused
+export function undo(): HistoryEntry | null {
+  const history = loadHistory();
+  const entry = history.past.pop();
+  if (!entry) return null;
+  const failed = replay(entry, "before");
+  if (failed.length) throw new HistoryReplayError("undo", entry, failed);
+  saveHistory({ past: history.past, future: [entry, ...history.future] });
+  notify(true);
+  return entry;
+}
+
+export function redo(): HistoryEntry | null {
+  const history = loadHistory();
+  const [entry, ...future] = history.future;
+  if (!entry) return null;
+  const failed = replay(entry, "after");
+  if (failed.length) throw new HistoryReplayError("redo", entry, failed);
+  saveHistory({ past: [...history.past, entry], future });
+  notify(true);
+  return entry;
+}
+
+// Undo every edit after this one, leaving it as the latest. Stops at the first edit that cannot be
+// undone, keeping the ones before it undone, and throws HistoryReplayError.
+export function undoTo(id: string): number {
+  const history = loadHistory();
+  const index = history.past.findIndex((e) => e.id === id);
+  if (index < 0) return 0;
+  const past = history.past.slice();
+  const future = history.future.slice();
+  let error: HistoryReplayError | null = null;
+  while (past.length > index + 1) {
+    const entry = past[past.length - 1];
+    const failed = replay(entry, "before");
+    if (failed.length) {
+      error = new HistoryReplayError("undo", entry, failed);
+      break;
+    }
+    future.unshift(past.pop()!);
+  }
+  const count = history.past.length - past.length;
+  if (count) {
+    saveHistory({ past, future });
+    notify(true);
+  }
+  if (error) throw error;
+  return count;
+}
+
+export function clearHistory(): void {
+  writeRaw(HISTORY_STORAGE_KEY, null);
+  notify(false);
+}
@@ -1,3 +1,5 @@
+import { academicYearEnd } from "@/lib/block-utils";
+
 export type HolidayDef = {
   id: string;
   name: string;
@@ -27,29 +29,25 @@ function lastWeekdayOfMonth(year: number, monthIndex: number, weekday: number):
   return new Date(year, monthIndex + 1, 0 - delta);
 }
 
-export function computeAcademicYearHolidays(startIsoDate: string): HolidayDef[] {
-  const start = new Date(startIsoDate);
-  if (isNaN(start.getTime())) return [];
-  const startYear = start.getFullYear();
-  const nextYear = startYear + 1;
-
-  const july4 = new Date(startYear, 6, 4);
-  const laborDay = nthWeekdayOfMonth(startYear, 8, 1, 1); // Sep, Monday, 1st
-  const indigenous = nthWeekdayOfMonth(startYear, 9, 1, 2); // Oct, Monday, 2nd
-  const veterans = new Date(startYear, 10, 11); // Nov 11
-  const thanksgiving = nthWeekdayOfMonth(startYear, 10, 4, 4); // Nov, Thursday, 4th
+// The 13 holidays falling in one calendar year
+function holidaysOfYear(year: number): HolidayDef[] {
+  const july4 = new Date(year, 6, 4);
+  const laborDay = nthWeekdayOfMonth(year, 8, 1, 1); // Sep, Monday, 1st
+  const indigenous = nthWeekdayOfMonth(year, 9, 1, 2); // Oct, Monday, 2nd
+  const veterans = new Date(year, 10, 11); // Nov 11
+  const thanksgiving = nthWeekdayOfMonth(year, 10, 4, 4); // Nov, Thursday, 4th
   const dayAfterThanksgiving = new Date(thanksgiving);
   dayAfterThanksgiving.setDate(thanksgiving.getDate() + 1);
-  const christmas = new Date(startYear, 11, 25); // Dec 25
+  const christmas = new Date(year, 11, 25); // Dec 25
 
-  const newYears = new Date(nextYear, 0, 1); // Jan 1
-  const mlk = nthWeekdayOfMonth(nextYear, 0, 1, 3); // Jan, Monday, 3rd
-  const presidents = nthWeekdayOfMonth(nextYear, 1, 1, 3); // Feb, Monday, 3rd
-  const cesarChavez = new Date(nextYear, 2, 31); // Mar 31
-  const memorial = lastWeekdayOfMonth(nextYear, 4, 1); // May, Monday (last)
-  const juneteenth = new Date(nextYear, 5, 19); // Jun 19
+  const newYears = new Date(year, 0, 1); // Jan 1
+  const mlk = nthWeekdayOfMonth(year, 0, 1, 3); // Jan, Monday, 3rd
+  const presidents = nthWeekdayOfMonth(year, 1, 1, 3); // Feb, Monday, 3rd
+  const cesarChavez = new Date(year, 2, 31); // Mar 31
+  const memorial = lastWeekdayOfMonth(year, 4, 1); // May, Monday (last)
+  const juneteenth = new Date(year, 5, 19); // Jun 19
 
-  const list: HolidayDef[] = [
+  return [
     { id: "INDEPENDENCE_DAY", name: "Independence Day", date: toISO(july4) },
     { id: "LABOR_DAY", name: "Labor Day", date: toISO(laborDay) },
     { id: "INDIGENOUS_PEOPLES_DAY", name: "Indigenous Peoples Day", date: toISO(indigenous) },
@@ -64,6 +62,17 @@ export function computeAcademicYearHolidays(startIsoDate: string): HolidayDef[]
     { id: "MEMORIAL_DAY", name: "Memorial Day", date: toISO(memorial) },
     { id: "JUNETEENTH", name: "Juneteenth", date: toISO(juneteenth) },
   ];
+}
+
+// Holidays inside the academic year, in date order. The year is at most twelve months, so a fixed-date
+// holiday appears once; a partial year simply has fewer.
+export function computeAcademicYearHolidays(startIsoDate: string, endIsoDate?: string): HolidayDef[] {
+  const start = new Date(`${startIsoDate.slice(0, 10)}T00:00:00`);
+  if (isNaN(start.getTime())) return [];
+  const first = toISO(start);
+  const last = academicYearEnd(first, endIsoDate);
 
-  return list;
+  return [...holidaysOfYear(start.getFullYear()), ...holidaysOfYear(start.getFullYear() + 1)]
+    .filter((h) => h.date >= first && h.date <= last)
+    .sort((a, b) => a.date.localeCompare(b.date));
 }
@@ -0,0 +1,45 @@
+import { describe, expect, it } from "vitest";
+import { buildFellowCalendar } from "@/lib/ical-export";
+import { createScheduleContext } from "@/lib/schedule-context";
+import { type Fellow } from "@/lib/schedule-engine";
+
+const octets = (line: string) => new TextEncoder().encode(line).length;
+// RFC 5545 3.1: a line break followed by a single space continues the previous line
+const unfold = (ics: string) => ics.replace(/\r\n /g, "");
+
+function calendar(fellowName: string, holidayName: string) {
+  const fellow: Fellow = { id: "f1", name: fellowName, pgy: "PGY-4", vacationPrefs: [] };
+  const ctx = createScheduleContext({
+    setup: { yearStart: "2025-07-01", fellows: [fellow], holidays: [{ id: "h1", date: "2025-07-04", name: holidayName }] },
+    callSchedule: { version: 1, yearStart: "2025-07-01", days: { "2025-07-04": "f1" }, countsByFellow: { f1: 1 } },
+  });
+  return buildFellowCalendar(fellow, ctx, new Date("2025-06-01T12:00:00Z"));
+}
+
+describe("buildFellowCalendar line folding", () => {
+  it("keeps every line within 75 octets and unfolds to the original text", () => {
+    const name = "Dr. Alexandria Konstantinopoulou-Vanderbilt, Cardiology Fellow; Research Track";
+    const ics = calendar(name, "Independence Day");
+    for (const line of ics.split("\r\n")) expect(octets(line)).toBeLessThanOrEqual(75);
+    expect(unfold(ics)).toContain(`X-WR-CALNAME:Dr. Alexandria Konstantinopoulou-Vanderbilt\\, Cardiology Fellow\\; Research Track 2025–26`);
+  });
+
+  it("never splits a multi-byte character or a surrogate pair", () => {
+    const holiday = "Fête nationale 🎆🎇 célébrée avec des feux d’artifice — très, très, très longue description";
+    const ics = calendar("Zoë", holiday);
+    const lines = ics.split("\r\n");
+    for (const line of lines) {
+      expect(octets(line)).toBeLessThanOrEqual(75);
+      // A lone surrogate would not survive a round trip through UTF-8
+      expect(new TextDecoder().decode(new TextEncoder().encode(line))).toBe(line);
+    }
+    expect(lines.filter((line) => line.startsWith(" ")).length).toBeGreaterThan(0);
+    expect(unfold(ics)).toContain(`DESCRIPTION:${holiday.replace(/,/g, "\\,")}`);
+  });
+
+  it("ends every line, the last included, with CRLF", () => {
+    const ics = calendar("Sam", "Holiday");
+    expect(ics.endsWith("END:VCALENDAR\r\n")).toBe(true);
+    expect(ics.replace(/\r\n/g, "")).not.toMatch(/[\r\n]/);
+  });
+});
@@ -0,0 +1,171 @@
+import { addDays, format, parseISO } from "date-fns";
+import JSZip from "jszip";
+import { academicYearWindow, blockKeyForDate, generateAcademicYearBlocks } from "@/lib/block-utils";
+import { type Fellow } from "@/lib/schedule-engine";
+import { type Rotation } from "@/lib/rotation-engine";
+import { getRotationDisplayName } from "@/lib/rotation-utils";
+import { getEffectiveHFAssignment } from "@/lib/hf-engine";
+import { type ClinicType } from "@/lib/clinic-engine";
+import { academicYearLabel } from "@/lib/academic-year-engine";
+import { storageContext, type ScheduleContext } from "@/lib/schedule-context";
+
+// One all-day event. UIDs are built from what the event is (duty, date or block, fellow), never from
+// who else is on it, so re-importing an updated export replaces the event instead of adding a copy.
+// Block keys repeat every year, so block events also carry the academic year's start date.
+type CalendarEvent = {
+  uid: string;
+  start: string; // ISO date
+  end: string; // ISO date, inclusive
+  summary: string;
+  description?: string;
+};
+
+const UID_DOMAIN = "cardiology-scheduler";
+
+const CLINIC_NAMES: Record<ClinicType, string> = {
+  GENERAL: "General clinic",
+  HEART_FAILURE: "Heart failure clinic",
+  ACHD: "ACHD clinic",
+  DEVICE: "Device clinic",
+  EP: "EP clinic",
+};
+
+const toISO = (d: Date) => format(d, "yyyy-MM-dd");
+
+function yearDays(yearStartISO: string, yearEndISO?: string): string[] {
+  return academicYearWindow(yearStartISO, yearEndISO).days.map(toISO);
+}
+
+// Every assignment the fellow has in the current academic year
+export function fellowCalendarEvents(fellow: Fellow, ctx: ScheduleContext = storageContext()): CalendarEvent[] {
+  const { setup, settings } = ctx;
+  if (!setup) return [];
+  const id = fellow.id;
+  const uid = (kind: string, key: string) => `${kind}-${key}-${id}@${UID_DOMAIN}`;
+  const blockUid = (kind: string, blockKey: string) => uid(kind, `${setup.yearStart}-${blockKey}`);
+  const events: CalendarEvent[] = [];
+
+  const row = ctx.schedules[fellow.pgy]?.byFellow?.[id] ?? {};
+  for (const block of generateAcademicYearBlocks(setup.yearStart, settings.blockCalendar, setup.yearEnd)) {
+    const rotation = row[block.key];
+    if (!rotation) continue;
+    events.push({
+      uid: blockUid("rotation", block.key),
+      start: block.start,
+      end: block.end,
+      summary: getRotationDisplayName(rotation as Rotation, settings.rotationCatalog),
+      description: `Block ${block.key} (${block.label})`,
+    });
+  }
+
+  const holidayNames = Object.fromEntries((setup.holidays ?? []).map((h) => [h.date, h.name] as const));
+  for (const day of yearDays(setup.yearStart, setup.yearEnd)) {
+    const holiday = holidayNames[day];
+    if (ctx.callSchedule?.days[day] === id) {
+      events.push({ uid: uid("primary", day), start: day, end: day, summary: "Primary call", description: holiday });
+    }
+    if (ctx.jeopardySchedule?.days[day] === id) {
+      events.push({ uid: uid("jeopardy", day), start: day, end: day, summary: "Jeopardy", description: holiday });
+    }
+    // Effective assignment, so day overrides win over the weekend or holiday block
+    if (getEffectiveHFAssignment(day, ctx.hfSchedule) === id) {
+      const summary = holiday ? "HF holiday coverage" : "HF coverage";
+      events.push({ uid: uid("hf", day), start: day, end: day, summary, description: holiday });
+    }
+    for (const clinic of ctx.clinicSchedule?.days[day] ?? []) {
+      if (clinic.fellowId !== id) continue;
+      events.push({ uid: uid(`clinic-${clinic.clinicType.toLowerCase()}`, day), start: day, end: day, summary: CLINIC_NAMES[clinic.clinicType] });
+    }
+  }
+
+  // Ambulatory assignments run a whole block; one event per block
+  const ambulatory: Record<string, string[]> = {};
+  for (const [day, fid] of Object.entries(ctx.clinicSchedule?.ambulatoryAssignments ?? {})) {
+    const key = blockKeyForDate(day, setup.yearStart, settings.blockCalendar, setup.yearEnd);
+    if (fid === id && key) ambulatory[key] = [...(ambulatory[key] ?? []), day];
+  }
+  for (const [key, days] of Object.entries(ambulatory)) {
+    days.sort();
+    events.push({ uid: blockUid("ambulatory", key), start: days[0], end: days[days.length - 1], summary: "Ambulatory fellow" });
+  }
+
+  return events.sort((a, b) => a.start.localeCompare(b.start) || a.summary.localeCompare(b.summary));
+}
+
+function escapeText(text: string): string {
+  return text.replace(/\\/g, "\\\\").replace(/\n/g, "\\n").replace(/([,;])/g, "\\$1");
+}
+
+const utf8Length = (codePoint: number) => (codePoint < 0x80 ? 1 : codePoint < 0x800 ? 2 : codePoint < 0x10000 ? 3 : 4);
+
+// Lines longer than 75 octets of UTF-8 continue on the next line after a single space (RFC 5545 3.1).
+// Folds fall between characters, never inside a multi-byte character or a surrogate pair.
+function fold(line: string): string {
+  const parts: string[] = [];
+  let current = "";
+  let octets = 0;
+  for (const char of line) {
+    const size = utf8Length(char.codePointAt(0)!);
+    if (octets + size > 75) {
+      parts.push(current);
+      current = " ";
+      octets = 1;
+    }
+    current += char;
+    octets += size;
+  }
+  parts.push(current);
+  return parts.join("\r\n");
+}
+
+const icsDate = (iso: string) => iso.replace(/-/g, "");
+
+export function buildFellowCalendar(fellow: Fellow, ctx: ScheduleContext = storageContext(), now = new Date()): string {
+  const stamp = now.toISOString().replace(/[-:]/g, "").replace(/\.\d{3}/, "");
+  // Each export carries a higher SEQUENCE than the last, so calendar apps take it as the newer version
+  const sequence = Math.floor(now.getTime() / 1000);
+  const year = ctx.setup ? ` ${academicYearLabel(ctx.setup.yearStart)}` : "";
+  const lines = [
+    "BEGIN:VCALENDAR",
+    "VERSION:2.0",
+    "PRODID:-//Cardiology Scheduler//Schedule Export//EN",
+    "CALSCALE:GREGORIAN",
+    "METHOD:PUBLISH",
+    `X-WR-CALNAME:${escapeText(`${fellow.name || fellow.id}${year}`)}`,
+  ];
+  for (const event of fellowCalendarEvents(fellow, ctx)) {
+    lines.push(
+      "BEGIN:VEVENT",
+      `UID:${event.uid}`,
+      `DTSTAMP:${stamp}`,
+      `SEQUENCE:${sequence}`,
+      `DTSTART;VALUE=DATE:${icsDate(event.start)}`,
+      `DTEND;VALUE=DATE:${icsDate(toISO(addDays(parseISO(event.end), 1)))}`,
+      `SUMMARY:${escapeText(event.summary)}`,
+      ...(event.description ? [`DESCRIPTION:${escapeText(event.description)}`] : []),
+      "TRANSP:TRANSPARENT",
+      "END:VEVENT"
+    );
+  }
+  lines.push("END:VCALENDAR");
+  return lines.map(fold).join("\r\n") + "\r\n";
+}
+
+export function calendarFileName(fellow: Fellow): string {
+  const name = (fellow.name || fellow.id).trim().replace(/[^A-Za-z0-9._-]+/g, "_");
+  return `${name || fellow.id}.ics`;
+}
+
+// One calendar file per fellow, zipped
+export async function buildCalendarZip(fellows: Fellow[], ctx: ScheduleContext = storageContext()): Promise<Blob> {
+  const zip = new JSZip();
+  const now = new Date();
+  const used = new Set<string>();
+  for (const fellow of fellows) {
+    let fileName = calendarFileName(fellow);
+    if (used.has(fileName)) fileName = fileName.replace(/\.ics$/, `_${fellow.id}.ics`);
+    used.add(fileName);
+    zip.file(fileName, buildFellowCalendar(fellow, ctx, now));
+  }
+  return zip.generateAsync({ type: "blob" });
+}
@@ -0,0 +1,233 @@
+import { type BlockInfo } from "@/lib/block-utils";
+import { type Fellow, type FellowSchedule, type PGY, getAllPGYVacationCounts } from "@/lib/schedule-engine";
+import { loadSettings, saveSettings, type SchedulerSettings } from "@/lib/settings-engine";
+import { findRotation } from "@/lib/rotation-catalog";
+import { findRotationConflicts } from "@/lib/rotation-cp-engine";
+import { findInfeasibleCore, solveCP, type CPModel, type CPStatus } from "@/lib/cp-solver";
+import { storageContext, type ScheduleContext } from "@/lib/schedule-context";
+
+// A one-click change to settings that removes a conflict
+export type RelaxAction = {
+  label: string;
+  apply: () => void;
+};
+
+export type ConflictEntry = {
+  id: string;
+  description: string;
+  relax?: RelaxAction;
+};
+
+export type InfeasibilityReport = {
+  pgy: PGY;
+  kind: "vacations" | "rotations";
+  // "infeasible": conflicts is a set of rules that cannot all hold together
+  // "feasible": the rules can be met, so the failure came from the quick solver's search order
+  // "unknown": the analysis ran out of time before deciding
+  status: CPStatus;
+  summary: string;
+  conflicts: ConflictEntry[];
+};
+
+function updateSettings(patch: (s: SchedulerSettings) => Partial<SchedulerSettings>) {
+  const current = loadSettings();
+  saveSettings({ ...current, ...patch(current) });
+}
+
+function pgySettingsKey(pgy: PGY): "pgy4" | "pgy5" | "pgy6" {
+  return pgy === "PGY-4" ? "pgy4" : pgy === "PGY-5" ? "pgy5" : "pgy6";
+}
+
+function summarize(kind: InfeasibilityReport["kind"], pgy: PGY, status: CPStatus): string {
+  const what = kind === "vacations" ? `${pgy} vacation` : `${pgy} rotation`;
+  switch (status) {
+    case "infeasible":
+      return `No ${what} schedule can satisfy all of the rules below at once. Relaxing any one of them may be enough.`;
+    case "unknown":
+      return `The analysis ran out of time before it could decide whether the ${what} rules can be met.`;
+    default:
+      return `The ${what} rules can be met; the quick solver just missed the solution. Try again, or use the constraint solver.`;
+  }
+}
+
+function rotationRelaxAction(pgy: PGY, ruleId: string, ctx: ScheduleContext): RelaxAction | undefined {
+  const key = pgySettingsKey(pgy);
+  if (ruleId === "fixed-counts" || ruleId.startsWith("vacation:")) return undefined;
+  if (ruleId === "non-consecutive") {
+    return {
+      label: "Allow back-to-back repeats",
+      apply: () =>
+        updateSettings((s) => ({
+          blockRotations: { ...s.blockRotations, [key]: { ...s.blockRotations[key], enforceNonConsecutiveMonths: false } },
+        })),
+    };
+  }
+  if (ruleId === "early-lac-cath") {
+    return {
+      label: "Drop the early LAC_CATH rule",
+      apply: () =>
+        updateSettings((s) => ({
+          blockRotations: { ...s.blockRotations, pgy4: { ...s.blockRotations.pgy4, enforceEarlyLacCathRule: false } },
+        })),
+    };
+  }
+  const customId = ruleId.startsWith("quota:") ? ruleId.slice("quota:".length) : null;
+  const custom = customId ? findRotation(ctx.settings.rotationCatalog, customId) : undefined;
+  if (custom && !custom.builtIn) {
+    const next = Math.max(0, (custom.blocksPerYear[pgy] || 0) - 1);
+    return {
+      label: `Lower ${custom.name} to ${next} block${next === 1 ? "" : "s"}`,
+      apply: () =>
+        updateSettings((s) => ({
+          rotationCatalog: s.rotationCatalog.map((r) =>
+            r.id === custom.id ? { ...r, blocksPerYear: { ...r.blocksPerYear, [pgy]: next } } : r
+          ),
+        })),
+    };
+  }
+  // Remaining rules are built into the solvers; only the constraint solver can relax them
+  return {
+    label: "Relax in the constraint solver",
+    apply: () =>
+      updateSettings((s) => {
+        const current = s.blockRotations.relaxedRules?.[pgy] ?? [];
+        return {
+          blockRotations: {
+            ...s.blockRotations,
+            relaxedRules: { ...s.blockRotations.relaxedRules, [pgy]: [...new Set([...current, ruleId])] },
+          },
+        };
+      }),
+  };
+}
+
+// Rules relaxed for the constraint solver from earlier reports, so they can be reviewed and restored
+export function getRelaxedSolverRules(pgy: PGY): string[] {
+  return loadSettings().blockRotations.relaxedRules?.[pgy] ?? [];
+}
+
+export function restoreSolverRules(pgy: PGY) {
+  updateSettings((s) => ({
+    blockRotations: { ...s.blockRotations, relaxedRules: { ...s.blockRotations.relaxedRules, [pgy]: [] } },
+  }));
+}
+
+export function analyzeRotationFailure(
+  pgy: PGY,
+  fellows: Fellow[],
+  blocks: BlockInfo[],
+  existingByFellow: FellowSchedule | undefined,
+  opts?: { timeout?: number },
+  ctx: ScheduleContext = storageContext()
+): InfeasibilityReport {
+  const { status, conflicts } = findRotationConflicts(pgy, fellows, blocks, existingByFellow, opts, ctx);
+  return {
+    pgy,
+    kind: "rotations",
+    status,
+    summary: summarize("rotations", pgy, status),
+    conflicts: conflicts.map((rule) => ({ ...rule, relax: rotationRelaxAction(pgy, rule.id, ctx) })),
+  };
+}
+
+// Mirrors the quick vacation solver's failure condition: every fellow needs at least one vacation,
+// taken from their own preferences, within the per-PGY and all-PGY block limits.
+export function analyzeVacationFailure(
+  pgy: PGY,
+  fellows: Fellow[],
+  blocks: BlockInfo[],
+  opts?: { timeout?: number },
+  ctx: ScheduleContext = storageContext()
+): InfeasibilityReport {
+  const timeout = opts?.timeout ?? 20000;
+  const start = Date.now();
+  const { vacation } = ctx.settings;
+  const crossCounts = getAllPGYVacationCounts(ctx);
+  const name = (f: Fellow) => f.name || f.id;
+
+  const rules: ConflictEntry[] = [];
+  if (vacation.julyRestriction) {
+    rules.push({
+      id: "july-restriction",
+      description: "No vacations in July",
+      relax: { label: "Allow July vacations", apply: () => updateSettings((s) => ({ vacation: { ...s.vacation, julyRestriction: false } })) },
+    });
+  }
+  if (vacation.pgy4AugustRestriction && pgy === "PGY-4") {
+    rules.push({
+      id: "pgy4-august",
+      description: "No PGY-4 vacations in August",
+      relax: {
+        label: "Allow August vacations",
+        apply: () => updateSettings((s) => ({ vacation: { ...s.vacation, pgy4AugustRestriction: false } })),
+      },
+    });
+  }
+  rules.push({
+    id: "max-fellows-per-block",
+    description: `At most ${vacation.maxFellowsPerBlock} ${pgy} fellow${vacation.maxFellowsPerBlock === 1 ? "" : "s"} on vacation per block`,
+    relax: {
+      label: `Allow ${vacation.maxFellowsPerBlock + 1} per block`,
+      apply: () => updateSettings((s) => ({ vacation: { ...s.vacation, maxFellowsPerBlock: s.vacation.maxFellowsPerBlock + 1 } })),
+    },
+  });
+  const busyBlocks = blocks.filter((b) => (crossCounts[b.key] || 0) > 0).map((b) => `${b.key} (${crossCounts[b.key]})`);
+  rules.push({
+    id: "max-total-per-block",
+    description:
+      `At most ${vacation.maxTotalPerBlock} fellows on vacation per block across all PGYs` +
+      (busyBlocks.length ? `; already saved: ${busyBlocks.join(", ")}` : ""),
+    relax: {
+      label: `Allow ${vacation.maxTotalPerBlock + 1} in total`,
+      apply: () => updateSettings((s) => ({ vacation: { ...s.vacation, maxTotalPerBlock: s.vacation.maxTotalPerBlock + 1 } })),
+    },
+  });
+  const blockKeys = new Set(blocks.map((b) => b.key));
+  const prefsOf = (f: Fellow) => [...new Set((f.vacationPrefs || []).filter((p): p is string => !!p && blockKeys.has(p)))];
+  for (const f of fellows) {
+    const prefs = prefsOf(f);
+    rules.push({
+      id: `prefs:${f.id}`,
+      description: prefs.length
+        ? `${name(f)} only takes vacation in preferred blocks (${prefs.join(", ")})`
+        : `${name(f)} has no vacation preferences`,
+    });
+  }
+
+  const build = (relaxed: Set<string>): CPModel => {
+    const maxFellows = vacation.maxFellowsPerBlock + (relaxed.has("max-fellows-per-block") ? 1 : 0);
+    const maxTotal = vacation.maxTotalPerBlock + (relaxed.has("max-total-per-block") ? 1 : 0);
+    const monthOf = new Map(blocks.map((b) => [b.key, b.monthIndex] as const));
+    const allowed = (key: string) =>
+      !(vacation.julyRestriction && !relaxed.has("july-restriction") && monthOf.get(key) === 0) &&
+      !(vacation.pgy4AugustRestriction && pgy === "PGY-4" && !relaxed.has("pgy4-august") && monthOf.get(key) === 1);
+    const indexOf = new Map(blocks.map((b, i) => [b.key, i] as const));
+    return {
+      blockCount: blocks.length,
+      monthOf: blocks.map((b) => b.monthIndex),
+      owners: fellows.map((f) => f.id),
+      items: fellows.map((f) => {
+        const pool = relaxed.has(`prefs:${f.id}`) ? [...blockKeys] : prefsOf(f);
+        return {
+          id: `${f.id}:VAC`,
+          owner: f.id,
+          label: "VAC",
+          candidates: pool.filter(allowed).map((k) => [indexOf.get(k)!]),
+        };
+      }),
+      occupied: {},
+      // Same limits as the quick solver: under the per-PGY cap, and the all-PGY count may reach the total
+      capacity: {
+        VAC: blocks.map((b) => Math.max(0, Math.min(maxFellows, maxTotal - (crossCounts[b.key] || 0) + 1))),
+      },
+      separations: [],
+      groups: {},
+      custom: [],
+    };
+  };
+
+  const res = solveCP(build(new Set()), { firstSolution: true, timeout: Math.floor(timeout / 2) });
+  const conflicts =
+    res.status === "infeasible" ? findInfeasibleCore(rules, build, { deadline: start + timeout }) : [];
+  return { pgy, kind: "vacations", status: res.status, summary: summarize("vacations", pgy, res.status), conflicts };
+}
@@ -1,9 +1,20 @@
 import { parseISO, format, differenceInCalendarDays, addDays, isSameDay } from "date-fns";
 import { computeAcademicYearHolidays } from "@/lib/holidays";
-import { loadSchedule, loadSetup, type Fellow, type PGY, type StoredSchedule, type SetupState } from "@/lib/schedule-engine";
-import { loadCallSchedule, type CallSchedule } from "@/lib/call-engine";
-import { loadHFSchedule } from "@/lib/hf-engine";
-import { loadSettings } from "@/lib/settings-engine";
+import { academicYearEnd, blockKeyForDate, type BlockCalendar } from "@/lib/block-utils";
+import { type Fellow, type PGY, type StoredSchedule, type SetupState } from "@/lib/schedule-engine";
+import { type CallSchedule } from "@/lib/call-engine";
+import { type HFSchedule } from "@/lib/hf-engine";
+import { type SchedulerSettings } from "@/lib/settings-engine";
+import { storageContext, type ScheduleContext } from "@/lib/schedule-context";
+import { reportProgress } from "@/lib/engine-progress";
+import { createRng, randomSeed, shuffle, type Rng } from "@/lib/seeded-random";
+import { findUnavailability, unavailabilityReason } from "@/lib/unavailability";
+import { proratedQuotas } from "@/lib/leave-engine";
+import { fixedAssignments, inRange, type RegenerationRange } from "@/lib/regeneration-range";
+import { recordWrite } from "@/lib/history-engine";
+import { storage } from "@/lib/storage-engine";
+import { migrateStored, type Schema } from "@/lib/migration-engine";
+import { burdenOutside, burdenPoints } from "@/lib/burden-engine";
 
 export type JeopardySchedule = {
   version: 1;
@@ -13,6 +24,7 @@ export type JeopardySchedule = {
   weekdayCountsByFellow: Record<string, number>;
   weekendCountsByFellow: Record<string, number>;
   holidayCountsByFellow: Record<string, number>;
+  seed?: number; // seed used to break ties between equally fair candidates
 };
 
 export type JeopardyAssignmentType = "weekday" | "weekend" | "holiday";
@@ -26,9 +38,11 @@ export type JeopardyBlock = {
 const JEOPARDY_STORAGE_KEY = "cfsa_jeopardy_v1" as const;
 
 // Calculate dynamic quotas based on total holiday coverage needed and settings
-function calculateDynamicQuotas(yearStartISO: string, setup: SetupState): Record<PGY, { weekday: number; weekend: number; holiday: number; total: number }> {
-  const settings = loadSettings();
-  
+function calculateDynamicQuotas(
+  yearStartISO: string,
+  setup: SetupState,
+  settings: SchedulerSettings
+): Record<PGY, { weekday: number; weekend: number; holiday: number; total: number }> {
   // Build base quotas from settings
   const baseQuotas: Record<PGY, { weekday: number; weekend: number; holiday: number; total: number }> = {
     "PGY-4": {
@@ -58,7 +72,7 @@ function calculateDynamicQuotas(yearStartISO: string, setup: SetupState): Record
   };
   
   // Count total holiday days that need coverage
-  const holidays = setup.holidays?.length ? setup.holidays : computeAcademicYearHolidays(yearStartISO);
+  const holidays = setup.holidays?.length ? setup.holidays : computeAcademicYearHolidays(yearStartISO, setup.yearEnd);
   const holidayBlocks = generateHolidayBlocks(holidays);
   const totalHolidayDays = holidayBlocks.reduce((sum, block) => sum + block.dayCount, 0);
   
@@ -82,6 +96,29 @@ function calculateDynamicQuotas(yearStartISO: string, setup: SetupState): Record
   return baseQuotas;
 }
 
+// Dynamic quotas per fellow, prorated for leave of absence
+function fellowQuotas(
+  yearStartISO: string,
+  setup: SetupState,
+  settings: SchedulerSettings
+): Record<string, { weekday: number; weekend: number; holiday: number; total: number }> {
+  const byPGY = calculateDynamicQuotas(yearStartISO, setup, settings);
+  const weekday = proratedQuotas(setup.fellows, yearStartISO, (pgy) => byPGY[pgy].weekday, setup.yearEnd);
+  const weekend = proratedQuotas(setup.fellows, yearStartISO, (pgy) => byPGY[pgy].weekend, setup.yearEnd);
+  // Holiday quotas already follow the holidays inside the year, so only leave prorates them
+  const holiday = proratedQuotas(setup.fellows, yearStartISO, (pgy) => byPGY[pgy].holiday);
+  const quotas: Record<string, { weekday: number; weekend: number; holiday: number; total: number }> = {};
+  for (const f of setup.fellows) {
+    quotas[f.id] = {
+      weekday: weekday[f.id],
+      weekend: weekend[f.id],
+      holiday: holiday[f.id],
+      total: weekday[f.id] + weekend[f.id] + holiday[f.id],
+    };
+  }
+  return quotas;
+}
+
 function toISODate(d: Date): string {
   return format(d, "yyyy-MM-dd");
 }
@@ -92,42 +129,41 @@ function isWeekendDate(d: Date): boolean {
 }
 
 function isHolidayDate(dateISO: string, setup: SetupState): boolean {
-  const holidays = setup.holidays?.length ? setup.holidays : computeAcademicYearHolidays(setup.yearStart);
+  const holidays = setup.holidays?.length ? setup.holidays : computeAcademicYearHolidays(setup.yearStart, setup.yearEnd);
   return holidays.some((h) => h.date === dateISO);
 }
 
 // Check if a date is on or after the PGY-4 jeopardy start date (from settings)
-function afterPGY4StartDate(d: Date, yearStartISO: string): boolean {
-  const settings = loadSettings();
+function afterPGY4StartDate(d: Date, yearStartISO: string, settings: SchedulerSettings): boolean {
   const start = parseISO(yearStartISO);
   
   // Parse the MM-DD format from settings (e.g., "08-15")
   const [month, day] = settings.jeopardyCall.pgy4StartDate.split('-').map(Number);
-  const pgy4Start = new Date(start.getFullYear(), month - 1, day); // month is 0-indexed
+  // A month before the start month falls in the year's second calendar year
+  const year = month - 1 < start.getMonth() ? start.getFullYear() + 1 : start.getFullYear();
+  const pgy4Start = new Date(year, month - 1, day); // month is 0-indexed
   
   return d >= pgy4Start;
 }
 
-function dateToBlockKey(d: Date): string {
-  const monthNames = ["Jan", "Feb", "Mar", "Apr", "May", "Jun", "Jul", "Aug", "Sep", "Oct", "Nov", "Dec"];
-  const abbr = monthNames[d.getMonth()];
-  const half = d.getDate() <= 15 ? 1 : 2;
-  return `${abbr.toUpperCase()}${half}`;
-}
-
-function getRotationOnDate(fellow: Fellow, date: Date, schedByPGY: Record<PGY, StoredSchedule | null>): string | undefined {
+function getRotationOnDate(
+  fellow: Fellow,
+  date: Date,
+  schedByPGY: Record<PGY, StoredSchedule | null>,
+  setup: SetupState,
+  calendar: BlockCalendar
+): string | undefined {
   const sched = schedByPGY[fellow.pgy];
   if (!sched || !sched.byFellow) return undefined;
   const row = sched.byFellow[fellow.id] || {};
-  const key = dateToBlockKey(date);
-  return row[key];
+  const key = blockKeyForDate(toISODate(date), setup.yearStart, calendar, setup.yearEnd);
+  return key ? row[key] : undefined;
 }
 
 // Check if fellow has post-call spacing conflict (2-day rule AFTER primary call)
-function hasPostCallConflict(fellow: Fellow, date: Date, primarySchedule: CallSchedule): boolean {
+function hasPostCallConflict(fellow: Fellow, date: Date, primarySchedule: CallSchedule, settings: SchedulerSettings): boolean {
   if (!primarySchedule) return false;
   
-  const settings = loadSettings();
   const minSpacing = settings.jeopardyCall.minSpacingDays;
   
   // Check if fellow has primary call within minSpacing days before this jeopardy date
@@ -142,8 +178,7 @@ function hasPostCallConflict(fellow: Fellow, date: Date, primarySchedule: CallSc
 }
 
 // Check if fellow has HF weekend coverage conflict
-function hasHFWeekendConflict(fellow: Fellow, dates: string[]): boolean {
-  const hfSchedule = loadHFSchedule();
+function hasHFWeekendConflict(fellow: Fellow, dates: string[], hfSchedule: HFSchedule | null): boolean {
   if (!hfSchedule) return false;
   
   // Check if any of the jeopardy dates conflict with HF weekend coverage
@@ -163,11 +198,11 @@ function hasHFWeekendConflict(fellow: Fellow, dates: string[]): boolean {
 // Generate all jeopardy blocks for the academic year
 function generateJeopardyBlocks(yearStartISO: string, setup: SetupState): JeopardyBlock[] {
   const start = parseISO(yearStartISO);
-  const end = new Date(start.getFullYear() + 1, 5, 30); // June 30 of next year
+  const end = parseISO(academicYearEnd(yearStartISO, setup.yearEnd));
   const blocks: JeopardyBlock[] = [];
   
   // Get all holidays for the academic year
-  const holidays = setup.holidays?.length ? setup.holidays : computeAcademicYearHolidays(yearStartISO);
+  const holidays = setup.holidays?.length ? setup.holidays : computeAcademicYearHolidays(yearStartISO, setup.yearEnd);
   const holidaySet = new Set(holidays.map(h => h.date));
   
   // Helper to check if a date is a holiday
@@ -297,11 +332,25 @@ function generateHolidayBlocks(holidays: Array<{ date: string; name: string }>):
 }
 
 // Check if fellow is eligible for a jeopardy block
-function isEligibleForBlock(fellow: Fellow, block: JeopardyBlock, setup: SetupState, schedByPGY: Record<PGY, StoredSchedule | null>, primarySchedule: CallSchedule): boolean {
+function isEligibleForBlock(
+  fellow: Fellow,
+  block: JeopardyBlock,
+  setup: SetupState,
+  schedByPGY: Record<PGY, StoredSchedule | null>,
+  primarySchedule: CallSchedule,
+  settings: SchedulerSettings,
+  hfSchedule: HFSchedule | null,
+  includeSoftUnavailability = true
+): boolean {
+  // Conferences, leave and interviews; manual edits may override soft entries
+  if (findUnavailability(fellow, block.dates, includeSoftUnavailability)) {
+    return false;
+  }
+
   // Basic eligibility: PGY-4 after their start date (from settings)
   if (fellow.pgy === "PGY-4") {
     const firstDate = parseISO(block.dates[0]);
-    if (!afterPGY4StartDate(firstDate, setup.yearStart)) {
+    if (!afterPGY4StartDate(firstDate, setup.yearStart, settings)) {
       return false;
     }
   }
@@ -325,10 +374,11 @@ function isEligibleForBlock(fellow: Fellow, block: JeopardyBlock, setup: SetupSt
   }
   
   // Check rotation exclusions for all dates in the block
+  const { excludeRotations } = settings.jeopardyCall;
   for (const dateISO of block.dates) {
     const date = parseISO(dateISO);
-    const rotation = getRotationOnDate(fellow, date, schedByPGY);
-    if (rotation === "VAC" || rotation === "HF" || rotation === "CCU") {
+    const rotation = getRotationOnDate(fellow, date, schedByPGY, setup, settings.blockCalendar);
+    if (rotation && excludeRotations.includes(rotation)) {
       return false;
     }
   }
@@ -336,13 +386,13 @@ function isEligibleForBlock(fellow: Fellow, block: JeopardyBlock, setup: SetupSt
   // Check post-call spacing conflicts for all dates in the block
   for (const dateISO of block.dates) {
     const date = parseISO(dateISO);
-    if (hasPostCallConflict(fellow, date, primarySchedule)) {
+    if (hasPostCallConflict(fellow, date, primarySchedule, settings)) {
       return false;
     }
   }
   
   // Check HF weekend conflicts
-  if (hasHFWeekendConflict(fellow, block.dates)) {
+  if (hasHFWeekendConflict(fellow, block.dates, hfSchedule)) {
     return false;
   }
   
@@ -392,8 +442,8 @@ function wouldCreateConsecutiveConflict(
 }
 
 // Check quota limits with dynamic quotas
-function isWithinQuotaLimits(fellow: Fellow, block: JeopardyBlock, currentCounts: Record<string, { weekday: number; weekend: number; holiday: number; total: number }>, dynamicQuotas: Record<PGY, { weekday: number; weekend: number; holiday: number; total: number }>): boolean {
-  const quota = dynamicQuotas[fellow.pgy];
+function isWithinQuotaLimits(fellow: Fellow, block: JeopardyBlock, currentCounts: Record<string, { weekday: number; weekend: number; holiday: number; total: number }>, dynamicQuotas: Record<string, { weekday: number; weekend: number; holiday: number; total: number }>): boolean {
+  const quota = dynamicQuotas[fellow.id];
   const counts = currentCounts[fellow.id] || { weekday: 0, weekend: 0, holiday: 0, total: 0 };
   
   if (block.type === "weekday") {
@@ -405,30 +455,40 @@ function isWithinQuotaLimits(fellow: Fellow, block: JeopardyBlock, currentCounts
   }
 }
 
+// Each point of total call burden above the lightest candidate costs this much score
+const BURDEN_SCORE_PER_POINT = 5;
+
 // Fairness-aware selection algorithm that considers normalized utilization and distribution
 function selectFellowFair(
   fellows: Fellow[], 
   currentCounts: Record<string, { weekday: number; weekend: number; holiday: number; total: number }>,
-  dynamicQuotas: Record<PGY, { weekday: number; weekend: number; holiday: number; total: number }>,
-  lastAssignedDate: Record<string, string>
+  dynamicQuotas: Record<string, { weekday: number; weekend: number; holiday: number; total: number }>,
+  lastAssignedDate: Record<string, string>,
+  block: JeopardyBlock,
+  rng: Rng,
+  // Points across all duties, when the generator balances total burden
+  burden: Record<string, number> | null = null
 ): Fellow | null {
   if (fellows.length === 0) return null;
+  const lightest = burden ? Math.min(...fellows.map((f) => burden[f.id] ?? 0)) : 0;
   
-  // Calculate scores for each fellow based on fairness metrics
-  const fellowScores = fellows.map(fellow => {
+  // Calculate scores for each fellow based on fairness metrics. Candidates are shuffled first so
+  // equal scores are broken by the seed rather than always favoring the first fellow in setup.
+  const fellowScores = shuffle(fellows, rng).map(fellow => {
     const counts = currentCounts[fellow.id] || { weekday: 0, weekend: 0, holiday: 0, total: 0 };
-    const quota = dynamicQuotas[fellow.pgy];
+    const quota = dynamicQuotas[fellow.id];
     const lastAssigned = lastAssignedDate[fellow.id];
     
     // Normalize utilization by PGY quota to ensure fairness across different PGY levels
     const normalizedUtilization = quota.total > 0 ? counts.total / quota.total : 0;
     
-    // Calculate days since last assignment (higher = better)
+    // Calculate days between the last assignment and this block (higher = better)
     const daysSinceLastAssignment = lastAssigned ? 
-      Math.max(0, differenceInCalendarDays(new Date(), parseISO(lastAssigned))) : 999;
+      Math.max(0, differenceInCalendarDays(parseISO(block.dates[0]), parseISO(lastAssigned))) : 999;
     
     // Score: lower normalized utilization and longer time since last assignment = higher score
-    const score = (1 - normalizedUtilization) * 100 + daysSinceLastAssignment;
+    const burdenPenalty = burden ? ((burden[fellow.id] ?? 0) - lightest) * BURDEN_SCORE_PER_POINT : 0;
+    const score = (1 - normalizedUtilization) * 100 + daysSinceLastAssignment - burdenPenalty;
     
     return { fellow, score, normalizedUtilization, daysSinceLastAssignment };
   });
@@ -439,8 +499,14 @@ function selectFellowFair(
   return fellowScores[0].fellow;
 }
 
-export function buildJeopardySchedule(): { schedule: JeopardySchedule; success: boolean; uncovered: string[]; errors: string[] } {
-  const setup = loadSetup();
+export function buildJeopardySchedule(
+  // With a range, only days inside it are (re)assigned and the rest of the current schedule is kept
+  options: { seed?: number; range?: RegenerationRange } = {},
+  ctx: ScheduleContext = storageContext()
+): { schedule: JeopardySchedule; success: boolean; uncovered: string[]; errors: string[] } {
+  const { setup, settings, callSchedule: primarySchedule, hfSchedule } = ctx;
+  const { seed = randomSeed(), range } = options;
+  const rng = createRng(seed);
   if (!setup) {
     return {
       schedule: { version: 1, yearStart: toISODate(new Date()), days: {}, countsByFellow: {}, weekdayCountsByFellow: {}, weekendCountsByFellow: {}, holidayCountsByFellow: {} },
@@ -450,8 +516,6 @@ export function buildJeopardySchedule(): { schedule: JeopardySchedule; success:
     };
   }
   
-  const settings = loadSettings();
-  const primarySchedule = loadCallSchedule();
   if (!primarySchedule) {
     return {
       schedule: { version: 1, yearStart: setup.yearStart, days: {}, countsByFellow: {}, weekdayCountsByFellow: {}, weekendCountsByFellow: {}, holidayCountsByFellow: {} },
@@ -461,14 +525,10 @@ export function buildJeopardySchedule(): { schedule: JeopardySchedule; success:
     };
   }
   
-  const schedByPGY: Record<PGY, StoredSchedule | null> = {
-    "PGY-4": loadSchedule("PGY-4"),
-    "PGY-5": loadSchedule("PGY-5"),
-    "PGY-6": loadSchedule("PGY-6"),
-  };
+  const schedByPGY: Record<PGY, StoredSchedule | null> = { ...ctx.schedules };
   
   // Calculate dynamic quotas based on holiday coverage needs
-  const dynamicQuotas = calculateDynamicQuotas(setup.yearStart, setup);
+  const dynamicQuotas = fellowQuotas(setup.yearStart, setup, settings);
   
   // Generate all jeopardy blocks
   const blocks = generateJeopardyBlocks(setup.yearStart, setup);
@@ -493,16 +553,53 @@ export function buildJeopardySchedule(): { schedule: JeopardySchedule; success:
   for (const fellow of setup.fellows) {
     currentCounts[fellow.id] = { weekday: 0, weekend: 0, holiday: 0, total: 0 };
   }
+
+  // Balancing across duties starts each fellow at their primary call, HF and clinic points
+  const burden = settings.burden.balanceAcrossDuties ? burdenOutside("jeopardy", ctx) : null;
+  const points = burdenPoints(setup, settings);
+
+  // Count one date toward the fellow's weekday, weekend or holiday total
+  const countDate = (fellowId: string, dateISO: string) => {
+    if (burden) burden[fellowId] = (burden[fellowId] ?? 0) + points.jeopardy(dateISO);
+    const counts = currentCounts[fellowId];
+    if (isHolidayDate(dateISO, setup)) {
+      counts.holiday += 1;
+    } else if (isWeekendDate(parseISO(dateISO))) {
+      counts.weekend += 1;
+    } else {
+      counts.weekday += 1;
+    }
+    counts.total += 1;
+  };
+
+  // Pinned days, and in a range run every assigned day outside the range, are assigned up front and
+  // count toward quotas before any block is filled
+  const pinned: Record<string, string> = {};
+  const yearDates = new Set(blocks.flatMap((b) => b.dates));
+  for (const [dateISO, fellowId] of Object.entries(fixedAssignments(ctx, range).jeopardy)) {
+    if (!yearDates.has(dateISO) || !currentCounts[fellowId]) continue;
+    pinned[dateISO] = fellowId;
+    assignments[dateISO] = fellowId;
+    countDate(fellowId, dateISO);
+    if (!lastAssignedDate[fellowId] || lastAssignedDate[fellowId] < dateISO) lastAssignedDate[fellowId] = dateISO;
+  }
   
   // Process each block
-  for (const block of sortedBlocks) {
+  for (const [i, sortedBlock] of sortedBlocks.entries()) {
+    reportProgress("Assigning jeopardy blocks", i + 1, sortedBlocks.length);
+    // Only the unpinned days of a block inside the range are left to fill
+    const open = sortedBlock.dates.filter((d) => !pinned[d] && inRange(d, range));
+    if (open.length === 0) continue;
+    const block = open.length === sortedBlock.dates.length ? sortedBlock : { ...sortedBlock, dates: open, dayCount: open.length };
     const eligibleFellows = setup.fellows.filter(fellow => 
-      isEligibleForBlock(fellow, block, setup, schedByPGY, primarySchedule) &&
+      isEligibleForBlock(fellow, block, setup, schedByPGY, primarySchedule, settings, hfSchedule) &&
       isWithinQuotaLimits(fellow, block, currentCounts, dynamicQuotas) &&
       (!settings.jeopardyCall.noConsecutiveDays || !wouldCreateConsecutiveConflict(fellow, block, assignments, sortedBlocks))
     );
     
-    const selectedFellow = selectFellowFair(eligibleFellows, currentCounts, dynamicQuotas, lastAssignedDate);
+    // Keep a partly pinned block with its pinned fellow when they can take the rest
+    const pinnedFellow = eligibleFellows.find((f) => sortedBlock.dates.some((d) => pinned[d] === f.id));
+    const selectedFellow = pinnedFellow ?? selectFellowFair(eligibleFellows, currentCounts, dynamicQuotas, lastAssignedDate, block, rng, burden);
     
     if (selectedFellow) {
       console.log(`Assigning ${block.type} block [${block.dates.join(', ')}] to ${selectedFellow.name} (${selectedFellow.id})`);
@@ -516,25 +613,10 @@ export function buildJeopardySchedule(): { schedule: JeopardySchedule; success:
       // Update last assigned date tracker
       lastAssignedDate[selectedFellow.id] = block.dates[block.dates.length - 1];
       
-      // Update counts based on block structure, not just block.dayCount
+      // Count each date in the block according to its individual type, not just block.dayCount
+      for (const dateISO of block.dates) countDate(selectedFellow.id, dateISO);
       const counts = currentCounts[selectedFellow.id];
       
-      // Count each date in the block according to its individual type
-      for (const dateISO of block.dates) {
-        const date = parseISO(dateISO);
-        const isWeekend = isWeekendDate(date);
-        const isHoliday = isHolidayDate(dateISO, setup);
-        
-        if (isHoliday) {
-          counts.holiday += 1;
-        } else if (isWeekend) {
-          counts.weekend += 1;
-        } else {
-          counts.weekday += 1;
-        }
-        counts.total += 1;
-      }
-      
       console.log(`  - Updated counts for ${selectedFellow.name}: weekday=${counts.weekday}, weekend=${counts.weekend}, holiday=${counts.holiday}, total=${counts.total}`);
     } else {
       // Could not assign this block
@@ -577,6 +659,7 @@ export function buildJeopardySchedule(): { schedule: JeopardySchedule; success:
     weekdayCountsByFellow,
     weekendCountsByFellow,
     holidayCountsByFellow,
+    seed,
   };
   
   return {
@@ -587,37 +670,55 @@ export function buildJeopardySchedule(): { schedule: JeopardySchedule; success:
   };
 }
 
+export const JEOPARDY_SCHEDULE_SCHEMA: Schema<JeopardySchedule> = {
+  name: "Jeopardy schedule",
+  version: 1,
+  migrations: [],
+  defaults: () => ({
+    days: {},
+    countsByFellow: {},
+    weekdayCountsByFellow: {},
+    weekendCountsByFellow: {},
+    holidayCountsByFellow: {},
+  }),
+};
+
 export function loadJeopardySchedule(): JeopardySchedule | null {
   try {
-    const raw = localStorage.getItem(JEOPARDY_STORAGE_KEY);
+    const raw = storage.getItem(JEOPARDY_STORAGE_KEY);
     if (!raw) return null;
-    return JSON.parse(raw) as JeopardySchedule;
+    return migrateStored(JEOPARDY_SCHEDULE_SCHEMA, JEOPARDY_STORAGE_KEY, JSON.parse(raw));
   } catch {
     return null;
   }
 }
 
 export function saveJeopardySchedule(schedule: JeopardySchedule): void {
+  recordWrite(JEOPARDY_STORAGE_KEY, "jeopardy");
   try {
-    localStorage.setItem(JEOPARDY_STORAGE_KEY, JSON.stringify(schedule));
+    storage.setItem(JEOPARDY_STORAGE_KEY, JSON.stringify(schedule));
   } catch {
     // ignore
   }
 }
 
 export function clearJeopardySchedule(): void {
+  recordWrite(JEOPARDY_STORAGE_KEY, "jeopardy");
   try {
-    localStorage.removeItem(JEOPARDY_STORAGE_KEY);
+    storage.removeItem(JEOPARDY_STORAGE_KEY);
   } catch {
     // ignore
   }
 }
 
 // Manual assignment helpers
-export function applyJeopardyAssignment(schedule: JeopardySchedule, dateISO: string, fellowId: string | null): { success: boolean; schedule?: JeopardySchedule; error?: string } {
-  const setup = loadSetup();
-  const settings = loadSettings();
-  const primarySchedule = loadCallSchedule();
+export function applyJeopardyAssignment(
+  schedule: JeopardySchedule,
+  dateISO: string,
+  fellowId: string | null,
+  ctx: ScheduleContext = storageContext()
+): { success: boolean; schedule?: JeopardySchedule; error?: string } {
+  const { setup, settings, callSchedule: primarySchedule, hfSchedule } = ctx;
   
   if (!setup || !primarySchedule) {
     return { success: false, error: "Setup or primary schedule not available" };
@@ -664,11 +765,7 @@ export function applyJeopardyAssignment(schedule: JeopardySchedule, dateISO: str
   
   // Validate assignment
   const date = parseISO(dateISO);
-  const schedByPGY: Record<PGY, StoredSchedule | null> = {
-    "PGY-4": loadSchedule("PGY-4"),
-    "PGY-5": loadSchedule("PGY-5"),
-    "PGY-6": loadSchedule("PGY-6"),
-  };
+  const schedByPGY: Record<PGY, StoredSchedule | null> = { ...ctx.schedules };
   
   const block: JeopardyBlock = {
     dates: [dateISO],
@@ -676,7 +773,7 @@ export function applyJeopardyAssignment(schedule: JeopardySchedule, dateISO: str
     dayCount: 1,
   };
   
-  if (!isEligibleForBlock(fellow, block, setup, schedByPGY, primarySchedule)) {
+  if (!isEligibleForBlock(fellow, block, setup, schedByPGY, primarySchedule, settings, hfSchedule, false)) {
     return { success: false, error: "Fellow not eligible for this date" };
   }
   
@@ -704,18 +801,13 @@ export function applyJeopardyAssignment(schedule: JeopardySchedule, dateISO: str
 }
 
 // Get eligible fellows for a specific date
-export function getEligibleJeopardyFellows(dateISO: string): Fellow[] {
-  const setup = loadSetup();
-  const primarySchedule = loadCallSchedule();
+export function getEligibleJeopardyFellows(dateISO: string, ctx: ScheduleContext = storageContext()): Fellow[] {
+  const { setup, settings, callSchedule: primarySchedule, hfSchedule } = ctx;
   
   if (!setup || !primarySchedule) return [];
   
   const date = parseISO(dateISO);
-  const schedByPGY: Record<PGY, StoredSchedule | null> = {
-    "PGY-4": loadSchedule("PGY-4"),
-    "PGY-5": loadSchedule("PGY-5"),
-    "PGY-6": loadSchedule("PGY-6"),
-  };
+  const schedByPGY: Record<PGY, StoredSchedule | null> = { ...ctx.schedules };
   
   const block: JeopardyBlock = {
     dates: [dateISO],
@@ -724,14 +816,20 @@ export function getEligibleJeopardyFellows(dateISO: string): Fellow[] {
   };
   
   return setup.fellows.filter(fellow => 
-    isEligibleForBlock(fellow, block, setup, schedByPGY, primarySchedule)
+    isEligibleForBlock(fellow, block, setup, schedByPGY, primarySchedule, settings, hfSchedule, false)
   );
 }
 
 // Get reasons why fellows are ineligible
 // Get the jeopardy block for a specific date
-export function getJeopardyBlockForDate(dateISO: string): JeopardyBlock | null {
-  const setup = loadSetup();
+// Holiday blocks as jeopardy counts them: Thanksgiving through Sunday, Monday and Friday holidays with
+// their weekend, and midweek holidays alone. Holidays falling on a weekend are ordinary weekends.
+export function getJeopardyHolidayBlocks(setup: SetupState): JeopardyBlock[] {
+  return generateHolidayBlocks(setup.holidays?.length ? setup.holidays : computeAcademicYearHolidays(setup.yearStart, setup.yearEnd));
+}
+
+export function getJeopardyBlockForDate(dateISO: string, ctx: ScheduleContext = storageContext()): JeopardyBlock | null {
+  const { setup } = ctx;
   if (!setup) return null;
   
   const blocks = generateJeopardyBlocks(setup.yearStart, setup);
@@ -739,40 +837,36 @@ export function getJeopardyBlockForDate(dateISO: string): JeopardyBlock | null {
 }
 
 // Get eligible fellows for a jeopardy block (all dates in the block)
-export function getEligibleJeopardyFellowsForBlock(block: JeopardyBlock): Fellow[] {
-  const setup = loadSetup();
-  const primarySchedule = loadCallSchedule();
+export function getEligibleJeopardyFellowsForBlock(block: JeopardyBlock, ctx: ScheduleContext = storageContext()): Fellow[] {
+  const { setup, settings, callSchedule: primarySchedule, hfSchedule } = ctx;
   
   if (!setup || !primarySchedule) return [];
   
-  const schedByPGY: Record<PGY, StoredSchedule | null> = {
-    "PGY-4": loadSchedule("PGY-4"),
-    "PGY-5": loadSchedule("PGY-5"),
-    "PGY-6": loadSchedule("PGY-6"),
-  };
+  const schedByPGY: Record<PGY, StoredSchedule | null> = { ...ctx.schedules };
   
   return setup.fellows.filter(fellow => 
-    isEligibleForBlock(fellow, block, setup, schedByPGY, primarySchedule)
+    isEligibleForBlock(fellow, block, setup, schedByPGY, primarySchedule, settings, hfSchedule, false)
   );
 }
 
 // Get ineligible reasons for a jeopardy block
-export function getIneligibleJeopardyReasonsForBlock(block: JeopardyBlock): Array<{ fellow: Fellow; reasons: string[] }> {
-  const setup = loadSetup();
-  const primarySchedule = loadCallSchedule();
+export function getIneligibleJeopardyReasonsForBlock(
+  block: JeopardyBlock,
+  ctx: ScheduleContext = storageContext()
+): Array<{ fellow: Fellow; reasons: string[] }> {
+  const { setup, settings, callSchedule: primarySchedule, hfSchedule } = ctx;
   
   if (!setup || !primarySchedule) return [];
   
-  const schedByPGY: Record<PGY, StoredSchedule | null> = {
-    "PGY-4": loadSchedule("PGY-4"),
-    "PGY-5": loadSchedule("PGY-5"),
-    "PGY-6": loadSchedule("PGY-6"),
-  };
+  const schedByPGY: Record<PGY, StoredSchedule | null> = { ...ctx.schedules };
   
   const result: Array<{ fellow: Fellow; reasons: string[] }> = [];
   
   for (const fellow of setup.fellows) {
     const reasons: string[] = [];
+
+    const unavailable = findUnavailability(fellow, block.dates, false);
+    if (unavailable) reasons.push(unavailabilityReason(unavailable));
     
     // Check each date in the block
     for (const dateISO of block.dates) {
@@ -791,18 +885,18 @@ export function getIneligibleJeopardyReasonsForBlock(block: JeopardyBlock): Arra
       }
       
       // Check rotation eligibility
-      const rotation = getRotationOnDate(fellow, date, schedByPGY);
+      const rotation = getRotationOnDate(fellow, date, schedByPGY, setup, settings.blockCalendar);
       if (rotation && !["Ward", "ICU", "CCU", "CVICU"].includes(rotation)) {
         reasons.push(`On ${rotation} rotation on ${dateISO}`);
       }
       
       // Check post-call spacing
-      if (hasPostCallConflict(fellow, date, primarySchedule)) {
+      if (hasPostCallConflict(fellow, date, primarySchedule, settings)) {
         reasons.push(`Within 2 days of primary call on ${dateISO}`);
       }
       
       // Check HF weekend conflicts
-      if (hasHFWeekendConflict(fellow, [dateISO])) {
+      if (hasHFWeekendConflict(fellow, [dateISO], hfSchedule)) {
         reasons.push(`HF weekend conflict on ${dateISO}`);
       }
     }
@@ -820,20 +914,19 @@ export function applyJeopardyAssignmentScoped(
   schedule: JeopardySchedule, 
   dateISO: string, 
   fellowId: string | null, 
-  scope: "single" | "block" = "single"
+  scope: "single" | "block" = "single",
+  ctx: ScheduleContext = storageContext()
 ): { success: boolean; schedule?: JeopardySchedule; error?: string } {
   if (scope === "single") {
-    return applyJeopardyAssignment(schedule, dateISO, fellowId);
+    return applyJeopardyAssignment(schedule, dateISO, fellowId, ctx);
   }
   
-  const block = getJeopardyBlockForDate(dateISO);
+  const block = getJeopardyBlockForDate(dateISO, ctx);
   if (!block) {
     return { success: false, error: "No block found for this date" };
   }
   
-  const setup = loadSetup();
-  const settings = loadSettings();
-  const primarySchedule = loadCallSchedule();
+  const { setup, settings, callSchedule: primarySchedule, hfSchedule } = ctx;
   
   if (!setup || !primarySchedule) {
     return { success: false, error: "Setup or primary schedule not available" };
@@ -882,13 +975,9 @@ export function applyJeopardyAssignmentScoped(
   }
   
   // Validate assignment for the entire block
-  const schedByPGY: Record<PGY, StoredSchedule | null> = {
-    "PGY-4": loadSchedule("PGY-4"),
-    "PGY-5": loadSchedule("PGY-5"),
-    "PGY-6": loadSchedule("PGY-6"),
-  };
+  const schedByPGY: Record<PGY, StoredSchedule | null> = { ...ctx.schedules };
   
-  if (!isEligibleForBlock(fellow, block, setup, schedByPGY, primarySchedule)) {
+  if (!isEligibleForBlock(fellow, block, setup, schedByPGY, primarySchedule, settings, hfSchedule, false)) {
     return { success: false, error: "Fellow not eligible for this block" };
   }
   
@@ -919,18 +1008,16 @@ export function applyJeopardyAssignmentScoped(
   return { success: true, schedule: newSchedule };
 }
 
-export function getIneligibleJeopardyReasons(dateISO: string): Array<{ fellow: Fellow; reasons: string[] }> {
-  const setup = loadSetup();
-  const primarySchedule = loadCallSchedule();
+export function getIneligibleJeopardyReasons(
+  dateISO: string,
+  ctx: ScheduleContext = storageContext()
+): Array<{ fellow: Fellow; reasons: string[] }> {
+  const { setup, settings, callSchedule: primarySchedule, hfSchedule } = ctx;
   
   if (!setup || !primarySchedule) return [];
   
   const date = parseISO(dateISO);
-  const schedByPGY: Record<PGY, StoredSchedule | null> = {
-    "PGY-4": loadSchedule("PGY-4"),
-    "PGY-5": loadSchedule("PGY-5"),
-    "PGY-6": loadSchedule("PGY-6"),
-  };
+  const schedByPGY: Record<PGY, StoredSchedule | null> = { ...ctx.schedules };
   
   const block: JeopardyBlock = {
     dates: [dateISO],
@@ -942,10 +1029,12 @@ export function getIneligibleJeopardyReasons(dateISO: string): Array<{ fellow: F
   
   for (const fellow of setup.fellows) {
     const reasons: string[] = [];
+
+    const unavailable = findUnavailability(fellow, [dateISO], false);
+    if (unavailable) reasons.push(unavailabilityReason(unavailable));
     
     // Check basic eligibility
-    if (fellow.pgy === "PGY-4" && !afterPGY4StartDate(date, setup.yearStart)) {
-      const settings = loadSettings();
+    if (fellow.pgy === "PGY-4" && !afterPGY4StartDate(date, setup.yearStart, settings)) {
       reasons.push(`PGY-4 not eligible before ${settings.jeopardyCall.pgy4StartDate}`);
     }
     
@@ -964,22 +1053,18 @@ export function getIneligibleJeopardyReasons(dateISO: string): Array<{ fellow: F
     }
     
     // Check rotation exclusions
-    const rotation = getRotationOnDate(fellow, date, schedByPGY);
-    if (rotation === "VAC") {
-      reasons.push("On vacation");
-    } else if (rotation === "HF") {
-      reasons.push("On HF rotation");
-    } else if (rotation === "CCU") {
-      reasons.push("On CCU rotation");
+    const rotation = getRotationOnDate(fellow, date, schedByPGY, setup, settings.blockCalendar);
+    if (rotation && settings.jeopardyCall.excludeRotations.includes(rotation)) {
+      reasons.push(rotation === "VAC" ? "On vacation" : `On ${rotation} rotation`);
     }
     
     // Check post-call spacing
-    if (hasPostCallConflict(fellow, date, primarySchedule)) {
+    if (hasPostCallConflict(fellow, date, primarySchedule, settings)) {
       reasons.push("Within 2 days of primary call");
     }
     
     // Check HF weekend conflicts
-    if (hasHFWeekendConflict(fellow, [dateISO])) {
+    if (hasHFWeekendConflict(fellow, [dateISO], hfSchedule)) {
       reasons.push("Has HF weekend coverage");
     }
     
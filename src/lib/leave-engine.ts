@@ -0,0 +1,66 @@
+import { differenceInCalendarDays, parseISO } from "date-fns";
+import { academicYearEnd } from "@/lib/block-utils";
+import { type Fellow, type PGY, type Unavailability } from "@/lib/schedule-engine";
+
+// Leave of absence removes a fellow from every pool (it is hard unavailability); this module turns
+// it into prorated call quotas and training time lost.
+
+export function isLeaveOfAbsence(entry: Unavailability): boolean {
+  return !!entry.leaveOfAbsence;
+}
+
+// Inclusive day count of the overlap between [start, end] and [from, to]
+function overlapDays(start: string, end: string, from: string, to: string): number {
+  const a = start > from ? start : from;
+  const b = end < to ? end : to;
+  return a > b ? 0 : differenceInCalendarDays(parseISO(b), parseISO(a)) + 1;
+}
+
+export function academicYearDays(yearStartISO: string, yearEndISO?: string): number {
+  return differenceInCalendarDays(parseISO(academicYearEnd(yearStartISO, yearEndISO)), parseISO(yearStartISO)) + 1;
+}
+
+// Leave days that fall inside the academic year
+export function leaveDaysInYear(fellow: Fellow, yearStartISO: string, yearEndISO?: string): number {
+  const end = academicYearEnd(yearStartISO, yearEndISO);
+  return (fellow.unavailability ?? [])
+    .filter(isLeaveOfAbsence)
+    .reduce((sum, entry) => sum + overlapDays(entry.start, entry.end, yearStartISO, end), 0);
+}
+
+// Leave days over the whole fellowship; entries stay on the fellow across academic years
+export function totalLeaveDays(fellow: Fellow): number {
+  return (fellow.unavailability ?? [])
+    .filter(isLeaveOfAbsence)
+    .reduce((sum, entry) => sum + differenceInCalendarDays(parseISO(entry.end), parseISO(entry.start)) + 1, 0);
+}
+
+// Per-fellow quotas for a per-PGY setting. A partial academic year gets its share of the annual
+// quota. A fellow on leave keeps the share of the year they are available for; the calls they give
+// up are spread evenly over the rest of their class.
+export function proratedQuotas(
+  fellows: Fellow[],
+  yearStartISO: string,
+  quotaFor: (pgy: PGY) => number,
+  yearEndISO?: string
+): Record<string, number> {
+  const fullYearDays = academicYearDays(yearStartISO);
+  const yearDays = academicYearDays(yearStartISO, yearEndISO);
+  const quotas: Record<string, number> = {};
+  const lostByPGY: Partial<Record<PGY, number>> = {};
+  for (const f of fellows) {
+    const annual = quotaFor(f.pgy);
+    const base = yearDays < fullYearDays ? Math.round((annual * yearDays) / fullYearDays) : annual;
+    const leave = Math.min(yearDays, leaveDaysInYear(f, yearStartISO, yearEndISO));
+    quotas[f.id] = leave > 0 ? Math.round((base * (yearDays - leave)) / yearDays) : base;
+    lostByPGY[f.pgy] = (lostByPGY[f.pgy] ?? 0) + (base - quotas[f.id]);
+  }
+  for (const [pgy, lost] of Object.entries(lostByPGY) as [PGY, number][]) {
+    const peers = fellows.filter((f) => f.pgy === pgy && leaveDaysInYear(f, yearStartISO, yearEndISO) === 0);
+    if (lost <= 0 || peers.length === 0) continue;
+    peers.forEach((f, i) => {
+      quotas[f.id] += Math.floor(lost / peers.length) + (i < lost % peers.length ? 1 : 0);
+    });
+  }
+  return quotas;
+}
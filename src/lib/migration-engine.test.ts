@@ -0,0 +1,75 @@
+import { describe, expect, it } from "vitest";
+import {
+  MIGRATIONS_STORAGE_KEY,
+  NewerVersionError,
+  loadMigrationReports,
+  migrate,
+  migrateFromStorage,
+  migrateStored,
+  type Schema,
+} from "@/lib/migration-engine";
+import { readOnlyReasons, storage } from "@/lib/storage-engine";
+
+type Widget = { version: number; name: string; unit: string; size: { width: number; height: number }; tags: Record<string, boolean> };
+
+const WIDGET_SCHEMA: Schema<Widget> = {
+  name: "Widget",
+  version: 2,
+  migrations: [
+    { to: 1, description: "Rename title to name", up: ({ title, ...rest }) => ({ ...rest, name: title }) },
+    { to: 2, description: "Measure in centimetres", up: (v) => ({ ...v, unit: "cm" }) },
+  ],
+  defaults: () => ({ version: 2, name: "", unit: "in", size: { width: 1, height: 1 }, tags: { a: true } }),
+  keepAsStored: ["tags"],
+};
+
+describe("migrate", () => {
+  it("runs the steps still due and fills missing fields from the defaults", () => {
+    const { value, report } = migrate(WIDGET_SCHEMA, { title: "Old", size: { width: 3 } }, "test");
+    expect(value).toEqual({ version: 2, name: "Old", unit: "cm", size: { width: 3, height: 1 }, tags: { a: true } });
+    expect(report).toMatchObject({ fromVersion: 0, toVersion: 2, steps: ["Rename title to name", "Measure in centimetres"] });
+    expect(report?.filled).toEqual(["size.height", "tags"]);
+  });
+
+  it("skips steps the value has already had", () => {
+    const { value, report } = migrate(WIDGET_SCHEMA, { version: 1, title: "Kept", name: "Mid", size: { width: 3, height: 2 } }, "test");
+    expect(value).toMatchObject({ name: "Mid", unit: "cm", size: { width: 3, height: 2 } });
+    expect(report?.steps).toEqual(["Measure in centimetres"]);
+  });
+
+  it("takes keepAsStored paths whole and reports nothing for a current value", () => {
+    const current = { version: 2, name: "New", unit: "cm", size: { width: 1, height: 1 }, tags: { b: true } };
+    const { value, report } = migrate(WIDGET_SCHEMA, current, "test");
+    expect(value.tags).toEqual({ b: true });
+    expect(report).toBeNull();
+  });
+
+  it("refuses a value from a newer version", () => {
+    expect(() => migrate(WIDGET_SCHEMA, { version: 3 }, "test")).toThrow(NewerVersionError);
+  });
+});
+
+describe("migrateFromStorage", () => {
+  it("leaves the key of a newer value read-only", () => {
+    const key = "cfsa_widget_newer";
+    storage.setItem(key, JSON.stringify({ version: 3, name: "Future" }));
+    expect(() => migrateFromStorage(WIDGET_SCHEMA, JSON.parse(storage.getItem(key)!), key)).toThrow(NewerVersionError);
+    expect(readOnlyReasons().some((r) => r.startsWith("Widget is version 3"))).toBe(true);
+
+    storage.setItem(key, JSON.stringify({ version: 2, name: "Overwrite" }));
+    expect(JSON.parse(storage.getItem(key)!).name).toBe("Future");
+  });
+});
+
+describe("migrateStored", () => {
+  it("saves the upgraded value back and records the report once", () => {
+    const key = "cfsa_widget_old";
+    storage.setItem(key, JSON.stringify({ title: "Old", size: { width: 2, height: 2 } }));
+    const value = migrateStored(WIDGET_SCHEMA, key, JSON.parse(storage.getItem(key)!));
+    expect(JSON.parse(storage.getItem(key)!)).toEqual(value);
+    expect(loadMigrationReports()).toHaveLength(1);
+
+    migrateStored(WIDGET_SCHEMA, key, JSON.parse(storage.getItem(key)!));
+    expect(JSON.parse(storage.getItem(MIGRATIONS_STORAGE_KEY)!)).toHaveLength(1);
+  });
+});
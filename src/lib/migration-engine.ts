@@ -0,0 +1,140 @@
+import { markReadOnly, storage } from "@/lib/storage-engine";
+
+// Versioned loading for everything the app persists. Each stored type declares its current version,
+// the chain of steps that brings an older value up to it, and its full-depth defaults; migrate runs
+// the steps still due, fills whatever is missing from the defaults, and reports what it changed.
+
+export type Migration = {
+  to: number; // version the step produces, from the one before it
+  description: string;
+  up: (value: Record<string, unknown>) => Record<string, unknown>;
+};
+
+export type Schema<T> = {
+  name: string; // shown in migration reports, e.g. "HF schedule"
+  version: number;
+  migrations: Migration[];
+  defaults?: () => unknown;
+  // Paths whose stored value is taken whole rather than merged with the default, e.g. a map the user
+  // prunes, where merging would bring deleted entries back
+  keepAsStored?: string[];
+  // Final clean-up once the value is current and complete
+  normalize?: (value: T) => T;
+};
+
+export type MigrationReport = {
+  at: string; // ISO timestamp
+  schema: string;
+  source: string; // storage key, "import" or a snapshot name
+  fromVersion: number;
+  toVersion: number;
+  steps: string[];
+  filled: string[]; // paths taken from the defaults because the stored value had none
+};
+
+export type MigrationResult<T> = { value: T; report: MigrationReport | null };
+
+export class NewerVersionError extends Error {
+  constructor(schema: string, version: number, supported: number) {
+    super(`${schema} is version ${version}, newer than this app supports (${supported}). Update the app to load it.`);
+    this.name = "NewerVersionError";
+  }
+}
+
+export const MIGRATIONS_STORAGE_KEY = "cfsa_migrations_v1";
+const MAX_REPORTS = 50;
+
+const isPlainObject = (value: unknown): value is Record<string, unknown> =>
+  !!value && typeof value === "object" && !Array.isArray(value);
+
+// Stored values win; missing keys come from the defaults, recursively through nested objects
+function mergeDefaults(stored: unknown, defaults: unknown, path: string, keep: Set<string>, filled: string[]): unknown {
+  if (stored === undefined) {
+    if (defaults !== undefined && path) filled.push(path);
+    return structuredClone(defaults);
+  }
+  if (keep.has(path) || !isPlainObject(stored) || !isPlainObject(defaults)) return stored;
+  const merged: Record<string, unknown> = { ...stored };
+  for (const key of Object.keys(defaults)) {
+    merged[key] = mergeDefaults(stored[key], defaults[key], path ? `${path}.${key}` : key, keep, filled);
+  }
+  return merged;
+}
+
+// Bring a parsed value up to the schema's version. Values without a version field count as version 0.
+export function migrate<T>(schema: Schema<T>, raw: unknown, source: string): MigrationResult<T> {
+  let value = (isPlainObject(raw) ? raw : {}) as Record<string, unknown>;
+  const fromVersion = typeof value.version === "number" ? value.version : 0;
+  if (fromVersion > schema.version) throw new NewerVersionError(schema.name, fromVersion, schema.version);
+
+  const steps: string[] = [];
+  for (const step of schema.migrations) {
+    if (step.to <= fromVersion || step.to > schema.version) continue;
+    value = { ...step.up(value), version: step.to };
+    steps.push(step.description);
+  }
+  if (fromVersion < schema.version) value = { ...value, version: schema.version };
+
+  const filled: string[] = [];
+  if (schema.defaults) {
+    value = mergeDefaults(value, schema.defaults(), "", new Set(schema.keepAsStored ?? []), filled) as Record<string, unknown>;
+  }
+  const result = schema.normalize ? schema.normalize(value as T) : (value as T);
+
+  const changed = fromVersion !== schema.version || steps.length > 0 || filled.length > 0;
+  const report = changed
+    ? { at: new Date().toISOString(), schema: schema.name, source, fromVersion, toVersion: schema.version, steps, filled }
+    : null;
+  return { value: result, report };
+}
+
+export function loadMigrationReports(): MigrationReport[] {
+  try {
+    const raw = storage.getItem(MIGRATIONS_STORAGE_KEY);
+    return raw ? (JSON.parse(raw) as MigrationReport[]) : [];
+  } catch {
+    return [];
+  }
+}
+
+export function recordMigration(report: MigrationReport | null): void {
+  if (!report) return;
+  storage.setItem(MIGRATIONS_STORAGE_KEY, JSON.stringify([...loadMigrationReports(), report].slice(-MAX_REPORTS)));
+}
+
+export function clearMigrationReports(): void {
+  storage.removeItem(MIGRATIONS_STORAGE_KEY);
+}
+
+// migrate for a value read from storage. A value from a newer version of the app leaves its key
+// read-only before the error reaches the caller, so nothing this version saves can replace it.
+export function migrateFromStorage<T>(schema: Schema<T>, raw: unknown, key: string, source = key): MigrationResult<T> {
+  try {
+    return migrate(schema, raw, source);
+  } catch (e) {
+    if (e instanceof NewerVersionError) markReadOnly(key, e.message);
+    throw e;
+  }
+}
+
+// Migrate a value read from storage and, when anything changed, save the upgraded value back so the
+// migration runs once. Writes go around the edit history: upgrading old data is not an edit.
+export function migrateStored<T>(schema: Schema<T>, key: string, raw: unknown): T {
+  const { value, report } = migrateFromStorage(schema, raw, key);
+  if (report) {
+    storage.setItem(key, JSON.stringify(value));
+    recordMigration(report);
+  }
+  return value;
+}
+
+export function describeMigration(report: MigrationReport): string {
+  const parts: string[] = [];
+  if (report.fromVersion !== report.toVersion) parts.push(`upgraded from version ${report.fromVersion} to ${report.toVersion}`);
+  parts.push(...report.steps.map((s) => s.charAt(0).toLowerCase() + s.slice(1)));
+  if (report.filled.length) {
+    parts.push(`filled ${report.filled.length} missing value${report.filled.length === 1 ? "" : "s"} with defaults`);
+  }
+  const text = parts.join("; ");
+  return `${report.schema}: ${text.charAt(0).toUpperCase()}${text.slice(1)}`;
+}
@@ -0,0 +1,152 @@
+import { type FellowSchedule } from "@/lib/schedule-engine";
+import { type ClinicAssignment } from "@/lib/clinic-engine";
+import { recordWrite } from "@/lib/history-engine";
+import { storage } from "@/lib/storage-engine";
+
+// Assignments the chief has pinned. Every generator places them first and keeps them as they
+// are, counting them toward quotas and spacing like any other assignment.
+export type PinnedAssignments = {
+  primary: Record<string, string>; // date ISO -> fellowId
+  hf: Record<string, string>; // weekend start ISO -> fellowId
+  jeopardy: Record<string, string>; // date ISO -> fellowId
+  clinics: Record<string, ClinicAssignment[]>; // date ISO -> pinned clinic assignments
+  rotations: FellowSchedule; // fellowId -> block key -> rotation
+};
+
+// Pins keyed by date (or weekend start) to a single fellow
+export type DayPinKind = "primary" | "hf" | "jeopardy";
+
+export const PINS_STORAGE_KEY = "cfsa_pins_v1";
+
+export function emptyPins(): PinnedAssignments {
+  return { primary: {}, hf: {}, jeopardy: {}, clinics: {}, rotations: {} };
+}
+
+export function loadPins(): PinnedAssignments {
+  try {
+    const raw = storage.getItem(PINS_STORAGE_KEY);
+    if (!raw) return emptyPins();
+    return { ...emptyPins(), ...(JSON.parse(raw) as Partial<PinnedAssignments>) };
+  } catch {
+    return emptyPins();
+  }
+}
+
+export function savePins(pins: PinnedAssignments): void {
+  recordWrite(PINS_STORAGE_KEY, "pins");
+  try {
+    storage.setItem(PINS_STORAGE_KEY, JSON.stringify(pins));
+  } catch {
+    // ignore storage errors
+  }
+}
+
+export function clearPins(): void {
+  recordWrite(PINS_STORAGE_KEY, "pins");
+  try {
+    storage.removeItem(PINS_STORAGE_KEY);
+  } catch {
+    // ignore storage errors
+  }
+}
+
+// Pin a day to a fellow, or unpin it with null
+export function setDayPin(kind: DayPinKind, key: string, fellowId: string | null): PinnedAssignments {
+  const pins = loadPins();
+  const next = { ...pins[kind] };
+  if (fellowId) next[key] = fellowId;
+  else delete next[key];
+  const updated = { ...pins, [kind]: next };
+  savePins(updated);
+  return updated;
+}
+
+// Unpin any of these days whose assignment no longer matches the pin, e.g. after a manual edit
+export function releaseChangedDayPins(
+  kind: DayPinKind,
+  days: Record<string, string | undefined>,
+  keys: string[]
+): PinnedAssignments {
+  const pins = loadPins();
+  const stale = keys.filter((k) => pins[kind][k] && pins[kind][k] !== days[k]);
+  if (stale.length === 0) return pins;
+  const next = { ...pins[kind] };
+  for (const k of stale) delete next[k];
+  const updated = { ...pins, [kind]: next };
+  savePins(updated);
+  return updated;
+}
+
+export function setRotationPin(fellowId: string, blockKey: string, rotation: string | null): PinnedAssignments {
+  const pins = loadPins();
+  const row = { ...pins.rotations[fellowId] };
+  if (rotation) row[blockKey] = rotation;
+  else delete row[blockKey];
+  const updated = { ...pins, rotations: { ...pins.rotations, [fellowId]: row } };
+  savePins(updated);
+  return updated;
+}
+
+// Unpin rotation cells of these rows that no longer hold their pinned rotation
+export function releaseChangedRotationPins(byFellow: FellowSchedule): PinnedAssignments {
+  const pins = loadPins();
+  let changed = false;
+  const rotations = { ...pins.rotations };
+  for (const [fid, pinned] of Object.entries(pins.rotations)) {
+    const row = byFellow[fid];
+    if (!row) continue;
+    const stale = Object.keys(pinned).filter((k) => row[k] !== pinned[k]);
+    if (stale.length === 0) continue;
+    const kept = { ...pinned };
+    for (const k of stale) delete kept[k];
+    rotations[fid] = kept;
+    changed = true;
+  }
+  if (!changed) return pins;
+  const updated = { ...pins, rotations };
+  savePins(updated);
+  return updated;
+}
+
+export function isClinicPinned(pins: PinnedAssignments, dateISO: string, assignment: ClinicAssignment): boolean {
+  return (pins.clinics[dateISO] ?? []).some(
+    (a) => a.fellowId === assignment.fellowId && a.clinicType === assignment.clinicType
+  );
+}
+
+export function setClinicPin(dateISO: string, assignment: ClinicAssignment, pinned: boolean): PinnedAssignments {
+  const pins = loadPins();
+  const others = (pins.clinics[dateISO] ?? []).filter(
+    (a) => a.fellowId !== assignment.fellowId || a.clinicType !== assignment.clinicType
+  );
+  const day = pinned ? [...others, assignment] : others;
+  const clinics = { ...pins.clinics };
+  if (day.length > 0) clinics[dateISO] = day;
+  else delete clinics[dateISO];
+  const updated = { ...pins, clinics };
+  savePins(updated);
+  return updated;
+}
+
+// Base rows for a rotation solve: the given rows with this PGY's pinned cells laid over them
+export function withPinnedRotations(
+  base: FellowSchedule | undefined,
+  fellowIds: string[],
+  pins: PinnedAssignments
+): FellowSchedule | undefined {
+  const pinnedIds = fellowIds.filter((id) => Object.keys(pins.rotations[id] ?? {}).length > 0);
+  if (pinnedIds.length === 0) return base;
+  const merged: FellowSchedule = { ...base };
+  for (const id of pinnedIds) merged[id] = { ...merged[id], ...pins.rotations[id] };
+  return merged;
+}
+
+// Put back any pinned rotation cell a solver moved, so the solved rows always hold every pin
+export function restorePinnedRotations(byFellow: FellowSchedule, pins: PinnedAssignments): FellowSchedule {
+  const restored: FellowSchedule = { ...byFellow };
+  for (const id of Object.keys(byFellow)) {
+    const pinned = pins.rotations[id];
+    if (pinned && Object.keys(pinned).length > 0) restored[id] = { ...byFellow[id], ...pinned };
+  }
+  return restored;
+}
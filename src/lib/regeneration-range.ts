@@ -0,0 +1,34 @@
+import { addDays, format, parseISO } from "date-fns";
+import { type ScheduleContext } from "@/lib/schedule-context";
+import { type PinnedAssignments } from "@/lib/pin-engine";
+
+// Inclusive ISO dates a partial regeneration may change. Everything outside it stays as it is.
+export type RegenerationRange = { start: string; end: string };
+
+export function inRange(iso: string, range?: RegenerationRange): boolean {
+  return !range || (iso >= range.start && iso <= range.end);
+}
+
+// HF weekends are keyed by their Saturday and belong to the range when either day does
+export function weekendInRange(saturdayISO: string, range?: RegenerationRange): boolean {
+  return inRange(saturdayISO, range) || inRange(format(addDays(parseISO(saturdayISO), 1), "yyyy-MM-dd"), range);
+}
+
+function filterKeys<T>(days: Record<string, T> | undefined, keep: (key: string) => boolean): Record<string, T> {
+  return Object.fromEntries(Object.entries(days ?? {}).filter(([key]) => keep(key)));
+}
+
+// What a generator must keep: the pins, plus every current assignment outside the range. Generators
+// place these first, so the fixed months set the spacing, Saturday and quota state the range starts from.
+export function fixedAssignments(ctx: ScheduleContext, range?: RegenerationRange): PinnedAssignments {
+  const { pins } = ctx;
+  if (!range) return pins;
+  const outside = (key: string) => !inRange(key, range);
+  return {
+    primary: { ...pins.primary, ...filterKeys(ctx.callSchedule?.days, outside) },
+    hf: { ...pins.hf, ...filterKeys(ctx.hfSchedule?.weekends, (key) => !weekendInRange(key, range)) },
+    jeopardy: { ...pins.jeopardy, ...filterKeys(ctx.jeopardySchedule?.days, outside) },
+    clinics: { ...pins.clinics, ...filterKeys(ctx.clinicSchedule?.days, outside) },
+    rotations: pins.rotations,
+  };
+}
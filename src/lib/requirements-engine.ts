@@ -0,0 +1,130 @@
+import { type Fellow, type PGY } from "@/lib/schedule-engine";
+import { type SchedulerSettings } from "@/lib/settings-engine";
+import { type TrainingRequirement } from "@/lib/rotation-catalog";
+import { fellowQuota, getPrimaryRotation } from "@/lib/rotation-engine";
+import { priorYears } from "@/lib/academic-year-engine";
+import { storageContext, type ScheduleContext } from "@/lib/schedule-context";
+import { totalLeaveDays } from "@/lib/leave-engine";
+
+export type RequirementStatus = "met" | "on-track" | "at-risk";
+
+export type RequirementProgress = {
+  requirement: TrainingRequirement;
+  completed: number; // blocks in archived years
+  scheduled: number; // blocks on this year's saved schedule
+  remaining: number; // most blocks still reachable in years not yet scheduled
+  status: RequirementStatus;
+};
+
+export type FellowTrainingProgress = {
+  fellow: Fellow;
+  progress: RequirementProgress[];
+  atRisk: boolean;
+  leaveDays: number; // leave of absence over the whole fellowship
+  extensionDays: number; // leave beyond the allowance, added to the end of training
+};
+
+const PGYS: PGY[] = ["PGY-4", "PGY-5", "PGY-6"];
+
+// Per-year block count fields of the built-in rotations in settings.blockRotations
+const ROTATION_FIELDS: Record<string, string> = {
+  LAC_CATH: "lacCathBlocks",
+  CCU: "ccuBlocks",
+  LAC_CONSULT: "lacConsultBlocks",
+  HF: "hfBlocks",
+  KECK_CONSULT: "keckConsultBlocks",
+  ECHO1: "echo1Blocks",
+  ECHO2: "echo2Blocks",
+  EP: "epBlocks",
+  NUCLEAR: "nuclearBlocks",
+  NONINVASIVE: "nonInvasiveBlocks",
+};
+
+// Most blocks of a rotation one fellow gets in a year at this PGY. For shares that vary within
+// a class (PGY-6 LAC_CATH 2 or 1, say) the settings hold the larger share.
+export function maxBlocksPerYear(settings: SchedulerSettings, pgy: PGY, rotation: string): number {
+  const field = ROTATION_FIELDS[rotation];
+  if (field) {
+    const { pgy4, pgy5, pgy6 } = settings.blockRotations;
+    const perYear = (pgy === "PGY-4" ? pgy4 : pgy === "PGY-5" ? pgy5 : pgy6) as Record<string, unknown>;
+    return typeof perYear[field] === "number" ? (perYear[field] as number) : 0;
+  }
+  const custom = settings.rotationCatalog.find((r) => r.id === rotation && !r.builtIn);
+  return custom?.pgys.includes(pgy) ? custom.blocksPerYear[pgy] ?? 0 : 0;
+}
+
+function countBlocks(row: Record<string, string | undefined> | undefined, rotations: string[]): number {
+  return Object.values(row ?? {}).filter((v) => v && rotations.includes(getPrimaryRotation(v))).length;
+}
+
+function completedBlocks(fellowId: string, rotations: string[], ctx: ScheduleContext): number {
+  let total = 0;
+  for (const year of priorYears(ctx)) {
+    for (const pgy of PGYS) total += countBlocks(year.schedules[pgy]?.byFellow?.[fellowId], rotations);
+  }
+  return total;
+}
+
+// Most blocks reachable in the PGY years after `pgy`
+function futureMax(settings: SchedulerSettings, pgy: PGY, rotations: string[]): number {
+  return PGYS.slice(PGYS.indexOf(pgy) + 1).reduce(
+    (sum, later) => sum + rotations.reduce((n, rot) => n + maxBlocksPerYear(settings, later, rot), 0),
+    0
+  );
+}
+
+// Progress of every fellow toward each fellowship-total requirement. A fellow is at risk when even
+// the largest shares in the years left cannot close a requirement.
+export function trainingProgress(ctx: ScheduleContext = storageContext()): FellowTrainingProgress[] {
+  const { setup, settings } = ctx;
+  if (!setup) return [];
+  return setup.fellows.map((fellow) => {
+    const row = ctx.schedules[fellow.pgy]?.byFellow?.[fellow.id];
+    const progress = settings.trainingRequirements.map((requirement): RequirementProgress => {
+      const completed = completedBlocks(fellow.id, requirement.rotations, ctx);
+      const scheduled = countBlocks(row, requirement.rotations);
+      // Without a saved schedule this year's blocks are still open
+      const thisYear = row
+        ? 0
+        : requirement.rotations.reduce((n, rot) => n + fellowQuota(fellow, rot, maxBlocksPerYear(settings, fellow.pgy, rot)), 0);
+      const remaining = thisYear + futureMax(settings, fellow.pgy, requirement.rotations);
+      const status: RequirementStatus =
+        completed + scheduled >= requirement.blocks
+          ? "met"
+          : completed + scheduled + remaining < requirement.blocks
+          ? "at-risk"
+          : "on-track";
+      return { requirement, completed, scheduled, remaining, status };
+    });
+    const leaveDays = totalLeaveDays(fellow);
+    const extensionDays = Math.max(0, leaveDays - settings.leaveAllowanceDays);
+    return { fellow, progress, atRisk: progress.some((p) => p.status === "at-risk"), leaveDays, extensionDays };
+  });
+}
+
+// Blocks each fellow must get this year, per rotation, to still reach every requirement with the
+// largest shares in later years: fellowId -> rotation -> blocks
+export function requirementGaps(
+  fellows: Fellow[],
+  pgy: PGY,
+  ctx: ScheduleContext = storageContext()
+): Record<string, Record<string, number>> {
+  const { settings } = ctx;
+  const gaps: Record<string, Record<string, number>> = {};
+  for (const fellow of fellows) {
+    const mine: Record<string, number> = (gaps[fellow.id] = {});
+    for (const requirement of settings.trainingRequirements) {
+      const completed = completedBlocks(fellow.id, requirement.rotations, ctx);
+      const need = requirement.blocks - completed - futureMax(settings, pgy, requirement.rotations);
+      if (need <= 0) continue;
+      for (const rot of requirement.rotations) mine[rot] = Math.max(mine[rot] ?? 0, need);
+    }
+  }
+  return gaps;
+}
+
+// Stable sort putting fellows with the largest gap on a rotation first; ties keep their order
+export function orderByNeed(ids: string[], gaps: Record<string, Record<string, number>>, rotation: string): string[] {
+  const need = (id: string) => gaps[id]?.[rotation] ?? 0;
+  return [...ids].sort((a, b) => need(b) - need(a));
+}
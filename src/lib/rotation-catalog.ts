@@ -0,0 +1,134 @@
+import type { PGY } from "@/lib/schedule-engine";
+
+export type RotationDefinition = {
+  id: string;
+  name: string;
+  color: string; // "#RRGGBB"
+  // Fellows of the same PGY allowed on this rotation in one block; 0 means unlimited
+  capacityPerBlock: number;
+  pgys: PGY[];
+  // Blocks per fellow per year. Only read for custom rotations; built-in counts are fixed by the solvers.
+  blocksPerYear: Partial<Record<PGY, number>>;
+  builtIn: boolean;
+};
+
+export const DEFAULT_ROTATION_CATALOG: RotationDefinition[] = [
+  { id: "VAC", name: "Vacation", color: "#FFFFFF", capacityPerBlock: 0, pgys: ["PGY-4", "PGY-5", "PGY-6"], blocksPerYear: {}, builtIn: true },
+  { id: "LAC_CATH", name: "LAC Cath", color: "#B3D2FF", capacityPerBlock: 1, pgys: ["PGY-4", "PGY-5", "PGY-6"], blocksPerYear: {}, builtIn: true },
+  { id: "CCU", name: "CCU", color: "#9CDCFC", capacityPerBlock: 1, pgys: ["PGY-4", "PGY-5"], blocksPerYear: {}, builtIn: true },
+  { id: "LAC_CONSULT", name: "LAC Consult", color: "#FAE39E", capacityPerBlock: 1, pgys: ["PGY-4", "PGY-5"], blocksPerYear: {}, builtIn: true },
+  { id: "HF", name: "Heart Failure", color: "#E4B8F9", capacityPerBlock: 1, pgys: ["PGY-4", "PGY-5", "PGY-6"], blocksPerYear: {}, builtIn: true },
+  { id: "KECK_CONSULT", name: "Keck Consult", color: "#F7C5A1", capacityPerBlock: 1, pgys: ["PGY-4", "PGY-5", "PGY-6"], blocksPerYear: {}, builtIn: true },
+  { id: "ECHO1", name: "Echo 1", color: "#A6F2D9", capacityPerBlock: 1, pgys: ["PGY-4"], blocksPerYear: {}, builtIn: true },
+  { id: "ECHO2", name: "Echo 2", color: "#A6F2BF", capacityPerBlock: 1, pgys: ["PGY-5", "PGY-6"], blocksPerYear: {}, builtIn: true },
+  { id: "EP", name: "EP", color: "#F7BAC4", capacityPerBlock: 1, pgys: ["PGY-4", "PGY-5", "PGY-6"], blocksPerYear: {}, builtIn: true },
+  { id: "NUCLEAR", name: "Nuclear", color: "#F5F5A3", capacityPerBlock: 1, pgys: ["PGY-5", "PGY-6"], blocksPerYear: {}, builtIn: true },
+  { id: "NONINVASIVE", name: "Non-Invasive", color: "#A8F0F0", capacityPerBlock: 1, pgys: ["PGY-5", "PGY-6"], blocksPerYear: {}, builtIn: true },
+  { id: "ELECTIVE", name: "Elective", color: "#A8F0A8", capacityPerBlock: 0, pgys: ["PGY-4", "PGY-5", "PGY-6"], blocksPerYear: {}, builtIn: true },
+];
+
+// Stored catalogs may predate a built-in or have lost one; built-ins are always present and keep
+// their fixed structure, while the stored name and color win.
+export function normalizeRotationCatalog(stored: RotationDefinition[] | undefined): RotationDefinition[] {
+  const list = Array.isArray(stored) ? stored : [];
+  const byId = new Map(list.map((r) => [r.id, r] as const));
+  const builtIns = DEFAULT_ROTATION_CATALOG.map((def) => {
+    const s = byId.get(def.id);
+    return s ? { ...def, name: s.name || def.name, color: s.color || def.color } : def;
+  });
+  const custom = list
+    .filter((r) => r && r.id && !DEFAULT_ROTATION_CATALOG.some((d) => d.id === r.id))
+    .map((r) => ({
+      ...r,
+      capacityPerBlock: Math.max(0, r.capacityPerBlock ?? 1),
+      pgys: r.pgys ?? [],
+      blocksPerYear: r.blocksPerYear ?? {},
+      builtIn: false,
+    }));
+  return [...builtIns, ...custom];
+}
+
+export function findRotation(catalog: RotationDefinition[], id: string): RotationDefinition | undefined {
+  return catalog.find((r) => r.id === id);
+}
+
+export function isCustomRotation(catalog: RotationDefinition[], id: string): boolean {
+  return !!catalog.find((r) => r.id === id && !r.builtIn);
+}
+
+export function getCustomRotationsForPGY(catalog: RotationDefinition[], pgy: PGY): RotationDefinition[] {
+  return catalog.filter((r) => !r.builtIn && r.pgys.includes(pgy));
+}
+
+// Options offered when editing a block for a PGY, in catalog order
+export function getRotationOptionsForPGY(catalog: RotationDefinition[], pgy: PGY): string[] {
+  return catalog.filter((r) => r.pgys.includes(pgy)).map((r) => r.id);
+}
+
+// Sort rotation labels by catalog order; unknown labels (e.g. elective specializations) go last
+export function compareByCatalogOrder(catalog: RotationDefinition[]) {
+  const order = catalog.map((r) => r.id);
+  return (a: string, b: string) => {
+    const ia = order.indexOf(a);
+    const ib = order.indexOf(b);
+    if (ia !== -1 && ib !== -1) return ia - ib;
+    if (ia !== -1) return -1;
+    if (ib !== -1) return 1;
+    return a.localeCompare(b);
+  };
+}
+
+// Hex color for a rotation label; elective specializations use the underlying rotation's color
+export function getRotationColor(catalog: RotationDefinition[], rotation: string): string {
+  const id = rotation.match(/^ELECTIVE \((.+)\)$/)?.[1] ?? rotation;
+  return findRotation(catalog, id)?.color || "#FFFFFF";
+}
+
+// True when a built-in rotation's color was changed from its default, so its themed badge no longer applies
+export function hasCustomColor(catalog: RotationDefinition[], id: string): boolean {
+  const def = findRotation(DEFAULT_ROTATION_CATALOG, id);
+  const current = findRotation(catalog, id);
+  if (!current) return false;
+  if (!def) return true;
+  return current.color.toLowerCase() !== def.color.toLowerCase();
+}
+
+// Derive a stable id for a new custom rotation from its display name
+export function makeRotationId(name: string, catalog: RotationDefinition[]): string {
+  const slug = name.trim().toUpperCase().replace(/[^A-Z0-9]+/g, "_").replace(/^_+|_+$/g, "") || "ROTATION";
+  // "ELECTIVE (...)" labels are reserved for elective specializations
+  const base = slug.startsWith("ELECTIVE") ? `ROT_${slug}` : slug;
+  let id = base;
+  let n = 2;
+  while (catalog.some((r) => r.id === id)) {
+    id = `${base}_${n++}`;
+  }
+  return id;
+}
+
+// A fellowship-total training target: blocks on any of `rotations` summed over PGY-4 to PGY-6.
+// Elective specializations such as "ELECTIVE (ECHO2)" count toward their underlying rotation.
+export type TrainingRequirement = {
+  id: string;
+  name: string;
+  rotations: string[];
+  blocks: number;
+};
+
+// Matches what the default per-year rules guarantee every fellow of a five-fellow class
+export const DEFAULT_TRAINING_REQUIREMENTS: TrainingRequirement[] = [
+  { id: "cath", name: "Cardiac catheterization", rotations: ["LAC_CATH"], blocks: 9 },
+  { id: "ccu", name: "Critical care", rotations: ["CCU"], blocks: 4 },
+  { id: "echo", name: "Echocardiography", rotations: ["ECHO1", "ECHO2"], blocks: 7 },
+  { id: "echo2", name: "Echo level 2", rotations: ["ECHO2"], blocks: 4 },
+  { id: "nuclear", name: "Nuclear cardiology", rotations: ["NUCLEAR"], blocks: 4 },
+  { id: "ep", name: "Electrophysiology", rotations: ["EP"], blocks: 5 },
+  { id: "hf", name: "Heart failure", rotations: ["HF"], blocks: 4 },
+];
+
+export function normalizeTrainingRequirements(stored: TrainingRequirement[] | undefined): TrainingRequirement[] {
+  if (!Array.isArray(stored)) return DEFAULT_TRAINING_REQUIREMENTS;
+  return stored
+    .filter((r) => r && r.id)
+    .map((r) => ({ ...r, name: r.name ?? r.id, rotations: r.rotations ?? [], blocks: Math.max(0, r.blocks ?? 0) }));
+}
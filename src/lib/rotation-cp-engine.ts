@@ -0,0 +1,527 @@
+import { blocksPerMonth, fromHalfMonthBlocks, type BlockInfo } from "@/lib/block-utils";
+import { type Fellow, type FellowSchedule, type PGY } from "@/lib/schedule-engine";
+import { storageContext, type ScheduleContext } from "@/lib/schedule-context";
+import { getCustomRotationsForPGY } from "@/lib/rotation-catalog";
+import {
+  PGY4_FELLOW_BLOCKS,
+  PGY4_FULL_MONTH_ROTATIONS,
+  PGY5_CLASS_TOTALS,
+  PGY5_FELLOW_BLOCKS,
+  PGY6_CLASS_TOTALS,
+  addCoverageSpecializations,
+  buildCrossCounts,
+  classCapacity,
+  classTotalWithout,
+  cohortSharesFor,
+  fellowQuota,
+  getEarlyLacCathKeys,
+  hasQuotaOverride,
+  scaleClassTotal,
+  staggerOrder,
+  type SolveRotationsResult,
+} from "@/lib/rotation-engine";
+import { orderByNeed, requirementGaps } from "@/lib/requirements-engine";
+import { findInfeasibleCore, solveCP, type CPItem, type CPModel, type CPSeparation, type CPStatus } from "@/lib/cp-solver";
+
+export type RotationSolverEngine = "heuristic" | "cp";
+
+export const ROTATION_SOLVER_ENGINES: { value: RotationSolverEngine; label: string; description: string }[] = [
+  { value: "heuristic", label: "Fast heuristic", description: "Randomized retries; quick, but may give up on tight years" },
+  { value: "cp", label: "Constraint solver", description: "Branch-and-bound search; proves infeasibility or scores the best schedule found" },
+];
+
+export type RotationObjective = {
+  status: CPStatus;
+  score: number;
+  // Best score any schedule could reach; equals score when the solution is proven optimal
+  bound: number;
+  preference: number;
+  spreadPenalty: number;
+  nodes: number;
+  elapsedMs: number;
+};
+
+export type CPSolveRotationsResult = SolveRotationsResult & {
+  objective?: RotationObjective;
+  // Smallest set of rules found that cannot all hold together (infeasible solves only)
+  infeasibleCore?: RotationRule[];
+};
+
+// One-line summary for toasts, e.g. "Proven optimal: score 31 of 31 (preference 31, spread penalty 0)"
+export function formatRotationObjective(objective: RotationObjective): string {
+  const status = objective.status === "optimal" ? "Proven optimal" : "Best found within the time limit";
+  return `${status}: score ${objective.score} of at most ${objective.bound} (preference ${objective.preference}, spread penalty ${objective.spreadPenalty})`;
+}
+
+// A rule the model can relax on its own; used to extract an infeasible core. Ids are stable
+// ("capacity", "cross-pgy", "quota:HF", "vacation:<fellowId>", ...) so they can be stored in settings.
+export type RotationRule = { id: string; description: string };
+
+type ModelSpec = {
+  pgy: PGY;
+  fellows: Fellow[];
+  blocks: BlockInfo[];
+  existingByFellow: FellowSchedule | undefined;
+  relaxed: Set<string>;
+  ctx: ScheduleContext;
+};
+
+type BuiltModel = { model: CPModel; groups: RotationRule[] };
+
+const SPREAD_WEIGHT = 1;
+// Per block a fellow is behind on a fellowship requirement, when choosing who takes a larger share
+const REQUIREMENT_WEIGHT = 2;
+// For a candidate that lands on a block the fellow asked for; requests are soft
+const REQUEST_WEIGHT = 1;
+
+function singleCandidates(blockCount: number, filter?: (i: number) => boolean): number[][] {
+  const out: number[][] = [];
+  for (let i = 0; i < blockCount; i++) if (!filter || filter(i)) out.push([i]);
+  return out;
+}
+
+// "A full month" is every block of a calendar month with the usual number of blocks; on calendars with
+// one block per month that is each single block
+function monthCandidates(blocks: BlockInfo[], filter?: (monthIndex: number) => boolean): number[][] {
+  const perMonth = blocksPerMonth(blocks);
+  if (perMonth === 1) return singleCandidates(blocks.length, (i) => !filter || filter(blocks[i].monthIndex));
+  const byMonth = new Map<number, number[]>();
+  blocks.forEach((b, i) => {
+    const arr = byMonth.get(b.monthIndex) ?? [];
+    arr.push(i);
+    byMonth.set(b.monthIndex, arr);
+  });
+  return [...byMonth.entries()]
+    .filter(([mi, idxs]) => idxs.length === perMonth && (!filter || filter(mi)))
+    .map(([, idxs]) => idxs);
+}
+
+function buildModel(spec: ModelSpec): BuiltModel {
+  const { pgy, fellows, blocks, existingByFellow, relaxed, ctx } = spec;
+  const blockCount = blocks.length;
+  const perMonth = blocksPerMonth(blocks);
+  const items: CPItem[] = [];
+  const separations: CPSeparation[] = [];
+  const capacity: Record<string, number[]> = {};
+  const groups: Record<string, number> = {};
+  const custom: CPModel["custom"] = [];
+  const ruleGroups: RotationRule[] = [];
+  const rule = (id: string, description: string) => {
+    ruleGroups.push({ id, description });
+    return !relaxed.has(id);
+  };
+
+  // Locked cells: vacations and pinned blocks (anything already on the base schedule)
+  const occupied: Record<string, number[]> = {};
+  for (const f of fellows) {
+    const row = existingByFellow?.[f.id] || {};
+    const locked = blocks.map((b, i) => (row[b.key] ? i : -1)).filter((i) => i >= 0);
+    if (locked.length === 0) continue;
+    const lockedKeys = locked.map((i) => blocks[i].key).join(", ");
+    if (rule(`vacation:${f.id}`, `${f.name || f.id}'s vacations and pinned blocks (${lockedKeys}) stay where they are`)) {
+      occupied[f.id] = locked;
+    }
+  }
+
+  const gaps = pgy === "PGY-4" ? {} : requirementGaps(fellows, pgy, ctx);
+
+  const withinPGY = rule("capacity", `At most one ${pgy} fellow per rotation per block`) ? 1 : 2;
+  const nonConsecutive = rule("non-consecutive", `${pgy} rotations are not repeated in back-to-back blocks or months`);
+
+  const add = (
+    f: Fellow,
+    label: string,
+    count: number,
+    candidates: number[][],
+    extra?: { optional?: number; group?: string; score?: (cells: number[]) => number; chain?: string }
+  ) => {
+    const chain = extra?.chain ?? `${f.id}:${label}`;
+    // Blocks already holding this rotation (pinned cells) count toward the share
+    const row = existingByFellow?.[f.id] || {};
+    const held = Math.floor(blocks.filter((b) => row[b.key] === label).length / (candidates[0]?.length || 1));
+    const required = Math.max(0, count - held);
+    const total = required + Math.max(0, (extra?.optional ?? 0) - Math.max(0, held - count));
+    const wanted = new Set(
+      (f.rotationRequests ?? [])
+        .filter((r) => r.rotation === label)
+        .flatMap((r) => r.blocks.map((k) => blocks.findIndex((b) => b.key === k)))
+    );
+    const requestBonus = (cells: number[]) => (cells.some((i) => wanted.has(i)) ? REQUEST_WEIGHT : 0);
+    for (let n = 0; n < total; n++) {
+      const optional = n >= required;
+      // Optional shares lean toward fellows behind on their fellowship totals for this rotation
+      const bonus = optional ? (gaps[f.id]?.[label] ?? 0) * REQUIREMENT_WEIGHT : 0;
+      const scored = !!extra?.score || bonus > 0 || wanted.size > 0;
+      items.push({
+        id: `${f.id}:${label}:${chain}:${n}`,
+        owner: f.id,
+        label,
+        candidates,
+        scores: scored ? candidates.map((cells) => (extra?.score?.(cells) ?? 0) + bonus + requestBonus(cells)) : undefined,
+        optional,
+        group: optional ? extra?.group : undefined,
+        chain,
+      });
+    }
+  };
+  // Month-long rotations, `count` blocks for the fellow; an odd count ends with one single block
+  const addMonths = (
+    f: Fellow,
+    label: string,
+    count: number,
+    months: number[][],
+    singles: number[][],
+    extra?: { score?: (cells: number[]) => number }
+  ) => {
+    add(f, label, Math.floor(count / perMonth), months, extra);
+    if (count % perMonth > 0) add(f, label, count % perMonth, singles, { ...extra, chain: `${f.id}:${label}:single` });
+  };
+  const quota = (label: string, perFellow: number, name = label) =>
+    rule(`quota:${label}`, `${pgy} ${name} = ${perFellow} block${perFellow === 1 ? "" : "s"} per fellow`)
+      ? perFellow
+      : Math.max(0, perFellow - 1);
+  // Built-in counts are half-month blocks, converted to the configured calendar
+  const builtIn = (label: string, halfMonths: number) => quota(label, fromHalfMonthBlocks(halfMonths, blocks));
+  // Blocks the class can take of a rotation, converted to the configured calendar
+  const capacityOf = (label: string) => fromHalfMonthBlocks(classCapacity(pgy, label, fellows.length, 24, ctx), blocks);
+  // Per-fellow counts spread across the cohort, full-month rotations in whole months
+  const cohortCounts = <R extends string>(
+    perFellow: Record<R, number>,
+    fullMonth: readonly string[] = [],
+    capacityFor: (label: R) => number = capacityOf
+  ) =>
+    cohortSharesFor(
+      fellows,
+      Object.fromEntries(Object.entries<number>(perFellow).map(([label, n]) => [label, builtIn(label, n)])) as Record<R, number>,
+      (label, index) => orderByNeed(staggerOrder(fellows.map((f) => f.id), index), gaps, label),
+      (label) => (fullMonth.includes(label) ? perMonth : 1),
+      capacityFor
+    );
+  const setCapacity = (label: string, perBlock: (i: number) => number) => {
+    capacity[label] = blocks.map((_, i) => perBlock(i));
+  };
+  const separate = (label: string, unit: "block" | "month") => {
+    if (nonConsecutive) separations.push({ a: label, b: label, unit });
+  };
+  const spread = (label: string) => separations.push({ a: label, b: label, unit: "month", weight: SPREAD_WEIGHT });
+
+  const allSingles = singleCandidates(blockCount);
+  const allMonths = monthCandidates(blocks);
+
+  if (pgy === "PGY-4") {
+    const earlyKeys = new Set(getEarlyLacCathKeys(blocks, fellows.length));
+    const earlyRule = rule("early-lac-cath", `Every PGY-4 starts LAC_CATH within the first ${earlyKeys.size} blocks`);
+    const earlySingles = singleCandidates(blockCount, (i) => !earlyRule || earlyKeys.has(blocks[i].key));
+    const hfWindow = rule("hf-window", "PGY-4 HF is a full month between January and June");
+    const hfMonths = monthCandidates(blocks, (mi) => !hfWindow || (mi >= 6 && mi <= 11));
+    const hfSingles = singleCandidates(blockCount, (i) => !hfWindow || (blocks[i].monthIndex >= 6 && blocks[i].monthIndex <= 11));
+    const hfCapacity = hfWindow ? blocks.filter((b) => b.monthIndex >= 6 && b.monthIndex <= 11).length : blockCount;
+    const count = cohortCounts(PGY4_FELLOW_BLOCKS, PGY4_FULL_MONTH_ROTATIONS, (label) =>
+      Math.min(capacityOf(label), label === "HF" ? hfCapacity : Infinity)
+    );
+    const own = (f: Fellow, label: keyof typeof count) => count[label].get(f.id) ?? 0;
+    for (const f of fellows) {
+      const cath = own(f, "LAC_CATH");
+      if (cath > 0) add(f, "LAC_CATH", 1, earlySingles, { chain: `${f.id}:LAC_CATH:early` });
+      add(f, "LAC_CATH", Math.max(0, cath - 1), allSingles);
+      // CCU early in the year is preferred, as in the heuristic
+      addMonths(f, "CCU", own(f, "CCU"), allMonths, allSingles, { score: (cells) => (blocks[cells[0]].monthIndex <= 5 ? 1 : 0) });
+      addMonths(f, "LAC_CONSULT", own(f, "LAC_CONSULT"), allMonths, allSingles);
+      addMonths(f, "HF", own(f, "HF"), hfMonths, hfSingles);
+      addMonths(f, "KECK_CONSULT", own(f, "KECK_CONSULT"), allMonths, allSingles);
+      add(f, "ECHO1", own(f, "ECHO1"), allSingles);
+      add(f, "EP", own(f, "EP"), allSingles);
+    }
+    for (const label of ["LAC_CATH", "CCU", "LAC_CONSULT", "ECHO1"]) separate(label, "month");
+    separations.push({ a: "HF", b: "CCU", unit: "month", weight: 2 });
+    for (const label of ["LAC_CATH", "CCU", "LAC_CONSULT", "HF", "KECK_CONSULT", "ECHO1", "EP"]) {
+      setCapacity(label, () => withinPGY);
+    }
+  } else if (pgy === "PGY-5") {
+    // Fellows with an individual CCU or LAC_CONSULT quota take it outright, outside the class split
+    const ccuClassSize = fellows.filter((f) => !hasQuotaOverride(f, "CCU")).length;
+    const ccuFellowCount = Math.min(
+      classTotalWithout(fellows, "CCU", scaleClassTotal(PGY5_CLASS_TOTALS.CCU, fellows.length, capacityOf("CCU"))),
+      ccuClassSize
+    );
+    const lacConsultFellowCount = Math.min(
+      fellows.filter((f) => !hasQuotaOverride(f, "LAC_CONSULT")).length,
+      Math.max(
+        classTotalWithout(
+          fellows,
+          "LAC_CONSULT",
+          scaleClassTotal(PGY5_CLASS_TOTALS.LAC_CONSULT, fellows.length, capacityOf("LAC_CONSULT"))
+        ),
+        ccuClassSize - ccuFellowCount
+      )
+    );
+    const pgy4 = ctx.schedules["PGY-4"];
+    const crossRule = rule("cross-pgy", "PGY-5 CCU, KECK_CONSULT, LAC_CONSULT, HF and EP avoid blocks PGY-4 already covers");
+    const cross = buildCrossCounts(crossRule ? [pgy4?.byFellow] : []);
+    const pgy4Cath = buildCrossCounts([pgy4?.byFellow]).LAC_CATH;
+    const ccuOrConsult = rule("ccu-or-lac-consult", "Every PGY-5 without CCU takes LAC_CONSULT");
+    groups.CCU = ccuFellowCount;
+    groups.LAC_CONSULT = lacConsultFellowCount;
+    const classShare = (f: Fellow, label: string) =>
+      hasQuotaOverride(f, label)
+        ? add(f, label, fellowQuota(f, label, 0), allSingles)
+        : add(f, label, 0, allSingles, { optional: 1, group: label });
+    const count = cohortCounts(PGY5_FELLOW_BLOCKS, ["KECK_CONSULT"]);
+    const own = (f: Fellow, label: keyof typeof count) => count[label].get(f.id) ?? 0;
+    for (const f of fellows) {
+      addMonths(f, "KECK_CONSULT", own(f, "KECK_CONSULT"), allMonths, allSingles);
+      classShare(f, "CCU");
+      classShare(f, "LAC_CONSULT");
+      add(f, "HF", own(f, "HF"), allSingles);
+      add(f, "EP", own(f, "EP"), allSingles);
+      add(f, "ECHO2", own(f, "ECHO2"), allSingles);
+      add(f, "NUCLEAR", own(f, "NUCLEAR"), allSingles);
+      add(f, "NONINVASIVE", own(f, "NONINVASIVE"), allSingles);
+      // LAC_CATH takes at most two fellows per block across PGYs; blocks PGY-4 leaves open keep PGY-6 room spread
+      add(f, "LAC_CATH", own(f, "LAC_CATH"), allSingles, { score: (cells) => ((pgy4Cath.get(blocks[cells[0]].key) || 0) === 0 ? 1 : 0) });
+      if (ccuOrConsult && !hasQuotaOverride(f, "CCU") && !hasQuotaOverride(f, "LAC_CONSULT")) {
+        const ccuId = `${f.id}:CCU:${f.id}:CCU:0`;
+        const consultId = `${f.id}:LAC_CONSULT:${f.id}:LAC_CONSULT:0`;
+        custom.push({
+          scope: [ccuId, consultId],
+          description: `${f.name || f.id} needs CCU or LAC_CONSULT`,
+          check: (present) => present(ccuId) || present(consultId),
+        });
+      }
+    }
+    for (const label of ["HF", "EP", "ECHO2", "NUCLEAR", "NONINVASIVE", "LAC_CATH"]) {
+      separate(label, "block");
+      spread(label);
+    }
+    if (rule("hf-ccu-adjacency", "PGY-5 HF is never next to the same fellow's CCU block")) {
+      separations.push({ a: "HF", b: "CCU", unit: "block" });
+    }
+    for (const label of ["LAC_CATH", "CCU", "LAC_CONSULT", "HF", "KECK_CONSULT", "ECHO2", "EP", "NUCLEAR", "NONINVASIVE"]) {
+      const crossBlocked = ["CCU", "KECK_CONSULT", "LAC_CONSULT", "HF", "EP"].includes(label);
+      setCapacity(label, (i) => (crossBlocked && (cross[label]?.get(blocks[i].key) || 0) > 0 ? 0 : withinPGY));
+    }
+  } else {
+    const p4 = ctx.schedules["PGY-4"];
+    const p5 = ctx.schedules["PGY-5"];
+    const cross = buildCrossCounts([p4?.byFellow, p5?.byFellow]);
+    const crossRule = rule("cross-pgy", "LAC_CATH has at most two fellows per block across all PGYs");
+    const n = fellows.length;
+    // Fellows with an individual quota for a rotation take it outright and sit outside its shares
+    const inClass = (f: Fellow, ...labels: string[]) => labels.every((label) => !hasQuotaOverride(f, label));
+    const shares = (label: keyof typeof PGY6_CLASS_TOTALS) => {
+      const size = fellows.filter((f) => inClass(f, label)).length;
+      const total = classTotalWithout(
+        fellows,
+        label,
+        Math.min(fromHalfMonthBlocks(scaleClassTotal(PGY6_CLASS_TOTALS[label], n), blocks), capacityOf(label))
+      );
+      const floor = size > 0 ? Math.floor(total / size) : 0;
+      const extra = size > 0 ? total - floor * size : 0;
+      groups[label] = extra;
+      return { floor, extra, size };
+    };
+    // Prefer blocks no other PGY covers, so fewer elective specializations are needed
+    const uncovered = (label: string) => (cells: number[]) =>
+      (cross[label]?.get(blocks[cells[0]].key) || 0) === 0 ? 1 : 0;
+    const dist = {
+      HF: shares("HF"),
+      KECK_CONSULT: shares("KECK_CONSULT"),
+      ECHO2: shares("ECHO2"),
+      NUCLEAR: shares("NUCLEAR"),
+      NONINVASIVE: shares("NONINVASIVE"),
+      LAC_CATH: shares("LAC_CATH"),
+    };
+    const ep = cohortCounts({ EP: 2 }).EP;
+    for (const f of fellows) {
+      for (const label of Object.keys(dist) as (keyof typeof dist)[]) {
+        const { floor, extra } = dist[label];
+        const score = label === "LAC_CATH" || label === "NUCLEAR" ? undefined : uncovered(label);
+        if (!inClass(f, label)) add(f, label, fellowQuota(f, label, 0), allSingles, { score });
+        else add(f, label, floor, allSingles, { optional: extra > 0 ? 1 : 0, group: label, score });
+      }
+      add(f, "EP", ep.get(f.id) ?? 0, allSingles);
+    }
+    const optionalId = (f: Fellow, label: string) => `${f.id}:${label}:${f.id}:${label}:${dist[label as keyof typeof dist].floor}`;
+    const isHigh = (present: (id: string) => boolean, f: Fellow, label: keyof typeof dist) =>
+      dist[label].extra === 0 || present(optionalId(f, label));
+    if (rule("distribution-pairing", "PGY-6 fellows without HF take the larger LAC_CATH share, and the smaller NUCLEAR and NONINVASIVE shares go to different fellows")) {
+      const hfPair = fellows.filter((f) => inClass(f, "HF", "LAC_CATH"));
+      if (dist.HF.floor === 0 && dist.HF.extra > 0 && dist.LAC_CATH.extra > 0 && hfPair.length > 0) {
+        const scope = hfPair.flatMap((f) => [optionalId(f, "HF"), optionalId(f, "LAC_CATH")]);
+        custom.push({
+          scope,
+          description: "Fellows without HF take the larger LAC_CATH share",
+          check: (present) => {
+            const noHF = hfPair.filter((f) => !isHigh(present, f, "HF"));
+            const noHFHigh = noHF.filter((f) => isHigh(present, f, "LAC_CATH")).length;
+            return noHFHigh >= Math.min(noHF.length, dist.LAC_CATH.extra);
+          },
+        });
+      }
+      const lowPair = fellows.filter((f) => inClass(f, "NUCLEAR", "NONINVASIVE"));
+      if (dist.NUCLEAR.extra > 0 && dist.NONINVASIVE.extra > 0 && lowPair.length > 0) {
+        const allowed = Math.max(0, (dist.NUCLEAR.size - dist.NUCLEAR.extra) + (dist.NONINVASIVE.size - dist.NONINVASIVE.extra) - n);
+        const scope = lowPair.flatMap((f) => [optionalId(f, "NUCLEAR"), optionalId(f, "NONINVASIVE")]);
+        custom.push({
+          scope,
+          description: "The smaller NUCLEAR and NONINVASIVE shares go to different fellows",
+          check: (present) =>
+            lowPair.filter((f) => !isHigh(present, f, "NUCLEAR") && !isHigh(present, f, "NONINVASIVE")).length <= allowed,
+        });
+      }
+    }
+    for (const label of ["HF", "KECK_CONSULT", "ECHO2", "NUCLEAR", "NONINVASIVE", "LAC_CATH", "EP"]) {
+      separate(label, "block");
+      spread(label);
+      setCapacity(label, (i) =>
+        label === "LAC_CATH" && crossRule
+          ? Math.min(withinPGY, Math.max(0, 2 - (cross.LAC_CATH.get(blocks[i].key) || 0)))
+          : withinPGY
+      );
+    }
+  }
+
+  // Custom catalog rotations: single, non-consecutive blocks with their own capacity
+  for (const rot of getCustomRotationsForPGY(ctx.settings.rotationCatalog, pgy)) {
+    const perFellow = rot.blocksPerYear[pgy] || 0;
+    if (perFellow <= 0) continue;
+    const count = quota(rot.id, perFellow, rot.name);
+    for (const f of fellows) add(f, rot.id, fellowQuota(f, rot.id, count), allSingles);
+    separate(rot.id, "block");
+    if (rot.capacityPerBlock > 0) setCapacity(rot.id, () => rot.capacityPerBlock * withinPGY);
+  }
+
+  return {
+    model: {
+      blockCount,
+      monthOf: blocks.map((b) => b.monthIndex),
+      owners: fellows.map((f) => f.id),
+      items,
+      occupied,
+      capacity,
+      separations,
+      groups,
+      custom,
+    },
+    groups: ruleGroups,
+  };
+}
+
+function extractInfeasibleCore(spec: ModelSpec, groups: RotationRule[], deadline: number): RotationRule[] {
+  const core = findInfeasibleCore(groups, (relaxed) => buildModel({ ...spec, relaxed }).model, {
+    deadline,
+    initiallyRelaxed: spec.relaxed,
+  });
+  // Still infeasible with every relaxable rule dropped: the fixed rotation counts themselves do not fit
+  if (core.length === 0) {
+    return [{ id: "fixed-counts", description: `The fixed ${spec.pgy} rotation counts do not fit in the fellows' open blocks` }];
+  }
+  return core;
+}
+
+// Rules already relaxed in settings: the per-PGY enforce flags and rules relaxed from the report
+function settingsRelaxations(pgy: PGY, ctx: ScheduleContext): Set<string> {
+  const { blockRotations } = ctx.settings;
+  const relaxed = new Set(blockRotations.relaxedRules?.[pgy] ?? []);
+  const pgySettings = pgy === "PGY-4" ? blockRotations.pgy4 : pgy === "PGY-5" ? blockRotations.pgy5 : blockRotations.pgy6;
+  if (!pgySettings.enforceNonConsecutiveMonths) relaxed.add("non-consecutive");
+  if (pgy === "PGY-4" && !blockRotations.pgy4.enforceEarlyLacCathRule) relaxed.add("early-lac-cath");
+  return relaxed;
+}
+
+// Prove whether the rotation rules for a PGY can be met and, if not, which of them collide
+export function findRotationConflicts(
+  pgy: PGY,
+  fellows: Fellow[],
+  blocks: BlockInfo[],
+  existingByFellow: FellowSchedule | undefined,
+  opts?: { timeout?: number },
+  ctx: ScheduleContext = storageContext()
+): { status: CPStatus; conflicts: RotationRule[] } {
+  const timeout = opts?.timeout ?? 30000;
+  const start = Date.now();
+  const spec: ModelSpec = { pgy, fellows, blocks, existingByFellow, relaxed: settingsRelaxations(pgy, ctx), ctx };
+  const { model, groups } = buildModel(spec);
+  const res = solveCP(model, { firstSolution: true, timeout: Math.floor(timeout * 0.5) });
+  if (res.status !== "infeasible") return { status: res.status, conflicts: [] };
+  return { status: "infeasible", conflicts: extractInfeasibleCore(spec, groups, start + timeout) };
+}
+
+export function solveRotationsCP(
+  pgy: PGY,
+  fellows: Fellow[],
+  blocks: BlockInfo[],
+  existingByFellow: FellowSchedule | undefined,
+  opts?: { timeout?: number; nodeLimit?: number },
+  ctx: ScheduleContext = storageContext()
+): CPSolveRotationsResult {
+  const timeout = opts?.timeout ?? 30000;
+  const start = Date.now();
+  if (!fellows || fellows.length === 0) {
+    return { success: false, byFellow: {}, conflicts: [`No ${pgy} fellows found`], tried: 0 };
+  }
+
+  const spec: ModelSpec = { pgy, fellows, blocks, existingByFellow, relaxed: settingsRelaxations(pgy, ctx), ctx };
+  const { model, groups } = buildModel(spec);
+  // Leave a share of the time budget for core extraction should the problem be infeasible
+  const res = solveCP(model, { timeout: Math.floor(timeout * 0.6), nodeLimit: opts?.nodeLimit });
+
+  if (!res.assignment) {
+    if (res.status === "unknown") {
+      return {
+        success: false,
+        byFellow: {},
+        timeout: true,
+        tried: res.nodes,
+        conflicts: [`${pgy} constraint search stopped after ${res.nodes} nodes without finding a schedule or proving none exists.`],
+      };
+    }
+    const infeasibleCore = extractInfeasibleCore(spec, groups, start + timeout);
+    return {
+      success: false,
+      byFellow: {},
+      tried: res.nodes,
+      conflicts: [`No ${pgy} schedule satisfies these rules together: ${infeasibleCore.map((r) => r.description).join("; ")}.`],
+      infeasibleCore,
+    };
+  }
+
+  const byFellow: FellowSchedule = {};
+  for (const f of fellows) {
+    const row: Record<string, string | undefined> = { ...(existingByFellow?.[f.id] || {}) };
+    byFellow[f.id] = row;
+  }
+  let preference = 0;
+  for (const item of model.items) {
+    const cells = res.assignment[item.id] || [];
+    for (const c of cells) byFellow[item.owner][blocks[c].key] = item.label;
+    if (cells.length && item.scores) {
+      const v = item.candidates.findIndex((cand) => cand[0] === cells[0]);
+      preference += item.scores[v] ?? 0;
+    }
+  }
+  for (const f of fellows) {
+    const row = byFellow[f.id];
+    for (const b of blocks) if (!row[b.key]) row[b.key] = "ELECTIVE";
+  }
+  if (pgy === "PGY-6") {
+    const cross = buildCrossCounts([ctx.schedules["PGY-4"]?.byFellow, ctx.schedules["PGY-5"]?.byFellow]);
+    addCoverageSpecializations(fellows, byFellow, blocks.map((b) => b.key), cross);
+  }
+
+  const score = res.objective ?? 0;
+  return {
+    success: true,
+    byFellow,
+    tried: res.nodes,
+    objective: {
+      status: res.status,
+      score,
+      bound: res.bound ?? score,
+      preference,
+      spreadPenalty: preference - score,
+      nodes: res.nodes,
+      elapsedMs: res.elapsedMs,
+    },
+  };
+}
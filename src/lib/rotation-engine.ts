@@ -1,8 +1,12 @@
 import { type BlockInfo } from "@/lib/block-utils";
-import { type Fellow, type FellowSchedule, loadSchedule } from "@/lib/schedule-engine";
-import { loadSettings } from "@/lib/settings-engine";
-
-export type Rotation =
+import { type Fellow, type FellowSchedule, type PGY } from "@/lib/schedule-engine";
+import { storageContext, type ScheduleContext } from "@/lib/schedule-context";
+import { reportProgress } from "@/lib/engine-progress";
+import { createRng, randomSeed, shuffle, type Rng } from "@/lib/seeded-random";
+import { getCustomRotationsForPGY, isCustomRotation, type RotationDefinition } from "@/lib/rotation-catalog";
+import { orderByNeed, requirementGaps } from "@/lib/requirements-engine";
+
+export type BuiltInRotation =
   | "VAC"
   | "LAC_CATH"
   | "CCU"
@@ -20,6 +24,9 @@ export type Rotation =
   | "ELECTIVE (HF)"
   | "ELECTIVE (KECK_CONSULT)";
 
+// Custom rotations from the settings catalog are stored by their catalog id
+export type Rotation = BuiltInRotation | (string & Record<never, never>);
+
 // Helper function to get the primary rotation type from any rotation (including elective specializations)
 export function getPrimaryRotation(rotation: Rotation): Rotation {
   if (rotation.startsWith("ELECTIVE (")) {
@@ -48,7 +55,191 @@ export type SolveRotationsResult = {
   };
 };
 
-export const FIRST_FIVE_KEYS = ["JUL1", "JUL2", "AUG1", "AUG2", "SEP1"] as const;
+// Early LAC_CATH window: the first N blocks of the year, one per fellow in the cohort
+export function getEarlyLacCathKeys(blocks: BlockInfo[], cohortSize: number): string[] {
+  return blocks.slice(0, Math.max(0, cohortSize)).map((b) => b.key);
+}
+
+// Spread a class-wide block total across the cohort as evenly as possible.
+// The first `total % ids.length` fellows in `ids` receive the extra block.
+export function distributeAcrossCohort(ids: string[], total: number): Map<string, number> {
+  const counts = new Map<string, number>();
+  if (ids.length === 0) return counts;
+  const base = Math.floor(total / ids.length);
+  const extra = total % ids.length;
+  ids.forEach((id, i) => counts.set(id, base + (i < extra ? 1 : 0)));
+  return counts;
+}
+
+// A fellow's blocks of a rotation this year: their individual override, else the class count
+export function fellowQuota(fellow: Fellow, rotation: string, classCount: number): number {
+  const override = fellow.rotationQuotas?.[rotation];
+  return typeof override === "number" && override >= 0 ? override : classCount;
+}
+
+export function hasQuotaOverride(fellow: Fellow, rotation: string): boolean {
+  return fellowQuota(fellow, rotation, -1) >= 0;
+}
+
+// Fellows with an override for a rotation take their own count out of its class total; the total
+// shrinks in proportion so the rest of the class keeps its usual share.
+export function classTotalWithout(fellows: Fellow[], rotation: string, total: number): number {
+  const shared = fellows.filter((f) => !hasQuotaOverride(f, rotation)).length;
+  return shared === fellows.length ? total : Math.round((total * shared) / fellows.length);
+}
+
+// Soft rotation requests: candidates touching blocks the fellow asked for come first, the rest
+// keep their order
+function requestedFirst<T>(fellow: Fellow | undefined, rotation: string, items: T[], keysOf: (item: T) => string[]): T[] {
+  const wanted = new Set(
+    (fellow?.rotationRequests ?? []).filter((r) => r.rotation === rotation).flatMap((r) => r.blocks)
+  );
+  if (wanted.size === 0) return items;
+  const hit = (item: T) => keysOf(item).some((k) => wanted.has(k));
+  return [...items.filter(hit), ...items.filter((item) => !hit(item))];
+}
+
+// Built-in counts are sized for a class of this many fellows. Class totals scale with the cohort, up to
+// the blocks the service can give the class (see classCapacity); only past that point do fellows split a
+// fixed total and take more elective time.
+export const REFERENCE_CLASS_SIZE = 5;
+
+export function scaleClassTotal(total: number, cohortSize: number, capacity = Infinity): number {
+  return Math.min(Math.round((total * cohortSize) / REFERENCE_CLASS_SIZE), capacity);
+}
+
+// Per-fellow counts for a rotation every fellow takes, `perFellow` blocks each in a 5-fellow class.
+// Fellows with an individual quota keep it; the rest split the scaled class total (at most `capacity`) in whole `unit`s
+// (2 for full-month rotations on the half-month calendar), fellows earlier in `order` taking any extra.
+export function cohortShares(
+  fellows: Fellow[],
+  rotation: string,
+  perFellow: number,
+  order: string[] = fellows.map((f) => f.id),
+  unit = 1,
+  capacity = Infinity
+): Map<string, number> {
+  const byId = new Map(fellows.map((f) => [f.id, f] as const));
+  const shared = order.filter((id) => byId.has(id) && !hasQuotaOverride(byId.get(id)!, rotation));
+  const total = classTotalWithout(fellows, rotation, scaleClassTotal(perFellow * REFERENCE_CLASS_SIZE, fellows.length, capacity));
+  const counts = new Map<string, number>();
+  for (const [id, units] of distributeAcrossCohort(shared, Math.floor(total / unit))) counts.set(id, units * unit);
+  for (const f of fellows) if (hasQuotaOverride(f, rotation)) counts.set(f.id, fellowQuota(f, rotation, 0));
+  return counts;
+}
+
+// Blocks per fellow for rotations every fellow of the PGY takes, in a 5-fellow class
+export const PGY4_FELLOW_BLOCKS = { LAC_CATH: 4, CCU: 4, LAC_CONSULT: 4, HF: 2, KECK_CONSULT: 2, ECHO1: 3, EP: 1 } as const;
+export const PGY5_FELLOW_BLOCKS = { KECK_CONSULT: 2, HF: 2, EP: 2, ECHO2: 3, NUCLEAR: 2, NONINVASIVE: 2, LAC_CATH: 4 } as const;
+// PGY-4 rotations taken in full months, so their shares are split in months rather than blocks
+export const PGY4_FULL_MONTH_ROTATIONS: readonly string[] = ["CCU", "LAC_CONSULT", "HF", "KECK_CONSULT"];
+
+// Start the order `index` fellows in, so rotations whose totals run short do not all short the same fellows
+export function staggerOrder(order: string[], index: number): string[] {
+  const k = order.length > 0 ? index % order.length : 0;
+  return [...order.slice(k), ...order.slice(0, k)];
+}
+
+// cohortShares for each rotation in a table of per-fellow counts; orderFor gets the rotation's position in the table
+export function cohortSharesFor<R extends string>(
+  fellows: Fellow[],
+  perFellow: Record<R, number>,
+  orderFor: (rotation: R, index: number) => string[],
+  unitFor: (rotation: R) => number,
+  capacityFor: (rotation: R) => number = () => Infinity
+): Record<R, Map<string, number>> {
+  const out = {} as Record<R, Map<string, number>>;
+  (Object.keys(perFellow) as R[]).forEach((rotation, index) => {
+    out[rotation] = cohortShares(
+      fellows,
+      rotation,
+      perFellow[rotation],
+      orderFor(rotation, index),
+      unitFor(rotation),
+      capacityFor(rotation)
+    );
+  });
+  return out;
+}
+
+const sumShares = (counts: Map<string, number>) => [...counts.values()].reduce((sum, n) => sum + n, 0);
+
+// Class-wide totals for rotations whose per-fellow count varies within a PGY, for a 5-fellow class
+// (e.g. PGY-6 LAC_CATH [2,2,2,1,1] = 8); scaleClassTotal sizes them to the cohort.
+export const PGY5_CLASS_TOTALS = { CCU: 4, LAC_CONSULT: 4 } as const;
+export const PGY6_CLASS_TOTALS = {
+  LAC_CATH: 8,
+  HF: 4,
+  KECK_CONSULT: 4,
+  ECHO2: 9,
+  NUCLEAR: 14,
+  NONINVASIVE: 14,
+} as const;
+
+// Services shared between PGYs: a block holds `perBlock` fellows of all `pgys` together (and still one
+// fellow per block within a PGY). The rest hold one fellow per block in each PGY independently.
+const SHARED_SERVICES: Partial<Record<string, { perBlock: number; pgys: PGY[] }>> = {
+  LAC_CATH: { perBlock: 2, pgys: ["PGY-4", "PGY-5", "PGY-6"] },
+  CCU: { perBlock: 1, pgys: ["PGY-4", "PGY-5"] },
+  LAC_CONSULT: { perBlock: 1, pgys: ["PGY-4", "PGY-5"] },
+  HF: { perBlock: 1, pgys: ["PGY-4", "PGY-5"] },
+  KECK_CONSULT: { perBlock: 1, pgys: ["PGY-4", "PGY-5"] },
+  EP: { perBlock: 1, pgys: ["PGY-4", "PGY-5"] },
+};
+
+const classTotals = (perFellow: Record<string, number>) =>
+  Object.fromEntries(Object.entries(perFellow).map(([rot, n]) => [rot, n * REFERENCE_CLASS_SIZE]));
+
+// Class totals of a 5-fellow class, in half-month blocks
+const REFERENCE_TOTALS: Record<PGY, Partial<Record<string, number>>> = {
+  "PGY-4": classTotals(PGY4_FELLOW_BLOCKS),
+  "PGY-5": { ...classTotals(PGY5_FELLOW_BLOCKS), ...PGY5_CLASS_TOTALS },
+  "PGY-6": { ...PGY6_CLASS_TOTALS, EP: 2 * REFERENCE_CLASS_SIZE },
+};
+
+// Half-month blocks a class of `cohortSize` can take of a rotation in a year of `blockCount` blocks.
+// A service of its own holds one fellow per block. A shared service leaves the other PGYs what their
+// classes (sized from setup) need; when the classes together need more than it holds, each PGY gets a
+// share in proportion to its need.
+export function classCapacity(
+  pgy: PGY,
+  rotation: string,
+  cohortSize: number,
+  blockCount: number,
+  ctx: ScheduleContext
+): number {
+  const service = SHARED_SERVICES[rotation];
+  if (!service?.pgys.includes(pgy)) return blockCount;
+  // Needs and pool are kept in whole units of a block per REFERENCE_CLASS_SIZE fellows, so they stay integers
+  const need = (p: PGY) => {
+    const size = p === pgy ? cohortSize : (ctx.setup?.fellows.filter((f) => f.pgy === p).length ?? REFERENCE_CLASS_SIZE);
+    return (REFERENCE_TOTALS[p][rotation] ?? 0) * size;
+  };
+  const pool = service.perBlock * blockCount * REFERENCE_CLASS_SIZE;
+  const total = service.pgys.reduce((sum, p) => sum + need(p), 0);
+  const share = total <= pool ? pool - (total - need(pgy)) : (pool * need(pgy)) / total;
+  return Math.min(blockCount, Math.floor(share / REFERENCE_CLASS_SIZE));
+}
+
+// Rotations limited to one fellow per block cannot demand more blocks than the year has
+function checkSingleCapacity(pgy: string, blockCount: number, demands: Partial<Record<Rotation, number>>): string[] {
+  const conflicts: string[] = [];
+  for (const [rot, needed] of Object.entries(demands)) {
+    if ((needed || 0) > blockCount) {
+      conflicts.push(
+        `${pgy} ${rot} needs ${needed} blocks across the class but only ${blockCount} are available at one fellow per block.`
+      );
+    }
+  }
+  return conflicts;
+}
+
+// Multiset comparison of per-fellow counts against the target distribution
+function matchesDistribution(actual: number[], target: Map<string, number>): boolean {
+  const a = [...actual].sort((x, y) => x - y).join(",");
+  const t = [...target.values()].sort((x, y) => x - y).join(",");
+  return a === t;
+}
 
 function buildKeyMaps(blocks: BlockInfo[]) {
   const keyToIndex = new Map<string, number>();
@@ -72,21 +263,128 @@ function withinJanToJun(mi: number) {
   return mi >= 6 && mi <= 11;
 }
 
-function shuffle<T>(arr: T[]): T[] {
-  const a = [...arr];
-  for (let i = a.length - 1; i > 0; i--) {
-    const j = Math.floor(Math.random() * (i + 1));
-    [a[i], a[j]] = [a[j], a[i]];
-  }
-  return a;
-}
-
 function cloneByFellow(src: FellowSchedule): FellowSchedule {
   const out: FellowSchedule = {};
   for (const fid of Object.keys(src || {})) out[fid] = { ...(src[fid] || {}) };
   return out;
 }
 
+// Place a fellow's custom catalog rotations on free blocks ahead of the elective fill: single,
+// non-consecutive blocks that respect the rotation's per-block capacity within the PGY.
+// Returns the first rotation that could not be fully placed, or null.
+function placeCustomRotations(
+  customRotations: RotationDefinition[],
+  pgy: PGY,
+  fellow: Fellow,
+  byFellow: FellowSchedule,
+  blockKeys: string[],
+  keyToIndex: Map<string, number>,
+  randomize: boolean,
+  rng: Rng
+): RotationDefinition | null {
+  const row = (byFellow[fellow.id] = byFellow[fellow.id] || {});
+  for (const rot of customRotations) {
+    let need = fellowQuota(fellow, rot.id, rot.blocksPerYear[pgy] || 0) - Object.values(row).filter((x) => x === rot.id).length;
+    if (need <= 0) continue;
+    const occupancy = (k: string) => Object.values(byFellow).filter((r) => r?.[k] === rot.id).length;
+    const free = blockKeys.filter((k) => !row[k] && (rot.capacityPerBlock === 0 || occupancy(k) < rot.capacityPerBlock));
+    const ordered = requestedFirst(fellow, rot.id, randomize ? shuffle(free, rng) : free, (k) => [k]);
+    for (const k of ordered) {
+      const idx = keyToIndex.get(k) ?? -999;
+      const adjacent = Object.entries(row).some(
+        ([kk, v]) => v === rot.id && Math.abs((keyToIndex.get(kk) ?? -999) - idx) === 1
+      );
+      if (adjacent) continue;
+      row[k] = rot.id;
+      need--;
+      if (need <= 0) break;
+    }
+    if (need > 0) return rot;
+  }
+  return null;
+}
+
+// Per-label, per-block assignment counts across other PGYs' schedules
+export function buildCrossCounts(schedules: (FellowSchedule | undefined)[]): Record<string, Map<string, number>> {
+  const crossCounts: Record<string, Map<string, number>> = {
+    VAC: new Map(),
+    LAC_CATH: new Map(),
+    CCU: new Map(),
+    LAC_CONSULT: new Map(),
+    HF: new Map(),
+    KECK_CONSULT: new Map(),
+    ECHO1: new Map(),
+    ECHO2: new Map(),
+    EP: new Map(),
+    NUCLEAR: new Map(),
+    NONINVASIVE: new Map(),
+    ELECTIVE: new Map(),
+    "ELECTIVE (ECHO2)": new Map(),
+    "ELECTIVE (NONINVASIVE)": new Map(),
+    "ELECTIVE (HF)": new Map(),
+    "ELECTIVE (KECK_CONSULT)": new Map(),
+  };
+  for (const byF of schedules) {
+    if (!byF) continue;
+    for (const row of Object.values(byF)) {
+      for (const [k, v] of Object.entries(row)) {
+        if (!v) continue;
+        const m = crossCounts[v as string];
+        if (m) {
+          m.set(k, (m.get(k) || 0) + 1);
+        }
+      }
+    }
+  }
+  return crossCounts;
+}
+
+// PGY-6 fills coverage gaps left by all PGYs by turning ELECTIVE blocks into elective specializations
+export function addCoverageSpecializations(
+  fellows: Fellow[],
+  byFellow: FellowSchedule,
+  blockKeys: string[],
+  crossCounts: Record<string, Map<string, number>>
+): void {
+  // Check which blocks need additional coverage
+  const getCoverageCount = (blockKey: string, rotationType: string): number => {
+    let count = 0;
+    // Count from current PGY-6 assignments
+    for (const f of fellows) {
+      const rotation = byFellow[f.id]?.[blockKey];
+      if (countsForCoverage(rotation as Rotation, rotationType as Rotation)) {
+        count++;
+      }
+    }
+    // Count from cross-PGY assignments
+    count += (crossCounts[rotationType]?.get(blockKey) || 0);
+    return count;
+  };
+
+  const specializations = [
+    { type: "ECHO2", needed: 1 },
+    { type: "NONINVASIVE", needed: 1 },
+    { type: "HF", needed: 1 },
+    { type: "KECK_CONSULT", needed: 1 }
+  ];
+
+  for (const spec of specializations) {
+    for (const k of blockKeys) {
+      const currentCount = getCoverageCount(k, spec.type);
+      if (currentCount < spec.needed) {
+        // Find a fellow with ELECTIVE in this block to convert
+        for (const f of fellows) {
+          const row = byFellow[f.id] || {};
+          if (row[k] === "ELECTIVE") {
+            row[k] = `ELECTIVE (${spec.type})` as Rotation;
+            break; // Only need one conversion per block
+          }
+        }
+      }
+    }
+  }
+}
+
 // Detect if multiple fellows have vacation in the same block
 function detectSharedVacations(existingByFellow: FellowSchedule | undefined): Map<string, string[]> {
   const sharedVacs = new Map<string, string[]>();
@@ -120,14 +418,18 @@ export function placePGY4Rotations(
   fellows: Fellow[],
   blocks: BlockInfo[],
   existingByFellow: FellowSchedule | undefined,
-  opts?: { randomize?: boolean; maxTries?: number; lockVacations?: boolean; timeout?: number }
+  opts?: { randomize?: boolean; maxTries?: number; lockVacations?: boolean; timeout?: number; seed?: number },
+  ctx: ScheduleContext = storageContext()
 ): SolveRotationsResult {
   const randomize = !!opts?.randomize;
+  const rng = createRng(opts?.seed ?? randomSeed());
   const maxTries = opts?.maxTries ?? 500;
   const lockVacations = opts?.lockVacations ?? true;
   const timeout = opts?.timeout ?? 45000; // 45 seconds
   
   const startTime = Date.now();
+  const catalog = ctx.settings.rotationCatalog;
+  const customRotations = getCustomRotationsForPGY(catalog, "PGY-4");
   const diagnostics = {
     failureReasons: {} as Record<string, number>,
     constraintViolations: [] as string[],
@@ -138,21 +440,42 @@ export function placePGY4Rotations(
   if (!fellows || fellows.length === 0) {
     return { success: false, byFellow: {}, conflicts: ["No PGY-4 fellows found"], tried: 0, diagnostics };
   }
-  if (fellows.length !== 5) {
-    return {
-      success: false,
-      byFellow: {},
-      conflicts: [
-        `Expected 5 PGY-4 fellows for early LAC_CATH mapping; found ${fellows.length}. Adjust cohort or rule.`,
-      ],
-      tried: 0,
-      diagnostics,
-    };
-  }
 
   const { keyToIndex, keyToMonth, monthToKeys } = buildKeyMaps(blocks);
   const blockKeys = blocks.map((b) => b.key);
-  const firstFive = FIRST_FIVE_KEYS.filter((k) => keyToIndex.has(k));
+  const earlyKeys = getEarlyLacCathKeys(blocks, fellows.length);
+  const monthUnit = (rot: string) => (PGY4_FULL_MONTH_ROTATIONS.includes(rot) ? 2 : 1);
+  // HF is taken between January and June, so only those blocks count toward its capacity
+  const hfWindow = blocks.filter((b) => withinJanToJun(b.monthIndex)).length;
+  const capacityFor = (rot: string) =>
+    Math.min(classCapacity("PGY-4", rot, fellows.length, blocks.length, ctx), rot === "HF" ? hfWindow : Infinity);
+  const sharesFor = (order: string[]) => cohortSharesFor(
+      fellows,
+      PGY4_FELLOW_BLOCKS,
+      (_, index) => staggerOrder(order, index),
+      monthUnit,
+      capacityFor
+    );
+  const classShares = sharesFor(fellows.map((f) => f.id));
+  // Fellows with no LAC_CATH this year (by individual override) skip the early block
+  const earlyFellows = fellows.filter((f) => (classShares.LAC_CATH.get(f.id) ?? 0) > 0);
+
+  const capacityConflicts = checkSingleCapacity("PGY-4", blockKeys.length, {
+    LAC_CATH: sumShares(classShares.LAC_CATH),
+    CCU: sumShares(classShares.CCU),
+    LAC_CONSULT: sumShares(classShares.LAC_CONSULT),
+    HF: sumShares(classShares.HF),
+    KECK_CONSULT: sumShares(classShares.KECK_CONSULT),
+    ECHO1: sumShares(classShares.ECHO1),
+  });
+  if (earlyKeys.length < earlyFellows.length) {
+    capacityConflicts.push(
+      `PGY-4 early LAC_CATH needs ${earlyFellows.length} distinct early blocks but the year has ${blockKeys.length}.`
+    );
+  }
+  if (capacityConflicts.length > 0) {
+    return { success: false, byFellow: {}, conflicts: capacityConflicts, tried: 0, diagnostics };
+  }
 
   function addFailureReason(reason: string) {
     diagnostics.failureReasons[reason] = (diagnostics.failureReasons[reason] || 0) + 1;
@@ -160,6 +483,9 @@ export function placePGY4Rotations(
 
   function tryOnce(baseOverride?: FellowSchedule, forbiddenSlots?: Map<string, Set<string>>): SolveRotationsResult {
     const byFellow: FellowSchedule = cloneByFellow(baseOverride || existingByFellow || {});
+    // This attempt's split of the class totals; any extra blocks go to different fellows each time
+    const shares = randomize ? sharesFor(shuffle(fellows.map((f) => f.id), rng)) : classShares;
+    const quota = (f: Fellow, rot: keyof typeof PGY4_FELLOW_BLOCKS) => shares[rot].get(f.id) ?? 0;
     // Track capacity per rotation (one fellow per rotation per block). ELECTIVE has no capacity limit.
     const usedByRot: Record<string, Set<string>> = {
       VAC: new Set<string>(),
@@ -209,7 +535,7 @@ export function placePGY4Rotations(
     // Step A: Respect existing vacations unless explicitly unlocked
     if (!lockVacations) {
       // Get settings for vacation rules
-      const settings = loadSettings();
+      const { settings } = ctx;
       const usedVac = new Map<string, number>();
       
       // Initialize vacation usage count
@@ -222,13 +548,13 @@ export function placePGY4Rotations(
         }
       }
       
-      // Reseat vacations out of first five keys if present
+      // Reseat vacations out of the early LAC_CATH window if present
       for (const f of fellows) {
         const row = (byFellow[f.id] = byFellow[f.id] || {});
         const vacs = Object.entries(row)
           .filter(([, v]) => v === "VAC")
           .map(([k]) => k);
-        const vacsInFirst = vacs.filter((k) => firstFive.includes(k as any));
+        const vacsInFirst = vacs.filter((k) => earlyKeys.includes(k));
         if (vacsInFirst.length === 0) continue;
 
         // Helper: can place a vacation at candidate key?
@@ -260,9 +586,9 @@ export function placePGY4Rotations(
           unmarkUsed(k, "VAC");
           // try preferred blocks first
           const preferred = Array.from(
-            new Set((f.vacationPrefs || []).filter((x): x is string => !!x && !firstFive.includes(x as any)))
+            new Set((f.vacationPrefs || []).filter((x): x is string => !!x && !earlyKeys.includes(x)))
           );
-          const preferredCandidates = randomize ? shuffle(preferred) : preferred;
+          const preferredCandidates = randomize ? shuffle(preferred, rng) : preferred;
           let placed = false;
           for (const cand of preferredCandidates) {
             if (canPlaceVacAt(cand)) {
@@ -274,8 +600,8 @@ export function placePGY4Rotations(
           }
           if (!placed) {
             // fallback: any other block
-            const others = blockKeys.filter((bk) => !firstFive.includes(bk as any));
-            const ordered = randomize ? shuffle(others) : others;
+            const others = blockKeys.filter((bk) => !earlyKeys.includes(bk));
+            const ordered = randomize ? shuffle(others, rng) : others;
             for (const cand of ordered) {
               if (canPlaceVacAt(cand)) {
                 row[cand] = "VAC";
@@ -299,8 +625,8 @@ export function placePGY4Rotations(
     }
 
     // Step B: Early LAC_CATH mapping - one unique early block per fellow
-    const earlyAvail = firstFive.filter((k) => !isBlocked(k, "LAC_CATH"));
-    if (earlyAvail.length < fellows.length) {
+    const earlyAvail = earlyKeys.filter((k) => !isBlocked(k, "LAC_CATH"));
+    if (earlyAvail.length < earlyFellows.length) {
       addFailureReason("insufficient_early_lac_cath_blocks");
       return {
         success: false,
@@ -309,14 +635,14 @@ export function placePGY4Rotations(
       };
     }
 
-    const fellowsOrder = randomize ? shuffle([...fellows]) : [...fellows];
+    const fellowsOrder = randomize ? shuffle([...earlyFellows], rng) : [...earlyFellows];
     const assignment = new Map<string, string>(); // fellowId -> blockKey
 
     function backtrackEarly(i: number): boolean {
       if (i >= fellowsOrder.length) return true;
       const f = fellowsOrder[i];
       const row = (byFellow[f.id] = byFellow[f.id] || {});
-      const candidates = randomize ? shuffle([...earlyAvail]) : [...earlyAvail];
+      const candidates = randomize ? shuffle([...earlyAvail], rng) : [...earlyAvail];
       for (const k of candidates) {
         if (isBlocked(k, "LAC_CATH", f.id)) continue;
         if (row[k]) continue;
@@ -381,8 +707,10 @@ export function placePGY4Rotations(
       markUsed(k, label);
     };
 
+    const monthKeys = (mi: number) => monthToKeys.get(mi) || [];
+
     const firstLacCathMonths = new Map<string, number>();
-    for (const f of fellows) {
+    for (const f of earlyFellows) {
       const earlyKey = assignment.get(f.id)!;
       firstLacCathMonths.set(f.id, keyToMonth.get(earlyKey)!);
     }
@@ -393,7 +721,7 @@ export function placePGY4Rotations(
 
       // LAC_CATH remaining: need 3 blocks after early one; try one full month (2 blocks) + one single
       const lacCathMonths = monthSetFor(f.id, "LAC_CATH");
-      const targetLacCathBlocks = 4; // total blocks
+      const targetLacCathBlocks = quota(f, "LAC_CATH"); // total blocks
       const currentLacCathBlocks = Object.values(row).filter((x) => x === "LAC_CATH").length;
       let needLC = targetLacCathBlocks - currentLacCathBlocks;
       if (needLC > 0) {
@@ -405,7 +733,7 @@ export function placePGY4Rotations(
           for (const m of lacCathMonths) if (isAdjacentMonth(mi, m)) return false;
           return true;
         });
-        const ordered = randomize ? shuffle(candidateMonths) : candidateMonths;
+        const ordered = requestedFirst(f, "LAC_CATH", randomize ? shuffle(candidateMonths, rng) : candidateMonths, monthKeys);
         if (needLC >= 2) {
           for (const mi of ordered) {
             placePair(f.id, mi, "LAC_CATH");
@@ -427,7 +755,7 @@ export function placePGY4Rotations(
               if (!isBlocked(k, "LAC_CATH", f.id) && !row[k]) singles.push({ k, mi });
             }
           }
-          const singlesOrdered = randomize ? shuffle(singles) : singles;
+          const singlesOrdered = requestedFirst(f, "LAC_CATH", randomize ? shuffle(singles, rng) : singles, (s) => [s.k]);
           for (const s of singlesOrdered) {
             placeSingle(f.id, s.k, "LAC_CATH");
             lacCathMonths.add(s.mi);
@@ -449,7 +777,7 @@ export function placePGY4Rotations(
 
       // CCU: 4 blocks -> 2 months, non-consecutive months
       const ccuMonths = monthSetFor(f.id, "CCU");
-      let needCCU = 4 - [...ccuMonths].reduce((acc, mi) => acc + (monthToKeys.get(mi)?.length || 0), 0);
+      let needCCU = quota(f, "CCU") - [...ccuMonths].reduce((acc, mi) => acc + (monthToKeys.get(mi)?.length || 0), 0);
 if (needCCU > 0) {
         const candidateMonths = [...monthToKeys.keys()].filter((mi) => {
           if (!pairFree(f.id, mi, "CCU")) return false;
@@ -461,11 +789,20 @@ if (needCCU > 0) {
         const orderMonths = (list: number[]) => {
           const julDec = list.filter((mi) => mi <= 5);
           const janJun = list.filter((mi) => mi >= 6);
-          return randomize ? [...shuffle(julDec), ...shuffle(janJun)] : [...julDec, ...janJun];
+          const months = randomize ? [...shuffle(julDec, rng), ...shuffle(janJun, rng)] : [...julDec, ...janJun];
+          return requestedFirst(f, "CCU", months, monthKeys);
         };
         const tryPlaceFrom = (list: number[]) => {
           const ordered = orderMonths(list);
           for (const mi of ordered) {
+            if (needCCU === 1) {
+              // Odd individual quota: the last block is a single
+              const k = (monthToKeys.get(mi) || [])[0];
+              placeSingle(f.id, k, "CCU");
+              ccuMonths.add(mi);
+              needCCU = 0;
+              return true;
+            }
             placePair(f.id, mi, "CCU");
             ccuMonths.add(mi);
             needCCU -= 2;
@@ -490,15 +827,21 @@ if (needCCU > 0) {
 
       // LAC_CONSULT: 4 blocks -> 2 months, non-consecutive months
       const lacConsMonths = monthSetFor(f.id, "LAC_CONSULT");
-      let needLCON = 4 - [...lacConsMonths].reduce((acc, mi) => acc + (monthToKeys.get(mi)?.length || 0), 0);
+      let needLCON = quota(f, "LAC_CONSULT") - [...lacConsMonths].reduce((acc, mi) => acc + (monthToKeys.get(mi)?.length || 0), 0);
       if (needLCON > 0) {
         const candidateMonths = [...monthToKeys.keys()].filter((mi) => {
           if (!pairFree(f.id, mi, "LAC_CONSULT")) return false;
           for (const m of lacConsMonths) if (isAdjacentMonth(mi, m)) return false;
           return true;
         });
-        const ordered = randomize ? shuffle(candidateMonths) : candidateMonths;
+        const ordered = requestedFirst(f, "LAC_CONSULT", randomize ? shuffle(candidateMonths, rng) : candidateMonths, monthKeys);
         for (const mi of ordered) {
+          if (needLCON === 1) {
+            placeSingle(f.id, (monthToKeys.get(mi) || [])[0], "LAC_CONSULT");
+            lacConsMonths.add(mi);
+            needLCON = 0;
+            break;
+          }
           placePair(f.id, mi, "LAC_CONSULT");
           lacConsMonths.add(mi);
           needLCON -= 2;
@@ -521,63 +864,65 @@ if (needCCU > 0) {
           unmarkUsed(k, "HF");
         }
       }
-      let placedHF = false;
-      // Prefer HF months that are NOT adjacent to any CCU month; fallback if necessary
-      const hfCandidateMonths = [...monthToKeys.keys()].filter(
-        (mi) => withinJanToJun(mi) && pairFree(f.id, mi, "HF")
-      );
+      // One full month by default; individual quotas place as many months as fit, the last one a
+      // single block when the quota is odd
+      let needHF = quota(f, "HF");
       const ccuMonthsArr = [...ccuMonths];
-      const preferredHF = hfCandidateMonths.filter((mi) => !ccuMonthsArr.some((m) => isAdjacentMonth(mi, m)));
-      const fallbackHF = hfCandidateMonths.filter((mi) => !preferredHF.includes(mi));
       const tryPlaceHF = (arr: number[]) => {
-        const ordered = randomize ? shuffle(arr) : arr;
+        const ordered = requestedFirst(f, "HF", randomize ? shuffle(arr, rng) : arr, monthKeys);
         for (const mi of ordered) {
-          placePair(f.id, mi, "HF");
-          placedHF = true;
+          if (!pairFree(f.id, mi, "HF")) continue;
+          if (needHF === 1) placeSingle(f.id, monthKeys(mi)[0], "HF");
+          else placePair(f.id, mi, "HF");
+          needHF = Math.max(0, needHF - 2);
           return true;
         }
         return false;
       };
-      if (!tryPlaceHF(preferredHF)) {
-        tryPlaceHF(fallbackHF);
+      while (needHF > 0) {
+        // Prefer HF months that are NOT adjacent to any CCU month; fallback if necessary
+        const hfCandidateMonths = [...monthToKeys.keys()].filter(
+          (mi) => withinJanToJun(mi) && pairFree(f.id, mi, "HF")
+        );
+        const preferredHF = hfCandidateMonths.filter((mi) => !ccuMonthsArr.some((m) => isAdjacentMonth(mi, m)));
+        const fallbackHF = hfCandidateMonths.filter((mi) => !preferredHF.includes(mi));
+        if (!tryPlaceHF(preferredHF) && !tryPlaceHF(fallbackHF)) break;
       }
+      const placedHF = needHF === 0;
       if (!placedHF) {
         addFailureReason(`hf_placement_failed_${f.id}`);
         return {
           success: false,
           byFellow: {},
-          conflicts: [`${f.name || f.id}: unable to place HF as a full month in Jan–Jun.`],
+          conflicts: [`${f.name || f.id}: unable to place HF as full months in Jan–Jun.`],
         };
       }
 
       // KECK_CONSULT: 2 blocks -> 1 month pair
-      let needKECK = 2 - (Object.values(row).filter((x) => x === "KECK_CONSULT").length || 0);
-      if (needKECK > 0) {
+      let needKECK = quota(f, "KECK_CONSULT") - (Object.values(row).filter((x) => x === "KECK_CONSULT").length || 0);
+      while (needKECK > 0) {
         const candidateMonths = [...monthToKeys.keys()].filter((mi) => pairFree(f.id, mi, "KECK_CONSULT"));
-        const ordered = randomize ? shuffle(candidateMonths) : candidateMonths;
-        let placed = false;
-        for (const mi of ordered) {
-          placePair(f.id, mi, "KECK_CONSULT");
-          placed = true;
-          needKECK -= 2;
-          break;
-        }
-        if (!placed || needKECK > 0) {
+        const ordered = requestedFirst(f, "KECK_CONSULT", randomize ? shuffle(candidateMonths, rng) : candidateMonths, monthKeys);
+        const mi = ordered[0];
+        if (mi == null) {
           addFailureReason(`keck_consult_placement_failed_${f.id}`);
           return { success: false, byFellow: {}, conflicts: [`${f.name || f.id}: unable to place KECK_CONSULT.`] };
         }
+        if (needKECK === 1) placeSingle(f.id, monthKeys(mi)[0], "KECK_CONSULT");
+        else placePair(f.id, mi, "KECK_CONSULT");
+        needKECK -= 2;
       }
 
       // ECHO1: 3 half-blocks, non-consecutive months
       const echoMonths = monthSetFor(f.id, "ECHO1");
-      let needECHO = 3 - (Object.values(row).filter((x) => x === "ECHO1").length || 0);
+      let needECHO = quota(f, "ECHO1") - (Object.values(row).filter((x) => x === "ECHO1").length || 0);
       if (needECHO > 0) {
         const singles: { k: string; mi: number }[] = [];
         for (const [mi, keys] of monthToKeys) {
           if ([...echoMonths].some((m) => isAdjacentMonth(mi, m))) continue;
           for (const k of keys) if (!isBlocked(k, "ECHO1", f.id) && !row[k]) singles.push({ k, mi });
         }
-        const ordered = randomize ? shuffle(singles) : singles;
+        const ordered = requestedFirst(f, "ECHO1", randomize ? shuffle(singles, rng) : singles, (s) => [s.k]);
         for (const s of ordered) {
           placeSingle(f.id, s.k, "ECHO1");
           echoMonths.add(s.mi);
@@ -591,13 +936,13 @@ if (needCCU > 0) {
       }
 
       // EP: 1 half-block anywhere
-      let needEP = 1 - (Object.values(row).filter((x) => x === "EP").length || 0);
+      let needEP = quota(f, "EP") - (Object.values(row).filter((x) => x === "EP").length || 0);
       if (needEP > 0) {
         const singles: string[] = [];
         for (const k of blockKeys) if (!isBlocked(k, "EP", f.id) && !row[k]) singles.push(k);
-        const ordered = randomize ? shuffle(singles) : singles;
-        if (ordered[0]) {
-          placeSingle(f.id, ordered[0], "EP");
+        const ordered = requestedFirst(f, "EP", randomize ? shuffle(singles, rng) : singles, (k) => [k]);
+        for (const k of ordered.slice(0, needEP)) {
+          placeSingle(f.id, k, "EP");
           needEP -= 1;
         }
         if (needEP > 0) {
@@ -606,6 +951,13 @@ if (needCCU > 0) {
         }
       }
 
+      // Custom catalog rotations take their blocks out of elective time
+      const unplaced = placeCustomRotations(customRotations, "PGY-4", f, byFellow, blockKeys, keyToIndex, randomize, rng);
+      if (unplaced) {
+        addFailureReason(`custom_placement_failed_${unplaced.id}_${f.id}`);
+        return { success: false, byFellow: {}, conflicts: [`${f.name || f.id}: unable to place ${unplaced.name}.`] };
+      }
+
       // Fill remaining with ELECTIVE
       for (const k of blockKeys) {
         if (!row[k]) {
@@ -619,7 +971,8 @@ if (needCCU > 0) {
     for (const f of fellows) {
       const row = byFellow[f.id] || {};
       for (const [k, v] of Object.entries(row)) {
-        if (!v || v === "ELECTIVE") continue;
+        // Custom rotations carry their own capacity, enforced when they are placed
+        if (!v || v === "ELECTIVE" || isCustomRotation(catalog, v)) continue;
         let m = cap.get(k);
         if (!m) {
           m = new Map<Rotation, string[]>();
@@ -645,20 +998,18 @@ if (needCCU > 0) {
     const ruleConflicts: string[] = [];
     for (const f of fellows) {
       const rowF = byFellow[f.id] || {};
-      // HF must be exactly one full month (two blocks) Jan–Jun
+      // HF must be exactly one full month (two blocks) Jan–Jun, or the fellow's own quota in full months
+      const hfQuota = quota(f, "HF");
       const hfKeys = Object.entries(rowF)
         .filter(([, v]) => v === "HF")
         .map(([k]) => k);
       const hfMonths = new Set<number>(hfKeys.map((k) => keyToMonth.get(k)!).filter((x): x is number => x != null));
-      if (hfKeys.length !== 2) {
-        ruleConflicts.push(`${f.name || f.id}: HF must be exactly 1 full month (2 blocks).`);
-      } else if (hfMonths.size !== 1) {
-        ruleConflicts.push(`${f.name || f.id}: HF blocks must be in the same month (full month).`);
-      } else {
-        const mi = [...hfMonths][0];
-        if (!withinJanToJun(mi)) {
-          ruleConflicts.push(`${f.name || f.id}: HF month must be between January and June.`);
-        }
+      if (hfKeys.length !== hfQuota) {
+        ruleConflicts.push(`${f.name || f.id}: HF must be exactly ${hfQuota} blocks.`);
+      } else if (hfMonths.size !== Math.ceil(hfQuota / 2)) {
+        ruleConflicts.push(`${f.name || f.id}: HF blocks must be in full months.`);
+      } else if ([...hfMonths].some((mi) => !withinJanToJun(mi))) {
+        ruleConflicts.push(`${f.name || f.id}: HF months must be between January and June.`);
       }
       // CCU months cannot be consecutive (including Dec→Jan)
       const ccuMonthsF = new Set<number>();
@@ -730,6 +1081,7 @@ if (needCCU > 0) {
 
       const res = tryOnce();
       totalTried++;
+      reportProgress("PGY-4 rotations", totalTried, maxTries);
       
       if (res.success) {
         return { ...res, tried: totalTried, diagnostics };
@@ -781,6 +1133,7 @@ if (needCCU > 0) {
       
       const res = tryOnce(modifiedBase, forbiddenMap);
       fallbackTried++;
+      reportProgress("PGY-4 vacation-conflict fallback", fallbackTried, fallbackMaxTries);
       
       if (res.success) {
         // SUCCESS! Convert ELECTIVE back to VAC
@@ -830,13 +1183,17 @@ export function placePGY5Rotations(
   fellows: Fellow[],
   blocks: BlockInfo[],
   existingByFellow: FellowSchedule | undefined,
-  opts?: { randomize?: boolean; maxTries?: number; timeout?: number }
+  opts?: { randomize?: boolean; maxTries?: number; timeout?: number; seed?: number },
+  ctx: ScheduleContext = storageContext()
 ): SolveRotationsResult {
   const randomize = !!opts?.randomize;
+  const rng = createRng(opts?.seed ?? randomSeed());
   const maxTries = opts?.maxTries ?? 25000; // Increased for enhanced algorithms
   const timeout = opts?.timeout ?? 150000; // 2.5 minutes for intensive search
   
   const startTime = Date.now();
+  const catalog = ctx.settings.rotationCatalog;
+  const customRotations = getCustomRotationsForPGY(catalog, "PGY-5");
   const diagnostics = {
     failureReasons: {} as Record<string, number>,
     constraintViolations: [] as string[],
@@ -851,17 +1208,58 @@ export function placePGY5Rotations(
   if (!fellows || fellows.length === 0) {
     return { success: false, byFellow: {}, conflicts: ["No PGY-5 fellows found"], tried: 0, diagnostics };
   }
-  if (fellows.length !== 5) {
-    return { success: false, byFellow: {}, conflicts: [
-      `Expected 5 PGY-5 fellows; found ${fellows.length}. Adjust cohort or rule.`,
-    ], tried: 0, diagnostics };
-  }
 
   const { keyToIndex, keyToMonth, monthToKeys } = buildKeyMaps(blocks);
   const blockKeys = blocks.map((b) => b.key);
+  const gaps = requirementGaps(fellows, "PGY-5", ctx);
+
+  const capacityFor = (rot: string) => classCapacity("PGY-5", rot, fellows.length, blocks.length, ctx);
+  // CCU goes to PGY5_CLASS_TOTALS.CCU fellows (at most one each); every fellow without CCU must get LAC_CONSULT.
+  // Fellows with an individual CCU or LAC_CONSULT quota sit outside that split.
+  const ccuClass = fellows.filter((f) => !hasQuotaOverride(f, "CCU"));
+  const ccuFellowCount = Math.min(
+    classTotalWithout(fellows, "CCU", scaleClassTotal(PGY5_CLASS_TOTALS.CCU, fellows.length, capacityFor("CCU"))),
+    ccuClass.length
+  );
+  const lacConsultClass = fellows.filter((f) => !hasQuotaOverride(f, "LAC_CONSULT"));
+  const lacConsultFellowCount = Math.min(
+    lacConsultClass.length,
+    Math.max(
+      classTotalWithout(
+        fellows,
+        "LAC_CONSULT",
+        scaleClassTotal(PGY5_CLASS_TOTALS.LAC_CONSULT, fellows.length, capacityFor("LAC_CONSULT"))
+      ),
+      ccuClass.length - ccuFellowCount
+    )
+  );
+  // Fellows furthest behind on their fellowship totals for a rotation take any extra blocks of it
+  const sharesFor = (order: string[]) =>
+    cohortSharesFor(
+      fellows,
+      PGY5_FELLOW_BLOCKS,
+      (rot, index) => orderByNeed(staggerOrder(order, index), gaps, rot),
+      (rot) => (rot === "KECK_CONSULT" ? 2 : 1),
+      capacityFor
+    );
+  const classShares = sharesFor(fellows.map((f) => f.id));
+
+  const capacityConflicts = checkSingleCapacity("PGY-5", blockKeys.length, {
+    LAC_CATH: sumShares(classShares.LAC_CATH),
+    HF: sumShares(classShares.HF),
+    KECK_CONSULT: sumShares(classShares.KECK_CONSULT),
+    ECHO2: sumShares(classShares.ECHO2),
+    EP: sumShares(classShares.EP),
+    NUCLEAR: sumShares(classShares.NUCLEAR),
+    NONINVASIVE: sumShares(classShares.NONINVASIVE),
+  });
+  if (capacityConflicts.length > 0) {
+    return { success: false, byFellow: {}, conflicts: capacityConflicts, tried: 0, diagnostics };
+  }
 
   // Cross-PGY capacity constraints: prevent overlaps with PGY-4 for these rotations
-  const pgy4 = loadSchedule("PGY-4");
+  const pgy4 = ctx.schedules["PGY-4"];
+  const pgy4LacCath = buildCrossCounts([pgy4?.byFellow]).LAC_CATH;
   const crossBlock: Partial<Record<Rotation, Set<string>>> = {};
   const crossSensitive: Rotation[] = ["CCU", "KECK_CONSULT", "LAC_CONSULT", "HF", "EP"];
   if (pgy4?.byFellow) {
@@ -964,15 +1362,22 @@ export function placePGY5Rotations(
         return bHF - aHF;
       });
     } else if (randomize || strategy === 'randomized') {
-      fellowOrder = shuffle([...fellows]);
+      fellowOrder = shuffle([...fellows], rng);
     }
+    // This attempt's split of the class totals; ties on need break by the fellow order
+    const shares = sharesFor(fellowOrder.map((f) => f.id));
+    const quota = (f: Fellow, rot: keyof typeof PGY5_FELLOW_BLOCKS) => shares[rot].get(f.id) ?? 0;
     
-    // Selection: 4 of 5 get CCU. The remaining MUST get LAC_CONSULT. Plus 3 random CCU fellows also get LAC_CONSULT.
-    const ccuFellows = new Set<string>(fellowOrder.slice(0, 4).map((f) => f.id));
-    const nonCcuFellow = fellowOrder[4].id;
-    const lacConsultFellows = new Set<string>([nonCcuFellow]);
-    const ccuArray = [...ccuFellows];
-    const pick = randomize ? shuffle(ccuArray).slice(0, 3) : ccuArray.slice(0, 3);
+    // Selection: CCU goes to the class CCU total; everyone else MUST get LAC_CONSULT.
+    // Remaining LAC_CONSULT slots go to randomly picked CCU fellows. Fellows behind on their
+    // fellowship CCU or LAC_CONSULT totals are picked first.
+    const inClass = (list: Fellow[]) => (id: string) => list.some((f) => f.id === id);
+    const ccuOrder = orderByNeed(fellowOrder.map((f) => f.id).filter(inClass(ccuClass)), gaps, "CCU");
+    const ccuFellows = new Set<string>(ccuOrder.slice(0, ccuFellowCount));
+    const lacConsultFellows = new Set<string>(ccuOrder.slice(ccuFellowCount).filter(inClass(lacConsultClass)));
+    const ccuArray = [...ccuFellows].filter(inClass(lacConsultClass));
+    const extraLacConsult = Math.max(0, lacConsultFellowCount - lacConsultFellows.size);
+    const pick = orderByNeed(randomize ? shuffle(ccuArray, rng) : ccuArray, gaps, "LAC_CONSULT").slice(0, extraLacConsult);
     for (const id of pick) lacConsultFellows.add(id);
 
     // Helpers
@@ -1020,35 +1425,34 @@ export function placePGY5Rotations(
       return true;
     };
 
-    // 1) KECK_CONSULT: 1 month pair per fellow
+    // 1) KECK_CONSULT: 1 month pair per fellow (an odd individual quota ends with a single block)
     for (const f of fellowOrder) {
       const row = (byFellow[f.id] = byFellow[f.id] || {});
-      const current = Object.values(row).filter((x) => x === "KECK_CONSULT").length;
-      if (current >= 2) continue;
-      const candidateMonths = [...monthToKeys.keys()].filter((mi) => {
-        const keys = monthToKeys.get(mi) || [];
-        if (keys.length < 2) return false;
-        // both free for this fellow and not blocked globally
-        return keys.every((k) => !row[k] && !isBlocked(k, "KECK_CONSULT", f.id));
-      });
-      const ordered = randomize ? shuffle(candidateMonths) : candidateMonths;
-      let placed = false;
-      for (const mi of ordered) {
-        placePairMonth(f.id, mi, "KECK_CONSULT");
-        placed = true;
-        break;
-      }
-      if (!placed) return { success: false, byFellow: {}, conflicts: [`${f.name || f.id}: unable to place KECK_CONSULT.`] };
+      let need = quota(f, "KECK_CONSULT") - Object.values(row).filter((x) => x === "KECK_CONSULT").length;
+      while (need > 0) {
+        const candidateMonths = [...monthToKeys.keys()].filter((mi) => {
+          const keys = monthToKeys.get(mi) || [];
+          if (keys.length < 2) return false;
+          // both free for this fellow and not blocked globally
+          return keys.every((k) => !row[k] && !isBlocked(k, "KECK_CONSULT", f.id));
+        });
+        const ordered = requestedFirst(f, "KECK_CONSULT", randomize ? shuffle(candidateMonths, rng) : candidateMonths, (mi) => monthToKeys.get(mi) || []);
+        const mi = ordered[0];
+        if (mi == null) return { success: false, byFellow: {}, conflicts: [`${f.name || f.id}: unable to place KECK_CONSULT.`] };
+        if (need === 1) placeSingle(f.id, (monthToKeys.get(mi) || [])[0], "KECK_CONSULT");
+        else placePairMonth(f.id, mi, "KECK_CONSULT");
+        need -= 2;
+      }
     }
 
     // 2) CCU: 1 block for 4 fellows
     for (const f of fellowOrder) {
       const row = (byFellow[f.id] = byFellow[f.id] || {});
-      const need = ccuFellows.has(f.id) ? 1 : 0;
+      const need = fellowQuota(f, "CCU", ccuFellows.has(f.id) ? 1 : 0);
       const has = Object.values(row).filter((x) => x === "CCU").length;
       for (let n = has; n < need; n++) {
         const singles = blockKeys.filter((k) => !row[k] && !isBlocked(k, "CCU", f.id));
-        const ordered = randomize ? shuffle(singles) : singles;
+        const ordered = requestedFirst(f, "CCU", randomize ? shuffle(singles, rng) : singles, (k) => [k]);
         const cand = ordered.find((k) => true);
         if (!cand) return { success: false, byFellow: {}, conflicts: [`${f.name || f.id}: unable to place CCU.`] };
         placeSingle(f.id, cand, "CCU");
@@ -1058,11 +1462,11 @@ export function placePGY5Rotations(
     // 3) LAC_CONSULT: 1 block for selected fellows (non-consecutive constraint is moot for single block)
     for (const f of fellowOrder) {
       const row = (byFellow[f.id] = byFellow[f.id] || {});
-      const need = lacConsultFellows.has(f.id) ? 1 : 0;
+      const need = fellowQuota(f, "LAC_CONSULT", lacConsultFellows.has(f.id) ? 1 : 0);
       const has = Object.values(row).filter((x) => x === "LAC_CONSULT").length;
       for (let n = has; n < need; n++) {
         const singles = blockKeys.filter((k) => !row[k] && !isBlocked(k, "LAC_CONSULT", f.id));
-        const ordered = randomize ? shuffle(singles) : singles;
+        const ordered = requestedFirst(f, "LAC_CONSULT", randomize ? shuffle(singles, rng) : singles, (k) => [k]);
         const cand = ordered.find((k) => true);
         if (!cand) return { success: false, byFellow: {}, conflicts: [`${f.name || f.id}: unable to place LAC_CONSULT.`] };
         placeSingle(f.id, cand, "LAC_CONSULT");
@@ -1073,7 +1477,7 @@ export function placePGY5Rotations(
     // Enhanced with sophisticated backtracking and CCU repositioning
     for (const f of fellowOrder) {
       const row = (byFellow[f.id] = byFellow[f.id] || {});
-      let need = 2 - Object.values(row).filter((x) => x === "HF").length;
+      const need = quota(f, "HF") - Object.values(row).filter((x) => x === "HF").length;
       if (need <= 0) continue;
       
       // Advanced HF placement with CCU repositioning if needed
@@ -1113,16 +1517,17 @@ export function placePGY5Rotations(
         const tryHFPlacement = () => {
           const singles = blockKeys.filter((k) => !row[k] && !isBlocked(k, "HF", f.id));
           const strategies = [
+            requestedFirst(f, "HF", singles, (k) => [k]), // requested blocks first
             singles, // original order
             singles.slice().reverse(), // reverse order
-            randomize ? shuffle([...singles]) : singles, // randomized
+            randomize ? shuffle([...singles], rng) : singles, // randomized
             singles.slice().sort((a, b) => { // prefer middle blocks (away from edges)
               const idxA = keyToIndex.get(a) ?? 0;
               const idxB = keyToIndex.get(b) ?? 0;
               const midPoint = blockKeys.length / 2;
               return Math.abs(idxA - midPoint) - Math.abs(idxB - midPoint);
             }),
-            singles.slice().sort(() => Math.random() - 0.5) // another random shuffle
+            shuffle(singles, rng) // another random shuffle
           ];
           
           for (const ordered of strategies) {
@@ -1162,32 +1567,44 @@ export function placePGY5Rotations(
       }
     }
 
-    // Helper to place N blocks non-consecutive for label
-    function placeNNonConsecutive(fid: string, label: Rotation, n: number): boolean {
-      const row = (byFellow[fid] = byFellow[fid] || {});
-      let need = n - Object.values(row).filter((x) => x === label).length;
+    // Helper to place the fellow's share of label, non-consecutive
+    function placeNNonConsecutive(f: Fellow, label: keyof typeof PGY5_FELLOW_BLOCKS): boolean {
+      const row = (byFellow[f.id] = byFellow[f.id] || {});
+      let need = quota(f, label) - Object.values(row).filter((x) => x === label).length;
       if (need <= 0) return true;
-      const singles = blockKeys.filter((k) => !row[k] && !isBlocked(k, label, fid));
-      const ordered = randomize ? shuffle(singles) : singles;
+      const singles = blockKeys.filter((k) => !row[k] && !isBlocked(k, label, f.id));
+      let ordered = randomize ? shuffle(singles, rng) : singles;
+      // LAC_CATH takes at most two fellows per block across PGYs; fill the blocks PGY-4 leaves open first
+      // so PGY-6 keeps room spread over the year
+      if (label === "LAC_CATH") ordered = [...ordered].sort((a, b) => (pgy4LacCath.get(a) || 0) - (pgy4LacCath.get(b) || 0));
+      ordered = requestedFirst(f, label, ordered, (k) => [k]);
       for (const k of ordered) {
-        if (!nonConsecutiveOk(fid, k, label)) continue;
-        placeSingle(fid, k, label);
+        if (!nonConsecutiveOk(f.id, k, label)) continue;
+        placeSingle(f.id, k, label);
         need--;
         if (need <= 0) return true;
       }
       return need <= 0;
     }
 
-    // 5) EP 2, 6) ECHO2 3, 7) NUCLEAR 2, 8) NONINVASIVE 2, 9) LAC_CATH 4 (all non-consecutive)
+    // 5) EP 2, 6) ECHO2 3, 7) NUCLEAR 2, 8) NONINVASIVE 2, 9) LAC_CATH 4 in a 5-fellow class (all non-consecutive)
     for (const f of fellowOrder) {
-      if (!placeNNonConsecutive(f.id, "EP", 2)) return { success: false, byFellow: {}, conflicts: [`${f.name || f.id}: unable to place EP.`] };
-      if (!placeNNonConsecutive(f.id, "ECHO2", 3)) return { success: false, byFellow: {}, conflicts: [`${f.name || f.id}: unable to place ECHO2.`] };
-      if (!placeNNonConsecutive(f.id, "NUCLEAR", 2)) return { success: false, byFellow: {}, conflicts: [`${f.name || f.id}: unable to place NUCLEAR.`] };
-      if (!placeNNonConsecutive(f.id, "NONINVASIVE", 2)) return { success: false, byFellow: {}, conflicts: [`${f.name || f.id}: unable to place NONINVASIVE.`] };
-      if (!placeNNonConsecutive(f.id, "LAC_CATH", 4)) return { success: false, byFellow: {}, conflicts: [`${f.name || f.id}: unable to place LAC_CATH.`] };
+      if (!placeNNonConsecutive(f, "EP")) return { success: false, byFellow: {}, conflicts: [`${f.name || f.id}: unable to place EP.`] };
+      if (!placeNNonConsecutive(f, "ECHO2")) return { success: false, byFellow: {}, conflicts: [`${f.name || f.id}: unable to place ECHO2.`] };
+      if (!placeNNonConsecutive(f, "NUCLEAR")) return { success: false, byFellow: {}, conflicts: [`${f.name || f.id}: unable to place NUCLEAR.`] };
+      if (!placeNNonConsecutive(f, "NONINVASIVE")) return { success: false, byFellow: {}, conflicts: [`${f.name || f.id}: unable to place NONINVASIVE.`] };
+      if (!placeNNonConsecutive(f, "LAC_CATH")) return { success: false, byFellow: {}, conflicts: [`${f.name || f.id}: unable to place LAC_CATH.`] };
     }
 
-    // 10) Fill remaining with ELECTIVE; counts will naturally be 3 or 4 depending on CCU/LAC_CONSULT
+    // 10) Custom catalog rotations, then fill remaining with ELECTIVE; counts will naturally be
+    // 3 or 4 (less any custom blocks) depending on CCU/LAC_CONSULT
+    for (const f of fellowOrder) {
+      const unplaced = placeCustomRotations(customRotations, "PGY-5", f, byFellow, blockKeys, keyToIndex, randomize, rng);
+      if (unplaced) {
+        addFailureReason(`custom_placement_failed_${unplaced.id}_${f.id}`);
+        return { success: false, byFellow: {}, conflicts: [`${f.name || f.id}: unable to place ${unplaced.name}.`] };
+      }
+    }
     for (const f of fellowOrder) {
       const row = (byFellow[f.id] = byFellow[f.id] || {});
       for (const k of blockKeys) {
@@ -1200,7 +1617,8 @@ export function placePGY5Rotations(
     for (const f of fellows) {
       const row = byFellow[f.id] || {};
       for (const [k, v] of Object.entries(row)) {
-        if (!v || v === "ELECTIVE") continue;
+        // Custom rotations carry their own capacity, enforced when they are placed
+        if (!v || v === "ELECTIVE" || isCustomRotation(catalog, v)) continue;
         let m = cap.get(k);
         if (!m) {
           m = new Map<Rotation, string[]>();
@@ -1219,8 +1637,8 @@ export function placePGY5Rotations(
     // Post validations
     const conflicts: string[] = [];
     // Ensure CCU fellows count
-    const actualCcuFellows = fellows.filter((f) => Object.values(byFellow[f.id] || {}).includes("CCU"));
-    if (actualCcuFellows.length !== 4) conflicts.push(`Exactly 4 fellows must have CCU; got ${actualCcuFellows.length}.`);
+    const actualCcuFellows = ccuClass.filter((f) => Object.values(byFellow[f.id] || {}).includes("CCU"));
+    if (actualCcuFellows.length !== ccuFellowCount) conflicts.push(`Exactly ${ccuFellowCount} fellows must have CCU; got ${actualCcuFellows.length}.`);
 
     for (const f of fellows) {
       const row = byFellow[f.id] || {};
@@ -1233,10 +1651,11 @@ export function placePGY5Rotations(
         .map(([k]) => keyToIndex.get(k) ?? -999);
       for (const i of hfIdx) for (const j of ccuIdx) if (Math.abs(i - j) === 1) conflicts.push(`${f.name || f.id}: HF cannot be adjacent to CCU.`);
 
-      // KECK_CONSULT must be exactly 2 blocks in same month
+      // KECK_CONSULT must be exactly 2 blocks in same month (or the fellow's own quota in full months)
+      const kcQuota = quota(f, "KECK_CONSULT");
       const kcs = Object.entries(row).filter(([, v]) => v === "KECK_CONSULT").map(([k]) => k);
       const kcMonths = new Set<number>(kcs.map((k) => keyToMonth.get(k)!).filter((x): x is number => x != null));
-      if (kcs.length !== 2 || kcMonths.size !== 1) conflicts.push(`${f.name || f.id}: KECK_CONSULT must be one full month (2 blocks).`);
+      if (kcs.length !== kcQuota || kcMonths.size !== Math.ceil(kcQuota / 2)) conflicts.push(`${f.name || f.id}: KECK_CONSULT must be ${kcQuota} blocks in full months.`);
 
       // Non-consecutive checks for these labels
       const checkLabels: Rotation[] = ["LAC_CATH", "ECHO2", "EP", "NUCLEAR", "NONINVASIVE", "HF"];
@@ -1293,6 +1712,7 @@ export function placePGY5Rotations(
 
         const res = tryOnce(strategyConfig.strategy, constraintLevel);
         totalTried++;
+        reportProgress("PGY-5 rotations", totalTried, maxTries);
         levelTried++;
         
         if (res.success) {
@@ -1363,6 +1783,7 @@ export function placePGY5Rotations(
       
       const res = tryOnce('randomized', 'minimal', modifiedBase, forbiddenMap);
       fallbackTried++;
+      reportProgress("PGY-5 vacation-conflict fallback", fallbackTried, fallbackMaxTries);
       
       if (res.success) {
         // SUCCESS! Convert ELECTIVE back to VAC
@@ -1414,13 +1835,17 @@ export function placePGY6Rotations(
   fellows: Fellow[],
   blocks: BlockInfo[],
   existingByFellow: FellowSchedule | undefined,
-  opts?: { randomize?: boolean; maxTries?: number; timeout?: number }
+  opts?: { randomize?: boolean; maxTries?: number; timeout?: number; seed?: number },
+  ctx: ScheduleContext = storageContext()
 ): SolveRotationsResult {
   const randomize = !!opts?.randomize;
+  const rng = createRng(opts?.seed ?? randomSeed());
   const maxTries = opts?.maxTries ?? 25000;
   const timeout = opts?.timeout ?? 240000; // 240 seconds (4 minutes)
   
   const startTime = Date.now();
+  const catalog = ctx.settings.rotationCatalog;
+  const customRotations = getCustomRotationsForPGY(catalog, "PGY-6");
   const diagnostics = {
     failureReasons: {} as Record<string, number>,
     constraintViolations: [] as string[],
@@ -1434,50 +1859,34 @@ export function placePGY6Rotations(
   if (!fellows || fellows.length === 0) {
     return { success: false, byFellow: {}, conflicts: ["No PGY-6 fellows found"], tried: 0, diagnostics };
   }
-  if (fellows.length !== 5) {
-    return { success: false, byFellow: {}, conflicts: [
-      `Expected 5 PGY-6 fellows; found ${fellows.length}. Adjust cohort or rule.`,
-    ], tried: 0, diagnostics };
-  }
 
   const { keyToIndex, keyToMonth, monthToKeys } = buildKeyMaps(blocks);
   const blockKeys = blocks.map((b) => b.key);
+  const gaps = requirementGaps(fellows, "PGY-6", ctx);
+
+  // Class totals sized to the cohort
+  const classTotalFor = (label: keyof typeof PGY6_CLASS_TOTALS) =>
+    scaleClassTotal(PGY6_CLASS_TOTALS[label], fellows.length, classCapacity("PGY-6", label, fellows.length, blocks.length, ctx));
+  // Class totals for a rotation once individual quotas are taken out and added back per fellow
+  const classDemand = (label: keyof typeof PGY6_CLASS_TOTALS) =>
+    classTotalWithout(fellows, label, classTotalFor(label)) +
+    fellows.reduce((sum, f) => sum + (hasQuotaOverride(f, label) ? fellowQuota(f, label, 0) : 0), 0);
+  const capacityConflicts = checkSingleCapacity("PGY-6", blockKeys.length, {
+    HF: classDemand("HF"),
+    KECK_CONSULT: classDemand("KECK_CONSULT"),
+    ECHO2: classDemand("ECHO2"),
+    EP: sumShares(cohortShares(fellows, "EP", 2, undefined, 1, blocks.length)),
+    NUCLEAR: classDemand("NUCLEAR"),
+    NONINVASIVE: classDemand("NONINVASIVE"),
+  });
+  if (capacityConflicts.length > 0) {
+    return { success: false, byFellow: {}, conflicts: capacityConflicts, tried: 0, diagnostics };
+  }
 
   // Cross-PGY counts (PGY-4 + PGY-5) to guide coverage and enforce caps
-  const p4 = loadSchedule("PGY-4");
-  const p5 = loadSchedule("PGY-5");
-  const crossCounts: Record<string, Map<string, number>> = {
-    VAC: new Map(),
-    LAC_CATH: new Map(),
-    CCU: new Map(),
-    LAC_CONSULT: new Map(),
-    HF: new Map(),
-    KECK_CONSULT: new Map(),
-    ECHO1: new Map(),
-    ECHO2: new Map(),
-    EP: new Map(),
-    NUCLEAR: new Map(),
-    NONINVASIVE: new Map(),
-    ELECTIVE: new Map(),
-    "ELECTIVE (ECHO2)": new Map(),
-    "ELECTIVE (NONINVASIVE)": new Map(),
-    "ELECTIVE (HF)": new Map(),
-    "ELECTIVE (KECK_CONSULT)": new Map(),
-  };
-  const addCross = (byF?: FellowSchedule) => {
-    if (!byF) return;
-    for (const row of Object.values(byF)) {
-      for (const [k, v] of Object.entries(row)) {
-        if (!v) continue;
-        const m = crossCounts[v as string];
-        if (m) {
-          m.set(k, (m.get(k) || 0) + 1);
-        }
-      }
-    }
-  };
-  addCross(p4?.byFellow);
-  addCross(p5?.byFellow);
+  const p4 = ctx.schedules["PGY-4"];
+  const p5 = ctx.schedules["PGY-5"];
+  const crossCounts = buildCrossCounts([p4?.byFellow, p5?.byFellow]);
 
   function tryOnce(baseOverride?: FellowSchedule, forbiddenSlots?: Map<string, Set<string>>): SolveRotationsResult {
     const byFellow: FellowSchedule = cloneByFellow(baseOverride || existingByFellow || {});
@@ -1524,29 +1933,46 @@ export function placePGY6Rotations(
       }
     }
 
-    const fellowOrder = randomize ? shuffle([...fellows]) : [...fellows];
+    const fellowOrder = randomize ? shuffle([...fellows], rng) : [...fellows];
 
-    // Distributions
+    // Distributions: spread PGY6_CLASS_TOTALS across the cohort. Within each group the fellows
+    // furthest behind on their fellowship totals take the larger shares. Fellows with an
+    // individual quota for a rotation get exactly that and sit outside its class spread.
     const ids = fellowOrder.map((f) => f.id);
-    const pickSome = (arr: string[], n: number) => (randomize ? shuffle(arr) : arr).slice(0, n);
-
-    const hfFellows = new Set<string>(pickSome(ids, 4));
-    const noHF = ids.find((id) => !hfFellows.has(id))!;
+    const fellowById = new Map(fellows.map((f) => [f.id, f] as const));
+    const classIds = (label: Rotation) => ids.filter((id) => !hasQuotaOverride(fellowById.get(id)!, label));
+    const maxShare = (counts: Map<string, number>, within: string[]) =>
+      Math.max(0, ...within.map((id) => counts.get(id) || 0));
+    const ordered = (arr: string[]) => (randomize ? shuffle(arr, rng) : arr);
+    const spread = (label: keyof typeof PGY6_CLASS_TOTALS, priority: string[] = []) => {
+      const shared = classIds(label);
+      const first = ordered(shared.filter((id) => priority.includes(id)));
+      const rest = ordered(shared.filter((id) => !priority.includes(id)));
+      const counts = distributeAcrossCohort(
+        [...orderByNeed(first, gaps, label), ...orderByNeed(rest, gaps, label)],
+        classTotalWithout(fellows, label, classTotalFor(label))
+      );
+      for (const f of fellows) if (hasQuotaOverride(f, label)) counts.set(f.id, fellowQuota(f, label, 0));
+      return counts;
+    };
 
-    const keckFellows = new Set<string>(pickSome(ids, 4));
+    const hfCounts = spread("HF");
+    const noHF = ids.filter((id) => (hfCounts.get(id) || 0) === 0);
 
-    const echoLow = pickSome(ids, 1)[0]; // gets 1 ECHO2; others 2
+    const keckCounts = spread("KECK_CONSULT");
+    const echoCounts = spread("ECHO2");
 
-    const nuclearLow = pickSome(ids, 1)[0]; // gets 2 NUCLEAR; others 3
-    let noninvLow = pickSome(ids.filter((id) => id !== nuclearLow), 1)[0]; // gets 2 NONINVASIVE
-    if (!noninvLow) noninvLow = ids.find((id) => id !== nuclearLow)!;
+    // Fellows with the smaller NUCLEAR share get the larger NONINVASIVE share first
+    const nuclearCounts = spread("NUCLEAR");
+    const nuclearClass = classIds("NUCLEAR");
+    const maxNuclear = maxShare(nuclearCounts, nuclearClass);
+    const nuclearLow = nuclearClass.filter((id) => (nuclearCounts.get(id) || 0) < maxNuclear);
+    const noninvCounts = spread("NONINVASIVE", nuclearLow);
 
-    // LAC_CATH counts: noHF=2; two others=2; remaining two=1
-    const lacCathCounts = new Map<string, number>();
-    for (const id of ids) lacCathCounts.set(id, 1);
-    lacCathCounts.set(noHF, 2);
-    const remainingForTwo = pickSome(ids.filter((id) => id !== noHF), 2);
-    for (const id of remainingForTwo) lacCathCounts.set(id, 2);
+    // LAC_CATH: fellows without HF take the larger share first
+    const lacCathCounts = spread("LAC_CATH", noHF);
+    const lacCathClass = classIds("LAC_CATH");
+    const maxLacCath = maxShare(lacCathCounts, lacCathClass);
 
     // Helpers
     const placeSingle = (fid: string, k: string, label: Rotation) => {
@@ -1598,7 +2024,7 @@ export function placePGY6Rotations(
           ? scored.sort((a, b) => a.covered - b.covered)
           : scored
         ).map((x) => x.k);
-        for (const k of randomize ? shuffle(ordered) : ordered) {
+        for (const k of requestedFirst(fellowById.get(fid), label, randomize ? shuffle(ordered, rng) : ordered, (x) => [x])) {
           if (label === "LAC_CATH") {
             // use dedicated flow for LAC_CATH elsewhere
             continue;
@@ -1672,7 +2098,7 @@ export function placePGY6Rotations(
         if (i >= order.length) return true;
         const k = order[i];
         const cands = (candMap.get(k) || []).sort((a, b) => (remain.get(b)! - remain.get(a)!));
-        for (const fid of (randomize ? shuffle(cands) : cands)) {
+        for (const fid of (randomize ? shuffle(cands, rng) : cands)) {
           const row = byFellow[fid] || {};
           if ((remain.get(fid) || 0) <= 0) continue;
           if (row[k]) continue;
@@ -1706,20 +2132,23 @@ export function placePGY6Rotations(
       return { ok: true };
     };
 
-    // 1) HF: 1 block for 4 fellows (no adjacency rule with CCU for PGY-6)
+    // 1) HF: class total spread across fellows (no adjacency rule with CCU for PGY-6)
     for (const f of fellowOrder) {
-      if (!hfFellows.has(f.id)) continue;
+      const target = hfCounts.get(f.id) || 0;
       const row = (byFellow[f.id] = byFellow[f.id] || {});
-      const has = Object.values(row).filter((x) => x === "HF").length;
-      if (has >= 1) continue;
-      // try uncovered first
-      const cands0 = blockKeys.filter((k) => !row[k] && !isUsed(k, "HF", f.id) && (crossCounts.HF.get(k) || 0) === 0);
-      const cands1 = blockKeys.filter((k) => !row[k] && !isUsed(k, "HF", f.id) && (crossCounts.HF.get(k) || 0) >= 1);
-      const ordered0 = randomize ? shuffle(cands0) : cands0;
-      const ordered1 = randomize ? shuffle(cands1) : cands1;
-      const pick = ordered0[0] || ordered1[0];
-      if (!pick) return { success: false, byFellow: {}, conflicts: [`${f.name || f.id}: unable to place HF.`] };
-      placeSingle(f.id, pick, "HF");
+      let has = Object.values(row).filter((x) => x === "HF").length;
+      while (has < target) {
+        // try uncovered first
+        const free = (k: string) => !row[k] && !isUsed(k, "HF", f.id) && nonConsecutiveOk(f.id, k, "HF");
+        const cands0 = blockKeys.filter((k) => free(k) && (crossCounts.HF.get(k) || 0) === 0);
+        const cands1 = blockKeys.filter((k) => free(k) && (crossCounts.HF.get(k) || 0) >= 1);
+        const ordered0 = randomize ? shuffle(cands0, rng) : cands0;
+        const ordered1 = randomize ? shuffle(cands1, rng) : cands1;
+        const pick = requestedFirst(f, "HF", [...ordered0, ...ordered1], (k) => [k])[0];
+        if (!pick) return { success: false, byFellow: {}, conflicts: [`${f.name || f.id}: unable to place HF.`] };
+        placeSingle(f.id, pick, "HF");
+        has++;
+      }
     }
 
     // 2) LAC_CATH distribution with global cap=2 and non-consecutive
@@ -1738,7 +2167,7 @@ export function placePGY6Rotations(
         }
         scored.sort((a, b) => a.total - b.total);
         let placed = false;
-        for (const s of randomize ? shuffle(scored) : scored) {
+        for (const s of requestedFirst(f, "LAC_CATH", randomize ? shuffle(scored, rng) : scored, (x) => [x.k])) {
           if (!canPlaceLacCathAt(f.id, s.k)) continue;
           placeSingle(f.id, s.k, "LAC_CATH");
           need--;
@@ -1749,32 +2178,34 @@ export function placePGY6Rotations(
       }
     }
 
-    // 3) KECK_CONSULT: 1 block for 4 fellows, prefer uncovered
+    // 3) KECK_CONSULT: class total spread across fellows, prefer uncovered
     for (const f of fellowOrder) {
-      if (!keckFellows.has(f.id)) continue;
-      if (!placeNWithPrefs(f.id, "KECK_CONSULT", 1, { preferUncovered: true, crossAvoid: true })) {
+      const target = keckCounts.get(f.id) || 0;
+      if (target <= 0) continue;
+      if (!placeNWithPrefs(f.id, "KECK_CONSULT", target, { preferUncovered: true, crossAvoid: true })) {
         return { success: false, byFellow: {}, conflicts: [`${f.name || f.id}: unable to place KECK_CONSULT.`] };
       }
     }
 
     // 4) ECHO2: Two-phase approach - place primary quotas first, then use elective specializations for coverage
     for (const f of fellowOrder) {
-      const target = f.id === echoLow ? 1 : 2;
+      const target = echoCounts.get(f.id) || 0;
       if (!placeNWithPrefs(f.id, "ECHO2", target, { preferUncovered: true, crossAvoid: true })) {
         return { success: false, byFellow: {}, conflicts: [`${f.name || f.id}: unable to place ECHO2.`] };
       }
     }
 
-    // 5) EP: 2 each; non-consecutive; no cross-year avoidance
+    // 5) EP: 2 each in a 5-fellow class (or the fellow's own quota); non-consecutive; no cross-year avoidance
+    const epCounts = cohortShares(fellows, "EP", 2, orderByNeed(ordered(classIds("EP")), gaps, "EP"), 1, blocks.length);
     for (const f of fellowOrder) {
-      if (!placeNWithPrefs(f.id, "EP", 2)) {
+      if (!placeNWithPrefs(f.id, "EP", epCounts.get(f.id) ?? 0)) {
         return { success: false, byFellow: {}, conflicts: [`${f.name || f.id}: unable to place EP.`] };
       }
     }
 
-    // 6) NUCLEAR: 3 except one with 2; non-consecutive
+    // 6) NUCLEAR: class total spread across fellows; non-consecutive
     for (const f of fellowOrder) {
-      const target = f.id === nuclearLow ? 2 : 3;
+      const target = nuclearCounts.get(f.id) || 0;
       if (!placeNWithPrefs(f.id, "NUCLEAR", target)) {
         return { success: false, byFellow: {}, conflicts: [`${f.name || f.id}: unable to place NUCLEAR.`] };
       }
@@ -1782,67 +2213,35 @@ export function placePGY6Rotations(
 
     // 7) NONINVASIVE: Two-phase approach - place primary quotas first, then use elective specializations for coverage
     for (const f of fellowOrder) {
-      const target = f.id === noninvLow ? 2 : 3;
+      const target = noninvCounts.get(f.id) || 0;
       if (!placeNWithPrefs(f.id, "NONINVASIVE", target, { preferUncovered: true, crossAvoid: true })) {
         return { success: false, byFellow: {}, conflicts: [`${f.name || f.id}: unable to place NONINVASIVE.`] };
       }
     }
 
-    // 8) Fill remaining with ELECTIVE and add specializations for coverage
+    // 8) Custom catalog rotations, then fill remaining with ELECTIVE and add specializations for coverage
+    for (const f of fellowOrder) {
+      const unplaced = placeCustomRotations(customRotations, "PGY-6", f, byFellow, blockKeys, keyToIndex, randomize, rng);
+      if (unplaced) {
+        addFailureReason(`custom_placement_failed_${unplaced.id}_${f.id}`);
+        return { success: false, byFellow: {}, conflicts: [`${f.name || f.id}: unable to place ${unplaced.name}.`] };
+      }
+    }
     for (const f of fellowOrder) {
       const row = (byFellow[f.id] = byFellow[f.id] || {});
       for (const k of blockKeys) if (!row[k]) placeSingle(f.id, k, "ELECTIVE");
     }
 
     // 9) Phase 2: Add elective specializations to ensure coverage where needed
-    const addElectiveSpecializations = () => {
-      // Check which blocks need additional coverage
-      const getCoverageCount = (blockKey: string, rotationType: string): number => {
-        let count = 0;
-        // Count from current PGY-6 assignments
-        for (const f of fellows) {
-          const rotation = byFellow[f.id]?.[blockKey];
-          if (countsForCoverage(rotation as Rotation, rotationType as Rotation)) {
-            count++;
-          }
-        }
-        // Count from cross-PGY assignments
-        count += (crossCounts[rotationType]?.get(blockKey) || 0);
-        return count;
-      };
-
-      const specializations = [
-        { type: "ECHO2", needed: 1 },
-        { type: "NONINVASIVE", needed: 1 },
-        { type: "HF", needed: 1 },
-        { type: "KECK_CONSULT", needed: 1 }
-      ];
-
-      for (const spec of specializations) {
-        for (const k of blockKeys) {
-          const currentCount = getCoverageCount(k, spec.type);
-          if (currentCount < spec.needed) {
-            // Find a fellow with ELECTIVE in this block to convert
-            for (const f of fellows) {
-              const row = byFellow[f.id] || {};
-              if (row[k] === "ELECTIVE") {
-                row[k] = `ELECTIVE (${spec.type})` as Rotation;
-                break; // Only need one conversion per block
-              }
-            }
-          }
-        }
-      }
-    };
-
-    addElectiveSpecializations();
+    addCoverageSpecializations(fellows, byFellow, blockKeys, crossCounts);
 
     // Capacity check within PGY-6 (ELECTIVE ignored)
     const cap: Map<string, Map<Rotation, string[]>> = new Map();
     for (const f of fellows) {
       const row = byFellow[f.id] || {};
       for (const [k, v] of Object.entries(row)) {
-        if (!v || v === "ELECTIVE") continue;
+        // Custom rotations carry their own capacity, enforced when they are placed
+        if (!v || v === "ELECTIVE" || isCustomRotation(catalog, v)) continue;
         let m = cap.get(k);
         if (!m) { m = new Map<Rotation, string[]>(); cap.set(k, m); }
         const arr = m.get(v as Rotation) ?? [];
@@ -1855,48 +2254,47 @@ export function placePGY6Rotations(
       }
     }
 
-    // Per-fellow validations (count both primary and elective specializations)
+    // Per-fellow validations
     const conflicts: string[] = [];
-    
-    // Helper function to count rotations including elective specializations
-    const countRotationsForFellow = (fellowId: string, rotationType: Rotation): number => {
-      const row = byFellow[fellowId] || {};
-      return Object.values(row).filter(rotation => 
-        rotation && countsForCoverage(rotation as Rotation, rotationType)
-      ).length;
-    };
-    
-    // HF exactly 4 fellows with exactly 1 block
-    const hfCounts = fellows.map((f) => ({ f, c: countRotationsForFellow(f.id, "HF") }));
-    const hfExactly = hfCounts.filter((x) => x.c === 1).length;
-    const hfZero = hfCounts.filter((x) => x.c === 0).length;
-    if (hfExactly !== 4 || hfZero !== 1) conflicts.push(`HF distribution must be 4 fellows with 1 block, 1 fellow with 0.`);
-
-    // KECK_CONSULT exactly 4 fellows with 1 block
-    const kcCounts = fellows.map((f) => ({ f, c: countRotationsForFellow(f.id, "KECK_CONSULT") }));
-    if (kcCounts.filter((x) => x.c === 1).length !== 4 || kcCounts.filter((x) => x.c === 0).length !== 1) conflicts.push(`KECK_CONSULT distribution must be 4 fellows with 1 block, 1 with 0.`);
-
-    // ECHO2: one has 1; others 2 (count elective specializations)
-    const echoCounts = fellows.map((f) => ({ f, c: countRotationsForFellow(f.id, "ECHO2") }));
-    if (!(echoCounts.some((x) => x.c === 1) && echoCounts.filter((x) => x.c === 2).length === 4)) conflicts.push(`ECHO2 distribution must be [2,2,2,2,1].`);
-
-    // NUCLEAR: one has 2; others 3
-    const nucCounts = fellows.map((f) => ({ f, c: Object.values(byFellow[f.id] || {}).filter((x) => x === "NUCLEAR").length }));
-    const nuc2 = nucCounts.filter((x) => x.c === 2);
-    if (!(nuc2.length === 1 && nucCounts.filter((x) => x.c === 3).length === 4)) conflicts.push(`NUCLEAR distribution must be [3,3,3,3,2].`);
-
-    // NONINVASIVE: one has 2; others 3; and low fellow differs from nuclearLow (count elective specializations)
-    const noninvCounts = fellows.map((f) => ({ f, c: countRotationsForFellow(f.id, "NONINVASIVE") }));
-    const non2 = noninvCounts.filter((x) => x.c === 2);
-    if (!(non2.length === 1 && noninvCounts.filter((x) => x.c === 3).length === 4)) conflicts.push(`NONINVASIVE distribution must be [3,3,3,3,2].`);
-    if (nuc2.length === 1 && non2.length === 1 && nuc2[0].f.id === non2[0].f.id) conflicts.push(`The 2-block NUCLEAR fellow cannot also be the 2-block NONINVASIVE fellow.`);
-
-    // LAC_CATH non-consecutive and distribution multiset [2,2,2,1,1] with noHF fellow having 2
-    const lacCounts = fellows.map((f) => ({ f, c: Object.values(byFellow[f.id] || {}).filter((x) => x === "LAC_CATH").length }));
-    const multiset = lacCounts.map((x) => x.c).sort((a, b) => a - b).join(",");
-    if (multiset !== "1,1,2,2,2") conflicts.push(`LAC_CATH distribution must be [2,2,2,1,1].`);
-    const noHFC = lacCounts.find((x) => x.f.id === noHF)?.c || 0;
-    if (noHFC !== 2) conflicts.push(`Fellow without HF must have 2 LAC_CATH blocks.`);
+
+    const distributionLabel = (target: Map<string, number>) =>
+      `[${[...target.values()].sort((a, b) => b - a).join(",")}]`;
+
+    // Quotas are checked on the primary rotation only: elective specializations added above
+    // fill cross-PGY coverage gaps and would otherwise push a fellow past their share.
+    const countPrimaryForFellow = (fellowId: string, rotationType: Rotation): number =>
+      Object.values(byFellow[fellowId] || {}).filter((x) => x === rotationType).length;
+    const hfActual = fellows.map((f) => countPrimaryForFellow(f.id, "HF"));
+    if (!matchesDistribution(hfActual, hfCounts)) conflicts.push(`HF distribution must be ${distributionLabel(hfCounts)}.`);
+
+    const kcActual = fellows.map((f) => countPrimaryForFellow(f.id, "KECK_CONSULT"));
+    if (!matchesDistribution(kcActual, keckCounts)) conflicts.push(`KECK_CONSULT distribution must be ${distributionLabel(keckCounts)}.`);
+
+    const echoActual = fellows.map((f) => countPrimaryForFellow(f.id, "ECHO2"));
+    if (!matchesDistribution(echoActual, echoCounts)) conflicts.push(`ECHO2 distribution must be ${distributionLabel(echoCounts)}.`);
+
+    const nucByFellow = new Map(fellows.map((f) => [f.id, countPrimaryForFellow(f.id, "NUCLEAR")] as const));
+    if (!matchesDistribution([...nucByFellow.values()], nuclearCounts)) conflicts.push(`NUCLEAR distribution must be ${distributionLabel(nuclearCounts)}.`);
+
+    // A fellow may only be low on both NUCLEAR and NONINVASIVE when the class is too small to avoid it
+    const nonByFellow = new Map(fellows.map((f) => [f.id, countPrimaryForFellow(f.id, "NONINVASIVE")] as const));
+    if (!matchesDistribution([...nonByFellow.values()], noninvCounts)) conflicts.push(`NONINVASIVE distribution must be ${distributionLabel(noninvCounts)}.`);
+    const noninvClass = classIds("NONINVASIVE");
+    const maxNonInv = maxShare(noninvCounts, noninvClass);
+    const nonLowCount = noninvClass.filter((id) => (noninvCounts.get(id) || 0) < maxNonInv).length;
+    const allowedDoubleLow = Math.max(0, nuclearLow.length + nonLowCount - fellows.length);
+    const doubleLow = nuclearClass.filter(
+      (id) => noninvClass.includes(id) && (nucByFellow.get(id) || 0) < maxNuclear && (nonByFellow.get(id) || 0) < maxNonInv
+    ).length;
+    if (doubleLow > allowedDoubleLow) conflicts.push(`Fellows with the smaller NUCLEAR share cannot also have the smaller NONINVASIVE share.`);
+
+    // LAC_CATH distribution; fellows without HF must have the larger share
+    const lacByFellow = new Map(fellows.map((f) => [f.id, countPrimaryForFellow(f.id, "LAC_CATH")] as const));
+    if (!matchesDistribution([...lacByFellow.values()], lacCathCounts)) conflicts.push(`LAC_CATH distribution must be ${distributionLabel(lacCathCounts)}.`);
+    const lacHighSlots = lacCathClass.filter((id) => (lacCathCounts.get(id) || 0) === maxLacCath).length;
+    const noHFInClass = noHF.filter((id) => lacCathClass.includes(id));
+    const noHFHigh = noHFInClass.filter((id) => (lacByFellow.get(id) || 0) === maxLacCath).length;
+    if (noHFHigh < Math.min(noHFInClass.length, lacHighSlots)) conflicts.push(`Fellows without HF must have ${maxLacCath} LAC_CATH blocks.`);
 
     // Non-consecutive checks
     const checkLabels: Rotation[] = ["LAC_CATH", "ECHO2", "EP", "NUCLEAR", "NONINVASIVE"];
@@ -1983,6 +2381,7 @@ export function placePGY6Rotations(
 
       const res = tryOnce();
       totalTried++;
+      reportProgress("PGY-6 rotations", totalTried, maxTries);
       
       if (res.success) {
         return { ...res, tried: totalTried, diagnostics };
@@ -2034,6 +2433,7 @@ export function placePGY6Rotations(
       
       const res = tryOnce(modifiedBase, forbiddenMap);
       fallbackTried++;
+      reportProgress("PGY-6 vacation-conflict fallback", fallbackTried, fallbackMaxTries);
       
       if (res.success) {
         // SUCCESS! Convert ELECTIVE back to VAC
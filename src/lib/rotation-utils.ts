@@ -1,9 +1,21 @@
+import type { CSSProperties } from "react";
 import type { Rotation } from "@/lib/rotation-engine";
+import { loadSettings } from "@/lib/settings-engine";
+import {
+  DEFAULT_ROTATION_CATALOG,
+  findRotation,
+  hasCustomColor,
+  type RotationDefinition,
+} from "@/lib/rotation-catalog";
 
 /**
- * Get a display-friendly name for a rotation
+ * Get a display-friendly name for a rotation. Built-ins keep their short code unless renamed
+ * in the rotation catalog; custom rotations always use their catalog name.
  */
-export function getRotationDisplayName(rotation: Rotation): string {
+export function getRotationDisplayName(
+  rotation: Rotation,
+  catalog: RotationDefinition[] = loadSettings().rotationCatalog
+): string {
   if (rotation === "VAC") return "Vacation";
   
   if (rotation.startsWith("ELECTIVE (")) {
@@ -12,9 +24,28 @@ export function getRotationDisplayName(rotation: Rotation): string {
     return `Elective (${specialty})`;
   }
   
+  const def = findRotation(catalog, rotation);
+  if (def && (!def.builtIn || def.name !== findRotation(DEFAULT_ROTATION_CATALOG, rotation)?.name)) {
+    return def.name;
+  }
+  
   return rotation;
 }
 
+/**
+ * Inline badge colors for custom rotations and recolored built-ins, which have no themed variant.
+ * Elective specializations take the underlying rotation's colors, as with badge variants.
+ */
+export function getRotationBadgeStyle(
+  rotation: Rotation,
+  catalog: RotationDefinition[] = loadSettings().rotationCatalog
+): CSSProperties | undefined {
+  const id = getElectiveSpecializationType(rotation) ?? rotation;
+  const def = findRotation(catalog, id);
+  if (!def || (def.builtIn && !hasCustomColor(catalog, id))) return undefined;
+  return { backgroundColor: def.color, color: "#1F2937", borderColor: "transparent" };
+}
+
 /**
  * Get the CSS class variant for a rotation badge
  */
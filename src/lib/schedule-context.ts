@@ -0,0 +1,92 @@
+import { loadSchedule, loadSetup, type PGY, type SetupState, type StoredSchedule } from "@/lib/schedule-engine";
+import { DEFAULT_SETTINGS, loadSettings, type SchedulerSettings } from "@/lib/settings-engine";
+import { loadCallSchedule, type CallSchedule } from "@/lib/call-engine";
+import { loadHFSchedule, type HFSchedule } from "@/lib/hf-engine";
+import { loadJeopardySchedule, type JeopardySchedule } from "@/lib/jeopardy-engine";
+import { loadClinicSchedule, type ClinicSchedule } from "@/lib/clinic-engine";
+import { loadArchivedYears, type ArchivedYear } from "@/lib/academic-year-engine";
+import { emptyPins, loadPins, type PinnedAssignments } from "@/lib/pin-engine";
+
+// Everything the engines read: setup, settings, every saved schedule, pinned assignments and the
+// archived prior academic years. Engines take one explicitly, so two contexts (a saved snapshot and a what-if
+// edit, say) can be compared side by side.
+export type ScheduleContext = {
+  setup: SetupState | null;
+  settings: SchedulerSettings;
+  schedules: Record<PGY, StoredSchedule | null>;
+  callSchedule: CallSchedule | null;
+  hfSchedule: HFSchedule | null;
+  jeopardySchedule: JeopardySchedule | null;
+  clinicSchedule: ClinicSchedule | null;
+  pins: PinnedAssignments;
+  archivedYears: ArchivedYear[];
+};
+
+const PGYS: PGY[] = ["PGY-4", "PGY-5", "PGY-6"];
+
+// A live view of saved storage: each field is read when accessed, so callers always see the
+// latest saved state. This is the default context for every engine function.
+export function storageContext(): ScheduleContext {
+  const schedules = {} as Record<PGY, StoredSchedule | null>;
+  for (const pgy of PGYS) {
+    Object.defineProperty(schedules, pgy, { enumerable: true, get: () => loadSchedule(pgy) });
+  }
+  return {
+    get setup() {
+      return loadSetup();
+    },
+    get settings() {
+      return loadSettings();
+    },
+    schedules,
+    get callSchedule() {
+      return loadCallSchedule();
+    },
+    get hfSchedule() {
+      return loadHFSchedule();
+    },
+    get jeopardySchedule() {
+      return loadJeopardySchedule();
+    },
+    get clinicSchedule() {
+      return loadClinicSchedule();
+    },
+    get pins() {
+      return loadPins();
+    },
+    get archivedYears() {
+      return loadArchivedYears();
+    },
+  };
+}
+
+// A plain copy of a context, safe to keep, edit or post to a worker
+export function snapshotContext(ctx: ScheduleContext = storageContext()): ScheduleContext {
+  return {
+    setup: ctx.setup,
+    settings: ctx.settings,
+    schedules: { "PGY-4": ctx.schedules["PGY-4"], "PGY-5": ctx.schedules["PGY-5"], "PGY-6": ctx.schedules["PGY-6"] },
+    callSchedule: ctx.callSchedule,
+    hfSchedule: ctx.hfSchedule,
+    jeopardySchedule: ctx.jeopardySchedule,
+    clinicSchedule: ctx.clinicSchedule,
+    pins: ctx.pins,
+    archivedYears: ctx.archivedYears,
+  };
+}
+
+// Build a context from explicit data, e.g. for what-if analysis or outside the browser
+export function createScheduleContext(overrides: Partial<ScheduleContext> = {}): ScheduleContext {
+  return {
+    setup: null,
+    settings: DEFAULT_SETTINGS,
+    callSchedule: null,
+    hfSchedule: null,
+    jeopardySchedule: null,
+    clinicSchedule: null,
+    pins: emptyPins(),
+    archivedYears: [],
+    ...overrides,
+    schedules: { "PGY-4": null, "PGY-5": null, "PGY-6": null, ...overrides.schedules },
+  };
+}
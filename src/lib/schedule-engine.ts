@@ -5,11 +5,41 @@ export type Fellow = {
   name: string;
   pgy: PGY;
   clinicDay?: "Monday" | "Tuesday" | "Wednesday" | "Thursday" | "Friday";
-  vacationPrefs: (string | undefined)[]; // keys like JUL1, JUL2, ...
+  vacationPrefs: (string | undefined)[]; // block keys like JUL1, JUL2, ... (B1, B2, ... on a weeks calendar)
+  startYear?: number; // calendar year of the July the fellow started as PGY-4
+  track?: string; // e.g. "Clinical", "Research"; informational
+  // This year's blocks per rotation id, replacing the class count for this fellow only
+  rotationQuotas?: Partial<Record<string, number>>;
+  rotationRequests?: RotationRequest[];
+  // Conferences, leave, interviews; date ranges the call, HF, jeopardy and clinic engines respect
+  unavailability?: Unavailability[];
+};
+
+// A soft request to have a rotation in particular blocks; solvers try these blocks first
+export type RotationRequest = {
+  rotation: string;
+  blocks: string[]; // block keys like MAR1, MAR2
+};
+
+export type UnavailabilityKind = "conference" | "sick" | "parental" | "interview" | "personal";
+
+// Hard entries keep the fellow off every schedule; soft entries are avoided by the generators
+// but can still be overridden by hand
+export type Unavailability = {
+  id: string;
+  kind: UnavailabilityKind;
+  start: string; // ISO date, inclusive
+  end: string; // ISO date, inclusive
+  label?: string; // e.g. "ACC conference"
+  hard: boolean;
+  // Extended parental or medical leave: call quotas are prorated and the days count as training time lost
+  leaveOfAbsence?: boolean;
 };
 
 export type SetupState = {
+  version?: 1;
   yearStart: string; // ISO date
+  yearEnd?: string; // ISO date of the last day; unset runs twelve months, e.g. to June 30 for a July start
   fellows: Fellow[];
   holidays: { id: string; date: string; name: string }[];
 };
@@ -20,57 +50,103 @@ export type StoredSchedule = {
   version: 1;
   pgy: PGY;
   byFellow: FellowSchedule;
+  seed?: number; // seed of the heuristic rotation run that produced this schedule
 };
 
 export const SETUP_STORAGE_KEY = "cfsa_setup_v1";
 export const SCHEDULE_STORAGE_KEY = "cfsa_blocks_v1";
 
+export const SETUP_SCHEMA: Schema<SetupState> = {
+  name: "Setup",
+  version: 1,
+  migrations: [{ to: 1, description: "Add a format version to the setup", up: (setup) => setup }],
+  defaults: () => ({ fellows: [], holidays: [] }),
+};
+
+export const STORED_SCHEDULE_SCHEMA: Schema<StoredSchedule> = {
+  name: "Block schedule",
+  version: 1,
+  migrations: [],
+  defaults: () => ({ byFellow: {} }),
+};
+
+// A setup saved by a newer version of the app loads as null and stays read-only, see migrateFromStorage
 export function loadSetup(): SetupState | null {
   try {
-    const raw = localStorage.getItem(SETUP_STORAGE_KEY);
+    const raw = storage.getItem(SETUP_STORAGE_KEY);
     if (!raw) return null;
-    return JSON.parse(raw) as SetupState;
+    return migrateStored(SETUP_SCHEMA, SETUP_STORAGE_KEY, JSON.parse(raw));
   } catch {
     return null;
   }
 }
 
+export function saveSetup(setup: SetupState) {
+  try {
+    storage.setItem(SETUP_STORAGE_KEY, JSON.stringify({ ...setup, version: SETUP_SCHEMA.version }));
+  } catch {
+    // ignore
+  }
+}
+
 export function loadSchedule(pgy: PGY): StoredSchedule | null {
   try {
-    const raw = localStorage.getItem(SCHEDULE_STORAGE_KEY);
+    const raw = storage.getItem(SCHEDULE_STORAGE_KEY);
     if (!raw) return null;
     const parsed = JSON.parse(raw) as Record<string, StoredSchedule>;
-    return parsed[pgy] ?? null;
+    if (!parsed[pgy]) return null;
+    const { value, report } = migrateFromStorage(STORED_SCHEDULE_SCHEMA, parsed[pgy], SCHEDULE_STORAGE_KEY, `${SCHEDULE_STORAGE_KEY} ${pgy}`);
+    if (report) {
+      storage.setItem(SCHEDULE_STORAGE_KEY, JSON.stringify({ ...parsed, [pgy]: value }));
+      recordMigration(report);
+    }
+    return value;
   } catch {
     return null;
   }
 }
 
 export function saveSchedule(pgy: PGY, schedule: StoredSchedule) {
+  recordWrite(SCHEDULE_STORAGE_KEY, "block schedule");
   try {
-    const raw = localStorage.getItem(SCHEDULE_STORAGE_KEY);
+    const raw = storage.getItem(SCHEDULE_STORAGE_KEY);
     const parsed = raw ? (JSON.parse(raw) as Record<string, StoredSchedule>) : {};
     parsed[pgy] = schedule;
-    localStorage.setItem(SCHEDULE_STORAGE_KEY, JSON.stringify(parsed));
+    storage.setItem(SCHEDULE_STORAGE_KEY, JSON.stringify(parsed));
+  } catch {
+    // ignore
+  }
+}
+
+export function clearSchedules() {
+  recordWrite(SCHEDULE_STORAGE_KEY, "block schedule");
+  try {
+    storage.removeItem(SCHEDULE_STORAGE_KEY);
   } catch {
     // ignore
   }
 }
 
 import { hasMinSpacing, type BlockInfo } from "@/lib/block-utils";
-import { loadSettings } from "@/lib/settings-engine";
+import { type SchedulerSettings } from "@/lib/settings-engine";
+import { storageContext, type ScheduleContext } from "@/lib/schedule-context";
+import { reportProgress } from "@/lib/engine-progress";
+import { createRng, randomSeed, shuffle } from "@/lib/seeded-random";
+import { recordWrite } from "@/lib/history-engine";
+import { storage } from "@/lib/storage-engine";
+import { migrateFromStorage, migrateStored, recordMigration, type Schema } from "@/lib/migration-engine";
 
 // Helper function to check if a vacation is allowed based on restrictions
-function isVacationAllowed(blockKey: string, pgy: PGY): boolean {
-  const settings = loadSettings();
-  
+function isVacationAllowed(blockKey: string, blocks: BlockInfo[], pgy: PGY, settings: SchedulerSettings): boolean {
+  const monthIndex = blocks.find(b => b.key === blockKey)?.monthIndex;
+
   // Check July restriction setting
-  if (settings.vacation.julyRestriction && blockKey.startsWith('JUL')) {
+  if (settings.vacation.julyRestriction && monthIndex === 0) {
     return false;
   }
   
   // Check PGY-4 August restriction setting
-  if (settings.vacation.pgy4AugustRestriction && pgy === 'PGY-4' && blockKey.startsWith('AUG')) {
+  if (settings.vacation.pgy4AugustRestriction && pgy === 'PGY-4' && monthIndex === 1) {
     return false;
   }
   
@@ -78,8 +154,12 @@ function isVacationAllowed(blockKey: string, pgy: PGY): boolean {
 }
 
 // Step 1 engine: place vacations only: honoring preferences and spacing settings
-export function buildVacationOnlySchedule(fellows: Fellow[], blocks: BlockInfo[]): FellowSchedule {
-  const settings = loadSettings();
+export function buildVacationOnlySchedule(
+  fellows: Fellow[],
+  blocks: BlockInfo[],
+  ctx: ScheduleContext = storageContext()
+): FellowSchedule {
+  const { settings } = ctx;
   const byFellow: FellowSchedule = {};
   
   for (const f of fellows) {
@@ -91,7 +171,7 @@ export function buildVacationOnlySchedule(fellows: Fellow[], blocks: BlockInfo[]
       if (!pref) continue;
       if (seen.has(pref)) continue;
       // Check vacation restrictions
-      if (!isVacationAllowed(pref, f.pgy)) continue;
+      if (!isVacationAllowed(pref, blocks, f.pgy, settings)) continue;
       seen.add(pref);
       const next = [...selected, pref];
       if (hasMinSpacing(blocks, next, settings.vacation.minSpacingBlocks)) {
@@ -119,12 +199,12 @@ export function countByBlock(byFellow: FellowSchedule): Record<string, number> {
 }
 
 // Get vacation counts across all PGY levels for cross-PGY validation
-export function getAllPGYVacationCounts(): Record<string, number> {
+export function getAllPGYVacationCounts(ctx: ScheduleContext = storageContext()): Record<string, number> {
   const counts: Record<string, number> = {};
   const pgyLevels: PGY[] = ["PGY-4", "PGY-5", "PGY-6"];
   
   for (const pgy of pgyLevels) {
-    const schedule = loadSchedule(pgy);
+    const schedule = ctx.schedules[pgy];
     if (schedule?.byFellow) {
       for (const fellowRow of Object.values(schedule.byFellow)) {
         for (const [blockKey, rotation] of Object.entries(fellowRow)) {
@@ -147,8 +227,11 @@ export type VacationSolveResult = {
   tried?: number;
   partialAssignments?: string[]; // Fellows who got < 2 vacations
   phaseResults?: string[]; // Details from each phase
+  seed?: number; // seed of a randomized run; absent when fellows were taken in setup order
 };
 
+export type VacationSolveOptions = { randomize?: boolean; seed?: number; maxAttempts?: number; timeout?: number };
+
 // Helper functions for enhanced algorithm
 function getPreferenceScore(blockKey: string, preferences: (string | undefined)[]): number {
   const index = preferences.findIndex(pref => pref === blockKey);
@@ -170,12 +253,15 @@ function hasBalancedDistribution(assignments: string[], blocks: BlockInfo[]): bo
 export function buildVacationScheduleForPGY(
   fellows: Fellow[],
   blocks: BlockInfo[],
-  minOrOpts?: number | { randomize?: boolean; maxAttempts?: number; timeout?: number },
-  maybeOpts?: { randomize?: boolean; maxAttempts?: number; timeout?: number }
+  minOrOpts?: number | VacationSolveOptions,
+  maybeOpts?: VacationSolveOptions,
+  ctx: ScheduleContext = storageContext()
 ): VacationSolveResult {
-  const settings = loadSettings();
+  const { settings } = ctx;
   const opts = (typeof minOrOpts === "object" && minOrOpts !== null ? minOrOpts : maybeOpts) || {};
   const randomize = !!opts.randomize;
+  const seed = opts.seed ?? randomSeed();
+  const rng = createRng(seed);
   const maxAttempts = opts.maxAttempts || 50000;
   const timeout = opts.timeout || 120000; // 2 minutes
   const initialMinSpacing = typeof minOrOpts === "number" ? minOrOpts : settings.vacation.minSpacingBlocks;
@@ -185,9 +271,13 @@ export function buildVacationScheduleForPGY(
   const allKeysSet = new Set(blockKeys);
   const startTime = Date.now();
   const phaseResults: string[] = [];
+  const logPhase = (message: string) => {
+    phaseResults.push(message);
+    reportProgress(message);
+  };
 
   // Get existing vacation counts across all PGYs
-  const crossPGYCounts = getAllPGYVacationCounts();
+  const crossPGYCounts = getAllPGYVacationCounts(ctx);
 
   function hasSpacing(a: string, b: string, minSpacing: number): boolean {
     const ia = indexByKey.get(a) ?? -1;
@@ -196,11 +286,12 @@ export function buildVacationScheduleForPGY(
     return Math.abs(ia - ib) >= minSpacing;
   }
 
-  // Prepare fellow data with enhanced preference analysis
-  const fellowData = fellows.map((f) => {
+  // Prepare fellow data with enhanced preference analysis. A randomized run shuffles the fellows, so the
+  // seed decides who goes first among fellows the phases below rank equally.
+  const fellowData = (randomize ? shuffle(fellows, rng) : fellows).map((f) => {
     const validPrefs = (f.vacationPrefs || [])
       .map((pref, index) => ({ pref, index }))
-      .filter(({ pref }) => pref && allKeysSet.has(pref) && isVacationAllowed(pref, f.pgy))
+      .filter(({ pref }) => pref && allKeysSet.has(pref) && isVacationAllowed(pref, blocks, f.pgy, settings))
       .map(({ pref, index }) => ({ block: pref!, preferenceScore: index }));
 
     return { fellow: f, validPrefs, vacationCount: 0, assignments: [] as string[] };
@@ -216,7 +307,7 @@ export function buildVacationScheduleForPGY(
   }
 
   // Phase 1: Primary preference pairs with optimal spacing
-  phaseResults.push(`Phase 1: Assigning preference pairs with ${settings.vacation.minSpacingBlocks}-block spacing`);
+  logPhase(`Phase 1: Assigning preference pairs with ${settings.vacation.minSpacingBlocks}-block spacing`);
   let phase1Success = 0;
   
   for (const data of fellowData.sort((a, b) => a.validPrefs.length - b.validPrefs.length)) {
@@ -262,10 +353,10 @@ export function buildVacationScheduleForPGY(
     }
   }
   
-  phaseResults.push(`Phase 1 completed: ${phase1Success} fellows got ${settings.vacation.maxVacationsPerYear} vacations`);
+  logPhase(`Phase 1 completed: ${phase1Success} fellows got ${settings.vacation.maxVacationsPerYear} vacations`);
 
   // Phase 2: Single preferences for remaining fellows and those with only 1 vacation
-  phaseResults.push("Phase 2: Assigning single preferences");
+  logPhase("Phase 2: Assigning single preferences");
   let phase2Success = 0;
   
   const fellowsNeedingMore = fellowData
@@ -317,10 +408,10 @@ export function buildVacationScheduleForPGY(
     if (assigned > 0) phase2Success++;
   }
   
-  phaseResults.push(`Phase 2 completed: ${phase2Success} additional fellows got vacations`);
+  logPhase(`Phase 2 completed: ${phase2Success} additional fellows got vacations`);
 
   // Phase 3: Progressive constraint relaxation for remaining fellows
-  phaseResults.push("Phase 3: Progressive constraint relaxation");
+  logPhase("Phase 3: Progressive constraint relaxation");
   let phase3Success = 0;
   
   // Build dynamic spacing levels based on configured minimum spacing
@@ -335,7 +426,7 @@ export function buildVacationScheduleForPGY(
     const stillNeedingVacations = fellowData.filter(data => data.vacationCount === 0);
     if (stillNeedingVacations.length === 0) break;
     
-    phaseResults.push(`Phase 3: Trying ${minSpacing}-block minimum spacing`);
+    logPhase(`Phase 3: Trying ${minSpacing}-block minimum spacing`);
     
     for (const data of stillNeedingVacations) {
       const { fellow, validPrefs } = data;
@@ -381,10 +472,10 @@ export function buildVacationScheduleForPGY(
     }
   }
   
-  phaseResults.push(`Phase 3 completed: ${phase3Success} fellows got vacations with relaxed spacing`);
+  logPhase(`Phase 3 completed: ${phase3Success} fellows got vacations with relaxed spacing`);
 
   // Phase 4: Final single assignments for any remaining fellows
-  phaseResults.push("Phase 4: Final single vacation assignments");
+  logPhase("Phase 4: Final single vacation assignments");
   let phase4Success = 0;
   
   const finalUnassigned = fellowData.filter(data => data.vacationCount === 0);
@@ -411,14 +502,14 @@ export function buildVacationScheduleForPGY(
     }
   }
   
-  phaseResults.push(`Phase 4 completed: ${phase4Success} fellows got at least one vacation`);
+  logPhase(`Phase 4 completed: ${phase4Success} fellows got at least one vacation`);
 
   // Calculate success metrics
   const fellowsWithMaxVacations = fellowData.filter(data => data.vacationCount === settings.vacation.maxVacationsPerYear).length;
   const fellowsWithPartialVacations = fellowData.filter(data => data.vacationCount > 0 && data.vacationCount < settings.vacation.maxVacationsPerYear).length;
   const fellowsWith0Vacations = fellowData.filter(data => data.vacationCount === 0).length;
   
-  phaseResults.push(`Final results: ${fellowsWithMaxVacations} fellows with ${settings.vacation.maxVacationsPerYear} vacations, ${fellowsWithPartialVacations} with partial vacations, ${fellowsWith0Vacations} with 0 vacations`);
+  logPhase(`Final results: ${fellowsWithMaxVacations} fellows with ${settings.vacation.maxVacationsPerYear} vacations, ${fellowsWithPartialVacations} with partial vacations, ${fellowsWith0Vacations} with 0 vacations`);
   
   const partialAssignments = fellowData
     .filter(data => data.vacationCount > 0 && data.vacationCount < settings.vacation.maxVacationsPerYear)
@@ -433,6 +524,7 @@ export function buildVacationScheduleForPGY(
     conflicts: conflicts.length > 0 ? conflicts : undefined,
     tried: totalTried,
     partialAssignments,
-    phaseResults
+    phaseResults,
+    seed: randomize ? seed : undefined,
   };
 }
@@ -0,0 +1,38 @@
+// Seeded randomness for the schedule generators. The same seed and inputs always produce the
+// same schedule, so a good run can be reproduced from the seed stored on the result.
+
+export type Rng = () => number;
+
+// mulberry32: small, fast and well distributed for shuffling and weighted picks
+export function createRng(seed: number): Rng {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+// A fresh seed for runs where the user did not pick one
+export function randomSeed(): number {
+  return Math.floor(Math.random() * 1_000_000_000);
+}
+
+// Parse a seed typed by the user; blank or invalid input means "pick a random seed"
+export function parseSeed(text: string): number | undefined {
+  const trimmed = text.trim();
+  if (!/^\d+$/.test(trimmed)) return undefined;
+  const seed = Number(trimmed);
+  return Number.isSafeInteger(seed) ? seed : undefined;
+}
+
+export function shuffle<T>(arr: T[], rng: Rng): T[] {
+  const a = [...arr];
+  for (let i = a.length - 1; i > 0; i--) {
+    const j = Math.floor(rng() * (i + 1));
+    [a[i], a[j]] = [a[j], a[i]];
+  }
+  return a;
+}
@@ -1,4 +1,15 @@
 import { PGY } from "./schedule-engine";
+import {
+  DEFAULT_ROTATION_CATALOG,
+  DEFAULT_TRAINING_REQUIREMENTS,
+  normalizeRotationCatalog,
+  normalizeTrainingRequirements,
+  type RotationDefinition,
+  type TrainingRequirement,
+} from "./rotation-catalog";
+import { storage } from "@/lib/storage-engine";
+import { DEFAULT_BLOCK_CALENDAR, type BlockCalendar } from "@/lib/block-utils";
+import { migrate, migrateStored, recordMigration, type MigrationReport, type Schema } from "@/lib/migration-engine";
 
 export type { PGY };
 
@@ -15,6 +26,9 @@ export interface SchedulerSettings {
     maxTotalPerBlock: number;
   };
   
+  // BLOCK CALENDAR: how the academic year is cut into blocks; rotation and vacation counts are in these blocks
+  blockCalendar: BlockCalendar;
+
   // BLOCK ROTATION RULES
   blockRotations: {
     pgy4: {
@@ -59,8 +73,22 @@ export interface SchedulerSettings {
       electiveBlocks: number;
       enforceNonConsecutiveMonths: boolean;
     };
+    // Constraint-solver rules the user chose to relax from the infeasibility report, by rule id
+    relaxedRules: Partial<Record<PGY, string[]>>;
   };
   
+  // ROTATION CATALOG
+  // Built-in and custom rotations. Exclusions from primary call, jeopardy and clinics live in
+  // the excludeRotations lists of those sections and are keyed by rotation id.
+  rotationCatalog: RotationDefinition[];
+  
+  // TRAINING REQUIREMENTS
+  // Fellowship-total block targets, tracked across archived years. The PGY-5 and PGY-6 solvers
+  // hand the shares that vary within a class to the fellows furthest behind.
+  trainingRequirements: TrainingRequirement[];
+  // Leave-of-absence days the fellowship absorbs before training must be extended
+  leaveAllowanceDays: number;
+  
   // PRIMARY CALL RULES
   primaryCall: {
     maxCalls: {
@@ -82,6 +110,20 @@ export interface SchedulerSettings {
     excludeEPOnDays: number[];
     noConsecutiveSaturdays: boolean;
     noPGY6OnHolidayEves: boolean;
+    // Objective for the fairness optimizer: how much an uneven spread of each kind of call within a
+    // PGY costs, what one call on each holiday is worth, and which rotations count as heavy
+    fairness: {
+      weights: {
+        total: number;
+        weekendHoliday: number;
+        friday: number;
+        sunday: number;
+        holiday: number;
+        heavyRotation: number;
+      };
+      holidayWeights: Record<string, number>; // holiday id -> weight; holidays not listed count 1
+      heavyRotations: string[];
+    };
   };
   
   // JEOPARDY CALL RULES
@@ -159,6 +201,18 @@ export interface SchedulerSettings {
     rotationPriority: string[];
     noConsecutiveBlocks: boolean;
   };
+
+  // CALL BURDEN POINTS
+  // One scale for every duty, so a year of primary call, jeopardy, HF and clinic can be compared
+  burden: {
+    primary: { weekday: number; friday: number; saturday: number; sunday: number; holiday: number };
+    // Points if the shift is activated; a jeopardy day earns these times activationRisk
+    jeopardy: { weekday: number; weekend: number; holiday: number; activationRisk: number };
+    hf: { weekend: number; holiday: number }; // weekend points are split between Saturday and Sunday
+    clinic: { general: number; special: number };
+    // Primary call and jeopardy generators prefer the fellow with the fewest total points
+    balanceAcrossDuties: boolean;
+  };
 }
 
 export const DEFAULT_SETTINGS: SchedulerSettings = {
@@ -173,6 +227,8 @@ export const DEFAULT_SETTINGS: SchedulerSettings = {
     maxTotalPerBlock: 2,
   },
   
+  blockCalendar: DEFAULT_BLOCK_CALENDAR,
+
   blockRotations: {
     pgy4: {
       lacCathBlocks: 4,
@@ -190,8 +246,8 @@ export const DEFAULT_SETTINGS: SchedulerSettings = {
     },
     pgy5: {
       lacCathBlocks: 4,
-      ccuBlocks: 1,
-      lacConsultBlocks: 1,
+      ccuBlocks: 1,      // Class total 4 (4 of 5 fellows get 1)
+      lacConsultBlocks: 1, // Every non-CCU fellow, topped up to a class total of 4
       hfBlocks: 2,
       keckConsultBlocks: 2,
       echo1Blocks: 0,
@@ -203,21 +259,27 @@ export const DEFAULT_SETTINGS: SchedulerSettings = {
       enforceNonConsecutiveMonths: true,
     },
     pgy6: {
-      lacCathBlocks: 2,  // Variable distribution [2,2,2,1,1]
+      lacCathBlocks: 2,  // Class total 8 spread across cohort ([2,2,2,1,1] for 5 fellows)
       ccuBlocks: 0,      // PGY-6 doesn't do CCU
       lacConsultBlocks: 0, // PGY-6 doesn't do LAC_CONSULT
-      hfBlocks: 1,       // 4 of 5 fellows get 1
-      keckConsultBlocks: 1, // 4 of 5 fellows get 1
+      hfBlocks: 1,       // Class total 4 spread across cohort (4 of 5 fellows get 1)
+      keckConsultBlocks: 1, // Class total 4 spread across cohort (4 of 5 fellows get 1)
       echo1Blocks: 0,    // PGY-6 doesn't do ECHO1
-      echo2Blocks: 2,    // Variable distribution [2,2,2,2,1]
-      epBlocks: 2,       // All 5 fellows get 2
-      nuclearBlocks: 3,  // Variable distribution [3,3,3,3,2]
-      nonInvasiveBlocks: 3, // Variable distribution [3,3,3,3,2]
+      echo2Blocks: 2,    // Class total 9 spread across cohort ([2,2,2,2,1] for 5 fellows)
+      epBlocks: 2,       // Every fellow gets 2
+      nuclearBlocks: 3,  // Class total 14 spread across cohort ([3,3,3,3,2] for 5 fellows)
+      nonInvasiveBlocks: 3, // Class total 14 spread across cohort ([3,3,3,3,2] for 5 fellows)
       electiveBlocks: 8, // Fills remaining blocks
       enforceNonConsecutiveMonths: true,
     },
+    relaxedRules: {},
   },
   
+  rotationCatalog: DEFAULT_ROTATION_CATALOG,
+  
+  trainingRequirements: DEFAULT_TRAINING_REQUIREMENTS,
+  leaveAllowanceDays: 0,
+  
   primaryCall: {
     maxCalls: {
       "PGY-4": 47,
@@ -238,6 +300,23 @@ export const DEFAULT_SETTINGS: SchedulerSettings = {
     excludeEPOnDays: [2, 4],
     noConsecutiveSaturdays: true,
     noPGY6OnHolidayEves: true,
+    fairness: {
+      weights: {
+        total: 1,
+        weekendHoliday: 2,
+        friday: 1,
+        sunday: 1,
+        holiday: 2,
+        heavyRotation: 1,
+      },
+      holidayWeights: {
+        INDEPENDENCE_DAY: 2,
+        THANKSGIVING: 3,
+        CHRISTMAS_DAY: 3,
+        NEW_YEARS_DAY: 2,
+      },
+      heavyRotations: ["CCU", "LAC_CATH", "LAC_CONSULT"],
+    },
   },
   
   jeopardyCall: {
@@ -311,44 +390,38 @@ export const DEFAULT_SETTINGS: SchedulerSettings = {
     rotationPriority: ["NUCLEAR", "NONINVASIVE", "ELECTIVE", "EP"],
     noConsecutiveBlocks: true,
   },
+
+  burden: {
+    primary: { weekday: 1, friday: 1.5, saturday: 2, sunday: 1.5, holiday: 3 },
+    jeopardy: { weekday: 1, weekend: 2, holiday: 3, activationRisk: 0.25 },
+    hf: { weekend: 2.5, holiday: 1.5 },
+    clinic: { general: 0.5, special: 0.5 },
+    balanceAcrossDuties: false,
+  },
 };
 
 const SETTINGS_STORAGE_KEY = "cfsa_settings_v1";
 
+// Missing settings at any depth come from the defaults, so a setting added in a later version never
+// reads as undefined from older saved or imported settings
+export const SETTINGS_SCHEMA: Schema<SchedulerSettings> = {
+  name: "Settings",
+  version: 1,
+  migrations: [],
+  defaults: () => DEFAULT_SETTINGS,
+  keepAsStored: ["blockRotations.relaxedRules"],
+  normalize: (settings) => ({
+    ...settings,
+    rotationCatalog: normalizeRotationCatalog(settings.rotationCatalog),
+    trainingRequirements: normalizeTrainingRequirements(settings.trainingRequirements),
+  }),
+};
+
 export function loadSettings(): SchedulerSettings {
   try {
-    const stored = localStorage.getItem(SETTINGS_STORAGE_KEY);
+    const stored = storage.getItem(SETTINGS_STORAGE_KEY);
     if (!stored) return DEFAULT_SETTINGS;
-    
-    const parsed = JSON.parse(stored) as SchedulerSettings;
-    
-    // Deep merge with defaults to handle missing nested keys
-    return {
-      ...DEFAULT_SETTINGS,
-      ...parsed,
-      clinics: {
-        ...DEFAULT_SETTINGS.clinics,
-        ...parsed.clinics,
-        specialClinics: {
-          heartFailure: {
-            ...DEFAULT_SETTINGS.clinics.specialClinics.heartFailure,
-            ...parsed.clinics?.specialClinics?.heartFailure
-          },
-          achd: {
-            ...DEFAULT_SETTINGS.clinics.specialClinics.achd,
-            ...parsed.clinics?.specialClinics?.achd
-          },
-          device: {
-            ...DEFAULT_SETTINGS.clinics.specialClinics.device,
-            ...parsed.clinics?.specialClinics?.device
-          },
-          ep: {
-            ...DEFAULT_SETTINGS.clinics.specialClinics.ep,
-            ...parsed.clinics?.specialClinics?.ep
-          }
-        }
-      }
-    };
+    return migrateStored(SETTINGS_SCHEMA, SETTINGS_STORAGE_KEY, JSON.parse(stored));
   } catch (error) {
     console.error("Failed to load settings:", error);
     return DEFAULT_SETTINGS;
@@ -357,7 +430,7 @@ export function loadSettings(): SchedulerSettings {
 
 export function saveSettings(settings: SchedulerSettings): void {
   try {
-    localStorage.setItem(SETTINGS_STORAGE_KEY, JSON.stringify(settings));
+    storage.setItem(SETTINGS_STORAGE_KEY, JSON.stringify(settings));
   } catch (error) {
     console.error("Failed to save settings:", error);
   }
@@ -379,18 +452,21 @@ export function exportSettings(settings: SchedulerSettings): void {
   URL.revokeObjectURL(url);
 }
 
-export function importSettings(file: File): Promise<SchedulerSettings> {
+// Older files are migrated to the current version; the report says what changed
+export function importSettings(file: File): Promise<{ settings: SchedulerSettings; report: MigrationReport | null }> {
   return new Promise((resolve, reject) => {
     const reader = new FileReader();
     reader.onload = (e) => {
       try {
-        const settings = JSON.parse(e.target?.result as string) as SchedulerSettings;
+        const parsed = JSON.parse(e.target?.result as string);
         // Basic validation
-        if (!settings.version || settings.version !== 1) {
+        if (!parsed || typeof parsed !== "object" || typeof parsed.version !== "number") {
           reject(new Error("Invalid settings file version"));
           return;
         }
-        resolve(settings);
+        const { value, report } = migrate(SETTINGS_SCHEMA, parsed, file.name);
+        recordMigration(report);
+        resolve({ settings: value, report });
       } catch (error) {
         reject(error);
       }
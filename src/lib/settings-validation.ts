@@ -1,4 +1,5 @@
-import { SchedulerSettings } from "./settings-engine";
+import { SchedulerSettings, type PGY } from "./settings-engine";
+import { fromHalfMonthBlocks, generateAcademicYearBlocks, isHalfMonthCalendar } from "@/lib/block-utils";
 
 export interface ValidationResult {
   valid: boolean;
@@ -21,7 +22,21 @@ export function validateSettings(settings: SchedulerSettings): ValidationResult
     errors.push("Max fellows per block must be at least 1");
   }
 
-  // Block rotation validation (rotation blocks + vacation blocks = 24 total)
+  // Block calendar validation
+  const calendar = settings.blockCalendar;
+  if (calendar.kind === "weeks") {
+    if (!Number.isInteger(calendar.weeks) || calendar.weeks < 1 || calendar.weeks > 8) {
+      errors.push("Block length must be a whole number of weeks between 1 and 8");
+    }
+    if (!/^(0[1-9]|1[0-2])-(0[1-9]|[12]\d|3[01])$/.test(calendar.startDate)) {
+      errors.push("Block calendar start date must be in MM-DD format");
+    }
+  }
+  // The year start does not change the block count, so any year will do
+  const calendarBlocks = generateAcademicYearBlocks(`${new Date().getFullYear()}-07-01`, calendar);
+
+  // Block rotation validation (rotation blocks + vacation blocks = 24 total). The built-in counts are
+  // half-month blocks; on any other calendar they are converted, and only need to leave room for vacations.
   const validateBlockTotal = (pgy: "pgy4" | "pgy5" | "pgy6") => {
     const blocks = settings.blockRotations[pgy];
     let rotationTotal = 
@@ -41,6 +56,17 @@ export function validateSettings(settings: SchedulerSettings): ValidationResult
       rotationTotal += (blocks as typeof settings.blockRotations.pgy5 | typeof settings.blockRotations.pgy6).nonInvasiveBlocks;
     }
     
+    if (!isHalfMonthCalendar(calendarBlocks)) {
+      const converted = Object.entries(blocks)
+        .filter(([key, value]) => key !== "electiveBlocks" && typeof value === "number")
+        .reduce((sum, [, value]) => sum + fromHalfMonthBlocks(value as number, calendarBlocks), 0);
+      const available = calendarBlocks.length - settings.vacation.maxVacationsPerYear;
+      if (converted > available) {
+        errors.push(`${pgy.toUpperCase()} rotations need ${converted} blocks on the ${calendarBlocks.length}-block calendar, but only ${available} are left after ${settings.vacation.maxVacationsPerYear} vacation blocks.`);
+      }
+      return;
+    }
+
     const expectedRotationBlocks = 24 - settings.vacation.maxVacationsPerYear;
     
     if (rotationTotal !== expectedRotationBlocks) {
@@ -52,6 +78,34 @@ export function validateSettings(settings: SchedulerSettings): ValidationResult
   validateBlockTotal("pgy5");
   validateBlockTotal("pgy6");
 
+  // Rotation catalog validation: custom rotations are carved out of each PGY's elective blocks
+  const catalog = settings.rotationCatalog ?? [];
+  const seenIds = new Set<string>();
+  for (const rot of catalog) {
+    if (seenIds.has(rot.id)) errors.push(`Duplicate rotation id: ${rot.id}`);
+    seenIds.add(rot.id);
+    if (!rot.name?.trim()) errors.push(`Rotation ${rot.id} needs a display name`);
+    if (!/^#[0-9a-fA-F]{6}$/.test(rot.color)) errors.push(`Rotation ${rot.id} has an invalid color (${rot.color})`);
+    if (!rot.builtIn && rot.capacityPerBlock < 0) errors.push(`Rotation ${rot.id} capacity per block cannot be negative`);
+  }
+  for (const req of settings.trainingRequirements ?? []) {
+    if (!req.name?.trim()) errors.push("Every training requirement needs a name");
+    if (req.rotations.length === 0) errors.push(`Training requirement "${req.name}" does not count any rotation`);
+    const unknown = req.rotations.filter((id) => !seenIds.has(id));
+    if (unknown.length > 0) warnings.push(`Training requirement "${req.name}" counts unknown rotations: ${unknown.join(", ")}`);
+  }
+  if ((settings.leaveAllowanceDays ?? 0) < 0) errors.push("Leave allowance cannot be negative");
+  (["pgy4", "pgy5", "pgy6"] as const).forEach((key) => {
+    const pgy = key.replace("pgy", "PGY-") as PGY;
+    const customBlocks = catalog
+      .filter((r) => !r.builtIn && r.pgys.includes(pgy))
+      .reduce((sum, r) => sum + (r.blocksPerYear[pgy] || 0), 0);
+    const electiveBlocks = settings.blockRotations[key].electiveBlocks;
+    if (customBlocks > electiveBlocks) {
+      errors.push(`${pgy} custom rotations need ${customBlocks} blocks per fellow but only ${electiveBlocks} elective blocks are available`);
+    }
+  });
+
   // Primary call validation
   if (settings.primaryCall.minSpacingDays < 2 || settings.primaryCall.minSpacingDays > 7) {
     warnings.push("Primary call spacing should typically be between 2 and 7 days");
@@ -64,6 +118,10 @@ export function validateSettings(settings: SchedulerSettings): ValidationResult
     }
   });
 
+  if (Object.values(settings.primaryCall.fairness.weights).some((w) => w < 0)) {
+    errors.push("Fairness weights cannot be negative");
+  }
+
   // Jeopardy validation
   if (settings.jeopardyCall.minSpacingDays < 1 || settings.jeopardyCall.minSpacingDays > 5) {
     warnings.push("Jeopardy spacing should typically be between 1 and 5 days");
@@ -90,6 +148,23 @@ export function validateSettings(settings: SchedulerSettings): ValidationResult
     warnings.push("Ambulatory block length should typically be 1-4 weeks");
   }
 
+  // Burden points validation
+  const { burden } = settings;
+  const points = [
+    ...Object.values(burden.primary),
+    burden.jeopardy.weekday,
+    burden.jeopardy.weekend,
+    burden.jeopardy.holiday,
+    ...Object.values(burden.hf),
+    ...Object.values(burden.clinic),
+  ];
+  if (points.some((p) => p < 0)) {
+    errors.push("Burden points cannot be negative");
+  }
+  if (burden.jeopardy.activationRisk < 0 || burden.jeopardy.activationRisk > 1) {
+    errors.push("Jeopardy activation risk must be between 0 and 1");
+  }
+
   return {
     valid: errors.length === 0,
     errors,
@@ -0,0 +1,283 @@
+import { addDays, format, parseISO } from "date-fns";
+import JSZip from "jszip";
+import { academicYearWindow, generateAcademicYearBlocks } from "@/lib/block-utils";
+import { type Fellow, type PGY, type SetupState, type StoredSchedule } from "@/lib/schedule-engine";
+import { type SchedulerSettings } from "@/lib/settings-engine";
+import { type CallSchedule } from "@/lib/call-engine";
+import { getEffectiveHFAssignment, type HFSchedule } from "@/lib/hf-engine";
+import { type JeopardySchedule } from "@/lib/jeopardy-engine";
+import { type ClinicSchedule, type ClinicType } from "@/lib/clinic-engine";
+import { type Rotation } from "@/lib/rotation-engine";
+import { getRotationDisplayName } from "@/lib/rotation-utils";
+import { type ArchivedYear } from "@/lib/academic-year-engine";
+import { createScheduleContext, type ScheduleContext } from "@/lib/schedule-context";
+import { migrateSnapshotData, type ScheduleSnapshot } from "@/lib/snapshot-engine";
+
+export type DiffArea = "rotation" | "primary" | "jeopardy" | "hf" | "clinic" | "ambulatory";
+
+// One slot whose holder changed. Duty slots hold fellow ids; rotation slots belong to one fellow and
+// hold rotation names. Consecutive days with the same change are merged into one range.
+export type AssignmentChange = {
+  area: DiffArea;
+  start: string; // ISO date
+  end: string; // ISO date, inclusive
+  label: string; // e.g. "Primary call", "EP clinic", "Block JUL1 (Jul 1–15)"
+  before: string | null;
+  after: string | null;
+  fellowIds: string[]; // fellows the change affects
+};
+
+export type SettingChange = { path: string; before: unknown; after: unknown };
+
+export type ScheduleDiff = {
+  changes: AssignmentChange[];
+  settings: SettingChange[];
+  fellows: Fellow[]; // everyone on either side, for names
+  addedFellows: string[];
+  removedFellows: string[];
+};
+
+export const DIFF_AREA_LABELS: Record<DiffArea, string> = {
+  rotation: "Rotation",
+  primary: "Primary call",
+  jeopardy: "Jeopardy",
+  hf: "HF coverage",
+  clinic: "Clinic",
+  ambulatory: "Ambulatory",
+};
+
+const CLINIC_NAMES: Record<ClinicType, string> = {
+  GENERAL: "General clinic",
+  HEART_FAILURE: "Heart failure clinic",
+  ACHD: "ACHD clinic",
+  DEVICE: "Device clinic",
+  EP: "EP clinic",
+};
+
+const PGYS: PGY[] = ["PGY-4", "PGY-5", "PGY-6"];
+
+const toISO = (d: Date) => format(d, "yyyy-MM-dd");
+
+// Engines read snapshots the same way they read storage, migrated to the current format first
+export function snapshotDataContext(raw: ScheduleSnapshot["data"]): ScheduleContext {
+  const { data } = migrateSnapshotData(raw, "compare");
+  const blocks = (data.blocks ?? {}) as Partial<Record<PGY, StoredSchedule>>;
+  return createScheduleContext({
+    setup: (data.setup as SetupState | null) ?? null,
+    settings: data.settings,
+    schedules: { "PGY-4": blocks["PGY-4"] ?? null, "PGY-5": blocks["PGY-5"] ?? null, "PGY-6": blocks["PGY-6"] ?? null },
+    callSchedule: (data.calls as CallSchedule | null) ?? null,
+    hfSchedule: (data.hf as HFSchedule | null) ?? null,
+    jeopardySchedule: (data.jeopardy as JeopardySchedule | null) ?? null,
+    clinicSchedule: (data.clinics as ClinicSchedule | null) ?? null,
+    archivedYears: (data.years as ArchivedYear[] | null) ?? [],
+  });
+}
+
+function yearDays(yearStartISO: string, yearEndISO?: string): string[] {
+  return academicYearWindow(yearStartISO, yearEndISO).days.map(toISO);
+}
+
+function rotationChanges(before: ScheduleContext, after: ScheduleContext, fellowIds: string[]): AssignmentChange[] {
+  const setup = after.setup ?? before.setup;
+  if (!setup?.yearStart) return [];
+  const pgyOf = (ctx: ScheduleContext, id: string) => ctx.setup?.fellows.find((f) => f.id === id)?.pgy;
+  const rotationOf = (ctx: ScheduleContext, id: string, blockKey: string) => {
+    const pgy = pgyOf(ctx, id);
+    const rotation = pgy ? ctx.schedules[pgy]?.byFellow?.[id]?.[blockKey] : undefined;
+    return rotation ? getRotationDisplayName(rotation as Rotation, ctx.settings.rotationCatalog) : null;
+  };
+
+  const changes: AssignmentChange[] = [];
+  for (const block of generateAcademicYearBlocks(setup.yearStart, after.settings.blockCalendar, setup.yearEnd)) {
+    for (const id of fellowIds) {
+      const was = rotationOf(before, id, block.key);
+      const now = rotationOf(after, id, block.key);
+      if (was === now) continue;
+      changes.push({
+        area: "rotation",
+        start: block.start,
+        end: block.end,
+        label: `Block ${block.key} (${block.label})`,
+        before: was,
+        after: now,
+        fellowIds: [id],
+      });
+    }
+  }
+  return changes;
+}
+
+// Who holds each clinic type on a day
+function clinicHolders(ctx: ScheduleContext, day: string): Map<ClinicType, Set<string>> {
+  const holders = new Map<ClinicType, Set<string>>();
+  for (const clinic of ctx.clinicSchedule?.days[day] ?? []) {
+    if (!holders.has(clinic.clinicType)) holders.set(clinic.clinicType, new Set());
+    holders.get(clinic.clinicType)!.add(clinic.fellowId);
+  }
+  return holders;
+}
+
+function dutyChange(area: DiffArea, day: string, label: string, was: string | null, now: string | null): AssignmentChange {
+  return {
+    area,
+    start: day,
+    end: day,
+    label,
+    before: was,
+    after: now,
+    fellowIds: [was, now].filter((id): id is string => !!id),
+  };
+}
+
+function dailyChanges(before: ScheduleContext, after: ScheduleContext): AssignmentChange[] {
+  const days = new Set<string>();
+  for (const ctx of [before, after]) {
+    if (ctx.setup?.yearStart) yearDays(ctx.setup.yearStart, ctx.setup.yearEnd).forEach((d) => days.add(d));
+  }
+
+  const changes: AssignmentChange[] = [];
+  for (const day of [...days].sort()) {
+    const compare = (area: DiffArea, label: string, was: string | null | undefined, now: string | null | undefined) => {
+      if ((was ?? null) !== (now ?? null)) changes.push(dutyChange(area, day, label, was ?? null, now ?? null));
+    };
+    compare("primary", "Primary call", before.callSchedule?.days[day], after.callSchedule?.days[day]);
+    compare("jeopardy", "Jeopardy", before.jeopardySchedule?.days[day], after.jeopardySchedule?.days[day]);
+    // Effective holder, so a day override counts the same as a weekend or holiday assignment
+    compare("hf", "HF coverage", getEffectiveHFAssignment(day, before.hfSchedule), getEffectiveHFAssignment(day, after.hfSchedule));
+    compare(
+      "ambulatory",
+      "Ambulatory fellow",
+      before.clinicSchedule?.ambulatoryAssignments?.[day],
+      after.clinicSchedule?.ambulatoryAssignments?.[day],
+    );
+
+    // A clinic can seat several fellows; pair whoever left with whoever joined
+    const was = clinicHolders(before, day);
+    const now = clinicHolders(after, day);
+    for (const type of Object.keys(CLINIC_NAMES) as ClinicType[]) {
+      const left = [...(was.get(type) ?? [])].filter((id) => !now.get(type)?.has(id));
+      const joined = [...(now.get(type) ?? [])].filter((id) => !was.get(type)?.has(id));
+      for (let i = 0; i < Math.max(left.length, joined.length); i++) {
+        changes.push(dutyChange("clinic", day, CLINIC_NAMES[type], left[i] ?? null, joined[i] ?? null));
+      }
+    }
+  }
+  return changes;
+}
+
+// A weekend or an ambulatory block that moved reads as one change, not one per day
+function mergeRanges(changes: AssignmentChange[]): AssignmentChange[] {
+  const merged: AssignmentChange[] = [];
+  const open = new Map<string, AssignmentChange>();
+  for (const change of changes) {
+    const key = `${change.area}|${change.label}|${change.before}|${change.after}`;
+    const last = open.get(key);
+    if (last && toISO(addDays(parseISO(last.end), 1)) === change.start) {
+      last.end = change.end;
+      continue;
+    }
+    const copy = { ...change };
+    open.set(key, copy);
+    merged.push(copy);
+  }
+  return merged;
+}
+
+function flatten(value: unknown, path: string, out: Map<string, unknown>): void {
+  if (value && typeof value === "object" && !Array.isArray(value)) {
+    for (const [key, child] of Object.entries(value)) flatten(child, path ? `${path}.${key}` : key, out);
+  } else {
+    out.set(path, value);
+  }
+}
+
+export function diffSettings(before: SchedulerSettings | null, after: SchedulerSettings | null): SettingChange[] {
+  const was = new Map<string, unknown>();
+  const now = new Map<string, unknown>();
+  flatten(before ?? {}, "", was);
+  flatten(after ?? {}, "", now);
+  const paths = [...new Set([...was.keys(), ...now.keys()])].sort();
+  return paths
+    .filter((path) => JSON.stringify(was.get(path)) !== JSON.stringify(now.get(path)))
+    .map((path) => ({ path, before: was.get(path), after: now.get(path) }));
+}
+
+// Everything that differs between two versions of the schedule, `before` being the older one
+export function diffSchedules(before: ScheduleContext, after: ScheduleContext): ScheduleDiff {
+  const wasIds = new Set((before.setup?.fellows ?? []).map((f) => f.id));
+  const nowIds = new Set((after.setup?.fellows ?? []).map((f) => f.id));
+  const fellows = [...(after.setup?.fellows ?? []), ...(before.setup?.fellows ?? []).filter((f) => !nowIds.has(f.id))];
+
+  const changes = [
+    ...rotationChanges(before, after, fellows.map((f) => f.id)),
+    ...mergeRanges(dailyChanges(before, after)),
+  ].sort((a, b) => a.start.localeCompare(b.start) || a.area.localeCompare(b.area) || a.label.localeCompare(b.label));
+
+  return {
+    changes,
+    settings: diffSettings(before.settings, after.settings),
+    fellows,
+    addedFellows: [...nowIds].filter((id) => !wasIds.has(id)),
+    removedFellows: [...wasIds].filter((id) => !nowIds.has(id)),
+  };
+}
+
+export function diffSnapshotData(before: ScheduleSnapshot["data"], after: ScheduleSnapshot["data"]): ScheduleDiff {
+  return diffSchedules(snapshotDataContext(before), snapshotDataContext(after));
+}
+
+export function fellowChanges(diff: ScheduleDiff, fellowId: string): AssignmentChange[] {
+  return diff.changes.filter((c) => c.fellowIds.includes(fellowId));
+}
+
+export function formatDateRange(start: string, end: string): string {
+  const from = format(parseISO(start), "EEE MMM d, yyyy");
+  return start === end ? from : `${from} – ${format(parseISO(end), "EEE MMM d, yyyy")}`;
+}
+
+// How one change reads to the fellow it affects
+export function describeChangeFor(change: AssignmentChange, fellowId: string, name: (id: string) => string): string {
+  const when = formatDateRange(change.start, change.end);
+  if (change.area === "rotation") {
+    return `${change.label}: ${change.before ?? "nothing"} → ${change.after ?? "nothing"}`;
+  }
+  if (change.after === fellowId) {
+    return `${change.label}, ${when}: now yours${change.before ? ` (was ${name(change.before)})` : ""}`;
+  }
+  return `${change.label}, ${when}: no longer yours${change.after ? ` (now ${name(change.after)})` : ""}`;
+}
+
+export function fellowChangeSummary(
+  diff: ScheduleDiff,
+  fellowId: string,
+  titles: { before: string; after: string },
+): string {
+  const fellows = new Map(diff.fellows.map((f) => [f.id, f]));
+  const name = (id: string) => fellows.get(id)?.name || id;
+  const changes = fellowChanges(diff, fellowId);
+  const lines = [`Schedule changes for ${name(fellowId)}`, `From "${titles.before}" to "${titles.after}"`, ""];
+  if (changes.length === 0) lines.push("No changes affect you.");
+  for (const change of changes) lines.push(`- ${describeChangeFor(change, fellowId, name)}`);
+  return `${lines.join("\n")}\n`;
+}
+
+export function changeSummaryFileName(fellow: Fellow): string {
+  const slug = (fellow.name || fellow.id).replace(/[^A-Za-z0-9]+/g, "-").replace(/^-|-$/g, "").toLowerCase();
+  return `changes-${slug || fellow.id}.txt`;
+}
+
+// One summary per affected fellow; fellows with no changes are left out
+export async function buildChangeSummaryZip(diff: ScheduleDiff, titles: { before: string; after: string }): Promise<Blob> {
+  const zip = new JSZip();
+  for (const fellow of diff.fellows) {
+    if (fellowChanges(diff, fellow.id).length === 0) continue;
+    zip.file(changeSummaryFileName(fellow), fellowChangeSummary(diff, fellow.id, titles));
+  }
+  return zip.generateAsync({ type: "blob" });
+}
+
+// Fellows' PGY years on either side, in display order
+export function diffFellowsByPGY(diff: ScheduleDiff): Fellow[] {
+  return PGYS.flatMap((pgy) => diff.fellows.filter((f) => f.pgy === pgy));
+}
@@ -1,4 +1,24 @@
-import { SchedulerSettings, DEFAULT_SETTINGS } from "./settings-engine";
+import { SchedulerSettings, DEFAULT_SETTINGS, SETTINGS_SCHEMA } from "./settings-engine";
+import { SETUP_SCHEMA, STORED_SCHEDULE_SCHEMA } from "@/lib/schedule-engine";
+import { CALL_SCHEDULE_SCHEMA } from "@/lib/call-engine";
+import { HF_SCHEDULE_SCHEMA } from "@/lib/hf-engine";
+import { JEOPARDY_SCHEDULE_SCHEMA } from "@/lib/jeopardy-engine";
+import { CLINIC_SCHEDULE_SCHEMA } from "@/lib/clinic-engine";
+import { migrate, recordMigration, type MigrationReport, type Schema } from "@/lib/migration-engine";
+import { labelEdit, recordWrite } from "@/lib/history-engine";
+import { logTradeReplay } from "@/lib/trade-engine";
+import {
+  decodeJSON,
+  deleteRecords,
+  encodeJSON,
+  estimateStorage,
+  readRecord,
+  readRecords,
+  SNAPSHOT_STORE,
+  storage,
+  writeRecords,
+  type EncodedPayload,
+} from "@/lib/storage-engine";
 
 // Storage keys to capture
 const STORAGE_KEYS = {
@@ -10,10 +30,14 @@ const STORAGE_KEYS = {
   jeopardy: "cfsa_jeopardy_v1",
   clinics: "cfsa_clinics_v1",
   settings: "cfsa_settings_v1",
+  years: "cfsa_years_v1",
+  pins: "cfsa_pins_v1",
+  tradeRequests: "cfsa_trade_requests_v1",
+  tradeLog: "cfsa_trade_log_v1",
 } as const;
 
-const SNAPSHOTS_KEY = "cfsa_snapshots_v1";
-const MAX_AUTO_SAVES = 5;
+// Snapshots are stored compressed, so plenty of auto-saves fit before the oldest are dropped
+const MAX_AUTO_SAVES = 50;
 
 export interface SnapshotStats {
   fellowCount: number;
@@ -30,6 +54,7 @@ export interface SnapshotStats {
 }
 
 export interface ScheduleSnapshot {
+  version?: 1;
   id: string;
   name: string;
   description?: string;
@@ -46,28 +71,37 @@ export interface ScheduleSnapshot {
     jeopardy: unknown;
     clinics: unknown;
     settings: SchedulerSettings;
+    years?: unknown; // archived academic years; absent in snapshots taken before multi-year support
+    // Absent in snapshots taken before pins and trades were captured
+    pins?: unknown;
+    tradeRequests?: unknown;
+    tradeLog?: unknown; // the log when the snapshot was taken; restoring never rewrites the current one
   };
 }
 
+// A snapshot without its schedule data, which is only unpacked to restore, compare or export it
+export type SnapshotInfo = Omit<ScheduleSnapshot, "data">;
+
+// As stored: the data compressed, or inline in snapshots saved before compression
+type StoredSnapshot = SnapshotInfo & Partial<EncodedPayload> & { data?: ScheduleSnapshot["data"] };
+
 function generateId(): string {
   return crypto.randomUUID();
 }
 
+// Throws when the saved value cannot be parsed, rather than capturing it as missing
 function getStorageItem(key: string): unknown {
+  const item = storage.getItem(key);
   try {
-    const item = localStorage.getItem(key);
     return item ? JSON.parse(item) : null;
-  } catch {
-    return null;
+  } catch (e) {
+    throw new Error(`Saved data for ${key} could not be read: ${e instanceof Error ? e.message : String(e)}`);
   }
 }
 
+// Failed writes are reported by the storage layer
 function setStorageItem(key: string, value: unknown): void {
-  try {
-    localStorage.setItem(key, JSON.stringify(value));
-  } catch (e) {
-    console.error(`Failed to save ${key}:`, e);
-  }
+  storage.setItem(key, JSON.stringify(value));
 }
 
 export function captureCurrentSchedule(): ScheduleSnapshot["data"] {
@@ -80,6 +114,10 @@ export function captureCurrentSchedule(): ScheduleSnapshot["data"] {
     jeopardy: getStorageItem(STORAGE_KEYS.jeopardy),
     clinics: getStorageItem(STORAGE_KEYS.clinics),
     settings: (getStorageItem(STORAGE_KEYS.settings) as SchedulerSettings) || DEFAULT_SETTINGS,
+    years: getStorageItem(STORAGE_KEYS.years),
+    pins: getStorageItem(STORAGE_KEYS.pins),
+    tradeRequests: getStorageItem(STORAGE_KEYS.tradeRequests),
+    tradeLog: getStorageItem(STORAGE_KEYS.tradeLog),
   };
 }
 
@@ -149,29 +187,85 @@ export function calculateSnapshotStats(data: ScheduleSnapshot["data"]): Snapshot
   };
 }
 
-export function loadSnapshots(): ScheduleSnapshot[] {
-  try {
-    const item = localStorage.getItem(SNAPSHOTS_KEY);
-    return item ? JSON.parse(item) : [];
-  } catch {
-    return [];
-  }
+const SNAPSHOT_SCHEMA: Schema<ScheduleSnapshot> = {
+  name: "Snapshot",
+  version: 1,
+  migrations: [{ to: 1, description: "Add a format version to the snapshot", up: (snapshot) => snapshot }],
+};
+
+// Each part of a snapshot is migrated by its own schema, so an old snapshot restores, compares and
+// imports as current data
+export function migrateSnapshotData(
+  data: ScheduleSnapshot["data"],
+  source: string
+): { data: ScheduleSnapshot["data"]; reports: MigrationReport[] } {
+  const reports: MigrationReport[] = [];
+  const run = <T,>(schema: Schema<T>, value: unknown, part: string): T | null => {
+    if (value === null || value === undefined) return null;
+    const result = migrate(schema, value, `${source} (${part})`);
+    if (result.report) reports.push(result.report);
+    return result.value;
+  };
+
+  const blocks = data.blocks as Record<string, unknown> | null;
+  const migrated: ScheduleSnapshot["data"] = {
+    ...data,
+    setup: run(SETUP_SCHEMA, data.setup, "setup"),
+    blocks: blocks
+      ? Object.fromEntries(Object.entries(blocks).map(([pgy, s]) => [pgy, run(STORED_SCHEDULE_SCHEMA, s, `blocks ${pgy}`)]))
+      : null,
+    calls: run(CALL_SCHEDULE_SCHEMA, data.calls, "primary call"),
+    hf: run(HF_SCHEDULE_SCHEMA, data.hf, "HF"),
+    jeopardy: run(JEOPARDY_SCHEDULE_SCHEMA, data.jeopardy, "jeopardy"),
+    clinics: run(CLINIC_SCHEDULE_SCHEMA, data.clinics, "clinics"),
+    settings: run(SETTINGS_SCHEMA, data.settings ?? DEFAULT_SETTINGS, "settings")!,
+  };
+  return { data: migrated, reports };
+}
+
+// Throws NewerVersionError for snapshots written by a newer version of the app
+function migrateSnapshot(snapshot: ScheduleSnapshot, source: string): { snapshot: ScheduleSnapshot; reports: MigrationReport[] } {
+  const { value, report } = migrate(SNAPSHOT_SCHEMA, snapshot, source);
+  const { data, reports } = migrateSnapshotData(value.data, source);
+  return { snapshot: { ...value, data }, reports: report ? [report, ...reports] : reports };
 }
 
-function saveSnapshots(snapshots: ScheduleSnapshot[]): void {
-  setStorageItem(SNAPSHOTS_KEY, snapshots);
+function toInfo({ version, id, name, description, createdAt, updatedAt, autoSaved, stats }: StoredSnapshot): SnapshotInfo {
+  return { version, id, name, description, createdAt, updatedAt, autoSaved, stats };
 }
 
-export function saveSnapshot(
+async function toStored(snapshot: ScheduleSnapshot): Promise<StoredSnapshot> {
+  const { data, ...info } = snapshot;
+  return { ...info, ...(await encodeJSON(data)) };
+}
+
+async function fromStored(record: StoredSnapshot): Promise<{ snapshot: ScheduleSnapshot; reports: MigrationReport[] }> {
+  const data = record.data ?? (await decodeJSON<ScheduleSnapshot["data"]>({ encoding: record.encoding!, payload: record.payload! }));
+  return migrateSnapshot({ ...toInfo(record), data }, `snapshot "${record.name}"`);
+}
+
+// Rejects when the saved snapshots cannot be read
+export async function loadSnapshots(): Promise<SnapshotInfo[]> {
+  return (await readRecords<StoredSnapshot>(SNAPSHOT_STORE)).map(toInfo);
+}
+
+export async function loadSnapshot(id: string): Promise<ScheduleSnapshot | null> {
+  const record = await readRecord<StoredSnapshot>(SNAPSHOT_STORE, id);
+  return record ? (await fromStored(record)).snapshot : null;
+}
+
+// Rejects when the snapshot could not be stored, e.g. when browser storage is full
+export async function saveSnapshot(
   name: string,
   description?: string,
   autoSaved: boolean = false
-): ScheduleSnapshot {
+): Promise<SnapshotInfo> {
   const data = captureCurrentSchedule();
   const stats = calculateSnapshotStats(data);
   const now = new Date().toISOString();
 
   const snapshot: ScheduleSnapshot = {
+    version: 1,
     id: generateId(),
     name,
     description,
@@ -182,165 +276,176 @@ export function saveSnapshot(
     data,
   };
 
-  const snapshots = loadSnapshots();
+  await writeRecords(SNAPSHOT_STORE, [await toStored(snapshot)]);
 
   // If auto-save, prune old auto-saves
   if (autoSaved) {
-    const autoSaves = snapshots.filter((s) => s.autoSaved);
-    if (autoSaves.length >= MAX_AUTO_SAVES) {
-      // Remove oldest auto-saves
-      const sortedAutoSaves = autoSaves.sort(
-        (a, b) => new Date(a.createdAt).getTime() - new Date(b.createdAt).getTime()
-      );
-      const toRemove = sortedAutoSaves.slice(0, autoSaves.length - MAX_AUTO_SAVES + 1);
-      const idsToRemove = new Set(toRemove.map((s) => s.id));
-      const filtered = snapshots.filter((s) => !idsToRemove.has(s.id));
-      filtered.push(snapshot);
-      saveSnapshots(filtered);
-      return snapshot;
+    const autoSaves = (await loadSnapshots())
+      .filter((s) => s.autoSaved)
+      .sort((a, b) => new Date(a.createdAt).getTime() - new Date(b.createdAt).getTime());
+    if (autoSaves.length > MAX_AUTO_SAVES) {
+      await deleteRecords(SNAPSHOT_STORE, autoSaves.slice(0, autoSaves.length - MAX_AUTO_SAVES).map((s) => s.id));
     }
   }
 
-  snapshots.push(snapshot);
-  saveSnapshots(snapshots);
-  return snapshot;
+  return toInfo(snapshot);
 }
 
-export function restoreSnapshot(id: string): boolean {
-  const snapshots = loadSnapshots();
-  const snapshot = snapshots.find((s) => s.id === id);
+export async function restoreSnapshot(id: string): Promise<boolean> {
+  const record = await readRecord<StoredSnapshot>(SNAPSHOT_STORE, id);
 
-  if (!snapshot) return false;
+  if (!record) return false;
 
+  // The restored data is current, so report what was upgraded on the way
+  const { snapshot, reports } = await fromStored(record);
+  reports.forEach(recordMigration);
   const { data } = snapshot;
 
-  // Restore all data to localStorage
+  labelEdit(`Restore "${snapshot.name}"`);
+  // The trade log is append-only and stays out of the history
+  for (const key of Object.values(STORAGE_KEYS)) if (key !== STORAGE_KEYS.tradeLog) recordWrite(key, "snapshot");
+
+  // Restore all data to storage
   if (data.setup !== null) setStorageItem(STORAGE_KEYS.setup, data.setup);
-  else localStorage.removeItem(STORAGE_KEYS.setup);
+  else storage.removeItem(STORAGE_KEYS.setup);
 
   if (data.blocks !== null) setStorageItem(STORAGE_KEYS.blocks, data.blocks);
-  else localStorage.removeItem(STORAGE_KEYS.blocks);
+  else storage.removeItem(STORAGE_KEYS.blocks);
 
   if (data.calls !== null) setStorageItem(STORAGE_KEYS.calls, data.calls);
-  else localStorage.removeItem(STORAGE_KEYS.calls);
+  else storage.removeItem(STORAGE_KEYS.calls);
 
   if (data.callsMetadata !== null) setStorageItem(STORAGE_KEYS.callsMetadata, data.callsMetadata);
-  else localStorage.removeItem(STORAGE_KEYS.callsMetadata);
+  else storage.removeItem(STORAGE_KEYS.callsMetadata);
 
   if (data.hf !== null) setStorageItem(STORAGE_KEYS.hf, data.hf);
-  else localStorage.removeItem(STORAGE_KEYS.hf);
+  else storage.removeItem(STORAGE_KEYS.hf);
 
   if (data.jeopardy !== null) setStorageItem(STORAGE_KEYS.jeopardy, data.jeopardy);
-  else localStorage.removeItem(STORAGE_KEYS.jeopardy);
+  else storage.removeItem(STORAGE_KEYS.jeopardy);
 
   if (data.clinics !== null) setStorageItem(STORAGE_KEYS.clinics, data.clinics);
-  else localStorage.removeItem(STORAGE_KEYS.clinics);
+  else storage.removeItem(STORAGE_KEYS.clinics);
 
   setStorageItem(STORAGE_KEYS.settings, data.settings);
 
+  // Older snapshots have no archive; keep the current one rather than wiping history
+  if (data.years !== undefined) {
+    if (data.years !== null) setStorageItem(STORAGE_KEYS.years, data.years);
+    else storage.removeItem(STORAGE_KEYS.years);
+  }
+
+  // Pins belong to the schedules they pin. Older snapshots have none, and the current ones would force
+  // stale assignments onto the restored schedules, so they are cleared.
+  if (data.pins) setStorageItem(STORAGE_KEYS.pins, data.pins);
+  else storage.removeItem(STORAGE_KEYS.pins);
+
+  // Requests follow the schedules. Trades approved since the snapshot are logged as reversed, and any
+  // approved in it but since undone as applied again, rather than rewriting the log.
+  if (data.tradeRequests !== undefined) {
+    const current = storage.getItem(STORAGE_KEYS.tradeRequests);
+    if (data.tradeRequests !== null) setStorageItem(STORAGE_KEYS.tradeRequests, data.tradeRequests);
+    else storage.removeItem(STORAGE_KEYS.tradeRequests);
+    logTradeReplay(current, storage.getItem(STORAGE_KEYS.tradeRequests));
+  }
+
   return true;
 }
 
-export function deleteSnapshot(id: string): void {
-  const snapshots = loadSnapshots();
-  const filtered = snapshots.filter((s) => s.id !== id);
-  saveSnapshots(filtered);
+export async function deleteSnapshot(id: string): Promise<void> {
+  await deleteRecords(SNAPSHOT_STORE, [id]);
 }
 
-export function renameSnapshot(id: string, name: string, description?: string): void {
-  const snapshots = loadSnapshots();
-  const snapshot = snapshots.find((s) => s.id === id);
+export async function renameSnapshot(id: string, name: string, description?: string): Promise<void> {
+  const record = await readRecord<StoredSnapshot>(SNAPSHOT_STORE, id);
 
-  if (snapshot) {
-    snapshot.name = name;
-    snapshot.description = description;
-    snapshot.updatedAt = new Date().toISOString();
-    saveSnapshots(snapshots);
+  if (record) {
+    await writeRecords(SNAPSHOT_STORE, [{ ...record, name, description, updatedAt: new Date().toISOString() }]);
   }
 }
 
-export function exportSnapshot(id: string): void {
-  const snapshots = loadSnapshots();
-  const snapshot = snapshots.find((s) => s.id === id);
-
-  if (!snapshot) return;
-
-  const blob = new Blob([JSON.stringify(snapshot, null, 2)], { type: "application/json" });
+function downloadJSON(value: unknown, fileName: string): void {
+  const blob = new Blob([JSON.stringify(value, null, 2)], { type: "application/json" });
   const url = URL.createObjectURL(blob);
   const a = document.createElement("a");
   a.href = url;
-  a.download = `schedule-snapshot-${snapshot.name.replace(/\s+/g, "-").toLowerCase()}-${
-    snapshot.createdAt.split("T")[0]
-  }.json`;
+  a.download = fileName;
   document.body.appendChild(a);
   a.click();
   document.body.removeChild(a);
   URL.revokeObjectURL(url);
 }
 
-export function exportAllSnapshots(): void {
-  const snapshots = loadSnapshots();
-  if (snapshots.length === 0) return;
+// Exports are plain JSON, readable by older versions of the app
+export async function exportSnapshot(id: string): Promise<void> {
+  const snapshot = await loadSnapshot(id);
 
-  const blob = new Blob([JSON.stringify(snapshots, null, 2)], { type: "application/json" });
-  const url = URL.createObjectURL(blob);
-  const a = document.createElement("a");
-  a.href = url;
-  a.download = `all-schedule-snapshots-${new Date().toISOString().split("T")[0]}.json`;
-  document.body.appendChild(a);
-  a.click();
-  document.body.removeChild(a);
-  URL.revokeObjectURL(url);
+  if (!snapshot) return;
+
+  downloadJSON(
+    snapshot,
+    `schedule-snapshot-${snapshot.name.replace(/\s+/g, "-").toLowerCase()}-${snapshot.createdAt.split("T")[0]}.json`
+  );
 }
 
-export async function importSnapshot(file: File): Promise<ScheduleSnapshot> {
-  return new Promise((resolve, reject) => {
-    const reader = new FileReader();
+export async function exportAllSnapshots(): Promise<void> {
+  const records = await readRecords<StoredSnapshot>(SNAPSHOT_STORE);
+  if (records.length === 0) return;
 
-    reader.onload = (e) => {
-      try {
-        const content = e.target?.result as string;
-        const imported = JSON.parse(content);
-
-        // Check if it's an array (multiple snapshots) or single
-        if (Array.isArray(imported)) {
-          const snapshots = loadSnapshots();
-          const existingIds = new Set(snapshots.map((s) => s.id));
-
-          for (const snap of imported) {
-            if (!existingIds.has(snap.id) && isValidSnapshot(snap)) {
-              snapshots.push(snap);
-            }
-          }
-
-          saveSnapshots(snapshots);
-          resolve(imported[0]);
-        } else if (isValidSnapshot(imported)) {
-          // Single snapshot - assign new ID to avoid conflicts
-          const snapshot: ScheduleSnapshot = {
-            ...imported,
-            id: generateId(),
-            createdAt: imported.createdAt || new Date().toISOString(),
-            updatedAt: new Date().toISOString(),
-          };
-
-          const snapshots = loadSnapshots();
-          snapshots.push(snapshot);
-          saveSnapshots(snapshots);
-          resolve(snapshot);
-        } else {
-          reject(new Error("Invalid snapshot format"));
-        }
-      } catch {
-        reject(new Error("Failed to parse snapshot file"));
-      }
-    };
+  const snapshots = (await Promise.all(records.map(fromStored))).map((r) => r.snapshot);
+  downloadJSON(snapshots, `all-schedule-snapshots-${new Date().toISOString().split("T")[0]}.json`);
+}
 
+function readFile(file: File): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = (e) => resolve(e.target?.result as string);
     reader.onerror = () => reject(new Error("Failed to read file"));
     reader.readAsText(file);
   });
 }
 
+export async function importSnapshot(file: File): Promise<SnapshotInfo> {
+  const content = await readFile(file);
+
+  let imported: unknown;
+  try {
+    imported = JSON.parse(content);
+  } catch {
+    throw new Error("Failed to parse snapshot file");
+  }
+
+  // Check if it's an array (multiple snapshots) or single
+  if (Array.isArray(imported)) {
+    const existingIds = new Set((await loadSnapshots()).map((s) => s.id));
+    const added = (imported.filter((snap) => isValidSnapshot(snap) && !existingIds.has(snap.id)) as ScheduleSnapshot[]).map(
+      (snap) => {
+        const { snapshot, reports } = migrateSnapshot({ ...snap, id: snap.id || generateId() }, file.name);
+        reports.forEach(recordMigration);
+        return snapshot;
+      }
+    );
+    await writeRecords(SNAPSHOT_STORE, await Promise.all(added.map(toStored)));
+    return imported[0];
+  }
+
+  if (!isValidSnapshot(imported)) throw new Error("Invalid snapshot format");
+
+  // Single snapshot - assign new ID to avoid conflicts
+  const { snapshot, reports } = migrateSnapshot(
+    {
+      ...imported,
+      id: generateId(),
+      createdAt: imported.createdAt || new Date().toISOString(),
+      updatedAt: new Date().toISOString(),
+    },
+    file.name
+  );
+  reports.forEach(recordMigration);
+  await writeRecords(SNAPSHOT_STORE, [await toStored(snapshot)]);
+  return toInfo(snapshot);
+}
+
 function isValidSnapshot(obj: unknown): obj is ScheduleSnapshot {
   if (!obj || typeof obj !== "object") return false;
   const snap = obj as Record<string, unknown>;
@@ -351,18 +456,6 @@ function isValidSnapshot(obj: unknown): obj is ScheduleSnapshot {
   );
 }
 
-export function getStorageUsage(): { used: number; total: number; percentage: number } {
-  let used = 0;
-  for (const key in localStorage) {
-    if (localStorage.hasOwnProperty(key)) {
-      used += localStorage.getItem(key)?.length ?? 0;
-    }
-  }
-  // localStorage limit is typically ~5MB (5,242,880 bytes)
-  const total = 5 * 1024 * 1024;
-  return {
-    used,
-    total,
-    percentage: Math.round((used / total) * 100),
-  };
+export function getStorageUsage(): Promise<{ used: number; total: number; percentage: number }> {
+  return estimateStorage();
 }
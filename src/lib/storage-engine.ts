@@ -0,0 +1,351 @@
+// Persistence for everything the app saves. Engines read and write synchronously against an in-memory
+// copy that initStorage loads from IndexedDB before the app renders; each write is then saved in the
+// background, and a failed save is reported to subscribeStorageErrors listeners rather than lost (errors
+// reported before anyone listens, e.g. while initStorage runs, are held for the first listener).
+// Without IndexedDB (an old browser, a worker, a test run) the same calls go straight to localStorage.
+
+export type StorageBackend = "indexeddb" | "localstorage";
+
+export type StorageError = {
+  keys: string[];
+  message: string;
+  quotaExceeded: boolean;
+};
+
+// Compressed JSON as stored: gzip bytes in base64, or plain JSON where the browser cannot compress
+export type EncodedPayload = { encoding: "gzip-base64" | "json"; payload: string };
+
+const DB_NAME = "cfsa";
+const DB_VERSION = 1;
+const KV_STORE = "kv";
+const META_STORE = "meta";
+export const SNAPSHOT_STORE = "snapshots";
+
+// Record stores keep one object per id; under localStorage each is a JSON array at this key
+const RECORD_FALLBACK_KEYS: Record<string, string> = { [SNAPSHOT_STORE]: "cfsa_snapshots_v1" };
+
+// Everything saved before IndexedDB storage is moved over on the first start
+const LEGACY_PREFIXES = ["cfsa_", "hf_run_counter_"];
+
+let db: IDBDatabase | null = null;
+const cache = new Map<string, string>();
+const pending = new Map<string, string | null>();
+const errorListeners = new Set<(error: StorageError) => void>();
+const undelivered: StorageError[] = [];
+// Keys holding data from a newer version of the app, with the reason. They stay read-only for the
+// session, so a save from this version cannot overwrite data it does not understand.
+const readOnly = new Map<string, string>();
+const readOnlyListeners = new Set<() => void>();
+let channel: BroadcastChannel | null = null;
+
+function localStore(): Storage | null {
+  try {
+    return typeof localStorage === "undefined" ? null : localStorage;
+  } catch {
+    return null;
+  }
+}
+
+function isQuotaError(error: unknown): boolean {
+  return error instanceof DOMException && (error.name === "QuotaExceededError" || error.code === 22);
+}
+
+function reportError(keys: string[], error: unknown): void {
+  const quotaExceeded = isQuotaError(error);
+  const message = quotaExceeded
+    ? "Browser storage is full. Delete old saved schedules to free space."
+    : error instanceof Error || error instanceof DOMException
+      ? error.message
+      : String(error);
+  console.error(`Failed to save ${keys.join(", ")}:`, error);
+  if (errorListeners.size === 0) undelivered.push({ keys, message, quotaExceeded });
+  for (const fn of errorListeners) fn({ keys, message, quotaExceeded });
+}
+
+export function subscribeStorageErrors(fn: (error: StorageError) => void): () => void {
+  errorListeners.add(fn);
+  for (const error of undelivered.splice(0)) fn(error);
+  return () => {
+    errorListeners.delete(fn);
+  };
+}
+
+export function markReadOnly(key: string, reason: string): void {
+  if (readOnly.get(key) === reason) return;
+  readOnly.set(key, reason);
+  // Loads run while pages render, so listeners hear about it afterwards
+  queueMicrotask(() => {
+    for (const fn of readOnlyListeners) fn();
+  });
+}
+
+export function readOnlyReasons(): string[] {
+  return [...new Set(readOnly.values())];
+}
+
+export function subscribeReadOnly(fn: () => void): () => void {
+  readOnlyListeners.add(fn);
+  return () => {
+    readOnlyListeners.delete(fn);
+  };
+}
+
+function rejectReadOnly(key: string): boolean {
+  const reason = readOnly.get(key);
+  if (reason === undefined) return false;
+  reportError([key], new Error(reason));
+  return true;
+}
+
+export function storageBackend(): StorageBackend {
+  return db ? "indexeddb" : "localstorage";
+}
+
+function flush(): void {
+  const batch = new Map(pending);
+  pending.clear();
+  if (!db || batch.size === 0) return;
+  try {
+    const tx = db.transaction(KV_STORE, "readwrite");
+    const store = tx.objectStore(KV_STORE);
+    for (const [key, value] of batch) {
+      if (value === null) store.delete(key);
+      else store.put(value, key);
+    }
+    tx.onabort = () => reportError([...batch.keys()], tx.error);
+  } catch (e) {
+    reportError([...batch.keys()], e);
+  }
+}
+
+function persist(key: string, value: string | null): void {
+  if (pending.size === 0) queueMicrotask(flush);
+  pending.set(key, value);
+  channel?.postMessage({ key, value });
+}
+
+// Same shape as localStorage, so engines only swap the object they call
+export const storage = {
+  getItem(key: string): string | null {
+    if (db) return cache.get(key) ?? null;
+    return localStore()?.getItem(key) ?? null;
+  },
+  setItem(key: string, value: string): void {
+    if (rejectReadOnly(key)) return;
+    if (db) {
+      cache.set(key, value);
+      persist(key, value);
+      return;
+    }
+    try {
+      localStore()?.setItem(key, value);
+    } catch (e) {
+      reportError([key], e);
+    }
+  },
+  removeItem(key: string): void {
+    if (rejectReadOnly(key)) return;
+    if (db) {
+      cache.delete(key);
+      persist(key, null);
+      return;
+    }
+    localStore()?.removeItem(key);
+  },
+};
+
+function request<T>(req: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    req.onsuccess = () => resolve(req.result);
+    req.onerror = () => reject(req.error);
+  });
+}
+
+function transactionDone(tx: IDBTransaction): Promise<void> {
+  return new Promise((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onabort = () => reject(tx.error);
+  });
+}
+
+function openDatabase(): Promise<IDBDatabase> {
+  return new Promise((resolve, reject) => {
+    const req = indexedDB.open(DB_NAME, DB_VERSION);
+    req.onupgradeneeded = () => {
+      const upgrade = req.result;
+      if (!upgrade.objectStoreNames.contains(KV_STORE)) upgrade.createObjectStore(KV_STORE);
+      if (!upgrade.objectStoreNames.contains(META_STORE)) upgrade.createObjectStore(META_STORE);
+      if (!upgrade.objectStoreNames.contains(SNAPSHOT_STORE)) upgrade.createObjectStore(SNAPSHOT_STORE, { keyPath: "id" });
+    };
+    req.onsuccess = () => resolve(req.result);
+    req.onerror = () => reject(req.error);
+    req.onblocked = () => reject(new Error("Close other tabs of the scheduler and reload"));
+  });
+}
+
+function toBase64(bytes: Uint8Array): string {
+  let binary = "";
+  for (let i = 0; i < bytes.length; i += 0x8000) binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  return btoa(binary);
+}
+
+function fromBase64(text: string): Uint8Array {
+  const binary = atob(text);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) bytes[i] = binary.charCodeAt(i);
+  return bytes;
+}
+
+export async function encodeJSON(value: unknown): Promise<EncodedPayload> {
+  const json = JSON.stringify(value);
+  if (typeof CompressionStream === "undefined") return { encoding: "json", payload: json };
+  const stream = new Blob([json]).stream().pipeThrough(new CompressionStream("gzip"));
+  return { encoding: "gzip-base64", payload: toBase64(new Uint8Array(await new Response(stream).arrayBuffer())) };
+}
+
+export async function decodeJSON<T>({ encoding, payload }: EncodedPayload): Promise<T> {
+  if (encoding === "json") return JSON.parse(payload) as T;
+  const stream = new Blob([fromBase64(payload)]).stream().pipeThrough(new DecompressionStream("gzip"));
+  return JSON.parse(await new Response(stream).text()) as T;
+}
+
+type RecordWithId = { id: string };
+
+// Throws when the saved list cannot be parsed, so it is neither shown as empty nor overwritten
+function readFallbackRecords<T extends RecordWithId>(store: string): T[] {
+  const raw = localStore()?.getItem(RECORD_FALLBACK_KEYS[store]);
+  try {
+    return raw ? (JSON.parse(raw) as T[]) : [];
+  } catch (e) {
+    throw new Error(`Saved ${store} could not be read: ${e instanceof Error ? e.message : String(e)}`);
+  }
+}
+
+function writeFallbackRecords<T extends RecordWithId>(store: string, records: T[]): void {
+  const key = RECORD_FALLBACK_KEYS[store];
+  try {
+    localStore()?.setItem(key, JSON.stringify(records));
+  } catch (e) {
+    reportError([key], e);
+    throw e;
+  }
+}
+
+export async function readRecords<T extends RecordWithId>(store: string): Promise<T[]> {
+  if (!db) return readFallbackRecords<T>(store);
+  return request(db.transaction(store).objectStore(store).getAll() as IDBRequest<T[]>);
+}
+
+export async function readRecord<T extends RecordWithId>(store: string, id: string): Promise<T | null> {
+  if (!db) return readFallbackRecords<T>(store).find((r) => r.id === id) ?? null;
+  return (await request(db.transaction(store).objectStore(store).get(id) as IDBRequest<T | undefined>)) ?? null;
+}
+
+// Resolves once the record is on disk; rejects (after reporting) when it could not be saved
+export async function writeRecords<T extends RecordWithId>(store: string, records: T[]): Promise<void> {
+  if (!db) {
+    const byId = new Map(readFallbackRecords<T>(store).map((r) => [r.id, r] as const));
+    for (const record of records) byId.set(record.id, record);
+    writeFallbackRecords(store, [...byId.values()]);
+    return;
+  }
+  try {
+    const tx = db.transaction(store, "readwrite");
+    for (const record of records) tx.objectStore(store).put(record);
+    await transactionDone(tx);
+  } catch (e) {
+    reportError(records.map((r) => `${store}/${r.id}`), e);
+    throw e;
+  }
+}
+
+export async function deleteRecords(store: string, ids: string[]): Promise<void> {
+  if (!db) {
+    const remove = new Set(ids);
+    writeFallbackRecords(store, readFallbackRecords(store).filter((r) => !remove.has(r.id)));
+    return;
+  }
+  const tx = db.transaction(store, "readwrite");
+  for (const id of ids) tx.objectStore(store).delete(id);
+  await transactionDone(tx);
+}
+
+// Copy every legacy localStorage key into IndexedDB in one transaction, compressing saved snapshots on
+// the way, and only then remove them from localStorage
+async function migrateFromLocalStorage(database: IDBDatabase): Promise<void> {
+  const ls = localStore();
+  const keys = ls ? Object.keys(ls).filter((k) => LEGACY_PREFIXES.some((p) => k.startsWith(p))) : [];
+  const snapshotsKey = RECORD_FALLBACK_KEYS[SNAPSHOT_STORE];
+
+  let snapshots: RecordWithId[] = [];
+  let snapshotsRead = false;
+  try {
+    const legacy = JSON.parse(ls?.getItem(snapshotsKey) ?? "[]") as (RecordWithId & { data?: unknown })[];
+    snapshots = await Promise.all(
+      legacy.map(async ({ data, ...rest }) => (data === undefined ? rest : { ...rest, ...(await encodeJSON(data)) })),
+    );
+    snapshotsRead = true;
+  } catch {
+    // unreadable snapshot list: leave it in localStorage
+  }
+
+  const tx = database.transaction([KV_STORE, META_STORE, SNAPSHOT_STORE], "readwrite");
+  for (const key of keys) {
+    if (key !== snapshotsKey) tx.objectStore(KV_STORE).put(ls!.getItem(key), key);
+  }
+  for (const snapshot of snapshots) tx.objectStore(SNAPSHOT_STORE).put(snapshot);
+  tx.objectStore(META_STORE).put(new Date().toISOString(), "migratedFromLocalStorage");
+  await transactionDone(tx);
+
+  for (const key of keys) {
+    if (key !== snapshotsKey || snapshotsRead) ls!.removeItem(key);
+  }
+}
+
+// Open IndexedDB, move legacy localStorage data into it once, and load every key into memory. Falls back
+// to localStorage (and reports why) when IndexedDB is missing or cannot be opened.
+export async function initStorage(): Promise<StorageBackend> {
+  if (db) return "indexeddb";
+  if (typeof indexedDB === "undefined") return "localstorage";
+  try {
+    const database = await openDatabase();
+    const migrated = await request(database.transaction(META_STORE).objectStore(META_STORE).get("migratedFromLocalStorage"));
+    if (!migrated) await migrateFromLocalStorage(database);
+
+    const tx = database.transaction(KV_STORE);
+    const [keys, values] = await Promise.all([
+      request(tx.objectStore(KV_STORE).getAllKeys()),
+      request(tx.objectStore(KV_STORE).getAll() as IDBRequest<string[]>),
+    ]);
+    keys.forEach((key, i) => cache.set(String(key), values[i]));
+    db = database;
+  } catch (e) {
+    reportError(["IndexedDB"], e);
+    return "localstorage";
+  }
+
+  // Keep other open tabs' copies in step with this one
+  if (typeof BroadcastChannel !== "undefined") {
+    channel = new BroadcastChannel("cfsa-storage");
+    channel.onmessage = (e: MessageEvent<{ key: string; value: string | null }>) => {
+      if (e.data.value === null) cache.delete(e.data.key);
+      else cache.set(e.data.key, e.data.value);
+    };
+  }
+  // Ask the browser not to evict the schedules under storage pressure
+  navigator.storage?.persist?.().catch(() => undefined);
+  return "indexeddb";
+}
+
+export async function estimateStorage(): Promise<{ used: number; total: number; percentage: number }> {
+  if (db && navigator.storage?.estimate) {
+    const { usage = 0, quota = 0 } = await navigator.storage.estimate();
+    return { used: usage, total: quota, percentage: quota > 0 ? Math.round((usage / quota) * 100) : 0 };
+  }
+  const ls = localStore();
+  let used = 0;
+  for (const key of ls ? Object.keys(ls) : []) used += ls!.getItem(key)?.length ?? 0;
+  // localStorage limit is typically ~5MB (5,242,880 bytes)
+  const total = 5 * 1024 * 1024;
+  return { used, total, percentage: Math.round((used / total) * 100) };
+}
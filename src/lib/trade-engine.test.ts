@@ -0,0 +1,87 @@
+import { beforeEach, describe, expect, it } from "vitest";
+import { loadCallSchedule, saveCallSchedule } from "@/lib/call-engine";
+import { loadHistory, redo, undo } from "@/lib/history-engine";
+import { saveSetup, type Fellow } from "@/lib/schedule-engine";
+import {
+  approveTradeRequest,
+  createTradeRequest,
+  loadTradeLog,
+  loadTradeRequests,
+  logTradeReplay,
+} from "@/lib/trade-engine";
+
+const settle = () => new Promise((resolve) => setTimeout(resolve, 0));
+
+const fellows: Fellow[] = [
+  { id: "a", name: "Avery", pgy: "PGY-5", vacationPrefs: [] },
+  { id: "b", name: "Blake", pgy: "PGY-5", vacationPrefs: [] },
+];
+
+beforeEach(async () => {
+  saveSetup({ yearStart: "2025-07-01", fellows, holidays: [] });
+  saveCallSchedule({
+    version: 1,
+    yearStart: "2025-07-01",
+    days: { "2025-07-08": "a", "2025-07-15": "b" },
+    countsByFellow: { a: 1, b: 1 },
+  });
+  await settle();
+});
+
+async function approvedGiveaway() {
+  const { request } = createTradeRequest({ requesterId: "a", duty: "primary", date: "2025-07-08", kind: "giveaway", counterpartId: "b" });
+  await settle();
+  const res = approveTradeRequest(request!.id);
+  await settle();
+  return { request: request!, res };
+}
+
+describe("approveTradeRequest", () => {
+  it("applies the trade and logs it", async () => {
+    const { request, res } = await approvedGiveaway();
+    expect(res.reasons).toBeUndefined();
+    expect(res.ok).toBe(true);
+    expect(loadCallSchedule()?.days["2025-07-08"]).toBe("b");
+    expect(loadTradeRequests().find((r) => r.id === request.id)?.status).toBe("approved");
+    expect(loadTradeLog()).toMatchObject([
+      { requestId: request.id, action: "applied", changes: [{ date: "2025-07-08", from: "a", to: "b" }] },
+    ]);
+  });
+
+  it("refuses a request the requester no longer holds the shift for", async () => {
+    const { request } = await approvedGiveaway();
+    expect(approveTradeRequest(request.id).ok).toBe(false);
+    expect(loadTradeLog()).toHaveLength(1);
+  });
+});
+
+describe("undo and redo of an approval", () => {
+  it("reverts the schedule, reopens the request and logs the reversal without editing the log", async () => {
+    const { request, res } = await approvedGiveaway();
+    expect(loadHistory().past.at(-1)?.changes).not.toHaveProperty("cfsa_trade_log_v1");
+
+    undo();
+    expect(loadCallSchedule()?.days["2025-07-08"]).toBe("a");
+    expect(loadTradeRequests().find((r) => r.id === request.id)?.status).toBe("pending");
+    const [applied, reversed] = loadTradeLog();
+    expect(applied.id).toBe(res.entry!.id);
+    expect(reversed).toMatchObject({
+      action: "reversed",
+      reverses: res.entry!.id,
+      changes: [{ date: "2025-07-08", from: "b", to: "a" }],
+    });
+
+    redo();
+    expect(loadCallSchedule()?.days["2025-07-08"]).toBe("b");
+    expect(loadTradeLog().map((e) => e.action)).toEqual(["applied", "reversed", "applied"]);
+  });
+});
+
+describe("logTradeReplay", () => {
+  it("logs nothing when no request changed approval", async () => {
+    await approvedGiveaway();
+    const requests = JSON.stringify(loadTradeRequests());
+    expect(logTradeReplay(requests, requests)).toEqual([]);
+    expect(loadTradeLog()).toHaveLength(1);
+  });
+});
@@ -0,0 +1,492 @@
+import { differenceInCalendarDays, format, parseISO } from "date-fns";
+import { academicYearWindow } from "@/lib/block-utils";
+import { applyManualPrimaryAssignment, applyPrimarySwap, saveCallSchedule, type CallSchedule } from "@/lib/call-engine";
+import {
+  assignHFCoverage,
+  getBlockDatesForDate,
+  getEffectiveHFAssignment,
+  saveHFSchedule,
+  validateManualHFAssignment,
+  type HFSchedule,
+} from "@/lib/hf-engine";
+import {
+  applyJeopardyAssignmentScoped,
+  getJeopardyBlockForDate,
+  saveJeopardySchedule,
+  type JeopardySchedule,
+} from "@/lib/jeopardy-engine";
+import { releaseChangedDayPins } from "@/lib/pin-engine";
+import { labelEdit, recordWrite, subscribeReplay } from "@/lib/history-engine";
+import { type Fellow } from "@/lib/schedule-engine";
+import { snapshotContext, storageContext, type ScheduleContext } from "@/lib/schedule-context";
+import { storage } from "@/lib/storage-engine";
+
+export type TradeDuty = "primary" | "jeopardy" | "hf";
+
+// giveaway: hand the shift to someone else; swap: exchange it for a named fellow's shift;
+// open-swap: exchange it for any shift, the counterpart is picked when the chief approves
+export type TradeKind = "giveaway" | "swap" | "open-swap";
+
+export type TradeStatus = "pending" | "approved" | "denied" | "withdrawn";
+
+export type TradeRequest = {
+  id: string;
+  createdAt: string; // ISO timestamp
+  requesterId: string;
+  duty: TradeDuty;
+  date: string; // ISO date of the requester's shift (first day for weekend and holiday blocks)
+  kind: TradeKind;
+  counterpartId?: string; // who takes the shift, or the swap partner
+  counterpartDate?: string; // the partner's shift for swaps
+  note?: string;
+  status: TradeStatus;
+  decidedAt?: string;
+  decisionNote?: string;
+};
+
+export type TradeChange = { date: string; from: string | null; to: string | null };
+
+// One applied trade, or its reversal by undo. The log is append-only: entries are never edited or
+// removed, and undo or redo of an approval adds an entry of its own.
+export type TradeLogEntry = {
+  id: string;
+  requestId: string;
+  appliedAt: string; // ISO timestamp
+  action?: "applied" | "reversed"; // unset on entries logged before reversals were recorded: applied
+  reverses?: string; // id of the entry a reversal takes back
+  duty: TradeDuty;
+  kind: TradeKind;
+  requesterId: string;
+  counterpartId: string;
+  changes: TradeChange[];
+  note?: string;
+};
+
+// A shift a fellow holds: a single date, or a weekend or holiday block held as a whole
+export type TradeShift = { date: string; dates: string[] };
+
+type TradePlan = {
+  ok: boolean;
+  reasons?: string[];
+  changes?: TradeChange[];
+  callSchedule?: CallSchedule;
+  jeopardySchedule?: JeopardySchedule;
+  hfSchedule?: HFSchedule;
+};
+
+export const TRADE_REQUESTS_STORAGE_KEY = "cfsa_trade_requests_v1";
+export const TRADE_LOG_STORAGE_KEY = "cfsa_trade_log_v1";
+
+export const TRADE_DUTY_LABELS: Record<TradeDuty, string> = {
+  primary: "Primary call",
+  jeopardy: "Jeopardy",
+  hf: "HF coverage",
+};
+
+export const TRADE_KIND_LABELS: Record<TradeKind, string> = {
+  giveaway: "Give away",
+  swap: "Swap with fellow",
+  "open-swap": "Swap with anyone",
+};
+
+// How far apart two shifts may be for an open swap suggestion
+const OPEN_SWAP_WINDOW_DAYS = 60;
+
+function readList<T>(key: string): T[] {
+  try {
+    const raw = storage.getItem(key);
+    if (!raw) return [];
+    const parsed = JSON.parse(raw);
+    return Array.isArray(parsed) ? (parsed as T[]) : [];
+  } catch {
+    return [];
+  }
+}
+
+function writeList<T>(key: string, list: T[]): void {
+  storage.setItem(key, JSON.stringify(list));
+}
+
+export function loadTradeRequests(): TradeRequest[] {
+  return readList<TradeRequest>(TRADE_REQUESTS_STORAGE_KEY);
+}
+
+// Requests are part of the undo history, so undoing an approval reopens the request with the schedules.
+// The log stays out of it.
+function saveTradeRequests(requests: TradeRequest[]): void {
+  recordWrite(TRADE_REQUESTS_STORAGE_KEY, "trade requests");
+  writeList(TRADE_REQUESTS_STORAGE_KEY, requests);
+}
+
+export function loadTradeLog(): TradeLogEntry[] {
+  return readList<TradeLogEntry>(TRADE_LOG_STORAGE_KEY);
+}
+
+function appendTradeLog(...entries: TradeLogEntry[]): void {
+  writeList(TRADE_LOG_STORAGE_KEY, [...loadTradeLog(), ...entries]);
+}
+
+function approvedIds(raw: string | null): Set<string> {
+  try {
+    const parsed = raw ? JSON.parse(raw) : [];
+    return new Set(Array.isArray(parsed) ? (parsed as TradeRequest[]).filter((r) => r.status === "approved").map((r) => r.id) : []);
+  } catch {
+    return new Set();
+  }
+}
+
+// Log what an undo or redo did to approved trades: a request that is no longer approved was reversed,
+// one approved again was reapplied with the changes first logged for it
+export function logTradeReplay(requestsBefore: string | null, requestsAfter: string | null, at = new Date()): TradeLogEntry[] {
+  const was = approvedIds(requestsBefore);
+  const now = approvedIds(requestsAfter);
+  const log = loadTradeLog();
+  const lastApplied = (requestId: string) =>
+    log.filter((e) => e.requestId === requestId && e.action !== "reversed").pop();
+  const entries: TradeLogEntry[] = [];
+  for (const requestId of was) {
+    const applied = now.has(requestId) ? undefined : lastApplied(requestId);
+    if (!applied) continue;
+    entries.push({
+      ...applied,
+      id: newId(),
+      appliedAt: at.toISOString(),
+      action: "reversed",
+      reverses: applied.id,
+      changes: applied.changes.map((c) => ({ date: c.date, from: c.to, to: c.from })),
+    });
+  }
+  for (const requestId of now) {
+    const applied = was.has(requestId) ? undefined : lastApplied(requestId);
+    if (!applied) continue;
+    entries.push({ ...applied, id: newId(), appliedAt: at.toISOString(), action: "applied", reverses: undefined });
+  }
+  if (entries.length) appendTradeLog(...entries);
+  return entries;
+}
+
+subscribeReplay((entry, side) => {
+  const change = entry.changes[TRADE_REQUESTS_STORAGE_KEY];
+  if (!change) return;
+  logTradeReplay(side === "before" ? change.after : change.before, change[side]);
+});
+
+const toISO = (d: Date) => format(d, "yyyy-MM-dd");
+
+function holderOf(duty: TradeDuty, dateISO: string, ctx: ScheduleContext): string | null {
+  if (duty === "primary") return ctx.callSchedule?.days[dateISO] ?? null;
+  if (duty === "jeopardy") return ctx.jeopardySchedule?.days[dateISO] ?? null;
+  return getEffectiveHFAssignment(dateISO, ctx.hfSchedule);
+}
+
+// The shift a date belongs to. Jeopardy and HF blocks trade as a whole when one fellow holds every day
+// of the block, otherwise only the day itself changes hands.
+export function shiftForDate(duty: TradeDuty, dateISO: string, ctx: ScheduleContext = storageContext()): TradeShift {
+  if (duty === "primary" || !ctx.setup) return { date: dateISO, dates: [dateISO] };
+  const block = duty === "jeopardy" ? getJeopardyBlockForDate(dateISO, ctx)?.dates ?? [dateISO] : getBlockDatesForDate(dateISO, ctx.setup);
+  const holder = holderOf(duty, dateISO, ctx);
+  const whole = block.length > 1 && block.every((d) => holderOf(duty, d, ctx) === holder);
+  return whole ? { date: block[0], dates: block } : { date: dateISO, dates: [dateISO] };
+}
+
+// Every shift of this duty the fellow currently holds, in date order
+export function fellowShifts(fellowId: string, duty: TradeDuty, ctx: ScheduleContext = storageContext()): TradeShift[] {
+  const { setup } = ctx;
+  if (!setup) return [];
+  let days: string[];
+  if (duty === "primary") days = Object.keys(ctx.callSchedule?.days ?? {}).filter((d) => ctx.callSchedule!.days[d] === fellowId);
+  else if (duty === "jeopardy") days = Object.keys(ctx.jeopardySchedule?.days ?? {}).filter((d) => ctx.jeopardySchedule!.days[d] === fellowId);
+  else {
+    days = [];
+    for (const d of academicYearWindow(setup.yearStart, setup.yearEnd).days) {
+      if (getEffectiveHFAssignment(toISO(d), ctx.hfSchedule) === fellowId) days.push(toISO(d));
+    }
+  }
+  const shifts = new Map<string, TradeShift>();
+  for (const day of days.sort()) {
+    const shift = shiftForDate(duty, day, ctx);
+    if (!shifts.has(shift.date)) shifts.set(shift.date, shift);
+  }
+  return [...shifts.values()];
+}
+
+export function describeShift(duty: TradeDuty, dateISO: string, ctx: ScheduleContext = storageContext()): string {
+  const { dates } = shiftForDate(duty, dateISO, ctx);
+  const first = parseISO(dates[0]);
+  if (dates.length === 1) return format(first, "EEE, MMM d, yyyy");
+  return `${format(first, "EEE, MMM d")} – ${format(parseISO(dates[dates.length - 1]), "EEE, MMM d, yyyy")}`;
+}
+
+function hfWithOverrides(schedule: HFSchedule): HFSchedule {
+  // assignHFCoverage writes into dayOverrides in place, so plans work on their own copy
+  return { ...schedule, dayOverrides: { ...schedule.dayOverrides } };
+}
+
+function planPrimary(request: TradeRequest, ctx: ScheduleContext): TradePlan {
+  const schedule = ctx.callSchedule!;
+  const res =
+    request.kind === "giveaway"
+      ? applyManualPrimaryAssignment(schedule, request.date, request.counterpartId, ctx)
+      : applyPrimarySwap(schedule, request.date, request.counterpartDate, ctx);
+  if (!res.ok) return { ok: false, reasons: res.reasons };
+  return { ok: true, callSchedule: res.schedule };
+}
+
+function planJeopardy(request: TradeRequest, shiftA: TradeShift, shiftB: TradeShift | null, ctx: ScheduleContext): TradePlan {
+  const scope = (s: TradeShift) => (s.dates.length > 1 ? "block" : "single");
+  if (!shiftB) {
+    const res = applyJeopardyAssignmentScoped(ctx.jeopardySchedule!, shiftA.date, request.counterpartId, scope(shiftA), ctx);
+    return res.success ? { ok: true, jeopardySchedule: res.schedule } : { ok: false, reasons: [res.error ?? "Assignment failed"] };
+  }
+  // Clear both shifts first, so neither fellow's old shift counts against the new one
+  let schedule = ctx.jeopardySchedule!;
+  const steps: [TradeShift, string | null][] = [
+    [shiftA, null],
+    [shiftB, null],
+    [shiftA, request.counterpartId],
+    [shiftB, request.requesterId],
+  ];
+  for (const [s, fid] of steps) {
+    const res = applyJeopardyAssignmentScoped(schedule, s.date, fid, scope(s), ctx);
+    if (!res.success) return { ok: false, reasons: [`${s.date}: ${res.error ?? "Assignment failed"}`] };
+    schedule = res.schedule!;
+  }
+  return { ok: true, jeopardySchedule: schedule };
+}
+
+function planHF(request: TradeRequest, shiftA: TradeShift, shiftB: TradeShift | null, ctx: ScheduleContext): TradePlan {
+  const setup = ctx.setup!;
+  const scope = (s: TradeShift) => (s.dates.length > 1 ? "block" : "day");
+  const moves: [TradeShift, string][] = shiftB
+    ? [[shiftA, request.counterpartId], [shiftB, request.requesterId]]
+    : [[shiftA, request.counterpartId]];
+  // Validate against the schedule with the traded shifts already vacated
+  let cleared = hfWithOverrides(ctx.hfSchedule!);
+  for (const [s] of moves) cleared = assignHFCoverage(s.date, null, scope(s), cleared, setup);
+  const reasons: string[] = [];
+  for (const [s, fid] of moves) {
+    const check = validateManualHFAssignment(s.date, fid, scope(s), setup, ctx.callSchedule, ctx.schedules, setup.fellows, cleared, ctx);
+    if (!check.isValid) reasons.push(`${s.date}: ${check.reason ?? "Invalid assignment"}`);
+  }
+  if (reasons.length) return { ok: false, reasons };
+  let schedule = hfWithOverrides(ctx.hfSchedule!);
+  for (const [s, fid] of moves) schedule = assignHFCoverage(s.date, fid, scope(s), schedule, setup);
+  return { ok: true, hfSchedule: schedule };
+}
+
+// Check a trade against the same rules as a manual edit and work out the schedule it would produce
+export function planTrade(request: TradeRequest, ctx: ScheduleContext = storageContext()): TradePlan {
+  const cached = snapshotContext(ctx);
+  const { setup } = cached;
+  if (!setup) return { ok: false, reasons: ["No setup found"] };
+  const current =
+    request.duty === "primary" ? cached.callSchedule : request.duty === "jeopardy" ? cached.jeopardySchedule : cached.hfSchedule;
+  if (!current) return { ok: false, reasons: [`No ${TRADE_DUTY_LABELS[request.duty].toLowerCase()} schedule`] };
+  if (!request.counterpartId) {
+    return { ok: false, reasons: [request.kind === "giveaway" ? "Choose who takes the shift" : "Choose a shift to swap with"] };
+  }
+  if (request.counterpartId === request.requesterId) return { ok: false, reasons: ["Cannot trade with yourself"] };
+  if (holderOf(request.duty, request.date, cached) !== request.requesterId) {
+    return { ok: false, reasons: ["The requester no longer holds this shift"] };
+  }
+  const swap = request.kind !== "giveaway";
+  if (swap) {
+    if (!request.counterpartDate) return { ok: false, reasons: ["Choose a shift to swap with"] };
+    if (holderOf(request.duty, request.counterpartDate, cached) !== request.counterpartId) {
+      return { ok: false, reasons: ["The other fellow no longer holds that shift"] };
+    }
+  }
+
+  const shiftA = shiftForDate(request.duty, request.date, cached);
+  const shiftB = swap ? shiftForDate(request.duty, request.counterpartDate, cached) : null;
+  if (shiftB && shiftB.dates.some((d) => shiftA.dates.includes(d))) return { ok: false, reasons: ["Both shifts are the same"] };
+
+  const plan =
+    request.duty === "primary"
+      ? planPrimary(request, cached)
+      : request.duty === "jeopardy"
+        ? planJeopardy(request, shiftA, shiftB, cached)
+        : planHF(request, shiftA, shiftB, cached);
+  if (!plan.ok) return plan;
+
+  const after: ScheduleContext = {
+    ...cached,
+    callSchedule: plan.callSchedule ?? cached.callSchedule,
+    jeopardySchedule: plan.jeopardySchedule ?? cached.jeopardySchedule,
+    hfSchedule: plan.hfSchedule ?? cached.hfSchedule,
+  };
+  const changes = [...shiftA.dates, ...(shiftB?.dates ?? [])].sort().map((date) => ({
+    date,
+    from: holderOf(request.duty, date, cached),
+    to: holderOf(request.duty, date, after),
+  }));
+  return { ...plan, changes: changes.filter((c) => c.from !== c.to) };
+}
+
+function newId(): string {
+  return crypto.randomUUID();
+}
+
+export function createTradeRequest(
+  input: Pick<TradeRequest, "requesterId" | "duty" | "date" | "kind" | "counterpartId" | "counterpartDate" | "note">,
+  ctx: ScheduleContext = storageContext()
+): { ok: boolean; request?: TradeRequest; reasons?: string[] } {
+  if (holderOf(input.duty, input.date, ctx) !== input.requesterId) {
+    return { ok: false, reasons: ["The fellow does not hold this shift"] };
+  }
+  if (input.kind === "swap" && (!input.counterpartId || !input.counterpartDate)) {
+    return { ok: false, reasons: ["Choose the fellow and shift to swap with"] };
+  }
+  const date = shiftForDate(input.duty, input.date, ctx).date;
+  const pending = loadTradeRequests().some((r) => r.status === "pending" && r.duty === input.duty && r.date === date);
+  if (pending) return { ok: false, reasons: ["There is already a pending request for this shift"] };
+
+  const open = input.kind === "open-swap"; // the counterpart is picked on approval
+  const request: TradeRequest = {
+    ...input,
+    date,
+    counterpartId: open ? undefined : input.counterpartId,
+    counterpartDate:
+      input.kind === "swap" ? shiftForDate(input.duty, input.counterpartDate, ctx).date : undefined,
+    id: newId(),
+    createdAt: new Date().toISOString(),
+    status: "pending",
+  };
+  labelEdit(`Request trade: ${TRADE_DUTY_LABELS[input.duty].toLowerCase()} ${date}`);
+  saveTradeRequests([...loadTradeRequests(), request]);
+  return { ok: true, request };
+}
+
+function decide(id: string, status: TradeStatus, decisionNote?: string): TradeRequest[] {
+  const requests = loadTradeRequests().map((r) =>
+    r.id === id && r.status === "pending" ? { ...r, status, decidedAt: new Date().toISOString(), decisionNote } : r
+  );
+  saveTradeRequests(requests);
+  return requests;
+}
+
+export function denyTradeRequest(id: string, decisionNote?: string): TradeRequest[] {
+  labelEdit("Deny trade request");
+  return decide(id, "denied", decisionNote);
+}
+
+export function withdrawTradeRequest(id: string): TradeRequest[] {
+  labelEdit("Withdraw trade request");
+  return decide(id, "withdrawn");
+}
+
+// Apply a pending trade to the saved schedules and record it in the audit log. The counterpart of a
+// giveaway without a named recipient, or of an open swap, is chosen here.
+export function approveTradeRequest(
+  id: string,
+  resolution: Pick<TradeRequest, "counterpartId" | "counterpartDate"> = {},
+  decisionNote?: string
+): { ok: boolean; reasons?: string[]; entry?: TradeLogEntry } {
+  const request = loadTradeRequests().find((r) => r.id === id);
+  if (!request || request.status !== "pending") return { ok: false, reasons: ["Request is no longer pending"] };
+  const resolved: TradeRequest = {
+    ...request,
+    counterpartId: request.counterpartId ?? resolution.counterpartId,
+    counterpartDate: request.counterpartDate ?? resolution.counterpartDate,
+  };
+  const plan = planTrade(resolved);
+  if (!plan.ok) return { ok: false, reasons: plan.reasons };
+
+  const keys = plan.changes.map((c) => c.date);
+  labelEdit(`${TRADE_KIND_LABELS[request.kind]}: ${TRADE_DUTY_LABELS[request.duty].toLowerCase()} ${request.date}`);
+  if (plan.callSchedule) {
+    saveCallSchedule(plan.callSchedule);
+    releaseChangedDayPins("primary", plan.callSchedule.days, keys);
+  }
+  if (plan.jeopardySchedule) {
+    saveJeopardySchedule(plan.jeopardySchedule);
+    releaseChangedDayPins("jeopardy", plan.jeopardySchedule.days, keys);
+  }
+  if (plan.hfSchedule) {
+    saveHFSchedule(plan.hfSchedule);
+    // HF pins are keyed by the weekend's Saturday
+    const saturdays = keys.filter((d) => parseISO(d).getDay() === 6);
+    const effective = Object.fromEntries(saturdays.map((d) => [d, getEffectiveHFAssignment(d, plan.hfSchedule)] as const));
+    releaseChangedDayPins("hf", effective, saturdays);
+  }
+
+  const entry: TradeLogEntry = {
+    id: newId(),
+    requestId: request.id,
+    appliedAt: new Date().toISOString(),
+    action: "applied",
+    duty: request.duty,
+    kind: request.kind,
+    requesterId: request.requesterId,
+    counterpartId: resolved.counterpartId,
+    changes: plan.changes,
+    note: request.note,
+  };
+  appendTradeLog(entry);
+  saveTradeRequests(
+    loadTradeRequests().map((r) =>
+      r.id === id ? { ...resolved, status: "approved" as const, decidedAt: entry.appliedAt, decisionNote } : r
+    )
+  );
+  return { ok: true, entry };
+}
+
+// Fellows who could take the shift of a giveaway
+export function giveawayCandidates(request: TradeRequest, ctx: ScheduleContext = storageContext()): Fellow[] {
+  const cached = snapshotContext(ctx);
+  return (cached.setup?.fellows ?? []).filter(
+    (f) => f.id !== request.requesterId && planTrade({ ...request, kind: "giveaway", counterpartId: f.id }, cached).ok
+  );
+}
+
+// Valid shifts to swap with, nearest first
+export function swapCandidates(
+  request: TradeRequest,
+  ctx: ScheduleContext = storageContext(),
+  limit = 20
+): Array<{ fellowId: string; shift: TradeShift }> {
+  const cached = snapshotContext(ctx);
+  const date = parseISO(request.date);
+  const options: Array<{ fellowId: string; shift: TradeShift; distance: number }> = [];
+  for (const fellow of cached.setup?.fellows ?? []) {
+    if (fellow.id === request.requesterId) continue;
+    for (const shift of fellowShifts(fellow.id, request.duty, cached)) {
+      const distance = Math.abs(differenceInCalendarDays(parseISO(shift.date), date));
+      if (distance > OPEN_SWAP_WINDOW_DAYS) continue;
+      const plan = planTrade({ ...request, kind: "swap", counterpartId: fellow.id, counterpartDate: shift.date }, cached);
+      if (plan.ok) options.push({ fellowId: fellow.id, shift, distance });
+    }
+  }
+  return options
+    .sort((a, b) => a.distance - b.distance || a.shift.date.localeCompare(b.shift.date))
+    .slice(0, limit)
+    .map(({ fellowId, shift }) => ({ fellowId, shift }));
+}
+
+// Applied trades that gave a fellow a shift or took one away
+export function fellowTradeLog(fellowId: string, log: TradeLogEntry[] = loadTradeLog()): TradeLogEntry[] {
+  return log.filter((e) => e.requesterId === fellowId || e.counterpartId === fellowId);
+}
+
+export function tradeLogToCsv(log: TradeLogEntry[], fellows: Fellow[]): string {
+  const name = (id: string | null) => (id ? fellows.find((f) => f.id === id)?.name ?? id : "");
+  const cell = (v: string) => (/[",\n]/.test(v) ? `"${v.replace(/"/g, '""')}"` : v);
+  const rows = [["Applied", "Action", "Duty", "Trade", "Requested by", "Counterpart", "Date", "From", "To", "Note"]];
+  for (const e of log) {
+    for (const c of e.changes) {
+      rows.push([
+        e.appliedAt,
+        e.action === "reversed" ? "Reversed" : "Applied",
+        TRADE_DUTY_LABELS[e.duty],
+        TRADE_KIND_LABELS[e.kind],
+        name(e.requesterId),
+        name(e.counterpartId),
+        c.date,
+        name(c.from),
+        name(c.to),
+        e.note ?? "",
+      ]);
+    }
+  }
+  return rows.map((r) => r.map(cell).join(",")).join("\n");
+}
@@ -0,0 +1,30 @@
+import { type Fellow, type Unavailability, type UnavailabilityKind } from "@/lib/schedule-engine";
+
+export const UNAVAILABILITY_KINDS: { value: UnavailabilityKind; label: string }[] = [
+  { value: "conference", label: "Conference" },
+  { value: "sick", label: "Sick leave" },
+  { value: "parental", label: "Parental leave" },
+  { value: "interview", label: "Interview" },
+  { value: "personal", label: "Personal" },
+];
+
+export function unavailabilityName(entry: Unavailability): string {
+  return entry.label?.trim() || UNAVAILABILITY_KINDS.find((k) => k.value === entry.kind)?.label || entry.kind;
+}
+
+// Reason shown in the ineligible lists, e.g. "unavailable: ACC conference"
+export function unavailabilityReason(entry: Unavailability): string {
+  return `unavailable: ${unavailabilityName(entry)}`;
+}
+
+// The first entry covering any of the dates. Generators pass includeSoft so soft entries are
+// avoided; manual edits only refuse hard ones.
+export function findUnavailability(
+  fellow: Fellow,
+  datesISO: string[],
+  includeSoft = true
+): Unavailability | undefined {
+  return (fellow.unavailability ?? []).find(
+    (entry) => (entry.hard || entry.leaveOfAbsence || includeSoft) && datesISO.some((d) => d >= entry.start && d <= entry.end)
+  );
+}
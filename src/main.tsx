@@ -1,5 +1,9 @@
 import { createRoot } from 'react-dom/client'
 import App from './App.tsx'
 import './index.css'
+import { initStorage } from './lib/storage-engine'
 
-createRoot(document.getElementById("root")!).render(<App />);
+// Schedules are read synchronously from memory, so load them from IndexedDB before the first render
+initStorage().finally(() => {
+  createRoot(document.getElementById("root")!).render(<App />);
+});
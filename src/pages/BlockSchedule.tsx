@@ -1,36 +1,63 @@
 import { useEffect, useMemo, useState } from "react";
 import { Link, useLocation } from "react-router-dom";
-import { HeartPulse, Download, RefreshCw, Eraser, ChevronUp, ChevronDown } from "lucide-react";
+import { HeartPulse, Download, RefreshCw, Eraser, ChevronUp, ChevronDown, Repeat, Pin } from "lucide-react";
 import { DndContext, DragOverlay, DragStartEvent, DragEndEvent } from "@dnd-kit/core";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
 import { Tabs, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { useSEO } from "@/lib/seo";
-import { generateAcademicYearBlocks, type BlockInfo, hasMinSpacing } from "@/lib/block-utils";
+import { academicYearEnd, blocksPerMonth, generateAcademicYearBlocks, isHalfMonthCalendar, type BlockInfo, hasMinSpacing } from "@/lib/block-utils";
 import { loadSettings } from "@/lib/settings-engine";
 import {
-  buildVacationScheduleForPGY,
   countByBlock,
   loadSchedule,
   loadSetup,
   saveSchedule,
   type Fellow,
+  type FellowSchedule,
   type PGY,
   type StoredSchedule,
 } from "@/lib/schedule-engine";
-import { placePGY4Rotations, placePGY5Rotations, placePGY6Rotations } from "@/lib/rotation-engine";
+import {
+  ROTATION_SOLVER_ENGINES,
+  formatRotationObjective,
+  type RotationSolverEngine,
+} from "@/lib/rotation-cp-engine";
+import {
+  analyzeRotationFailure,
+  analyzeVacationFailure,
+  getRelaxedSolverRules,
+  restoreSolverRules,
+  type ConflictEntry,
+  type InfeasibilityReport,
+} from "@/lib/infeasibility-analyzer";
 import { useToast } from "@/hooks/use-toast";
 import { usePersistentTab } from "@/hooks/use-persistent-tab";
+import { useEngineJob } from "@/hooks/use-engine-job";
+import type { EngineJob } from "@/lib/engine-jobs";
 import { useTabScrollRestoration } from "@/hooks/use-tab-scroll-restoration";
 import type { Rotation } from "@/lib/rotation-engine";
 import BlockEditDialog from "@/components/BlockEditDialog";
 import { VacationConflictDialog } from "@/components/VacationConflictDialog";
+import { InfeasibilityDialog } from "@/components/InfeasibilityDialog";
+import { EngineJobProgress } from "@/components/EngineJobProgress";
+import { SeedField } from "@/components/SeedField";
+import { CalendarExportMenu } from "@/components/CalendarExportMenu";
+import { TrainingRequirementsCard } from "@/components/TrainingRequirementsCard";
+import { trainingProgress } from "@/lib/requirements-engine";
+import { snapshotContext } from "@/lib/schedule-context";
+import { parseSeed } from "@/lib/seeded-random";
+import { ToastAction } from "@/components/ui/toast";
 import { DraggableBadge } from "@/components/DraggableBadge";
 import { DroppableCell } from "@/components/DroppableCell";
 import { applyBlockDragAndDrop } from "@/lib/block-engine";
-import { getRotationDisplayName, getRotationBadgeVariant } from "@/lib/rotation-utils";
+import { loadPins, releaseChangedRotationPins, setRotationPin, type PinnedAssignments } from "@/lib/pin-engine";
+import { labelEdit } from "@/lib/history-engine";
+import { getRotationDisplayName, getRotationBadgeVariant, getRotationBadgeStyle } from "@/lib/rotation-utils";
+import { compareByCatalogOrder, getRotationColor, getRotationOptionsForPGY } from "@/lib/rotation-catalog";
 import ExcelJS from "exceljs";
 
 export default function BlockSchedule() {
@@ -46,9 +73,26 @@ export default function BlockSchedule() {
   const setup = loadSetup();
   const [activePGY, setActivePGY] = usePersistentTab<PGY | "TOTAL">('blockSchedule-pgy', 'PGY-4');
   
+  const [solverEngine, setSolverEngine] = usePersistentTab<RotationSolverEngine>('blockSchedule-solver', 'heuristic');
+  const [seedText, setSeedText] = useState("");
+  const { run: runJob, cancel: cancelJob, progress: jobProgress, running: jobRunning } = useEngineJob();
+  // Runs a generator and reports a failed run; resolves to null when it threw
+  const runReportedJob = async <J extends EngineJob>(job: J) => {
+    try {
+      return await runJob(job);
+    } catch (error) {
+      console.error("Schedule generation error:", error);
+      toast({
+        variant: "destructive",
+        title: "Generation failed",
+        description: error instanceof Error ? error.message : "The generator stopped unexpectedly. Please try again.",
+      });
+      return null;
+    }
+  };
   useTabScrollRestoration(location.pathname, activePGY);
   const [blocks, setBlocks] = useState<BlockInfo[]>(() =>
-    generateAcademicYearBlocks(toAcademicYearJuly1(setup?.yearStart ?? new Date().toISOString().slice(0, 10)))
+    generateAcademicYearBlocks(setup?.yearStart ?? defaultYearStart(), loadSettings().blockCalendar, setup?.yearEnd)
   );
 const fellows: Fellow[] = useMemo(
     () =>
@@ -62,6 +106,12 @@ const fellows: Fellow[] = useMemo(
 
   const [schedule, setSchedule] = useState<StoredSchedule | null>(() => (activePGY === "TOTAL" ? null : loadSchedule(activePGY as PGY)));
   const [panelOpen, setPanelOpen] = useState(false);
+  // Reads every saved PGY schedule, with the one on screen in place of its saved copy
+  const training = useMemo(() => {
+    const ctx = snapshotContext();
+    if (activePGY !== "TOTAL") ctx.schedules[activePGY as PGY] = schedule;
+    return trainingProgress(ctx).filter((p) => activePGY === "TOTAL" || p.fellow.pgy === activePGY);
+  }, [schedule, activePGY]);
   
   // Vacation conflict dialog state
   const [vacationConflictDialog, setVacationConflictDialog] = useState<{
@@ -94,44 +144,28 @@ const fellows: Fellow[] = useMemo(
     return m;
   }, [blocks]);
 
+  // Blocks that make up "a full month": both halves on the half-month calendar, one block otherwise
+  const perMonth = useMemo(() => blocksPerMonth(blocks), [blocks]);
+  const halfMonthCalendar = useMemo(() => isHalfMonthCalendar(blocks), [blocks]);
+  const monthKeysFor = (k: string) => (perMonth === 1 ? [k] : monthToKeys.get(keyToMonth.get(k) ?? -1) || []);
+
   const withinJanToJun = (mi: number) => mi >= 6 && mi <= 11;
   const isAdjacentMonth = (a: number, b: number) => Math.abs(a - b) === 1;
 
   // Edit dialog state
   const [edit, setEdit] = useState<{ open: boolean; fid?: string; key?: string }>({ open: false });
+  const [pins, setPins] = useState<PinnedAssignments>(loadPins);
+  const [infeasibility, setInfeasibility] = useState<{ open: boolean; report: InfeasibilityReport | null }>({
+    open: false,
+    report: null,
+  });
   
   // Drag and drop state
   const [dragData, setDragData] = useState<{ fellowId: string; blockKey: string; rotation: string } | null>(null);
-const rotationOptions = useMemo<Rotation[]>(
-    () =>
-      activePGY === "PGY-5"
-        ? [
-            "VAC",
-            "LAC_CATH",
-            "CCU",
-            "LAC_CONSULT",
-            "HF",
-            "KECK_CONSULT",
-            "ECHO2",
-            "EP",
-            "NUCLEAR",
-            "NONINVASIVE",
-            "ELECTIVE",
-          ]
-        : activePGY === "PGY-6"
-        ? [
-            "VAC",
-            "LAC_CATH",
-            "HF",
-            "KECK_CONSULT",
-            "ECHO2",
-            "EP",
-            "NUCLEAR",
-            "NONINVASIVE",
-            "ELECTIVE",
-          ]
-        : ["VAC", "LAC_CATH", "CCU", "LAC_CONSULT", "HF", "KECK_CONSULT", "ECHO1", "EP", "ELECTIVE"],
-    [activePGY]
+  const rotationCatalog = useMemo(() => loadSettings().rotationCatalog, []);
+  const rotationOptions = useMemo<Rotation[]>(
+    () => getRotationOptionsForPGY(rotationCatalog, activePGY === "TOTAL" ? "PGY-4" : activePGY),
+    [activePGY, rotationCatalog]
   );
   const openEdit = (fid: string, key: string) => {
     if (activePGY === "TOTAL") return;
@@ -144,6 +178,11 @@ const rotationOptions = useMemo<Rotation[]>(
     if (!schedule || !edit.fid || !edit.key) return undefined;
     return schedule.byFellow?.[edit.fid]?.[edit.key];
   }, [schedule, edit.fid, edit.key]);
+  const editPinned = !!edit.fid && !!edit.key && !!currentLabelForEdit && pins.rotations[edit.fid]?.[edit.key] === currentLabelForEdit;
+  const toggleEditPin = () => {
+    if (!edit.fid || !edit.key || !currentLabelForEdit) return;
+    setPins(setRotationPin(edit.fid, edit.key, editPinned ? null : currentLabelForEdit));
+  };
 
   const applyEdit = (action: { type: "set"; rotation: Rotation } | { type: "clear" }) => {
     if (activePGY === "TOTAL" || !schedule || !edit.fid || !edit.key) {
@@ -152,6 +191,7 @@ const rotationOptions = useMemo<Rotation[]>(
     }
     const fid = edit.fid;
     const k = edit.key;
+    labelEdit(`Edit ${activePGY} ${k}`);
     const mi = keyToMonth.get(k);
     if (mi == null) {
       setEdit({ open: false });
@@ -181,9 +221,11 @@ const rotationOptions = useMemo<Rotation[]>(
         version: 1,
         pgy: activePGY as PGY,
         byFellow: { ...schedule.byFellow, [fid]: row },
+        seed: schedule.seed,
       };
       setSchedule(newSchedule);
       saveSchedule(activePGY as PGY, newSchedule);
+      setPins(releaseChangedRotationPins(newSchedule.byFellow));
       setEdit({ open: false });
       toast({ title: "Assignment cleared", description: "Block assignment cleared successfully." });
       return;
@@ -263,6 +305,7 @@ const rotationOptions = useMemo<Rotation[]>(
     };
     setSchedule(newSchedule);
     saveSchedule(activePGY as PGY, newSchedule);
+    setPins(releaseChangedRotationPins(newSchedule.byFellow));
   };
 
   const applyNonVacationAssignment = (fid: string, k: string, rotation: Rotation) => {
@@ -276,8 +319,8 @@ const rotationOptions = useMemo<Rotation[]>(
         toast({ variant: "destructive", title: "Invalid HF placement", description: "HF must be a full month between Jan and Jun." });
         return;
       }
-      const keys = monthToKeys.get(mi) || [];
-      if (keys.length < 2) {
+      const keys = monthKeysFor(k);
+      if (keys.length < perMonth) {
         toast({ variant: "destructive", title: "Invalid HF placement", description: "HF requires both blocks in the month." });
         return;
       }
@@ -285,9 +328,9 @@ const rotationOptions = useMemo<Rotation[]>(
         row[kk] = "HF";
       }
     } else if (rotation === "KECK_CONSULT" && activePGY === "PGY-5") {
-      const keys = monthToKeys.get(mi) || [];
-      if (keys.length < 2) {
-        toast({ variant: "destructive", title: "Invalid KECK_CONSULT placement", description: "KECK_CONSULT must be a full month (2 blocks)." });
+      const keys = monthKeysFor(k);
+      if (keys.length < perMonth) {
+        toast({ variant: "destructive", title: "Invalid KECK_CONSULT placement", description: `KECK_CONSULT must be a full month (${perMonth} blocks).` });
         return;
       }
       for (const kk of keys) {
@@ -297,7 +340,7 @@ const rotationOptions = useMemo<Rotation[]>(
       row[k] = rotation;
       // avoid orphaned single HF in the same month (PGY-4 only)
       if (activePGY === "PGY-4") {
-        const keys = monthToKeys.get(mi) || [];
+        const keys = monthKeysFor(k);
         const other = keys.find((kk) => kk !== k);
         if (other && row[other] === "HF") {
           delete row[other];
@@ -311,6 +354,7 @@ const rotationOptions = useMemo<Rotation[]>(
     };
     setSchedule(newSchedule);
     saveSchedule(activePGY as PGY, newSchedule);
+    setPins(releaseChangedRotationPins(newSchedule.byFellow));
     
     // Validation logic that was originally in applyEdit
     if (activePGY === "PGY-4") {
@@ -329,8 +373,8 @@ const rotationOptions = useMemo<Rotation[]>(
           toast({ variant: "destructive", title: "HF rule violation", description: "HF month must be between January and June." });
           return;
         }
-        if (arr.length !== 2) {
-          toast({ variant: "destructive", title: "HF rule violation", description: "HF must be a full month (2 consecutive blocks)." });
+        if (arr.length < perMonth) {
+          toast({ variant: "destructive", title: "HF rule violation", description: `HF must be a full month (${perMonth} consecutive blocks).` });
           return;
         }
       }
@@ -377,9 +421,9 @@ const rotationOptions = useMemo<Rotation[]>(
           const mii = keyToMonth.get(kk);
           if (mii != null) kcMonths.set(mii, (kcMonths.get(mii) || 0) + 1);
         }
-        const valid = Array.from(kcMonths.values()).some((c) => c === 2) && kcKeys.length === 2 && kcMonths.size === 1;
+        const valid = Array.from(kcMonths.values()).some((c) => c === perMonth) && kcKeys.length === perMonth && kcMonths.size === 1;
         if (!valid) {
-          toast({ variant: "destructive", title: "KECK_CONSULT rule", description: "KECK_CONSULT must be a full month (2 blocks in same month)." });
+          toast({ variant: "destructive", title: "KECK_CONSULT rule", description: `KECK_CONSULT must be a full month (${perMonth} blocks in same month).` });
           return;
         }
       }
@@ -430,9 +474,10 @@ const rotationOptions = useMemo<Rotation[]>(
 
     const nextByFellow: Record<string, Record<string, string | undefined>> = { ...(schedule.byFellow || {}) };
     nextByFellow[fid] = row;
-    const next: StoredSchedule = { version: 1, pgy: activePGY as PGY, byFellow: nextByFellow };
+    const next: StoredSchedule = { version: 1, pgy: activePGY as PGY, byFellow: nextByFellow, seed: schedule.seed };
     saveSchedule(activePGY as PGY, next);
     setSchedule(next);
+    setPins(releaseChangedRotationPins(next.byFellow));
     setEdit({ open: false });
     toast({ title: "Block updated", description: "Assignment updated successfully." });
   };
@@ -504,7 +549,9 @@ const rotationOptions = useMemo<Rotation[]>(
       console.log("📋 New schedule byFellow:", JSON.stringify(result.schedule.byFellow, null, 2));
       
       // Save to localStorage first
+      labelEdit(`Move ${activePGY} ${dragBlockKey} → ${dropBlockKey}`);
       saveSchedule(activePGY as PGY, result.schedule);
+      setPins(releaseChangedRotationPins(result.schedule.byFellow));
       console.log("💾 Saved to localStorage");
       
       // Force state update with new object reference
@@ -541,8 +588,10 @@ const rotationOptions = useMemo<Rotation[]>(
             );
             
             if (retryResult.success && retryResult.schedule) {
+              labelEdit(`Move ${activePGY} ${dragBlockKey} → ${dropBlockKey}`);
               saveSchedule(activePGY as PGY, retryResult.schedule);
               setSchedule({ ...retryResult.schedule });
+              setPins(releaseChangedRotationPins(retryResult.schedule.byFellow));
               toast({ 
                 title: "Block moved", 
                 description: "Vacation conflict overridden. Assignment updated successfully.",
@@ -564,9 +613,9 @@ const rotationOptions = useMemo<Rotation[]>(
 
   useEffect(() => {
     setBlocks(
-      generateAcademicYearBlocks(toAcademicYearJuly1(setup?.yearStart ?? new Date().toISOString().slice(0, 10)))
+      generateAcademicYearBlocks(setup?.yearStart ?? defaultYearStart(), loadSettings().blockCalendar, setup?.yearEnd)
     );
-  }, [setup?.yearStart]);
+  }, [setup?.yearStart, setup?.yearEnd]);
 
   useEffect(() => {
     if (activePGY === "TOTAL") {
@@ -576,7 +625,7 @@ const rotationOptions = useMemo<Rotation[]>(
     }
   }, [activePGY]);
 
-  const sortedBlocks = useMemo(() => sortJulToJun(blocks), [blocks]);
+  const sortedBlocks = useMemo(() => sortByStart(blocks), [blocks]);
   const displayByFellow = useMemo(() => {
     console.log("🔄 Recomputing displayByFellow", { activePGY, scheduleExists: !!schedule });
     if (activePGY === "TOTAL") {
@@ -615,7 +664,7 @@ const rotationOptions = useMemo<Rotation[]>(
       const vacKeys = Object.entries(entries)
         .filter(([, v]) => v === "VAC")
         .map(([k]) => k);
-      return { id: f.id, name: f.name, count: vacKeys.length, spacingOk: hasMinSpacing(sortedBlocks, vacKeys, 6) };
+      return { id: f.id, name: f.name, count: vacKeys.length, spacingOk: hasMinSpacing(sortedBlocks, vacKeys, loadSettings().vacation.minSpacingBlocks) };
     });
   }, [fellows, sortedBlocks, displayByFellow]);
 
@@ -625,29 +674,8 @@ const rotationOptions = useMemo<Rotation[]>(
       const row = displayByFellow[fid] || {};
       for (const v of Object.values(row)) if (v) set.add(v);
     }
-    const order = [
-      "VAC",
-      "LAC_CATH",
-      "CCU",
-      "LAC_CONSULT",
-      "HF",
-      "KECK_CONSULT",
-      "ECHO1",
-      "ECHO2",
-      "EP",
-      "NUCLEAR",
-      "NONINVASIVE",
-      "ELECTIVE",
-    ];
-    return Array.from(set).sort((a, b) => {
-      const ia = order.indexOf(a);
-      const ib = order.indexOf(b);
-      if (ia !== -1 && ib !== -1) return ia - ib;
-      if (ia !== -1) return -1;
-      if (ib !== -1) return 1;
-      return a.localeCompare(b);
-    });
-  }, [displayByFellow]);
+    return Array.from(set).sort(compareByCatalogOrder(rotationCatalog));
+  }, [displayByFellow, rotationCatalog]);
 
   const rotationsInUseCombined = useMemo(() => {
     const set = new Set<string>();
@@ -663,29 +691,8 @@ const rotationOptions = useMemo<Rotation[]>(
     add(p4?.byFellow);
     add(p5?.byFellow);
     add(p6?.byFellow);
-    const order = [
-      "VAC",
-      "LAC_CATH",
-      "CCU",
-      "LAC_CONSULT",
-      "HF",
-      "KECK_CONSULT",
-      "ECHO1",
-      "ECHO2",
-      "EP",
-      "NUCLEAR",
-      "NONINVASIVE",
-      "ELECTIVE",
-    ];
-    return Array.from(set).sort((a, b) => {
-      const ia = order.indexOf(a);
-      const ib = order.indexOf(b);
-      if (ia !== -1 && ib !== -1) return ia - ib;
-      if (ia !== -1) return -1;
-      if (ib !== -1) return 1;
-      return a.localeCompare(b);
-    });
-  }, [schedule, activePGY]);
+    return Array.from(set).sort(compareByCatalogOrder(rotationCatalog));
+  }, [schedule, activePGY, rotationCatalog]);
 
   const blockRotationCounts = useMemo(() => {
     const m: Record<string, Record<string, number>> = {};
@@ -724,7 +731,36 @@ const rotationOptions = useMemo<Rotation[]>(
     }
     return res;
   }, [fellows, displayByFellow]);
-const handleBuildVacations = () => {
+  const explainRotationsAction = (pgy: PGY, baseByFellow: FellowSchedule | undefined) => (
+    <ToastAction
+      altText="Explain why rotations could not be placed"
+      onClick={() =>
+        setInfeasibility({ open: true, report: analyzeRotationFailure(pgy, fellows, blocks, baseByFellow) })
+      }
+    >
+      Explain
+    </ToastAction>
+  );
+
+  // Re-run the failed placement; relaxed rotation rules are only honored by the constraint solver
+  const retryFromReport = (report: InfeasibilityReport, engine: RotationSolverEngine = solverEngine) => {
+    setInfeasibility({ open: false, report: null });
+    if (report.kind === "vacations") return handleBuildVacations();
+    if (report.pgy === "PGY-4") return handlePlaceRotations(engine);
+    if (report.pgy === "PGY-5") return handlePlaceRotationsPGY5(engine);
+    return handlePlaceRotationsPGY6(engine);
+  };
+
+  const handleRelaxConflict = (entry: ConflictEntry) => {
+    const report = infeasibility.report;
+    if (!report || !entry.relax) return;
+    entry.relax.apply();
+    toast({ title: "Rule relaxed", description: `${entry.relax.label}. Retrying ${report.pgy} ${report.kind}.` });
+    if (report.kind === "rotations") setSolverEngine("cp");
+    retryFromReport(report, "cp");
+  };
+
+const handleBuildVacations = async () => {
     if (!setup) {
       toast({ variant: "destructive", title: "No setup found", description: "Please configure fellows first." });
       return;
@@ -738,24 +774,42 @@ const handleBuildVacations = () => {
       return;
     }
     
-    const result = buildVacationScheduleForPGY(fellows, blocks, { randomize: true, maxAttempts: 20000, timeout: 60000 });
+    const outcome = await runReportedJob({
+      kind: "vacations",
+      fellows,
+      blocks,
+      seed: parseSeed(seedText),
+      options: { randomize: true, maxAttempts: 20000, timeout: 60000 },
+    });
+    if (!outcome || outcome.status === "cancelled") return;
+    const result = outcome.result;
     if (!result.success) {
       const detailedErrors = result.conflicts?.slice(0, 3).join('; ') || "No assignment satisfies all constraints.";
+      const pgy = activePGY;
       toast({
         variant: "destructive",
         title: "Unable to place vacations",
         description: `Tried ${result.tried} assignments. ${detailedErrors}`,
+        action: (
+          <ToastAction
+            altText="Explain why vacations could not be placed"
+            onClick={() => setInfeasibility({ open: true, report: analyzeVacationFailure(pgy, fellows, blocks) })}
+          >
+            Explain
+          </ToastAction>
+        ),
       });
       console.error("Vacation placement failed:", result.conflicts);
       return;
     }
     
     const next: StoredSchedule = { version: 1, pgy: activePGY, byFellow: result.byFellow };
+    labelEdit(`Place ${activePGY} vacations`);
     saveSchedule(activePGY, next);
     setSchedule(next);
     
     // Show success message with partial assignment info
-    let description = `Draft schedule built for ${activePGY}.`;
+    let description = `Draft schedule built for ${activePGY}${result.seed !== undefined ? ` (seed ${result.seed})` : ""}.`;
     if (result.partialAssignments && result.partialAssignments.length > 0) {
       description += ` Note: ${result.partialAssignments.length} fellow(s) received fewer than 2 vacations: ${result.partialAssignments.join(", ")}`;
     }
@@ -763,7 +817,7 @@ const handleBuildVacations = () => {
     toast({ title: "Vacations placed", description });
   };
 
-const handlePlaceRotations = () => {
+const handlePlaceRotations = async (engine: RotationSolverEngine = solverEngine, seed = parseSeed(seedText)) => {
     if (!setup) {
       toast({ variant: "destructive", title: "No setup found", description: "Please configure fellows first." });
       return;
@@ -781,11 +835,22 @@ const handlePlaceRotations = () => {
           ])
         ) as Record<string, Record<string, string | undefined>>
       : undefined;
-    const res = placePGY4Rotations(fellows, blocks, baseByFellow, { 
-      randomize: true, 
-      maxTries: 2000,
-      timeout: 60000 
+    const outcome = await runReportedJob({
+      kind: "rotations",
+      pgy: "PGY-4",
+      engine,
+      seed,
+      fellows,
+      blocks,
+      base: baseByFellow,
+      options: {
+        randomize: true, 
+        maxTries: 2000,
+        timeout: 60000 
+      },
     });
+    if (!outcome || outcome.status === "cancelled") return;
+    const res = outcome.result;
     if (!res.success) {
       const detailedMessage = res.diagnostics?.lastAttemptDetails 
         ? `${res.conflicts?.[0] || "No solution found."}\n\nDiagnostics: ${res.diagnostics.lastAttemptDetails}`
@@ -793,11 +858,13 @@ const handlePlaceRotations = () => {
       toast({ 
         variant: "destructive", 
         title: `Unable to place rotations${res.timeout ? " (timed out)" : ""}`, 
-        description: detailedMessage 
+        description: detailedMessage,
+        action: explainRotationsAction(activePGY, baseByFellow),
       });
       return;
     }
-    const next: StoredSchedule = { version: 1, pgy: activePGY, byFellow: res.byFellow };
+    const next: StoredSchedule = { version: 1, pgy: activePGY, byFellow: res.byFellow, seed: res.seed };
+    labelEdit(`Place ${activePGY} rotations`);
     saveSchedule(activePGY, next);
     setSchedule(next);
     
@@ -807,11 +874,13 @@ const handlePlaceRotations = () => {
       title: usedFallback ? "Schedule generated with conflict resolution" : "Rotations placed",
       description: usedFallback 
         ? "Shared vacation conflicts were automatically resolved during generation." 
+        : res.objective
+        ? `PGY-4 rotations reshuffled from vacations. ${formatRotationObjective(res.objective)}.`
         : "PGY-4 rotations reshuffled from vacations."
     });
   };
 
-  const handlePlaceRotationsPGY5 = () => {
+  const handlePlaceRotationsPGY5 = async (engine: RotationSolverEngine = solverEngine, seed = parseSeed(seedText)) => {
     if (!setup) {
       toast({ variant: "destructive", title: "No setup found", description: "Please configure fellows first." });
       return;
@@ -829,11 +898,22 @@ const handlePlaceRotations = () => {
           ])
         ) as Record<string, Record<string, string | undefined>>
       : undefined;
-    const res = placePGY5Rotations(fellows, blocks, baseByFellow, { 
-      randomize: true, 
-      maxTries: 25000, // Dramatically increased for PGY-5 complex constraints
-      timeout: 150000 // 2.5 minutes for intensive search
+    const outcome = await runReportedJob({
+      kind: "rotations",
+      pgy: "PGY-5",
+      engine,
+      seed,
+      fellows,
+      blocks,
+      base: baseByFellow,
+      options: {
+        randomize: true, 
+        maxTries: 25000, // Dramatically increased for PGY-5 complex constraints
+        timeout: 150000 // 2.5 minutes for intensive search
+      },
     });
+    if (!outcome || outcome.status === "cancelled") return;
+    const res = outcome.result;
     if (!res.success) {
       const detailedMessage = res.diagnostics?.lastAttemptDetails 
         ? `${res.conflicts?.[0] || "No solution found."}\n\nDiagnostics: ${res.diagnostics.lastAttemptDetails}`
@@ -841,11 +921,13 @@ const handlePlaceRotations = () => {
       toast({ 
         variant: "destructive", 
         title: `Unable to place rotations${res.timeout ? " (timed out)" : ""}`, 
-        description: detailedMessage 
+        description: detailedMessage,
+        action: explainRotationsAction(activePGY, baseByFellow),
       });
       return;
     }
-    const next: StoredSchedule = { version: 1, pgy: activePGY, byFellow: res.byFellow };
+    const next: StoredSchedule = { version: 1, pgy: activePGY, byFellow: res.byFellow, seed: res.seed };
+    labelEdit(`Place ${activePGY} rotations`);
     saveSchedule(activePGY, next);
     setSchedule(next);
     
@@ -855,11 +937,13 @@ const handlePlaceRotations = () => {
       title: usedFallback ? "Schedule generated with conflict resolution" : "Rotations placed",
       description: usedFallback 
         ? "Shared vacation conflicts were automatically resolved during generation." 
+        : res.objective
+        ? `PGY-5 rotations assigned. ${formatRotationObjective(res.objective)}.`
         : "PGY-5 rotations assigned."
     });
   };
 
-  const handlePlaceRotationsPGY6 = () => {
+  const handlePlaceRotationsPGY6 = async (engine: RotationSolverEngine = solverEngine, seed = parseSeed(seedText)) => {
     if (!setup) {
       toast({ variant: "destructive", title: "No setup found", description: "Please configure fellows first." });
       return;
@@ -876,11 +960,22 @@ const handlePlaceRotations = () => {
           ])
         ) as Record<string, Record<string, string | undefined>>
       : undefined;
-    const res = placePGY6Rotations(fellows, blocks, baseByFellow, { 
-      randomize: true, 
-      maxTries: 3000,
-      timeout: 90000 
+    const outcome = await runReportedJob({
+      kind: "rotations",
+      pgy: "PGY-6",
+      engine,
+      seed,
+      fellows,
+      blocks,
+      base: baseByFellow,
+      options: {
+        randomize: true, 
+        maxTries: 3000,
+        timeout: 90000 
+      },
     });
+    if (!outcome || outcome.status === "cancelled") return;
+    const res = outcome.result;
     if (!res.success) {
       const detailedMessage = res.diagnostics?.lastAttemptDetails 
         ? `${res.conflicts?.[0] || "No solution found."}\n\nDiagnostics: ${res.diagnostics.lastAttemptDetails}`
@@ -888,11 +983,13 @@ const handlePlaceRotations = () => {
       toast({ 
         variant: "destructive", 
         title: `Unable to place rotations${res.timeout ? " (timed out)" : ""}`, 
-        description: detailedMessage 
+        description: detailedMessage,
+        action: explainRotationsAction(activePGY, baseByFellow),
       });
       return;
     }
-    const next: StoredSchedule = { version: 1, pgy: activePGY, byFellow: res.byFellow };
+    const next: StoredSchedule = { version: 1, pgy: activePGY, byFellow: res.byFellow, seed: res.seed };
+    labelEdit(`Place ${activePGY} rotations`);
     saveSchedule(activePGY, next);
     setSchedule(next);
     
@@ -902,10 +999,21 @@ const handlePlaceRotations = () => {
       title: usedFallback ? "Schedule generated with conflict resolution" : "Rotations placed",
       description: usedFallback 
         ? "Shared vacation conflicts were automatically resolved during generation." 
+        : res.objective
+        ? `PGY-6 rotations assigned. ${formatRotationObjective(res.objective)}.`
         : "PGY-6 rotations assigned."
     });
   };
 
+  // Re-run the heuristic placement with the seed stored on the current schedule
+  const handleRegenerateSameSeed = () => {
+    const seed = schedule?.seed;
+    if (seed === undefined) return;
+    if (activePGY === "PGY-4") return handlePlaceRotations("heuristic", seed);
+    if (activePGY === "PGY-5") return handlePlaceRotationsPGY5("heuristic", seed);
+    if (activePGY === "PGY-6") return handlePlaceRotationsPGY6("heuristic", seed);
+  };
+
   const handleClearRotations = () => {
     if (activePGY !== "PGY-4" && activePGY !== "PGY-5" && activePGY !== "PGY-6") return;
     if (!schedule) return;
@@ -916,6 +1024,7 @@ const handlePlaceRotations = () => {
       cleaned[fid] = nr;
     }
     const next: StoredSchedule = { version: 1, pgy: activePGY, byFellow: cleaned };
+    labelEdit(`Clear ${activePGY} rotations`);
     saveSchedule(activePGY, next);
     setSchedule(next);
     toast({ title: "Rotations cleared", description: "Kept vacations; removed other assignments." });
@@ -931,58 +1040,12 @@ const handlePlaceRotations = () => {
       cleaned[fid] = nr;
     }
     const next: StoredSchedule = { version: 1, pgy: activePGY, byFellow: cleaned };
+    labelEdit(`Clear ${activePGY} vacations`);
     saveSchedule(activePGY, next);
     setSchedule(next);
     toast({ title: "Vacations cleared", description: "Kept rotations; removed vacation assignments." });
   };
 
-  // Convert HSL to hex color for Excel
-  const hslToHex = (hsl: string): string => {
-    const match = hsl.match(/hsl\((\d+),\s*(\d+)%,\s*(\d+)%\)/);
-    if (!match) return "#FFFFFF";
-    
-    const h = parseInt(match[1]) / 360;
-    const s = parseInt(match[2]) / 100;
-    const l = parseInt(match[3]) / 100;
-    
-    const c = (1 - Math.abs(2 * l - 1)) * s;
-    const x = c * (1 - Math.abs((h * 6) % 2 - 1));
-    const m = l - c / 2;
-    
-    let r = 0, g = 0, b = 0;
-    if (0 <= h && h < 1/6) { r = c; g = x; b = 0; }
-    else if (1/6 <= h && h < 2/6) { r = x; g = c; b = 0; }
-    else if (2/6 <= h && h < 3/6) { r = 0; g = c; b = x; }
-    else if (3/6 <= h && h < 4/6) { r = 0; g = x; b = c; }
-    else if (4/6 <= h && h < 5/6) { r = x; g = 0; b = c; }
-    else if (5/6 <= h && h < 1) { r = c; g = 0; b = x; }
-    
-    r = Math.round((r + m) * 255);
-    g = Math.round((g + m) * 255);
-    b = Math.round((b + m) * 255);
-    
-    return `#${r.toString(16).padStart(2, '0')}${g.toString(16).padStart(2, '0')}${b.toString(16).padStart(2, '0')}`;
-  };
-
-  // Get rotation color mapping
-  const getRotationColor = (rotation: string): string => {
-    const colorMap: Record<string, string> = {
-      'VAC': hslToHex('hsl(var(--secondary))'),
-      'LAC_CATH': hslToHex('hsl(215, 100%, 85%)'), // rot-lac-cath
-      'CCU': hslToHex('hsl(200, 95%, 80%)'), // rot-ccu
-      'LAC_CONSULT': hslToHex('hsl(45, 90%, 80%)'), // rot-lac-consult
-      'HF': hslToHex('hsl(280, 85%, 85%)'), // rot-hf
-      'KECK_CONSULT': hslToHex('hsl(25, 85%, 80%)'), // rot-keck-consult
-      'ECHO1': hslToHex('hsl(160, 75%, 80%)'), // rot-echo1
-      'ECHO2': hslToHex('hsl(140, 75%, 80%)'), // rot-echo2
-      'EP': hslToHex('hsl(350, 80%, 85%)'), // rot-ep
-      'NUCLEAR': hslToHex('hsl(60, 80%, 80%)'), // rot-nuclear
-      'NONINVASIVE': hslToHex('hsl(180, 70%, 80%)'), // rot-noninvasive
-      'ELECTIVE': hslToHex('hsl(120, 70%, 80%)'), // rot-elective
-    };
-    return colorMap[rotation] || '#FFFFFF';
-  };
-
   const exportExcel = async () => {
     const workbook = new ExcelJS.Workbook();
     const worksheet = workbook.addWorksheet('Block Schedule');
@@ -1019,7 +1082,7 @@ const handlePlaceRotations = () => {
         const rotation = displayByFellow[fellow.id]?.[block.key];
         if (rotation && rotation !== '') {
           const cell = row.getCell(index + 3); // +3 because we have Fellow and Vacation Preferences columns
-          const color = getRotationColor(rotation);
+          const color = getRotationColor(rotationCatalog, rotation);
           cell.fill = { type: 'pattern', pattern: 'solid', fgColor: { argb: color.replace('#', 'FF') } };
         }
       });
@@ -1088,10 +1151,13 @@ const handlePlaceRotations = () => {
           <CardHeader>
             <CardTitle className="font-display">Build by PGY year</CardTitle>
           </CardHeader>
-          <CardContent>
+          <CardContent className="space-y-4">
             <div className="flex flex-col gap-4 md:flex-row md:items-center md:justify-between">
               <div className="text-sm text-muted-foreground">
-                Academic year start: <span className="font-medium text-foreground">{setup.yearStart}</span>
+                Academic year:{" "}
+                <span className="font-medium text-foreground">
+                  {setup.yearStart} – {academicYearEnd(setup.yearStart, setup.yearEnd)}
+                </span>
               </div>
               <div className="flex flex-wrap items-center gap-2">
 <Tabs value={activePGY} onValueChange={(v) => setActivePGY(v as PGY | "TOTAL")}>
@@ -1102,30 +1168,57 @@ const handlePlaceRotations = () => {
                     <TabsTrigger value="TOTAL">TOTAL</TabsTrigger>
                   </TabsList>
                 </Tabs>
-                <Button variant="outline" onClick={handleBuildVacations} disabled={activePGY === "TOTAL"}>
+                <Select value={halfMonthCalendar ? solverEngine : "cp"} onValueChange={(v) => setSolverEngine(v as RotationSolverEngine)}>
+                  <SelectTrigger className="w-[190px]" aria-label="Rotation solver">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {ROTATION_SOLVER_ENGINES.map((engine) => (
+                      <SelectItem
+                        key={engine.value}
+                        value={engine.value}
+                        title={engine.description}
+                        disabled={engine.value === "heuristic" && !halfMonthCalendar}
+                      >
+                        {engine.label}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <SeedField value={seedText} onChange={setSeedText} disabled={jobRunning} />
+                <Button variant="outline" onClick={handleBuildVacations} disabled={activePGY === "TOTAL" || jobRunning}>
                   <RefreshCw className="mr-2 h-4 w-4" /> Place Vacations (Max 2 per block, preference-only)
                 </Button>
                 <Button
                   variant="outline"
-                  onClick={handlePlaceRotations}
-                  disabled={activePGY !== "PGY-4" || fellows.length === 0}
+                  onClick={() => handlePlaceRotations()}
+                  disabled={activePGY !== "PGY-4" || fellows.length === 0 || jobRunning}
                 >
                   <RefreshCw className="mr-2 h-4 w-4" /> Place Rotations (PGY-4)
                 </Button>
                 <Button
                   variant="outline"
-                  onClick={handlePlaceRotationsPGY5}
-                  disabled={activePGY !== "PGY-5" || fellows.length === 0}
+                  onClick={() => handlePlaceRotationsPGY5()}
+                  disabled={activePGY !== "PGY-5" || fellows.length === 0 || jobRunning}
                 >
                   <RefreshCw className="mr-2 h-4 w-4" /> Place Rotations (PGY-5)
                 </Button>
                 <Button
                   variant="outline"
-                  onClick={handlePlaceRotationsPGY6}
-                  disabled={activePGY !== "PGY-6" || fellows.length === 0}
+                  onClick={() => handlePlaceRotationsPGY6()}
+                  disabled={activePGY !== "PGY-6" || fellows.length === 0 || jobRunning}
                 >
                   <RefreshCw className="mr-2 h-4 w-4" /> Place Rotations (PGY-6)
                 </Button>
+                <Button
+                  variant="outline"
+                  onClick={handleRegenerateSameSeed}
+                  disabled={activePGY === "TOTAL" || schedule?.seed === undefined || jobRunning}
+                  title="Re-run the heuristic rotation placement with the seed that produced this schedule"
+                >
+                  <Repeat className="mr-2 h-4 w-4" /> Regenerate with same seed
+                  {schedule?.seed !== undefined ? ` (${schedule.seed})` : ""}
+                </Button>
                 <Button
                   variant="outline"
                   onClick={handleClearRotations}
@@ -1143,11 +1236,15 @@ const handlePlaceRotations = () => {
                 <Button variant="outline" onClick={exportExcel} disabled={fellows.length === 0}>
                   <Download className="mr-2 h-4 w-4" /> Export Excel
                 </Button>
+                <CalendarExportMenu fellows={setup?.fellows ?? []} />
               </div>
             </div>
+            <EngineJobProgress running={jobRunning} progress={jobProgress} onCancel={cancelJob} />
           </CardContent>
         </Card>
 
+        <TrainingRequirementsCard progress={training} />
+
         <div className="grid gap-6 md:grid-cols-3">
           <div className={`rounded-md border overflow-x-auto md:col-span-3`}>
             <DndContext onDragStart={handleDragStart} onDragEnd={handleDragEnd}>
@@ -1225,15 +1322,18 @@ const handlePlaceRotations = () => {
                                         ? "rot-noninvasive"
                                         : "rot-elective"
                                     }
+                                    style={getRotationBadgeStyle(label, rotationCatalog)}
                                     onClick={() => openEdit(f.id, b.key)}
                                   >
-                                    {getRotationDisplayName(label as any)}
+                                    {getRotationDisplayName(label, rotationCatalog)}
+                                    {pins.rotations[f.id]?.[b.key] === label && <Pin className="ml-1 h-3 w-3" aria-label="Pinned" />}
                                   </DraggableBadge>
                                 ) : (
                                   <Badge
-                                    variant={getRotationBadgeVariant(label as any) as any}
+                                    variant={getRotationBadgeVariant(label) as any}
+                                    style={getRotationBadgeStyle(label, rotationCatalog)}
                                   >
-                                    {getRotationDisplayName(label as any)}
+                                    {getRotationDisplayName(label, rotationCatalog)}
                                   </Badge>
                                 )
                               ) : (
@@ -1322,7 +1422,7 @@ const handlePlaceRotations = () => {
                             return (
                               <div key={rot} className="flex items-center justify-center">
                                 {c > 0 ? (
-                                  <Badge variant={variant as any} className="text-[10px] px-2 py-0.5">
+                                  <Badge variant={variant as any} style={getRotationBadgeStyle(rot, rotationCatalog)} className="text-[10px] px-2 py-0.5">
                                     {c} {baseLabel}
                                     {plural}
                                   </Badge>
@@ -1382,7 +1482,7 @@ const handlePlaceRotations = () => {
                               return (
                                 <div key={rot} className="flex items-center justify-center">
                                   {c > 0 ? (
-                                    <Badge variant={variant as any} className="text-[10px] px-2 py-0.5">
+                                    <Badge variant={variant as any} style={getRotationBadgeStyle(rot, rotationCatalog)} className="text-[10px] px-2 py-0.5">
                                       {c} {baseLabel}
                                       {plural}
                                     </Badge>
@@ -1415,9 +1515,24 @@ const handlePlaceRotations = () => {
           blockLabel={selectedBlock?.label || ""}
           currentLabel={currentLabelForEdit}
           options={rotationOptions}
+          pinned={editPinned}
+          onTogglePin={toggleEditPin}
           onApply={(val) => applyEdit(val)}
         />
 
+        <InfeasibilityDialog
+          open={infeasibility.open}
+          onOpenChange={(open) => setInfeasibility((prev) => ({ ...prev, open }))}
+          report={infeasibility.report}
+          relaxedRules={infeasibility.report ? getRelaxedSolverRules(infeasibility.report.pgy) : []}
+          onRelax={handleRelaxConflict}
+          onRestoreRelaxed={() => {
+            if (!infeasibility.report) return;
+            restoreSolverRules(infeasibility.report.pgy);
+            setInfeasibility((prev) => ({ ...prev }));
+          }}
+          onRetry={() => infeasibility.report && retryFromReport(infeasibility.report)}
+        />
         <VacationConflictDialog
           open={vacationConflictDialog.open}
           onOpenChange={(open) => 
@@ -1444,37 +1559,13 @@ function quote(s: string) {
   return s;
 }
 
-function toAcademicYearJuly1(startIso: string): string {
-  const d = new Date(startIso);
-  if (isNaN(d.getTime())) {
-    const y = new Date().getFullYear();
-    return `${y}-07-01`;
-  }
+// July 1 of the current academic year, used until Setup is saved
+function defaultYearStart(): string {
+  const d = new Date();
   const y = d.getMonth() >= 6 ? d.getFullYear() : d.getFullYear() - 1;
   return `${y}-07-01`;
 }
 
-const MONTH_ORDER = [
-  "JUL",
-  "AUG",
-  "SEP",
-  "OCT",
-  "NOV",
-  "DEC",
-  "JAN",
-  "FEB",
-  "MAR",
-  "APR",
-  "MAY",
-  "JUN",
-] as const;
-
-function sortJulToJun(blocks: BlockInfo[]): BlockInfo[] {
-  const order = new Map<string, number>(MONTH_ORDER.map((m, i) => [m, i] as const));
-  return [...blocks].sort((a, b) => {
-    const oa = order.get(a.key.slice(0, 3)) ?? 0;
-    const ob = order.get(b.key.slice(0, 3)) ?? 0;
-    if (oa !== ob) return oa - ob;
-    return a.half - b.half;
-  });
+function sortByStart(blocks: BlockInfo[]): BlockInfo[] {
+  return [...blocks].sort((a, b) => a.start.localeCompare(b.start));
 }
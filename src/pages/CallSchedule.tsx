@@ -1,23 +1,28 @@
 import { useEffect, useMemo, useState } from "react";
-import { useLocation } from "react-router-dom";
-import { HeartPulse, Loader2, RefreshCcw, Trash2, CheckCircle, Download } from "lucide-react";
+import { useLocation, useSearchParams } from "react-router-dom";
+import { HeartPulse, Loader2, RefreshCcw, Trash2, CheckCircle, Download, Repeat, Pin, CalendarRange } from "lucide-react";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
 import { Tabs, TabsList, TabsTrigger, TabsContent } from "@/components/ui/tabs";
 import { Select, SelectTrigger, SelectValue, SelectContent, SelectItem } from "@/components/ui/select";
 import { Badge } from "@/components/ui/badge";
+import { DropdownMenu, DropdownMenuContent, DropdownMenuItem, DropdownMenuTrigger } from "@/components/ui/dropdown-menu";
 import { useSEO } from "@/lib/seo";
-import { buildPrimaryCallSchedule, loadCallSchedule, saveCallSchedule, saveCoverageMetadata, loadCoverageMetadata, clearCoverageMetadata, applyDragAndDrop, type CallSchedule } from "@/lib/call-engine";
+import { loadCallSchedule, saveCallSchedule, clearCallSchedule, saveCoverageMetadata, loadCoverageMetadata, clearCoverageMetadata, applyDragAndDrop, type CallSchedule } from "@/lib/call-engine";
 import { loadSettings } from "@/lib/settings-engine";
-import { buildHFSchedule, loadHFSchedule, saveHFSchedule, clearHFSchedule, getEffectiveHFAssignment, analyzeHFSchedule, type HFSchedule } from "@/lib/hf-engine";
-import { buildJeopardySchedule, loadJeopardySchedule, saveJeopardySchedule, clearJeopardySchedule, type JeopardySchedule } from "@/lib/jeopardy-engine";
-import { buildClinicSchedule, loadClinicSchedule, saveClinicSchedule, clearClinicSchedule, getClinicAssignmentsForDate, formatClinicAssignments, getClinicNotesForDate, checkSpecialtyClinicCoverage, getFellowRotationOnDate, type ClinicSchedule, type ClinicNote, type ClinicCoverageGap } from "@/lib/clinic-engine";
+import { loadHFSchedule, saveHFSchedule, clearHFSchedule, getEffectiveHFAssignment, analyzeHFSchedule, type HFSchedule } from "@/lib/hf-engine";
+import { loadJeopardySchedule, saveJeopardySchedule, clearJeopardySchedule, type JeopardySchedule } from "@/lib/jeopardy-engine";
+import { loadClinicSchedule, saveClinicSchedule, clearClinicSchedule, getClinicAssignmentsForDate, formatClinicAssignments, getClinicNotesForDate, checkSpecialtyClinicCoverage, getFellowRotationOnDate, type ClinicSchedule, type ClinicNote, type ClinicCoverageGap } from "@/lib/clinic-engine";
 import { getPrimaryRotation } from "@/lib/rotation-engine";
 import { loadSchedule, loadSetup, type PGY, type StoredSchedule } from "@/lib/schedule-engine";
+import { snapshotContext, type ScheduleContext } from "@/lib/schedule-context";
+import { parseSeed } from "@/lib/seeded-random";
 import { computeAcademicYearHolidays } from "@/lib/holidays";
-import { monthAbbrForIndex } from "@/lib/block-utils";
-import { parseISO, format } from "date-fns";
+import { academicYearEnd, academicYearWindow, blockKeyForDate } from "@/lib/block-utils";
+import { parseISO, format, addDays } from "date-fns";
+import { isClinicPinned, loadPins, releaseChangedDayPins, type PinnedAssignments } from "@/lib/pin-engine";
+import { beginEdit, endEdit, labelEdit } from "@/lib/history-engine";
 import ExcelJS from 'exceljs';
 import PrimaryCallEditDialog from "@/components/PrimaryCallEditDialog";
 import HFEditDialog from "@/components/HFEditDialog";
@@ -27,6 +32,11 @@ import ClinicEditDialog from "@/components/ClinicEditDialog";
 import { DraggableBadge } from "@/components/DraggableBadge";
 import { DroppableCell } from "@/components/DroppableCell";
 import { DroppableCalendarDay } from "@/components/DroppableCalendarDay";
+import { EngineJobProgress } from "@/components/EngineJobProgress";
+import { SeedField } from "@/components/SeedField";
+import { RegenerateRangeDialog, type RegenerationParts } from "@/components/RegenerateRangeDialog";
+import { CalendarExportMenu } from "@/components/CalendarExportMenu";
+import { type RegenerationRange } from "@/lib/regeneration-range";
 import { 
   DndContext, 
   DragEndEvent, 
@@ -38,10 +48,13 @@ import {
 } from "@dnd-kit/core";
 import { useToast } from "@/hooks/use-toast";
 import { usePersistentTab } from "@/hooks/use-persistent-tab";
+import { useEngineJob } from "@/hooks/use-engine-job";
 import { useTabScrollRestoration } from "@/hooks/use-tab-scroll-restoration";
+import { storage } from "@/lib/storage-engine";
 
 export default function CallSchedule() {
   const location = useLocation();
+  const [searchParams] = useSearchParams();
   
   useSEO({
     title: "Primary Call Schedule | Cardiology Scheduler",
@@ -57,10 +70,11 @@ export default function CallSchedule() {
   const [success, setSuccess] = useState<boolean | null>(null);
   const [priorSeeds, setPriorSeeds] = useState<Record<string, string>>({});
   const [editISO, setEditISO] = useState<string | null>(null);
+  const [pins, setPins] = useState<PinnedAssignments>(loadPins);
   const [draggedItem, setDraggedItem] = useState<{iso: string; fellowId: string; fellowName: string} | null>(null);
   
-  // Cache block schedules to improve dialog performance
-  const [cachedSchedules, setCachedSchedules] = useState<Record<PGY, StoredSchedule | null> | null>(null);
+  // Cache the saved schedules and settings to improve dialog performance
+  const [cachedContext, setCachedContext] = useState<ScheduleContext | null>(null);
   
   // HF Edit Dialog state
   const [hfEditISO, setHFEditISO] = useState<string | null>(null);
@@ -92,12 +106,15 @@ export default function CallSchedule() {
   // Clinic Schedule state
   const [clinicSchedule, setClinicSchedule] = useState<ClinicSchedule | null>(null);
   const [clinicLoading, setClinicLoading] = useState(false);
+  const [rangeOpen, setRangeOpen] = useState(false);
   const [clinicSuccess, setClinicSuccess] = useState<boolean | null>(null);
   const [clinicCheckLoading, setClinicCheckLoading] = useState(false);
   const [clinicCoverageGaps, setClinicCoverageGaps] = useState<ClinicCoverageGap[]>([]);
   const [exporting, setExporting] = useState(false);
   
   const { toast } = useToast();
+  const { run: runJob, cancel: cancelJob, progress: jobProgress, running: jobRunning } = useEngineJob();
+  const [seedText, setSeedText] = useState("");
   const [activeScheduleView, setActiveScheduleView] = usePersistentTab('callSchedule-view', 'table');
   
   useTabScrollRestoration(location.pathname, activeScheduleView);
@@ -142,18 +159,14 @@ export default function CallSchedule() {
     const existingClinic = loadClinicSchedule();
     if (existingClinic) setClinicSchedule(existingClinic);
     
-    // Load block schedules once for performance optimization
-    setCachedSchedules({
-      "PGY-4": loadSchedule("PGY-4"),
-      "PGY-5": loadSchedule("PGY-5"),
-      "PGY-6": loadSchedule("PGY-6"),
-    });
+    // Load saved state once for performance optimization
+    setCachedContext(snapshotContext());
   }, []);
 
   useEffect(() => {
     if (!seedsKey) return;
     try {
-      const raw = localStorage.getItem(seedsKey);
+      const raw = storage.getItem(seedsKey);
       setPriorSeeds(raw ? JSON.parse(raw) : {});
     } catch {
       setPriorSeeds({});
@@ -164,22 +177,26 @@ export default function CallSchedule() {
     const next = { ...priorSeeds, [iso]: fid };
     setPriorSeeds(next);
     try {
-      if (seedsKey) localStorage.setItem(seedsKey, JSON.stringify(next));
+      if (seedsKey) storage.setItem(seedsKey, JSON.stringify(next));
     } catch {}
   };
 
   const allDays = useMemo(() => {
     if (!setup?.yearStart) return [] as string[];
-    const start = parseISO(setup.yearStart);
-    const end = new Date(start.getFullYear() + 1, 5, 30);
-    const list: string[] = [];
-    let cur = new Date(start);
-    while (cur <= end) {
-      list.push(toISO(cur));
-      cur.setDate(cur.getDate() + 1);
-    }
-    return list;
-  }, [setup?.yearStart]);
+    return academicYearWindow(setup.yearStart, setup.yearEnd).days.map(toISO);
+  }, [setup?.yearStart, setup?.yearEnd]);
+
+  // A day opened from the Health panel (?date=YYYY-MM-DD): show the table and scroll the day into view
+  // once the tab's own scroll restoration has run
+  const focusISO = searchParams.get("date");
+  useEffect(() => {
+    if (!focusISO || !allDays.includes(focusISO)) return;
+    setActiveScheduleView("table");
+    const timer = setTimeout(() => {
+      document.getElementById(`call-day-${focusISO}`)?.scrollIntoView({ block: "center", behavior: "smooth" });
+    }, 400);
+    return () => clearTimeout(timer);
+  }, [focusISO, allDays, setActiveScheduleView]);
 
   // Calculate HF uncovered state when schedule loads or changes
   useEffect(() => {
@@ -193,13 +210,13 @@ export default function CallSchedule() {
     const uncoveredWeekends = allWeekendStarts.filter(d => !hfSchedule.weekends[d]);
     
     // Calculate uncovered holidays
-    const allHolidays = computeAcademicYearHolidays(setup.yearStart);
+    const allHolidays = computeAcademicYearHolidays(setup.yearStart, setup.yearEnd);
     const uncoveredHols = allHolidays.filter(h => !hfSchedule.holidays?.[h.date]).map(h => h.date);
     
     setUncoveredHF(uncoveredWeekends);
     setUncoveredHolidays(uncoveredHols);
     setHFSuccess(uncoveredWeekends.length === 0 && uncoveredHols.length === 0);
-  }, [hfSchedule, setup?.yearStart, allDays]);
+  }, [hfSchedule, setup?.yearStart, setup?.yearEnd, allDays]);
 
   // Calculate Jeopardy uncovered state when schedule loads or changes
   useEffect(() => {
@@ -222,25 +239,27 @@ export default function CallSchedule() {
   const holidayMap = useMemo(() => {
     if (!setup?.yearStart) return {} as Record<string, string>;
     const map: Record<string, string> = {};
-    for (const h of computeAcademicYearHolidays(setup.yearStart)) map[h.date] = h.name;
+    for (const h of computeAcademicYearHolidays(setup.yearStart, setup.yearEnd)) map[h.date] = h.name;
     return map;
-  }, [setup?.yearStart]);
+  }, [setup?.yearStart, setup?.yearEnd]);
 
   const weekdays = ["Sun", "Mon", "Tue", "Wed", "Thu", "Fri", "Sat"];
 
   const months = useMemo(() => {
     if (!setup?.yearStart) return [] as { label: string; firstWeekday: number; daysInMonth: number; year: number; month: number }[];
     const start = parseISO(setup.yearStart);
+    const end = parseISO(academicYearEnd(setup.yearStart, setup.yearEnd));
     const list: { label: string; firstWeekday: number; daysInMonth: number; year: number; month: number }[] = [];
     for (let i = 0; i < 12; i++) {
       const d = new Date(start.getFullYear(), start.getMonth() + i, 1);
+      if (d > end) break;
       const label = d.toLocaleString(undefined, { month: "long", year: "numeric" });
       const firstWeekday = new Date(d.getFullYear(), d.getMonth(), 1).getDay();
       const daysInMonth = new Date(d.getFullYear(), d.getMonth() + 1, 0).getDate();
       list.push({ label, firstWeekday, daysInMonth, year: d.getFullYear(), month: d.getMonth() });
     }
     return list;
-  }, [setup?.yearStart]);
+  }, [setup?.yearStart, setup?.yearEnd]);
   const fellowById = useMemo(() => Object.fromEntries(fellows.map((f) => [f.id, f] as const)), [fellows]);
 
   // Assign stable fellow color variants (f1..f15) based on fellows order
@@ -264,11 +283,8 @@ export default function CallSchedule() {
     []
   );
 
-  const blockKeyForDate = (d: Date) => {
-    const abbr = monthAbbrForIndex(d.getMonth());
-    const half = d.getDate() <= 15 ? 1 : 2;
-    return `${abbr}${half}`;
-  };
+  const blockCalendar = useMemo(() => loadSettings().blockCalendar, []);
+  const blockKeyOf = (d: Date) => (setup ? blockKeyForDate(format(d, "yyyy-MM-dd"), setup.yearStart, blockCalendar, setup.yearEnd) : undefined);
 
   const rotationOnDate = (fid?: string, d?: Date) => {
     if (!fid || !d) return undefined;
@@ -277,7 +293,7 @@ export default function CallSchedule() {
     const sched = schedByPGY[f.pgy];
     const row = sched?.byFellow?.[fid];
     if (!row) return undefined;
-    return row[blockKeyForDate(d)];
+    return row[blockKeyOf(d)];
   };
 
   const isWeekend = (d: Date) => {
@@ -338,15 +354,25 @@ export default function CallSchedule() {
     return list.sort((a, b) => a.iso.localeCompare(b.iso));
   }, [schedule, setup, fellowById, rotationOnDate]);
 
-  const handleGenerate = async () => {
+  const handleGenerate = async (seed = parseSeed(seedText)) => {
     setLoading(true);
     try {
-      const result = buildPrimaryCallSchedule({ priorPrimarySeeds: priorSeeds });
+      const outcome = await runJob({ kind: "primary-call", priorPrimarySeeds: priorSeeds, seed });
+      if (outcome.status === "cancelled") return;
+      const result = outcome.result;
       setSchedule(result.schedule);
       setUncovered(result.uncovered ?? []);
       setSuccess(result.success);
+      labelEdit("Generate primary call");
       saveCallSchedule(result.schedule);
       saveCoverageMetadata({ uncovered: result.uncovered ?? [], success: result.success });
+    } catch (error) {
+      console.error('Primary call generation error:', error);
+      toast({
+        title: "Generation Failed",
+        description: error instanceof Error ? error.message : "Failed to generate primary call. Please try again.",
+        variant: "destructive",
+      });
     } finally {
       setLoading(false);
     }
@@ -357,40 +383,39 @@ export default function CallSchedule() {
     setUncovered([]);
     setSuccess(null);
     try {
-      localStorage.removeItem("cfsa_calls_v1");
+      labelEdit("Clear primary call");
+      clearCallSchedule();
       clearCoverageMetadata();
     } catch {}
   };
 
-  const handleGenerateHF = async () => {
+  const handleGenerateHF = async (seed = parseSeed(seedText)) => {
     setHFLoading(true);
     
-    // Clear existing schedule to enable reshuffle
-    setHFSchedule(null);
-    setUncoveredHF([]);
-    setUncoveredHolidays([]);
-    setHFSuccess(null);
-    clearHFSchedule();
-    
     try {
       // Get or initialize run counter for this academic year
       const yearKey = `hf_run_counter_${setup?.yearStart || new Date().getFullYear()}`;
-      const currentRun = parseInt(localStorage.getItem(yearKey) || "0") + 1;
-      localStorage.setItem(yearKey, currentRun.toString());
+      const currentRun = parseInt(storage.getItem(yearKey) || "0") + 1;
+      storage.setItem(yearKey, currentRun.toString());
       
-      // Use run counter as seed for randomization on subsequent generations
-      const isReshuffle = currentRun > 1;
+      // Use run counter as seed for randomization on subsequent generations, unless a seed was given
+      const isReshuffle = currentRun > 1 || seed !== undefined;
       
-      const result = buildHFSchedule({
-        seed: currentRun,
+      const outcome = await runJob({
+        kind: "hf",
+        seed: seed ?? currentRun,
         randomize: isReshuffle,
         attempts: 1
       });
+      if (outcome.status === "cancelled") return;
+      const result = outcome.result;
       
       setHFSchedule(result.schedule);
       setUncoveredHF(result.uncovered ?? []);
       setUncoveredHolidays(result.uncoveredHolidays ?? []);
       setHFSuccess(result.success);
+      // The new schedule replaces the saved one only once the run has finished
+      labelEdit("Generate HF coverage");
       saveHFSchedule(result.schedule);
       
       let errorMessage = "";
@@ -419,6 +444,13 @@ export default function CallSchedule() {
       if (result.mandatoryMissed?.length > 0) {
         console.warn("Mandatory HF assignments missed:", result.mandatoryMissed);
       }
+    } catch (error) {
+      console.error('HF generation error:', error);
+      toast({
+        title: "Generation Failed",
+        description: error instanceof Error ? error.message : "Failed to generate HF coverage. Please try again.",
+        variant: "destructive",
+      });
     } finally {
       setHFLoading(false);
     }
@@ -429,6 +461,7 @@ export default function CallSchedule() {
     setUncoveredHF([]);
     setUncoveredHolidays([]);
     setHFSuccess(null);
+    labelEdit("Clear HF coverage");
     clearHFSchedule();
     toast({
       title: "HF schedule cleared",
@@ -447,7 +480,7 @@ export default function CallSchedule() {
       const date = parseISO(d);
       return date.getDay() === 0 || date.getDay() === 6; // Sunday or Saturday
     });
-    const allHolidays = computeAcademicYearHolidays(setup?.yearStart || "");
+    const allHolidays = computeAcademicYearHolidays(setup?.yearStart || "", setup?.yearEnd);
     const uncoveredWeekends = allWeekends.filter(d => !newSchedule.weekends[d]);
     const uncoveredHols = allHolidays.filter(h => !newSchedule.holidays?.[h.date]).map(h => h.date);
     
@@ -461,13 +494,16 @@ export default function CallSchedule() {
     });
   };
 
-  const handleGenerateJeopardy = async () => {
+  const handleGenerateJeopardy = async (seed = parseSeed(seedText)) => {
     setJeopardyLoading(true);
     try {
-      const result = buildJeopardySchedule();
+      const outcome = await runJob({ kind: "jeopardy", seed });
+      if (outcome.status === "cancelled") return;
+      const result = outcome.result;
       setJeopardySchedule(result.schedule);
       setUncoveredJeopardy(result.uncovered);
       setJeopardySuccess(result.success);
+      labelEdit("Generate jeopardy");
       saveJeopardySchedule(result.schedule);
       
       toast({
@@ -477,6 +513,13 @@ export default function CallSchedule() {
           : `${result.uncovered.length} days could not be assigned. Check constraints.`,
         variant: result.success ? "default" : "destructive",
       });
+    } catch (error) {
+      console.error('Jeopardy generation error:', error);
+      toast({
+        title: "Generation Failed",
+        description: error instanceof Error ? error.message : "Failed to generate jeopardy. Please try again.",
+        variant: "destructive",
+      });
     } finally {
       setJeopardyLoading(false);
     }
@@ -486,6 +529,7 @@ export default function CallSchedule() {
     setJeopardySchedule(null);
     setUncoveredJeopardy([]);
     setJeopardySuccess(null);
+    labelEdit("Clear jeopardy");
     clearJeopardySchedule();
     toast({
       title: "Jeopardy schedule cleared",
@@ -551,9 +595,12 @@ export default function CallSchedule() {
     setClinicSuccess(null);
     
     try {
-      const newSchedule = buildClinicSchedule(schedule, setup);
+      const outcome = await runJob({ kind: "clinic", callSchedule: schedule });
+      if (outcome.status === "cancelled") return;
+      const newSchedule = outcome.result;
       if (newSchedule) {
         setClinicSchedule(newSchedule);
+        labelEdit("Generate clinics");
         saveClinicSchedule(newSchedule);
         setClinicSuccess(true);
         toast({
@@ -568,15 +615,108 @@ export default function CallSchedule() {
           variant: "destructive",
         });
       }
+    } catch (error) {
+      console.error('Clinic generation error:', error);
+      setClinicSuccess(false);
+      toast({
+        title: "Failed to generate clinic schedule",
+        description: error instanceof Error ? error.message : "Please try again.",
+        variant: "destructive",
+      });
     } finally {
       setClinicLoading(false);
     }
   };
 
+  // Rebuild the chosen schedules over a date range, in dependency order, keeping everything outside it.
+  // Each run reads the schedules saved by the one before.
+  const handleRegenerateRange = async (range: RegenerationRange, parts: RegenerationParts) => {
+    setRangeOpen(false);
+    const seed = parseSeed(seedText);
+    beginEdit(`Regenerate ${range.start} – ${range.end}`);
+    try {
+      const rebuilt: string[] = [];
+      const selected = [
+        parts.primary && "primary call",
+        parts.hf && "HF",
+        parts.jeopardy && "jeopardy",
+        parts.clinics && "clinics",
+      ].filter((part): part is string => !!part);
+      // Parts finished before the cancel stay saved, as one undoable edit with the rest left as they were
+      const reportCancel = () => {
+        if (rebuilt.length === 0) return;
+        const skipped = selected.filter((part) => !rebuilt.includes(part));
+        toast({
+          title: "Regeneration cancelled",
+          description: `Rebuilt ${rebuilt.join(", ")} from ${range.start} to ${range.end}; ${skipped.join(", ")} left unchanged. Undo reverts the rebuilt parts.`,
+        });
+      };
+      let callSchedule = schedule;
+      if (parts.primary) {
+        const outcome = await runJob({ kind: "primary-call", priorPrimarySeeds: priorSeeds, seed, range });
+        if (outcome.status === "cancelled") return reportCancel();
+        const result = outcome.result;
+        callSchedule = result.schedule;
+        setSchedule(result.schedule);
+        setUncovered(result.uncovered ?? []);
+        setSuccess(result.success);
+        saveCallSchedule(result.schedule);
+        saveCoverageMetadata({ uncovered: result.uncovered ?? [], success: result.success });
+        rebuilt.push("primary call");
+      }
+      if (parts.hf) {
+        const outcome = await runJob({ kind: "hf", seed, randomize: seed !== undefined, attempts: 1, range });
+        if (outcome.status === "cancelled") return reportCancel();
+        const result = outcome.result;
+        setHFSchedule(result.schedule);
+        setUncoveredHF(result.uncovered ?? []);
+        setUncoveredHolidays(result.uncoveredHolidays ?? []);
+        setHFSuccess(result.success);
+        saveHFSchedule(result.schedule);
+        rebuilt.push("HF");
+      }
+      if (parts.jeopardy) {
+        const outcome = await runJob({ kind: "jeopardy", seed, range });
+        if (outcome.status === "cancelled") return reportCancel();
+        const result = outcome.result;
+        setJeopardySchedule(result.schedule);
+        setUncoveredJeopardy(result.uncovered);
+        setJeopardySuccess(result.success);
+        saveJeopardySchedule(result.schedule);
+        rebuilt.push("jeopardy");
+      }
+      if (parts.clinics) {
+        const outcome = await runJob({ kind: "clinic", callSchedule, range });
+        if (outcome.status === "cancelled") return reportCancel();
+        if (outcome.result) {
+          setClinicSchedule(outcome.result);
+          saveClinicSchedule(outcome.result);
+          setClinicSuccess(true);
+          rebuilt.push("clinics");
+        }
+      }
+      if (rebuilt.length === 0) return;
+      toast({
+        title: "Range regenerated",
+        description: `Rebuilt ${rebuilt.join(", ")} from ${range.start} to ${range.end}.`,
+      });
+    } catch (error) {
+      console.error('Range regeneration error:', error);
+      toast({
+        title: "Regeneration Failed",
+        description: error instanceof Error ? error.message : "Failed to regenerate the range. Please try again.",
+        variant: "destructive",
+      });
+    } finally {
+      endEdit();
+    }
+  };
+
   const handleClearClinic = () => {
     setClinicSchedule(null);
     setClinicSuccess(null);
     setClinicCoverageGaps([]);
+    labelEdit("Clear clinics");
     clearClinicSchedule();
     toast({
       title: "Clinic schedule cleared",
@@ -719,7 +859,7 @@ export default function CallSchedule() {
 
       // Add schedule data
       const weekdays = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'];
-      const holidayMap = computeAcademicYearHolidays(setup.yearStart).reduce((acc, h) => {
+      const holidayMap = computeAcademicYearHolidays(setup.yearStart, setup.yearEnd).reduce((acc, h) => {
         acc[h.date] = h.name;
         return acc;
       }, {} as Record<string, string>);
@@ -747,7 +887,7 @@ export default function CallSchedule() {
         const hfFellow = hfAssignedId ? fellowById[hfAssignedId] : null;
 
         // Get vacation fellows - use proper block key calculation
-        const blockKey = blockKeyForDate(d);
+        const blockKey = blockKeyOf(d);
         const vacationFellows = fellows.filter(f => {
           const schedPGY = schedByPGY[f.pgy];
           return schedPGY?.byFellow?.[f.id]?.[blockKey] === "VAC";
@@ -878,7 +1018,7 @@ export default function CallSchedule() {
 
       // Calculate primary stats using exact logic from PrimaryCallStatsTable
       const order = ["M", "T", "W", "Th", "F", "Sa", "Su"] as const;
-      const blockKeyForISO = (iso: string) => blockKeyForDate(new Date(iso + "T00:00:00Z"));
+      const blockKeyForISO = (iso: string) => blockKeyOf(parseISO(iso));
       const monthLabel = (m: number) => new Date(Date.UTC(2000, m, 1)).toLocaleString(undefined, { month: "long" });
       const daysBetween = (a: Date, b: Date) => {
         const ms = a.getTime() - b.getTime();
@@ -1233,7 +1373,7 @@ export default function CallSchedule() {
             if (preferredDayOfWeek !== undefined) {
               // Calculate for the academic year
               const start = parseISO(clinicSchedule.yearStart);
-              const end = new Date(start.getFullYear() + 1, 5, 30); // June 30 of next year
+              const end = parseISO(academicYearEnd(clinicSchedule.yearStart, setup.yearEnd));
               let cur = start;
               
               while (cur <= end) {
@@ -1337,8 +1477,10 @@ export default function CallSchedule() {
     const result = applyDragAndDrop(schedule, sourceISO, targetISO);
     
     if (result.success && result.schedule) {
+      labelEdit(`Move primary call ${format(parseISO(sourceISO), "MMM d")} → ${format(parseISO(targetISO), "MMM d")}`);
       setSchedule(result.schedule);
       saveCallSchedule(result.schedule);
+      setPins(releaseChangedDayPins("primary", result.schedule.days, [sourceISO, targetISO]));
       
       // Recalculate uncovered days after drag
       const newUncovered = allDays.filter((d) => !result.schedule!.days[d]);
@@ -1379,7 +1521,7 @@ export default function CallSchedule() {
       const newUncoveredHF = allWeekends.filter(d => !hfSchedule.weekends[d]);
       setUncoveredHF(newUncoveredHF);
       
-      const allHolidays = computeAcademicYearHolidays(setup.yearStart);
+      const allHolidays = computeAcademicYearHolidays(setup.yearStart, setup.yearEnd);
       const newUncoveredHols = allHolidays.filter(h => !hfSchedule.holidays?.[h.date]).map(h => h.date);
       setUncoveredHolidays(newUncoveredHols);
       setHFSuccess(newUncoveredHF.length === 0 && newUncoveredHols.length === 0);
@@ -1419,25 +1561,50 @@ export default function CallSchedule() {
               <HeartPulse className="h-6 w-6 text-primary" /> Primary Call Schedule
             </h1>
             <div className="flex items-center gap-2">
-              <Button onClick={handleGenerate} disabled={loading || !setup}>
+              <SeedField value={seedText} onChange={setSeedText} disabled={jobRunning} />
+              <DropdownMenu>
+                <DropdownMenuTrigger asChild>
+                  <Button variant="outline" disabled={jobRunning || !setup}>
+                    <Repeat className="h-4 w-4" /> Same seed
+                  </Button>
+                </DropdownMenuTrigger>
+                <DropdownMenuContent align="end">
+                  <DropdownMenuItem disabled={schedule?.seed === undefined} onClick={() => handleGenerate(schedule?.seed)}>
+                    Regenerate primary call{schedule?.seed !== undefined ? ` (seed ${schedule.seed})` : ""}
+                  </DropdownMenuItem>
+                  <DropdownMenuItem disabled={!schedule || hfSchedule?.seed === undefined} onClick={() => handleGenerateHF(hfSchedule?.seed)}>
+                    Regenerate HF{hfSchedule?.seed !== undefined ? ` (seed ${hfSchedule.seed})` : ""}
+                  </DropdownMenuItem>
+                  <DropdownMenuItem
+                    disabled={!schedule || jeopardySchedule?.seed === undefined}
+                    onClick={() => handleGenerateJeopardy(jeopardySchedule?.seed)}
+                  >
+                    Regenerate jeopardy{jeopardySchedule?.seed !== undefined ? ` (seed ${jeopardySchedule.seed})` : ""}
+                  </DropdownMenuItem>
+                </DropdownMenuContent>
+              </DropdownMenu>
+              <Button variant="outline" onClick={() => setRangeOpen(true)} disabled={jobRunning || !setup || !schedule}>
+                <CalendarRange className="h-4 w-4" /> Regenerate range…
+              </Button>
+              <Button onClick={() => handleGenerate()} disabled={jobRunning || !setup}>
                 {loading ? <Loader2 className="h-4 w-4 animate-spin" /> : <RefreshCcw className="h-4 w-4" />} Generate
               </Button>
               <Button variant="outline" onClick={handleClear} disabled={loading}>
                 <Trash2 className="h-4 w-4" /> Clear
               </Button>
-              <Button onClick={handleGenerateHF} disabled={hfLoading || !setup || !schedule} variant="secondary">
+              <Button onClick={() => handleGenerateHF()} disabled={jobRunning || !setup || !schedule} variant="secondary">
                 {hfLoading ? <Loader2 className="h-4 w-4 animate-spin" /> : <HeartPulse className="h-4 w-4" />} Generate HF
               </Button>
               <Button variant="outline" onClick={handleClearHF} disabled={hfLoading} size="sm">
                 Clear HF
               </Button>
-              <Button onClick={handleGenerateJeopardy} disabled={jeopardyLoading || !setup || !schedule} variant="secondary">
+              <Button onClick={() => handleGenerateJeopardy()} disabled={jobRunning || !setup || !schedule} variant="secondary">
                 {jeopardyLoading ? <Loader2 className="h-4 w-4 animate-spin" /> : <RefreshCcw className="h-4 w-4" />} Generate Jeopardy
               </Button>
               <Button variant="outline" onClick={handleClearJeopardy} disabled={jeopardyLoading} size="sm">
                 Clear Jeopardy
               </Button>
-              <Button onClick={handleGenerateClinic} disabled={clinicLoading || !setup || !schedule} variant="secondary">
+              <Button onClick={handleGenerateClinic} disabled={jobRunning || !setup || !schedule} variant="secondary">
                 {clinicLoading ? <Loader2 className="h-4 w-4 animate-spin" /> : <RefreshCcw className="h-4 w-4" />} Generate Clinics
               </Button>
               <Button variant="outline" onClick={handleClearClinic} disabled={clinicLoading} size="sm">
@@ -1445,6 +1612,17 @@ export default function CallSchedule() {
               </Button>
             </div>
           </div>
+          <EngineJobProgress running={jobRunning} progress={jobProgress} onCancel={cancelJob} />
+          {setup && (
+            <RegenerateRangeDialog
+              open={rangeOpen}
+              onOpenChange={setRangeOpen}
+              yearStart={setup.yearStart}
+              yearEnd={setup.yearEnd}
+              available={{ primary: !!schedule, hf: !!hfSchedule, jeopardy: !!jeopardySchedule, clinics: !!clinicSchedule }}
+              onRegenerate={handleRegenerateRange}
+            />
+          )}
           <div className="flex justify-end gap-2">
             <Button onClick={handleCheckClinic} disabled={clinicCheckLoading || !clinicSchedule} variant="outline" size="sm">
               {clinicCheckLoading ? <Loader2 className="h-4 w-4 animate-spin" /> : <CheckCircle className="h-4 w-4" />} Check Clinics
@@ -1455,6 +1633,7 @@ export default function CallSchedule() {
             <Button onClick={handleExportExcel} disabled={exporting || !schedule} variant="outline">
               {exporting ? <Loader2 className="h-4 w-4 animate-spin" /> : <Download className="h-4 w-4" />} Export Excel
             </Button>
+            <CalendarExportMenu fellows={fellows} disabled={!schedule} />
           </div>
         </header>
         <div className="ecg-trace-static mt-2 mb-6" />
@@ -1470,8 +1649,10 @@ export default function CallSchedule() {
               <>
                 <div className="grid grid-cols-2 sm:grid-cols-4 gap-4">
                   <div>
-                    <div className="text-xs text-muted-foreground">Academic year start</div>
-                    <div className="font-medium">{setup.yearStart}</div>
+                    <div className="text-xs text-muted-foreground">Academic year</div>
+                    <div className="font-medium">
+                      {setup.yearStart} – {academicYearEnd(setup.yearStart, setup.yearEnd)}
+                    </div>
                   </div>
                   <div>
                     <div className="text-xs text-muted-foreground">Fellows</div>
@@ -1646,7 +1827,7 @@ export default function CallSchedule() {
         ? "bg-muted/70"
         : "";
       const primaryName = fid ? `${fellowById[fid]?.name ?? fid}${rot ? ` (${rot})` : ""}` : "—";
-      const blockKey = blockKeyForDate(d);
+      const blockKey = blockKeyOf(d);
       // Get HF assignment for this weekend (if it's a weekend)
       const getWeekendStart = (date: Date): string => {
         const day = date.getDay();
@@ -1665,7 +1846,11 @@ export default function CallSchedule() {
         .filter((f) => schedByPGY[f.pgy]?.byFellow?.[f.id]?.[blockKey] === "VAC")
         .map((f) => f.id);
       return (
-        <TableRow key={iso} className={rowClass}>
+        <TableRow
+          key={iso}
+          id={`call-day-${iso}`}
+          className={`${rowClass} ${iso === focusISO ? "outline outline-2 -outline-offset-2 outline-primary" : ""}`}
+        >
           <TableCell>{iso}</TableCell>
           <TableCell>{dow}</TableCell>
           <TableCell>{hol}</TableCell>
@@ -1678,6 +1863,7 @@ export default function CallSchedule() {
                   onClick={() => setEditISO(iso)}
                 >
                   {primaryName}
+                  {pins.primary[iso] === fid && <Pin className="ml-1 h-3 w-3" aria-label="Pinned" />}
                 </DraggableBadge>
               ) : (
                 <Button variant="link" size="sm" onClick={() => setEditISO(iso)}>Assign</Button>
@@ -1698,6 +1884,7 @@ export default function CallSchedule() {
                     onClick={() => setJeopardyEditISO(iso)}
                   >
                     {fellowById[jeopardyId]?.name ?? jeopardyId}{jeopardyRot ? ` (${jeopardyRot})` : ""}
+                    {pins.jeopardy[iso] === jeopardyId && <Pin className="ml-1 h-3 w-3" aria-label="Pinned" />}
                   </Badge>
                 );
               }
@@ -1732,6 +1919,8 @@ export default function CallSchedule() {
                 })();
                 
                 const hfRot = rotationOnDate(effectiveAssignment, d);
+                const weekendISO = d.getDay() === 6 ? iso : d.getDay() === 0 ? format(addDays(d, -1), "yyyy-MM-dd") : null;
+                const hfPinned = !!weekendISO && pins.hf[weekendISO] === effectiveAssignment;
                 return (
                   <Badge 
                     variant={fellowColorById[effectiveAssignment]} 
@@ -1739,6 +1928,7 @@ export default function CallSchedule() {
                     onClick={() => setHFEditISO(iso)}
                   >
                     {fellowById[effectiveAssignment]?.name ?? effectiveAssignment}{hfRot ? ` (${hfRot})` : ""} {isHoliday ? "(Holiday)" : ""}
+                    {hfPinned && <Pin className="ml-1 h-3 w-3" aria-label="Pinned" />}
                   </Badge>
                 );
               }
@@ -1802,6 +1992,7 @@ export default function CallSchedule() {
                         onClick={() => handleClinicEdit(iso, index)}
                       >
                         {fellowById[assignment.fellowId]?.name ?? assignment.fellowId}: {assignment.clinicType === "GENERAL" ? "Gen" : assignment.clinicType === "HEART_FAILURE" ? "HF" : assignment.clinicType === "ACHD" ? "ACHD" : assignment.clinicType === "DEVICE" ? "Dev" : "EP"}
+                        {isClinicPinned(pins, iso, assignment) && <Pin className="ml-1 h-3 w-3" aria-label="Pinned" />}
                       </Badge>
                     ))}
                     <Button
@@ -1961,6 +2152,7 @@ export default function CallSchedule() {
             <span className="text-[0.6rem] px-1 py-0">
               {`${last}${rot ? ` (${rot})` : ""}`}
             </span>
+            {pins.primary[iso] === fid && <Pin className="h-2.5 w-2.5" aria-label="Pinned" />}
           </DraggableBadge>
         </div>
       ) : schedule ? (
@@ -2039,9 +2231,11 @@ export default function CallSchedule() {
                 <PrimaryCallEditDialog
                   iso={editISO}
                   schedule={schedule}
-                  cachedSchedules={cachedSchedules ?? undefined}
+                  context={cachedContext ?? undefined}
                   onClose={() => setEditISO(null)}
+                  onPinsChange={setPins}
                   onApply={(updated) => {
+                    labelEdit(`Edit primary call ${format(parseISO(editISO), "MMM d")}`);
                     setSchedule(updated);
                     saveCallSchedule(updated);
                     const newUncovered = allDays.filter((d) => !updated.days[d]);
@@ -2062,6 +2256,7 @@ export default function CallSchedule() {
                   fellows={fellows}
                   schedule={hfSchedule}
                   onUpdate={handleHFScheduleUpdate}
+                  onPinsChange={setPins}
                 />
               )}
               
@@ -2072,6 +2267,7 @@ export default function CallSchedule() {
                   open={true}
                   onClose={() => setJeopardyEditISO(null)}
                   onApply={handleJeopardyScheduleUpdate}
+                  onPinsChange={setPins}
                 />
               )}
               
@@ -2097,6 +2293,7 @@ export default function CallSchedule() {
                     setClinicEditIndex(null);
                   }}
                   onApply={handleClinicScheduleUpdate}
+                  onPinsChange={setPins}
                   mode={clinicEditMode}
                 />
               )}
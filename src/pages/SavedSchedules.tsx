@@ -25,8 +25,11 @@ import { SnapshotCard } from "@/components/SnapshotCard";
 import { SaveSnapshotDialog } from "@/components/SaveSnapshotDialog";
 import { RestoreSnapshotDialog } from "@/components/RestoreSnapshotDialog";
 import { RenameSnapshotDialog } from "@/components/RenameSnapshotDialog";
+import { SnapshotDiffDialog, type DiffSide } from "@/components/SnapshotDiffDialog";
 import {
-  ScheduleSnapshot,
+  SnapshotInfo,
+  captureCurrentSchedule,
+  loadSnapshot,
   loadSnapshots,
   saveSnapshot,
   restoreSnapshot,
@@ -38,7 +41,7 @@ import {
   getStorageUsage,
 } from "@/lib/snapshot-engine";
 import { useSEO } from "@/lib/seo";
-import { Save, Upload, Download, Archive } from "lucide-react";
+import { Save, Upload, Download, Archive, GitCompare } from "lucide-react";
 
 type FilterType = "all" | "manual" | "auto";
 type SortType = "date-desc" | "date-asc" | "name";
@@ -46,7 +49,7 @@ type SortType = "date-desc" | "date-asc" | "name";
 export default function SavedSchedules() {
   const navigate = useNavigate();
   const { toast } = useToast();
-  const [snapshots, setSnapshots] = useState<ScheduleSnapshot[]>([]);
+  const [snapshots, setSnapshots] = useState<SnapshotInfo[]>([]);
   const [filter, setFilter] = useState<FilterType>("all");
   const [sort, setSort] = useState<SortType>("date-desc");
   const [search, setSearch] = useState("");
@@ -54,9 +57,14 @@ export default function SavedSchedules() {
 
   // Dialog states
   const [saveDialogOpen, setSaveDialogOpen] = useState(false);
-  const [restoreDialogSnapshot, setRestoreDialogSnapshot] = useState<ScheduleSnapshot | null>(null);
-  const [renameDialogSnapshot, setRenameDialogSnapshot] = useState<ScheduleSnapshot | null>(null);
-  const [deleteDialogSnapshot, setDeleteDialogSnapshot] = useState<ScheduleSnapshot | null>(null);
+  const [restoreDialogSnapshot, setRestoreDialogSnapshot] = useState<SnapshotInfo | null>(null);
+  const [renameDialogSnapshot, setRenameDialogSnapshot] = useState<SnapshotInfo | null>(null);
+  const [deleteDialogSnapshot, setDeleteDialogSnapshot] = useState<SnapshotInfo | null>(null);
+
+  // Compare mode: the first snapshot picked, then a second one or the current schedule
+  const [compareMode, setCompareMode] = useState(false);
+  const [compareBase, setCompareBase] = useState<SnapshotInfo | null>(null);
+  const [diffSides, setDiffSides] = useState<{ before: DiffSide; after: DiffSide } | null>(null);
 
   useSEO({
     title: "Saved Schedules | Cardiology Fellowship Scheduler",
@@ -67,9 +75,16 @@ export default function SavedSchedules() {
     refreshSnapshots();
   }, []);
 
-  const refreshSnapshots = () => {
-    setSnapshots(loadSnapshots());
-    setStorageUsage(getStorageUsage());
+  const failed = (title: string, error: unknown) =>
+    toast({ title, description: error instanceof Error ? error.message : String(error), variant: "destructive" });
+
+  const refreshSnapshots = async () => {
+    try {
+      setSnapshots(await loadSnapshots());
+    } catch (error) {
+      failed("Could not load saved schedules", error);
+    }
+    setStorageUsage(await getStorageUsage());
   };
 
   const filteredSnapshots = snapshots
@@ -96,15 +111,19 @@ export default function SavedSchedules() {
       return a.name.localeCompare(b.name);
     });
 
-  const handleSave = (name: string, description?: string) => {
-    saveSnapshot(name, description, false);
+  const handleSave = async (name: string, description?: string) => {
+    try {
+      await saveSnapshot(name, description, false);
+      toast({ title: "Snapshot saved", description: `"${name}" has been saved.` });
+    } catch (error) {
+      failed("Save failed", error);
+    }
     refreshSnapshots();
-    toast({ title: "Snapshot saved", description: `"${name}" has been saved.` });
   };
 
-  const handleRestore = () => {
+  const handleRestore = async () => {
     if (!restoreDialogSnapshot) return;
-    const success = restoreSnapshot(restoreDialogSnapshot.id);
+    const success = await restoreSnapshot(restoreDialogSnapshot.id).catch(() => false);
     if (success) {
       toast({
         title: "Schedule restored",
@@ -118,24 +137,77 @@ export default function SavedSchedules() {
     }
   };
 
-  const handleRename = (name: string, description?: string) => {
+  const handleRename = async (name: string, description?: string) => {
     if (!renameDialogSnapshot) return;
-    renameSnapshot(renameDialogSnapshot.id, name, description);
+    try {
+      await renameSnapshot(renameDialogSnapshot.id, name, description);
+      toast({ title: "Snapshot renamed" });
+    } catch (error) {
+      failed("Rename failed", error);
+    }
     refreshSnapshots();
-    toast({ title: "Snapshot renamed" });
   };
 
-  const handleDelete = () => {
+  const handleDelete = async () => {
     if (!deleteDialogSnapshot) return;
-    deleteSnapshot(deleteDialogSnapshot.id);
+    try {
+      await deleteSnapshot(deleteDialogSnapshot.id);
+      toast({ title: "Snapshot deleted" });
+    } catch (error) {
+      failed("Delete failed", error);
+    }
     refreshSnapshots();
-    toast({ title: "Snapshot deleted" });
     setDeleteDialogSnapshot(null);
   };
 
-  const handleExport = (snapshot: ScheduleSnapshot) => {
-    exportSnapshot(snapshot.id);
-    toast({ title: "Snapshot exported" });
+  const handleExport = async (snapshot: SnapshotInfo) => {
+    try {
+      await exportSnapshot(snapshot.id);
+      toast({ title: "Snapshot exported" });
+    } catch (error) {
+      failed("Export failed", error);
+    }
+  };
+
+  const exitCompare = () => {
+    setCompareMode(false);
+    setCompareBase(null);
+  };
+
+  // Unpacks the compared snapshots; the list only holds their summaries
+  const openDiff = async (before: SnapshotInfo, after: SnapshotInfo | null) => {
+    exitCompare();
+    try {
+      const [was, now] = await Promise.all([loadSnapshot(before.id), after ? loadSnapshot(after.id) : null]);
+      if (!was || (after && !now)) throw new Error("Snapshot not found");
+      setDiffSides({
+        before: was,
+        after: now ?? { name: "Current schedule", data: captureCurrentSchedule() },
+      });
+    } catch (error) {
+      failed("Compare failed", error);
+    }
+  };
+
+  const handleCompare = (snapshot: SnapshotInfo) => {
+    if (!compareMode) {
+      setCompareMode(true);
+      setCompareBase(snapshot);
+      return;
+    }
+    if (!compareBase || compareBase.id === snapshot.id) {
+      setCompareBase(compareBase ? null : snapshot);
+      return;
+    }
+    // Older snapshot on the left, whichever order they were picked in
+    const [before, after] = [compareBase, snapshot].sort(
+      (a, b) => new Date(a.createdAt).getTime() - new Date(b.createdAt).getTime()
+    );
+    openDiff(before, after);
+  };
+
+  const handleCompareWithCurrent = () => {
+    if (compareBase) openDiff(compareBase, null);
   };
 
   const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
@@ -185,7 +257,13 @@ export default function SavedSchedules() {
             </label>
           </Button>
           {snapshots.length > 0 && (
-            <Button variant="outline" onClick={exportAllSnapshots}>
+            <Button variant={compareMode ? "secondary" : "outline"} onClick={() => (compareMode ? exitCompare() : setCompareMode(true))}>
+              <GitCompare className="mr-2 h-4 w-4" />
+              Compare
+            </Button>
+          )}
+          {snapshots.length > 0 && (
+            <Button variant="outline" onClick={() => exportAllSnapshots().catch((error) => failed("Export failed", error))}>
               <Download className="mr-2 h-4 w-4" />
               Export All
             </Button>
@@ -235,6 +313,24 @@ export default function SavedSchedules() {
         </Select>
       </div>
 
+      {compareMode && (
+        <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-3 rounded-md border border-primary/50 bg-primary/5 p-3 text-sm">
+          <span>
+            {compareBase
+              ? `Comparing "${compareBase.name}": pick a second snapshot, or compare it with the current schedule.`
+              : "Pick a snapshot to compare."}
+          </span>
+          <div className="flex gap-2">
+            <Button size="sm" onClick={handleCompareWithCurrent} disabled={!compareBase}>
+              Compare with current
+            </Button>
+            <Button size="sm" variant="ghost" onClick={exitCompare}>
+              Cancel
+            </Button>
+          </div>
+        </div>
+      )}
+
       {/* Snapshots grid */}
       {filteredSnapshots.length === 0 ? (
         <div className="flex flex-col items-center justify-center py-12 text-center">
@@ -256,6 +352,9 @@ export default function SavedSchedules() {
               onRename={setRenameDialogSnapshot}
               onExport={handleExport}
               onDelete={setDeleteDialogSnapshot}
+              onCompare={handleCompare}
+              compareMode={compareMode}
+              selected={compareBase?.id === snapshot.id}
             />
           ))}
         </div>
@@ -282,6 +381,12 @@ export default function SavedSchedules() {
         onRename={handleRename}
       />
 
+      <SnapshotDiffDialog
+        before={diffSides?.before ?? null}
+        after={diffSides?.after ?? null}
+        onOpenChange={(open) => !open && setDiffSides(null)}
+      />
+
       <AlertDialog
         open={!!deleteDialogSnapshot}
         onOpenChange={(open) => !open && setDeleteDialogSnapshot(null)}
@@ -5,6 +5,7 @@ import { useSettings } from "@/hooks/use-settings";
 import { usePersistentTab } from "@/hooks/use-persistent-tab";
 import { useTabScrollRestoration } from "@/hooks/use-tab-scroll-restoration";
 import { validateSettings } from "@/lib/settings-validation";
+import { describeMigration } from "@/lib/migration-engine";
 import { Button } from "@/components/ui/button";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { Alert, AlertDescription } from "@/components/ui/alert";
@@ -25,7 +26,12 @@ import { JeopardySettings } from "@/components/settings/JeopardySettings";
 import { HFSettings } from "@/components/settings/HFSettings";
 import { ClinicSettings } from "@/components/settings/ClinicSettings";
 import { AmbulatorySettings } from "@/components/settings/AmbulatorySettings";
+import { BurdenSettings } from "@/components/settings/BurdenSettings";
+import { BlockCalendarSettings } from "@/components/settings/BlockCalendarSettings";
 import { BlockRotationSettings } from "@/components/settings/BlockRotationSettings";
+import { RotationCatalogSettings } from "@/components/settings/RotationCatalogSettings";
+import { TrainingRequirementSettings } from "@/components/settings/TrainingRequirementSettings";
+import { MigrationReportCard } from "@/components/settings/MigrationReportCard";
 
 export default function Settings() {
   const location = useLocation();
@@ -33,6 +39,7 @@ export default function Settings() {
   const {
     settings,
     hasUnsavedChanges,
+    updateSettings,
     updateSection,
     save,
     resetToDefaults,
@@ -79,7 +86,7 @@ export default function Settings() {
     if (result.success) {
       toast({
         title: "Settings Imported",
-        description: "Settings imported successfully. Remember to save changes.",
+        description: `${result.report ? `${describeMigration(result.report)}.` : "Settings imported successfully."} Remember to save changes.`,
       });
     } else {
       toast({
@@ -164,6 +171,7 @@ export default function Settings() {
           <TabsTrigger value="hf">HF Coverage</TabsTrigger>
           <TabsTrigger value="clinics">Clinics</TabsTrigger>
           <TabsTrigger value="ambulatory">Ambulatory</TabsTrigger>
+          <TabsTrigger value="burden">Burden Points</TabsTrigger>
         </TabsList>
 
         <TabsContent value="vacation">
@@ -173,13 +181,20 @@ export default function Settings() {
           />
         </TabsContent>
 
-        <TabsContent value="blocks">
-          <BlockRotationSettings settings={settings.blockRotations} />
+        <TabsContent value="blocks" className="space-y-6">
+          <BlockCalendarSettings
+            settings={settings.blockCalendar}
+            onUpdate={(data) => updateSection("blockCalendar", data)}
+          />
+          <BlockRotationSettings settings={settings.blockRotations} catalog={settings.rotationCatalog} />
+          <RotationCatalogSettings settings={settings} onUpdate={updateSettings} />
+          <TrainingRequirementSettings settings={settings} onUpdate={updateSettings} />
         </TabsContent>
 
         <TabsContent value="primary">
           <PrimaryCallSettings
             settings={settings.primaryCall}
+            rotations={settings.rotationCatalog}
             onUpdate={(data) => updateSection("primaryCall", data)}
           />
         </TabsContent>
@@ -201,6 +216,7 @@ export default function Settings() {
         <TabsContent value="clinics">
           <ClinicSettings
             settings={settings.clinics}
+            rotations={settings.rotationCatalog}
             onUpdate={(data) => updateSection("clinics", data)}
           />
         </TabsContent>
@@ -211,6 +227,13 @@ export default function Settings() {
             onUpdate={(data) => updateSection("ambulatoryFellow", data)}
           />
         </TabsContent>
+
+        <TabsContent value="burden">
+          <BurdenSettings
+            settings={settings.burden}
+            onUpdate={(data) => updateSection("burden", data)}
+          />
+        </TabsContent>
       </Tabs>
 
       <div className="flex justify-end gap-3 mt-8">
@@ -223,6 +246,8 @@ export default function Settings() {
         </Button>
       </div>
 
+      <MigrationReportCard />
+
       <AlertDialog open={showResetDialog} onOpenChange={setShowResetDialog}>
         <AlertDialogContent>
           <AlertDialogHeader>
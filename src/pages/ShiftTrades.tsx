@@ -0,0 +1,422 @@
+import { useMemo, useState } from "react";
+import { format, parseISO } from "date-fns";
+import { ArrowLeftRight, Check, Download, X } from "lucide-react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { useSEO } from "@/lib/seo";
+import { loadSetup } from "@/lib/schedule-engine";
+import { snapshotContext } from "@/lib/schedule-context";
+import {
+  approveTradeRequest,
+  createTradeRequest,
+  denyTradeRequest,
+  describeShift,
+  fellowShifts,
+  fellowTradeLog,
+  loadTradeLog,
+  loadTradeRequests,
+  planTrade,
+  tradeLogToCsv,
+  withdrawTradeRequest,
+  TRADE_DUTY_LABELS,
+  TRADE_KIND_LABELS,
+  type TradeDuty,
+  type TradeKind,
+  type TradeRequest,
+} from "@/lib/trade-engine";
+import { TradeApproveDialog } from "@/components/TradeApproveDialog";
+
+const DUTIES = Object.keys(TRADE_DUTY_LABELS) as TradeDuty[];
+const KINDS = Object.keys(TRADE_KIND_LABELS) as TradeKind[];
+const ANYONE = "__anyone";
+const ALL_FELLOWS = "__all";
+
+export default function ShiftTrades() {
+  const { toast } = useToast();
+
+  useSEO({
+    title: "Shift Trades | Cardiology Scheduler",
+    description: "Request, approve and audit shift trades between fellows.",
+    canonical: window.location.href,
+  });
+
+  const setup = loadSetup();
+  const fellows = useMemo(() => setup?.fellows ?? [], [setup]);
+  const name = (id: string | null | undefined) => (id ? fellows.find((f) => f.id === id)?.name ?? id : "—");
+
+  const [requests, setRequests] = useState<TradeRequest[]>(() => loadTradeRequests());
+  const [log, setLog] = useState(() => loadTradeLog());
+  // The saved schedules as of the last applied trade; shifts and trade checks are read from this copy
+  const [ctx, setCtx] = useState(() => snapshotContext());
+  const [approving, setApproving] = useState<TradeRequest | null>(null);
+  const [logFellow, setLogFellow] = useState(ALL_FELLOWS);
+
+  // New request form
+  const [requesterId, setRequesterId] = useState("");
+  const [duty, setDuty] = useState<TradeDuty>("primary");
+  const [date, setDate] = useState("");
+  const [kind, setKind] = useState<TradeKind>("swap");
+  const [counterpartId, setCounterpartId] = useState(ANYONE);
+  const [counterpartDate, setCounterpartDate] = useState("");
+  const [note, setNote] = useState("");
+
+  const myShifts = useMemo(() => (requesterId ? fellowShifts(requesterId, duty, ctx) : []), [requesterId, duty, ctx]);
+  const theirShifts = useMemo(
+    () => (kind === "swap" && counterpartId !== ANYONE ? fellowShifts(counterpartId, duty, ctx) : []),
+    [kind, counterpartId, duty, ctx]
+  );
+
+  const draft = useMemo<TradeRequest | null>(
+    () =>
+      requesterId && date
+        ? {
+            id: "draft",
+            createdAt: "",
+            status: "pending",
+            requesterId,
+            duty,
+            date,
+            kind,
+            counterpartId: kind === "open-swap" || counterpartId === ANYONE ? undefined : counterpartId,
+            counterpartDate: kind === "swap" ? counterpartDate || undefined : undefined,
+            note: note.trim() || undefined,
+          }
+        : null,
+    [requesterId, duty, date, kind, counterpartId, counterpartDate, note]
+  );
+  // Only a fully named trade can be checked up front; open ones are checked on approval
+  const draftCheck = useMemo(
+    () => (draft?.counterpartId && (draft.kind === "giveaway" || draft.counterpartDate) ? planTrade(draft, ctx) : null),
+    [draft, ctx]
+  );
+
+  const pending = useMemo(
+    () => requests.filter((r) => r.status === "pending").sort((a, b) => a.createdAt.localeCompare(b.createdAt)),
+    [requests]
+  );
+  const pendingChecks = useMemo(
+    () =>
+      Object.fromEntries(
+        pending.map((r) => [r.id, r.kind === "open-swap" || !r.counterpartId ? null : planTrade(r, ctx)] as const)
+      ),
+    [pending, ctx]
+  );
+  const visibleLog = useMemo(
+    () => (logFellow === ALL_FELLOWS ? log : fellowTradeLog(logFellow, log)).slice().reverse(),
+    [log, logFellow]
+  );
+
+  const resetForm = () => {
+    setDate("");
+    setCounterpartId(ANYONE);
+    setCounterpartDate("");
+    setNote("");
+  };
+
+  const handleSubmit = () => {
+    if (!draft) return;
+    const res = createTradeRequest(draft);
+    if (!res.ok) {
+      toast({ title: "Cannot submit request", description: res.reasons?.join(", "), variant: "destructive" });
+      return;
+    }
+    setRequests(loadTradeRequests());
+    resetForm();
+    toast({ title: "Trade requested", description: "The request is waiting for approval." });
+  };
+
+  const handleApprove = (resolution: Pick<TradeRequest, "counterpartId" | "counterpartDate">, decisionNote?: string) => {
+    if (!approving) return;
+    const res = approveTradeRequest(approving.id, resolution, decisionNote);
+    if (!res.ok) {
+      toast({ title: "Cannot apply trade", description: res.reasons?.join(", "), variant: "destructive" });
+      return;
+    }
+    setRequests(loadTradeRequests());
+    setLog(loadTradeLog());
+    setCtx(snapshotContext());
+    setApproving(null);
+    toast({ title: "Trade applied", description: `${res.entry.changes.length} day(s) changed hands.` });
+  };
+
+  const handleDeny = (id: string) => {
+    setRequests(denyTradeRequest(id));
+    toast({ title: "Trade denied" });
+  };
+
+  const handleWithdraw = (id: string) => {
+    setRequests(withdrawTradeRequest(id));
+    toast({ title: "Request withdrawn" });
+  };
+
+  const handleExportLog = () => {
+    const blob = new Blob([tradeLogToCsv(visibleLog, fellows)], { type: "text/csv;charset=utf-8" });
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement("a");
+    a.href = url;
+    a.download = logFellow === ALL_FELLOWS ? "trade_log.csv" : `trade_log_${name(logFellow).replace(/\s+/g, "_")}.csv`;
+    a.click();
+    URL.revokeObjectURL(url);
+  };
+
+  return (
+    <main className="min-h-screen bg-background">
+      <section className="container mx-auto px-4 py-8 space-y-6">
+        <div>
+          <h1 className="text-2xl font-semibold font-display flex items-center gap-2">
+            <ArrowLeftRight className="h-6 w-6 text-primary" /> Shift Trades
+          </h1>
+          <div className="ecg-trace-static mt-2" />
+        </div>
+
+        {!setup ? (
+          <div className="text-muted-foreground">Please complete Setup and the call schedules first.</div>
+        ) : (
+          <>
+            <Card>
+              <CardHeader>
+                <CardTitle className="font-display">New request</CardTitle>
+              </CardHeader>
+              <CardContent className="space-y-4">
+                <div className="grid gap-4 sm:grid-cols-2 lg:grid-cols-4">
+                  <div className="space-y-2">
+                    <Label>Fellow</Label>
+                    <Select value={requesterId} onValueChange={(v) => { setRequesterId(v); resetForm(); }}>
+                      <SelectTrigger><SelectValue placeholder="Choose a fellow" /></SelectTrigger>
+                      <SelectContent>
+                        {fellows.map((f) => (
+                          <SelectItem key={f.id} value={f.id}>{f.name} ({f.pgy})</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                  <div className="space-y-2">
+                    <Label>Duty</Label>
+                    <Select value={duty} onValueChange={(v) => { setDuty(v as TradeDuty); resetForm(); }}>
+                      <SelectTrigger><SelectValue /></SelectTrigger>
+                      <SelectContent>
+                        {DUTIES.map((d) => (
+                          <SelectItem key={d} value={d}>{TRADE_DUTY_LABELS[d]}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                  <div className="space-y-2">
+                    <Label>Shift</Label>
+                    <Select value={date} onValueChange={setDate} disabled={!requesterId}>
+                      <SelectTrigger>
+                        <SelectValue placeholder={requesterId && myShifts.length === 0 ? "No shifts" : "Choose a shift"} />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {myShifts.map((s) => (
+                          <SelectItem key={s.date} value={s.date}>{describeShift(duty, s.date, ctx)}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                  <div className="space-y-2">
+                    <Label>Trade</Label>
+                    <Select value={kind} onValueChange={(v) => { setKind(v as TradeKind); setCounterpartId(ANYONE); setCounterpartDate(""); }}>
+                      <SelectTrigger><SelectValue /></SelectTrigger>
+                      <SelectContent>
+                        {KINDS.map((k) => (
+                          <SelectItem key={k} value={k}>{TRADE_KIND_LABELS[k]}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                  {kind !== "open-swap" && (
+                    <div className="space-y-2">
+                      <Label>{kind === "giveaway" ? "Give to" : "Swap with"}</Label>
+                      <Select value={counterpartId} onValueChange={(v) => { setCounterpartId(v); setCounterpartDate(""); }}>
+                        <SelectTrigger><SelectValue /></SelectTrigger>
+                        <SelectContent>
+                          {kind === "giveaway" && <SelectItem value={ANYONE}>Chief decides</SelectItem>}
+                          {kind === "swap" && <SelectItem value={ANYONE} disabled>Choose a fellow</SelectItem>}
+                          {fellows.filter((f) => f.id !== requesterId).map((f) => (
+                            <SelectItem key={f.id} value={f.id}>{f.name} ({f.pgy})</SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </div>
+                  )}
+                  {kind === "swap" && (
+                    <div className="space-y-2">
+                      <Label>Their shift</Label>
+                      <Select value={counterpartDate} onValueChange={setCounterpartDate} disabled={counterpartId === ANYONE}>
+                        <SelectTrigger>
+                          <SelectValue placeholder={counterpartId !== ANYONE && theirShifts.length === 0 ? "No shifts" : "Choose a shift"} />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {theirShifts.map((s) => (
+                            <SelectItem key={s.date} value={s.date}>{describeShift(duty, s.date, ctx)}</SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </div>
+                  )}
+                  <div className="space-y-2 sm:col-span-2">
+                    <Label htmlFor="trade-note">Note</Label>
+                    <Input id="trade-note" value={note} onChange={(e) => setNote(e.target.value)} placeholder="Reason for the trade (optional)" />
+                  </div>
+                </div>
+
+                {draftCheck && (
+                  <div className={`text-sm ${draftCheck.ok ? "text-primary" : "text-destructive"}`}>
+                    {draftCheck.ok ? "This trade passes every scheduling rule." : draftCheck.reasons?.join(", ")}
+                  </div>
+                )}
+
+                <div className="flex justify-end">
+                  <Button onClick={handleSubmit} disabled={!draft || (kind === "swap" && !counterpartDate)}>
+                    Submit request
+                  </Button>
+                </div>
+              </CardContent>
+            </Card>
+
+            <Card>
+              <CardHeader>
+                <CardTitle className="font-display">Pending requests ({pending.length})</CardTitle>
+              </CardHeader>
+              <CardContent>
+                {pending.length === 0 ? (
+                  <div className="text-sm text-muted-foreground">No requests waiting for approval.</div>
+                ) : (
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead>Requested</TableHead>
+                        <TableHead>Fellow</TableHead>
+                        <TableHead>Duty</TableHead>
+                        <TableHead>Shift</TableHead>
+                        <TableHead>Trade</TableHead>
+                        <TableHead>With</TableHead>
+                        <TableHead>Check</TableHead>
+                        <TableHead className="text-right">Actions</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {pending.map((r) => {
+                        const check = pendingChecks[r.id];
+                        return (
+                          <TableRow key={r.id}>
+                            <TableCell>{format(new Date(r.createdAt), "MMM d, h:mm a")}</TableCell>
+                            <TableCell>{name(r.requesterId)}</TableCell>
+                            <TableCell>{TRADE_DUTY_LABELS[r.duty]}</TableCell>
+                            <TableCell>{describeShift(r.duty, r.date, ctx)}</TableCell>
+                            <TableCell>{TRADE_KIND_LABELS[r.kind]}</TableCell>
+                            <TableCell>
+                              {r.counterpartId ? name(r.counterpartId) : "Open"}
+                              {r.counterpartDate && (
+                                <div className="text-xs text-muted-foreground">{describeShift(r.duty, r.counterpartDate, ctx)}</div>
+                              )}
+                            </TableCell>
+                            <TableCell>
+                              {!check ? (
+                                <Badge variant="secondary">On approval</Badge>
+                              ) : check.ok ? (
+                                <Badge>Valid</Badge>
+                              ) : (
+                                <Badge variant="destructive" title={check.reasons?.join("\n")}>Invalid</Badge>
+                              )}
+                            </TableCell>
+                            <TableCell className="text-right space-x-2 whitespace-nowrap">
+                              <Button size="sm" onClick={() => setApproving(r)} disabled={check ? !check.ok : false}>
+                                <Check className="h-4 w-4" /> Approve
+                              </Button>
+                              <Button size="sm" variant="outline" onClick={() => handleDeny(r.id)}>
+                                <X className="h-4 w-4" /> Deny
+                              </Button>
+                              <Button size="sm" variant="ghost" onClick={() => handleWithdraw(r.id)}>
+                                Withdraw
+                              </Button>
+                            </TableCell>
+                          </TableRow>
+                        );
+                      })}
+                    </TableBody>
+                  </Table>
+                )}
+              </CardContent>
+            </Card>
+
+            <Card>
+              <CardHeader className="flex flex-row items-center justify-between gap-2 space-y-0">
+                <CardTitle className="font-display">Trade log</CardTitle>
+                <div className="flex items-center gap-2">
+                  <Select value={logFellow} onValueChange={setLogFellow}>
+                    <SelectTrigger className="w-[200px]"><SelectValue /></SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value={ALL_FELLOWS}>All fellows</SelectItem>
+                      {fellows.map((f) => (
+                        <SelectItem key={f.id} value={f.id}>{f.name}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <Button variant="outline" onClick={handleExportLog} disabled={visibleLog.length === 0}>
+                    <Download className="mr-2 h-4 w-4" /> Export CSV
+                  </Button>
+                </div>
+              </CardHeader>
+              <CardContent>
+                {visibleLog.length === 0 ? (
+                  <div className="text-sm text-muted-foreground">No trades applied yet.</div>
+                ) : (
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead>Applied</TableHead>
+                        <TableHead>Duty</TableHead>
+                        <TableHead>Trade</TableHead>
+                        <TableHead>Requested by</TableHead>
+                        <TableHead>With</TableHead>
+                        <TableHead>Changes</TableHead>
+                        <TableHead>Note</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {visibleLog.map((e) => (
+                        <TableRow key={e.id}>
+                          <TableCell className="whitespace-nowrap">{format(new Date(e.appliedAt), "MMM d, yyyy h:mm a")}</TableCell>
+                          <TableCell>{TRADE_DUTY_LABELS[e.duty]}</TableCell>
+                          <TableCell>
+                            {TRADE_KIND_LABELS[e.kind]}
+                            {e.action === "reversed" && <Badge variant="secondary" className="ml-2">Reversed</Badge>}
+                          </TableCell>
+                          <TableCell>{name(e.requesterId)}</TableCell>
+                          <TableCell>{name(e.counterpartId)}</TableCell>
+                          <TableCell className="text-xs">
+                            {e.changes.map((c) => (
+                              <div key={c.date}>
+                                {format(parseISO(c.date), "MMM d")}: {name(c.from)} → {name(c.to)}
+                              </div>
+                            ))}
+                          </TableCell>
+                          <TableCell className="text-xs text-muted-foreground">{e.note}</TableCell>
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                )}
+              </CardContent>
+            </Card>
+          </>
+        )}
+      </section>
+
+      <TradeApproveDialog
+        request={approving}
+        fellows={fellows}
+        onOpenChange={(open) => !open && setApproving(null)}
+        onApprove={handleApprove}
+      />
+    </main>
+  );
+}
@@ -1,18 +1,22 @@
 import { useState, useEffect, useMemo } from "react";
 import { useLocation } from "react-router-dom";
-import { HeartPulse, Loader2, RefreshCcw, Trash2 } from "lucide-react";
-import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { HeartPulse, Loader2, RefreshCcw, Scale, Trash2 } from "lucide-react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { useSEO } from "@/lib/seo";
 import { usePersistentTab } from "@/hooks/use-persistent-tab";
 import { useTabScrollRestoration } from "@/hooks/use-tab-scroll-restoration";
 import { loadSetup } from "@/lib/schedule-engine";
-import { buildPrimaryCallSchedule, loadCallSchedule, saveCallSchedule, saveCoverageMetadata, loadCoverageMetadata, clearCoverageMetadata, optimizePGY4WkndHolEquity, type CallSchedule } from "@/lib/call-engine";
+import { buildPrimaryCallSchedule, loadCallSchedule, saveCallSchedule, clearCallSchedule, saveCoverageMetadata, loadCoverageMetadata, clearCoverageMetadata, optimizePGY4WkndHolEquity, type CallSchedule } from "@/lib/call-engine";
 import { Tabs, TabsList, TabsTrigger, TabsContent } from "@/components/ui/tabs";
 import PrimaryCallStatsTable from "@/components/PrimaryCallStatsTable";
 import HFCoverageStatsTable from "@/components/HFCoverageStatsTable";
 import JeopardyStatsTable from "@/components/JeopardyStatsTable";
 import ClinicStatsTable from "@/components/ClinicStatsTable";
+import HealthPanel from "@/components/HealthPanel";
+import BurdenStatsTable from "@/components/BurdenStatsTable";
+import FairnessOptimizerDialog from "@/components/FairnessOptimizerDialog";
+import { labelEdit } from "@/lib/history-engine";
 
 export default function Statistics() {
   const location = useLocation();
@@ -30,6 +34,7 @@ export default function Statistics() {
   const [uncovered, setUncovered] = useState<string[]>([]);
   const [success, setSuccess] = useState<boolean | null>(null);
   const [optimizing, setOptimizing] = useState(false);
+  const [fairnessOpen, setFairnessOpen] = useState(false);
   const [pgy4Stats, setPgy4Stats] = useState<Array<{ id: string; name: string; wkndHolCount: number }>>([]);
   const [activeTab, setActiveTab] = usePersistentTab('statistics', 'primary');
   
@@ -68,7 +73,7 @@ export default function Statistics() {
     setSuccess(null);
     setPgy4Stats([]);
     try {
-      localStorage.removeItem("cfsa_calls_v1");
+      clearCallSchedule();
       clearCoverageMetadata();
     } catch {}
   };
@@ -88,6 +93,13 @@ export default function Statistics() {
     }
   };
 
+  const handleAcceptFairness = (next: CallSchedule) => {
+    labelEdit("Optimize call fairness");
+    saveCallSchedule(next);
+    setSchedule(next);
+    setFairnessOpen(false);
+  };
+
   return (
     <main className="min-h-screen bg-background">
       <section className="container mx-auto px-4 py-8">
@@ -101,6 +113,8 @@ export default function Statistics() {
             <TabsTrigger value="hf">HF Coverage Statistics</TabsTrigger>
             <TabsTrigger value="jeopardy">Jeopardy Statistics</TabsTrigger>
             <TabsTrigger value="clinic">Clinic Statistics</TabsTrigger>
+            <TabsTrigger value="burden">Call Burden</TabsTrigger>
+            <TabsTrigger value="health">Health</TabsTrigger>
           </TabsList>
           <TabsContent value="primary" className="space-y-6">
             <div className="flex items-center justify-end gap-2">
@@ -112,6 +126,11 @@ export default function Statistics() {
                   {optimizing ? <Loader2 className="h-4 w-4 animate-spin" /> : <RefreshCcw className="h-4 w-4" />} Optimize PGY-4
                 </Button>
               )}
+              {schedule && (
+                <Button variant="secondary" onClick={() => setFairnessOpen(true)} disabled={optimizing || loading}>
+                  <Scale className="h-4 w-4" /> Optimize fairness
+                </Button>
+              )}
               <Button variant="outline" onClick={handleClear} disabled={loading}>
                 <Trash2 className="h-4 w-4" /> Clear
               </Button>
@@ -219,7 +238,41 @@ export default function Statistics() {
               </CardContent>
             </Card>
           </TabsContent>
+          <TabsContent value="burden">
+            <Card>
+              <CardHeader>
+                <CardTitle>Call Burden</CardTitle>
+                <CardDescription>
+                  Primary call, jeopardy, HF and clinics on one points scale. The heaviest year in each PGY is highlighted.
+                </CardDescription>
+              </CardHeader>
+              <CardContent>
+                <BurdenStatsTable fellows={fellows} />
+              </CardContent>
+            </Card>
+          </TabsContent>
+          <TabsContent value="health">
+            <Card>
+              <CardHeader>
+                <CardTitle>Health</CardTitle>
+                <CardDescription>
+                  Every saved schedule checked against the rules in Settings. Click a row to open the day.
+                </CardDescription>
+              </CardHeader>
+              <CardContent>
+                <HealthPanel fellows={fellows} />
+              </CardContent>
+            </Card>
+          </TabsContent>
         </Tabs>
+        {schedule && (
+          <FairnessOptimizerDialog
+            open={fairnessOpen}
+            onOpenChange={setFairnessOpen}
+            schedule={schedule}
+            onAccept={handleAcceptFairness}
+          />
+        )}
       </section>
     </main>
   );
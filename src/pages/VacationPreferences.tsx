@@ -7,6 +7,16 @@ import { Label } from "@/components/ui/label";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
 import {
   DndContext,
   closestCenter,
@@ -27,19 +37,29 @@ import { CSS } from "@dnd-kit/utilities";
 
 import { useToast } from "@/hooks/use-toast";
 import { useSEO } from "@/lib/seo";
-import { BlockInfo, generateAcademicYearBlocks } from "@/lib/block-utils";
+import { BlockInfo, academicYearEnd, generateAcademicYearBlocks } from "@/lib/block-utils";
 import { HeartPulse, GripVertical } from "lucide-react";
 import { computeAcademicYearHolidays } from "@/lib/holidays";
 import { loadSettings } from "@/lib/settings-engine";
+import {
+  academicYearLabel,
+  academicYearOf,
+  loadArchivedYears,
+  pgyInYear,
+  startNextAcademicYear,
+} from "@/lib/academic-year-engine";
+import { loadSetup, saveSetup, type RotationRequest, type SetupState, type Unavailability } from "@/lib/schedule-engine";
+import { FellowRotationDialog } from "@/components/FellowRotationDialog";
+import { FellowUnavailabilityDialog } from "@/components/FellowUnavailabilityDialog";
 
 export type PGY = "PGY-4" | "PGY-5" | "PGY-6";
-export type Fellow = { id: string; name: string; pgy: PGY; clinicDay?: "Monday" | "Tuesday" | "Wednesday" | "Thursday" | "Friday"; vacationPrefs: (string | undefined)[] };
+export type Fellow = { id: string; name: string; pgy: PGY; clinicDay?: "Monday" | "Tuesday" | "Wednesday" | "Thursday" | "Friday"; vacationPrefs: (string | undefined)[]; startYear?: number; track?: string; rotationQuotas?: Partial<Record<string, number>>; rotationRequests?: RotationRequest[]; unavailability?: Unavailability[] };
 export type Holiday = { id: string; date: string; name: string };
 
-const STORAGE_KEY = "cfsa_setup_v1";
 
 type AppSetup = {
   yearStart: string; // ISO date
+  yearEnd?: string; // ISO date of the last day; unset runs twelve months
   fellows: Fellow[];
   holidays: Holiday[];
 };
@@ -51,20 +71,13 @@ const defaultYearStart = () => {
 };
 
 function useSetupState() {
-  const [raw, setRaw] = useState<AppSetup>(() => {
-    try {
-      const item = localStorage.getItem(STORAGE_KEY);
-      return item
-        ? (JSON.parse(item) as AppSetup)
-        : { yearStart: defaultYearStart(), fellows: [], holidays: [] };
-    } catch {
-      return { yearStart: defaultYearStart(), fellows: [], holidays: [] };
-    }
-  });
+  const [raw, setRaw] = useState<AppSetup>(
+    () => (loadSetup() as AppSetup | null) ?? { yearStart: defaultYearStart(), fellows: [], holidays: [] }
+  );
 
   const save = (next: AppSetup) => {
     setRaw(next);
-    localStorage.setItem(STORAGE_KEY, JSON.stringify(next));
+    saveSetup(next as SetupState);
   };
 
   return [raw, save] as const;
@@ -73,11 +86,17 @@ function useSetupState() {
 function FellowRow({
   fellow,
   blocks,
+  academicYear,
+  yearStart,
+  yearEnd,
   onChange,
   onRemove,
 }: {
   fellow: Fellow;
   blocks: BlockInfo[];
+  academicYear: number;
+  yearStart: string;
+  yearEnd?: string;
   onChange: (f: Fellow) => void;
   onRemove: () => void;
 }) {
@@ -89,33 +108,19 @@ function FellowRow({
     transition,
     isDragging,
   } = useSortable({ id: fellow.id });
+  const [rotationsOpen, setRotationsOpen] = useState(false);
+  const [unavailabilityOpen, setUnavailabilityOpen] = useState(false);
+  const customized = Object.keys(fellow.rotationQuotas ?? {}).length + (fellow.rotationRequests?.length ?? 0);
   
-  const monthsJulDec = ["JUL", "AUG", "SEP", "OCT", "NOV", "DEC"];
-  const monthsJanJun = ["JAN", "FEB", "MAR", "APR", "MAY", "JUN"];
-  const sortByMonth = (arr: BlockInfo[], months: string[]) =>
-    arr
-      .slice()
-      .sort((a, b) => {
-        const ma = months.indexOf(a.key.slice(0, 3));
-        const mb = months.indexOf(b.key.slice(0, 3));
-        if (ma !== mb) return ma - mb;
-        return a.half - b.half;
-      });
-  const firstHalf = sortByMonth(
-    blocks.filter((b) => monthsJulDec.includes(b.key.slice(0, 3))),
-    monthsJulDec
-  );
-  const secondHalf = sortByMonth(
-    blocks.filter((b) => monthsJanJun.includes(b.key.slice(0, 3))),
-    monthsJanJun
-  );
+  // Blocks are in date order; the first six months of the academic year are the first half
+  const firstHalf = blocks.filter((b) => b.monthIndex < 6);
+  const secondHalf = blocks.filter((b) => b.monthIndex >= 6);
   const settings = loadSettings();
   const firstHalfAllowed = firstHalf.filter((b) => {
-    const month = b.key.slice(0, 3);
     // Check July restriction from settings
-    if (settings.vacation.julyRestriction && month === "JUL") return false;
+    if (settings.vacation.julyRestriction && b.monthIndex === 0) return false;
     // Check PGY-4 August restriction from settings
-    if (settings.vacation.pgy4AugustRestriction && fellow.pgy === "PGY-4" && month === "AUG") return false;
+    if (settings.vacation.pgy4AugustRestriction && fellow.pgy === "PGY-4" && b.monthIndex === 1) return false;
     return true;
   });
   const rowTone =
@@ -154,7 +159,9 @@ function FellowRow({
       <TableCell className="min-w-[140px]">
         <Select
           value={fellow.pgy}
-          onValueChange={(v) => onChange({ ...fellow, pgy: v as any })}
+          onValueChange={(v) =>
+            onChange({ ...fellow, pgy: v as PGY, startYear: academicYear - (Number(v.slice(4)) - 4) })
+          }
         >
           <SelectTrigger>
             <SelectValue placeholder="PGY" />
@@ -166,6 +173,27 @@ function FellowRow({
           </SelectContent>
         </Select>
       </TableCell>
+      <TableCell className="min-w-[110px]">
+        <Input
+          className="h-10"
+          type="number"
+          value={fellow.startYear ?? academicYear - (Number(fellow.pgy.slice(4)) - 4)}
+          onChange={(e) => {
+            const startYear = Number(e.target.value);
+            if (!startYear) return;
+            // Keep PGY in step with the start year while it falls inside the fellowship
+            onChange({ ...fellow, startYear, pgy: pgyInYear(startYear, academicYear) ?? fellow.pgy });
+          }}
+        />
+      </TableCell>
+      <TableCell className="min-w-[140px]">
+        <Input
+          className="h-10"
+          value={fellow.track ?? ""}
+          placeholder="Clinical"
+          onChange={(e) => onChange({ ...fellow, track: e.target.value || undefined })}
+        />
+      </TableCell>
       <TableCell className="min-w-[140px]">
         <Select
           value={fellow.clinicDay || ""}
@@ -223,6 +251,40 @@ function FellowRow({
           </Select>
         </TableCell>
       ))}
+      <TableCell className="min-w-[120px]">
+        <Button variant="outline" size="sm" onClick={() => setRotationsOpen(true)}>
+          {customized > 0 ? `Custom (${customized})` : "Class default"}
+        </Button>
+        <FellowRotationDialog
+          open={rotationsOpen}
+          onOpenChange={setRotationsOpen}
+          fellowName={fellow.name}
+          pgy={fellow.pgy}
+          blocks={blocks}
+          value={fellow}
+          onSave={(rotations) => {
+            onChange({ ...fellow, ...rotations });
+            setRotationsOpen(false);
+          }}
+        />
+      </TableCell>
+      <TableCell className="min-w-[120px]">
+        <Button variant="outline" size="sm" onClick={() => setUnavailabilityOpen(true)}>
+          {fellow.unavailability?.length ? `${fellow.unavailability.length} date range${fellow.unavailability.length === 1 ? "" : "s"}` : "None"}
+        </Button>
+        <FellowUnavailabilityDialog
+          open={unavailabilityOpen}
+          onOpenChange={setUnavailabilityOpen}
+          fellowName={fellow.name}
+          yearStart={yearStart}
+          yearEnd={yearEnd}
+          value={fellow.unavailability}
+          onSave={(entries) => {
+            onChange({ ...fellow, unavailability: entries.length > 0 ? entries : undefined });
+            setUnavailabilityOpen(false);
+          }}
+        />
+      </TableCell>
       <TableCell className="text-right">
         <Button variant="ghost" onClick={onRemove}>
           Remove
@@ -244,8 +306,14 @@ export default function VacationPreferences() {
   
 
   const [setup, save] = useSetupState();
-  const blocks = useMemo(() => generateAcademicYearBlocks(setup.yearStart), [setup.yearStart]);
   const settings = useMemo(() => loadSettings(), []);
+  const blocks = useMemo(
+    () => generateAcademicYearBlocks(setup.yearStart, settings.blockCalendar, setup.yearEnd),
+    [setup.yearStart, setup.yearEnd, settings.blockCalendar]
+  );
+  const academicYear = academicYearOf(setup.yearStart);
+  const [archivedYears, setArchivedYears] = useState(() => loadArchivedYears());
+  const [confirmNextYear, setConfirmNextYear] = useState(false);
 
   const sensors = useSensors(
     useSensor(PointerSensor, {
@@ -258,12 +326,12 @@ export default function VacationPreferences() {
     })
   );
 
-  // Auto-generate the 13 holidays whenever the start date changes
+  // Auto-generate the holidays whenever the start or end date changes
   useEffect(() => {
-    const defaults = computeAcademicYearHolidays(setup.yearStart);
+    const defaults = computeAcademicYearHolidays(setup.yearStart, setup.yearEnd);
     save({ ...setup, holidays: defaults });
     // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, [setup.yearStart]);
+  }, [setup.yearStart, setup.yearEnd]);
 
   // Auto-clear invalid clinic days when settings change
   useEffect(() => {
@@ -299,22 +367,34 @@ export default function VacationPreferences() {
       ...setup,
       fellows: [
         ...setup.fellows,
-        { id, name: "", pgy: "PGY-4", clinicDay: undefined, vacationPrefs: [undefined, undefined, undefined, undefined] },
+        { id, name: "", pgy: "PGY-4", clinicDay: undefined, vacationPrefs: [undefined, undefined, undefined, undefined], startYear: academicYear },
       ],
     });
   };
 
+  const handleStartNextYear = () => {
+    const next = startNextAcademicYear();
+    setConfirmNextYear(false);
+    if (!next) return;
+    save(next.setup);
+    setArchivedYears(loadArchivedYears());
+    toast({
+      title: `Started ${academicYearLabel(next.setup.yearStart)}`,
+      description: `Promoted ${next.promoted.length} fellows, graduated ${next.graduated.length}. Last year's schedules were archived.`,
+    });
+  };
+
   const randomizeVacationPrefs = () => {
     if (setup.fellows.length === 0) {
       toast({ variant: "destructive", title: "No fellows", description: "Add fellows first before randomizing." });
       return;
     }
 
-    const monthsJulDec = ["JUL", "AUG", "SEP", "OCT", "NOV", "DEC"];
-    const monthsJanJun = ["JAN", "FEB", "MAR", "APR", "MAY", "JUN"];
+    const firstHalfMonths = [0, 1, 2, 3, 4, 5];
+    const secondHalfMonths = [6, 7, 8, 9, 10, 11];
     
-    const getRandomBlocksForHalf = (months: string[], count: number = 2) => {
-      const halfBlocks = blocks.filter((b) => months.includes(b.key.slice(0, 3)));
+    const getRandomBlocksForHalf = (months: number[], count: number = 2) => {
+      const halfBlocks = blocks.filter((b) => months.includes(b.monthIndex));
       const shuffled = [...halfBlocks].sort(() => Math.random() - 0.5);
       return shuffled.slice(0, count).map(b => b.key);
     };
@@ -330,15 +410,15 @@ export default function VacationPreferences() {
       .filter(Boolean) as ("Monday" | "Tuesday" | "Wednesday" | "Thursday" | "Friday")[];
     
     const updatedFellows = setup.fellows.map(fellow => {
-      const allowedFirstHalfMonths = monthsJulDec.filter(m => {
+      const allowedFirstHalfMonths = firstHalfMonths.filter(m => {
         // Check July restriction from settings
-        if (settings.vacation.julyRestriction && m === "JUL") return false;
+        if (settings.vacation.julyRestriction && m === 0) return false;
         // Check PGY-4 August restriction from settings
-        if (settings.vacation.pgy4AugustRestriction && fellow.pgy === "PGY-4" && m === "AUG") return false;
+        if (settings.vacation.pgy4AugustRestriction && fellow.pgy === "PGY-4" && m === 1) return false;
         return true;
       });
       const firstHalfPrefs = getRandomBlocksForHalf(allowedFirstHalfMonths, 2);
-      const secondHalfPrefs = getRandomBlocksForHalf(monthsJanJun, 2);
+      const secondHalfPrefs = getRandomBlocksForHalf(secondHalfMonths, 2);
       
       // Randomly assign clinic day from available options
       const randomClinicDay = availableClinicDays.length > 0
@@ -421,7 +501,7 @@ export default function VacationPreferences() {
           <TabsContent value="fellows" className="mt-6 animate-fade-in">
             <Card className="mb-6">
               <CardHeader>
-                <CardTitle className="font-display">Fellowship Start Date</CardTitle>
+                <CardTitle className="font-display">Academic Year Dates</CardTitle>
               </CardHeader>
               <CardContent>
                 <div className="grid sm:grid-cols-2 gap-4">
@@ -432,8 +512,29 @@ export default function VacationPreferences() {
                       value={setup.yearStart}
                       onChange={(e) => save({ ...setup, yearStart: e.target.value })}
                     />
+                    <Label className="mt-3 mb-1 block">Last day (optional)</Label>
+                    <Input
+                      type="date"
+                      value={setup.yearEnd ?? ""}
+                      min={setup.yearStart}
+                      max={academicYearEnd(setup.yearStart)}
+                      onChange={(e) => save({ ...setup, yearEnd: e.target.value || undefined })}
+                    />
                     <p className="text-xs text-muted-foreground mt-2">
-                      Generates 24 two-week blocks (e.g., JUL1, JUL2) used throughout scheduling.
+                      The year runs {setup.yearStart} to {academicYearEnd(setup.yearStart, setup.yearEnd)}; set a last
+                      day for a partial year. Blocks used throughout scheduling follow the block calendar in Settings →
+                      Block Rotations ({blocks.length} blocks, e.g. {blocks.slice(0, 2).map((b) => b.key).join(", ")}).
+                    </p>
+                  </div>
+                  <div>
+                    <Label className="mb-1 block">Academic year {academicYearLabel(setup.yearStart)}</Label>
+                    <Button variant="outline" onClick={() => setConfirmNextYear(true)} disabled={setup.fellows.length === 0}>
+                      Start next academic year
+                    </Button>
+                    <p className="text-xs text-muted-foreground mt-2">
+                      {archivedYears.length
+                        ? `Archived: ${archivedYears.map((y) => academicYearLabel(y.yearStart)).join(", ")}. Call spacing and holiday fairness carry over from prior years.`
+                        : "No archived years yet."}
                     </p>
                   </div>
                 </div>
@@ -462,18 +563,22 @@ export default function VacationPreferences() {
                         <TableHead className="w-8"></TableHead>
                         <TableHead className="w-[260px]">Name</TableHead>
                         <TableHead>PGY</TableHead>
+                        <TableHead>Start Year</TableHead>
+                        <TableHead>Track</TableHead>
                         <TableHead>Clinic Day</TableHead>
                         <TableHead>Pref 1 (Jul–Dec)</TableHead>
                         <TableHead>Pref 2 (Jul–Dec)</TableHead>
                         <TableHead>Pref 3 (Jan–Jun)</TableHead>
                         <TableHead>Pref 4 (Jan–Jun)</TableHead>
+                        <TableHead>Rotations</TableHead>
+                        <TableHead>Unavailable</TableHead>
                         <TableHead className="text-right">Status</TableHead>
                       </TableRow>
                     </TableHeader>
                     <TableBody>
                       {setup.fellows.length === 0 ? (
                         <TableRow>
-                          <TableCell colSpan={9} className="text-center text-muted-foreground">
+                          <TableCell colSpan={13} className="text-center text-muted-foreground">
                             No fellows yet. Click "Add Fellow" to begin.
                           </TableCell>
                         </TableRow>
@@ -492,6 +597,9 @@ export default function VacationPreferences() {
                                 key={f.id}
                                 fellow={f}
                                 blocks={blocks}
+                                academicYear={academicYear}
+                                yearStart={setup.yearStart}
+                                yearEnd={setup.yearEnd}
                                 onChange={(next) => updateFellow(f.id, next)}
                                 onRemove={() => removeFellow(f.id)}
                               />
@@ -515,11 +623,11 @@ export default function VacationPreferences() {
               <CardContent>
                 <div className="flex justify-between items-center mb-4">
                   <p className="text-sm text-muted-foreground">
-                    These 13 holidays are auto-generated from the Fellowship start date. Edit dates as needed. Changing the start date will reset them.
+                    These holidays are auto-generated for the academic year. Edit dates as needed. Changing the start or end date will reset them.
                   </p>
                   <Button
                     variant="outline"
-                    onClick={() => save({ ...setup, holidays: computeAcademicYearHolidays(setup.yearStart) })}
+                    onClick={() => save({ ...setup, holidays: computeAcademicYearHolidays(setup.yearStart, setup.yearEnd) })}
                   >
                     Reset to defaults
                   </Button>
@@ -565,6 +673,23 @@ export default function VacationPreferences() {
           </TabsContent>
         </Tabs>
       </section>
+
+      <AlertDialog open={confirmNextYear} onOpenChange={setConfirmNextYear}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Start {academicYearLabel(`${academicYear + 1}${setup.yearStart.slice(4)}`)}?</AlertDialogTitle>
+            <AlertDialogDescription>
+              {academicYearLabel(setup.yearStart)} and its schedules will be archived. Fellows move up one PGY
+              level, PGY-6 fellows graduate, and vacation preferences are cleared. This year's block, call, HF,
+              jeopardy and clinic schedules are removed from the working view.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction onClick={handleStartNextYear}>Start next year</AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
     </main>
   );
 }
@@ -0,0 +1,37 @@
+import { beforeEach, vi } from "vitest";
+
+// Without IndexedDB the storage layer reads and writes localStorage directly, so each test starts from
+// an empty in-memory one
+class MemoryStorage implements Storage {
+  private data = new Map<string, string>();
+
+  get length() {
+    return this.data.size;
+  }
+
+  key(index: number) {
+    return [...this.data.keys()][index] ?? null;
+  }
+
+  getItem(key: string) {
+    return this.data.get(key) ?? null;
+  }
+
+  setItem(key: string, value: string) {
+    this.data.set(key, String(value));
+  }
+
+  removeItem(key: string) {
+    this.data.delete(key);
+  }
+
+  clear() {
+    this.data.clear();
+  }
+}
+
+beforeEach(() => {
+  vi.stubGlobal("localStorage", new MemoryStorage());
+  // Refused writes are reported with console.error; the tests check the outcome instead
+  vi.spyOn(console, "error").mockImplementation(() => undefined);
+});